@@ -3,6 +3,7 @@ import { BrowserRouter, Routes, Route, Navigate } from 'react-router-dom'
 import Layout from './components/Layout'
 import AutoTrading from './pages/AutoTrading'
 import Admin from './pages/Admin'
+import Backtest from './pages/Backtest'
 
 function App() {
   return (
@@ -16,6 +17,7 @@ function App() {
         <Routes>
           <Route path="/" element={<AutoTrading />} />
           <Route path="/admin" element={<Admin />} />
+          <Route path="/backtest" element={<Backtest />} />
           <Route path="*" element={<Navigate to="/" replace />} />
         </Routes>
       </Layout>
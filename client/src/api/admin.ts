@@ -0,0 +1,11 @@
+/**
+ * 관리자 로그인 토큰 (/admin 페이지에서 로그인하면 localStorage에 보관)
+ * 관리자만 허용되는 자동매매 API(매매 정지 해제, 서킷 브레이커 설정)에 Authorization 헤더로 첨부
+ */
+
+export const ADMIN_TOKEN_KEY = 'admin_token'
+
+export function adminHeaders(): Record<string, string> {
+  const token = localStorage.getItem(ADMIN_TOKEN_KEY)
+  return token ? { Authorization: `Bearer ${token}` } : {}
+}
@@ -1,4 +1,5 @@
 import axios, { InternalAxiosRequestConfig, AxiosResponse, AxiosError } from 'axios'
+import { getLicenseToken, handleLicenseError, LICENSE_TOKEN_HEADER } from './license'
 
 // Vite 프록시를 사용하므로 상대 경로 사용
 // 개발 환경: /api로 시작하는 요청은 자동으로 http://localhost:8000으로 프록시됨
@@ -16,6 +17,11 @@ export const apiClient = axios.create({
 // 요청 인터셉터
 apiClient.interceptors.request.use(
   (config: InternalAxiosRequestConfig) => {
+    // 라이선스 세션 토큰 첨부 (연결/자동매매 API에 필요)
+    const licenseToken = getLicenseToken()
+    if (licenseToken) {
+      config.headers.set(LICENSE_TOKEN_HEADER, licenseToken)
+    }
     return config
   },
   (error: AxiosError) => {
@@ -30,9 +36,13 @@ apiClient.interceptors.response.use(
     // 경고 메시지가 있는 경우에도 정상 응답으로 처리 (에러는 onSuccess에서 처리)
     return response
   },
-  (error: AxiosError<{ detail?: string; message?: string; error?: string }>) => {
+  (error: AxiosError<{ detail?: string; message?: string; error?: string; code?: string }>) => {
     // 400, 500 등의 실제 HTTP 에러만 여기서 처리
     if (error.response) {
+      // 라이선스 세션이 없거나 키가 만료/비활성화된 경우 (401/403)
+      if (error.response.status === 401 || error.response.status === 403) {
+        handleLicenseError(error.response.data)
+      }
       const message = error.response.data?.error || error.response.data?.detail || error.response.data?.message || '오류가 발생했습니다'
       console.error('API Error:', message)
     }
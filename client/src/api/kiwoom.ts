@@ -1,4 +1,5 @@
 import apiClient from './client'
+import { adminHeaders } from './admin'
 
 export interface KiwoomConfig {
   host: string
@@ -33,6 +34,42 @@ export interface OrderRequest {
   accountProductCode?: string
 }
 
+// 호가 (매도/매수 10단계, 최우선호가부터)
+export interface OrderBookLevel {
+  price: number
+  quantity: number
+}
+
+export interface OrderBook {
+  code: string
+  asks: OrderBookLevel[]
+  bids: OrderBookLevel[]
+  totalAskQuantity: number
+  totalBidQuantity: number
+  time: string // 호가시간 (HHmmss)
+  source: 'realtime' | 'rest'
+  updatedAt: string
+}
+
+// 서버-키움 실시간 WebSocket 연결 상태
+export interface RealtimeConnectionState {
+  status: 'disconnected' | 'connecting' | 'connected' | 'reconnecting'
+  attempt: number // 재연결 시도 횟수
+  nextRetryAt: string | null
+  connectedAt: string | null
+  lastMessageAt: string | null
+  lastError: string | null
+}
+
+// 정정/취소 주문 (quantity 생략 또는 0이면 미체결 잔량 전부)
+export interface OrderRevisionRequest {
+  code: string
+  quantity?: number
+  price?: number // 정정 주문 가격
+  accountNo?: string
+  accountProductCode?: string
+}
+
 export const kiwoomApi = {
   // 연결
   connect: async (config: KiwoomConfig) => {
@@ -68,6 +105,20 @@ export const kiwoomApi = {
     return response.data.candles || []
   },
 
+  // 실시간 분봉 (서버가 실시간 체결로 만든 1/3/5/15/30/60분봉, 최신 봉이 먼저)
+  getBars: async (code: string, timeframe: number = 1, limit?: number) => {
+    const response = await apiClient.get(`/stocks/${code}/bars`, {
+      params: { timeframe, limit }
+    })
+    return response.data.bars || []
+  },
+
+  // 호가 (실시간 변경은 WebSocket 'orderbook:subscribe'로 구독)
+  getOrderBook: async (code: string): Promise<OrderBook> => {
+    const response = await apiClient.get(`/stocks/${code}/orderbook`)
+    return response.data
+  },
+
   // 계좌 정보
   getAccounts: async (accountNo?: string, accountProductCode?: string) => {
     const response = await apiClient.get('/accounts', {
@@ -100,6 +151,26 @@ export const kiwoomApi = {
     return response.data
   },
 
+  // 주문 취소 (부분 취소 가능)
+  cancelOrder: async (orderNumber: string, request: OrderRevisionRequest) => {
+    const response = await apiClient.delete(`/orders/${orderNumber}`, {
+      data: {
+        ...request,
+        accountProductCode: request.accountProductCode || '01',
+      },
+    })
+    return response.data
+  },
+
+  // 주문 정정 (응답의 orderNumber는 새 주문번호, originalOrderNumber는 원주문번호)
+  modifyOrder: async (orderNumber: string, request: OrderRevisionRequest) => {
+    const response = await apiClient.patch(`/orders/${orderNumber}`, {
+      ...request,
+      accountProductCode: request.accountProductCode || '01',
+    })
+    return response.data
+  },
+
   // 설정 조회
   getSettings: async () => {
     const response = await apiClient.get('/settings')
@@ -186,5 +257,70 @@ export const kiwoomApi = {
     const response = await apiClient.post('/kiwoom/websocket/disconnect')
     return response.data
   },
+
+  // 서버 자동매매 엔진 시작
+  startTrading: async (config: any) => {
+    const response = await apiClient.post('/trading/start', config)
+    return response.data
+  },
+
+  // 서버 자동매매 엔진 중지
+  stopTrading: async () => {
+    const response = await apiClient.post('/trading/stop')
+    return response.data
+  },
+
+  // 서버 자동매매 엔진 상태 조회
+  getTradingStatus: async () => {
+    const response = await apiClient.get('/trading/status')
+    return response.data.status
+  },
+
+  // 매매 정지 (서킷 브레이커 수동 작동, 생략한 조치는 서버 설정을 따름)
+  haltTrading: async (request: {
+    message?: string
+    cancelOpenOrders?: boolean
+    flattenPositions?: boolean
+    accountNo?: string
+    accountProductCode?: string
+  } = {}) => {
+    const response = await apiClient.post('/trading/halt', request)
+    return response.data.circuitBreaker
+  },
+
+  // 매매 정지 해제 (관리자 로그인 필요)
+  resumeTrading: async () => {
+    const response = await apiClient.post('/trading/resume', undefined, { headers: adminHeaders() })
+    return response.data.circuitBreaker
+  },
+
+  // 백테스트 실행 (candles 생략 시 서버에서 차트 데이터 조회)
+  runBacktest: async (request: any) => {
+    const response = await apiClient.post('/backtest', request)
+    return response.data.result
+  },
+
+  // 실현손익 보고서 (일별/월별/전략별, 날짜는 YYYY-MM-DD)
+  getPnlReport: async (params: { accountNo?: string; from?: string; to?: string; includeTrades?: boolean } = {}) => {
+    const response = await apiClient.get('/reports/pnl', { params })
+    return response.data
+  },
+
+  // 실현손익 계산 설정 (평가 방법, 수수료율, 세율)
+  getPnlSettings: async () => {
+    const response = await apiClient.get('/reports/pnl/settings')
+    return response.data.settings
+  },
+
+  updatePnlSettings: async (settings: { method?: 'fifo' | 'average'; commissionPercent?: number; taxPercent?: number }) => {
+    const response = await apiClient.put('/reports/pnl/settings', settings)
+    return response.data.settings
+  },
+
+  // 매수 전략 목록과 파라미터 스키마 (판단 순서대로)
+  getStrategies: async () => {
+    const response = await apiClient.get('/strategies')
+    return response.data.strategies
+  },
 }
 
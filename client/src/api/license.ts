@@ -0,0 +1,171 @@
+/**
+ * 라이선스 세션 토큰 관리
+ * POST /api/auth/validate-key에서 받은 세션 토큰을 localStorage에 보관하고 만료 전에 갱신 (탭끼리 같은 세션 사용)
+ * 라이선스가 필요한 API 요청에는 X-License-Token 헤더로 첨부 (apiClient 요청 인터셉터)
+ */
+
+export const LICENSE_TOKEN_HEADER = 'X-License-Token'
+
+const DEVICE_ID_KEY = 'kiwoom_device_id'
+const SESSION_KEY = 'kiwoom_license_session'
+const REFRESH_BEFORE_MS = 5 * 60 * 1000 // 만료 5분 전에 갱신
+
+interface LicenseSession {
+  token: string
+  expiresAt: string
+}
+
+// 라이선스 오류 응답 (401 세션 없음/만료, 403 키 비활성화/만료)
+export interface LicenseError {
+  code: string
+  message: string
+  license: { expiresAt: string; remainingDays: number; isActive: boolean } | null
+}
+
+const LICENSE_ERROR_CODES = ['session_required', 'invalid_key', 'inactive', 'expired']
+
+let session: LicenseSession | null = loadSession()
+let refreshTimer: ReturnType<typeof setTimeout> | null = null
+const errorCallbacks: Set<(error: LicenseError) => void> = new Set()
+const sessionCallbacks: Set<() => void> = new Set()
+
+function loadSession(): LicenseSession | null {
+  try {
+    const saved = localStorage.getItem(SESSION_KEY)
+    const parsed: LicenseSession | null = saved ? JSON.parse(saved) : null
+    return parsed && new Date(parsed.expiresAt).getTime() > Date.now() ? parsed : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * 기기 ID (브라우저마다 한 번 생성하여 localStorage에 보관, 서버에는 해시만 저장)
+ */
+export function getDeviceId(): string {
+  let deviceId = localStorage.getItem(DEVICE_ID_KEY)
+  if (!deviceId) {
+    deviceId = crypto.randomUUID()
+    localStorage.setItem(DEVICE_ID_KEY, deviceId)
+  }
+  return deviceId
+}
+
+export function getLicenseToken(): string | null {
+  return session ? session.token : null
+}
+
+export function licenseHeaders(): Record<string, string> {
+  return session ? { [LICENSE_TOKEN_HEADER]: session.token } : {}
+}
+
+/**
+ * 키 검증으로 받은 세션 저장 및 갱신 예약
+ */
+export function setLicenseSession(token: string, expiresAt: string): void {
+  session = { token, expiresAt }
+  localStorage.setItem(SESSION_KEY, JSON.stringify(session))
+  scheduleRefresh()
+  sessionCallbacks.forEach(callback => callback())
+}
+
+/**
+ * 세션 종료 (연결 해제 시, 서버의 동시 세션 수에서 제외)
+ */
+export async function clearLicenseSession(): Promise<void> {
+  const current = session
+  session = null
+  localStorage.removeItem(SESSION_KEY)
+  if (refreshTimer) {
+    clearTimeout(refreshTimer)
+    refreshTimer = null
+  }
+  if (current) {
+    try {
+      await fetch('/api/auth/session', { method: 'DELETE', headers: { [LICENSE_TOKEN_HEADER]: current.token } })
+    } catch (error) {
+      console.warn('라이선스 세션 종료 실패:', error)
+    }
+  }
+}
+
+/**
+ * 라이선스 오류 콜백 등록 (세션이 끊긴 첫 오류에만 호출)
+ */
+export function onLicenseError(callback: (error: LicenseError) => void): () => void {
+  errorCallbacks.add(callback)
+  return () => {
+    errorCallbacks.delete(callback)
+  }
+}
+
+/**
+ * 세션 저장/갱신 콜백 등록 (세션 없이 열었던 WebSocket을 다시 연결하는 용도)
+ */
+export function onLicenseSession(callback: () => void): () => void {
+  sessionCallbacks.add(callback)
+  return () => {
+    sessionCallbacks.delete(callback)
+  }
+}
+
+/**
+ * API 오류 응답이 라이선스 오류면 저장된 세션을 버리고 콜백 호출
+ */
+export function handleLicenseError(data: any): boolean {
+  if (!data || !LICENSE_ERROR_CODES.includes(data.code)) {
+    return false
+  }
+  if (session) {
+    session = null
+    localStorage.removeItem(SESSION_KEY)
+    if (refreshTimer) {
+      clearTimeout(refreshTimer)
+      refreshTimer = null
+    }
+    errorCallbacks.forEach(callback => callback(data as LicenseError))
+  }
+  return true
+}
+
+function scheduleRefresh(): void {
+  if (refreshTimer) {
+    clearTimeout(refreshTimer)
+  }
+  if (!session) {
+    return
+  }
+  const delay = Math.max(new Date(session.expiresAt).getTime() - Date.now() - REFRESH_BEFORE_MS, 0)
+  refreshTimer = setTimeout(refreshSession, delay)
+}
+
+async function refreshSession(): Promise<void> {
+  refreshTimer = null
+  if (!session) {
+    return
+  }
+  try {
+    const response = await fetch('/api/auth/session/refresh', {
+      method: 'POST',
+      headers: { [LICENSE_TOKEN_HEADER]: session.token },
+    })
+    const data = await response.json()
+    if (data.success) {
+      setLicenseSession(data.sessionToken, data.sessionExpiresAt)
+      return
+    }
+    console.warn('라이선스 세션 갱신 실패:', data.message)
+    if (!handleLicenseError(data)) {
+      session = null
+      localStorage.removeItem(SESSION_KEY)
+    }
+  } catch (error) {
+    // 네트워크 오류는 1분 후 재시도 (만료되면 다시 키 검증 필요)
+    console.warn('라이선스 세션 갱신 오류:', error)
+    if (session && new Date(session.expiresAt).getTime() > Date.now()) {
+      refreshTimer = setTimeout(refreshSession, 60 * 1000)
+    }
+  }
+}
+
+scheduleRefresh()
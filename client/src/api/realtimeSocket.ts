@@ -0,0 +1,60 @@
+import {
+  WS_PROTOCOL_VERSION,
+  WsClientMessage,
+  WsServerMessage,
+  WsTopic,
+} from '../../../shared/wsProtocol'
+import { getLicenseToken } from './license'
+
+// 서버 WebSocket(/ws) 연결
+// 연결되면 hello로 프로토콜 버전과 라이선스 세션 토큰을 보내고 topics를 구독 (서버는 구독한 토픽의 메시지만 보냄)
+// 세션 토큰이 없거나 유효하지 않으면 서버가 연결을 닫음 (close 코드 WS_CLOSE_UNAUTHORIZED)
+// onopen/onmessage/onclose는 호출하는 쪽에서 지정
+export const openRealtimeSocket = (topics: WsTopic[] = [], client?: string): WebSocket => {
+  // Vite 프록시를 통해 /ws 경로로 연결 (서버 포트 3000으로 전달)
+  const wsProtocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:'
+  const ws = new WebSocket(`${wsProtocol}//${window.location.host}/ws`)
+  ws.addEventListener('open', () => {
+    sendRealtimeMessage(ws, { type: 'hello', version: WS_PROTOCOL_VERSION, client, token: getLicenseToken() })
+    if (topics.length > 0) {
+      sendRealtimeMessage(ws, { type: 'subscribe', topics })
+    }
+  })
+  ws.addEventListener('message', (event) => {
+    const message = parseRealtimeMessage(event.data)
+    if (message?.type === 'error') {
+      console.warn(`[WebSocket] 서버 오류 (${message.code}): ${message.message}`)
+    }
+  })
+  return ws
+}
+
+// 토픽 구독 (연결 전이면 무시, openRealtimeSocket의 topics로 전달)
+export const subscribeTopics = (ws: WebSocket | null, topics: WsTopic[]) => {
+  if (ws && topics.length > 0) {
+    sendRealtimeMessage(ws, { type: 'subscribe', topics })
+  }
+}
+
+// 토픽 구독 해지
+export const unsubscribeTopics = (ws: WebSocket | null, topics: WsTopic[]) => {
+  if (ws && topics.length > 0) {
+    sendRealtimeMessage(ws, { type: 'unsubscribe', topics })
+  }
+}
+
+export const sendRealtimeMessage = (ws: WebSocket, message: WsClientMessage) => {
+  if (ws.readyState === WebSocket.OPEN) {
+    ws.send(JSON.stringify(message))
+  }
+}
+
+// 서버 메시지 파싱 (JSON이 아니면 null)
+export const parseRealtimeMessage = (data: any): WsServerMessage | null => {
+  try {
+    const message = JSON.parse(data)
+    return message && typeof message.type === 'string' ? message : null
+  } catch {
+    return null
+  }
+}
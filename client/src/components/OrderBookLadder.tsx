@@ -0,0 +1,118 @@
+import React, { useEffect, useState } from 'react'
+import { kiwoomApi, OrderBook, OrderBookLevel } from '../api/kiwoom'
+import { openRealtimeSocket, parseRealtimeMessage } from '../api/realtimeSocket'
+import { orderBookTopic } from '../../../shared/wsProtocol'
+import { useThemeStore } from '../store/useThemeStore'
+
+interface OrderBookLadderProps {
+  code: string
+}
+
+/**
+ * 호가창 (매도 10단계를 위에, 매수 10단계를 아래에 표시)
+ * 처음에는 REST로 조회하고 이후에는 WebSocket 호가 구독으로 갱신
+ */
+const OrderBookLadder = ({ code }: OrderBookLadderProps) => {
+  const { theme } = useThemeStore()
+  const [book, setBook] = useState<OrderBook | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let isMounted = true
+    setBook(null)
+    setError(null)
+
+    kiwoomApi.getOrderBook(code)
+      .then(data => {
+        if (isMounted) {
+          setBook(data)
+        }
+      })
+      .catch((err: any) => {
+        if (isMounted) {
+          setError(err.response?.data?.error || err.message || '호가를 불러오지 못했습니다')
+        }
+      })
+
+    // 연결을 닫으면 서버가 호가 구독을 해지
+    const ws = openRealtimeSocket([orderBookTopic(code)], 'orderbook')
+    ws.onmessage = (event) => {
+      const message = parseRealtimeMessage(event.data)
+      if (isMounted && message?.type === 'orderbook' && message.data?.code === code) {
+        setBook(message.data)
+        setError(null)
+      }
+    }
+
+    return () => {
+      isMounted = false
+      ws.close()
+    }
+  }, [code])
+
+  const cardClass = `${theme === 'dark' ? 'bg-gray-800' : 'bg-white'} rounded-lg shadow p-6`
+  const mutedClass = theme === 'dark' ? 'text-gray-400' : 'text-gray-500'
+
+  if (!book) {
+    return (
+      <div className={cardClass}>
+        <p className={`text-center text-sm ${mutedClass}`}>{error || '호가 불러오는 중...'}</p>
+      </div>
+    )
+  }
+
+  const maxQuantity = Math.max(1, ...book.asks.map(level => level.quantity), ...book.bids.map(level => level.quantity))
+  const renderRow = (level: OrderBookLevel, side: 'ask' | 'bid') => {
+    const width = `${Math.round((level.quantity / maxQuantity) * 100)}%`
+    const bar = (
+      <div className="relative h-6">
+        <div
+          className={`absolute top-0 h-full ${side === 'ask' ? 'right-0' : 'left-0'} ${
+            side === 'ask'
+              ? theme === 'dark' ? 'bg-blue-900' : 'bg-blue-100'
+              : theme === 'dark' ? 'bg-red-900' : 'bg-red-100'
+          }`}
+          style={{ width }}
+        />
+        <span className={`relative px-2 leading-6 ${side === 'ask' ? 'float-right' : ''}`}>
+          {level.quantity.toLocaleString()}
+        </span>
+      </div>
+    )
+    return (
+      <tr key={`${side}-${level.price}`} className={theme === 'dark' ? 'border-b border-gray-700' : 'border-b border-gray-100'}>
+        <td className="w-2/5">{side === 'ask' ? bar : null}</td>
+        <td className={`w-1/5 text-center font-medium ${side === 'ask' ? 'text-blue-500' : 'text-red-500'}`}>
+          {level.price.toLocaleString()}
+        </td>
+        <td className="w-2/5">{side === 'bid' ? bar : null}</td>
+      </tr>
+    )
+  }
+
+  return (
+    <div className={cardClass}>
+      <div className="flex justify-between items-center mb-3">
+        <h3 className={`font-semibold ${theme === 'dark' ? 'text-gray-100' : 'text-gray-900'}`}>호가</h3>
+        <span className={`text-xs ${mutedClass}`}>
+          {book.source === 'realtime' ? '실시간' : '조회'} {book.time ? `${book.time.substring(0, 2)}:${book.time.substring(2, 4)}:${book.time.substring(4, 6)}` : ''}
+        </span>
+      </div>
+      <table className={`w-full text-sm ${theme === 'dark' ? 'text-gray-200' : 'text-gray-800'}`}>
+        <tbody>
+          {[...book.asks].reverse().map(level => renderRow(level, 'ask'))}
+          {book.bids.map(level => renderRow(level, 'bid'))}
+        </tbody>
+        <tfoot>
+          <tr className={mutedClass}>
+            <td className="text-right px-2 pt-2">{book.totalAskQuantity.toLocaleString()}</td>
+            <td className="text-center pt-2">총잔량</td>
+            <td className="px-2 pt-2">{book.totalBidQuantity.toLocaleString()}</td>
+          </tr>
+        </tfoot>
+      </table>
+    </div>
+  )
+}
+
+export default OrderBookLadder
@@ -0,0 +1,129 @@
+import React, { useEffect, useState } from 'react'
+import { kiwoomApi } from '../api/kiwoom'
+import {
+  StrategyDefinition,
+  StrategyOverrides,
+  StrategyParameter,
+  STRATEGY_SESSION_LABELS,
+} from '../utils/strategySettings'
+
+interface StrategySettingsPanelProps {
+  value: StrategyOverrides
+  onChange: (value: StrategyOverrides) => void
+}
+
+/**
+ * 매수 전략 설정 패널
+ * 서버에 등록된 전략 목록과 파라미터 스키마로 사용 여부와 입력 항목을 그림
+ * 바꾸지 않은 항목은 자동매매 화면의 매매설정/기본값을 그대로 사용
+ */
+const StrategySettingsPanel = ({ value, onChange }: StrategySettingsPanelProps) => {
+  const [strategies, setStrategies] = useState<StrategyDefinition[]>([])
+  const [expanded, setExpanded] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    kiwoomApi.getStrategies()
+      .then((definitions: StrategyDefinition[]) => setStrategies(definitions))
+      .catch((err: any) => setError(err.message || '전략 목록을 불러오지 못했습니다'))
+  }, [])
+
+  const updateStrategy = (id: string, patch: StrategyOverrides[string]) => {
+    const current = value[id] || {}
+    onChange({
+      ...value,
+      [id]: {
+        ...current,
+        ...patch,
+        params: { ...current.params, ...patch.params },
+      },
+    })
+  }
+
+  const resetStrategy = (id: string) => {
+    const { [id]: _removed, ...rest } = value
+    onChange(rest)
+  }
+
+  const getParamValue = (strategy: StrategyDefinition, parameter: StrategyParameter) =>
+    value[strategy.id]?.params?.[parameter.key] ?? parameter.default
+
+  if (error) {
+    return <p className="text-sm text-red-500">{error}</p>
+  }
+
+  return (
+    <div className="space-y-3">
+      {strategies.map(strategy => {
+        const enabled = value[strategy.id]?.enabled ?? strategy.defaultEnabled
+        const customized = value[strategy.id] !== undefined
+        return (
+          <div key={strategy.id} className="border rounded-lg p-3">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center">
+                <input
+                  type="checkbox"
+                  checked={enabled}
+                  onChange={(e) => updateStrategy(strategy.id, { enabled: e.target.checked })}
+                  className="w-5 h-5 mr-2"
+                />
+                <label className="text-sm font-medium">{strategy.name}</label>
+                <span className="ml-2 text-xs text-gray-500">{STRATEGY_SESSION_LABELS[strategy.session]}</span>
+              </div>
+              <div className="flex items-center gap-2">
+                {customized && (
+                  <button
+                    onClick={() => resetStrategy(strategy.id)}
+                    className="text-xs text-gray-500 underline"
+                  >
+                    기본값
+                  </button>
+                )}
+                {strategy.parameters.length > 0 && (
+                  <button
+                    onClick={() => setExpanded(expanded === strategy.id ? null : strategy.id)}
+                    className="text-xs text-blue-600"
+                  >
+                    {expanded === strategy.id ? '접기' : '파라미터'}
+                  </button>
+                )}
+              </div>
+            </div>
+            <p className="mt-1 text-xs text-gray-500">{strategy.description}</p>
+
+            {expanded === strategy.id && (
+              <div className="mt-3 grid grid-cols-2 gap-2">
+                {strategy.parameters.map(parameter => (
+                  parameter.type === 'boolean' ? (
+                    <div key={parameter.key} className="flex items-center col-span-2">
+                      <input
+                        type="checkbox"
+                        checked={Boolean(getParamValue(strategy, parameter))}
+                        onChange={(e) => updateStrategy(strategy.id, { params: { [parameter.key]: e.target.checked } })}
+                        className="w-4 h-4 mr-2"
+                      />
+                      <label className="text-xs">{parameter.label}</label>
+                    </div>
+                  ) : (
+                    <div key={parameter.key}>
+                      <label className="block text-xs mb-1">{parameter.label}</label>
+                      <input
+                        type="number"
+                        step="any"
+                        value={Number(getParamValue(strategy, parameter))}
+                        onChange={(e) => updateStrategy(strategy.id, { params: { [parameter.key]: parseFloat(e.target.value) || 0 } })}
+                        className="w-full px-2 py-1 border rounded text-sm"
+                      />
+                    </div>
+                  )
+                ))}
+              </div>
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
+
+export default StrategySettingsPanel
@@ -1,12 +1,22 @@
 /**
  * 관리자용 키 발급 페이지
- * 관리자가 키를 발급하고 관리할 수 있는 페이지
+ * 관리자 계정으로 로그인한 뒤 키를 발급하고 관리할 수 있는 페이지
  */
 import React, { useState, useEffect } from 'react'
 import { useThemeStore } from '../store/useThemeStore'
+import { ADMIN_TOKEN_KEY } from '../api/admin'
+
+interface AdminUser {
+  id: string
+  username: string
+  role: 'admin' | 'user'
+  createdAt?: string
+  lastLoginAt?: string | null
+}
 
 interface LicenseKey {
-  key: string
+  id: string
+  keyPrefix: string // 키 원문은 저장되지 않아 앞자리만 표시
   issuedAt: string
   expiresAt: string
   validDays: number
@@ -15,26 +25,135 @@ interface LicenseKey {
   isActive: boolean
   usedCount: number
   lastUsedAt?: string
+  maxSessions: number
+  activeSessions: number
+  plan: string
+  binding: { appkey: boolean; device: boolean; boundAt: string } | null
+}
+
+interface LicensePlan {
+  id: string
+  name: string
+  realTrading: boolean
+  maxStrategies: number // 0: 제한 없음
+  maxPositions: number // 0: 제한 없음
+}
+
+interface LicenseKeyEvent {
+  id: number
+  type: string
+  actor: string
+  detail: string
+  createdAt: string
+}
+
+const EVENT_LABELS: Record<string, string> = {
+  imported: '가져옴',
+  issued: '발급',
+  extended: '연장',
+  plan_changed: '플랜 변경',
+  activated: '활성화',
+  deactivated: '비활성화',
+  max_sessions_changed: '세션 수 변경',
+  binding_revoked: '바인딩 해제',
+  deleted: '삭제',
 }
 
+const formatLimit = (value: number) => (value > 0 ? `${value}개` : '무제한')
+
 const Admin = () => {
   const { theme } = useThemeStore()
-  const [appkey, setAppkey] = useState('')
-  const [secretkey, setSecretkey] = useState('')
+  const [token, setToken] = useState<string | null>(() => localStorage.getItem(ADMIN_TOKEN_KEY))
+  const [adminUser, setAdminUser] = useState<AdminUser | null>(null)
+  const [loginUsername, setLoginUsername] = useState('')
+  const [loginPassword, setLoginPassword] = useState('')
+  const [loginError, setLoginError] = useState<string | null>(null)
+  const [isLoggingIn, setIsLoggingIn] = useState(false)
   const [validDays, setValidDays] = useState(60)
-  const [issuedBy, setIssuedBy] = useState('admin')
+  const [maxSessions, setMaxSessions] = useState(1)
+  const [issuedBy, setIssuedBy] = useState('')
   const [description, setDescription] = useState('')
+  const [plan, setPlan] = useState('standard')
+  const [plans, setPlans] = useState<LicensePlan[]>([])
+  const [batchCount, setBatchCount] = useState(10)
   const [isIssuing, setIsIssuing] = useState(false)
   const [issuedKey, setIssuedKey] = useState<string | null>(null)
   const [keys, setKeys] = useState<LicenseKey[]>([])
   const [isLoading, setIsLoading] = useState(false)
+  const [historyKey, setHistoryKey] = useState<LicenseKey | null>(null)
+  const [historyEvents, setHistoryEvents] = useState<LicenseKeyEvent[]>([])
+  const [users, setUsers] = useState<AdminUser[]>([])
+  const [newUsername, setNewUsername] = useState('')
+  const [newPassword, setNewPassword] = useState('')
+  const [newRole, setNewRole] = useState<'admin' | 'user'>('user')
+
+  const logout = (message?: string) => {
+    localStorage.removeItem(ADMIN_TOKEN_KEY)
+    setToken(null)
+    setAdminUser(null)
+    setKeys([])
+    setUsers([])
+    if (message) {
+      setLoginError(message)
+    }
+  }
+
+  // 관리자 API 요청 (토큰 첨부, 401이면 로그아웃)
+  const adminRequest = async (url: string, init: RequestInit = {}) => {
+    const response = await fetch(url, {
+      ...init,
+      headers: {
+        ...(init.body ? { 'Content-Type': 'application/json' } : {}),
+        ...(init.headers || {}),
+        Authorization: `Bearer ${token}`,
+      },
+    })
+    if (response.status === 401) {
+      logout('로그인이 만료되었습니다. 다시 로그인해주세요')
+      throw new Error('로그인이 필요합니다')
+    }
+    return response
+  }
+
+  const adminFetch = async (url: string, init: RequestInit = {}) => {
+    const response = await adminRequest(url, init)
+    return response.json()
+  }
+
+  // 로그인
+  const handleLogin = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsLoggingIn(true)
+    setLoginError(null)
+    try {
+      const response = await fetch('/api/admin/login', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ username: loginUsername, password: loginPassword })
+      })
+      const data = await response.json()
+
+      if (data.success) {
+        localStorage.setItem(ADMIN_TOKEN_KEY, data.token)
+        setLoginPassword('')
+        setToken(data.token)
+      } else {
+        setLoginError(data.message || '로그인 실패')
+      }
+    } catch (error: any) {
+      setLoginError(`로그인 오류: ${error.message}`)
+    } finally {
+      setIsLoggingIn(false)
+    }
+  }
 
   // 키 목록 로드
   const loadKeys = async () => {
     setIsLoading(true)
     try {
-      const response = await fetch('/api/admin/keys')
-      const data = await response.json()
+      const data = await adminFetch('/api/admin/keys')
       if (data.success) {
         setKeys(data.keys || [])
       }
@@ -45,9 +164,87 @@ const Admin = () => {
     }
   }
 
+  // 라이선스 플랜 목록 로드
+  const loadPlans = async () => {
+    try {
+      const data = await adminFetch('/api/admin/plans')
+      if (data.success) {
+        setPlans(data.plans || [])
+      }
+    } catch (error) {
+      console.error('플랜 목록 로드 오류:', error)
+    }
+  }
+
+  // 관리자 계정 목록 로드
+  const loadUsers = async () => {
+    try {
+      const data = await adminFetch('/api/admin/users')
+      if (data.success) {
+        setUsers(data.users || [])
+      }
+    } catch (error) {
+      console.error('계정 목록 로드 오류:', error)
+    }
+  }
+
   useEffect(() => {
-    loadKeys()
-  }, [])
+    if (!token) {
+      return
+    }
+    adminFetch('/api/admin/me')
+      .then((data) => {
+        if (data.success) {
+          setAdminUser(data.user)
+          setIssuedBy((prev) => prev || data.user.username)
+          loadKeys()
+          loadPlans()
+          loadUsers()
+        }
+      })
+      .catch((error) => console.error('관리자 정보 조회 오류:', error))
+  }, [token])
+
+  // 계정 생성
+  const handleCreateUser = async () => {
+    try {
+      const data = await adminFetch('/api/admin/users', {
+        method: 'POST',
+        body: JSON.stringify({ username: newUsername, password: newPassword, role: newRole })
+      })
+
+      if (data.success) {
+        setNewUsername('')
+        setNewPassword('')
+        loadUsers()
+      } else {
+        alert(`계정 생성 실패: ${data.message}`)
+      }
+    } catch (error: any) {
+      alert(`계정 생성 오류: ${error.message}`)
+    }
+  }
+
+  // 계정 삭제
+  const handleDeleteUser = async (user: AdminUser) => {
+    if (!confirm(`정말 ${user.username} 계정을 삭제하시겠습니까?`)) {
+      return
+    }
+
+    try {
+      const data = await adminFetch(`/api/admin/users/${user.id}`, {
+        method: 'DELETE'
+      })
+
+      if (data.success) {
+        loadUsers()
+      } else {
+        alert(`계정 삭제 실패: ${data.message}`)
+      }
+    } catch (error: any) {
+      alert(`계정 삭제 오류: ${error.message}`)
+    }
+  }
 
   // 키 발급
   const handleIssueKey = async () => {
@@ -58,20 +255,17 @@ const Admin = () => {
 
     setIsIssuing(true)
     try {
-      const response = await fetch('/api/admin/keys/issue', {
+      const data = await adminFetch('/api/admin/keys/issue', {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
         body: JSON.stringify({
           validDays,
-          issuedBy,
-          description: description || undefined
+          issuedBy: issuedBy || undefined,
+          description: description || undefined,
+          maxSessions,
+          plan
         })
       })
 
-      const data = await response.json()
-
       if (data.success) {
         setIssuedKey(data.key)
         setDescription('')
@@ -87,21 +281,126 @@ const Admin = () => {
     }
   }
 
+  // 키 일괄 발급 (키 원문이 담긴 CSV 다운로드)
+  const handleBatchIssue = async () => {
+    if (batchCount < 1 || batchCount > 100) {
+      alert('발급 개수는 1개 이상 100개 이하여야 합니다')
+      return
+    }
+    if (!confirm(`키 ${batchCount}개를 발급하시겠습니까? 키는 내려받는 CSV 파일에서만 확인할 수 있습니다`)) {
+      return
+    }
+
+    setIsIssuing(true)
+    try {
+      const response = await adminRequest('/api/admin/keys/batch?format=csv', {
+        method: 'POST',
+        body: JSON.stringify({
+          count: batchCount,
+          validDays,
+          issuedBy: issuedBy || undefined,
+          description: description || undefined,
+          maxSessions,
+          plan
+        })
+      })
+
+      if (!response.ok) {
+        const data = await response.json()
+        alert(`일괄 발급 실패: ${data.message}`)
+        return
+      }
+
+      const blob = await response.blob()
+      const filename = /filename="([^"]+)"/.exec(response.headers.get('Content-Disposition') || '')?.[1] || 'license-keys.csv'
+      const url = URL.createObjectURL(blob)
+      const link = document.createElement('a')
+      link.href = url
+      link.download = filename
+      link.click()
+      URL.revokeObjectURL(url)
+
+      setDescription('')
+      loadKeys()
+    } catch (error: any) {
+      alert(`일괄 발급 오류: ${error.message}`)
+    } finally {
+      setIsIssuing(false)
+    }
+  }
+
+  // 유효기간 연장
+  const handleExtendKey = async (key: LicenseKey) => {
+    const value = prompt('연장할 일수 (1~365, 만료된 키는 오늘부터 연장)', '30')
+    if (value === null) {
+      return
+    }
+
+    try {
+      const data = await adminFetch(`/api/admin/keys/${key.id}/extend`, {
+        method: 'PUT',
+        body: JSON.stringify({ days: parseInt(value) })
+      })
+
+      if (data.success) {
+        loadKeys()
+        if (historyKey?.id === key.id) {
+          loadHistory(key)
+        }
+      } else {
+        alert(`유효기간 연장 실패: ${data.message}`)
+      }
+    } catch (error: any) {
+      alert(`유효기간 연장 오류: ${error.message}`)
+    }
+  }
+
+  // 플랜 변경
+  const handleChangePlan = async (key: LicenseKey, newPlan: string) => {
+    try {
+      const data = await adminFetch(`/api/admin/keys/${key.id}/plan`, {
+        method: 'PUT',
+        body: JSON.stringify({ plan: newPlan })
+      })
+
+      if (data.success) {
+        loadKeys()
+        if (historyKey?.id === key.id) {
+          loadHistory(key)
+        }
+      } else {
+        alert(`플랜 변경 실패: ${data.message}`)
+      }
+    } catch (error: any) {
+      alert(`플랜 변경 오류: ${error.message}`)
+    }
+  }
+
+  // 키 이력 조회
+  const loadHistory = async (key: LicenseKey) => {
+    try {
+      const data = await adminFetch(`/api/admin/keys/${key.id}/events`)
+      if (data.success) {
+        setHistoryKey(key)
+        setHistoryEvents(data.events || [])
+      } else {
+        alert(`이력 조회 실패: ${data.message}`)
+      }
+    } catch (error: any) {
+      alert(`이력 조회 오류: ${error.message}`)
+    }
+  }
+
   // 키 활성화/비활성화
-  const handleToggleKey = async (key: string, currentStatus: boolean) => {
+  const handleToggleKey = async (id: string, currentStatus: boolean) => {
     try {
-      const response = await fetch(`/api/admin/keys/${key}/toggle`, {
+      const data = await adminFetch(`/api/admin/keys/${id}/toggle`, {
         method: 'PUT',
-        headers: {
-          'Content-Type': 'application/json',
-        },
         body: JSON.stringify({
           isActive: !currentStatus
         })
       })
 
-      const data = await response.json()
-
       if (data.success) {
         loadKeys()
       } else {
@@ -112,19 +411,61 @@ const Admin = () => {
     }
   }
 
+  // 동시 세션 수 변경
+  const handleChangeMaxSessions = async (key: LicenseKey) => {
+    const value = prompt('동시 세션 수 (1~10)', String(key.maxSessions))
+    if (value === null) {
+      return
+    }
+
+    try {
+      const data = await adminFetch(`/api/admin/keys/${key.id}/max-sessions`, {
+        method: 'PUT',
+        body: JSON.stringify({ maxSessions: parseInt(value) })
+      })
+
+      if (data.success) {
+        loadKeys()
+      } else {
+        alert(`동시 세션 수 변경 실패: ${data.message}`)
+      }
+    } catch (error: any) {
+      alert(`동시 세션 수 변경 오류: ${error.message}`)
+    }
+  }
+
+  // 바인딩 해제
+  const handleRevokeBinding = async (id: string) => {
+    if (!confirm('바인딩을 해제하시겠습니까? 사용 중인 세션도 종료됩니다')) {
+      return
+    }
+
+    try {
+      const data = await adminFetch(`/api/admin/keys/${id}/binding`, {
+        method: 'DELETE'
+      })
+
+      if (data.success) {
+        loadKeys()
+      } else {
+        alert(`바인딩 해제 실패: ${data.message}`)
+      }
+    } catch (error: any) {
+      alert(`바인딩 해제 오류: ${error.message}`)
+    }
+  }
+
   // 키 삭제
-  const handleDeleteKey = async (key: string) => {
+  const handleDeleteKey = async (id: string) => {
     if (!confirm('정말 이 키를 삭제하시겠습니까?')) {
       return
     }
 
     try {
-      const response = await fetch(`/api/admin/keys/${key}`, {
+      const data = await adminFetch(`/api/admin/keys/${id}`, {
         method: 'DELETE'
       })
 
-      const data = await response.json()
-
       if (data.success) {
         loadKeys()
         alert('키가 삭제되었습니다')
@@ -136,15 +477,111 @@ const Admin = () => {
     }
   }
 
+  const inputStyle: React.CSSProperties = {
+    width: '100%',
+    padding: '10px',
+    border: '1px solid #d1d5db',
+    borderRadius: '4px',
+    fontSize: '14px'
+  }
+
+  if (!token) {
+    return (
+      <div className={`p-6 min-h-screen flex items-center justify-center ${
+        theme === 'dark' ? 'bg-gradient-dark text-dark-text' : 'bg-gray-50 text-gray-900'
+      }`}>
+        <form
+          onSubmit={handleLogin}
+          style={{
+            width: '100%',
+            maxWidth: '360px',
+            border: '1px solid #d1d5db',
+            borderRadius: '8px',
+            padding: '24px',
+            backgroundColor: 'white',
+            color: '#111827'
+          }}
+        >
+          <h1 style={{ fontSize: '20px', fontWeight: 'bold', marginBottom: '16px' }}>
+            관리자 로그인
+          </h1>
+
+          <div style={{ marginBottom: '12px' }}>
+            <label style={{ display: 'block', fontSize: '14px', fontWeight: 500, marginBottom: '8px' }}>
+              사용자명
+            </label>
+            <input
+              type="text"
+              value={loginUsername}
+              onChange={(e) => setLoginUsername(e.target.value)}
+              autoComplete="username"
+              style={inputStyle}
+            />
+          </div>
+
+          <div style={{ marginBottom: '16px' }}>
+            <label style={{ display: 'block', fontSize: '14px', fontWeight: 500, marginBottom: '8px' }}>
+              비밀번호
+            </label>
+            <input
+              type="password"
+              value={loginPassword}
+              onChange={(e) => setLoginPassword(e.target.value)}
+              autoComplete="current-password"
+              style={inputStyle}
+            />
+          </div>
+
+          {loginError && (
+            <div style={{ marginBottom: '12px', fontSize: '12px', color: '#dc2626' }}>
+              {loginError}
+            </div>
+          )}
+
+          <button
+            type="submit"
+            disabled={isLoggingIn || !loginUsername || !loginPassword}
+            className={`w-full px-6 py-3 rounded-full font-semibold text-sm transition-all duration-300 ${
+              isLoggingIn || !loginUsername || !loginPassword
+                ? 'bg-gray-500 cursor-not-allowed opacity-50'
+                : 'btn-gradient-primary'
+            }`}
+          >
+            <span className="text-gradient font-bold">{isLoggingIn ? '로그인 중...' : '로그인'}</span>
+          </button>
+        </form>
+      </div>
+    )
+  }
+
   return (
     <div className={`p-6 max-w-[1200px] mx-auto min-h-screen ${
       theme === 'dark' ? 'bg-gradient-dark text-dark-text' : 'bg-gray-50 text-gray-900'
     }`}>
-      <h1 className={`text-2xl font-bold mb-6 ${
-        theme === 'dark' ? 'text-gradient' : 'text-gray-900'
-      }`}>
-        관리자 - 키 발급 관리
-      </h1>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '24px' }}>
+        <h1 className={`text-2xl font-bold ${
+          theme === 'dark' ? 'text-gradient' : 'text-gray-900'
+        }`}>
+          관리자 - 키 발급 관리
+        </h1>
+        <div style={{ display: 'flex', alignItems: 'center', gap: '8px', fontSize: '12px' }}>
+          {adminUser && <span>{adminUser.username}</span>}
+          <button
+            onClick={() => logout()}
+            style={{
+              padding: '6px 12px',
+              backgroundColor: '#6b7280',
+              color: 'white',
+              border: 'none',
+              borderRadius: '4px',
+              cursor: 'pointer',
+              fontSize: '12px'
+            }}
+          >
+            로그아웃
+          </button>
+        </div>
+      </div>
 
       {/* 키 발급 폼 */}
       <div style={{ 
@@ -188,6 +625,43 @@ const Admin = () => {
           </div>
         </div>
 
+        <div style={{ marginBottom: '16px' }}>
+          <label style={{ display: 'block', fontSize: '14px', fontWeight: 500, marginBottom: '8px' }}>
+            동시 세션 수
+          </label>
+          <input
+            type="number"
+            value={maxSessions}
+            onChange={(e) => setMaxSessions(parseInt(e.target.value) || 1)}
+            min={1}
+            max={10}
+            style={inputStyle}
+          />
+          <div style={{ fontSize: '12px', color: '#6b7280', marginTop: '4px' }}>
+            처음 사용한 App Key와 기기에 바인딩되며, 동시에 이 수만큼만 로그인할 수 있습니다
+          </div>
+        </div>
+
+        <div style={{ marginBottom: '16px' }}>
+          <label style={{ display: 'block', fontSize: '14px', fontWeight: 500, marginBottom: '8px' }}>
+            플랜
+          </label>
+          <select
+            value={plan}
+            onChange={(e) => setPlan(e.target.value)}
+            style={inputStyle}
+          >
+            {plans.map((p) => (
+              <option key={p.id} value={p.id}>{p.name}</option>
+            ))}
+          </select>
+          {plans.filter((p) => p.id === plan).map((p) => (
+            <div key={p.id} style={{ fontSize: '12px', color: '#6b7280', marginTop: '4px' }}>
+              {p.realTrading ? '실전투자/모의투자' : '모의투자 전용'}, 매수 전략 {formatLimit(p.maxStrategies)}, 최대 보유 종목 {formatLimit(p.maxPositions)}
+            </div>
+          ))}
+        </div>
+
         <div style={{ marginBottom: '16px' }}>
           <label style={{ display: 'block', fontSize: '14px', fontWeight: 500, marginBottom: '8px' }}>
             발급자
@@ -196,7 +670,7 @@ const Admin = () => {
             type="text"
             value={issuedBy}
             onChange={(e) => setIssuedBy(e.target.value)}
-            placeholder="admin"
+            placeholder={adminUser?.username || 'admin'}
             style={{
               width: '100%',
               padding: '10px',
@@ -252,6 +726,45 @@ const Admin = () => {
             </>
           )}
         </button>
+
+        <div style={{ display: 'flex', alignItems: 'center', gap: '8px', marginTop: '16px', fontSize: '14px' }}>
+          <span>같은 설정으로</span>
+          <input
+            type="number"
+            value={batchCount}
+            onChange={(e) => setBatchCount(parseInt(e.target.value) || 1)}
+            min={1}
+            max={100}
+            style={{ ...inputStyle, width: '80px' }}
+          />
+          <span>개</span>
+          <button
+            onClick={handleBatchIssue}
+            disabled={isIssuing}
+            style={{
+              padding: '8px 12px',
+              backgroundColor: '#6366f1',
+              color: 'white',
+              border: 'none',
+              borderRadius: '4px',
+              cursor: isIssuing ? 'not-allowed' : 'pointer',
+              fontSize: '12px'
+            }}
+          >
+            일괄 발급 (CSV)
+          </button>
+        </div>
+
+        {issuedKey && (
+          <div style={{ marginTop: '16px', padding: '12px', backgroundColor: '#ecfdf5', borderRadius: '4px' }}>
+            <div style={{ fontSize: '12px', color: '#065f46', marginBottom: '4px' }}>
+              발급된 키 (키는 해시로만 저장되어 이 화면을 벗어나면 다시 확인할 수 없습니다)
+            </div>
+            <div style={{ fontSize: '14px', fontFamily: 'monospace', fontWeight: 600, color: '#065f46', userSelect: 'all' }}>
+              {issuedKey}
+            </div>
+          </div>
+        )}
       </div>
 
       {/* 발급된 키 목록 */}
@@ -295,8 +808,11 @@ const Admin = () => {
                   <th style={{ padding: '12px', textAlign: 'left', fontSize: '12px', fontWeight: 600 }}>발급일</th>
                   <th style={{ padding: '12px', textAlign: 'left', fontSize: '12px', fontWeight: '600' }}>만료일</th>
                   <th style={{ padding: '12px', textAlign: 'left', fontSize: '12px', fontWeight: 600 }}>유효기간</th>
+                  <th style={{ padding: '12px', textAlign: 'left', fontSize: '12px', fontWeight: 600 }}>플랜</th>
                   <th style={{ padding: '12px', textAlign: 'left', fontSize: '12px', fontWeight: 600 }}>발급자</th>
                   <th style={{ padding: '12px', textAlign: 'left', fontSize: '12px', fontWeight: 600 }}>사용횟수</th>
+                  <th style={{ padding: '12px', textAlign: 'left', fontSize: '12px', fontWeight: 600 }}>세션</th>
+                  <th style={{ padding: '12px', textAlign: 'left', fontSize: '12px', fontWeight: 600 }}>바인딩</th>
                   <th style={{ padding: '12px', textAlign: 'left', fontSize: '12px', fontWeight: 600 }}>상태</th>
                   <th style={{ padding: '12px', textAlign: 'left', fontSize: '12px', fontWeight: 600 }}>작업</th>
                 </tr>
@@ -309,9 +825,9 @@ const Admin = () => {
                   const remainingDays = Math.ceil((expiresAt.getTime() - now.getTime()) / (1000 * 60 * 60 * 24))
 
                   return (
-                    <tr key={key.key} style={{ borderBottom: '1px solid #e5e7eb' }}>
+                    <tr key={key.id} style={{ borderBottom: '1px solid #e5e7eb' }}>
                       <td style={{ padding: '12px', fontSize: '12px', fontFamily: 'monospace' }}>
-                        {key.key}
+                        {key.keyPrefix}…
                       </td>
                       <td style={{ padding: '12px', fontSize: '12px' }}>
                         {new Date(key.issuedAt).toLocaleDateString()}
@@ -327,12 +843,49 @@ const Admin = () => {
                       <td style={{ padding: '12px', fontSize: '12px' }}>
                         {key.validDays}일
                       </td>
+                      <td style={{ padding: '12px', fontSize: '12px' }}>
+                        <select
+                          value={key.plan}
+                          onChange={(e) => handleChangePlan(key, e.target.value)}
+                          style={{ fontSize: '12px', padding: '2px' }}
+                        >
+                          {plans.map((p) => (
+                            <option key={p.id} value={p.id}>{p.name}</option>
+                          ))}
+                        </select>
+                      </td>
                       <td style={{ padding: '12px', fontSize: '12px' }}>
                         {key.issuedBy}
+                        {key.description && (
+                          <div style={{ fontSize: '10px', color: '#6b7280' }}>
+                            {key.description}
+                          </div>
+                        )}
                       </td>
                       <td style={{ padding: '12px', fontSize: '12px' }}>
                         {key.usedCount}
                       </td>
+                      <td style={{ padding: '12px', fontSize: '12px' }}>
+                        <button
+                          onClick={() => handleChangeMaxSessions(key)}
+                          title="동시 세션 수 변경"
+                          style={{ background: 'none', border: 'none', padding: 0, cursor: 'pointer', fontSize: '12px', textDecoration: 'underline' }}
+                        >
+                          {key.activeSessions} / {key.maxSessions}
+                        </button>
+                      </td>
+                      <td style={{ padding: '12px', fontSize: '12px' }}>
+                        {key.binding ? (
+                          <>
+                            {[key.binding.appkey && 'App Key', key.binding.device && '기기'].filter(Boolean).join(', ')}
+                            <div style={{ fontSize: '10px', color: '#6b7280' }}>
+                              {new Date(key.binding.boundAt).toLocaleDateString()}
+                            </div>
+                          </>
+                        ) : (
+                          <span style={{ color: '#6b7280' }}>미사용</span>
+                        )}
+                      </td>
                       <td style={{ padding: '12px', fontSize: '12px' }}>
                         <span style={{
                           padding: '2px 8px',
@@ -348,7 +901,7 @@ const Admin = () => {
                       <td style={{ padding: '12px', fontSize: '12px' }}>
                         <div style={{ display: 'flex', gap: '4px' }}>
                           <button
-                            onClick={() => handleToggleKey(key.key, key.isActive)}
+                            onClick={() => handleToggleKey(key.id, key.isActive)}
                             style={{
                               padding: '4px 8px',
                               backgroundColor: key.isActive ? '#fbbf24' : '#22c55e',
@@ -362,7 +915,51 @@ const Admin = () => {
                             {key.isActive ? '비활성화' : '활성화'}
                           </button>
                           <button
-                            onClick={() => handleDeleteKey(key.key)}
+                            onClick={() => handleExtendKey(key)}
+                            style={{
+                              padding: '4px 8px',
+                              backgroundColor: '#0ea5e9',
+                              color: 'white',
+                              border: 'none',
+                              borderRadius: '4px',
+                              cursor: 'pointer',
+                              fontSize: '11px'
+                            }}
+                          >
+                            연장
+                          </button>
+                          <button
+                            onClick={() => loadHistory(key)}
+                            style={{
+                              padding: '4px 8px',
+                              backgroundColor: '#6b7280',
+                              color: 'white',
+                              border: 'none',
+                              borderRadius: '4px',
+                              cursor: 'pointer',
+                              fontSize: '11px'
+                            }}
+                          >
+                            이력
+                          </button>
+                          {key.binding && (
+                            <button
+                              onClick={() => handleRevokeBinding(key.id)}
+                              style={{
+                                padding: '4px 8px',
+                                backgroundColor: '#6366f1',
+                                color: 'white',
+                                border: 'none',
+                                borderRadius: '4px',
+                                cursor: 'pointer',
+                                fontSize: '11px'
+                              }}
+                            >
+                              바인딩 해제
+                            </button>
+                          )}
+                          <button
+                            onClick={() => handleDeleteKey(key.id)}
                             style={{
                               padding: '4px 8px',
                               backgroundColor: '#ef4444',
@@ -384,6 +981,141 @@ const Admin = () => {
             </table>
           </div>
         )}
+
+        {historyKey && (
+          <div style={{ marginTop: '16px', padding: '12px', border: '1px solid #e5e7eb', borderRadius: '4px' }}>
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '8px' }}>
+              <span style={{ fontSize: '14px', fontWeight: 600 }}>
+                <span style={{ fontFamily: 'monospace' }}>{historyKey.keyPrefix}…</span> 이력
+              </span>
+              <button
+                onClick={() => setHistoryKey(null)}
+                style={{ background: 'none', border: 'none', cursor: 'pointer', fontSize: '12px', color: '#6b7280' }}
+              >
+                닫기
+              </button>
+            </div>
+            {historyEvents.length === 0 ? (
+              <div style={{ fontSize: '12px', color: '#6b7280' }}>이력이 없습니다</div>
+            ) : (
+              <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+                <tbody>
+                  {historyEvents.map((event) => (
+                    <tr key={event.id} style={{ borderBottom: '1px solid #f3f4f6' }}>
+                      <td style={{ padding: '6px', fontSize: '12px', whiteSpace: 'nowrap' }}>
+                        {new Date(event.createdAt).toLocaleString()}
+                      </td>
+                      <td style={{ padding: '6px', fontSize: '12px', fontWeight: 500 }}>
+                        {EVENT_LABELS[event.type] || event.type}
+                      </td>
+                      <td style={{ padding: '6px', fontSize: '12px' }}>{event.detail}</td>
+                      <td style={{ padding: '6px', fontSize: '12px', color: '#6b7280' }}>{event.actor}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* 관리자 계정 */}
+      <div style={{ 
+        border: '1px solid #d1d5db', 
+        borderRadius: '8px', 
+        padding: '24px',
+        marginTop: '24px',
+        backgroundColor: 'white'
+      }}>
+        <h2 style={{ fontSize: '18px', fontWeight: 'bold', marginBottom: '16px' }}>
+          계정 관리 ({users.length}개)
+        </h2>
+
+        <div style={{ display: 'flex', gap: '8px', marginBottom: '16px' }}>
+          <input
+            type="text"
+            value={newUsername}
+            onChange={(e) => setNewUsername(e.target.value)}
+            placeholder="사용자명"
+            style={inputStyle}
+          />
+          <input
+            type="password"
+            value={newPassword}
+            onChange={(e) => setNewPassword(e.target.value)}
+            placeholder="비밀번호 (8자 이상)"
+            autoComplete="new-password"
+            style={inputStyle}
+          />
+          <select
+            value={newRole}
+            onChange={(e) => setNewRole(e.target.value as 'admin' | 'user')}
+            style={{ ...inputStyle, width: 'auto' }}
+          >
+            <option value="user">user</option>
+            <option value="admin">admin</option>
+          </select>
+          <button
+            onClick={handleCreateUser}
+            disabled={!newUsername || !newPassword}
+            style={{
+              padding: '6px 16px',
+              backgroundColor: '#2563eb',
+              color: 'white',
+              border: 'none',
+              borderRadius: '4px',
+              cursor: !newUsername || !newPassword ? 'not-allowed' : 'pointer',
+              fontSize: '12px',
+              whiteSpace: 'nowrap'
+            }}
+          >
+            추가
+          </button>
+        </div>
+
+        <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+          <thead>
+            <tr style={{ borderBottom: '1px solid #e5e7eb' }}>
+              <th style={{ padding: '12px', textAlign: 'left', fontSize: '12px', fontWeight: 600 }}>사용자명</th>
+              <th style={{ padding: '12px', textAlign: 'left', fontSize: '12px', fontWeight: 600 }}>권한</th>
+              <th style={{ padding: '12px', textAlign: 'left', fontSize: '12px', fontWeight: 600 }}>생성일</th>
+              <th style={{ padding: '12px', textAlign: 'left', fontSize: '12px', fontWeight: 600 }}>마지막 로그인</th>
+              <th style={{ padding: '12px', textAlign: 'left', fontSize: '12px', fontWeight: 600 }}>작업</th>
+            </tr>
+          </thead>
+          <tbody>
+            {users.map((user) => (
+              <tr key={user.id} style={{ borderBottom: '1px solid #e5e7eb' }}>
+                <td style={{ padding: '12px', fontSize: '12px' }}>{user.username}</td>
+                <td style={{ padding: '12px', fontSize: '12px' }}>{user.role}</td>
+                <td style={{ padding: '12px', fontSize: '12px' }}>
+                  {user.createdAt ? new Date(user.createdAt).toLocaleDateString() : '-'}
+                </td>
+                <td style={{ padding: '12px', fontSize: '12px' }}>
+                  {user.lastLoginAt ? new Date(user.lastLoginAt).toLocaleString() : '-'}
+                </td>
+                <td style={{ padding: '12px', fontSize: '12px' }}>
+                  {user.id !== adminUser?.id && (
+                    <button
+                      onClick={() => handleDeleteUser(user)}
+                      style={{
+                        padding: '4px 8px',
+                        backgroundColor: '#ef4444',
+                        color: 'white',
+                        border: 'none',
+                        borderRadius: '4px',
+                        cursor: 'pointer',
+                        fontSize: '11px'
+                      }}
+                    >
+                      삭제
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
       </div>
     </div>
   )
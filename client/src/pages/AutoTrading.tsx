@@ -1,9 +1,14 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react'
 import { useQuery, useQueryClient } from 'react-query'
-import { kiwoomApi } from '../api/kiwoom'
+import { useNavigate } from 'react-router-dom'
+import { kiwoomApi, RealtimeConnectionState } from '../api/kiwoom'
+import { openRealtimeSocket, subscribeTopics, parseRealtimeMessage } from '../api/realtimeSocket'
+import { getDeviceId, licenseHeaders, setLicenseSession, clearLicenseSession, onLicenseError, onLicenseSession } from '../api/license'
+import { quotesTopic } from '../../../shared/wsProtocol'
 import { useKiwoomStore } from '../store/useKiwoomStore'
 import { useThemeStore } from '../store/useThemeStore'
 import toast from 'react-hot-toast'
+import { loadStrategySettings } from '../utils/strategySettings'
 import {
   LineChart,
   Line,
@@ -568,26 +573,23 @@ const AutoTrading = () => {
   const { connected, checkStatus } = useKiwoomStore()
   const { theme, toggleTheme } = useThemeStore()
   const queryClient = useQueryClient()
+  const navigate = useNavigate()
   
   // 계좌 연결 상태
   const [appkey, setAppkey] = useState<string>('')
   const [secretkey, setSecretkey] = useState<string>('')
   const [licenseKey, setLicenseKey] = useState<string>('') // 발급된 키
-  const [keyInfo, setKeyInfo] = useState<{ expiresAt?: string; remainingDays?: number } | null>(null) // 키 정보
+  const [keyInfo, setKeyInfo] = useState<{ expiresAt?: string; remainingDays?: number; planName?: string } | null>(null) // 키 정보
   const [apiMode, setApiMode] = useState<'real' | 'virtual'>('virtual') // 실전/모의투자
   const [isConnecting, setIsConnecting] = useState(false)
   const [isConnected, setIsConnected] = useState(false)
   const [showLoginModal, setShowLoginModal] = useState(false)
   const [useLicenseKey, setUseLicenseKey] = useState<boolean>(true) // 라이선스 키 사용 여부
-  const [adminCode, setAdminCode] = useState<string>('') // 관리자 코드 입력
-  const [showAdminPanel, setShowAdminPanel] = useState<boolean>(false) // 관리자 패널 표시 여부
-  const [showAdminIcon, setShowAdminIcon] = useState<boolean>(false) // 관리자 아이콘 표시 여부 (F12로 토글)
-  const [adminValidDays, setAdminValidDays] = useState<number>(60) // 관리자 키 발급 유효기간
-  const [adminIssuedBy, setAdminIssuedBy] = useState<string>('admin') // 관리자 발급자
-  const [adminDescription, setAdminDescription] = useState<string>('') // 관리자 설명
-  const [isIssuingKey, setIsIssuingKey] = useState<boolean>(false) // 키 발급 중
+  const [showAdminIcon, setShowAdminIcon] = useState<boolean>(false) // 관리자 페이지 아이콘 표시 여부 (F12로 토글)
   
   const [isRunning, setIsRunning] = useState(false)
+  const [circuitBreaker, setCircuitBreaker] = useState<any>(null) // 서버 서킷 브레이커 상태 (매매 정지 여부)
+  const [realtimeConnection, setRealtimeConnection] = useState<RealtimeConnectionState | null>(null) // 서버-키움 실시간 연결 상태
   const [selectedAccount, setSelectedAccount] = useState<string>('')
   const [conditions, setConditions] = useState<Condition[]>([])
   const [detectedStocks, setDetectedStocks] = useState<DetectedStock[]>([])
@@ -642,7 +644,8 @@ const AutoTrading = () => {
   const [maxSimultaneousBuy, setMaxSimultaneousBuy] = useState<number>(10)
   const [tradeLimitPerStock, setTradeLimitPerStock] = useState<number>(30)
   const [maxDailyStocks, setMaxDailyStocks] = useState<number>(50)
-  const [feePercent, setFeePercent] = useState<number>(0.92)
+  const [commissionPercent, setCommissionPercent] = useState<number>(0.015) // 매매 수수료 (%, 서버 실현손익 설정)
+  const [taxPercent, setTaxPercent] = useState<number>(0.2) // 증권거래세 (%, 서버 실현손익 설정)
   
   // 종목별 매수가격 설정
   const [buyPriceSettings, setBuyPriceSettings] = useState({
@@ -672,7 +675,6 @@ const AutoTrading = () => {
   // 손절 설정 (시장가 자동 매도)
   const [stopLossEnabled, setStopLossEnabled] = useState<boolean>(true) // 손절 기능 활성화
   const [stopLossRate, setStopLossRate] = useState<number>(-2.0) // 손절 기준손실률 (%)
-  const [stopLossExecuting, setStopLossExecuting] = useState<Set<string>>(new Set()) // 손절 실행 중인 종목
   
   // 기타조건
   const [autoStart, setAutoStart] = useState<boolean>(false)
@@ -717,9 +719,56 @@ const AutoTrading = () => {
     return 0
   })
 
+  // 서버 실현손익 원장 기준 오늘 실현손익 (수수료/세금 차감, 선입선출)
+  // 원장에 오늘 매도 체결이 있으면 주문 내역 기반 로컬 계산 대신 사용
+  const ledgerRealizedProfitRef = useRef<boolean>(false)
+  const refreshTodayRealizedProfit = useCallback(async () => {
+    try {
+      const today = new Date()
+      const date = `${today.getFullYear()}-${String(today.getMonth() + 1).padStart(2, '0')}-${String(today.getDate()).padStart(2, '0')}`
+      const report = await kiwoomApi.getPnlReport({ from: date, to: date })
+      if (!ledgerRealizedProfitRef.current && report.total.tradeCount === 0) {
+        return
+      }
+      ledgerRealizedProfitRef.current = true
+      setTodayTotalRealizedProfit(report.total.realizedPnl)
+      localStorage.setItem('today_realized_profit', String(report.total.realizedPnl))
+      localStorage.setItem('today_realized_profit_date', today.toLocaleDateString('ko-KR'))
+    } catch (error: any) {
+      console.warn('[실현손익] 서버 실현손익 조회 실패:', error.message)
+    }
+  }, [])
+
+  useEffect(() => {
+    refreshTodayRealizedProfit()
+  }, [refreshTodayRealizedProfit])
+
+  // 수수료율/세율은 서버 실현손익 설정에 저장 (자동매매 주문 수량, 실현손익 계산에 사용)
+  const pnlSettingsLoadedRef = useRef<boolean>(false)
+  useEffect(() => {
+    kiwoomApi.getPnlSettings()
+      .then(settings => {
+        setCommissionPercent(settings.commissionPercent)
+        setTaxPercent(settings.taxPercent)
+      })
+      .catch(error => console.warn('[실현손익] 설정 조회 실패:', error.message))
+      .finally(() => {
+        pnlSettingsLoadedRef.current = true
+      })
+  }, [])
+
+  useEffect(() => {
+    if (!pnlSettingsLoadedRef.current) return
+    const timer = setTimeout(() => {
+      kiwoomApi.updatePnlSettings({ commissionPercent, taxPercent })
+        .catch(error => console.warn('[실현손익] 설정 저장 실패:', error.message))
+    }, 500)
+    return () => clearTimeout(timer)
+  }, [commissionPercent, taxPercent])
+
   // orderLogs가 변경될 때마다 오늘 실현손익 재계산하여 동기화
   useEffect(() => {
-    if (!orderLogs || orderLogs.length === 0) return
+    if (!orderLogs || orderLogs.length === 0 || ledgerRealizedProfitRef.current) return
 
     const today = new Date().toLocaleDateString('ko-KR')
     const todayDigits = today.replace(/[^0-9]/g, '') // YYYYMMDD 또는 YYYYMD
@@ -910,131 +959,6 @@ const AutoTrading = () => {
   const logIdRef = useRef(0)
   const logContainerRef = useRef<HTMLDivElement>(null)
 
-  // 분봉 데이터 타입 정의
-  interface CandleData {
-    일자: string
-    시가: number
-    고가: number
-    저가: number
-    종가: number
-    거래량: number
-  }
-
-  // 유틸리티 함수들
-  // RSI 계산 함수
-  const calculateRSI = (candles: CandleData[], period: number = 14): number => {
-    if (!candles || candles.length < period + 1) {
-      return 50 // 기본값
-    }
-
-    let gainSum = 0
-    let lossSum = 0
-
-    // 첫 번째 평균 계산
-    for (let i = 1; i <= period; i++) {
-      const change = candles[i - 1].종가 - candles[i].종가
-      if (change >= 0) {
-        gainSum += change
-      } else {
-        lossSum -= change
-      }
-    }
-
-    const avgGain = gainSum / period
-    const avgLoss = lossSum / period
-
-    if (avgLoss === 0) {
-      return 100
-    }
-
-    const rs = avgGain / avgLoss
-    const rsi = 100 - (100 / (1 + rs))
-    return rsi
-  }
-
-  // 이동평균 계산 함수
-  const calculateMA = (candles: CandleData[], period: number, priceType: '시가' | '고가' | '저가' | '종가' = '종가'): number[] => {
-    if (!candles || candles.length < period) {
-      return []
-    }
-
-    const result: number[] = []
-    let sum = 0
-
-    // 첫 번째 MA 계산
-    for (let i = 0; i < period; i++) {
-      sum += candles[i][priceType]
-    }
-    result.push(sum / period)
-
-    // 이후 MA는 이전 값을 활용하여 계산
-    for (let i = 1; i <= candles.length - period; i++) {
-      sum = sum - candles[i - 1][priceType] + candles[i + period - 1][priceType]
-      result.push(sum / period)
-    }
-
-    return result
-  }
-
-  // 볼린저밴드 계산 함수
-  const calculateBollingerBands = (candles: CandleData[], period: number = 20, multiplier: number = 2): { upper: number, middle: number, lower: number }[] => {
-    if (!candles || candles.length < period) {
-      return []
-    }
-
-    const result: { upper: number, middle: number, lower: number }[] = []
-    
-    // 가격 데이터 미리 계산 (TP = (고가 + 저가 + 종가) / 3)
-    const prices = candles.map(c => (c.고가 + c.저가 + c.종가) / 3.0)
-    
-    let sum = prices.slice(0, period).reduce((a, b) => a + b, 0)
-    let mean = sum / period
-
-    // 첫 번째 표준편차 계산
-    let squareSum = prices.slice(0, period)
-      .map(p => Math.pow(p - mean, 2))
-      .reduce((a, b) => a + b, 0)
-    let stdDev = Math.sqrt(squareSum / period)
-
-    result.push({
-      upper: mean + multiplier * stdDev,
-      middle: mean,
-      lower: mean - multiplier * stdDev
-    })
-
-    // 이후 값들은 이전 계산을 활용
-    for (let i = 1; i <= prices.length - period; i++) {
-      // 평균 업데이트
-      sum = sum - prices[i - 1] + prices[i + period - 1]
-      mean = sum / period
-
-      // 표준편차 업데이트
-      squareSum = prices.slice(i, i + period)
-        .map(p => Math.pow(p - mean, 2))
-        .reduce((a, b) => a + b, 0)
-      stdDev = Math.sqrt(squareSum / period)
-
-      result.push({
-        upper: mean + multiplier * stdDev,
-        middle: mean,
-        lower: mean - multiplier * stdDev
-      })
-    }
-
-    return result
-  }
-
-  // 호가단위 조정 함수
-  const adjustToHogaUnit = (price: number): number => {
-    if (price < 1000) return price
-    if (price < 5000) return Math.floor(price / 5) * 5
-    if (price < 10000) return Math.floor(price / 10) * 10
-    if (price < 50000) return Math.floor(price / 50) * 50
-    if (price < 100000) return Math.floor(price / 100) * 100
-    if (price < 500000) return Math.floor(price / 500) * 500
-    return Math.floor(price / 1000) * 1000
-  }
-
   // 조건식 목록 조회 (웹 기반 자체 조건식)
   const { data: conditionList = [] } = useQuery(
     'conditions',
@@ -2404,7 +2328,6 @@ const AutoTrading = () => {
   const maxSimultaneousBuyRef = useRef<number>(10)
   const tradeLimitPerStockRef = useRef<number>(30)
   const maxDailyStocksRef = useRef<number>(50)
-  const feePercentRef = useRef<number>(0.92)
   const buyPriceSettingsRef = useRef({
     종목별매수가격설정실행: true,
     매수가격옵션: '지정가' as '시장가' | '지정가',
@@ -2582,10 +2505,6 @@ const AutoTrading = () => {
     maxDailyStocksRef.current = maxDailyStocks
   }, [maxDailyStocks])
   
-  useEffect(() => {
-    feePercentRef.current = feePercent
-  }, [feePercent])
-  
   useEffect(() => {
     buyPriceSettingsRef.current = buyPriceSettings
   }, [buyPriceSettings])
@@ -2617,12 +2536,8 @@ const AutoTrading = () => {
 
     const connectWebSocket = async () => {
       try {
-        // 서버의 WebSocket에 연결 (Vite 프록시를 통해 /ws 경로로 연결)
-        // Vite 프록시가 자동으로 서버(포트 3000)로 전달합니다
-        const wsProtocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:'
-        const wsHost = window.location.host
-        const wsUrl = `${wsProtocol}//${wsHost}/ws`
-        ws = new WebSocket(wsUrl)
+        // 서버의 WebSocket에 연결 (종목 시세는 연결 후 quotes 토픽으로 구독)
+        ws = openRealtimeSocket([], 'auto-trading')
 
         ws.onopen = async () => {
           // console.log('[실시간 시세] WebSocket 연결 성공')
@@ -2635,16 +2550,10 @@ const AutoTrading = () => {
             console.warn('[실시간 시세] 서버 WebSocket 연결 실패:', error.message)
           }
 
-          // 검색된 종목에 대한 실시간 시세 등록
-          const currentCodes = detectedStocks.map(stock => stock.code)
-          if (currentCodes.length > 0) {
-          try {
-            await kiwoomApi.registerRealTimeStocks(currentCodes)
+          // 검색된 종목과 체결된 주문 종목 실시간 시세 구독 (탭을 닫으면 서버가 구독 해지)
+          if (currentCodes.length > 0 && ws?.readyState === WebSocket.OPEN) {
+            subscribeTopics(ws, currentCodes.map(quotesTopic))
             registeredCodes = currentCodes
-            // console.log(`[실시간 시세] ${currentCodes.length}개 종목 등록 완료`)
-          } catch (error: any) {
-              console.error('[실시간 시세] 종목 등록 실패:', error.message)
-            }
           }
         }
 
@@ -3089,6 +2998,7 @@ const AutoTrading = () => {
                             
                             // 실현손익을 오늘의 총 실현손익에 누적
                             setTodayTotalRealizedProfit(prev => {
+                              if (ledgerRealizedProfitRef.current) return prev // 서버 실현손익 원장 값 사용
                               const newTotal = prev + 실현손익
                               const today = new Date().toLocaleDateString('ko-KR')
                               localStorage.setItem('today_realized_profit', newTotal.toString())
@@ -3148,6 +3058,7 @@ const AutoTrading = () => {
                               
                               // 실현손익을 오늘의 총 실현손익에 누적
                               setTodayTotalRealizedProfit(prev => {
+                                if (ledgerRealizedProfitRef.current) return prev // 서버 실현손익 원장 값 사용
                                 const newTotal = prev + 실현손익
                                 const today = new Date().toLocaleDateString('ko-KR')
                                 localStorage.setItem('today_realized_profit', newTotal.toString())
@@ -3252,8 +3163,9 @@ const AutoTrading = () => {
     
     const currentCodes = [...new Set([...detectedCodes, ...executedOrderCodes])] // 중복 제거
     const newCodes = currentCodes.filter(code => !registeredCodes.includes(code))
-    if (newCodes.length > 0 && wsConnected) {
-      kiwoomApi.registerRealTimeStocks(newCodes).catch(console.error)
+    const socket = ws as WebSocket | null // onopen에서 할당되므로 타입 좁히기 방지
+    if (newCodes.length > 0 && wsConnected && socket?.readyState === WebSocket.OPEN) {
+      subscribeTopics(socket, newCodes.map(quotesTopic))
       registeredCodes = [...registeredCodes, ...newCodes]
     }
 
@@ -3400,107 +3312,6 @@ const AutoTrading = () => {
     })
   }, [holdingStocks]) // 보유종목이 업데이트될 때마다 실행
 
-  // 손절 모니터링 (보유종목의 수익률을 실시간 체크하여 손절 기준에 도달하면 시장가 매도)
-  useEffect(() => {
-    if (!stopLossEnabled) return
-    if (!isRunning) return
-    if (holdingStocks.length === 0) return
-    if (!isConnected || !connected || !selectedAccount) return
-
-    holdingStocks.forEach(stock => {
-      // 이미 손절 실행 중인 종목은 스킵
-      if (stopLossExecuting.has(stock.code)) {
-        return
-      }
-
-      // 손절 기준에 도달한 경우 (손실률이 설정값 이하)
-      if (stock.profitPercent <= stopLossRate) {
-        console.log(`[손절 감지] ${stock.name} (${stock.code}): 현재 수익률 ${stock.profitPercent.toFixed(2)}% <= 손절 기준 ${stopLossRate}%`)
-        
-        // 손절 실행 중 상태로 설정 (중복 주문 방지)
-        setStopLossExecuting(prev => new Set(prev).add(stock.code))
-
-        // 시장가 매도 주문 실행
-        const executeSellOrder = async () => {
-          try {
-            // 매도 전 잔고 조회 수행 (모의투자 서버 잔고 동기화 이슈 방지)
-            if (isConnected && selectedAccount) {
-              console.log(`[손절 실행] ${stock.name} 매도 전 잔고 동기화 수행`)
-              await refetchAccountInfo()
-              await new Promise(resolve => setTimeout(resolve, 500)) // 0.5초 대기
-            }
-
-            addLog(`[손절 실행] ${stock.name} ${stock.quantity}주 시장가 매도 (현재 수익률: ${stock.profitPercent.toFixed(2)}%)`, 'warning')
-            
-            const sellResult = await kiwoomApi.placeOrder({
-              accountNo: selectedAccount.split('-')[0],
-              accountProductCode: selectedAccount.split('-')[1] || '01',
-              order_type: 'sell',
-              code: stock.code,
-              quantity: stock.quantity,
-              price: 0, // 시장가
-              order_option: '03', // 시장가
-            })
-
-            if (sellResult && (sellResult.success || sellResult.orderNumber)) {
-              console.log(`[손절 완료] ${stock.name} 매도 주문 전송 완료 (주문번호: ${sellResult.orderNumber || sellResult.order_number || 'N/A'})`)
-              addLog(`[손절 완료] ${stock.name} ${stock.quantity}주 시장가 매도 주문 완료`, 'success')
-              
-              // 주문 내역에 추가
-              const newOrder: OrderLog = {
-                id: Date.now(),
-                date: new Date().toLocaleDateString('ko-KR'),
-                time: new Date().toLocaleTimeString('ko-KR'),
-                type: 'sell',
-                stockName: stock.name,
-                stockCode: stock.code,
-                quantity: stock.quantity,
-                price: stock.currentPrice, // 시장가이지만 현재가를 기록
-                status: '접수',
-                orderNumber: sellResult.orderNumber || sellResult.order_number,
-                isExecuted: false,
-                orderTimestamp: Date.now(),
-              }
-              
-              setOrderLogs(prev => [newOrder, ...prev])
-              
-              // 일정 시간 후 손절 실행 상태 해제 (중복 방지 타이머)
-              setTimeout(() => {
-                setStopLossExecuting(prev => {
-                  const newSet = new Set(prev)
-                  newSet.delete(stock.code)
-                  return newSet
-                })
-              }, 10000) // 10초 후 해제
-            } else {
-              console.error(`[손절 실패] ${stock.name} 매도 주문 실패:`, sellResult.message)
-              addLog(`[손절 실패] ${stock.name} 매도 주문 실패: ${sellResult.message}`, 'error')
-              
-              // 실패 시 즉시 상태 해제
-              setStopLossExecuting(prev => {
-                const newSet = new Set(prev)
-                newSet.delete(stock.code)
-                return newSet
-              })
-            }
-          } catch (error: any) {
-            console.error(`[손절 오류] ${stock.name} 매도 중 오류:`, error)
-            addLog(`[손절 오류] ${stock.name} 매도 중 오류: ${error.message}`, 'error')
-            
-            // 오류 시 상태 해제
-            setStopLossExecuting(prev => {
-              const newSet = new Set(prev)
-              newSet.delete(stock.code)
-              return newSet
-            })
-          }
-        }
-
-        executeSellOrder()
-      }
-    })
-  }, [holdingStocks, stopLossEnabled, stopLossRate, isRunning, isConnected, connected, selectedAccount])
-
   // 차트 데이터로 검색된 종목 화면 갱신 (주기적으로 차트 데이터 조회하여 가격 정보 업데이트)
   // 조건검색 직후에는 차트 데이터 조회를 지연시켜 API 제한 방지
   const lastSearchTimeRef = useRef<number>(0)
@@ -3667,23 +3478,37 @@ const AutoTrading = () => {
     }
   }, [resizingColumn, resizeStartX, resizeStartWidth])
 
-  // 라이선스 키 검증 (유효성만 확인)
-  const validateLicenseKey = async (key: string) => {
+  // 라이선스 세션이 끊기면 (서버 재시작, 키 만료/비활성화) 다시 키 검증하도록 안내
+  useEffect(() => {
+    return onLicenseError((error) => {
+      const remaining = error.license ? ` (남은 기간: ${error.license.remainingDays}일)` : ''
+      addLog(`라이선스 확인 실패: ${error.message}${remaining}. 다시 연결해주세요`, 'error')
+      if (error.license) {
+        setKeyInfo({ expiresAt: error.license.expiresAt, remainingDays: error.license.remainingDays })
+      }
+      setShowLoginModal(true)
+    })
+  }, [])
+
+  // 라이선스 키 검증 (처음 사용하면 App Key와 이 기기에 바인딩, 세션 토큰 발급)
+  const validateLicenseKey = async (key: string, keyAppkey: string) => {
     try {
       const response = await fetch('/api/auth/validate-key', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ key: key.trim() })
+        body: JSON.stringify({ key: key.trim(), appkey: keyAppkey, deviceId: getDeviceId() })
       })
 
       const data = await response.json()
       
       if (data.success) {
+        setLicenseSession(data.sessionToken, data.sessionExpiresAt)
         setKeyInfo({
           expiresAt: data.expiresAt,
-          remainingDays: data.remainingDays
+          remainingDays: data.remainingDays,
+          planName: data.plan?.name
         })
         return { success: true }
       } else {
@@ -3694,6 +3519,21 @@ const AutoTrading = () => {
     }
   }
 
+  // 라이선스 키 남은 기간 조회 (입력 중 표시용, 세션은 발급하지 않음)
+  const lookupLicenseKey = async (key: string) => {
+    const response = await fetch(`/api/auth/key-info/${encodeURIComponent(key)}`)
+    const data = await response.json()
+
+    if (!data.success || !data.info?.isActive) {
+      throw new Error(data.message || '유효하지 않은 키입니다')
+    }
+    setKeyInfo({
+      expiresAt: data.info.expiresAt,
+      remainingDays: Math.ceil((new Date(data.info.expiresAt).getTime() - Date.now()) / (1000 * 60 * 60 * 24)),
+      planName: data.info.plan?.name
+    })
+  }
+
   // 키움 API 연결
   const handleConnect = async () => {
     setIsConnecting(true)
@@ -3717,7 +3557,7 @@ const AutoTrading = () => {
 
       // 라이선스 키 유효성 검증 (필수)
       try {
-        await validateLicenseKey(licenseKey.trim())
+        await validateLicenseKey(licenseKey.trim(), finalAppkey)
         if (keyInfo?.remainingDays !== undefined) {
           addLog(`라이선스 키 검증 성공 (남은 기간: ${keyInfo.remainingDays}일)`, 'success')
         }
@@ -3751,6 +3591,7 @@ const AutoTrading = () => {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          ...licenseHeaders(),
         },
         body: JSON.stringify({ 
           appkey: finalAppkey, 
@@ -3781,6 +3622,7 @@ const AutoTrading = () => {
   const handleDisconnect = async () => {
     try {
       await fetch('/api/kiwoom/disconnect', { method: 'POST' })
+      await clearLicenseSession()
       setIsConnected(false)
       // useKiwoomStore의 connected 상태 업데이트
       await checkStatus()
@@ -3802,7 +3644,39 @@ const AutoTrading = () => {
     setConditions(updatedConditions)
   }
 
-  // 시작 버튼 클릭
+  // 서버 자동매매 엔진 상태를 화면 상태에 반영
+  // 검색된 종목은 엔진 값으로 갱신하되, 화면 표시용 필드(시가/고가/전일종가 등)는 유지
+  const applyEngineStatus = (status: any) => {
+    if (!status) {
+      return
+    }
+
+    setIsRunning(!!status.running)
+    if (status.circuitBreaker) {
+      setCircuitBreaker(status.circuitBreaker)
+    }
+
+    if (Array.isArray(status.detectedStocks) && status.detectedStocks.length > 0) {
+      setDetectedStocks(prev => status.detectedStocks.map((stock: any) => {
+        const existingStock = prev.find(s => s.code === stock.code)
+        return {
+          ...existingStock,
+          code: stock.code,
+          name: stock.name,
+          price: stock.price,
+          change: stock.change,
+          changePercent: stock.changePercent,
+          volume: stock.volume,
+          detectedCondition: stock.detectedCondition,
+          detectedTime: stock.detectedTime,
+          startPrice: stock.startPrice,
+          detectedChangePercent: stock.detectedChangePercent,
+        }
+      }))
+    }
+  }
+
+  // 시작 버튼 클릭 (서버 자동매매 엔진 시작)
   const handleStart = async () => {
     const enabledConditions = conditions.filter(c => c.enabled)
     if (enabledConditions.length === 0) {
@@ -3816,1801 +3690,208 @@ const AutoTrading = () => {
     }
 
     try {
-      addLog('조건식 검색 시작...', 'info')
-      
-      // 웹 기반 조건식 검색 실행
-      const result = await kiwoomApi.searchCondition(conditions)
-      
-      if (result.success && result.stocks && result.stocks.length > 0) {
-        // 검색된 종목 추가
-        // 자동매매 시작 시점의 가격과 등락률을 저장
-        const newStocks: DetectedStock[] = result.stocks.map((stock: any) => {
-          // 전일대비 등락률
-          const changePercent = stock.changeRate || stock.changePercent || 0
-          
-          // 전일 종가 및 전일대비 재계산
-          let calculatedChange = 0
-          let calculatedPrevClose = 0
-          
-          if (stock.price && changePercent !== 0) {
-             calculatedPrevClose = stock.price / (1 + changePercent / 100)
-             // 전일대비는 정수여야 함
-             calculatedChange = Math.round(stock.price - calculatedPrevClose)
-          }
-          
-          // 서버에서 준 change 값이 유효하고 계산값과 비슷하면 사용, 아니면 계산값 사용
-          // (서버 값이 0이거나, 계산값과 10% 이상 차이나면 계산값 사용)
-          let finalChange = 0
-          if (stock.change && stock.change !== 0) {
-            // 서버 값이 있고 0이 아닐 때
-            if (calculatedChange !== 0 && Math.abs(stock.change - calculatedChange) > Math.abs(calculatedChange * 0.1)) {
-              // 차이가 크면 계산값 사용 (단, 계산값도 0이 아닐 때)
-              finalChange = calculatedChange
-            } else {
-               finalChange = stock.change
-            }
-          } else {
-             finalChange = calculatedChange
-          }
-
-          // 전일 종가 설정
-          const prevClosePrice = calculatedPrevClose > 0 
-            ? calculatedPrevClose 
-            : (stock.price - finalChange)
-          
-          return {
-            code: stock.code,
-            name: stock.name,
-            price: stock.price,
-            change: finalChange, // 전일대비 변동 금액 (보정됨)
-            changePercent: changePercent, // 전일대비 등락률
-            volume: stock.volume,
-            detectedCondition: result.appliedConditions.join(', '),
-            detectedTime: new Date().toLocaleTimeString(),
-            startPrice: stock.price, // 자동매매 시작 시점의 가격 저장
-            detectedChangePercent: changePercent, // 조건 감지 시점의 등락률 저장
-            openPrice: stock.openPrice || stock.시가 || 0, // 시가 저장
-            highPrice: stock.highPrice || stock.고가 || 0, // 고가 저장
-            prevClosePrice: prevClosePrice > 0 ? prevClosePrice : undefined, // 전일 종가 저장
-          }
-        })
-        
-        setDetectedStocks(newStocks)
-        
-        // 조건검색 시간 기록 (차트 데이터 조회 지연용)
-        lastSearchTimeRef.current = Date.now()
-        
-        // 선택된 종목도 업데이트 (가격만 갱신)
-        if (watchlistStocks.length > 0) {
-          const updatedWatchlist = watchlistStocks.map(watchStock => {
-            const foundStock = newStocks.find(s => s.code === watchStock.code)
-            if (foundStock) {
-              return {
-                ...foundStock,
-                detectedTime: watchStock.detectedTime // 최초 추가 시간 유지
-              }
-            }
-            return watchStock
-          })
-          setWatchlistStocks(updatedWatchlist)
-          addLog(`선택된 종목 ${updatedWatchlist.length}개 업데이트`, 'info')
-        }
-        
-        addLog(`${result.stocks.length}개 종목 검색 완료 (차트 데이터는 30초 후부터 조회됩니다)`, 'success')
-      } else {
-        addLog('검색된 종목이 없습니다', 'warning')
-      }
+      const accountParts = selectedAccount.split('-')
+      const result = await kiwoomApi.startTrading({
+        accountNo: accountParts[0] || selectedAccount,
+        accountProductCode: accountParts[1] || '01',
+        conditions,
+        amountPerStock,
+        maxSimultaneousBuy,
+        tradeLimitPerStock,
+        maxDailyStocks,
+        buyPriceSettings,
+        startHour,
+        startMinute,
+        endHour,
+        endMinute,
+        endSecond,
+        dropSellTime,
+        dropSellStartHour,
+        dropSellStartMinute,
+        dropSellEndSecond,
+        profitTarget,
+        profitType,
+        lossLimit,
+        lossType,
+        lossPriceOffset,
+        stopLossEnabled,
+        stopLossRate,
+        trailingStop,
+        trailingProfitThreshold,
+        trailingDropThreshold,
+        buyFormula1,
+        strategyBasicBuy,
+        strategyMarketOpen,
+        strategyBollinger,
+        strategyScalping,
+        strategyBreakout,
+        strategyMarketClose,
+        basicBuy,
+        marketOpenBuy,
+        bollingerBuy,
+        marketCloseBuy,
+        scalpingBuy,
+        breakoutBuy,
+        strategies: loadStrategySettings(), // 환경설정 매매기법 탭에서 바꾼 전략 설정 (위 항목보다 우선)
+      })
 
+      applyEngineStatus(result.status)
       setIsRunning(true)
-      addLog('자동매매 시작', 'success')
     } catch (error: any) {
-      addLog(`자동매매 시작 실패: ${error.message}`, 'error')
+      addLog(`자동매매 시작 실패: ${error.response?.data?.message || error.message}`, 'error')
     }
   }
 
-  // 정지 버튼 클릭
+  // 정지 버튼 클릭 (서버 자동매매 엔진 중지)
   const handleStop = async () => {
-    setIsRunning(false)
-    addLog('자동매매 중지', 'warning')
-  }
-
-  // 분봉 데이터 가져오기
-  const getCandleData = async (code: string): Promise<CandleData[]> => {
     try {
-      const candles = await kiwoomApi.getCandle(code, 'min')
-      if (!candles || candles.length === 0) {
-        return []
-      }
-      
-      // API 응답을 CandleData 형식으로 변환
-      return candles.map((c: any) => ({
-        일자: c.일자 || c.time || '',
-        시가: parseFloat(c.시가 || c.open || '0') || 0,
-        고가: parseFloat(c.고가 || c.high || '0') || 0,
-        저가: parseFloat(c.저가 || c.low || '0') || 0,
-        종가: parseFloat(c.종가 || c.close || '0') || 0,
-        거래량: parseFloat(c.거래량 || c.volume || '0') || 0,
-      }))
-    } catch (error) {
-      console.error(`[분봉데이터] ${code} 조회 실패:`, error)
-      return []
+      const result = await kiwoomApi.stopTrading()
+      applyEngineStatus(result.status)
+    } catch (error: any) {
+      addLog(`자동매매 중지 실패: ${error.response?.data?.message || error.message}`, 'error')
     }
   }
 
-  // 0. My_매수신호_1 함수 (이동평균선 기반 간단한 매수 신호)
-  const My_매수신호_1 = async (stock: DetectedStock, candles: CandleData[]): Promise<boolean> => {
-    try {
-      // 분봉 데이터 유효성 체크 (최소 20개 필요)
-      if (!candles || candles.length < 20) {
-        return false
-      }
-
-      // 이동평균선 계산 (MA5, MA20)
-      const ma5 = calculateMA(candles, 5, '종가')
-      const ma20 = calculateMA(candles, 20, '종가')
-
-      if (ma5.length < 2 || ma20.length < 2) {
-        return false
-      }
-
-      // 상승봉 카운트 계산 (최근 3개 봉 중)
-      let 상승봉카운트 = 0
-      for (let i = 0; i < Math.min(3, candles.length); i++) {
-        if (candles[i].종가 > candles[i].시가) {
-          상승봉카운트++
-        }
-      }
-
-      // 현재가 상승 여부 확인
-      const 현재가 = stock.price
-      const 현재봉시가 = candles[0].시가
-      const 현재가상승 = 현재가 > 현재봉시가
-
-      // MA5가 MA20 위에 있는지 확인
-      const ma5Above = ma5[0] > ma20[0]
-
-      // 매수 신호 조건: (MA5 > MA20 && 상승봉카운트 >= 3 && 현재가상승)
-      // C# 코드에서는 차트 패턴 분석도 포함하지만, 여기서는 기본 조건만 구현
-      if (ma5Above && 상승봉카운트 >= 3 && 현재가상승) {
-        const ma5ma20비율 = ((ma5[0] / ma20[0]) - 1) * 100
-        addLog(`[매수신호1] ${stock.name}: MA5/MA20 상승비율:${ma5ma20비율.toFixed(2)}%, 연속상승봉:${상승봉카운트}개, 현재가:${현재가.toLocaleString()}원`, 'success')
-        return true
-      }
+  // 긴급정지 버튼 클릭 (서버 서킷 브레이커 작동: 신규 매수 차단, 미체결 취소, 선택 시 전량 매도)
+  const handleHalt = async () => {
+    if (!window.confirm('매매를 정지하시겠습니까?\n해제 전까지 서버에서 모든 신규 매수가 차단되고 미체결 주문이 취소됩니다.')) {
+      return
+    }
+    const flattenPositions = window.confirm('보유 종목도 모두 시장가로 매도하시겠습니까?')
 
-      return false
+    try {
+      const accountParts = selectedAccount.split('-')
+      const state = await kiwoomApi.haltTrading({
+        message: '사용자 긴급정지',
+        cancelOpenOrders: true,
+        flattenPositions,
+        accountNo: accountParts[0] || selectedAccount,
+        accountProductCode: accountParts[1] || '01',
+      })
+      setCircuitBreaker(state)
+      addLog('[긴급정지] 매매가 정지되었습니다', 'warning')
     } catch (error: any) {
-      console.error(`[My_매수신호_1] ${stock.name} 오류:`, error)
-      return false
+      addLog(`긴급정지 실패: ${error.response?.data?.message || error.message}`, 'error')
     }
   }
 
-  // 1. 장시작급등주매수 함수 (C# 버전과 동일)
-  const 장시작급등주매수 = async (stock: DetectedStock, candles: CandleData[]): Promise<boolean> => {
-    try {
-      if (!candles || candles.length < marketOpenBuy.shortTermPeriod) {
-        return false
-      }
-
-      const 최근분봉 = candles.slice(0, marketOpenBuy.recentCandleCount)
-      const 현재가 = stock.price
-      const 현재봉시가 = 최근분봉[0].시가
-      const 전봉종가 = 최근분봉[1].종가
-      const 전봉시가 = 최근분봉[1].시가
-
-      // 1. 연속 상승 패턴 확인
-      let 연속상승봉수 = 0
-      for (let i = 0; i < Math.min(marketOpenBuy.consecutiveRiseCheckCount, 최근분봉.length); i++) {
-        if (i + 1 < 최근분봉.length && 
-            최근분봉[i].종가 > 최근분봉[i].시가 && 
-            최근분봉[i].종가 > 최근분봉[i + 1].종가) {
-          연속상승봉수++
-        } else {
-          break
-        }
-      }
-
-      const 연속상승패턴 = 연속상승봉수 >= marketOpenBuy.minConsecutiveRises
-      if (!연속상승패턴) {
-        return false
-      }
-
-      // 2. 이동평균선 확인 (설정값 사용)
-      const 단기이동평균 = 최근분봉.slice(0, marketOpenBuy.shortTermPeriod).reduce((sum, c) => sum + c.종가, 0) / marketOpenBuy.shortTermPeriod
-      const 중기이동평균 = 최근분봉.slice(0, marketOpenBuy.midTermPeriod).reduce((sum, c) => sum + c.종가, 0) / marketOpenBuy.midTermPeriod
-      const 이동평균선정배열 = 현재가 > 단기이동평균 && 단기이동평균 > 중기이동평균
-
-      if (marketOpenBuy.movingAvgRequired > 0 && !이동평균선정배열) {
-        return false
-      }
-
-      // 3. 거래량 증가 패턴 확인 (설정값 사용)
-      const 현재봉거래량 = 최근분봉[0].거래량
-      const 평균거래량 = 최근분봉.slice(1, 1 + marketOpenBuy.avgVolumePeriod).reduce((sum, c) => sum + c.거래량, 0) / marketOpenBuy.avgVolumePeriod
-      const 거래량증가율 = ((현재봉거래량 / Math.max(평균거래량, 1)) - 1) * 100
-
-      if (거래량증가율 < marketOpenBuy.volumeRatioLimit) {
-        return false
-      }
-
-      // 4. 상승 추세 유지 확인
-      const 현재봉상승률 = ((현재가 - 현재봉시가) / 현재봉시가) * 100
-      const 전봉상승률 = ((전봉종가 - 전봉시가) / 전봉시가) * 100
-
-      if (현재봉상승률 <= marketOpenBuy.currentMinRise || 전봉상승률 <= marketOpenBuy.prevMinRise) {
-        return false
-      }
-
-      // 5. 폭락 패턴 필터링 (설정값 사용)
-      const 최근고가 = Math.max(...최근분봉.slice(0, marketOpenBuy.recentHighPeriod).map(c => c.고가))
-      const 고가대비하락률 = ((현재가 - 최근고가) / 최근고가) * 100
-
-      if (고가대비하락률 < marketOpenBuy.highDropLimit) {
-        return false
-      }
-
-      // 6. 양봉 비율 체크 (설정값 사용)
-      let 양봉수 = 0
-      let 음봉수 = 0
-      for (let i = 0; i < Math.min(marketOpenBuy.bullishRatioCheckCount, 최근분봉.length); i++) {
-        if (최근분봉[i].종가 >= 최근분봉[i].시가) {
-          양봉수++
-        } else {
-          음봉수++
-        }
-      }
-
-      const 양봉비율 = (양봉수 / (양봉수 + 음봉수)) * 100
-      if (양봉비율 < marketOpenBuy.minBullishRatio) {
-        return false
-      }
-
-      // 7. RSI 조건 확인 (설정값 사용)
-      const rsi = calculateRSI(candles, marketOpenBuy.rsiPeriod)
-      if (rsi < marketOpenBuy.rsiLower || rsi > marketOpenBuy.rsiUpper) {
-        return false
-      }
-
-      // 8. 거래대금 체크
-      const 거래대금 = 현재가 * stock.volume
-      const 최소거래대금 = marketOpenBuy.minTradingAmount * 100000000 // 억 단위
-      if (거래대금 < 최소거래대금) {
-        return false
-      }
+  // 매매 정지 해제
+  const handleResume = async () => {
+    if (!window.confirm('매매 정지를 해제하시겠습니까?')) {
+      return
+    }
 
-      // 모든 조건 통과
-      addLog(`[장시작급등주매수 성공] ${stock.name} - 연속상승봉:${연속상승봉수}개, 거래량증가율:${거래량증가율.toFixed(2)}%, RSI:${rsi.toFixed(2)}`, 'success')
-      return true
+    try {
+      setCircuitBreaker(await kiwoomApi.resumeTrading())
+      addLog('[긴급정지] 매매 정지가 해제되었습니다', 'info')
     } catch (error: any) {
-      console.error(`[장시작급등주매수] ${stock.name} 오류:`, error)
-      return false
+      const status = error.response?.status
+      const hint = status === 401 || status === 403 ? ' (/admin에서 관리자로 로그인한 뒤 다시 시도하세요)' : ''
+      addLog(`매매 정지 해제 실패: ${error.response?.data?.message || error.message}${hint}`, 'error')
     }
   }
 
-  // 2. 볼린저밴드매수 함수 (C# 버전과 동일)
-  const 볼린저밴드매수 = async (stock: DetectedStock, candles: CandleData[]): Promise<boolean> => {
-    try {
-      if (!candles || candles.length < bollingerBuy.shortTermPeriod) {
-        return false
-      }
-
-      const 최근분봉 = candles.slice(0, bollingerBuy.recentCandleCount)
-      const 현재가 = stock.price
-
-      // 볼린저밴드 계산 (설정값 사용)
-      const bollingerPeriod = Math.round(bollingerBuy.bollingerPeriod || 20)
-      const bollingerMultiplier = bollingerBuy.bollingerMultiplier || 2
-      const bollingerBands = calculateBollingerBands(candles, bollingerPeriod, bollingerMultiplier)
-      if (bollingerBands.length === 0) {
-        return false
-      }
-
-      const 하단밴드 = bollingerBands[0].lower
-      const 중심선 = bollingerBands[0].middle
-      const 상단밴드 = bollingerBands[0].upper
-
-      // 1. 시가와 고가의 변동 체크
-      if (bollingerBuy.openHighBounceLimitUse > 0) {
-        const 시가 = 최근분봉[0].시가
-        const 고가 = 최근분봉[0].고가
-        const 시가고가변동률 = ((고가 - 시가) / 시가) * 100
+  // 서버 자동매매 엔진 상태 수신 (WebSocket)
+  // 탭을 닫았다가 다시 열어도 서버에서 실행 중인 엔진 상태를 이어서 표시
+  useEffect(() => {
+    let isMounted = true
 
-        if (시가고가변동률 > bollingerBuy.openHighBounceLimit) {
-          return false
+    kiwoomApi.getTradingStatus()
+      .then(status => {
+        if (isMounted) {
+          applyEngineStatus(status)
         }
-      }
-
-      // 2. 가격 상승률 계산 (설정값 사용)
-      let 최근가격상승률 = 0
-      let 최근3분가격상승률 = 0
-
-      if (최근분봉.length > 1) {
-        최근가격상승률 = ((현재가 - 최근분봉[1].종가) / 최근분봉[1].종가) * 100
-      }
-
-      if (최근분봉.length > bollingerBuy.priceRiseCheckPeriod + 1) {
-        const idx = Math.min(bollingerBuy.priceRiseCheckPeriod, 최근분봉.length - 1)
-        최근3분가격상승률 = ((현재가 - 최근분봉[idx].종가) / 최근분봉[idx].종가) * 100
-      }
+      })
+      .catch(error => console.warn('[자동매매 엔진] 상태 조회 실패:', error.message))
+    kiwoomApi.getStatus()
+      .then(status => {
+        if (isMounted && status.webSocket) {
+          setRealtimeConnection(status.webSocket)
+        }
+      })
+      .catch(error => console.warn('[실시간 시세] 연결 상태 조회 실패:', error.message))
 
-      // 3. 단기 이동평균선 확인 (설정값 사용)
-      const 종가리스트 = 최근분봉.map(c => c.종가)
-      const movingAvgPeriod = Math.round(bollingerBuy.movingAvgPeriod || 3)
-      const 단기이동평균 = 종가리스트.slice(0, movingAvgPeriod).reduce((sum, p) => sum + p, 0) / movingAvgPeriod
+    let ws: WebSocket | null = null
+    const handleMessage = (event: MessageEvent) => {
+      try {
+        const message = parseRealtimeMessage(event.data)
+        if (!message) {
+          return
+        }
+        if (isMounted && message.type === 'breaker' && message.data) {
+          setCircuitBreaker(message.data)
+          return
+        }
+        if (isMounted && message.type === 'connection' && message.data) {
+          setRealtimeConnection(message.data)
+          return
+        }
+        // 실시간 잔고 (보유수량이 0이면 전량 매도)
+        if (isMounted && message.type === 'balance' && message.data?.code) {
+          const balance = message.data
+          setHoldingStocks(prevHolding => {
+            if (balance.quantity <= 0) {
+              return prevHolding.filter(stock => stock.code !== balance.code)
+            }
 
-      if (bollingerBuy.movingAvgRequired > 0 && 현재가 < 단기이동평균 && 최근가격상승률 < bollingerBuy.minPriceRise) {
-        return false
-      }
+            const existing = prevHolding.find(stock => stock.code === balance.code)
+            const currentPrice = balance.currentPrice || existing?.currentPrice || balance.averagePrice
+            const profitPercent = balance.averagePrice > 0
+              ? ((currentPrice - balance.averagePrice) / balance.averagePrice) * 100
+              : 0
+            const updated: HoldingStock = {
+              code: balance.code,
+              name: balance.name || existing?.name || balance.code,
+              quantity: balance.quantity,
+              purchasePrice: balance.averagePrice,
+              currentPrice,
+              profit: (currentPrice - balance.averagePrice) * balance.quantity,
+              profitPercent,
+              maxProfitPercent: Math.max(existing?.maxProfitPercent ?? profitPercent, profitPercent),
+            }
+            return existing
+              ? prevHolding.map(stock => (stock.code === balance.code ? updated : stock))
+              : [...prevHolding, updated]
+          })
+          return
+        }
+        if (isMounted && message.type === 'order' && message.data?.side === 'sell' && message.data.filledQuantity > 0) {
+          setTimeout(refreshTodayRealizedProfit, 1000) // 서버 DB에 체결이 기록된 뒤 조회
+          return
+        }
+        if (!isMounted || message.type !== 'engine' || !message.data) {
+          return
+        }
 
-      // 4. 거래량 분석 - 순간 거래량 폭증 감지
-      let 순간거래량증가율 = 0
-      if (bollingerBuy.instantVolumeUse > 0 && 최근분봉.length > bollingerBuy.volumeCompareCount) {
-        const 현재봉거래량 = 최근분봉[0].거래량
-        const 이전봉거래량 = 최근분봉.slice(1, 1 + bollingerBuy.volumeCompareCount)
-          .reduce((sum, c) => sum + c.거래량, 0) / bollingerBuy.volumeCompareCount
-        순간거래량증가율 = 이전봉거래량 > 0 
-          ? ((현재봉거래량 / 이전봉거래량) - 1) * 100 
-          : 0
-
-        if (순간거래량증가율 < bollingerBuy.instantVolumeIncrease) {
-          return false
+        if (message.data.type === 'status') {
+          applyEngineStatus(message.data.data)
+        } else if (message.data.type === 'log') {
+          addLog(message.data.data.message, message.data.data.level)
         }
-      } else {
-        return false
+      } catch (error) {
+        console.error('[자동매매 엔진] 메시지 처리 오류:', error)
       }
-
-      // 모든 조건 충족
-      addLog(`[볼린저밴드매수 성공] ${stock.name} - 거래량폭증:${순간거래량증가율.toFixed(2)}%, 가격상승률:${최근가격상승률.toFixed(2)}%`, 'success')
-      return true
-    } catch (error: any) {
-      console.error(`[볼린저밴드매수] ${stock.name} 오류:`, error)
-      return false
     }
-  }
-
-  // 3. 장마감종가배팅매수 함수 (C# 버전과 동일)
-  const 장마감종가배팅매수 = async (stock: DetectedStock, candles: CandleData[]): Promise<boolean> => {
-    try {
-      if (!candles || candles.length < marketCloseBuy.minCandleCount) {
-        return false
-      }
-
-      const 최근분봉 = candles.slice(0, marketCloseBuy.recentCandleCount)
-      const 현재가 = stock.price
-
-      // 1. 가격 상승률 계산 (설정값 사용)
-      let 최근가격상승률 = 0
-      let 최근3분가격상승률 = 0
-
-      if (최근분봉.length > 1) {
-        최근가격상승률 = ((현재가 - 최근분봉[1].종가) / 최근분봉[1].종가) * 100
-      }
-
-      if (최근분봉.length > marketCloseBuy.priceRiseCheckPeriod + 1) {
-        const idx = Math.min(marketCloseBuy.priceRiseCheckPeriod, 최근분봉.length - 1)
-        최근3분가격상승률 = ((현재가 - 최근분봉[idx].종가) / 최근분봉[idx].종가) * 100
-      }
-
-      // 2. 이동평균 계산 (설정값 사용)
-      const 종가리스트 = 최근분봉.map(c => c.종가)
-      const 단기이동평균 = 종가리스트.slice(0, marketCloseBuy.shortTermPeriod).reduce((sum, p) => sum + p, 0) / marketCloseBuy.shortTermPeriod
-
-      if (현재가 < 단기이동평균 && 최근가격상승률 < marketCloseBuy.minPriceRise) {
-        return false
-      }
-
-      // 3. 거래량 급증 체크 (설정값 사용)
-      const 현재거래량 = stock.volume
-      const 이전거래량평균 = candles.slice(1, 1 + marketCloseBuy.avgVolumePeriod).reduce((sum, c) => sum + c.거래량, 0) / marketCloseBuy.avgVolumePeriod
-
-      if (이전거래량평균 < 1) {
-        return false
-      }
-
-      const 거래량증가율 = ((현재거래량 / 이전거래량평균) - 1) * 100
-
-      // 거래량증가율기준 (설정값 사용)
-      const 거래량증가율기준 = marketCloseBuy.volumeIncreaseRate
-      if (거래량증가율 < 거래량증가율기준) {
-        return false
-      }
-
-      // 4. 거래대금 체크 (설정값 사용)
-      const 거래대금 = 현재가 * 현재거래량
-      const 최소거래대금 = marketCloseBuy.minTradingAmount * 100000000 // 억 단위
-      if (거래대금 < 최소거래대금) {
-        return false
-      }
-
-      // 5. 변동성 체크 (설정값 사용)
-      const 최고가 = Math.max(...최근분봉.map(c => c.고가))
-      const 최저가 = Math.min(...최근분봉.map(c => c.저가))
-      const 변동폭비율 = ((최고가 - 최저가) / 최저가) * 100
-
-      const 변동성상한 = marketCloseBuy.maxVolatility
-      if (변동폭비율 > 변동성상한) {
-        return false
-      }
-
-      addLog(`[장마감종가배팅매수 성공] ${stock.name} - 거래량증가율:${거래량증가율.toFixed(2)}%, 변동폭:${변동폭비율.toFixed(2)}%`, 'success')
-      return true
-    } catch (error: any) {
-      console.error(`[장마감종가배팅매수] ${stock.name} 오류:`, error)
-      return false
-    }
-  }
-
-  // 4. 스캘핑매수 함수 (C# 버전과 동일)
-  const 스캘핑매수 = async (stock: DetectedStock, candles: CandleData[]): Promise<boolean> => {
-    try {
-      if (!candles || candles.length < scalpingBuy.minCandleCount) {
-        return false
-      }
-
-      const 최근분봉 = candles.slice(0, scalpingBuy.recentCandleCount)
-      const 현재가 = stock.price
-
-      // 1. 가격 상승률 계산 (설정값 사용)
-      let 최근가격상승률 = 0
-      let 최근3분가격상승률 = 0
-
-      if (최근분봉.length > 1) {
-        최근가격상승률 = ((현재가 - 최근분봉[1].종가) / 최근분봉[1].종가) * 100
-      }
-
-      if (최근분봉.length > 3) {
-        const idx = Math.min(2, 최근분봉.length - 1)
-        최근3분가격상승률 = ((현재가 - 최근분봉[idx].종가) / 최근분봉[idx].종가) * 100
-      }
-
-      // 2. 단기 이동평균선 확인 (설정값 사용)
-      const 종가리스트 = 최근분봉.map(c => c.종가)
-      const 단기이동평균 = 종가리스트.slice(0, scalpingBuy.shortTermPeriod).reduce((sum, p) => sum + p, 0) / scalpingBuy.shortTermPeriod
-
-      if (현재가 < 단기이동평균 && 최근가격상승률 < scalpingBuy.priceRiseCheckThreshold) {
-        return false
-      }
-
-      // 3. 거래량 폭증 감지 (설정값 사용)
-      const 현재봉거래량 = 최근분봉[0].거래량
-      const 이전봉거래량 = 최근분봉.slice(1, 1 + scalpingBuy.prevVolumePeriod).reduce((sum, c) => sum + c.거래량, 0) / scalpingBuy.prevVolumePeriod
-      const 순간거래량증가율 = 이전봉거래량 > 0 
-        ? ((현재봉거래량 / 이전봉거래량) - 1) * 100 
-        : 0
-
-      // 거래량 급증 판단 (설정값 사용)
-      const 거래량급증 = 순간거래량증가율 >= scalpingBuy.volumeIncreaseRate
-      if (!거래량급증) {
-        // 거래량 급증이 없으면 풀백 패턴 확인 필요
-      }
-
-      // 볼린저 밴드 위치 확인 (기본값 사용, 볼린저밴드 설정값과 동일하게)
-      const bollingerPeriod = Math.round(bollingerBuy.bollingerPeriod || 20)
-      const bollingerMultiplier = bollingerBuy.bollingerMultiplier || 2
-      const bollingerBands = calculateBollingerBands(candles, bollingerPeriod, bollingerMultiplier)
-      if (bollingerBands.length === 0) {
-        return false
-      }
-
-      const 중심선 = bollingerBands[0].middle
-      const 상단밴드 = bollingerBands[0].upper
-      const 하단밴드 = bollingerBands[0].lower
-
-      const 중심선대비 = ((현재가 - 중심선) / 중심선) * 100
-      const 밴드폭 = ((상단밴드 - 하단밴드) / 중심선) * 100
-
-      // 최소 밴드폭 체크 (설정값 사용)
-      const 하단밴드이탈률 = scalpingBuy.lowerBandDeviation
-      if (밴드폭 < 하단밴드이탈률) {
-        return false
-      }
-
-      // 4. 풀백 재진입 패턴 분석 (설정값 사용)
-      const 전체분봉 = candles.slice(0, scalpingBuy.fullCandleCount)
-      if (전체분봉.length < scalpingBuy.fullCandleCount) {
-        return false
-      }
-
-      const 종가배열 = 전체분봉.map(c => c.종가)
-
-      // 고점, 저점 탐색 (설정값 사용)
-      const 고점들: number[] = []
-      const 저점들: number[] = []
-
-      for (let i = scalpingBuy.peakValleySearchStart; i < 종가배열.length - scalpingBuy.peakValleySearchStart; i++) {
-        // 고점 조건
-        if (종가배열[i] > 종가배열[i - 1] && 종가배열[i] > 종가배열[i - 2] &&
-            종가배열[i] > 종가배열[i + 1] && 종가배열[i] > 종가배열[i + 2]) {
-          고점들.push(i)
-        }
-
-        // 저점 조건
-        if (종가배열[i] < 종가배열[i - 1] && 종가배열[i] < 종가배열[i - 2] &&
-            종가배열[i] < 종가배열[i + 1] && 종가배열[i] < 종가배열[i + 2]) {
-          저점들.push(i)
-        }
-      }
-
-      if (고점들.length < 1 || 저점들.length < 1) {
-        if (!거래량급증) {
-          return false
-        }
-      }
-
-      // 최근 패턴 분석
-      const 최근고점 = 고점들.length > 0 ? Math.min(...고점들) : -1
-      const 최근저점 = 저점들.length > 0 ? Math.min(...저점들) : -1
-
-      let 유효한풀백패턴 = false
-      if (최근고점 !== -1 && 최근저점 !== -1 && 최근고점 < 최근저점) {
-        const 저점_가격 = 종가배열[최근저점]
-        const 현재가격 = 종가배열[0]
-        const 상승률 = ((현재가격 - 저점_가격) / 저점_가격) * 100
-
-        // 저점 이후 상승률 체크 (설정값 사용)
-        const 저점이후상승중 = 상승률 >= scalpingBuy.minRiseAfterLow
-
-        const 고점가격 = 종가배열[최근고점]
-        const 풀백깊이 = ((고점가격 - 저점_가격) / 고점가격) * 100
-        // 풀백 깊이 체크 (설정값 사용)
-        const 적절한풀백깊이 = 풀백깊이 >= scalpingBuy.pullbackDepthMin && 풀백깊이 <= scalpingBuy.pullbackDepthMax
-
-        // 저점 이후 상승 봉 개수 카운트 (설정값 사용)
-        let 상승봉카운트 = 0
-        for (let i = 최근저점 - 1; i >= 0; i--) {
-          if (i + 1 < 종가배열.length && 종가배열[i] > 종가배열[i + 1]) {
-            상승봉카운트++
-          } else {
-            break
-          }
-        }
-
-        유효한풀백패턴 = 저점이후상승중 && 적절한풀백깊이 && 상승봉카운트 >= scalpingBuy.minRiseCandles
-      }
-
-      if (!유효한풀백패턴 && !거래량급증) {
-        return false
-      }
-
-      // 5. 거래량 분석
-      let 거래량증가 = 거래량급증
-      if (!거래량증가 && 최근저점 >= 0 && 최근저점 < 전체분봉.length) {
-        const 저점전거래량 = 전체분봉.slice(최근저점 + 1, 최근저점 + 4)
-          .reduce((sum, c) => sum + c.거래량, 0) / 3
-        const 저점후거래량 = 전체분봉.slice(0, 최근저점)
-          .reduce((sum, c) => sum + c.거래량, 0) / 최근저점
-
-        // 저점후거래량증가기준 (설정값 사용)
-        거래량증가 = 저점후거래량 > 저점전거래량 * scalpingBuy.volumeIncreaseAfterLow
-      }
-
-      // 6. 거래대금 체크 (설정값 사용)
-      const 거래대금 = 현재가 * stock.volume
-      const 최소거래대금 = scalpingBuy.minTradingAmount * 100000000 // 억 단위
-      if (거래대금 < 최소거래대금) {
-        return false
-      }
-
-      // 7. RSI 분석 (설정값 사용)
-      const rsi = calculateRSI(candles, scalpingBuy.rsiPeriod)
-      const RSI하한 = scalpingBuy.rsiLower
-      const RSI상한 = scalpingBuy.rsiUpper
-      const rsi상승추세 = rsi > RSI하한 && rsi < RSI상한
-
-      if (!rsi상승추세) {
-        return false
-      }
-
-      // 8. 최종 매수 신호 결정 (설정값 사용)
-      const 매수신호 = 거래량급증 
-        ? (유효한풀백패턴 || 최근가격상승률 > scalpingBuy.minPriceRise) && rsi상승추세
-        : 유효한풀백패턴 && (거래량증가 || true) && rsi상승추세
-
-      if (!매수신호) {
-        return false
-      }
-
-      addLog(`[스캘핑매수 성공] ${stock.name} - 전략:${거래량급증 ? '거래량급증' : '풀백재진입'}, RSI:${rsi.toFixed(2)}`, 'success')
-      return true
-    } catch (error: any) {
-      console.error(`[스캘핑매수] ${stock.name} 오류:`, error)
-      return false
-    }
-  }
-
-  // 5. 돌파매수 함수 (C# 버전과 동일)
-  const 돌파매수 = async (stock: DetectedStock, candles: CandleData[]): Promise<boolean> => {
-    try {
-      if (!candles || candles.length < breakoutBuy.shortTermPeriod) {
-        return false
-      }
-
-      const 최근분봉 = candles.slice(0, breakoutBuy.recentCandleCount)
-      const 현재가 = stock.price
-      const 현재거래량 = stock.volume
-
-      // 1. 실시간 거래량 증가 감지 (설정값 사용)
-      const 이전1분봉거래량 = 최근분봉.length > 1 ? 최근분봉[1].거래량 : 1
-      const 이전3분봉평균거래량 = 최근분봉.slice(1, 1 + breakoutBuy.volume3MinPeriod)
-        .reduce((sum, c) => sum + c.거래량, 0) / Math.min(breakoutBuy.volume3MinPeriod, 최근분봉.length - 1)
-      const 이전5분봉평균거래량 = 최근분봉.slice(1, 1 + breakoutBuy.volume5MinPeriod)
-        .reduce((sum, c) => sum + c.거래량, 0) / Math.min(breakoutBuy.volume5MinPeriod, 최근분봉.length - 1)
-
-      const 직전대비거래량증가율 = (현재거래량 / Math.max(이전1분봉거래량, 1)) * 100
-      const 최근3분대비거래량증가율 = (현재거래량 / Math.max(이전3분봉평균거래량, 1)) * 100
-      const 최근5분대비거래량증가율 = (현재거래량 / Math.max(이전5분봉평균거래량, 1)) * 100
-
-      // 거래량 급증 판단 (설정값 사용)
-      const 거래량증가율기준 = breakoutBuy.volumeIncreaseRate
-      const 거래량1분증가율계수 = breakoutBuy.volume1MinCoeff
-      const 거래량3분증가율계수 = breakoutBuy.volume3MinCoeff
-      const 거래량5분증가율계수 = breakoutBuy.volume5MinCoeff
-
-      let 거래량급증 = false
-      let 거래량증가정보 = ''
-
-      if (직전대비거래량증가율 >= 거래량증가율기준 * 거래량1분증가율계수) {
-        거래량급증 = true
-        거래량증가정보 = `직전봉 대비: ${직전대비거래량증가율.toFixed(2)}%`
-      } else if (최근3분대비거래량증가율 >= 거래량증가율기준 * 거래량3분증가율계수) {
-        거래량급증 = true
-        거래량증가정보 = `3분평균 대비: ${최근3분대비거래량증가율.toFixed(2)}%`
-      } else if (최근5분대비거래량증가율 >= 거래량증가율기준 * 거래량5분증가율계수) {
-        거래량급증 = true
-        거래량증가정보 = `5분평균 대비: ${최근5분대비거래량증가율.toFixed(2)}%`
-      }
-
-      if (!거래량급증) {
-        return false
-      }
-
-      // 2. 거래대금 체크 (설정값 사용)
-      const 거래대금 = 현재가 * 현재거래량
-      const 최소거래대금 = breakoutBuy.minTradingAmount * 100000000 // 억 단위
-      if (거래대금 < 최소거래대금) {
-        return false
-      }
-
-      // 3. 단기 가격 급등 확인 (설정값 사용)
-      const 최근가격상승률 = ((현재가 - 최근분봉[1].종가) / 최근분봉[1].종가) * 100
-      const idx = Math.min(breakoutBuy.priceRiseCheckPeriod, 최근분봉.length - 1)
-      const 최근3분가격상승률 = ((현재가 - 최근분봉[idx].종가) / 최근분봉[idx].종가) * 100
-
-      // 4. 이전 고점 돌파 확인 (설정값 사용)
-      const 이전고점 = Math.max(...최근분봉.slice(1, 1 + breakoutBuy.prevHighPeriod).map(c => c.고가))
-      const 이전고점대비상승률 = ((현재가 - 이전고점) / 이전고점) * 100
-
-      const 이전고점대비상승률기준 = breakoutBuy.prevHighRiseRate
-      const 이전고점대비상승률완화계수 = breakoutBuy.prevHighRiseRelaxCoeff
-      const 최소단기상승률 = breakoutBuy.minShortRise
-      const 최소3분상승률 = breakoutBuy.min3MinRise
-
-      if (이전고점대비상승률 < 이전고점대비상승률기준 * 이전고점대비상승률완화계수) {
-        if (최근가격상승률 < 최소단기상승률 && 최근3분가격상승률 < 최소3분상승률) {
-          return false
-        }
-      }
-
-      // 5. 등락률 체크 (설정값 사용)
-      const 등락률 = stock.changePercent
-      const 최소등락률 = breakoutBuy.minFluctuation
-      const 최대등락률 = breakoutBuy.maxFluctuation
-      const 최소등락률완화계수 = breakoutBuy.minFluctuationRelaxCoeff
-      const 최대등락률확장계수 = breakoutBuy.maxFluctuationExpandCoeff
-
-      if (등락률 < 최소등락률 * 최소등락률완화계수 || 등락률 > 최대등락률 * 최대등락률확장계수) {
-        return false
-      }
-
-      // 6. 단기 이동평균선 확인 (설정값 사용)
-      const 종가리스트 = 최근분봉.map(c => c.종가)
-      const 단기이동평균 = 종가리스트.slice(0, breakoutBuy.shortTermPeriod).reduce((sum, p) => sum + p, 0) / breakoutBuy.shortTermPeriod
-
-      if (현재가 < 단기이동평균 && 최근가격상승률 < breakoutBuy.priceRiseCheckThreshold) {
-        return false
-      }
-
-      // 7. RSI 체크 (설정값 사용)
-      const rsi = calculateRSI(candles, breakoutBuy.rsiPeriod)
-      const RSI하한 = breakoutBuy.rsiLower
-      const RSI하한완화계수 = breakoutBuy.rsiLowerRelaxCoeff
-
-      if (rsi < RSI하한 * RSI하한완화계수) {
-        return false
-      }
-
-      addLog(`[돌파매수 성공] ${stock.name} - ${거래량증가정보}, 등락률:${등락률.toFixed(2)}%, RSI:${rsi.toFixed(2)}`, 'success')
-      return true
-    } catch (error: any) {
-      console.error(`[돌파매수] ${stock.name} 오류:`, error)
-      return false
-    }
-  }
-
-  // 매수 조건 확인 함수 (async로 변경)
-  const checkBuyConditions = async (stock: DetectedStock): Promise<boolean> => {
-    // 기본 매수 조건 체크 (C# 코드의 기존매수조건확인과 동일)
-    // 1. 이미 보유 중인 종목은 제외 (C# 코드: b계좌보유중 || 매수주문했거나보유중인종목.Contains)
-    if (stock.isHolding || orderedOrHoldingStocks.has(stock.code)) {
-      return false
+    const connect = () => {
+      ws = openRealtimeSocket(['orders', 'positions', 'engine-status', 'logs'], 'engine-status')
+      ws.onmessage = handleMessage
     }
-    
-    // 2. holdingStocks에도 있는지 확인 (이중 체크)
-    if (holdingStocks.some(h => h.code === stock.code)) {
-      return false
-    }
-
-    // 3. 최대 동시 보유 종목 수 체크 (ref를 통해 최신 값 참조)
-    if (holdingStocks.length >= maxSimultaneousBuyRef.current) {
-      return false
-    }
-
-    // 3. 매매 시간 체크
-    const now = new Date()
-    const currentHour = now.getHours()
-    const currentMinute = now.getMinutes()
-    const currentSecond = now.getSeconds()
-    
-    const startTime = startHour * 60 + startMinute
-    const endTime = endHour * 60 + endMinute + (endSecond >= 59 ? 1 : 0)
-    const currentTime = currentHour * 60 + currentMinute
-    
-    if (currentTime < startTime || currentTime >= endTime) {
-      return false
-    }
-
-    // 4. 레버리지/인버스 ETF 제외
-    if (stock.name.includes('레버리지') || 
-        stock.name.includes('인버스') || 
-        stock.name.includes('2X') || 
-        stock.name.includes('선물') || 
-        stock.name.includes('KODEX') || 
-        stock.name.includes('3X')) {
-      return false
-    }
-
-    // 5. 자동매매는 실시간 시세를 사용해야 함 (차트 데이터는 과거 데이터)
-    // 실시간 시세는 WebSocket을 통해 이미 업데이트되어 stock 객체에 포함됨
-    // 차트 데이터는 선택한 종목에 대해서만 조회 (UI 표시용)
-    
-    // 실시간 시세 데이터 확인 (stock 객체에 이미 실시간 가격 정보가 있음)
-    const 실시간가격 = stock.price || 0
-    const 실시간거래량 = stock.volume || 0
-    
-    // 실시간 시세가 없으면 매수하지 않음
-    if (실시간가격 <= 0) {
-      return false
-    }
-
-    // 자동매매 시작 시점의 가격 (상대 변화율 계산용)
-    // 시작 시점 가격이 없으면 현재 가격을 시작 가격으로 설정
-    const 시작가격 = stock.startPrice || 실시간가격
-    if (!stock.startPrice) {
-      // 시작 가격이 없으면 현재 가격을 시작 가격으로 저장
-      setDetectedStocks(prev => prev.map(s => 
-        s.code === stock.code ? { ...s, startPrice: 실시간가격 } : s
-      ))
-    }
-
-    // 자동매매 시작 시점 대비 상대 변화율 계산
-    // 이 값이 매매 알고리즘의 기준이 됨 (매매설정의 % 값은 이 상대 변화율을 의미)
-    const 상대변화율 = 시작가격 > 0 
-      ? ((실시간가격 - 시작가격) / 시작가격) * 100 
-      : 0
-    
-    // 실시간 등락률(전일 대비) - 현재 시점의 등락률
-    const 실시간등락률 = stock.changePercent || 0
-    
-    // 조건 감지 시점의 등락률 (조건 감지 시점의 등락률이 없으면 현재 등락률 사용)
-    const 감지시점등락률 = stock.detectedChangePercent ?? 실시간등락률
-    
-    // 등락률 차이 계산: 현재 등락률 - 감지 시점 등락률
-    // 이 차이가 매매 설정의 % 범위와 비교됨
-    const 등락률차이 = 실시간등락률 - 감지시점등락률
-
-    // 차트 데이터 조회: 체크된 알고리즘 중 차트 분석이 필요한 알고리즘이 있으면 차트 데이터 조회
-    // 차트 분석이 필요한 알고리즘: My_매수신호_1, 장시작급등주, 볼린저밴드, 스캘핑, 돌파매매, 장마감종가배팅
-    // 기본매수설정은 차트 분석이 필요 없음 (등락률 차이만 확인)
-    const 차트분석필요알고리즘 = [
-      buyFormula1,           // My_매수신호_1 (이동평균선 기반)
-      strategyMarketOpen,   // 장시작급등주
-      strategyBollinger,    // 볼린저밴드
-      strategyScalping,      // 스캘핑
-      strategyBreakout,      // 돌파매매
-      strategyMarketClose    // 장마감종가배팅
-    ]
-    
-    const 차트분석필요 = 차트분석필요알고리즘.some(checked => checked)
-    
-    let candles: CandleData[] = []
-    const maxRetries = 2 // 최대 2번 재시도
-    let retryCount = 0
-    
-    // 차트 분석이 필요한 알고리즘이 체크되어 있으면 차트 데이터 조회
-    // 단, 조건검색 직후 5초 이내에는 차트 데이터 조회를 지연시켜 API 제한 방지 (10초 -> 5초로 단축)
-    if (차트분석필요) {
-      const timeSinceLastSearch = Date.now() - lastSearchTimeRef.current
-      if (timeSinceLastSearch < 5000) {
-        // 조건검색 직후 5초 이내에는 차트 데이터 조회하지 않음 (실시간 시세 기반으로 진행)
-        if (process.env.NODE_ENV === 'development') {
-          console.log(`[차트 데이터] ${stock.name}: 조건검색 직후 대기 중 (${Math.ceil((5000 - timeSinceLastSearch) / 1000)}초 남음), 실시간 시세 기반으로 진행`)
-        }
-        // 차트 데이터 없이 진행 (실시간 시세 기반으로만 판단)
-      } else {
-        while (retryCount <= maxRetries && candles.length === 0) {
-          try {
-            // 차트 분석이 필요한 종목에 대해 차트 데이터 조회 시도
-            candles = await getCandleData(stock.code)
-            
-            // API 제한 방지를 위한 추가 딜레이 (500ms -> 1000ms로 증가)
-            await new Promise(resolve => setTimeout(resolve, 1000))
-            
-            if (candles && candles.length > 0) {
-              // 체크된 알고리즘 중 가장 많은 차트 데이터가 필요한 알고리즘의 최소 요구사항 확인
-              const requiredPeriods: number[] = []
-              if (buyFormula1) requiredPeriods.push(20) // My_매수신호_1은 최소 20개 필요
-              if (strategyMarketOpen) requiredPeriods.push(marketOpenBuy.shortTermPeriod || 5)
-              if (strategyBollinger) requiredPeriods.push(bollingerBuy.shortTermPeriod || 5)
-              if (strategyScalping) requiredPeriods.push(scalpingBuy.minCandleCount || scalpingBuy.shortTermPeriod || 5)
-              if (strategyBreakout) requiredPeriods.push(breakoutBuy.shortTermPeriod || 5)
-              if (strategyMarketClose) requiredPeriods.push(marketCloseBuy.minCandleCount || 5)
-              
-              const minRequired = requiredPeriods.length > 0 ? Math.max(...requiredPeriods) : 5
-              
-              if (candles.length >= minRequired) {
-                // 충분한 차트 데이터가 있으면 성공
-                if (retryCount > 0) {
-                  addLog(`[차트 데이터] ${stock.name}: 재시도 후 성공 (${candles.length}개, 필요: ${minRequired}개)`, 'info')
-                }
-                break
-              } else {
-                // 차트 데이터가 부족하면 재시도
-                candles = []
-              }
-            } else {
-              candles = []
-            }
-          } catch (error: any) {
-            // 차트 데이터 조회 실패 시 재시도
-            candles = []
-            const errorMessage = error.response?.data?.error || error.message || ''
-            
-            // API 제한 에러(429)는 재시도하지 않고 즉시 실시간 시세 기반으로 진행
-            if (error.response?.status === 429 || error.response?.data?.return_code === 5) {
-              if (process.env.NODE_ENV === 'development') {
-                console.log(`[차트 데이터] ${stock.name}: API 제한으로 차트 데이터 조회 중단, 실시간 시세 기반으로 진행`)
-              }
-              addLog(`[차트 데이터] ${stock.name}: API 제한으로 차트 데이터 없이 진행`, 'warning')
-              break
-            }
-          }
-          
-          // 재시도 전 대기 (API 호출 제한 방지) - 재시도 횟수에 따라 대기 시간 증가
-          if (retryCount < maxRetries && candles.length === 0) {
-            await new Promise(resolve => setTimeout(resolve, 1000 * (retryCount + 1))) // 1초, 2초 대기
-          }
-          
-          retryCount++
-        }
-        
-        // 차트 데이터가 없으면 실시간 시세 기반 로직으로 fallback
-        if (candles.length === 0) {
-          if (process.env.NODE_ENV === 'development') {
-            console.log(`[차트 데이터] ${stock.name}: 차트 데이터 없음, 실시간 시세 기반으로 진행`)
-          }
-          // 차트 데이터가 없어도 실시간 시세 기반 매수 조건 확인은 계속 진행됨
-        }
-      }
-    }
-
-    // 5. My_매수신호_1 로직 적용 (이동평균선 기반 간단한 매수 신호)
-    // My_매수신호_1은 차트 데이터가 필요하므로 차트 데이터가 있을 때만 실행
-    if (buyFormula1 && candles.length >= 20) {
-      const 매수신호1결과 = await My_매수신호_1(stock, candles)
-      if (매수신호1결과) {
-        return true // My_매수신호_1이 발생하면 즉시 매수 신호 반환
-      }
-    }
-
-    // 6. My_매수신호_2 로직 적용: 체크된 매매 전략별 조건 확인
-    let 매수신호 = false
-
-    // 기본매수설정이 체크되어 있고, 등락률 차이가 0% 이하이면 다른 알고리즘의 매수 신호를 무시
-    // 기본매수설정: 등락률 차이가 2% 이상 15% 이하로 상승한 종목만 매수
-    // 단, 등락률차이가 0%인 경우(변화 없음)에는 다른 알고리즘도 실행 가능하도록 허용
-    const 기본매수설정차단 = strategyBasicBuy && 등락률차이 < 0 // 0% 이하 -> 0% 미만으로 변경 (0%는 허용)
-
-    // 시간 구간 체크 (My_매수신호_2의 시간 구간 로직)
-    const 시간외시작시각 = (startHour - 1) * 60 + 30 // 시작 1시간 전
-    const 장시작시각 = marketOpenBuy.startHour * 60 + marketOpenBuy.startMinute
-    const 급등주매수종료시각 = marketOpenBuy.endHour * 60 + marketOpenBuy.endMinute
-    const 장마감시작시각 = 15 * 60 + 10 // 장마감 시작 시간 (15:10)
-    const 장마감시각 = 15 * 60 + 20 // 장마감 종료 시간 (15:20)
-    
-    const 시간외거래중 = currentTime >= 시간외시작시각 && currentTime < 장시작시각
-    const 장시작직후 = currentTime >= 장시작시각 && currentTime < 급등주매수종료시각
-    const 장마감종가배팅 = currentTime >= 장마감시작시각 && currentTime < 장마감시각
-
-    // 1. 장시작 급등주 매수 로직 (차트 데이터 우선 사용, 없으면 상대 변화율 기반)
-    if (!기본매수설정차단 && 장시작직후 && strategyMarketOpen) {
-      if (candles.length >= marketOpenBuy.shortTermPeriod) {
-        // 차트 데이터가 있으면 차트 기반 전략 실행
-        const 장시작급등주결과 = await 장시작급등주매수(stock, candles)
-        if (장시작급등주결과) {
-          매수신호 = true
-          addLog(`[장시작급등주] ${stock.name}: 차트 기반 매수 신호`, 'info')
-        }
-      } else {
-        // 차트 데이터가 없으면 시작 시점 대비 상대 변화율로 급등 여부 확인
-        if (상대변화율 >= (marketOpenBuy.minFluctuation || 0)) {
-          매수신호 = true
-          addLog(`[장시작급등주] ${stock.name}: 시작가격 대비 ${상대변화율.toFixed(2)}% 상승 (시작: ${시작가격.toLocaleString()}원 → 현재: ${실시간가격.toLocaleString()}원)`, 'info')
-        }
-      }
-    }
-
-    // 장중 매매 로직 (실시간 시세 기반으로 모든 전략 실행)
-    if (!기본매수설정차단 && !장시작직후 && !장마감종가배팅) {
-      // 2. 볼린저밴드 기반 매수 (차트 데이터가 있으면 사용, 없으면 실시간 시세로 판단)
-      if (strategyBollinger) {
-        if (candles.length >= bollingerBuy.shortTermPeriod) {
-          // 차트 데이터가 있으면 차트 기반 전략 실행
-          const 볼린저밴드결과 = await 볼린저밴드매수(stock, candles)
-          if (볼린저밴드결과) {
-            매수신호 = true
-            addLog(`[볼린저밴드] ${stock.name}: 차트 기반 매수 신호`, 'info')
-          }
-        } else {
-          // 차트 데이터가 없으면 시작 시점 대비 상대 변화율로 볼린저밴드 로직 실행
-          // 하락 후 반등 패턴: 시작 시점 대비 하락했다가 다시 상승하는 경우
-          // 간단 버전: 상대 변화율이 -1% 이상 2% 이하이며 거래량이 있으면 매수
-          if (상대변화율 >= -1 && 상대변화율 <= 2 && 실시간거래량 > 0) {
-            매수신호 = true
-            addLog(`[볼린저밴드] ${stock.name}: 시작가격 대비 ${상대변화율.toFixed(2)}% (하락 후 반등 패턴), 거래량 ${실시간거래량.toLocaleString()}`, 'info')
-          }
-        }
-      }
-
-      // 4. 스캘핑 매매 로직 (차트 데이터 우선 사용)
-      if (strategyScalping) {
-        if (candles.length >= scalpingBuy.minCandleCount) {
-          // 차트 데이터가 충분하면 차트 기반 전략 실행 (스캘핑은 최소 설정값 개수 필요)
-          const 스캘핑결과 = await 스캘핑매수(stock, candles)
-          if (스캘핑결과) {
-            매수신호 = true
-            addLog(`[스캘핑] ${stock.name}: 차트 기반 매수 신호 (차트 데이터: ${candles.length}개)`, 'info')
-          }
-        } else if (candles.length >= scalpingBuy.shortTermPeriod) {
-          // 차트 데이터가 부족하지만 최소 요구사항은 충족하는 경우 간단 버전 실행
-          // 시작 시점부터 상승했고, 상대 변화율이 0~3% 사이이며 거래량이 있으면 매수
-          if (상대변화율 > 0 && 상대변화율 <= 3 && 실시간거래량 > 0) {
-            매수신호 = true
-            addLog(`[스캘핑] ${stock.name}: 차트 데이터 부족, 시작가격 대비 ${상대변화율.toFixed(2)}% 상승 (차트: ${candles.length}개, 최소 ${scalpingBuy.minCandleCount}개 필요)`, 'info')
-          }
-        } else {
-          // 차트 데이터가 없으면 시작 시점 대비 상대 변화율로 스캘핑 로직 실행
-          if (상대변화율 > 0 && 상대변화율 <= 3 && 실시간거래량 > 0) {
-            매수신호 = true
-            addLog(`[스캘핑] ${stock.name}: 차트 데이터 없음, 시작가격 대비 ${상대변화율.toFixed(2)}% 상승, 거래량 ${실시간거래량.toLocaleString()}`, 'info')
-          }
-        }
-      }
-
-      // 5. 돌파매매 로직 (차트 데이터 우선 사용)
-      if (strategyBreakout) {
-        if (candles.length >= breakoutBuy.shortTermPeriod) {
-          // 차트 데이터가 있으면 차트 기반 전략 실행 (돌파매수는 최소 설정값 개수 필요)
-          const 돌파결과 = await 돌파매수(stock, candles)
-          if (돌파결과) {
-            매수신호 = true
-            addLog(`[돌파매수] ${stock.name}: 차트 기반 매수 신호 (차트 데이터: ${candles.length}개)`, 'info')
-          }
-        } else {
-          // 차트 데이터가 없으면 시작 시점 대비 상대 변화율로 돌파 로직 실행
-          // 시작 시점부터 2% 이상 상승했으면 돌파로 판단
-          if (상대변화율 >= 2 && 실시간거래량 > 0) {
-            매수신호 = true
-            addLog(`[돌파매수] ${stock.name}: 차트 데이터 없음, 시작가격 대비 ${상대변화율.toFixed(2)}% 돌파, 거래량 ${실시간거래량.toLocaleString()}`, 'info')
-          }
-        }
-      }
-    }
-
-    // 3. 장마감 종가 배팅 매매 (실시간 시세 기반)
-    if (!기본매수설정차단 && 장마감종가배팅 && strategyMarketClose) {
-      if (candles.length >= marketCloseBuy.minCandleCount) {
-        // 차트 데이터가 있으면 차트 기반 전략 실행
-        if (await 장마감종가배팅매수(stock, candles)) {
-          매수신호 = true
-        }
-      } else {
-        // 차트 데이터가 없으면 실시간 시세로 장마감 매수
-        // 장마감 시간대에 실시간 가격으로 매수 (간단 버전)
-        if (실시간가격 > 0) {
-          매수신호 = true
-          addLog(`[장마감종가배팅] ${stock.name}: 실시간 가격 ${실시간가격.toLocaleString()}원`, 'info')
-        }
-      }
-    }
-
-    // 기본매수설정 체크 (strategyBasicBuy가 체크되어 있을 때만 적용)
-    // 기본매수설정은 다른 전략과 독립적으로 실행 (OR 조건)
-    // 매매설정의 % 값은 조건 감지 시점 등락률과 현재 등락률의 차이를 의미함
-    // 기본매수설정: 등락률 차이가 2% 이상 15% 이하로 상승한 종목만 매수
-    if (strategyBasicBuy) {
-      // 등락률 차이가 설정된 범위 내에 있는지 확인
-      // 등락률 차이는 반드시 양수여야 함 (상승한 경우만 매수)
-      // minFluctuation(2%) 이상 maxFluctuation(15%) 이하일 때만 매수
-      const basicMatch = 
-        등락률차이 > 0 && // 등락률 차이가 양수여야 함 (상승한 경우만)
-        (basicBuy.minFluctuation <= 0 || 등락률차이 >= basicBuy.minFluctuation) && // 최소 2% 이상
-        (basicBuy.maxFluctuation <= 0 || 등락률차이 <= basicBuy.maxFluctuation) && // 최대 15% 이하
-        (basicBuy.minVolume <= 0 || 실시간거래량 >= basicBuy.minVolume) // 거래량 조건
-      
-      if (basicMatch) {
-        매수신호 = true
-        addLog(`[기본매수설정] ${stock.name}: 조건 충족 (감지시점: ${감지시점등락률.toFixed(2)}% → 현재: ${실시간등락률.toFixed(2)}%, 차이: ${등락률차이.toFixed(2)}%, 거래량: ${실시간거래량.toLocaleString()})`, 'info')
-      } else {
-        // 등락률 차이가 0% 이하인 경우 다른 알고리즘의 매수 신호를 무시
-        // 단, 이미 다른 알고리즘에서 매수 신호가 발생한 경우는 유지
-        if (등락률차이 <= 0) {
-          // 기본매수설정이 체크되어 있고 등락률 차이가 0% 이하면 다른 알고리즘의 매수 신호를 무시
-          // 하지만 이미 매수신호가 true인 경우는 유지 (다른 알고리즘이 먼저 신호를 발생시킨 경우)
-          if (!매수신호) {
-            // 다른 알고리즘에서도 매수 신호가 없었던 경우에만 차단
-            if (process.env.NODE_ENV === 'development') {
-              console.log(`[매수조건] ${stock.name}: 기본매수설정 차단 (등락률차이: ${등락률차이.toFixed(2)}%, 다른 알고리즘 매수신호 없음)`)
-            }
-          } else {
-            // 다른 알고리즘에서 매수 신호가 발생한 경우는 유지
-            if (process.env.NODE_ENV === 'development') {
-              console.log(`[매수조건] ${stock.name}: 기본매수설정 조건 불충족하지만 다른 알고리즘 매수신호 유지 (등락률차이: ${등락률차이.toFixed(2)}%)`)
-            }
-          }
-        }
-      }
-    }
-
-    // 매수 신호 결과 로그 출력
-    if (매수신호) {
-      console.log(`[매수조건] ${stock.name}: 매수 신호 발생 ✓ (차트데이터: ${candles.length}개, 등락률차이: ${등락률차이.toFixed(2)}%, 상대변화율: ${상대변화율.toFixed(2)}%, 가격: ${실시간가격.toLocaleString()}원)`)
-    } else {
-      console.log(`[매수조건] ${stock.name}: 매수 신호 없음 (차트데이터: ${candles.length}개, 등락률차이: ${등락률차이.toFixed(2)}%, 상대변화율: ${상대변화율.toFixed(2)}%, 가격: ${실시간가격.toLocaleString()}원)`)
-    }
-
-    return 매수신호
-  }
-
-  // 매도 조건 확인 함수 (My_매도신호_1 로직 적용)
-  const checkSellConditions = (holding: HoldingStock): boolean => {
-    // 매도수익률설정이 체크되어 있지 않으면 매도하지 않음 (기본적으로 항상 체크되어 있다고 가정)
-    // My_매도신호_1의 checkBox_매도수익률설정.Checked 로직
-    
-    // 최고 수익률 갱신
-    if (holding.profitPercent > holding.maxProfitPercent) {
-      holding.maxProfitPercent = holding.profitPercent
-    }
-    const 최고수익률 = holding.maxProfitPercent
-
-    // 1. 트레일링 스탑 조건 체크 (My_매도신호_1의 트레일링 스탑 로직)
-    // checkBox_Trailing매도.Checked && 최고수익률 >= numericUpDown_Trailing매도기준.Value
-    if (trailingStop && 최고수익률 >= trailingProfitThreshold) {
-      const 하락률기준 = Math.abs(trailingDropThreshold) // numericUpDown_Trailing최고점대비.Value
-      const 현재하락률 = 최고수익률 - holding.profitPercent
-      
-      if (현재하락률 >= 하락률기준) {
-        addLog(`[매도신호1] ${holding.name}: 트레일링 매도 - 최고수익률: ${최고수익률.toFixed(2)}% → 현재수익률: ${holding.profitPercent.toFixed(2)}% (하락률: ${현재하락률.toFixed(2)}%)`, 'warning')
-        return true
-      }
-    }
-
-    // 2. 익절 조건 체크 (My_매도신호_1의 익절 로직: 최고수익률이 익절기준 이상)
-    // 최고수익률 >= 익절기준
-    if (profitTarget > 0 && 최고수익률 >= profitTarget) {
-      addLog(`[매도신호1] ${holding.name}: 익절 - 최고수익률: ${최고수익률.toFixed(2)}% (기준: ${profitTarget}%)`, 'success')
-      return true
-    }
-
-    // 3. 손절 조건 체크 (My_매도신호_1의 손절 로직: 현재수익률이 손절기준 이하)
-    // 현재수익률 <= 손절기준
-    if (lossLimit < 0 && holding.profitPercent <= lossLimit) {
-      addLog(`[매도신호1] ${holding.name}: 손절 - 현재수익률: ${holding.profitPercent.toFixed(2)}% (기준: ${lossLimit}%)`, 'warning')
-      return true
-    }
-
-    // 4. 시간 매도 조건 체크 (15:19:59 이후 강제 매도)
-    if (dropSellTime) {
-      const now = new Date()
-      const currentHour = now.getHours()
-      const currentMinute = now.getMinutes()
-      const currentSecond = now.getSeconds()
-      
-      const dropSellTimeMinutes = dropSellStartHour * 60 + dropSellStartMinute
-      const currentTimeMinutes = currentHour * 60 + currentMinute
-      
-      if (currentTimeMinutes > dropSellTimeMinutes || (currentTimeMinutes === dropSellTimeMinutes && currentSecond >= dropSellEndSecond)) {
-        addLog(`${holding.name} 시간 매도 조건 달성`, 'warning')
-        return true
-      }
-    }
-
-    return false
-  }
-
-  // 자동매매 실행 함수
-  const executeAutoTrading = async () => {
-    if (!isRunning) {
-      console.log('[자동매매] isRunning이 false입니다')
-      return
-    }
-    
-    // API 제한 에러가 발생한 경우 즉시 종료
-    if (apiLimitErrorRef.current) {
-      console.log('[자동매매] API 제한 에러로 인해 일시 중지됨')
-      return
-    }
-    
-    if (!selectedAccount) {
-      console.log('[자동매매] 계좌가 선택되지 않았습니다')
-      return
-    }
-
-    try {
-      const accountParts = selectedAccount.split('-')
-      const accountNo = accountParts[0] || selectedAccount
-      const accountProductCode = accountParts[1] || '01'
-
-      // 1. 조건식 검색 실행 (주기적으로)
-      const enabledConditions = conditions.filter(c => c.enabled)
-      if (enabledConditions.length === 0) {
-        console.log('[자동매매] 활성화된 조건식이 없습니다')
-        // 조건식이 없어도 기존 detectedStocks에 대해 매수 조건 확인은 계속 진행
-      } else {
-        const result = await kiwoomApi.searchCondition(enabledConditions)
-        
-        if (result.success && result.stocks && result.stocks.length > 0) {
-          // 검색된 종목 업데이트
-          // 기존 종목의 시작 가격과 감지 시점 등락률은 유지하고, 새로 검색된 종목만 설정
-          // newStocks를 먼저 계산 (setDetectedStocks 밖에서)
-          // ref를 통해 최신 값을 가져옴 (클로저 문제 방지)
-          const prevStocks = detectedStocksRef.current // 현재 상태 가져오기
-          const existingStartPrices = new Map(prevStocks.map(s => [s.code, s.startPrice]))
-          const existingDetectedChangePercent = new Map(prevStocks.map(s => [s.code, s.detectedChangePercent]))
-          
-          const newStocks: DetectedStock[] = result.stocks.map((stock: any) => {
-            const existingStock = prevStocks.find(s => s.code === stock.code)
-            return {
-              code: stock.code,
-              name: stock.name,
-              price: stock.price,
-              change: stock.price * (stock.changeRate / 100),
-              changePercent: stock.changeRate,
-              volume: stock.volume,
-              detectedCondition: result.appliedConditions.join(', '),
-              detectedTime: existingStock?.detectedTime || new Date().toLocaleTimeString(),
-              // 기존 종목이면 시작 가격 유지, 새 종목이면 현재 가격을 시작 가격으로 설정
-              startPrice: existingStartPrices.get(stock.code) || stock.price,
-              // 기존 종목이면 감지 시점 등락률 유지, 새 종목이면 현재 등락률을 감지 시점 등락률로 설정
-              detectedChangePercent: existingDetectedChangePercent.get(stock.code) ?? stock.changeRate
-            }
-          })
-          
-          // 상태 업데이트
-          setDetectedStocks(newStocks)
-
-          // 조건검색 시간 기록 (차트 데이터 조회 지연용)
-          lastSearchTimeRef.current = Date.now()
-          
-          console.log(`[자동매매] 조건식 검색 완료: ${newStocks.length}개 종목`)
-        } else {
-          console.log('[자동매매] 조건식 검색 결과가 없습니다')
-        }
-      }
-
-      // 2. 매수 조건 확인 및 실행 (차트 데이터 기반으로 수행)
-      // detectedStocks가 있으면 해당 종목들에 대해 매수 조건 확인
-      // ref를 통해 최신 값을 가져옴 (클로저 문제 방지)
-      const currentDetectedStocks = detectedStocksRef.current
-      const stocksToCheck = currentDetectedStocks.length > 0 ? currentDetectedStocks : []
-      
-      if (stocksToCheck.length === 0) {
-        console.log('[자동매매] 확인할 종목이 없습니다')
-        return
-      }
-      
-      // 예수금 체크 (매수 가능 여부 확인) - 경고만 표시하고 계속 진행
-      if (accountInfoData?.deposit !== undefined && accountInfoData?.deposit !== null) {
-        const depositStr = String(accountInfoData.deposit).trim()
-        const availableDeposit = depositStr ? parseInt(depositStr, 10) : 0
-        const minimumRequired = amountPerStockRef.current // 최소 1종목 매수 금액 (ref를 통해 최신 값 참조)
-        
-        console.log(`[예수금 확인] 예수금: ${availableDeposit.toLocaleString()}원, 종목당 투자금액: ${amountPerStockRef.current.toLocaleString()}원`)
-        
-        if (isNaN(availableDeposit) || availableDeposit < minimumRequired) {
-          addLog(`[예수금 경고] 예수금이 부족할 수 있습니다. (예수금: ${availableDeposit.toLocaleString()}원, 최소 필요: ${minimumRequired.toLocaleString()}원)`, 'warning')
-          console.log(`[자동매매] 예수금이 부족할 수 있지만 매수 시도는 계속합니다 (서버에서 최종 판단)`)
-          // 경고만 표시하고 계속 진행 (서버에서 실제 예수금 체크)
-        }
-      } else {
-        console.log(`[예수금] accountInfoData.deposit이 없습니다. 서버에서 예수금 체크를 진행합니다.`)
-      }
-      
-      console.log(`[자동매매] ${stocksToCheck.length}개 종목에 대해 매수 조건 확인 시작`)
-      addLog(`[자동매매] ${stocksToCheck.length}개 종목 매수 조건 확인 시작`, 'info')
-      
-      // API 제한을 고려하여 종목별로 딜레이 추가
-      for (let i = 0; i < stocksToCheck.length; i++) {
-            const stock = stocksToCheck[i]
-            // isRunning 상태 확인 (API 제한 에러로 중지된 경우 즉시 종료)
-            if (!isRunning) {
-              console.log(`[자동매매] isRunning이 false입니다. 루프 종료`)
-              break // 중지되면 중단
-            }
-            
-            // 당일 최대매매종목수 체크 (ref를 통해 최신 값 참조)
-            if (maxDailyStocksRef.current > 0 && dailyTradeCount >= maxDailyStocksRef.current) {
-              addLog(`[제한] 당일 최대매매종목수 도달 (${maxDailyStocksRef.current}개)`, 'warning')
-              break
-            }
-            
-            // 종목당 매매허용횟수 체크 (ref를 통해 최신 값 참조)
-            const tradeCount = stockTradeCounts.get(stock.code) || 0
-            if (tradeLimitPerStockRef.current > 0 && tradeCount >= tradeLimitPerStockRef.current) {
-              continue // 이 종목은 더 이상 매매 불가
-            }
-            
-            // 매매제한 종목 체크 (이전에 매매제한으로 판단된 종목은 재시도하지 않음)
-            if (restrictedStocks.has(stock.code)) {
-              continue // 매매제한 종목은 건너뜀
-            }
-            
-            // 주문 처리 중인 종목 체크 (중복 주문 방지)
-            if (processingOrders.has(stock.code)) {
-              console.log(`[자동매수 건너뜀] ${stock.name} (${stock.code}): 이미 주문 처리 중입니다`)
-              continue // 이미 주문 처리 중인 종목은 건너뜀
-            }
-            
-            // API 제한 에러 플래그 확인 (에러 발생 시 즉시 종료)
-            if (apiLimitErrorRef.current) {
-              console.log(`[자동매매] API 제한 에러로 인해 종목 처리 중단`)
-              break
-            }
-            
-            // API 제한 방지를 위한 딜레이 (조건검색 직후에는 더 긴 딜레이)
-            const timeSinceLastSearch = Date.now() - lastSearchTimeRef.current
-            if (timeSinceLastSearch < 10000) {
-              // 조건검색 직후 10초 이내에는 각 종목 처리 전 2초 대기
-              await new Promise(resolve => setTimeout(resolve, 2000))
-            } else {
-              // 그 이후에는 1초 대기 (API 제한 방지)
-              await new Promise(resolve => setTimeout(resolve, 1000))
-            }
-            
-            // API 제한 에러 플래그 재확인 (대기 중 에러 발생 가능)
-            if (apiLimitErrorRef.current) {
-              console.log(`[자동매매] API 제한 에러로 인해 종목 처리 중단`)
-              break
-            }
-            
-            // 차트 데이터 기반으로 매수 조건 확인 (차트 데이터를 우선적으로 사용)
-            const buyConditionResult = await checkBuyConditions(stock)
-            if (buyConditionResult) {
-              console.log(`[자동매수] ${stock.name}: 매수 조건 확인 완료, 주문 준비 시작`)
-              try {
-                // 종목코드 검증: 6자리 숫자만 허용 (ELW, ETF 등 비표준 종목코드 제외)
-                const stockCode = String(stock.code).trim()
-                if (!/^\d{6}$/.test(stockCode)) {
-                  addLog(`[자동매수 건너뜀] ${stock.name} (${stockCode}): 지원하지 않는 종목코드 형식 (6자리 숫자만 지원)`, 'warning')
-                  console.log(`[자동매수] ${stock.name}: 종목코드 형식 오류로 건너뜀`)
-                  continue
-                }
-                
-                // 매수 수량 계산 (종목당 투자금액 기준)
-                const buyPrice = stock.price || 0
-                if (buyPrice <= 0) {
-                  console.log(`[자동매수] ${stock.name}: 가격이 0 이하로 건너뜀 (가격: ${buyPrice})`)
-                  continue
-                }
-                
-                // 수수료 고려한 매수 수량 계산 (ref를 통해 최신 값 참조)
-                const investmentAmount = amountPerStockRef.current
-                const feeRate = feePercentRef.current / 100
-                const availableAmount = investmentAmount * (1 - feeRate)
-                
-                // 종목별 매수가격 설정에 따른 매수 가격 결정 (C# 코드의 매수가격결정 메서드 참고)
-                // 기본값은 시장가로 설정하여 즉시 체결되도록 함
-                // ref를 통해 최신 값 참조
-                let orderPrice = buyPrice
-                let orderOption = '03' // 기본값: 시장가 (즉시 체결을 위해)
-                
-                if (buyPriceSettingsRef.current.종목별매수가격설정실행) {
-                  if (buyPriceSettingsRef.current.매수가격옵션 === '시장가') {
-                    // 시장가: 현재가 그대로 사용
-                    orderPrice = buyPrice
-                    orderOption = '03' // 시장가
-                  } else if (buyPriceSettingsRef.current.매수가격옵션 === '지정가') {
-                    // 지정가: 매수호가 값 사용
-                    // C# 코드: 호가비율 = 매수호가 / 100.0, 매수희망가 = 현재가 * (1.0 - 호가비율)
-                    const 호가비율 = buyPriceSettingsRef.current.매수호가 / 100.0
-                    orderPrice = Math.floor(buyPrice * (1.0 - 호가비율))
-                    
-                    // 지정가가 현재가보다 높으면 체결이 어려우므로 시장가로 변경
-                    if (orderPrice > buyPrice) {
-                      console.warn(`[주문 가격] ${stock.name}: 지정가(${orderPrice.toLocaleString()}원)가 현재가(${buyPrice.toLocaleString()}원)보다 높아 시장가로 변경`)
-                      orderPrice = buyPrice
-                      orderOption = '03' // 시장가로 변경
-                    } else {
-                      orderOption = '00' // 지정가
-                      console.log(`[주문 가격] ${stock.name}: 지정가 주문 (현재가: ${buyPrice.toLocaleString()}원, 호가비율: ${호가비율.toFixed(2)}%, 주문가격: ${orderPrice.toLocaleString()}원)`)
-                    }
-                  }
-                } else {
-                  // 설정이 비활성화된 경우 시장가 주문 사용 (즉시 체결을 위해)
-                  orderPrice = buyPrice
-                  orderOption = '03' // 시장가 (현금/신용 모두 시장가로 통일)
-                  console.log(`[주문 가격] ${stock.name}: 종목별매수가격설정 비활성화 - 시장가 주문 사용 (현재가: ${buyPrice.toLocaleString()}원)`)
-                }
-                
-                // 주문 수량 계산: (투자금액 * (1 - 수수료율)) / 주문가격
-                const quantity = Math.floor(availableAmount / orderPrice)
-                
-                // 주문 수량 계산 상세 로그
-                console.log(`[주문 수량 계산] ${stock.name}:`, {
-                  투자금액: `${investmentAmount.toLocaleString()}원`,
-                  수수료율: `${(feeRate * 100).toFixed(2)}%`,
-                  수수료제외금액: `${availableAmount.toLocaleString()}원`,
-                  현재가: `${buyPrice.toLocaleString()}원`,
-                  주문가격: `${orderPrice.toLocaleString()}원`,
-                  계산된수량: `${quantity}주`,
-                  총주문금액: `${(quantity * orderPrice).toLocaleString()}원`,
-                })
-                
-                if (quantity <= 0) {
-                  console.log(`[자동매수] ${stock.name}: 수량이 0 이하로 건너뜀 (수량: ${quantity}, 투자금액: ${investmentAmount}, 주문가격: ${orderPrice})`)
-                  addLog(`[자동매수 건너뜀] ${stock.name}: 수량 부족 (투자금액: ${investmentAmount.toLocaleString()}원, 주문가격: ${orderPrice.toLocaleString()}원)`, 'warning')
-                  continue
-                }
-
-                console.log(`[자동매수] ${stock.name}: 주문 전송 시작 (종목코드: ${stockCode}, 수량: ${quantity}, 가격: ${orderPrice}, 옵션: ${orderOption}, 계좌: ${accountNo})`)
-                
-                // 주문 API 요청 제한 방지: 마지막 주문 시간 확인
-                const timeSinceLastOrder = Date.now() - lastOrderTimeRef.current
-                if (timeSinceLastOrder < minOrderInterval) {
-                  const waitTime = minOrderInterval - timeSinceLastOrder
-                  console.log(`[주문 제한] 마지막 주문 후 ${timeSinceLastOrder}ms 경과, ${waitTime}ms 대기 후 주문 진행`)
-                  addLog(`[주문 제한] API 요청 제한 방지를 위해 ${Math.ceil(waitTime / 1000)}초 대기`, 'info')
-                  await new Promise(resolve => setTimeout(resolve, waitTime))
-                }
-                
-                // 주문 처리 중 상태로 표시 (중복 방지)
-                setProcessingOrders(prev => new Set(prev).add(stockCode))
-                
-                // 매수 주문 실행
-                let orderResult
-                try {
-                  orderResult = await kiwoomApi.placeOrder({
-                    code: stockCode,
-                    quantity: quantity,
-                    price: orderPrice,
-                    order_type: 'buy',
-                    order_option: orderOption,
-                    accountNo,
-                    accountProductCode,
-                  })
-                  console.log(`[자동매수] ${stock.name}: 주문 전송 완료`, orderResult)
-                  
-                  // 주문 성공 시 마지막 주문 시간 업데이트 (API 요청 제한 방지)
-                  lastOrderTimeRef.current = Date.now()
-                } catch (orderError: any) {
-                  // 에러 상세 정보 로깅 (항상 실행되도록 보장)
-                  const errorDetail = orderError.response?.data?.detail || orderError.response?.data?.error || orderError.message || '알 수 없는 오류'
-                  const errorCode = orderError.response?.data?.code || stockCode
-                  const isMockApiLimit = orderError.response?.data?.isMockApiLimit || false
-                  const isTradingRestricted = orderError.response?.data?.isTradingRestricted || false
-                  const statusCode = orderError.response?.status || 'N/A'
-                  
-                  // 상세 에러 로그 출력 (항상 실행)
-                  console.error(`[자동매수 실패] ${stock.name} (${stockCode}):`, {
-                    에러메시지: errorDetail,
-                    종목코드: errorCode,
-                    수량: quantity,
-                    가격: orderPrice,
-                    상태코드: statusCode,
-                    isMockApiLimit,
-                    isTradingRestricted,
-                    전체응답: orderError.response?.data,
-                    에러객체: orderError,
-                  })
-                  
-                  // 매수증거금 부족 에러인 경우
-                  if (errorDetail.includes('매수증거금이 부족') || 
-                      errorDetail.includes('RC4025') ||
-                      errorDetail.includes('증거금 부족')) {
-                    const currentDeposit = accountInfoData?.deposit ? parseInt(String(accountInfoData.deposit).trim(), 10) : 0
-                    addLog(`[예수금 부족] ${stock.name} 매수 불가 - 예수금이 부족합니다. (현재 예수금: ${currentDeposit.toLocaleString()}원, 주문금액: ${(quantity * orderPrice).toLocaleString()}원)`, 'warning')
-                    console.log(`[자동매매] ${stock.name} 예수금 부족으로 건너뜀`)
-                    // 주문 처리 중 상태 해제
-                    setProcessingOrders(prev => {
-                      const updated = new Set(prev)
-                      updated.delete(stockCode)
-                      return updated
-                    })
-                    // 해당 종목만 건너뛰고 다음 종목 계속 시도
-                    continue
-                  }
-                  
-                  // API 요청 제한 에러인 경우 경고만 표시하고 다음 종목으로 진행
-                  if (errorDetail.includes('허용된 요청 개수를 초과') || 
-                      errorDetail.includes('요청 개수를 초과') ||
-                      statusCode === 429 ||
-                      orderError.response?.status === 429) {
-                    // API 제한 에러 플래그 설정 (다음 종목 처리 시 딜레이 추가용)
-                    apiLimitErrorRef.current = true
-                    apiLimitRetryCountRef.current += 1
-                    apiLimitLastErrorTimeRef.current = Date.now()
-                    // API 제한 에러는 경고만 표시하고 자동매매는 계속 진행
-                    addLog(`[API 제한 경고] ${stock.name} 주문 중 요청 제한 발생. 다음 종목으로 진행합니다.`, 'warning')
-                    // 주문 처리 중 상태 해제
-                    setProcessingOrders(prev => {
-                      const updated = new Set(prev)
-                      updated.delete(stockCode)
-                      return updated
-                    })
-                    // 해당 종목만 건너뛰고 다음 종목으로 진행
-                    continue
-                  }
-                  
-                  // 모의투자 환경 제한 에러인 경우 매매제한 종목으로 추가
-                  if (isMockApiLimit || 
-                      isTradingRestricted ||
-                      orderError.message?.includes('모의투자 환경 제한') ||
-                      orderError.message?.includes('매매제한 종목') ||
-                      orderError.message?.includes('RC4007') ||
-                      statusCode === 503) {
-                    setRestrictedStocks(prev => new Set(prev).add(stock.code))
-                    addLog(`[자동매수 건너뜀] ${stock.name}: 모의투자 매매 제한 종목 (${errorDetail})`, 'warning')
-                  } else {
-                    // 일반 에러인 경우에도 매매제한 종목으로 추가하여 재시도 방지
-                    setRestrictedStocks(prev => new Set(prev).add(stock.code))
-                    addLog(`[자동매수 실패] ${stock.name}: ${errorDetail} (상태코드: ${statusCode})`, 'error')
-                  }
-                  
-                  // 에러 발생 시 주문 처리 중 상태 해제
-                  setProcessingOrders(prev => {
-                    const updated = new Set(prev)
-                    updated.delete(stockCode)
-                    return updated
-                  })
-                  
-                  // 에러 발생 시 다음 종목으로 진행
-                  continue
-                }
-
-                // 주문 내역 즉시 갱신 (주문번호가 있는 경우)
-                if (orderResult?.orderNumber) {
-                  // 주문번호 중복 체크
-                  const orderNumber = orderResult.orderNumber
-                  const isMarketOrderValue = orderOption === '03' // 시장가 주문 여부 (스코프 밖에서 사용하기 위해 여기서 정의)
-                  
-                  setProcessedOrderNumbers(prev => {
-                    if (prev.has(orderNumber)) {
-                      console.log(`[주문 내역] 중복 주문번호 감지 - ${stock.name} (주문번호: ${orderNumber}) 이미 처리됨, 건너뜀`)
-                      // 주문 처리 중 상태 해제
-                      setProcessingOrders(prevOrders => {
-                        const updated = new Set(prevOrders)
-                        updated.delete(stockCode)
-                        return updated
-                      })
-                      return prev
-                    }
-                    const updated = new Set(prev).add(orderNumber)
-                    
-                    // 모의투자 환경에서는 주문 내역 조회 API가 실패하므로, 로컬 상태에 직접 추가
-                    const orderTimestamp = Date.now() // 주문 접수 시점 기록
-                    const newOrder: OrderLog = {
-                      id: Date.now(), // 고유 ID 생성
-                      date: new Date().toLocaleDateString('ko-KR'),
-                      time: new Date().toLocaleTimeString('ko-KR'),
-                      type: 'buy',
-                      stockName: stock.name,
-                      stockCode: stockCode,
-                      quantity: quantity,
-                      price: orderPrice,
-                      status: '접수', // 주문 접수 상태
-                      orderNumber: orderNumber,
-                      orderTimestamp, // 주문 접수 시점 기록
-                      isMarketOrder: isMarketOrderValue, // 시장가 주문 여부
-                      unfilledQuantity: quantity, // 초기 미체결수량은 주문수량과 동일
-                    }
-                    
-                    // 주문 내역에 추가 (중복 체크: 주문번호 및 ID 기준)
-                    setOrderLogs(prevLogs => {
-                      // 이미 같은 주문번호가 있으면 추가하지 않음
-                      const existingOrder = prevLogs.find(o => o.orderNumber === newOrder.orderNumber)
-                      if (existingOrder) {
-                        console.log(`[주문 내역] 중복 주문 감지 - ${stock.name} (주문번호: ${newOrder.orderNumber}) 이미 존재함, 건너뜀`)
-                        return prevLogs
-                      }
-                      // 같은 ID가 있으면 추가하지 않음 (추가 안전장치)
-                      const existingById = prevLogs.find(o => o.id === newOrder.id)
-                      if (existingById) {
-                        // console.log(`[주문 내역] 중복 ID 감지 - ${stock.name} (ID: ${newOrder.id}) 이미 존재함, 건너뜀`)
-                        return prevLogs
-                      }
-                      const updatedLogs = [newOrder, ...prevLogs]
-                      // console.log(`[주문 내역] 로컬 상태에 주문 추가 완료 - 총 주문 개수: ${updatedLogs.length}`, newOrder)
-                      
-                      // C# 코드와 동일: 매수 주문 성공 시 매수주문했거나보유중인종목에 추가
-                      setOrderedOrHoldingStocks(prev => new Set(prev).add(stockCode))
-                      return updatedLogs
-                    })
-                    
-                    // 주문한 종목을 검색된 종목에서 제거 (중복 제거 방지)
-                    setDetectedStocks(prevStocks => {
-                      // 이미 제거되었는지 확인
-                      const exists = prevStocks.some(s => s.code === stockCode)
-                      if (!exists) {
-                        console.log(`[검색된 종목] 이미 제거됨 - ${stock.name} (${stockCode}), 건너뜀`)
-                        return prevStocks
-                      }
-                      const filtered = prevStocks.filter(s => s.code !== stockCode)
-                      console.log(`[검색된 종목] 주문한 종목 제거 - ${stock.name} (${stockCode}) 제거됨, 남은 종목: ${filtered.length}개`)
-                      return filtered
-                    })
-                    
-                    // 주문 처리 중 상태 해제
-                    setProcessingOrders(prevOrders => {
-                      const updated = new Set(prevOrders)
-                      updated.delete(stockCode)
-                      return updated
-                    })
-                    
-                    return updated
-                  })
-                  
-                  // 시장가 매수 주문은 즉시 체결되어야 하므로, 주문 후 즉시 보유종목 조회하여 체결 확인
-                  if (isMarketOrderValue) {
-                    console.log(`[시장가 매수] ${stock.name}: 즉시 체결 확인을 위한 보유종목 조회 실행 (주문번호: ${orderNumber})`)
-                    // 시장가 매수는 즉시 체결되므로 여러 번 보유종목 조회 (체결 확인을 위해)
-                    // 1초, 2초, 3초 후 각각 조회하여 체결 여부 확인
-                    const checkExecution = async (delay: number, attempt: number) => {
-                      setTimeout(async () => {
-                        try {
-                          console.log(`[시장가 매수] ${stock.name}: 보유종목 조회 시도 ${attempt}회 (${delay}ms 후)`)
-                          const result = await refetchBalance()
-                          console.log(`[시장가 매수] ${stock.name}: 보유종목 조회 완료 ${attempt}회 - 체결 여부 확인됨`, result)
-                        } catch (error) {
-                          console.error(`[시장가 매수] ${stock.name}: 보유종목 조회 실패 ${attempt}회`, error)
-                        }
-                      }, delay)
-                    }
-                    
-                    // 여러 번 조회하여 체결 확인 (1초, 2초, 3초 후)
-                    checkExecution(1000, 1)
-                    checkExecution(2000, 2)
-                    checkExecution(3000, 3)
-                  } else {
-                    // 지정가 주문은 체결까지 시간이 걸릴 수 있으므로 주기적 조회에 의존
-                    console.log(`[지정가 매수] ${stock.name}: 주기적 보유종목 조회에 의존 (주문번호: ${orderNumber})`)
-                  }
-                  
-                  // 모의투자 환경에서는 주문 내역 조회 API가 실패하므로 refetch 호출하지 않음
-                  // (refetch하면 빈 배열이 반환되어 기존 주문이 사라질 수 있음)
-                  // 실전 환경에서는 아래 주석을 해제하여 주문 내역 조회
-                  // setTimeout(() => {
-                  //   refetchOrders()
-                  //   queryClient.invalidateQueries(['orders', selectedAccount])
-                  // }, 1000)
-                }
-
-                // 매매 횟수 업데이트
-                setStockTradeCounts(prev => {
-                  const newMap = new Map(prev)
-                  newMap.set(stock.code, (newMap.get(stock.code) || 0) + 1)
-                  return newMap
-                })
-                
-                // 당일 매매 종목 추가
-                if (!dailyTradedStocks.has(stock.code)) {
-                  setDailyTradedStocks(prev => new Set(prev).add(stock.code))
-                  setDailyTradeCount(prev => prev + 1)
-                }
-
-                const priceTypeText = buyPriceSettingsRef.current.종목별매수가격설정실행 
-                  ? (buyPriceSettingsRef.current.매수가격옵션 === '시장가' ? '시장가' : `지정가(${orderPrice.toLocaleString()}원)`)
-                  : `지정가(${orderPrice.toLocaleString()}원)`
-                addLog(`[자동매수] ${stock.name} ${quantity}주 매수 주문 (${priceTypeText}, 주문번호: ${orderResult?.orderNumber || 'N/A'}, 매매횟수: ${tradeCount + 1}/${tradeLimitPerStockRef.current})`, 'success')
-                
-                // API 호출 제한을 위한 딜레이
-                await new Promise(resolve => setTimeout(resolve, 500))
-              } catch (error: any) {
-                // 모의투자 환경 제한 에러인 경우 경고로 처리
-                const errorMessage = error.message || error.response?.data?.detail || '알 수 없는 오류'
-                if (error.response?.data?.isMockApiLimit || 
-                    error.message?.includes('모의투자 환경 제한') ||
-                    error.message?.includes('매매제한 종목') ||
-                    error.message?.includes('RC4007')) {
-                  // 매매제한 종목으로 판단된 경우 Set에 추가하여 재시도 방지
-                  setRestrictedStocks(prev => new Set(prev).add(stock.code))
-                  addLog(`[자동매수 건너뜀] ${stock.name}: 모의투자 매매 제한 종목 (재시도 안 함)`, 'warning')
-                } else {
-                  addLog(`[자동매수 실패] ${stock.name}: ${errorMessage}`, 'error')
-                }
-              }
-            }
-          }
-
-      // 3. 보유 종목 매도 조건 확인 및 실행
-      for (const holding of holdingStocks) {
-        if (!isRunning) break // 중지되면 중단
-        
-        if (checkSellConditions(holding)) {
-          try {
-            // 매도 가격 결정
-            let sellPrice = 0 // 시장가
-            let orderOption = '03' // 시장가
-            
-            // 익절인 경우
-            if (holding.profitPercent >= profitTarget) {
-              if (profitType === 'market') {
-                sellPrice = 0
-                orderOption = '03' // 시장가
-              } else {
-                // 지정가 (현재가 사용)
-                sellPrice = holding.currentPrice
-                orderOption = '00' // 지정가
-              }
-            }
-            // 손절인 경우
-            else if (holding.profitPercent <= lossLimit) {
-              if (lossType === 'market') {
-                sellPrice = 0
-                orderOption = '03' // 시장가
-              } else {
-                // 지정가 매도호가 (현재가 + lossPriceOffset)
-                sellPrice = Math.max(0, holding.currentPrice + lossPriceOffset)
-                orderOption = '00' // 지정가
-              }
-            }
-            // 시간 매도 또는 트레일링 스톱인 경우
-            else {
-              // 시장가로 매도
-              sellPrice = 0
-              orderOption = '03' // 시장가
-            }
-
-            // 종목코드 검증: 6자리 숫자만 허용 (ELW, ETF 등 비표준 종목코드 제외)
-            const stockCode = String(holding.code).trim()
-            if (!/^\d{6}$/.test(stockCode)) {
-              addLog(`[자동매도 건너뜀] ${holding.name} (${stockCode}): 지원하지 않는 종목코드 형식 (6자리 숫자만 지원)`, 'warning')
-              continue
-            }
-
-            // 주문 API 요청 제한 방지: 마지막 주문 시간 확인
-            const timeSinceLastOrder = Date.now() - lastOrderTimeRef.current
-            if (timeSinceLastOrder < minOrderInterval) {
-              const waitTime = minOrderInterval - timeSinceLastOrder
-              console.log(`[주문 제한] 마지막 주문 후 ${timeSinceLastOrder}ms 경과, ${waitTime}ms 대기 후 주문 진행`)
-              addLog(`[주문 제한] API 요청 제한 방지를 위해 ${Math.ceil(waitTime / 1000)}초 대기`, 'info')
-              await new Promise(resolve => setTimeout(resolve, waitTime))
-            }
-
-            // 매도 주문 실행
-            const sellOrderResult = await kiwoomApi.placeOrder({
-              code: stockCode,
-              quantity: holding.quantity,
-              price: sellPrice,
-              order_type: 'sell',
-              order_option: orderOption,
-              accountNo,
-              accountProductCode,
-            })
-            
-            // 주문 성공 시 마지막 주문 시간 업데이트 (API 요청 제한 방지)
-            lastOrderTimeRef.current = Date.now()
-
-            // 주문 내역 즉시 갱신
-            if (sellOrderResult?.orderNumber) {
-              // 모의투자 환경에서는 주문 내역 조회 API가 실패하므로, 로컬 상태에 직접 추가
-              const orderTimestamp = Date.now() // 주문 접수 시점 기록
-              const isMarketOrder = orderOption === '03' // 시장가 주문 여부
-              const newOrder: OrderLog = {
-                id: Date.now(),
-                date: new Date().toLocaleDateString('ko-KR'),
-                time: new Date().toLocaleTimeString('ko-KR'),
-                type: 'sell',
-                stockName: holding.name,
-                stockCode: stockCode,
-                quantity: holding.quantity,
-                price: sellPrice,
-                status: '접수',
-                orderNumber: sellOrderResult.orderNumber,
-                orderTimestamp, // 주문 접수 시점 기록
-                isMarketOrder, // 시장가 주문 여부
-              }
-              
-          setOrderLogs(prev => {
-            const updated = [newOrder, ...prev]
-            // console.log(`[주문 내역] 로컬 상태에 매도 주문 추가 완료 - 총 주문 개수: ${updated.length}`, newOrder)
-            return updated
-          })
-              
-              // C# 코드와 동일: 매도 주문 성공 시 매수주문했거나보유중인종목에서 제거
-              // (실제로는 계좌 조회 시 보유 수량이 0이 되면 자동으로 제거되지만, 명시적으로 제거)
-              setDetectedStocks(prev => prev.map(stock => 
-                stock.code === stockCode
-                  ? { ...stock, isHolding: false }
-                  : stock
-              ))
-              
-              // 매도 주문 성공 시 orderedOrHoldingStocks에서 제거 (보유 수량이 0이 되면 제거)
-              setOrderedOrHoldingStocks(prev => {
-                const updated = new Set(prev)
-                updated.delete(stockCode)
-                return updated
-              })
-              
-              // 모의투자 환경에서는 주문 내역 조회 API가 실패하므로 refetch 호출하지 않음
-              // setTimeout(() => {
-              //   refetchOrders()
-              //   queryClient.invalidateQueries(['orders', selectedAccount])
-              // }, 1000)
-            }
-
-            const priceType = sellPrice === 0 ? '시장가' : `지정가(${sellPrice.toLocaleString()}원)`
-            addLog(`[자동매도] ${holding.name} ${holding.quantity}주 매도 주문 (${priceType}, 수익률: ${holding.profitPercent.toFixed(2)}%)`, 'success')
-            
-            // API 호출 제한을 위한 딜레이
-            await new Promise(resolve => setTimeout(resolve, 500))
-          } catch (error: any) {
-            // 모의투자 환경 제한 에러인 경우 경고로 처리
-            const errorMessage = error.message || error.response?.data?.detail || '알 수 없는 오류'
-            if (error.response?.data?.isMockApiLimit || 
-                error.message?.includes('모의투자 환경 제한') ||
-                error.message?.includes('매매제한 종목') ||
-                error.message?.includes('RC4007')) {
-              addLog(`[자동매도 건너뜀] ${holding.name}: 모의투자 매매 제한 종목`, 'warning')
-            } else {
-              addLog(`[자동매도 실패] ${holding.name}: ${errorMessage}`, 'error')
-            }
-          }
-        }
-      }
-
-      // 계좌 정보 갱신
-      queryClient.invalidateQueries('balance')
-    } catch (error: any) {
-      console.error('자동매매 실행 오류:', error)
-      // 에러는 조용히 처리 (너무 많은 로그 방지)
-    }
-  }
-
-  // 자동매매 주기적 실행 (isRunning이 true일 때)
-  useEffect(() => {
-    if (!isRunning) {
-      return
-    }
-
-    let intervalId: number | null = null
+    connect()
 
-    // 첫 실행은 약간의 딜레이 후
-    const timeoutId = window.setTimeout(() => {
-      executeAutoTrading()
-      
-      // 이후 30초마다 실행 (조건식 검색 + 매수/매도 체크)
-      // API 제한을 고려하여 주기를 늘림 (10초 -> 30초)
-      intervalId = window.setInterval(() => {
-        executeAutoTrading()
-      }, 30000) // 30초마다
-    }, 2000) // 첫 실행은 2초 후
+    // 라이선스 세션 없이 열어 서버가 연결을 닫았으면 키 검증 후 다시 연결
+    const unsubscribeSession = onLicenseSession(() => {
+      if (isMounted && ws?.readyState === WebSocket.CLOSED) {
+        connect()
+      }
+    })
 
     return () => {
-      window.clearTimeout(timeoutId)
-      if (intervalId) {
-        window.clearInterval(intervalId)
-      }
+      isMounted = false
+      unsubscribeSession()
+      ws?.close()
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [isRunning]) // isRunning만 의존성으로 사용 (함수 내부에서 최신 상태 참조)
+  }, [])
 
   // 날짜 변경 시 당일 매매 통계 초기화
   useEffect(() => {
@@ -5990,6 +4271,65 @@ const AutoTrading = () => {
     }
   }
 
+  // 주문 로그와 계좌를 ref로 관리하여 자동 취소 타이머에서 최신 값 참조
+  const orderLogsRef = useRef<OrderLog[]>([])
+  const selectedAccountRef = useRef<string>('')
+
+  useEffect(() => {
+    orderLogsRef.current = orderLogs
+  }, [orderLogs])
+
+  useEffect(() => {
+    selectedAccountRef.current = selectedAccount
+  }, [selectedAccount])
+
+  // 서버에 주문 취소 요청 (미체결 잔량 전부)
+  const requestOrderCancel = async (order: OrderLog) => {
+    const account = selectedAccountRef.current
+    const accountParts = account.split('-')
+    return kiwoomApi.cancelOrder(order.orderNumber!, {
+      code: order.stockCode,
+      accountNo: accountParts[0] || account,
+      accountProductCode: accountParts[1] || '01',
+    })
+  }
+
+  // 주문 취소 후 주문 로그 상태를 '취소'로 변경하고 취소 시점 기록
+  const markOrdersCancelled = (orderIds: number[]) => {
+    if (orderIds.length === 0) {
+      return
+    }
+    const cancelTimestamp = Date.now()
+    setOrderLogs(prev => prev.map(order =>
+      orderIds.includes(order.id)
+        ? { ...order, status: '취소', type: 'cancel' as const, cancelTimestamp }
+        : order
+    ))
+  }
+
+  // 미체결 주문 취소 (주문번호가 있는 주문은 서버에 취소 요청, 없으면 로그에서만 취소 처리)
+  const cancelUnfilledOrders = async (orders: OrderLog[], reason: (order: OrderLog) => string) => {
+    const cancelledIds: number[] = []
+    for (const order of orders) {
+      const hasOrderNumber = !!order.orderNumber && !order.orderNumber.startsWith('H-')
+      try {
+        if (hasOrderNumber) {
+          await requestOrderCancel(order)
+        }
+        cancelledIds.push(order.id)
+        addLog(`${reason(order)} ${order.stockName} ${order.quantity}주 ${order.type === 'buy' ? '매수' : '매도'} 주문 취소${hasOrderNumber ? ` (주문번호: ${order.orderNumber})` : ''}`, 'warning')
+      } catch (error: any) {
+        // 이미 체결되었거나 취소 가능한 수량이 없으면 다음 주문 내역 조회에서 상태가 갱신됨
+        const errorMessage = error.response?.data?.detail || error.response?.data?.error || error.message
+        addLog(`${order.stockName} 주문 취소 실패: ${errorMessage}`, 'error')
+      }
+    }
+    markOrdersCancelled(cancelledIds)
+    if (cancelledIds.length > 0) {
+      queryClient.invalidateQueries('orders')
+    }
+  }
+
   // 미체결 주문 취소
   const handleCancelUnfilledOrders = async () => {
     try {
@@ -5998,73 +4338,71 @@ const AutoTrading = () => {
         return
       }
 
-      // TODO: 미체결 주문 취소 API 구현 필요
       addLog(`미체결 주문 ${unfilledOrders.length}건 취소 요청`, 'info')
-      queryClient.invalidateQueries('orders')
+      await cancelUnfilledOrders(unfilledOrders, () => '[수동 취소]')
     } catch (error: any) {
       addLog(`미체결 주문 취소 실패: ${error.message}`, 'error')
     }
   }
 
-  // 주문 접수 후 20초가 지난 미체결 주문 자동 취소
+  // 주문 접수 후 일정 시간이 지난 미체결 주문 자동 취소
+  // 매수 주문은 매매설정의 미체결매수주문취소초, 매도 주문은 30초 기준
   useEffect(() => {
     if (!isRunning) {
       return
     }
 
-    // 5초마다 미체결 주문 확인
-    const checkInterval = setInterval(() => {
-      const now = Date.now()
-      const timeoutMs = 30000 // 30초로 연장 (체결 확인 시간 확보)
-
-      setOrderLogs(prev => {
-        const ordersToCancel = prev.filter(order => {
-          // 미체결 주문이고, 주문 접수 시점이 30초 이상 지난 경우
-          if (!order.orderTimestamp) {
-            return false // orderTimestamp가 없으면 취소 대상에서 제외
-          }
-          
-          const isUnfilled = order.status === '접수' || order.status === '확인' || order.status === '미체결'
-          const elapsedTime = now - order.orderTimestamp
-          const shouldCancel = isUnfilled && elapsedTime >= timeoutMs
-
-          if (shouldCancel) {
-            // console.log(`[자동 취소] ${order.stockName} 주문 취소 (경과 시간: ${Math.floor(elapsedTime / 1000)}초)`)
-            addLog(`[자동 취소] ${order.stockName} ${order.quantity}주 ${order.type === 'buy' ? '매수' : '매도'} 주문 취소 (${Math.floor(elapsedTime / 1000)}초 경과)`, 'warning')
-          }
+    let cancelInProgress = false
 
-          return shouldCancel
-        })
+    // 5초마다 미체결 주문 확인
+    const checkInterval = setInterval(async () => {
+      if (cancelInProgress) {
+        return
+      }
 
-        if (ordersToCancel.length === 0) {
-          return prev // 취소할 주문이 없으면 변경 없음
+      const now = Date.now()
+      const sellTimeoutMs = 30000 // 30초 (체결 확인 시간 확보)
+      let buyTimeoutMs = sellTimeoutMs
+      try {
+        const otherConditions = JSON.parse(localStorage.getItem('otherConditions') || '{}')
+        if (otherConditions.미체결매수주문취소 && otherConditions.미체결매수주문취소초 > 0) {
+          buyTimeoutMs = otherConditions.미체결매수주문취소초 * 1000
         }
+      } catch {
+        // 설정이 없거나 손상된 경우 기본값 사용
+      }
 
-        // 취소할 주문들의 상태를 '취소'로 변경하고 취소 시점 기록
-        const cancelTimestamp = Date.now()
-        const updated = prev.map(order => {
-          const shouldCancel = ordersToCancel.some(cancelOrder => cancelOrder.id === order.id)
-          if (shouldCancel) {
-            return {
-              ...order,
-              status: '취소',
-              type: 'cancel' as const,
-              cancelTimestamp, // 취소 시점 기록
-            }
-          }
-          return order
-        })
+      const ordersToCancel = orderLogsRef.current.filter(order => {
+        // 미체결 주문이고, 주문 접수 시점이 기준 시간 이상 지난 경우
+        if (!order.orderTimestamp) {
+          return false // orderTimestamp가 없으면 취소 대상에서 제외
+        }
 
-        // console.log(`[자동 취소] ${ordersToCancel.length}건의 미체결 주문 취소 처리 완료`)
-        return updated
+        const isUnfilled = order.status === '접수' || order.status === '확인' || order.status === '미체결'
+        const timeoutMs = order.type === 'buy' ? buyTimeoutMs : sellTimeoutMs
+        return isUnfilled && now - order.orderTimestamp >= timeoutMs
       })
+
+      if (ordersToCancel.length === 0) {
+        return
+      }
+
+      cancelInProgress = true
+      try {
+        await cancelUnfilledOrders(
+          ordersToCancel,
+          order => `[자동 취소] (${Math.floor((now - order.orderTimestamp!) / 1000)}초 경과)`
+        )
+      } finally {
+        cancelInProgress = false
+      }
     }, 5000) // 5초마다 확인
 
     return () => {
       clearInterval(checkInterval)
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [isRunning]) // isRunning만 의존성으로 사용 (함수형 업데이트로 최신 상태 참조)
+  }, [isRunning]) // isRunning만 의존성으로 사용 (ref로 최신 주문 로그 참조)
 
   // 취소된 주문을 20초 후 자동 삭제
   useEffect(() => {
@@ -6247,14 +4585,6 @@ const AutoTrading = () => {
           maxDailyStocksRef.current = parsed // ref도 업데이트
         }
       }
-      const savedFeePercent = localStorage.getItem('feePercent')
-      if (savedFeePercent) {
-        const parsed = Number(savedFeePercent)
-        if (!isNaN(parsed) && parsed >= 0) {
-          setFeePercent(parsed)
-          feePercentRef.current = parsed // ref도 업데이트
-        }
-      }
       
       // 종목별 매수가격 설정 로드 (priceSettings 우선, 없으면 tradingConditions에서)
       const savedPriceSettings = localStorage.getItem('priceSettings')
@@ -6406,7 +4736,6 @@ const AutoTrading = () => {
       localStorage.setItem('maxSimultaneousBuy', maxSimultaneousBuy.toString())
       localStorage.setItem('tradeLimitPerStock', tradeLimitPerStock.toString())
       localStorage.setItem('maxDailyStocks', maxDailyStocks.toString())
-      localStorage.setItem('feePercent', feePercent.toString())
       
       // 종목별 매수가격 설정 저장
       const priceSettings = {
@@ -6452,7 +4781,7 @@ const AutoTrading = () => {
       console.error('매매설정 저장 오류:', error)
     }
   }, [
-    amountPerStock, maxSimultaneousBuy, tradeLimitPerStock, maxDailyStocks, feePercent, buyPriceSettings,
+    amountPerStock, maxSimultaneousBuy, tradeLimitPerStock, maxDailyStocks, buyPriceSettings,
     startHour, startMinute, endHour, endMinute, endSecond, dropSellTime, dropSellStartHour, dropSellStartMinute, dropSellEndSecond,
     profitTarget, profitType, lossLimit, lossType, lossPriceOffset,
     autoStart, trailingStop, trailingProfitThreshold, trailingDropThreshold
@@ -6961,6 +5290,20 @@ const AutoTrading = () => {
                   </svg>
                   <span className="font-bold text-white text-base">정지</span>
                 </button>
+                <button
+                  onClick={handleHalt}
+                  disabled={!connected || circuitBreaker?.tripped}
+                  className={`px-4 py-2 rounded-full font-semibold text-sm flex items-center gap-2 transition-all duration-300 ${
+                    (!connected || circuitBreaker?.tripped)
+                      ? 'bg-gray-500 cursor-not-allowed opacity-50'
+                      : 'bg-gradient-to-r from-red-600 to-red-800 hover:from-red-700 hover:to-red-900 shadow-lg hover:shadow-red-600/50'
+                  }`}
+                >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01M5.07 19h13.86c1.54 0 2.5-1.67 1.73-3L13.73 4c-.77-1.33-2.69-1.33-3.46 0L3.34 16c-.77 1.33.19 3 1.73 3z" />
+                  </svg>
+                  <span className="font-bold text-white text-base">긴급정지</span>
+                </button>
                 <button
                   onClick={handleRestart}
                   className="px-4 py-2 rounded-full font-semibold text-sm flex items-center gap-2 bg-gradient-to-r from-purple-500 to-purple-600 hover:from-purple-600 hover:to-purple-700 shadow-lg hover:shadow-purple-500/50 transition-all duration-300"
@@ -7003,6 +5346,67 @@ const AutoTrading = () => {
                 </svg>
                 계좌 요약
               </h3>
+              {realtimeConnection?.status === 'reconnecting' && (
+                <div style={{
+                  padding: '8px',
+                  backgroundColor: '#fef3c7',
+                  border: '1px solid #f59e0b',
+                  borderRadius: '4px',
+                  marginBottom: '8px',
+                  fontSize: '11px',
+                  color: '#92400e'
+                }}>
+                  <strong>실시간 시세 재연결 중</strong>
+                  {realtimeConnection.attempt > 0 && ` (${realtimeConnection.attempt}회째)`}
+                  {realtimeConnection.nextRetryAt && (
+                    <div>다음 시도: {new Date(realtimeConnection.nextRetryAt).toLocaleTimeString('ko-KR')}</div>
+                  )}
+                  {realtimeConnection.lastError && <div>{realtimeConnection.lastError}</div>}
+                </div>
+              )}
+              {circuitBreaker?.tripped && (
+                <div style={{
+                  padding: '8px',
+                  backgroundColor: '#fee2e2',
+                  border: '1px solid #ef4444',
+                  borderRadius: '4px',
+                  marginBottom: '8px',
+                  fontSize: '11px',
+                  color: '#991b1b',
+                  display: 'flex',
+                  alignItems: 'center',
+                  justifyContent: 'space-between',
+                  gap: '8px'
+                }}>
+                  <div>
+                    <strong>{circuitBreaker.reason === 'loss_limit' ? '손실 한도 도달로 매매 정지' : '매매 정지'}</strong>
+                    {circuitBreaker.trippedAt && ` (${new Date(circuitBreaker.trippedAt).toLocaleTimeString('ko-KR')})`}
+                    <div>{circuitBreaker.message} - 신규 매수가 차단되었습니다</div>
+                    {circuitBreaker.actions && (
+                      <div>
+                        미체결 취소 {circuitBreaker.actions.cancelledOrders.length}건, 전량 매도 {circuitBreaker.actions.flattenedStocks.length}종목
+                        {circuitBreaker.actions.errors.length > 0 && `, 실패 ${circuitBreaker.actions.errors.length}건`}
+                      </div>
+                    )}
+                  </div>
+                  <button
+                    onClick={handleResume}
+                    style={{
+                      padding: '4px 10px',
+                      backgroundColor: '#ef4444',
+                      color: '#ffffff',
+                      border: 'none',
+                      borderRadius: '4px',
+                      cursor: 'pointer',
+                      fontSize: '11px',
+                      fontWeight: 600,
+                      flexShrink: 0
+                    }}
+                  >
+                    해제
+                  </button>
+                </div>
+              )}
               {(accountInfoData?.error || accountInfoError) && (
                 <div style={{
                   padding: '8px',
@@ -9218,13 +7622,45 @@ const AutoTrading = () => {
                         WebkitTextFillColor: 'transparent',
                         backgroundClip: 'text',
                         color: theme === 'dark' ? '#f3f4f6' : '#111827'
-                      }}>수수료 및 세금%</td>
+                      }}>매매 수수료%</td>
+                      <td style={{ padding: '2px 4px' }}>
+                        <input
+                          type="number"
+                          step="0.001"
+                          value={commissionPercent}
+                          onChange={(e) => setCommissionPercent(Number(e.target.value))}
+                          style={{ 
+                            width: '100%', 
+                            padding: '2px 4px', 
+                            border: theme === 'dark' ? '1px solid #4b5563' : '1px solid #999',
+                            backgroundColor: theme === 'dark' ? '#374151' : 'white',
+                            color: theme === 'dark' ? '#f3f4f6' : '#111827',
+                            textAlign: 'right', 
+                            fontSize: '11px',
+                            borderRadius: '8px'
+                          }}
+                        />
+                      </td>
+                      <td style={{ padding: '2px 4px' }}></td>
+                    </tr>
+                    <tr>
+                      <td style={{ 
+                        padding: '2px 4px', 
+                        textAlign: 'right',
+                        backgroundImage: theme === 'dark' 
+                          ? 'linear-gradient(135deg, #f3f4f6 0%, #d1d5db 100%)'
+                          : 'linear-gradient(135deg, #111827 0%, #374151 100%)',
+                        WebkitBackgroundClip: 'text',
+                        WebkitTextFillColor: 'transparent',
+                        backgroundClip: 'text',
+                        color: theme === 'dark' ? '#f3f4f6' : '#111827'
+                      }}>증권거래세%</td>
                       <td style={{ padding: '2px 4px' }}>
                         <input
                           type="number"
                           step="0.01"
-                          value={feePercent}
-                          onChange={(e) => setFeePercent(Number(e.target.value))}
+                          value={taxPercent}
+                          onChange={(e) => setTaxPercent(Number(e.target.value))}
                           style={{ 
                             width: '100%', 
                             padding: '2px 4px', 
@@ -10760,10 +9196,10 @@ const AutoTrading = () => {
                     const value = e.target.value
                     setLicenseKey(value)
                     
-                    // 라이선스 키가 입력되면 자동으로 검증
+                    // 라이선스 키가 입력되면 남은 기간 조회 (바인딩/세션 발급은 연결할 때 검증)
                     if (value.trim().length > 0) {
                       try {
-                        await validateLicenseKey(value.trim())
+                        await lookupLicenseKey(value.trim())
                       } catch (error) {
                         // 검증 실패 시 키 정보 초기화
                         setKeyInfo(null)
@@ -10783,18 +9219,11 @@ const AutoTrading = () => {
                     fontSize: '14px'
                   }}
                 />
-                {/* 관리자 코드 아이콘 버튼 (F12로 표시/숨김) */}
+                {/* 관리자 페이지 아이콘 버튼 (F12로 표시/숨김, 관리자 로그인 필요) */}
                 {showAdminIcon && (
                   <button
                     type="button"
-                    onClick={() => {
-                      if (!showAdminPanel) {
-                        setShowAdminPanel(true)
-                      } else {
-                        setShowAdminPanel(false)
-                        setAdminCode('')
-                      }
-                    }}
+                    onClick={() => navigate('/admin')}
                     style={{
                       padding: '4px 6px',
                       border: 'none',
@@ -10809,7 +9238,7 @@ const AutoTrading = () => {
                       minWidth: '28px',
                       height: '28px'
                     }}
-                    title="관리자 코드 입력"
+                    title="관리자 페이지"
                     onMouseEnter={(e) => {
                       e.currentTarget.style.opacity = '0.7'
                     }}
@@ -10834,236 +9263,11 @@ const AutoTrading = () => {
                   color: keyInfo.remainingDays > 7 ? '#059669' : '#dc2626'
                 }}>
                   {keyInfo.remainingDays > 0 
-                    ? `✓ 라이선스 키 검증 완료 (남은 사용 기간: ${keyInfo.remainingDays}일)`
+                    ? `✓ 라이선스 키 검증 완료 (${keyInfo.planName ? `${keyInfo.planName} 플랜, ` : ''}남은 사용 기간: ${keyInfo.remainingDays}일)`
                     : '⚠️ 키가 만료되었습니다'
                   }
                 </div>
               )}
-
-              {/* 관리자 코드 입력 필드 (아이콘 클릭 시 표시) */}
-              {showAdminPanel && (
-                <div style={{ marginTop: '12px' }}>
-                  <input
-                    type="text"
-                    value={adminCode}
-                    onChange={(e) => {
-                      const value = e.target.value
-                      setAdminCode(value)
-                    }}
-                    placeholder="관리자 코드 입력"
-                    style={{
-                      width: '100%',
-                      padding: '8px',
-                      border: theme === 'dark' ? '1px solid #3b82f6' : '1px solid #3b82f6',
-                      borderRadius: '8px',
-                      fontSize: '12px',
-                      backgroundColor: theme === 'dark' ? '#1e3a8a' : '#eff6ff',
-                      color: theme === 'dark' ? '#f3f4f6' : '#111827'
-                    }}
-                  />
-                  
-                  {/* 관리자 패널 (아코디언) - cap@3156 입력 시 표시 */}
-                  {adminCode === 'cap@3156' && (
-                <div 
-                  style={{
-                    marginTop: '12px',
-                    padding: '5px',
-                    border: theme === 'dark' ? '1px solid #3b82f6' : '1px solid #3b82f6',
-                    borderRadius: '8px',
-                    backgroundColor: theme === 'dark' ? '#1e3a8a' : '#eff6ff',
-                    animation: 'slideDown 0.3s ease-out'
-                  }}
-                  onClick={(e) => e.stopPropagation()}
-                >
-                  <h3 style={{ 
-                    fontSize: '16px', 
-                    fontWeight: 'bold', 
-                    marginBottom: '16px',
-                    backgroundImage: theme === 'dark' 
-                      ? 'linear-gradient(135deg, #60a5fa 0%, #3b82f6 100%)'
-                      : 'linear-gradient(135deg, #1e40af 0%, #3b82f6 100%)',
-                    WebkitBackgroundClip: 'text',
-                    WebkitTextFillColor: 'transparent',
-                    backgroundClip: 'text',
-                    color: theme === 'dark' ? '#60a5fa' : '#1e40af'
-                  }}>
-                    🔐 라이선스 키 발급
-                  </h3>
-
-                  <div style={{ marginBottom: '12px' }}>
-                    <label style={{ 
-                      display: 'block', 
-                      fontSize: '12px', 
-                      fontWeight: 500, 
-                      marginBottom: '6px',
-                      backgroundImage: theme === 'dark' 
-                        ? 'linear-gradient(135deg, #f3f4f6 0%, #d1d5db 100%)'
-                        : 'linear-gradient(135deg, #111827 0%, #374151 100%)',
-                      WebkitBackgroundClip: 'text',
-                      WebkitTextFillColor: 'transparent',
-                      backgroundClip: 'text',
-                      color: theme === 'dark' ? '#f3f4f6' : '#374151'
-                    }}>
-                      유효기간 (일) *
-                    </label>
-                    <input
-                      type="number"
-                      value={adminValidDays}
-                      onChange={(e) => setAdminValidDays(parseInt(e.target.value) || 60)}
-                      min={1}
-                      max={365}
-                      style={{
-                        width: '100%',
-                        padding: '8px',
-                        border: theme === 'dark' ? '1px solid #4b5563' : '1px solid #d1d5db',
-                        backgroundColor: theme === 'dark' ? '#374151' : 'white',
-                        color: theme === 'dark' ? '#f3f4f6' : '#111827',
-                        borderRadius: '8px',
-                        fontSize: '12px'
-                      }}
-                    />
-                    <div style={{ 
-                      fontSize: '10px', 
-                      marginTop: '4px',
-                      backgroundImage: theme === 'dark' 
-                        ? 'linear-gradient(135deg, #9ca3af 0%, #6b7280 100%)'
-                        : 'linear-gradient(135deg, #6b7280 0%, #4b5563 100%)',
-                      WebkitBackgroundClip: 'text',
-                      WebkitTextFillColor: 'transparent',
-                      backgroundClip: 'text',
-                      color: theme === 'dark' ? '#9ca3af' : '#6b7280'
-                    }}>
-                      {adminValidDays}일 후 만료 ({new Date(Date.now() + adminValidDays * 24 * 60 * 60 * 1000).toLocaleDateString()})
-                    </div>
-                  </div>
-
-                  <div style={{ marginBottom: '12px' }}>
-                    <label style={{ 
-                      display: 'block', 
-                      fontSize: '12px', 
-                      fontWeight: 500, 
-                      marginBottom: '6px',
-                      backgroundImage: theme === 'dark' 
-                        ? 'linear-gradient(135deg, #f3f4f6 0%, #d1d5db 100%)'
-                        : 'linear-gradient(135deg, #111827 0%, #374151 100%)',
-                      WebkitBackgroundClip: 'text',
-                      WebkitTextFillColor: 'transparent',
-                      backgroundClip: 'text',
-                      color: theme === 'dark' ? '#f3f4f6' : '#374151'
-                    }}>
-                      발급자
-                    </label>
-                    <input
-                      type="text"
-                      value={adminIssuedBy}
-                      onChange={(e) => setAdminIssuedBy(e.target.value)}
-                      placeholder="admin"
-                      style={{
-                        width: '100%',
-                        padding: '8px',
-                        border: theme === 'dark' ? '1px solid #4b5563' : '1px solid #d1d5db',
-                        backgroundColor: theme === 'dark' ? '#374151' : 'white',
-                        color: theme === 'dark' ? '#f3f4f6' : '#111827',
-                        borderRadius: '8px',
-                        fontSize: '12px'
-                      }}
-                    />
-                  </div>
-
-                  <div style={{ marginBottom: '16px' }}>
-                    <label style={{ 
-                      display: 'block', 
-                      fontSize: '12px', 
-                      fontWeight: 500, 
-                      marginBottom: '6px',
-                      backgroundImage: theme === 'dark' 
-                        ? 'linear-gradient(135deg, #f3f4f6 0%, #d1d5db 100%)'
-                        : 'linear-gradient(135deg, #111827 0%, #374151 100%)',
-                      WebkitBackgroundClip: 'text',
-                      WebkitTextFillColor: 'transparent',
-                      backgroundClip: 'text',
-                      color: theme === 'dark' ? '#f3f4f6' : '#374151'
-                    }}>
-                      설명 (선택사항)
-                    </label>
-                    <input
-                      type="text"
-                      value={adminDescription}
-                      onChange={(e) => setAdminDescription(e.target.value)}
-                      placeholder="키 설명"
-                      style={{
-                        width: '100%',
-                        padding: '8px',
-                        border: theme === 'dark' ? '1px solid #4b5563' : '1px solid #d1d5db',
-                        backgroundColor: theme === 'dark' ? '#374151' : 'white',
-                        color: theme === 'dark' ? '#f3f4f6' : '#111827',
-                        borderRadius: '8px',
-                        fontSize: '12px'
-                      }}
-                    />
-                  </div>
-
-                  <button
-                    onClick={async () => {
-                      if (adminValidDays < 1 || adminValidDays > 365) {
-                        addLog('유효기간은 1일 이상 365일 이하여야 합니다', 'error')
-                        return
-                      }
-
-                      setIsIssuingKey(true)
-                      try {
-                        const response = await fetch('/api/admin/keys/issue', {
-                          method: 'POST',
-                          headers: {
-                            'Content-Type': 'application/json',
-                          },
-                          body: JSON.stringify({
-                            validDays: adminValidDays,
-                            issuedBy: adminIssuedBy || 'admin',
-                            description: adminDescription || undefined
-                          })
-                        })
-
-                        const data = await response.json()
-
-                        if (data.success) {
-                          setLicenseKey(data.key) // 발급된 키를 라이선스 키 필드에 자동 입력
-                          setAdminDescription('')
-                          addLog(`라이선스 키 발급 성공: ${data.key} (만료일: ${new Date(data.expiresAt).toLocaleDateString()})`, 'success')
-                          // 키 자동 검증
-                          try {
-                            await validateLicenseKey(data.key)
-                          } catch (error) {
-                            // 무시
-                          }
-                        } else {
-                          addLog(`키 발급 실패: ${data.message}`, 'error')
-                        }
-                      } catch (error: any) {
-                        addLog(`키 발급 오류: ${error.message}`, 'error')
-                      } finally {
-                        setIsIssuingKey(false)
-                      }
-                    }}
-                    disabled={isIssuingKey}
-                    style={{
-                      width: '100%',
-                      padding: '10px',
-                      backgroundColor: isIssuingKey ? '#9ca3af' : '#2563eb',
-                      color: 'white',
-                      border: 'none',
-                      borderRadius: '4px',
-                      cursor: isIssuingKey ? 'not-allowed' : 'pointer',
-                      fontSize: '12px',
-                      fontWeight: 500
-                    }}
-                  >
-                    {isIssuingKey ? '발급 중...' : '라이선스 키 발급'}
-                  </button>
-                  </div>
-                  )}
-                </div>
-              )}
             </div>
 
             {/* API 모드 선택 */}
@@ -0,0 +1,389 @@
+/**
+ * 백테스트 페이지
+ * 과거 분봉/일봉을 자동매매 엔진과 같은 매수/매도 조건으로 재생하고
+ * 거래 내역, 자산 곡선, 성과 통계(승률, MDD, 손익비)를 표시
+ */
+import React, { useEffect, useState } from 'react'
+import { kiwoomApi } from '../api/kiwoom'
+import { StrategyDefinition, StrategyOverrides, loadStrategySettings } from '../utils/strategySettings'
+import { useThemeStore } from '../store/useThemeStore'
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+} from 'recharts'
+
+interface BacktestTrade {
+  entryTime: string
+  entryPrice: number
+  exitTime: string
+  exitPrice: number
+  quantity: number
+  fee: number
+  profit: number
+  profitPercent: number
+  maxProfitPercent: number
+  exitReason: string
+  entrySignals: string[]
+}
+
+interface BacktestStats {
+  initialCapital: number
+  finalEquity: number
+  totalProfit: number
+  totalReturn: number
+  tradeCount: number
+  winCount: number
+  lossCount: number
+  winRate: number
+  grossProfit: number
+  grossLoss: number
+  profitFactor: number | null
+  maxDrawdown: number
+}
+
+interface BacktestResult {
+  code: string
+  name: string
+  period: 'min' | 'day'
+  startTime: string
+  endTime: string
+  barCount: number
+  trades: BacktestTrade[]
+  equityCurve: { time: string; equity: number }[]
+  stats: BacktestStats
+}
+
+const EXIT_REASON_LABELS: Record<string, string> = {
+  trailing: '트레일링',
+  profit: '익절',
+  loss: '손절',
+  stopLoss: '시장가 손절',
+  time: '시간 매도',
+  end: '종료 청산',
+}
+
+// YYYYMMDDHHmm → MM/DD HH:mm, YYYYMMDD → YYYY/MM/DD
+const formatTime = (time: string) => {
+  const digits = String(time || '').replace(/\D/g, '')
+  if (digits.length >= 12) {
+    return `${digits.substring(4, 6)}/${digits.substring(6, 8)} ${digits.substring(8, 10)}:${digits.substring(10, 12)}`
+  }
+  if (digits.length >= 8) {
+    return `${digits.substring(0, 4)}/${digits.substring(4, 6)}/${digits.substring(6, 8)}`
+  }
+  return time
+}
+
+const Backtest = () => {
+  const { theme } = useThemeStore()
+  const [code, setCode] = useState('')
+  const [period, setPeriod] = useState<'min' | 'day'>('min')
+  const [startDate, setStartDate] = useState('') // YYYY-MM-DD, 비우면 서버 기본 구간 (분봉: 오늘, 일봉: 6개월)
+  const [endDate, setEndDate] = useState('')
+  const [initialCapital, setInitialCapital] = useState(10000000)
+  const [amountPerStock, setAmountPerStock] = useState(5000000)
+  const [commissionPercent, setCommissionPercent] = useState(0.015)
+  const [taxPercent, setTaxPercent] = useState(0.2)
+  const [profitTarget, setProfitTarget] = useState(10.0)
+  const [lossLimit, setLossLimit] = useState(-1.5)
+  // 전략 목록은 서버 레지스트리 기준, 파라미터는 환경설정 매매기법 탭에서 저장한 값 사용
+  const [strategyDefinitions, setStrategyDefinitions] = useState<StrategyDefinition[]>([])
+  const [strategies, setStrategies] = useState<StrategyOverrides>(() => loadStrategySettings())
+  const [isRunning, setIsRunning] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [result, setResult] = useState<BacktestResult | null>(null)
+
+  useEffect(() => {
+    kiwoomApi.getStrategies()
+      .then((definitions: StrategyDefinition[]) => setStrategyDefinitions(definitions))
+      .catch((err: any) => console.warn('[백테스트] 전략 목록 조회 실패:', err.message))
+  }, [])
+
+  const handleRun = async () => {
+    if (!/^\d{6}$/.test(code.trim())) {
+      alert('6자리 종목코드를 입력해주세요')
+      return
+    }
+
+    setIsRunning(true)
+    setError(null)
+    try {
+      const data = await kiwoomApi.runBacktest({
+        code: code.trim(),
+        period,
+        start: startDate.replace(/-/g, '') || undefined,
+        end: endDate.replace(/-/g, '') || undefined,
+        initialCapital,
+        fees: { commissionPercent, taxPercent },
+        config: {
+          amountPerStock,
+          profitTarget,
+          lossLimit,
+          strategies,
+        },
+      })
+      setResult(data)
+    } catch (err: any) {
+      setResult(null)
+      setError(err.response?.data?.detail || err.response?.data?.message || err.message)
+    } finally {
+      setIsRunning(false)
+    }
+  }
+
+  const cardClass = `${theme === 'dark' ? 'bg-gray-800 text-gray-100' : 'bg-white text-gray-900'} rounded-lg shadow p-6`
+  const inputClass = `w-full px-3 py-2 rounded border text-sm ${
+    theme === 'dark' ? 'bg-gray-700 border-gray-600 text-gray-100' : 'bg-white border-gray-300 text-gray-900'
+  }`
+  const labelClass = `block text-xs font-medium mb-1 ${theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}`
+  const profitColor = (value: number) => (value > 0 ? 'text-red-500' : value < 0 ? 'text-blue-500' : '')
+
+  const stats = result?.stats
+  const statItems = stats ? [
+    { label: '최종 자산', value: `${Math.round(stats.finalEquity).toLocaleString()}원` },
+    { label: '총 손익', value: `${Math.round(stats.totalProfit).toLocaleString()}원`, color: profitColor(stats.totalProfit) },
+    { label: '수익률', value: `${stats.totalReturn.toFixed(2)}%`, color: profitColor(stats.totalReturn) },
+    { label: '거래 횟수', value: `${stats.tradeCount}회 (${stats.winCount}승 ${stats.lossCount}패)` },
+    { label: '승률', value: `${stats.winRate.toFixed(1)}%` },
+    { label: 'MDD', value: `-${stats.maxDrawdown.toFixed(2)}%`, color: 'text-blue-500' },
+    { label: '손익비 (Profit Factor)', value: stats.profitFactor === null ? '-' : stats.profitFactor.toFixed(2) },
+  ] : []
+
+  return (
+    <div className={`p-6 max-w-[1200px] mx-auto h-screen overflow-y-auto space-y-6 ${
+      theme === 'dark' ? 'bg-gradient-dark text-dark-text' : 'bg-gray-50 text-gray-900'
+    }`}>
+      <h1 className={`text-2xl font-bold ${theme === 'dark' ? 'text-gradient' : 'text-gray-900'}`}>
+        백테스트
+      </h1>
+
+      {/* 백테스트 설정 */}
+      <div className={cardClass}>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+          <div>
+            <label className={labelClass}>종목코드</label>
+            <input
+              type="text"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              placeholder="005930"
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className={labelClass}>봉 단위</label>
+            <select
+              value={period}
+              onChange={(e) => setPeriod(e.target.value as 'min' | 'day')}
+              className={inputClass}
+            >
+              <option value="min">분봉</option>
+              <option value="day">일봉</option>
+            </select>
+          </div>
+          <div>
+            <label className={labelClass}>시작일</label>
+            <input
+              type="date"
+              value={startDate}
+              onChange={(e) => setStartDate(e.target.value)}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className={labelClass}>종료일</label>
+            <input
+              type="date"
+              value={endDate}
+              onChange={(e) => setEndDate(e.target.value)}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className={labelClass}>초기 자금 (원)</label>
+            <input
+              type="number"
+              value={initialCapital}
+              onChange={(e) => setInitialCapital(parseInt(e.target.value) || 0)}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className={labelClass}>종목당 투자금액 (원)</label>
+            <input
+              type="number"
+              value={amountPerStock}
+              onChange={(e) => setAmountPerStock(parseInt(e.target.value) || 0)}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className={labelClass}>매매 수수료 (%)</label>
+            <input
+              type="number"
+              step="0.001"
+              value={commissionPercent}
+              onChange={(e) => setCommissionPercent(parseFloat(e.target.value) || 0)}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className={labelClass}>증권거래세 (%)</label>
+            <input
+              type="number"
+              step="0.01"
+              value={taxPercent}
+              onChange={(e) => setTaxPercent(parseFloat(e.target.value) || 0)}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className={labelClass}>익절 기준 (%)</label>
+            <input
+              type="number"
+              step="0.1"
+              value={profitTarget}
+              onChange={(e) => setProfitTarget(parseFloat(e.target.value) || 0)}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className={labelClass}>손절 기준 (%)</label>
+            <input
+              type="number"
+              step="0.1"
+              value={lossLimit}
+              onChange={(e) => setLossLimit(parseFloat(e.target.value) || 0)}
+              className={inputClass}
+            />
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-4 mb-4">
+          {strategyDefinitions.map(strategy => (
+            <label key={strategy.id} className="flex items-center gap-2 text-sm" title={strategy.description}>
+              <input
+                type="checkbox"
+                checked={strategies[strategy.id]?.enabled ?? strategy.defaultEnabled}
+                onChange={(e) => setStrategies({
+                  ...strategies,
+                  [strategy.id]: { ...strategies[strategy.id], enabled: e.target.checked },
+                })}
+              />
+              {strategy.name}
+            </label>
+          ))}
+        </div>
+
+        <button
+          onClick={handleRun}
+          disabled={isRunning}
+          className={`px-6 py-3 rounded-full font-semibold text-sm transition-all duration-300 ${
+            isRunning ? 'bg-gray-500 cursor-not-allowed opacity-50' : 'btn-gradient-primary'
+          }`}
+        >
+          <span className="text-gradient font-bold">{isRunning ? '실행 중...' : '백테스트 실행'}</span>
+        </button>
+
+        {error && (
+          <p className="mt-4 text-sm text-red-500">백테스트 실패: {error}</p>
+        )}
+      </div>
+
+      {result && stats && (
+        <>
+          {/* 성과 통계 */}
+          <div className={cardClass}>
+            <h2 className="text-lg font-bold mb-1">{result.name} ({result.code})</h2>
+            <p className={`text-xs mb-4 ${theme === 'dark' ? 'text-gray-400' : 'text-gray-500'}`}>
+              {formatTime(result.startTime)} ~ {formatTime(result.endTime)} · {result.barCount.toLocaleString()}개 {result.period === 'day' ? '일봉' : '분봉'}
+            </p>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              {statItems.map(item => (
+                <div key={item.label}>
+                  <div className={labelClass}>{item.label}</div>
+                  <div className={`text-lg font-semibold ${item.color || ''}`}>{item.value}</div>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* 자산 곡선 */}
+          <div className={cardClass}>
+            <h2 className="text-lg font-bold mb-4">자산 곡선</h2>
+            <ResponsiveContainer width="100%" height={300}>
+              <LineChart data={result.equityCurve}>
+                <CartesianGrid strokeDasharray="3 3" stroke={theme === 'dark' ? '#374151' : '#e5e7eb'} />
+                <XAxis dataKey="time" tickFormatter={formatTime} minTickGap={40} tick={{ fontSize: 11 }} />
+                <YAxis
+                  domain={['auto', 'auto']}
+                  tickFormatter={(value: number) => `${Math.round(value / 10000).toLocaleString()}만`}
+                  tick={{ fontSize: 11 }}
+                />
+                <Tooltip
+                  labelFormatter={(label: any) => formatTime(String(label))}
+                  formatter={(value: any) => [`${Math.round(Number(value)).toLocaleString()}원`, '자산']}
+                />
+                <Line type="monotone" dataKey="equity" stroke="#3b82f6" dot={false} strokeWidth={2} />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+
+          {/* 거래 내역 */}
+          <div className={cardClass}>
+            <h2 className="text-lg font-bold mb-4">거래 내역 ({result.trades.length}건)</h2>
+            {result.trades.length === 0 ? (
+              <div className={`py-6 text-center text-sm ${theme === 'dark' ? 'text-gray-400' : 'text-gray-500'}`}>
+                매수 조건을 충족한 거래가 없습니다
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-xs">
+                  <thead>
+                    <tr className={`border-b ${theme === 'dark' ? 'border-gray-700' : 'border-gray-200'}`}>
+                      <th className="p-2 text-left">매수 시각</th>
+                      <th className="p-2 text-right">매수가</th>
+                      <th className="p-2 text-left">매도 시각</th>
+                      <th className="p-2 text-right">매도가</th>
+                      <th className="p-2 text-right">수량</th>
+                      <th className="p-2 text-right">수수료</th>
+                      <th className="p-2 text-right">손익</th>
+                      <th className="p-2 text-right">수익률</th>
+                      <th className="p-2 text-left">매도 사유</th>
+                      <th className="p-2 text-left">매수 신호</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {result.trades.map((trade, index) => (
+                      <tr key={`${trade.entryTime}-${index}`} className={`border-b ${theme === 'dark' ? 'border-gray-700' : 'border-gray-100'}`}>
+                        <td className="p-2">{formatTime(trade.entryTime)}</td>
+                        <td className="p-2 text-right">{trade.entryPrice.toLocaleString()}</td>
+                        <td className="p-2">{formatTime(trade.exitTime)}</td>
+                        <td className="p-2 text-right">{trade.exitPrice.toLocaleString()}</td>
+                        <td className="p-2 text-right">{trade.quantity.toLocaleString()}</td>
+                        <td className="p-2 text-right">{trade.fee.toLocaleString()}</td>
+                        <td className={`p-2 text-right ${profitColor(trade.profit)}`}>{Math.round(trade.profit).toLocaleString()}</td>
+                        <td className={`p-2 text-right ${profitColor(trade.profitPercent)}`}>{trade.profitPercent.toFixed(2)}%</td>
+                        <td className="p-2">{EXIT_REASON_LABELS[trade.exitReason] || trade.exitReason}</td>
+                        <td className="p-2 max-w-[320px] truncate" title={trade.entrySignals.join('\n')}>
+                          {trade.entrySignals[0] || '-'}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
+
+export default Backtest
@@ -13,19 +13,25 @@ import {
   Tooltip,
   ResponsiveContainer,
 } from 'recharts'
+import { sma, bollingerBands } from '../../../shared/indicators'
+import OrderBookLadder from '../components/OrderBookLadder'
 
 const Chart = () => {
   const { code } = useParams<{ code: string }>()
   const { connected } = useKiwoomStore()
   const { theme } = useThemeStore()
   const [period, setPeriod] = useState('min')
+  const [minuteTimeframe, setMinuteTimeframe] = useState(1)
 
+  // 분봉은 서버의 실시간 분봉(메모리)을 사용하므로 자주 갱신해도 차트 API를 호출하지 않음
   const { data: candles = [], isLoading, error } = useQuery(
-    ['candle', code, period],
-    () => kiwoomApi.getCandle(code!, period),
+    ['candle', code, period, minuteTimeframe],
+    () => period === 'min'
+      ? kiwoomApi.getBars(code!, minuteTimeframe)
+      : kiwoomApi.getCandle(code!, period),
     {
       enabled: connected && !!code,
-      refetchInterval: 10000,
+      refetchInterval: period === 'min' ? 3000 : 10000,
       retry: false,
     }
   )
@@ -48,6 +54,20 @@ const Chart = () => {
     close: parseFloat(candle.종가 || candle.close || '0') || 0,
     volume: parseFloat(candle.거래량 || candle.volume || '0') || 0,
   })).filter((item: any) => item.time && (item.open > 0 || item.high > 0 || item.low > 0 || item.close > 0))
+    .sort((a: any, b: any) => a.time.localeCompare(b.time))
+
+  // 이동평균선(5, 20)과 볼린저밴드(20, 2) - 시간순 종가 기준
+  const closes = chartData.map((item: any) => item.close)
+  const ma5 = sma(closes, 5)
+  const ma20 = sma(closes, 20)
+  const bands = bollingerBands(closes, 20, 2)
+  const indicatorData = chartData.map((item: any, i: number) => ({
+    ...item,
+    ma5: ma5[i],
+    ma20: ma20[i],
+    bbUpper: bands[i]?.upper ?? null,
+    bbLower: bands[i]?.lower ?? null,
+  }))
 
   if (!connected) {
     return (
@@ -86,6 +106,17 @@ const Chart = () => {
           >
             분봉
           </button>
+          {period === 'min' && (
+            <select
+              value={minuteTimeframe}
+              onChange={(e) => setMinuteTimeframe(Number(e.target.value))}
+              className={`px-2 py-2 rounded-lg ${theme === 'dark' ? 'bg-gray-700 text-gray-300' : 'bg-gray-100 text-gray-700'}`}
+            >
+              {[1, 3, 5, 15, 30, 60].map(minutes => (
+                <option key={minutes} value={minutes}>{minutes}분</option>
+              ))}
+            </select>
+          )}
           <button
             onClick={() => setPeriod('day')}
             className={`px-4 py-2 rounded-lg transition-colors ${
@@ -217,7 +248,7 @@ const Chart = () => {
       ) : (
         <div className={`${theme === 'dark' ? 'bg-gray-800' : 'bg-white'} rounded-lg shadow p-6`}>
           <ResponsiveContainer width="100%" height={500}>
-            <LineChart data={chartData}>
+            <LineChart data={indicatorData}>
               <CartesianGrid strokeDasharray="3 3" stroke={theme === 'dark' ? '#4b5563' : '#e5e7eb'} />
               <XAxis 
                 dataKey="time" 
@@ -245,7 +276,7 @@ const Chart = () => {
                   color: theme === 'dark' ? '#f3f4f6' : '#111827'
                 }}
                 labelStyle={{ color: theme === 'dark' ? '#f3f4f6' : '#111827' }}
-                formatter={(value: any) => value.toLocaleString()}
+                formatter={(value: any) => typeof value === 'number' ? value.toLocaleString(undefined, { maximumFractionDigits: 0 }) : value}
                 labelFormatter={(label) => `시간: ${label}`}
               />
               <Line
@@ -256,10 +287,16 @@ const Chart = () => {
                 dot={chartData.length <= 5}
                 name="종가"
               />
+              <Line type="monotone" dataKey="ma5" stroke="#f59e0b" strokeWidth={1} dot={false} name="MA5" />
+              <Line type="monotone" dataKey="ma20" stroke="#8b5cf6" strokeWidth={1} dot={false} name="MA20" />
+              <Line type="monotone" dataKey="bbUpper" stroke="#9ca3af" strokeWidth={1} dot={false} strokeDasharray="4 4" name="볼린저 상단" />
+              <Line type="monotone" dataKey="bbLower" stroke="#9ca3af" strokeWidth={1} dot={false} strokeDasharray="4 4" name="볼린저 하단" />
             </LineChart>
           </ResponsiveContainer>
         </div>
       )}
+
+      {code && <OrderBookLadder code={code} />}
     </div>
   )
 }
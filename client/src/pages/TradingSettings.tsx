@@ -1,8 +1,10 @@
 import React, { useState, useEffect } from 'react'
 import { useMutation } from 'react-query'
-import { TradingSettings } from '../api/kiwoom'
+import { TradingSettings, kiwoomApi } from '../api/kiwoom'
 import { useThemeStore } from '../store/useThemeStore'
 import toast from 'react-hot-toast'
+import StrategySettingsPanel from '../components/StrategySettingsPanel'
+import { StrategyOverrides, loadStrategySettings, saveStrategySettings } from '../utils/strategySettings'
 
 /**
  * 환경설정 페이지 - 모바일 최적화
@@ -18,7 +20,8 @@ const TradingSettingsPage = () => {
     최대동시매수종목수: 10,
     종목당매매허용횟수: 30,
     당일최대매매종목수: 50,
-    수수료및세금: 0.92,
+    매매수수료: 0.015,
+    증권거래세: 0.2,
     종목별매수가격설정실행: true,
     매수가격옵션: '지정가',
     매수호가: 0,
@@ -71,15 +74,8 @@ const TradingSettingsPage = () => {
     ai매매사용: false,
   })
 
-  // 매매기법 설정
-  const [tradingMethods, setTradingMethods] = useState({
-    장시작급등주매매: true,
-    볼린저밴드하단반등매매: true,
-    추세선매매: true,
-    장마감종가배팅매매: true,
-    스캘핑매매: true,
-    돌파매매: true,
-  })
+  // 매매기법 설정 (서버 전략 레지스트리의 전략별 사용 여부/파라미터)
+  const [strategySettings, setStrategySettings] = useState<StrategyOverrides>(() => loadStrategySettings())
 
   // 텔레그램 설정
   const [telegramSettings, setTelegramSettings] = useState({
@@ -96,8 +92,14 @@ const TradingSettingsPage = () => {
       localStorage.setItem('priceSettings', JSON.stringify(priceSettings))
       localStorage.setItem('otherConditions', JSON.stringify(otherConditions))
       localStorage.setItem('aiSettings', JSON.stringify(aiSettings))
-      localStorage.setItem('tradingMethods', JSON.stringify(tradingMethods))
+      saveStrategySettings(strategySettings)
       localStorage.setItem('telegramSettings', JSON.stringify(telegramSettings))
+
+      // 수수료율/세율은 서버 실현손익 계산과 자동매매 주문 수량에 사용
+      await kiwoomApi.updatePnlSettings({
+        commissionPercent: tradingConditions.매매수수료,
+        taxPercent: tradingConditions.증권거래세,
+      })
       return true
     },
     {
@@ -117,16 +119,23 @@ const TradingSettingsPage = () => {
     const savedPriceSettings = localStorage.getItem('priceSettings')
     const savedOtherConditions = localStorage.getItem('otherConditions')
     const savedAiSettings = localStorage.getItem('aiSettings')
-    const savedTradingMethods = localStorage.getItem('tradingMethods')
     const savedTelegramSettings = localStorage.getItem('telegramSettings')
 
-    if (savedTradingConditions) setTradingConditions(JSON.parse(savedTradingConditions))
+    if (savedTradingConditions) setTradingConditions(prev => ({ ...prev, ...JSON.parse(savedTradingConditions) }))
     if (savedTradingTime) setTradingTime(JSON.parse(savedTradingTime))
     if (savedPriceSettings) setPriceSettings(JSON.parse(savedPriceSettings))
     if (savedOtherConditions) setOtherConditions(JSON.parse(savedOtherConditions))
     if (savedAiSettings) setAiSettings(JSON.parse(savedAiSettings))
-    if (savedTradingMethods) setTradingMethods(JSON.parse(savedTradingMethods))
     if (savedTelegramSettings) setTelegramSettings(JSON.parse(savedTelegramSettings))
+
+    // 서버에 저장된 수수료율/세율 불러오기
+    kiwoomApi.getPnlSettings()
+      .then(settings => setTradingConditions(prev => ({
+        ...prev,
+        매매수수료: settings.commissionPercent,
+        증권거래세: settings.taxPercent,
+      })))
+      .catch(error => console.warn('[실현손익] 설정 조회 실패:', error.message))
   }, [])
 
   const handleSave = () => {
@@ -243,12 +252,22 @@ const TradingSettingsPage = () => {
                   />
                 </div>
                 <div>
-                  <label className="block text-sm font-medium mb-1">수수료 및 세금 (%)</label>
+                  <label className="block text-sm font-medium mb-1">매매 수수료 (%)</label>
+                  <input
+                    type="number"
+                    step="0.001"
+                    value={tradingConditions.매매수수료}
+                    onChange={(e) => setTradingConditions({ ...tradingConditions, 매매수수료: parseFloat(e.target.value) || 0 })}
+                    className="w-full px-3 py-2 border rounded-lg text-sm"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-1">증권거래세 (%)</label>
                   <input
                     type="number"
                     step="0.01"
-                    value={tradingConditions.수수료및세금}
-                    onChange={(e) => setTradingConditions({ ...tradingConditions, 수수료및세금: parseFloat(e.target.value) || 0 })}
+                    value={tradingConditions.증권거래세}
+                    onChange={(e) => setTradingConditions({ ...tradingConditions, 증권거래세: parseFloat(e.target.value) || 0 })}
                     className="w-full px-3 py-2 border rounded-lg text-sm"
                   />
                 </div>
@@ -650,19 +669,7 @@ const TradingSettingsPage = () => {
           <div className="space-y-4">
             <div className="bg-white rounded-lg shadow p-4">
               <h3 className="text-base font-semibold mb-4">매매기법 설정</h3>
-              <div className="space-y-3">
-                {Object.entries(tradingMethods).map(([key, value]) => (
-                  <div key={key} className="flex items-center">
-                    <input
-                      type="checkbox"
-                      checked={value}
-                      onChange={(e) => setTradingMethods({ ...tradingMethods, [key]: e.target.checked })}
-                      className="w-5 h-5 mr-2"
-                    />
-                    <label className="text-sm font-medium">{key}</label>
-                  </div>
-                ))}
-              </div>
+              <StrategySettingsPanel value={strategySettings} onChange={setStrategySettings} />
             </div>
           </div>
         )}
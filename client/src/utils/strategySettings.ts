@@ -0,0 +1,50 @@
+/**
+ * 매수 전략 설정
+ * 서버 전략 레지스트리(/api/strategies)의 전략 id별 사용 여부와 파라미터
+ * 사용자가 바꾼 항목만 localStorage에 저장하고 자동매매 시작 시 config.strategies로 전달
+ */
+
+export interface StrategyParameter {
+  key: string
+  label: string
+  type: 'number' | 'boolean'
+  default: number | boolean
+}
+
+export interface StrategyDefinition {
+  id: string
+  name: string
+  description: string
+  session: 'always' | 'marketOpen' | 'intraday' | 'marketClose'
+  usesCandles: boolean
+  defaultEnabled: boolean
+  parameters: StrategyParameter[]
+}
+
+// 전략 id → 바꾼 사용 여부/파라미터 (없는 항목은 서버의 매매설정/기본값 사용)
+export type StrategyOverrides = Record<string, {
+  enabled?: boolean
+  params?: Record<string, number | boolean>
+}>
+
+export const STRATEGY_SESSION_LABELS: Record<StrategyDefinition['session'], string> = {
+  always: '항상',
+  marketOpen: '장시작',
+  intraday: '장중',
+  marketClose: '장마감',
+}
+
+const STORAGE_KEY = 'strategySettings'
+
+export function loadStrategySettings(): StrategyOverrides {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY)
+    return saved ? JSON.parse(saved) : {}
+  } catch {
+    return {}
+  }
+}
+
+export function saveStrategySettings(settings: StrategyOverrides): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings))
+}
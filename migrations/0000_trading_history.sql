@@ -0,0 +1,90 @@
+-- users 테이블은 이전에 db:push로 만든 배포에도 있으므로 모든 테이블/인덱스를 IF NOT EXISTS로 생성
+CREATE TABLE IF NOT EXISTS "daily_pnl" (
+	"account_no" text DEFAULT '' NOT NULL,
+	"trade_date" date NOT NULL,
+	"realized_pnl" bigint DEFAULT 0 NOT NULL,
+	"unrealized_pnl" bigint DEFAULT 0 NOT NULL,
+	"total_pnl" bigint DEFAULT 0 NOT NULL,
+	"buy_amount" bigint DEFAULT 0 NOT NULL,
+	"sell_amount" bigint DEFAULT 0 NOT NULL,
+	"fill_count" integer DEFAULT 0 NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "daily_pnl_account_no_trade_date_pk" PRIMARY KEY("account_no","trade_date")
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "fills" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"order_id" varchar NOT NULL,
+	"account_no" text DEFAULT '' NOT NULL,
+	"order_number" text DEFAULT '' NOT NULL,
+	"code" varchar(12) NOT NULL,
+	"name" text DEFAULT '' NOT NULL,
+	"side" varchar(4) NOT NULL,
+	"quantity" integer NOT NULL,
+	"price" integer NOT NULL,
+	"amount" bigint NOT NULL,
+	"cumulative_quantity" integer NOT NULL,
+	"trade_date" date NOT NULL,
+	"filled_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "orders" (
+	"id" varchar PRIMARY KEY NOT NULL,
+	"account_no" text DEFAULT '' NOT NULL,
+	"order_number" text DEFAULT '' NOT NULL,
+	"original_order_number" text DEFAULT '' NOT NULL,
+	"code" varchar(12) NOT NULL,
+	"name" text DEFAULT '' NOT NULL,
+	"side" varchar(4) NOT NULL,
+	"order_option" varchar(2) NOT NULL,
+	"quantity" integer NOT NULL,
+	"price" integer DEFAULT 0 NOT NULL,
+	"filled_quantity" integer DEFAULT 0 NOT NULL,
+	"filled_amount" bigint DEFAULT 0 NOT NULL,
+	"average_fill_price" integer DEFAULT 0 NOT NULL,
+	"cancelled_quantity" integer DEFAULT 0 NOT NULL,
+	"status" varchar(20) NOT NULL,
+	"source" varchar(10) NOT NULL,
+	"message" text DEFAULT '' NOT NULL,
+	"trade_date" date NOT NULL,
+	"created_at" timestamp with time zone NOT NULL,
+	"updated_at" timestamp with time zone NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "positions" (
+	"account_no" text DEFAULT '' NOT NULL,
+	"code" varchar(12) NOT NULL,
+	"name" text DEFAULT '' NOT NULL,
+	"quantity" integer NOT NULL,
+	"average_price" integer DEFAULT 0 NOT NULL,
+	"purchase_amount" bigint DEFAULT 0 NOT NULL,
+	"current_price" integer DEFAULT 0 NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "positions_account_no_code_pk" PRIMARY KEY("account_no","code")
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "strategy_signals" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"code" varchar(12) NOT NULL,
+	"name" text DEFAULT '' NOT NULL,
+	"side" varchar(4) NOT NULL,
+	"strategy" text,
+	"reason" text DEFAULT '' NOT NULL,
+	"price" integer DEFAULT 0 NOT NULL,
+	"message" text DEFAULT '' NOT NULL,
+	"trade_date" date NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "users" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"username" text NOT NULL,
+	"password" text NOT NULL,
+	CONSTRAINT "users_username_unique" UNIQUE("username")
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "fills_order_cumulative_idx" ON "fills" USING btree ("order_id","cumulative_quantity");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "fills_trade_date_idx" ON "fills" USING btree ("trade_date");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "orders_trade_date_idx" ON "orders" USING btree ("trade_date");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "orders_order_number_idx" ON "orders" USING btree ("order_number");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "strategy_signals_trade_date_idx" ON "strategy_signals" USING btree ("trade_date");
\ No newline at end of file
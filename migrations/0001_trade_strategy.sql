@@ -0,0 +1,2 @@
+ALTER TABLE "fills" ADD COLUMN "strategy" text;--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "strategy" text;
\ No newline at end of file
@@ -0,0 +1,19 @@
+CREATE TABLE "license_keys" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"key_hash" varchar(64) NOT NULL,
+	"key_prefix" varchar(16) NOT NULL,
+	"issued_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"expires_at" timestamp with time zone NOT NULL,
+	"valid_days" integer NOT NULL,
+	"issued_by" text DEFAULT 'admin' NOT NULL,
+	"description" text,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"used_count" integer DEFAULT 0 NOT NULL,
+	"last_used_at" timestamp with time zone,
+	"max_sessions" integer DEFAULT 1 NOT NULL,
+	"appkey_hash" varchar(64),
+	"device_hash" varchar(64),
+	"bound_at" timestamp with time zone
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX "license_keys_key_hash_idx" ON "license_keys" USING btree ("key_hash");
\ No newline at end of file
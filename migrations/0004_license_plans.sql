@@ -0,0 +1,12 @@
+CREATE TABLE "license_key_events" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"key_id" varchar NOT NULL,
+	"key_prefix" varchar(16) NOT NULL,
+	"type" varchar(30) NOT NULL,
+	"actor" text DEFAULT '' NOT NULL,
+	"detail" text DEFAULT '' NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "license_keys" ADD COLUMN "plan" varchar(20) DEFAULT 'pro' NOT NULL;--> statement-breakpoint
+CREATE INDEX "license_key_events_key_id_idx" ON "license_key_events" USING btree ("key_id");
\ No newline at end of file
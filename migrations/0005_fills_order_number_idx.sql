@@ -0,0 +1,4 @@
+DROP INDEX "fills_order_cumulative_idx";--> statement-breakpoint
+-- 서버 재시작 후 다시 추적한 주문으로 중복 기록된 체결 정리 (먼저 기록된 행만 남김)
+DELETE FROM "fills" AS "duplicate" USING "fills" AS "kept" WHERE "duplicate"."id" > "kept"."id" AND "duplicate"."account_no" = "kept"."account_no" AND "duplicate"."order_number" = "kept"."order_number" AND "duplicate"."trade_date" = "kept"."trade_date" AND "duplicate"."cumulative_quantity" = "kept"."cumulative_quantity";--> statement-breakpoint
+CREATE UNIQUE INDEX "fills_order_number_cumulative_idx" ON "fills" USING btree ("account_no","order_number","trade_date","cumulative_quantity");
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "fills" ADD COLUMN "commission" bigint;--> statement-breakpoint
+ALTER TABLE "fills" ADD COLUMN "tax" bigint;
\ No newline at end of file
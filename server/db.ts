@@ -0,0 +1,51 @@
+/**
+ * 데이터베이스 연결
+ * DATABASE_URL이 있으면 PostgreSQL, 없으면 로컬 개발용 PGlite(.local/pglite)를 사용
+ * DATABASE_URL=memory:// 이면 메모리 PGlite (테스트용, 종료 시 삭제)
+ * 첫 연결 시 migrations 폴더의 마이그레이션을 적용
+ */
+import path from 'path'
+import { fileURLToPath } from 'url'
+import pg from 'pg'
+import { PGlite } from '@electric-sql/pglite'
+import { drizzle as drizzlePg } from 'drizzle-orm/node-postgres'
+import { migrate as migratePg } from 'drizzle-orm/node-postgres/migrator'
+import { drizzle as drizzlePglite } from 'drizzle-orm/pglite'
+import { migrate as migratePglite } from 'drizzle-orm/pglite/migrator'
+import type { PgDatabase, PgQueryResultHKT } from 'drizzle-orm/pg-core'
+import * as schema from '../shared/schema'
+
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>
+
+const MIGRATIONS_FOLDER = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../migrations')
+const PGLITE_DATA_DIR = process.env.PGLITE_DATA_DIR || path.join(process.cwd(), '.local', 'pglite')
+
+let dbPromise: Promise<Database> | null = null
+
+/**
+ * DB 인스턴스 조회 (최초 호출 시 연결 및 마이그레이션)
+ */
+export function getDb(): Promise<Database> {
+  if (!dbPromise) {
+    dbPromise = connect()
+  }
+  return dbPromise
+}
+
+async function connect(): Promise<Database> {
+  const url = process.env.DATABASE_URL || ''
+
+  if (url && !url.startsWith('memory://')) {
+    const pool = new pg.Pool({ connectionString: url })
+    const db = drizzlePg(pool, { schema })
+    await migratePg(db, { migrationsFolder: MIGRATIONS_FOLDER })
+    console.log('[DB] PostgreSQL 연결')
+    return db as unknown as Database
+  }
+
+  const client = url ? new PGlite() : new PGlite(PGLITE_DATA_DIR)
+  const db = drizzlePglite(client, { schema })
+  await migratePglite(db, { migrationsFolder: MIGRATIONS_FOLDER })
+  console.log(`[DB] PGlite 연결 (${url ? '메모리' : PGLITE_DATA_DIR})`)
+  return db as unknown as Database
+}
@@ -11,6 +11,12 @@ import path from 'path'
 import { fileURLToPath } from 'url'
 import routes from './routes/index'
 import { KiwoomService } from './services/kiwoomService'
+import { TradingEngine } from './services/tradingEngine'
+import { OrderManager } from './services/orderManager'
+import { CircuitBreaker } from './services/circuitBreaker'
+import { OrderBookService } from './services/orderBookService'
+import { ClientSocketHub } from './services/clientSocketHub'
+import { getTopicCode, orderBookTopic } from '../shared/wsProtocol'
 
 // 환경 변수 로드
 dotenv.config()
@@ -21,6 +27,25 @@ const __dirname = path.dirname(__filename)
 const app = express()
 const PORT = process.env.PORT || 3000
 
+/**
+ * trust proxy 설정 (TRUST_PROXY 환경 변수)
+ * 숫자는 앞단 프록시 수, true/false, 그 외는 신뢰할 프록시 주소 목록 (예: loopback, 10.0.0.0/8)
+ * 설정하지 않으면 Railway에서는 1(Railway 프록시 하나), 그 외에는 false(소켓 주소를 클라이언트 IP로 사용)
+ */
+function getTrustProxy(value: string | undefined): boolean | number | string {
+  const setting = (value || '').trim()
+  if (!setting) {
+    return process.env.RAILWAY_ENVIRONMENT ? 1 : false
+  }
+  if (setting === 'true' || setting === 'false') {
+    return setting === 'true'
+  }
+  return /^\d+$/.test(setting) ? Number(setting) : setting
+}
+
+// 로그인 잠금은 req.ip 기준이므로 프록시 뒤에서는 X-Forwarded-For의 실제 클라이언트 IP를 사용해야 함
+app.set('trust proxy', getTrustProxy(process.env.TRUST_PROXY))
+
 // 미들웨어 설정
 app.use(cors({
   origin: '*',
@@ -58,50 +83,58 @@ const server = createServer(app)
 // WebSocket 서버 생성
 const wss = new WebSocketServer({ server })
 
-// WebSocket 연결 관리
-const connectedClients = new Set<any>()
+// 브라우저 WebSocket: 클라이언트마다 구독한 토픽의 메시지만 전송 (shared/wsProtocol.ts)
+const hub = ClientSocketHub.getInstance()
+hub.attach(wss)
 
-wss.on('connection', (ws) => {
-  connectedClients.add(ws)
-  console.log('WebSocket 클라이언트 연결됨')
+// 호가 토픽을 구독하면 현재 호가를 바로 전송 (이후에는 변경될 때마다 전송)
+const orderBookService = OrderBookService.getInstance()
+hub.onSubscribe((topic, send) => {
+  const code = topic.startsWith('orderbook:') ? getTopicCode(topic) : null
+  if (!code) {
+    return
+  }
+  orderBookService.getOrderBook(code)
+    .then((book) => send({ type: 'orderbook', topic: orderBookTopic(code), data: book }))
+    .catch((error) => console.error(`[호가] ${code} 조회 실패:`, error.message))
+})
 
-  ws.on('message', (message) => {
-    try {
-      const data = JSON.parse(message.toString())
-      ws.send(JSON.stringify({ message: 'received', data }))
-    } catch (error) {
-      console.error('WebSocket 메시지 처리 오류:', error)
-    }
-  })
+// 키움증권 WebSocket 실시간 시세를 종목 토픽으로 전송
+const kiwoomService = KiwoomService.getInstance()
+kiwoomService.onRealTimeData((data) => hub.publishRealTime(data))
 
-  ws.on('close', () => {
-    connectedClients.delete(ws)
-    console.log('WebSocket 클라이언트 연결 해제됨')
-  })
+// 키움증권 WebSocket 연결 상태(연결/끊김/재연결 예약)
+kiwoomService.onWebSocketStateChange((state) => {
+  hub.publish({ type: 'connection', topic: 'engine-status', data: state })
+})
 
-  ws.on('error', (error) => {
-    console.error('WebSocket 오류:', error)
-    connectedClients.delete(ws)
-  })
+// 계좌 실시간 주문체결/잔고 이벤트
+kiwoomService.onOrderExecution((event) => {
+  hub.publish({ type: 'execution', topic: 'orders', data: event })
+})
+kiwoomService.onBalanceChange((event) => {
+  hub.publish({ type: 'balance', topic: 'positions', data: event })
 })
 
-// 브로드캐스트 함수
-export const broadcastMessage = (message: any) => {
-  const data = JSON.stringify(message)
-  connectedClients.forEach((client) => {
-    if (client.readyState === 1) {
-      client.send(data)
-    }
-  })
-}
+// 호가 변경
+orderBookService.onUpdate((book) => {
+  hub.publish({ type: 'orderbook', topic: orderBookTopic(book.code), data: book })
+})
 
-// 키움증권 WebSocket 실시간 데이터를 클라이언트에 브로드캐스트
-const kiwoomService = KiwoomService.getInstance()
-kiwoomService.onRealTimeData((data) => {
-  broadcastMessage({
-    type: 'realtime',
-    data: data,
-  })
+// 자동매매 엔진 상태/로그
+const tradingEngine = TradingEngine.getInstance()
+tradingEngine.onEvent((event) => {
+  hub.publish({ type: 'engine', topic: event.type === 'log' ? 'logs' : 'engine-status', data: event })
+})
+
+// 주문 상태 변경(접수/체결/취소/거부)
+OrderManager.getInstance().onOrderUpdate((order) => {
+  hub.publish({ type: 'order', topic: 'orders', data: order })
+})
+
+// 서킷 브레이커 상태(매매 정지/해제)
+CircuitBreaker.getInstance().onChange((state) => {
+  hub.publish({ type: 'breaker', topic: 'engine-status', data: state })
 })
 
 // 서버 시작 (Railway는 0.0.0.0 바인딩 필요)
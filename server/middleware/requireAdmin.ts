@@ -0,0 +1,45 @@
+/**
+ * 관리자 인증 미들웨어
+ * Authorization: Bearer <토큰>을 검증하고 요구 권한이 없으면 401/403 응답
+ * 확인한 사용자는 res.locals.user에 저장
+ */
+import { Request, Response, NextFunction } from 'express'
+import { AdminAuthService, UserRole } from '../services/adminAuthService'
+import { getBearerToken } from '../utils/token'
+
+const adminAuthService = AdminAuthService.getInstance()
+
+export function requireRole(role: UserRole) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const token = getBearerToken(req.headers.authorization)
+      const user = token ? await adminAuthService.authenticate(token) : null
+      if (!user) {
+        return res.status(401).json({
+          success: false,
+          code: 'unauthorized',
+          message: '로그인이 필요합니다'
+        })
+      }
+      if (user.role !== role) {
+        return res.status(403).json({
+          success: false,
+          code: 'forbidden',
+          message: '권한이 없습니다'
+        })
+      }
+
+      res.locals.user = user
+      next()
+    } catch (error: any) {
+      console.error('관리자 인증 오류:', error)
+      res.status(500).json({
+        success: false,
+        message: '인증 확인 실패',
+        detail: error.message
+      })
+    }
+  }
+}
+
+export const requireAdmin = requireRole('admin')
@@ -0,0 +1,138 @@
+/**
+ * 라이선스 세션 미들웨어
+ * X-License-Token 헤더의 세션 토큰(POST /api/auth/validate-key에서 발급)을 확인하고
+ * 없거나 만료되었으면 401, 키가 비활성화/만료/삭제되었으면 403 응답 (키가 있으면 남은 기간 포함)
+ * 확인한 세션은 res.locals.license, 키 정보(플랜 포함)는 res.locals.licenseKey에 저장하고, 남은 기간과 플랜은 응답 헤더로 알림
+ */
+import { Request, Response, NextFunction } from 'express'
+import keyService, { LicenseKeyInfo, LicenseErrorCode } from '../services/keyService'
+import { KiwoomService } from '../services/kiwoomService'
+import { AdminAuthService } from '../services/adminAuthService'
+import { checkPlan, PlanUsage } from '../services/licensePlans'
+import { getBearerToken } from '../utils/token'
+
+export const LICENSE_TOKEN_HEADER = 'x-license-token'
+
+// 세션은 유효하지만 키가 만료/비활성화된 경우 (긴급 정지만 허용)
+const LAPSED_CODES: LicenseErrorCode[] = ['expired', 'inactive']
+
+type SessionResult = Awaited<ReturnType<typeof keyService.verifySession>>
+
+function sendLicenseError(res: Response, result: SessionResult) {
+  return res.status(result.code === 'session_required' ? 401 : 403).json({
+    success: false,
+    code: result.code,
+    message: result.message,
+    license: result.licenseKey ? {
+      expiresAt: result.licenseKey.expiresAt,
+      remainingDays: result.remainingDays,
+      isActive: result.licenseKey.isActive
+    } : null
+  })
+}
+
+export async function requireLicense(req: Request, res: Response, next: NextFunction) {
+  try {
+    const result = await keyService.verifySession(req.header(LICENSE_TOKEN_HEADER))
+    if (!result.valid) {
+      return sendLicenseError(res, result)
+    }
+
+    res.setHeader('X-License-Expires-At', result.licenseKey!.expiresAt)
+    res.setHeader('X-License-Remaining-Days', String(result.remainingDays))
+    res.setHeader('X-License-Plan', result.licenseKey!.plan)
+    res.locals.license = result.session
+    res.locals.licenseKey = result.licenseKey
+    next()
+  } catch (error: any) {
+    console.error('라이선스 확인 오류:', error)
+    res.status(500).json({
+      success: false,
+      message: '라이선스 확인 실패',
+      detail: error.message
+    })
+  }
+}
+
+/**
+ * 긴급 정지용 인증 (자동매매 중지, 매매 정지, 킬 스위치)
+ * 유효한 라이선스 세션 또는 관리자 토큰(Authorization: Bearer)이 있어야 하고, 없으면 401/403
+ * 세션은 유효하지만 키가 만료/비활성화되었으면 res.locals.emergencyOnly = true로 표시하고 통과
+ * (라우트에서 주문이 나가지 않는 동작만 허용)
+ */
+export async function requireEmergencyAccess(req: Request, res: Response, next: NextFunction) {
+  try {
+    const adminToken = getBearerToken(req.headers.authorization)
+    const user = adminToken ? await AdminAuthService.getInstance().authenticate(adminToken) : null
+    if (user && user.role === 'admin') {
+      res.locals.user = user
+      return next()
+    }
+
+    const result = await keyService.verifySession(req.header(LICENSE_TOKEN_HEADER))
+    if (result.valid) {
+      res.locals.license = result.session
+      res.locals.licenseKey = result.licenseKey
+      return next()
+    }
+    if (result.code && LAPSED_CODES.includes(result.code)) {
+      res.locals.emergencyOnly = true
+      return next()
+    }
+    return sendLicenseError(res, result)
+  } catch (error: any) {
+    console.error('긴급 정지 인증 오류:', error)
+    res.status(500).json({
+      success: false,
+      message: '라이선스 확인 실패',
+      detail: error.message
+    })
+  }
+}
+
+/**
+ * 일부 요청은 세션 없이 허용하는 requireLicense (예: 'POST /halt')
+ * 경로는 라우터 기준 (router.use('/trading', ...)이면 '/halt')
+ * 제외한 요청도 라우트에서 requireEmergencyAccess 등으로 따로 인증해야 함
+ */
+export function requireLicenseExcept(...exempt: string[]) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (exempt.includes(`${req.method} ${req.path}`)) {
+      return next()
+    }
+    return requireLicense(req, res, next)
+  }
+}
+
+/**
+ * 라이선스 플랜 제한 확인 (requireLicense 뒤에서 사용)
+ * 제한되면 403 응답 본문, 허용되면 null
+ */
+export function getPlanRestriction(res: Response, usage: PlanUsage) {
+  const licenseKey: LicenseKeyInfo = res.locals.licenseKey
+  const result = checkPlan(licenseKey.plan, usage)
+  if (result.allowed) {
+    return null
+  }
+  return {
+    success: false,
+    code: 'plan_restricted',
+    message: result.message,
+    plan: licenseKey.plan
+  }
+}
+
+/**
+ * 실전투자 서버에 연결되어 있으면 주문/취소는 실전투자 플랜만 허용 (조회는 허용)
+ */
+export function requireRealTradingPlan(req: Request, res: Response, next: NextFunction) {
+  const kiwoomService = KiwoomService.getInstance()
+  if (req.method === 'GET' || !kiwoomService.isConnected() || kiwoomService.isMockApi()) {
+    return next()
+  }
+  const restriction = getPlanRestriction(res, { realTrading: true })
+  if (restriction) {
+    return res.status(403).json(restriction)
+  }
+  next()
+}
@@ -0,0 +1,29 @@
+/**
+ * 로컬 키움증권 모의 브로커 실행
+ * npm run mock:kiwoom 후 연결 host를 http://127.0.0.1:<포트>로 지정하거나
+ * 앱 서버를 KIWOOM_MOCK_HOST=http://127.0.0.1:<포트> 로 실행
+ */
+import dotenv from 'dotenv'
+import { KiwoomMockServer } from './kiwoomMockServer'
+
+// 환경 변수 로드
+dotenv.config()
+
+const PORT = parseInt(process.env.KIWOOM_MOCK_PORT || '10000')
+
+const mockServer = new KiwoomMockServer({
+  seed: process.env.KIWOOM_MOCK_SEED,
+  tickInterval: parseInt(process.env.KIWOOM_MOCK_TICK_INTERVAL || '1000'),
+})
+
+mockServer.start(PORT).catch((error) => {
+  console.error('[모의 브로커] 서버 시작 실패:', error)
+  process.exit(1)
+})
+
+const shutdown = () => {
+  mockServer.stop().finally(() => process.exit(0))
+}
+
+process.on('SIGINT', shutdown)
+process.on('SIGTERM', shutdown)
@@ -0,0 +1,909 @@
+/**
+ * 로컬 키움증권 모의 브로커 서버
+ * 키움 REST API(/oauth2/token, /api/dostk/*)와 WebSocket(LOGIN/REG/REMOVE/REAL/PING) 프로토콜을
+ * 흉내 내어 KiwoomService / KiwoomWebSocketService를 네트워크 없이 연결할 수 있게 함
+ */
+import express, { Express, Request, Response } from 'express'
+import { createServer, Server } from 'http'
+import { AddressInfo } from 'net'
+import { randomBytes } from 'crypto'
+import WebSocket, { WebSocketServer } from 'ws'
+import {
+  MockMarket,
+  MockMarketOptions,
+  MockOrderError,
+  MockQuote,
+  MockExecution,
+  MockOrder,
+  MockCandle,
+} from './mockMarket'
+
+export interface KiwoomMockServerOptions extends MockMarketOptions {
+  appkey?: string // 지정 시 해당 appkey/secretkey만 토큰 발급
+  secretkey?: string
+  accountNo?: string
+  tickInterval?: number // 시세 틱 주기 (ms), 0이면 자동 진행하지 않음 (tick() 수동 호출)
+  pingInterval?: number // WebSocket PING 주기 (ms), 0이면 전송하지 않음
+  tokenTtl?: number // 토큰 유효 시간 (ms)
+}
+
+interface MockSocketClient {
+  loggedIn: boolean
+  // 그룹번호 -> 실시간 항목 타입 -> 종목코드 집합
+  groups: Map<string, Map<string, Set<string>>>
+}
+
+interface RealTimeEntry {
+  type: string
+  name: string
+  item: string
+  values: Record<string, string>
+}
+
+type TrHandler = (body: any, nextKey: string) => any
+
+// 연속조회 응답 (nextKey가 있으면 cont-yn: Y, next-key 헤더로 다음 페이지를 알림)
+class MockPage {
+  constructor(readonly data: any, readonly nextKey: string) {}
+}
+
+const SUCCESS_MESSAGE = '정상적으로 처리되었습니다'
+
+// 차트 연속조회 (페이지당 봉 개수, 최대 페이지 수)
+const CHART_PAGE_SIZE = { tick: 200, min: 200, day: 120 }
+const CHART_MAX_PAGES = 10
+
+// 순위정보 TR별 응답 배열 필드명
+const RANKING_LIST_KEYS: { [trId: string]: string } = {
+  ka10020: 'bid_req_upper',
+  ka10023: 'trde_qty_sdnin',
+  ka10027: 'pred_pre_flu_rt_upper',
+  ka10030: 'tdy_trde_qty_upper',
+  ka10031: 'pred_trde_qty_upper',
+  ka10032: 'trde_prica_upper',
+}
+
+function pad(value: number, length: number = 2): string {
+  return String(value).padStart(length, '0')
+}
+
+function formatDate(date: Date): string {
+  return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}`
+}
+
+function formatTime(date: Date): string {
+  return `${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`
+}
+
+/**
+ * 전일 대비 부호를 붙인 가격 문자열 (키움 응답 형식: +71500, -70900)
+ */
+function signed(value: number, reference: number): string {
+  if (value > reference) return `+${value}`
+  if (value < reference) return `-${value}`
+  return String(value)
+}
+
+function signedDiff(value: number): string {
+  return value > 0 ? `+${value}` : String(value)
+}
+
+/**
+ * 전일대비기호 (2: 상승, 3: 보합, 5: 하락)
+ */
+function changeSign(value: number, reference: number): string {
+  if (value > reference) return '2'
+  if (value < reference) return '5'
+  return '3'
+}
+
+function changeRate(quote: MockQuote): number {
+  return ((quote.price - quote.prevClose) / quote.prevClose) * 100
+}
+
+export class KiwoomMockServer {
+  readonly market: MockMarket
+  private readonly options: KiwoomMockServerOptions
+  private readonly accountNo: string
+  private readonly app: Express
+  private server: Server | null = null
+  private wss: WebSocketServer | null = null
+  private clients: Map<WebSocket, MockSocketClient> = new Map()
+  private tokens: Map<string, number> = new Map() // 토큰 -> 만료 시각
+  private tickTimer: NodeJS.Timeout | null = null
+  private pingTimer: NodeJS.Timeout | null = null
+  private host: string = ''
+  private readonly handlers: { [endpoint: string]: { [trId: string]: TrHandler } }
+
+  constructor(options: KiwoomMockServerOptions = {}) {
+    this.options = options
+    this.accountNo = options.accountNo || '5069515411'
+    this.market = new MockMarket(options)
+    this.market.onExecution((execution) => this.broadcastExecution(execution))
+
+    this.handlers = {
+      '/api/dostk/ordr': {
+        kt10000: (body) => this.handleOrder('buy', body),
+        kt10001: (body) => this.handleOrder('sell', body),
+        kt10002: (body) => this.handleModify(body),
+        kt10003: (body) => this.handleCancel(body),
+      },
+      '/api/dostk/acnt': {
+        kt00001: (body) => this.handleDeposit(body),
+        ka01690: (body) => this.handleDailyBalance(body),
+        ka10075: () => this.handleOpenOrders(),
+        ka10076: () => this.handleExecutions(),
+      },
+      '/api/dostk/chart': {
+        ka10079: (body, nextKey) => this.handleChart('tick', body, nextKey),
+        ka10080: (body, nextKey) => this.handleChart('min', body, nextKey),
+        ka10081: (body, nextKey) => this.handleChart('day', body, nextKey),
+      },
+      '/api/dostk/mrkcond': {
+        ka10004: (body) => this.handleOrderBook(body),
+      },
+      '/api/dostk/rkinfo': {},
+    }
+
+    this.app = this.createApp()
+  }
+
+  /**
+   * 서버 시작
+   * @param port 포트 (0이면 임의 포트)
+   * @returns KiwoomService.connect에 넘길 host (예: http://127.0.0.1:10000)
+   */
+  async start(port: number = 10000): Promise<string> {
+    if (this.server) {
+      return this.host
+    }
+
+    const server = createServer(this.app)
+    this.wss = new WebSocketServer({ server, path: '/api/dostk/websocket' })
+    this.wss.on('connection', (ws) => this.handleConnection(ws))
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject)
+      server.listen(port, '127.0.0.1', () => {
+        server.off('error', reject)
+        resolve()
+      })
+    })
+
+    this.server = server
+    this.host = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+
+    const tickInterval = this.options.tickInterval ?? 1000
+    if (tickInterval > 0) {
+      this.tickTimer = setInterval(() => this.tick(), tickInterval)
+    }
+
+    const pingInterval = this.options.pingInterval ?? 20000
+    if (pingInterval > 0) {
+      this.pingTimer = setInterval(() => this.broadcast({ trnm: 'PING' }), pingInterval)
+    }
+
+    console.log(`[모의 브로커] 서버 시작: ${this.host} (WebSocket: ${this.getSocketUrl()})`)
+    return this.host
+  }
+
+  /**
+   * 서버 종료 (타이머, WebSocket 연결 정리)
+   */
+  async stop(): Promise<void> {
+    if (this.tickTimer) {
+      clearInterval(this.tickTimer)
+      this.tickTimer = null
+    }
+    if (this.pingTimer) {
+      clearInterval(this.pingTimer)
+      this.pingTimer = null
+    }
+
+    this.clients.forEach((_client, ws) => ws.terminate())
+    this.clients.clear()
+
+    if (this.wss) {
+      await new Promise<void>(resolve => this.wss!.close(() => resolve()))
+      this.wss = null
+    }
+
+    if (this.server) {
+      await new Promise<void>(resolve => this.server!.close(() => resolve()))
+      this.server = null
+    }
+
+    console.log('[모의 브로커] 서버 종료')
+  }
+
+  getHost(): string {
+    return this.host
+  }
+
+  getSocketUrl(): string {
+    return `${this.host.replace(/^http/, 'ws')}/api/dostk/websocket`
+  }
+
+  /**
+   * 시세 한 틱 진행 후 실시간 시세 전송
+   * tickInterval이 0인 경우 테스트에서 직접 호출
+   */
+  tick(): void {
+    const quotes = this.market.tick()
+
+    this.clients.forEach((client, ws) => {
+      if (!client.loggedIn) {
+        return
+      }
+
+      const entries: RealTimeEntry[] = []
+      for (const quote of quotes) {
+        // 앱은 '00' 타입으로 시세를 등록하므로 '00'/'0B' 모두 주식체결로 응답
+        for (const type of ['00', '0B']) {
+          if (this.isSubscribed(client, type, quote.code)) {
+            entries.push({
+              type,
+              name: '주식체결',
+              item: quote.code,
+              values: this.buildTradeValues(quote),
+            })
+          }
+        }
+      }
+
+      for (const quote of quotes) {
+        if (this.isSubscribed(client, '0D', quote.code)) {
+          entries.push({
+            type: '0D',
+            name: '주식호가잔량',
+            item: quote.code,
+            values: this.buildOrderBookValues(quote),
+          })
+        }
+      }
+
+      if (entries.length > 0) {
+        this.send(ws, { trnm: 'REAL', data: entries })
+      }
+    })
+  }
+
+  private createApp(): Express {
+    const app = express()
+    app.use(express.json())
+
+    /**
+     * 접근토큰 발급
+     * POST /oauth2/token
+     */
+    app.post('/oauth2/token', (req: Request, res: Response) => {
+      const { grant_type, appkey, secretkey } = req.body || {}
+
+      if (grant_type !== 'client_credentials' || !appkey || !secretkey) {
+        return res.json({ return_code: 2, return_msg: 'grant_type, appkey, secretkey를 확인해주세요' })
+      }
+
+      if ((this.options.appkey && appkey !== this.options.appkey) ||
+          (this.options.secretkey && secretkey !== this.options.secretkey)) {
+        return res.json({ return_code: 3, return_msg: '앱키 또는 시크릿키가 유효하지 않습니다' })
+      }
+
+      const token = randomBytes(24).toString('hex')
+      const expiresAt = new Date(Date.now() + (this.options.tokenTtl ?? 24 * 60 * 60 * 1000))
+      this.tokens.set(token, expiresAt.getTime())
+
+      res.json({
+        expires_dt: `${formatDate(expiresAt)}${formatTime(expiresAt)}`,
+        token_type: 'bearer',
+        token,
+        return_code: 0,
+        return_msg: SUCCESS_MESSAGE,
+      })
+    })
+
+    /**
+     * 접근토큰 폐기
+     * POST /oauth2/revoke
+     */
+    app.post('/oauth2/revoke', (req: Request, res: Response) => {
+      const { token } = req.body || {}
+      this.tokens.delete(token)
+      res.json({ return_code: 0, return_msg: SUCCESS_MESSAGE })
+    })
+
+    /**
+     * TR 요청 (api-id 헤더로 TR 구분)
+     * POST /api/dostk/ordr | acnt | chart | rkinfo
+     */
+    app.post('/api/dostk/:category', (req: Request, res: Response) => {
+      const endpoint = `/api/dostk/${req.params.category}`
+      const trId = String(req.header('api-id') || '')
+
+      if (!this.isAuthorized(req)) {
+        return res.status(401).json({ return_code: 3, return_msg: '접근토큰이 유효하지 않습니다' })
+      }
+
+      const endpointHandlers = this.handlers[endpoint]
+      const handler = endpoint === '/api/dostk/rkinfo' && /^ka10\d{3}$/.test(trId)
+        ? (body: any) => this.handleRanking(trId, body)
+        : endpointHandlers?.[trId]
+
+      if (!handler) {
+        return res.json({ return_code: 2, return_msg: `[1504:해당 URI에서는 지원하는 API ID가 아닙니다] ${trId}` })
+      }
+
+      try {
+        // 연속조회는 차트 TR만 지원 (그 외 TR은 항상 한 페이지)
+        const nextKey = req.header('cont-yn') === 'Y' ? String(req.header('next-key') || '') : ''
+        const result = handler(req.body || {}, nextKey)
+        const page = result instanceof MockPage ? result : new MockPage(result, '')
+        res.setHeader('api-id', trId)
+        res.setHeader('cont-yn', page.nextKey ? 'Y' : 'N')
+        res.setHeader('next-key', page.nextKey)
+        res.json({
+          ...page.data,
+          return_code: 0,
+          return_msg: SUCCESS_MESSAGE,
+        })
+      } catch (error: any) {
+        if (error instanceof MockOrderError) {
+          return res.json({ return_code: error.returnCode, return_msg: error.message })
+        }
+        console.error(`[모의 브로커] ${trId} 처리 오류:`, error)
+        res.status(500).json({ return_code: 1, return_msg: error.message })
+      }
+    })
+
+    return app
+  }
+
+  private isAuthorized(req: Request): boolean {
+    const authorization = req.header('authorization') || ''
+    const token = authorization.replace(/^Bearer\s+/i, '')
+    return this.isValidToken(token)
+  }
+
+  private isValidToken(token: string): boolean {
+    const expiresAt = this.tokens.get(token)
+    return expiresAt !== undefined && expiresAt > Date.now()
+  }
+
+  /**
+   * 매수/매도 주문 (kt10000 / kt10001)
+   * trde_tp: 0=보통(지정가), 3=시장가
+   */
+  private handleOrder(side: 'buy' | 'sell', body: any): any {
+    const code = String(body.stk_cd || '').trim()
+    const quantity = parseInt(body.ord_qty || '0')
+    const price = body.trde_tp === '3' ? 0 : parseInt(body.ord_uv || '0')
+
+    if (body.trde_tp !== '3' && !price) {
+      throw new MockOrderError('RC4001:지정가 주문은 주문단가가 필요합니다')
+    }
+
+    const order = this.market.placeOrder({ code, side, quantity, price })
+    return {
+      ord_no: order.orderNo,
+      ord_tm: formatTime(order.createdAt),
+      dmst_stex_tp: body.dmst_stex_tp || 'KRX',
+    }
+  }
+
+  /**
+   * 정정 주문 (kt10002)
+   */
+  private handleModify(body: any): any {
+    if (!body.orig_ord_no) {
+      throw new MockOrderError('RC4100:원주문번호가 필요합니다')
+    }
+    const order = this.market.modifyOrder(
+      String(body.orig_ord_no),
+      parseInt(body.mdfy_qty || '0'),
+      parseInt(body.mdfy_uv || '0')
+    )
+    return {
+      ord_no: order.orderNo,
+      base_orig_ord_no: order.originalOrderNo,
+      mdfy_qty: String(order.quantity),
+      dmst_stex_tp: body.dmst_stex_tp || 'KRX',
+    }
+  }
+
+  /**
+   * 취소 주문 (kt10003), cncl_qty 0이면 잔량 전부 취소
+   */
+  private handleCancel(body: any): any {
+    if (!body.orig_ord_no) {
+      throw new MockOrderError('RC4100:원주문번호가 필요합니다')
+    }
+    const result = this.market.cancelOrder(String(body.orig_ord_no), parseInt(body.cncl_qty || '0'))
+    return {
+      ord_no: result.cancelOrderNo,
+      base_orig_ord_no: result.order.orderNo,
+      cncl_qty: String(result.cancelledQuantity),
+      dmst_stex_tp: body.dmst_stex_tp || 'KRX',
+    }
+  }
+
+  /**
+   * 예수금 조회 (kt00001)
+   * stk_entr_prst에 보유 종목을 담아 KiwoomService.getBalance가 그대로 파싱할 수 있게 함
+   */
+  private handleDeposit(_body: any): any {
+    const deposit = this.market.getDeposit()
+    const orderable = this.market.getOrderableAmount()
+
+    return {
+      entr: pad(deposit, 15),
+      pymn_alow_amt: pad(orderable, 15),
+      ord_alow_amt: pad(orderable, 15),
+      stk_entr_prst: this.market.getHoldings().map((holding) => {
+        const quote = this.market.getQuote(holding.code)!
+        const profit = (quote.price - holding.avgPrice) * holding.quantity
+        return {
+          stk_cd: holding.code,
+          stk_nm: holding.name,
+          hldg_qty: String(holding.quantity),
+          pchs_avg_pric: String(holding.avgPrice),
+          cur_prc: String(quote.price),
+          evlu_pfls_amt: String(profit),
+          evlu_pfls_rt: (holding.avgPrice > 0 ? (quote.price - holding.avgPrice) / holding.avgPrice * 100 : 0).toFixed(2),
+        }
+      }),
+    }
+  }
+
+  /**
+   * 일별잔고수익률 (ka01690)
+   */
+  private handleDailyBalance(body: any): any {
+    const holdings = this.market.getHoldings()
+    let totalBuy = 0
+    let totalEval = 0
+
+    const dayBalRt = holdings.map((holding) => {
+      const quote = this.market.getQuote(holding.code)!
+      const buyAmount = holding.avgPrice * holding.quantity
+      const evalAmount = quote.price * holding.quantity
+      totalBuy += buyAmount
+      totalEval += evalAmount
+      return {
+        cur_prc: String(quote.price),
+        stk_cd: holding.code,
+        stk_nm: holding.name,
+        rmnd_qty: String(holding.quantity),
+        buy_uv: String(holding.avgPrice),
+        evlt_amt: String(evalAmount),
+        evltv_prft: String(evalAmount - buyAmount),
+        prft_rt: (buyAmount > 0 ? (evalAmount - buyAmount) / buyAmount * 100 : 0).toFixed(2),
+      }
+    })
+
+    const deposit = this.market.getDeposit()
+    return {
+      dt: body.qry_dt || formatDate(new Date()),
+      tot_buy_amt: String(totalBuy),
+      tot_evlt_amt: String(totalEval),
+      tot_evltv_prft: String(totalEval - totalBuy),
+      tot_prft_rt: (totalBuy > 0 ? (totalEval - totalBuy) / totalBuy * 100 : 0).toFixed(2),
+      dbst_bal: String(deposit),
+      day_stk_asst: String(deposit + totalEval),
+      buy_wght: (deposit + totalEval > 0 ? totalEval / (deposit + totalEval) * 100 : 0).toFixed(2),
+      day_bal_rt: dayBalRt,
+    }
+  }
+
+  /**
+   * 미체결 주문 (ka10075)
+   */
+  private handleOpenOrders(): any {
+    return {
+      oso: this.market.getOpenOrders().map(order => this.formatOrder(order)),
+    }
+  }
+
+  /**
+   * 체결 내역 (ka10076)
+   */
+  private handleExecutions(): any {
+    return {
+      cntr: this.market.getExecutions().map(execution => ({
+        ...this.formatOrder(execution.order),
+        cntr_no: execution.executionNo,
+        cntr_pric: String(execution.price),
+        cntr_qty: String(execution.quantity),
+        cntr_tm: formatTime(execution.time),
+      })),
+    }
+  }
+
+  private formatOrder(order: MockOrder): any {
+    return {
+      ord_no: order.orderNo,
+      orig_ord_no: order.originalOrderNo || '',
+      stk_cd: order.code,
+      stk_nm: order.name,
+      io_tp_nm: order.side === 'buy' ? '+매수' : '-매도',
+      trde_tp: order.type === 'limit' ? '보통' : '시장가',
+      ord_qty: String(order.quantity),
+      ord_pric: String(order.price),
+      oso_qty: String(this.market.getRemainingQuantity(order)),
+      cntr_tot_qty: String(order.filledQuantity),
+      cntr_pric: order.filledQuantity > 0 ? String(Math.round(order.filledAmount / order.filledQuantity)) : '0',
+      ord_stt: order.status === 'cancelled' ? '취소' : order.status === 'filled' ? '체결' : '접수',
+      tm: formatTime(order.createdAt),
+    }
+  }
+
+  /**
+   * 차트 조회 (ka10079 틱 / ka10080 분봉 / ka10081 일봉)
+   * next-key는 건너뛸 봉 개수, CHART_MAX_PAGES 페이지까지 연속조회 가능
+   */
+  private handleChart(period: 'tick' | 'min' | 'day', body: any, nextKey: string): MockPage {
+    const code = String(body.stk_cd || '').trim()
+    const quote = this.market.getQuote(code)
+    if (!quote) {
+      throw new MockOrderError(`존재하지 않는 종목코드입니다 (${code})`, 2)
+    }
+
+    const scope = parseInt(body.tic_scope || '1') || 1
+    const pageSize = CHART_PAGE_SIZE[period]
+    const offset = Math.max(0, parseInt(nextKey) || 0)
+    const candles = this.market.getCandles(code, period, scope, offset + pageSize).slice(offset)
+    const next = offset + pageSize < pageSize * CHART_MAX_PAGES ? String(offset + pageSize) : ''
+    const formatCandle = (candle: MockCandle) => ({
+      cur_prc: signed(candle.close, quote.prevClose),
+      trde_qty: String(candle.volume),
+      open_pric: signed(candle.open, quote.prevClose),
+      high_pric: signed(candle.high, quote.prevClose),
+      low_pric: signed(candle.low, quote.prevClose),
+      upd_stkpc_tp: body.upd_stkpc_tp || '1',
+    })
+
+    if (period === 'day') {
+      return new MockPage({
+        stk_cd: code,
+        stk_dt_pole_chart_qry: candles.map(candle => ({
+          ...formatCandle(candle),
+          dt: formatDate(candle.time),
+          trde_prica: String(Math.round(candle.close * candle.volume / 1_000_000)), // 백만원 단위
+        })),
+      }, next)
+    }
+
+    const listKey = period === 'tick' ? 'stk_tic_chart_qry' : 'stk_min_pole_chart_qry'
+    return new MockPage({
+      stk_cd: code,
+      [listKey]: candles.map(candle => ({
+        ...formatCandle(candle),
+        cntr_tm: `${formatDate(candle.time)}${formatTime(candle.time)}`,
+      })),
+    }, next)
+  }
+
+  /**
+   * 주식호가 (ka10004)
+   * 1단계: sel_fpr_bid/sel_fpr_req, 2~10단계: sel_2th_pre_bid/sel_2th_pre_req ...
+   */
+  private handleOrderBook(body: any): any {
+    const code = String(body.stk_cd || '').trim()
+    const quote = this.market.getQuote(code)
+    const book = this.market.getOrderBook(code)
+    if (!quote || !book) {
+      throw new MockOrderError(`존재하지 않는 종목코드입니다 (${code})`, 2)
+    }
+
+    const response: Record<string, string> = {
+      bid_req_base_tm: formatTime(book.time),
+      tot_sel_req: String(book.asks.reduce((sum, level) => sum + level.quantity, 0)),
+      tot_buy_req: String(book.bids.reduce((sum, level) => sum + level.quantity, 0)),
+    }
+    for (let i = 0; i < 10; i++) {
+      const prefix = i === 0 ? 'fpr' : `${i + 1}th_pre`
+      const ask = book.asks[i]
+      const bid = book.bids[i]
+      response[`sel_${prefix}_bid`] = ask ? signed(ask.price, quote.prevClose) : '0'
+      response[`sel_${prefix}_req`] = ask ? String(ask.quantity) : '0'
+      response[`buy_${prefix}_bid`] = bid ? signed(bid.price, quote.prevClose) : '0'
+      response[`buy_${prefix}_req`] = bid ? String(bid.quantity) : '0'
+    }
+    return response
+  }
+
+  /**
+   * 순위정보 (ka10020 ~ ka10035)
+   * mrkt_tp: 000=전체, 001=코스피, 101=코스닥
+   */
+  private handleRanking(trId: string, body: any): any {
+    let quotes = this.market.getQuotes()
+    if (body.mrkt_tp === '001') {
+      quotes = quotes.filter(quote => quote.market === 'kospi')
+    } else if (body.mrkt_tp === '101') {
+      quotes = quotes.filter(quote => quote.market === 'kosdaq')
+    }
+
+    const bidTotals = new Map<string, { buy: number; sell: number }>()
+    for (const quote of quotes) {
+      const book = this.market.getOrderBook(quote.code)!
+      bidTotals.set(quote.code, {
+        buy: book.bids.reduce((sum, level) => sum + level.quantity, 0),
+        sell: book.asks.reduce((sum, level) => sum + level.quantity, 0),
+      })
+    }
+
+    switch (trId) {
+      case 'ka10027':
+        // sort_tp: 1=상승률, 3=하락률
+        quotes.sort((a, b) => body.sort_tp === '3' ? changeRate(a) - changeRate(b) : changeRate(b) - changeRate(a))
+        break
+      case 'ka10032':
+        quotes.sort((a, b) => b.tradeValue - a.tradeValue)
+        break
+      case 'ka10020':
+      case 'ka10021':
+      case 'ka10022':
+        quotes.sort((a, b) => {
+          const aTotals = bidTotals.get(a.code)!
+          const bTotals = bidTotals.get(b.code)!
+          return (bTotals.buy - bTotals.sell) - (aTotals.buy - aTotals.sell)
+        })
+        break
+      default:
+        quotes.sort((a, b) => b.volume - a.volume)
+    }
+
+    return {
+      [RANKING_LIST_KEYS[trId] || 'rank_list']: quotes.map((quote) => {
+        const totals = bidTotals.get(quote.code)!
+        return {
+          stk_cd: quote.code,
+          stk_nm: quote.name,
+          cur_prc: signed(quote.price, quote.prevClose),
+          pred_pre_sig: changeSign(quote.price, quote.prevClose),
+          pred_pre: signedDiff(quote.price - quote.prevClose),
+          flu_rt: signedDiff(Number(changeRate(quote).toFixed(2))),
+          now_trde_qty: String(quote.volume),
+          trde_qty: String(quote.volume),
+          trde_prica: String(Math.round(quote.tradeValue / 1_000_000)), // 백만원 단위
+          tot_buy_req: String(totals.buy),
+          tot_sel_req: String(totals.sell),
+          netprps_req: String(totals.buy - totals.sell),
+        }
+      }),
+    }
+  }
+
+  private handleConnection(ws: WebSocket): void {
+    const client: MockSocketClient = { loggedIn: false, groups: new Map() }
+    this.clients.set(ws, client)
+
+    ws.on('message', (raw: WebSocket.Data) => {
+      let message: any
+      try {
+        message = JSON.parse(raw.toString())
+      } catch {
+        this.send(ws, { trnm: 'SYSTEM', return_code: 1, return_msg: '메시지 형식이 올바르지 않습니다' })
+        return
+      }
+
+      switch (message.trnm) {
+        case 'LOGIN':
+          if (!this.isValidToken(message.token)) {
+            this.send(ws, { trnm: 'LOGIN', return_code: 1, return_msg: '접근토큰이 유효하지 않습니다' })
+            ws.close()
+            return
+          }
+          client.loggedIn = true
+          this.send(ws, { trnm: 'LOGIN', return_code: 0, return_msg: SUCCESS_MESSAGE })
+          return
+
+        case 'PING':
+          // 서버가 보낸 PING에 대한 클라이언트 응답이므로 무시
+          return
+
+        case 'REG':
+        case 'REMOVE':
+          if (!client.loggedIn) {
+            this.send(ws, { trnm: message.trnm, return_code: 1, return_msg: '로그인 후 이용해주세요' })
+            return
+          }
+          this.updateSubscriptions(client, message)
+          this.send(ws, { trnm: message.trnm, return_code: 0, return_msg: SUCCESS_MESSAGE })
+          return
+
+        default:
+          this.send(ws, { trnm: message.trnm, return_code: 1, return_msg: `지원하지 않는 요청입니다 (${message.trnm})` })
+      }
+    })
+
+    ws.on('close', () => {
+      this.clients.delete(ws)
+    })
+  }
+
+  /**
+   * REG/REMOVE 처리
+   * REG의 refresh가 '0'이면 해당 그룹의 기존 등록을 지우고 새로 등록
+   */
+  private updateSubscriptions(client: MockSocketClient, message: any): void {
+    const grpNo = String(message.grp_no || '1')
+    if (message.trnm === 'REG' && message.refresh === '0') {
+      client.groups.delete(grpNo)
+    }
+
+    const group = client.groups.get(grpNo) || new Map<string, Set<string>>()
+    const entries: Array<{ item?: string[] | string; type?: string[] | string }> = message.data || []
+
+    for (const entry of entries) {
+      const items = Array.isArray(entry.item) ? entry.item : [entry.item || '']
+      const types = Array.isArray(entry.type) ? entry.type : [entry.type || '']
+
+      for (const type of types) {
+        const codes = group.get(type) || new Set<string>()
+        for (const item of items) {
+          if (message.trnm === 'REG') {
+            codes.add(item)
+          } else {
+            codes.delete(item)
+          }
+        }
+        group.set(type, codes)
+      }
+    }
+
+    client.groups.set(grpNo, group)
+  }
+
+  private isSubscribed(client: MockSocketClient, type: string, code: string): boolean {
+    for (const group of client.groups.values()) {
+      if (group.get(type)?.has(code)) {
+        return true
+      }
+    }
+    return false
+  }
+
+  private hasType(client: MockSocketClient, type: string): boolean {
+    for (const group of client.groups.values()) {
+      if ((group.get(type)?.size || 0) > 0) {
+        return true
+      }
+    }
+    return false
+  }
+
+  /**
+   * 주식체결 실시간 값
+   * 10: 현재가, 11: 전일대비, 12: 등락율, 13: 누적거래량, 14: 누적거래대금, 15: 거래량,
+   * 16: 시가, 17: 고가, 18: 저가, 20: 체결시간, 25: 전일대비기호, 251: 전일종가(모의 브로커 확장)
+   */
+  private buildTradeValues(quote: MockQuote): Record<string, string> {
+    return {
+      '10': signed(quote.price, quote.prevClose),
+      '11': signedDiff(quote.price - quote.prevClose),
+      '12': signedDiff(Number(changeRate(quote).toFixed(2))),
+      '13': String(quote.volume),
+      '14': String(Math.round(quote.tradeValue / 1_000_000)),
+      '15': `+${quote.lastQuantity}`,
+      '16': signed(quote.open, quote.prevClose),
+      '17': signed(quote.high, quote.prevClose),
+      '18': signed(quote.low, quote.prevClose),
+      '20': formatTime(quote.time),
+      '25': changeSign(quote.price, quote.prevClose),
+      '251': String(quote.prevClose),
+    }
+  }
+
+  /**
+   * 주식호가잔량 실시간 값
+   * 21: 호가시간, 41~50: 매도호가1~10, 51~60: 매수호가1~10, 61~70: 매도호가수량1~10, 71~80: 매수호가수량1~10,
+   * 121: 매도호가총잔량, 125: 매수호가총잔량
+   */
+  private buildOrderBookValues(quote: MockQuote): Record<string, string> {
+    const book = this.market.getOrderBook(quote.code)!
+    const values: Record<string, string> = {
+      '21': formatTime(book.time),
+      '121': String(book.asks.reduce((sum, level) => sum + level.quantity, 0)),
+      '125': String(book.bids.reduce((sum, level) => sum + level.quantity, 0)),
+    }
+    for (let i = 0; i < 10; i++) {
+      const ask = book.asks[i]
+      const bid = book.bids[i]
+      values[String(41 + i)] = ask ? signed(ask.price, quote.prevClose) : '0'
+      values[String(51 + i)] = bid ? signed(bid.price, quote.prevClose) : '0'
+      values[String(61 + i)] = ask ? String(ask.quantity) : '0'
+      values[String(71 + i)] = bid ? String(bid.quantity) : '0'
+    }
+    return values
+  }
+
+  /**
+   * 주문체결 실시간 전송 ('00' 타입을 등록한 모든 로그인 클라이언트)
+   * 9201: 계좌번호, 9203: 주문번호, 9001: 종목코드, 302: 종목명, 900: 주문수량, 901: 주문가격,
+   * 902: 미체결수량, 903: 체결누계금액, 904: 원주문번호, 905: 주문구분, 906: 매매구분,
+   * 907: 매도수구분, 908: 주문/체결시간, 909: 체결번호, 910: 체결가, 911: 체결량, 913: 주문상태
+   */
+  private broadcastExecution(execution: MockExecution): void {
+    const order = execution.order
+    const entry: RealTimeEntry = {
+      type: '00',
+      name: '주문체결',
+      item: order.code,
+      values: {
+        '9201': this.accountNo,
+        '9203': order.orderNo,
+        '9001': order.code,
+        '302': order.name,
+        '900': String(order.quantity),
+        '901': String(order.price),
+        '902': String(this.market.getRemainingQuantity(order)),
+        '903': String(order.filledAmount),
+        '904': order.originalOrderNo || '',
+        '905': order.side === 'buy' ? '+매수' : '-매도',
+        '906': order.type === 'limit' ? '보통' : '시장가',
+        '907': order.side === 'buy' ? '2' : '1',
+        '908': formatTime(execution.time),
+        '909': execution.executionNo,
+        '910': String(execution.price),
+        '911': String(execution.quantity),
+        '913': '체결',
+      },
+    }
+
+    this.clients.forEach((client, ws) => {
+      if (client.loggedIn && this.hasType(client, '00')) {
+        this.send(ws, { trnm: 'REAL', data: [entry] })
+      }
+    })
+    this.broadcastBalance(order.code, order.name)
+  }
+
+  /**
+   * 잔고 실시간 전송 ('04' 타입을 등록한 모든 로그인 클라이언트, 전량 매도 시 보유수량 0)
+   * 9201: 계좌번호, 9001: 종목코드, 302: 종목명, 10: 현재가, 930: 보유수량, 931: 매입단가,
+   * 932: 총매입가, 933: 주문가능수량, 8019: 손익률
+   */
+  private broadcastBalance(code: string, name: string): void {
+    const holding = this.market.getHoldings().find(h => h.code === code)
+    const quote = this.market.getQuote(code)
+    const quantity = holding?.quantity || 0
+    const avgPrice = holding?.avgPrice || 0
+    const price = quote?.price || 0
+    const entry: RealTimeEntry = {
+      type: '04',
+      name: '잔고',
+      item: code,
+      values: {
+        '9201': this.accountNo,
+        '9001': code,
+        '302': name,
+        '10': String(price),
+        '930': String(quantity),
+        '931': String(avgPrice),
+        '932': String(avgPrice * quantity),
+        '933': String(this.market.getSellableQuantity(code)),
+        '8019': (avgPrice > 0 ? (price - avgPrice) / avgPrice * 100 : 0).toFixed(2),
+      },
+    }
+
+    this.clients.forEach((client, ws) => {
+      if (client.loggedIn && this.hasType(client, '04')) {
+        this.send(ws, { trnm: 'REAL', data: [entry] })
+      }
+    })
+  }
+
+  private broadcast(message: any): void {
+    this.clients.forEach((client, ws) => {
+      if (client.loggedIn) {
+        this.send(ws, message)
+      }
+    })
+  }
+
+  private send(ws: WebSocket, message: any): void {
+    if (ws.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify(message))
+    }
+  }
+}
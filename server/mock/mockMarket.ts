@@ -0,0 +1,708 @@
+/**
+ * 로컬 모의 브로커 시장 시뮬레이터
+ * 시드 기반 난수로 시세, 호가, 체결을 결정적으로 생성
+ * 같은 시드와 같은 호출 순서라면 항상 같은 결과를 돌려줌
+ */
+
+export interface MockSymbol {
+  code: string
+  name: string
+  basePrice: number // 전일 종가
+  market: 'kospi' | 'kosdaq'
+}
+
+export const DEFAULT_MOCK_SYMBOLS: MockSymbol[] = [
+  { code: '005930', name: '삼성전자', basePrice: 71000, market: 'kospi' },
+  { code: '000660', name: 'SK하이닉스', basePrice: 178000, market: 'kospi' },
+  { code: '035420', name: 'NAVER', basePrice: 187000, market: 'kospi' },
+  { code: '035720', name: '카카오', basePrice: 42500, market: 'kospi' },
+  { code: '005380', name: '현대차', basePrice: 243000, market: 'kospi' },
+  { code: '051910', name: 'LG화학', basePrice: 352000, market: 'kospi' },
+  { code: '068270', name: '셀트리온', basePrice: 181000, market: 'kospi' },
+  { code: '247540', name: '에코프로비엠', basePrice: 215000, market: 'kosdaq' },
+  { code: '086520', name: '에코프로', basePrice: 94000, market: 'kosdaq' },
+  { code: '196170', name: '알테오젠', basePrice: 312000, market: 'kosdaq' },
+  { code: '028300', name: 'HLB', basePrice: 78500, market: 'kosdaq' },
+  { code: '293490', name: '카카오게임즈', basePrice: 18450, market: 'kosdaq' },
+]
+
+export interface MockMarketOptions {
+  seed?: string
+  symbols?: MockSymbol[]
+  initialDeposit?: number // 초기 예수금 (원)
+  bookDepth?: number // 호가 단계 수 (매도/매수 각각)
+  now?: () => Date // 시각 공급자 (테스트에서 고정 시각 주입용)
+}
+
+export interface MockQuote {
+  code: string
+  name: string
+  market: 'kospi' | 'kosdaq'
+  prevClose: number
+  price: number
+  open: number
+  high: number
+  low: number
+  volume: number // 누적 거래량
+  tradeValue: number // 누적 거래대금
+  lastQuantity: number // 직전 체결량
+  time: Date
+}
+
+export interface MockOrderBookLevel {
+  price: number
+  quantity: number
+}
+
+export interface MockOrderBook {
+  code: string
+  asks: MockOrderBookLevel[] // 매도호가 (최우선호가부터)
+  bids: MockOrderBookLevel[] // 매수호가 (최우선호가부터)
+  time: Date
+}
+
+export type MockOrderSide = 'buy' | 'sell'
+export type MockOrderType = 'limit' | 'market'
+export type MockOrderStatus = 'accepted' | 'partial' | 'filled' | 'cancelled'
+
+export interface MockOrder {
+  orderNo: string
+  originalOrderNo: string | null // 정정 주문인 경우 원주문번호
+  code: string
+  name: string
+  side: MockOrderSide
+  type: MockOrderType
+  quantity: number
+  price: number // 시장가는 0
+  filledQuantity: number
+  filledAmount: number
+  cancelledQuantity: number
+  status: MockOrderStatus
+  createdAt: Date
+}
+
+export interface MockExecution {
+  executionNo: string
+  order: MockOrder
+  price: number
+  quantity: number
+  time: Date
+}
+
+export interface MockHolding {
+  code: string
+  name: string
+  quantity: number
+  avgPrice: number
+}
+
+export interface MockCandle {
+  time: Date
+  open: number
+  high: number
+  low: number
+  close: number
+  volume: number
+}
+
+export interface MockOrderInput {
+  code: string
+  side: MockOrderSide
+  quantity: number
+  price?: number // 지정가 (미지정 시 시장가)
+}
+
+/**
+ * 모의 브로커 주문 오류
+ * returnCode는 키움 REST 응답의 return_code로 그대로 전달됨
+ */
+export class MockOrderError extends Error {
+  readonly returnCode: number
+
+  constructor(message: string, returnCode: number = 20) {
+    super(message)
+    this.name = 'MockOrderError'
+    this.returnCode = returnCode
+  }
+}
+
+type ExecutionCallback = (execution: MockExecution) => void
+
+/**
+ * 문자열 해시 (FNV-1a 32bit)
+ */
+function hashString(value: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+/**
+ * 시드 기반 난수 생성기 (mulberry32)
+ */
+function createRng(seed: string): () => number {
+  let state = hashString(seed)
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/**
+ * 호가단위 (KRX 기준, 앱의 adjustToHogaUnit과 같은 구간)
+ */
+export function getTickSize(price: number): number {
+  if (price < 1000) return 1
+  if (price < 5000) return 5
+  if (price < 10000) return 10
+  if (price < 50000) return 50
+  if (price < 100000) return 100
+  if (price < 500000) return 500
+  return 1000
+}
+
+function roundToTick(price: number): number {
+  const tick = getTickSize(price)
+  return Math.round(price / tick) * tick
+}
+
+export class MockMarket {
+  private readonly seed: string
+  private readonly symbols: Map<string, MockSymbol> = new Map()
+  private readonly quotes: Map<string, MockQuote> = new Map()
+  private readonly rngs: Map<string, () => number> = new Map()
+  private readonly bookDepth: number
+  private readonly now: () => Date
+  private tickCount: number = 0
+  // 현재 틱 동안 체결로 소진된 호가 잔량 (code:side:price -> 수량)
+  private consumedBook: Map<string, number> = new Map()
+  private orders: Map<string, MockOrder> = new Map()
+  private executions: MockExecution[] = []
+  private holdings: Map<string, MockHolding> = new Map()
+  private deposit: number
+  private orderSeq: number = 0
+  private executionSeq: number = 0
+  private executionCallbacks: Set<ExecutionCallback> = new Set()
+
+  constructor(options: MockMarketOptions = {}) {
+    this.seed = options.seed || 'kiwoom-mock'
+    this.bookDepth = options.bookDepth || 10
+    this.now = options.now || (() => new Date())
+    this.deposit = options.initialDeposit ?? 10_000_000
+
+    for (const symbol of options.symbols || DEFAULT_MOCK_SYMBOLS) {
+      this.symbols.set(symbol.code, symbol)
+      this.rngs.set(symbol.code, createRng(`${this.seed}:${symbol.code}`))
+      this.quotes.set(symbol.code, {
+        code: symbol.code,
+        name: symbol.name,
+        market: symbol.market,
+        prevClose: symbol.basePrice,
+        price: symbol.basePrice,
+        open: symbol.basePrice,
+        high: symbol.basePrice,
+        low: symbol.basePrice,
+        volume: 0,
+        tradeValue: 0,
+        lastQuantity: 0,
+        time: this.now(),
+      })
+    }
+  }
+
+  /**
+   * 체결 이벤트 구독
+   */
+  onExecution(callback: ExecutionCallback): () => void {
+    this.executionCallbacks.add(callback)
+    return () => {
+      this.executionCallbacks.delete(callback)
+    }
+  }
+
+  getSymbols(): MockSymbol[] {
+    return Array.from(this.symbols.values())
+  }
+
+  hasSymbol(code: string): boolean {
+    return this.symbols.has(code)
+  }
+
+  getQuote(code: string): MockQuote | null {
+    const quote = this.quotes.get(code)
+    return quote ? { ...quote } : null
+  }
+
+  getQuotes(): MockQuote[] {
+    return Array.from(this.quotes.values()).map(quote => ({ ...quote }))
+  }
+
+  /**
+   * 현재 호가 (현재가를 최우선 매수호가로, 한 호가 위를 최우선 매도호가로 둠)
+   * 잔량은 종목/틱/단계로부터 결정되며 이번 틱에 체결된 수량만큼 차감됨
+   */
+  getOrderBook(code: string): MockOrderBook | null {
+    const quote = this.quotes.get(code)
+    if (!quote) {
+      return null
+    }
+
+    const asks: MockOrderBookLevel[] = []
+    const bids: MockOrderBookLevel[] = []
+    const upperLimit = this.getUpperLimit(quote.prevClose)
+    const lowerLimit = this.getLowerLimit(quote.prevClose)
+
+    let askPrice = quote.price + getTickSize(quote.price)
+    let bidPrice = quote.price
+    for (let level = 0; level < this.bookDepth; level++) {
+      if (askPrice <= upperLimit) {
+        asks.push({ price: askPrice, quantity: this.getLevelQuantity(code, 'ask', askPrice, level) })
+        askPrice += getTickSize(askPrice)
+      }
+      if (bidPrice >= lowerLimit && bidPrice > 0) {
+        bids.push({ price: bidPrice, quantity: this.getLevelQuantity(code, 'bid', bidPrice, level) })
+        bidPrice -= getTickSize(bidPrice - 1)
+      }
+    }
+
+    return { code, asks, bids, time: quote.time }
+  }
+
+  /**
+   * 시세 한 틱 진행
+   * 모든 종목의 가격을 호가단위로 움직이고 대기 중인 지정가 주문을 다시 매칭함
+   */
+  tick(): MockQuote[] {
+    this.tickCount++
+    this.consumedBook.clear()
+    const time = this.now()
+
+    for (const quote of this.quotes.values()) {
+      const rng = this.rngs.get(quote.code)!
+      const tick = getTickSize(quote.price)
+
+      // -2 ~ +2 호가 이동, 전일 종가에서 10% 이상 벗어나면 되돌림 방향으로 치우침
+      let steps = Math.floor(rng() * 5) - 2
+      const deviation = (quote.price - quote.prevClose) / quote.prevClose
+      if (deviation > 0.1 && steps > 0) steps = -steps
+      if (deviation < -0.1 && steps < 0) steps = -steps
+
+      const nextPrice = Math.min(
+        this.getUpperLimit(quote.prevClose),
+        Math.max(this.getLowerLimit(quote.prevClose), roundToTick(quote.price + steps * tick))
+      )
+      const quantity = 1 + Math.floor(rng() * 500)
+
+      quote.price = nextPrice
+      quote.high = Math.max(quote.high, nextPrice)
+      quote.low = Math.min(quote.low, nextPrice)
+      quote.volume += quantity
+      quote.tradeValue += nextPrice * quantity
+      quote.lastQuantity = quantity
+      quote.time = time
+    }
+
+    for (const order of this.orders.values()) {
+      if (this.getRemainingQuantity(order) > 0) {
+        this.matchOrder(order)
+      }
+    }
+
+    return this.getQuotes()
+  }
+
+  /**
+   * 주문 접수 및 즉시 매칭
+   */
+  placeOrder(input: MockOrderInput): MockOrder {
+    const symbol = this.symbols.get(input.code)
+    if (!symbol) {
+      throw new MockOrderError(`RC4007:모의투자 매매제한 종목입니다 (${input.code})`)
+    }
+
+    const quantity = Math.floor(input.quantity)
+    if (!quantity || quantity <= 0) {
+      throw new MockOrderError('RC4001:주문수량을 확인해주세요')
+    }
+
+    const type: MockOrderType = input.price && input.price > 0 ? 'limit' : 'market'
+    const price = type === 'limit' ? Math.floor(input.price!) : 0
+    if (type === 'limit') {
+      this.validateLimitPrice(input.code, price)
+    }
+
+    const quote = this.quotes.get(input.code)!
+    if (input.side === 'buy') {
+      const book = this.getOrderBook(input.code)!
+      const expectedPrice = type === 'limit' ? price : (book.asks[0]?.price || quote.price)
+      if (expectedPrice * quantity > this.getOrderableAmount()) {
+        throw new MockOrderError('RC4025:주문가능금액이 부족합니다')
+      }
+    } else if (quantity > this.getSellableQuantity(input.code)) {
+      throw new MockOrderError('RC4032:매도가능수량이 부족합니다')
+    }
+
+    const order: MockOrder = {
+      orderNo: this.nextOrderNo(),
+      originalOrderNo: null,
+      code: input.code,
+      name: symbol.name,
+      side: input.side,
+      type,
+      quantity,
+      price,
+      filledQuantity: 0,
+      filledAmount: 0,
+      cancelledQuantity: 0,
+      status: 'accepted',
+      createdAt: this.now(),
+    }
+    this.orders.set(order.orderNo, order)
+    this.matchOrder(order)
+    return { ...order }
+  }
+
+  /**
+   * 정정 주문
+   * 원주문의 미체결 수량 중 quantity만큼을 새 가격의 새 주문으로 옮김 (quantity 0이면 전량)
+   */
+  modifyOrder(originalOrderNo: string, quantity: number, price: number): MockOrder {
+    const original = this.getModifiableOrder(originalOrderNo)
+    const remaining = this.getRemainingQuantity(original)
+    const modifyQuantity = quantity > 0 ? Math.min(quantity, remaining) : remaining
+    this.validateLimitPrice(original.code, price)
+
+    if (original.side === 'buy') {
+      const released = original.type === 'limit' ? original.price * modifyQuantity : 0
+      if (price * modifyQuantity > this.getOrderableAmount() + released) {
+        throw new MockOrderError('RC4025:주문가능금액이 부족합니다')
+      }
+    }
+
+    original.cancelledQuantity += modifyQuantity
+    this.updateStatus(original)
+
+    const modified: MockOrder = {
+      ...original,
+      orderNo: this.nextOrderNo(),
+      originalOrderNo: original.orderNo,
+      type: 'limit',
+      quantity: modifyQuantity,
+      price,
+      filledQuantity: 0,
+      filledAmount: 0,
+      cancelledQuantity: 0,
+      status: 'accepted',
+      createdAt: this.now(),
+    }
+    this.orders.set(modified.orderNo, modified)
+    this.matchOrder(modified)
+    return { ...modified }
+  }
+
+  /**
+   * 취소 주문 (quantity 0이면 잔량 전부 취소)
+   * 반환값은 취소 처리 후의 원주문 상태
+   */
+  cancelOrder(originalOrderNo: string, quantity: number = 0): { cancelOrderNo: string; cancelledQuantity: number; order: MockOrder } {
+    const original = this.getModifiableOrder(originalOrderNo)
+    const remaining = this.getRemainingQuantity(original)
+    const cancelQuantity = quantity > 0 ? Math.min(quantity, remaining) : remaining
+
+    original.cancelledQuantity += cancelQuantity
+    this.updateStatus(original)
+
+    return {
+      cancelOrderNo: this.nextOrderNo(),
+      cancelledQuantity: cancelQuantity,
+      order: { ...original },
+    }
+  }
+
+  getOrder(orderNo: string): MockOrder | null {
+    const order = this.orders.get(orderNo)
+    return order ? { ...order } : null
+  }
+
+  getOrders(): MockOrder[] {
+    return Array.from(this.orders.values()).map(order => ({ ...order }))
+  }
+
+  getOpenOrders(): MockOrder[] {
+    return this.getOrders().filter(order => this.getRemainingQuantity(order) > 0)
+  }
+
+  getExecutions(): MockExecution[] {
+    return [...this.executions]
+  }
+
+  getRemainingQuantity(order: MockOrder): number {
+    return order.quantity - order.filledQuantity - order.cancelledQuantity
+  }
+
+  getDeposit(): number {
+    return this.deposit
+  }
+
+  /**
+   * 주문가능금액 (예수금 - 미체결 지정가 매수 주문 증거금)
+   */
+  getOrderableAmount(): number {
+    let reserved = 0
+    for (const order of this.orders.values()) {
+      if (order.side === 'buy' && order.type === 'limit') {
+        reserved += order.price * this.getRemainingQuantity(order)
+      }
+    }
+    return Math.max(0, this.deposit - reserved)
+  }
+
+  getHoldings(): MockHolding[] {
+    return Array.from(this.holdings.values())
+      .filter(holding => holding.quantity > 0)
+      .map(holding => ({ ...holding }))
+  }
+
+  /**
+   * 매도가능수량 (보유수량 - 미체결 매도 주문 수량)
+   */
+  getSellableQuantity(code: string): number {
+    const holding = this.holdings.get(code)
+    if (!holding) {
+      return 0
+    }
+    let pending = 0
+    for (const order of this.orders.values()) {
+      if (order.code === code && order.side === 'sell') {
+        pending += this.getRemainingQuantity(order)
+      }
+    }
+    return Math.max(0, holding.quantity - pending)
+  }
+
+  /**
+   * 과거 봉 데이터 (최신 봉이 먼저)
+   * 최신 봉의 종가는 항상 현재가이며, 과거 방향으로 종목/주기별 시드로 생성됨
+   */
+  getCandles(code: string, period: 'tick' | 'min' | 'day', scope: number = 1, count: number = 100): MockCandle[] {
+    const quote = this.quotes.get(code)
+    if (!quote) {
+      return []
+    }
+
+    const rng = createRng(`${this.seed}:${code}:${period}:${scope}:${this.tickCount}`)
+    const now = this.now()
+    const magnitude = period === 'day' ? 8 : period === 'min' ? Math.max(1, Math.round(Math.sqrt(scope))) : 1
+    const candles: MockCandle[] = []
+
+    let close = quote.price
+    for (let i = 0; i < count; i++) {
+      const tick = getTickSize(close)
+      const open = Math.max(tick, roundToTick(close + (Math.floor(rng() * 5) - 2) * magnitude * tick))
+      const high = Math.max(open, close) + Math.floor(rng() * 3) * tick
+      const low = Math.max(tick, Math.min(open, close) - Math.floor(rng() * 3) * tick)
+      const volume = period === 'tick'
+        ? 1 + Math.floor(rng() * 500)
+        : (1 + Math.floor(rng() * 1000)) * magnitude * 100
+
+      candles.push({
+        time: this.getCandleTime(now, period, scope, i),
+        open: period === 'tick' ? close : open,
+        high: period === 'tick' ? close : high,
+        low: period === 'tick' ? close : low,
+        close,
+        volume,
+      })
+
+      // 이전 봉의 종가는 이번 봉의 시가 근처
+      close = period === 'tick'
+        ? Math.max(tick, roundToTick(close + (Math.floor(rng() * 3) - 1) * tick))
+        : open
+    }
+
+    return candles
+  }
+
+  getUpperLimit(prevClose: number): number {
+    const limit = prevClose * 1.3
+    return Math.floor(limit / getTickSize(limit)) * getTickSize(limit)
+  }
+
+  getLowerLimit(prevClose: number): number {
+    const limit = prevClose * 0.7
+    return Math.ceil(limit / getTickSize(limit)) * getTickSize(limit)
+  }
+
+  private getCandleTime(now: Date, period: 'tick' | 'min' | 'day', scope: number, index: number): Date {
+    if (period === 'tick') {
+      return new Date(now.getTime() - index * 3000)
+    }
+
+    if (period === 'min') {
+      const bucket = new Date(now)
+      bucket.setSeconds(0, 0)
+      bucket.setMinutes(bucket.getMinutes() - (bucket.getMinutes() % scope) - index * scope)
+      return bucket
+    }
+
+    // 일봉은 주말을 건너뜀
+    const day = new Date(now)
+    day.setHours(0, 0, 0, 0)
+    let remaining = index
+    while (day.getDay() === 0 || day.getDay() === 6) {
+      day.setDate(day.getDate() - 1)
+    }
+    while (remaining > 0) {
+      day.setDate(day.getDate() - 1)
+      if (day.getDay() !== 0 && day.getDay() !== 6) {
+        remaining--
+      }
+    }
+    return day
+  }
+
+  private getLevelQuantity(code: string, side: 'ask' | 'bid', price: number, level: number): number {
+    const base = 100 + (hashString(`${this.seed}:${code}:${side}:${price}:${this.tickCount}`) % 900)
+    const quantity = base * (level + 1)
+    const consumed = this.consumedBook.get(`${code}:${side}:${price}`) || 0
+    return Math.max(0, quantity - consumed)
+  }
+
+  private validateLimitPrice(code: string, price: number): void {
+    const quote = this.quotes.get(code)!
+    if (!price || price <= 0) {
+      throw new MockOrderError('RC4001:주문단가를 확인해주세요')
+    }
+    if (price % getTickSize(price) !== 0) {
+      throw new MockOrderError(`RC4002:호가단위가 맞지 않습니다 (호가단위 ${getTickSize(price)}원)`)
+    }
+    if (price > this.getUpperLimit(quote.prevClose) || price < this.getLowerLimit(quote.prevClose)) {
+      throw new MockOrderError('RC4003:상/하한가를 벗어난 주문입니다')
+    }
+  }
+
+  private getModifiableOrder(orderNo: string): MockOrder {
+    const order = this.orders.get(orderNo)
+    if (!order) {
+      throw new MockOrderError(`RC4100:원주문번호가 존재하지 않습니다 (${orderNo})`)
+    }
+    if (this.getRemainingQuantity(order) <= 0) {
+      throw new MockOrderError(`RC4101:정정/취소 가능한 수량이 없습니다 (${orderNo})`)
+    }
+    return order
+  }
+
+  /**
+   * 호가 잔량을 소진하며 주문 매칭
+   * 시장가 주문은 호가를 모두 소진해도 남은 수량을 마지막 호가에 체결
+   */
+  private matchOrder(order: MockOrder): void {
+    const book = this.getOrderBook(order.code)
+    if (!book) {
+      return
+    }
+
+    const levels = order.side === 'buy' ? book.asks : book.bids
+    const bookSide = order.side === 'buy' ? 'ask' : 'bid'
+
+    for (const level of levels) {
+      const remaining = this.getRemainingQuantity(order)
+      if (remaining <= 0) {
+        break
+      }
+      if (order.type === 'limit') {
+        if (order.side === 'buy' && level.price > order.price) break
+        if (order.side === 'sell' && level.price < order.price) break
+      }
+
+      const quantity = Math.min(remaining, level.quantity)
+      if (quantity <= 0) {
+        continue
+      }
+
+      const key = `${order.code}:${bookSide}:${level.price}`
+      this.consumedBook.set(key, (this.consumedBook.get(key) || 0) + quantity)
+      this.fill(order, level.price, quantity)
+    }
+
+    const remaining = this.getRemainingQuantity(order)
+    if (order.type === 'market' && remaining > 0) {
+      const lastLevel = levels[levels.length - 1]
+      const quote = this.quotes.get(order.code)!
+      this.fill(order, lastLevel ? lastLevel.price : quote.price, remaining)
+    }
+  }
+
+  private fill(order: MockOrder, price: number, quantity: number): void {
+    order.filledQuantity += quantity
+    order.filledAmount += price * quantity
+    this.updateStatus(order)
+
+    const holding = this.holdings.get(order.code) || {
+      code: order.code,
+      name: order.name,
+      quantity: 0,
+      avgPrice: 0,
+    }
+
+    if (order.side === 'buy') {
+      const totalCost = holding.avgPrice * holding.quantity + price * quantity
+      holding.quantity += quantity
+      holding.avgPrice = Math.round(totalCost / holding.quantity)
+      this.deposit -= price * quantity
+    } else {
+      holding.quantity -= quantity
+      if (holding.quantity <= 0) {
+        holding.quantity = 0
+        holding.avgPrice = 0
+      }
+      this.deposit += price * quantity
+    }
+    this.holdings.set(order.code, holding)
+
+    const execution: MockExecution = {
+      executionNo: this.nextExecutionNo(),
+      order: { ...order },
+      price,
+      quantity,
+      time: this.now(),
+    }
+    this.executions.push(execution)
+
+    this.executionCallbacks.forEach((callback) => {
+      try {
+        callback(execution)
+      } catch (error) {
+        console.error('[모의 브로커] 체결 콜백 실행 오류:', error)
+      }
+    })
+  }
+
+  private updateStatus(order: MockOrder): void {
+    if (order.filledQuantity >= order.quantity) {
+      order.status = 'filled'
+    } else if (this.getRemainingQuantity(order) <= 0) {
+      order.status = 'cancelled'
+    } else if (order.filledQuantity > 0) {
+      order.status = 'partial'
+    } else {
+      order.status = 'accepted'
+    }
+  }
+
+  private nextOrderNo(): string {
+    this.orderSeq++
+    return String(this.orderSeq).padStart(7, '0')
+  }
+
+  private nextExecutionNo(): string {
+    this.executionSeq++
+    return String(this.executionSeq).padStart(7, '0')
+  }
+}
@@ -4,9 +4,11 @@
  */
 import { Router, Request, Response } from 'express'
 import { KiwoomService } from '../services/kiwoomService'
+import { TradingRepository } from '../services/tradingRepository'
 
 const router = Router()
 const kiwoomService = KiwoomService.getInstance()
+const tradingRepository = TradingRepository.getInstance()
 
 // 계좌 목록 조회
 router.get('/', async (req: Request, res: Response) => {
@@ -122,7 +124,11 @@ router.get('/balance', async (req: Request, res: Response) => {
     }
     
     // balance가 배열인 경우와 객체인 경우 모두 처리
-    res.json({ stocks: Array.isArray(balance) ? balance : (balance.stocks || balance) })
+    const stocks = Array.isArray(balance) ? balance : (balance.stocks || balance)
+    if (Array.isArray(stocks)) {
+      tradingRepository.recordPositions(accountNo || '', stocks) // 보유 종목 기록 (응답을 기다리게 하지 않음)
+    }
+    res.json({ stocks })
   } catch (error: any) {
     // 500 에러는 조용히 처리 (이미 getBalance에서 처리됨)
     if (error.response?.status !== 500) {
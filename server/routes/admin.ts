@@ -1,49 +1,336 @@
 /**
  * 관리자용 API 라우터
- * 키 발급 및 관리 기능
+ * 관리자 로그인, 관리자 계정 관리, 키 발급(일괄 발급, CSV) 및 관리(연장, 플랜 변경, 이력) 기능
+ * 로그인을 제외한 모든 라우트는 관리자(role: admin) 토큰 필요
  */
 import { Router, Request, Response } from 'express'
-import keyService from '../services/keyService'
+import keyService, { IssueKeyOptions, IssuedLicenseKey } from '../services/keyService'
+import { LICENSE_PLANS, isLicensePlanId } from '../services/licensePlans'
+import { AdminAuthService, USER_ROLES } from '../services/adminAuthService'
+import { requireAdmin } from '../middleware/requireAdmin'
 
 const router = Router()
+const adminAuthService = AdminAuthService.getInstance()
+
+const MAX_SESSIONS_LIMIT = 10 // 키당 동시 세션 수 상한
+const MAX_VALID_DAYS = 365 // 발급/연장 1회 최대 일수
+const MAX_BATCH_COUNT = 100 // 일괄 발급 1회 최대 개수
+
+function parseMaxSessions(value: unknown): number | null {
+  const sessions = Number(value)
+  return Number.isInteger(sessions) && sessions >= 1 && sessions <= MAX_SESSIONS_LIMIT ? sessions : null
+}
+
+function parseDays(value: unknown): number | null {
+  const days = parseInt(String(value))
+  return !isNaN(days) && days >= 1 && days <= MAX_VALID_DAYS ? days : null
+}
 
 /**
- * 키 발급 (관리자용)
- * POST /api/admin/keys/issue
+ * 키 발급 요청 검증 (단건/일괄 발급 공통)
+ */
+function parseIssueOptions(body: any, username: string): { options?: IssueKeyOptions; message?: string } {
+  const { validDays, issuedBy, description, maxSessions, plan } = body || {}
+
+  // 필수 필드 검증
+  if (!validDays) {
+    return { message: 'validDays는 필수입니다' }
+  }
+
+  // 유효기간 검증 (1일 이상, 365일 이하)
+  const days = parseDays(validDays)
+  if (days === null) {
+    return { message: `유효기간은 1일 이상 ${MAX_VALID_DAYS}일 이하여야 합니다` }
+  }
+
+  const sessions = maxSessions === undefined ? 1 : parseMaxSessions(maxSessions)
+  if (sessions === null) {
+    return { message: `동시 세션 수는 1 이상 ${MAX_SESSIONS_LIMIT} 이하여야 합니다` }
+  }
+
+  if (plan !== undefined && !isLicensePlanId(plan)) {
+    return { message: `plan은 ${LICENSE_PLANS.map(p => p.id).join(', ')} 중 하나여야 합니다` }
+  }
+
+  return {
+    options: {
+      validDays: days,
+      issuedBy: issuedBy || username,
+      description: description || undefined,
+      maxSessions: sessions,
+      plan
+    }
+  }
+}
+
+function csvField(value: string | number): string {
+  const text = String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * 발급한 키 CSV (키 원문 포함, 엑셀에서 한글이 깨지지 않도록 BOM 추가)
+ */
+function toKeysCsv(keys: IssuedLicenseKey[]): string {
+  const header = ['key', 'plan', 'validDays', 'expiresAt', 'maxSessions', 'description']
+  const rows = keys.map(key => [key.key, key.plan, key.validDays, key.expiresAt, key.maxSessions, key.description || ''].map(csvField).join(','))
+  return '\uFEFF' + [header.join(','), ...rows].join('\r\n') + '\r\n'
+}
+
+/**
+ * 관리자 로그인
+ * POST /api/admin/login
+ * Body: { username, password }
+ */
+router.post('/login', async (req: Request, res: Response) => {
+  try {
+    const { username, password } = req.body || {}
+
+    if (!username || !password) {
+      return res.status(400).json({
+        success: false,
+        message: 'username과 password는 필수입니다'
+      })
+    }
+
+    const result = await adminAuthService.login(username, password, req.ip || req.socket.remoteAddress || '')
+    if (result.user.role !== 'admin') {
+      return res.status(403).json({
+        success: false,
+        code: 'forbidden',
+        message: '관리자 계정이 아닙니다'
+      })
+    }
+
+    res.json({
+      success: true,
+      ...result
+    })
+  } catch (error: any) {
+    if (error.isInvalidCredentials) {
+      return res.status(401).json({
+        success: false,
+        code: 'invalid_credentials',
+        message: error.message
+      })
+    }
+    if (error.isLocked) {
+      return res.status(429).json({
+        success: false,
+        code: 'locked',
+        message: error.message
+      })
+    }
+    console.error('관리자 로그인 오류:', error)
+    res.status(500).json({
+      success: false,
+      message: error.message || '로그인 실패'
+    })
+  }
+})
+
+// 이후 라우트는 모두 관리자 인증 필요
+router.use(requireAdmin)
+
+/**
+ * 로그인한 관리자 정보
+ * GET /api/admin/me
+ */
+router.get('/me', (req: Request, res: Response) => {
+  res.json({
+    success: true,
+    user: res.locals.user
+  })
+})
+
+/**
+ * 비밀번호 변경 (본인)
+ * PUT /api/admin/me/password
+ * Body: { currentPassword, newPassword }
+ * 변경하면 이 요청에 쓴 토큰을 포함해 기존 토큰이 모두 무효화됨
+ */
+router.put('/me/password', async (req: Request, res: Response) => {
+  try {
+    const { currentPassword, newPassword } = req.body || {}
+
+    if (!currentPassword || !newPassword) {
+      return res.status(400).json({
+        success: false,
+        message: 'currentPassword와 newPassword는 필수입니다'
+      })
+    }
+
+    await adminAuthService.changePassword(res.locals.user.id, newPassword, currentPassword)
+
+    res.json({
+      success: true,
+      message: '비밀번호가 변경되었습니다. 다시 로그인해주세요'
+    })
+  } catch (error: any) {
+    if (error.isInvalidUser || error.isInvalidCredentials) {
+      return res.status(400).json({
+        success: false,
+        message: error.message
+      })
+    }
+    console.error('비밀번호 변경 오류:', error)
+    res.status(500).json({
+      success: false,
+      message: error.message || '비밀번호 변경 실패'
+    })
+  }
+})
+
+/**
+ * 사용자 목록
+ * GET /api/admin/users
+ */
+router.get('/users', async (req: Request, res: Response) => {
+  try {
+    const users = await adminAuthService.listUsers()
+
+    res.json({
+      success: true,
+      users,
+      count: users.length
+    })
+  } catch (error: any) {
+    console.error('사용자 목록 조회 오류:', error)
+    res.status(500).json({
+      success: false,
+      message: error.message || '사용자 목록 조회 실패'
+    })
+  }
+})
+
+/**
+ * 사용자 생성
+ * POST /api/admin/users
+ * Body: { username, password, role: 'admin' | 'user' }
  */
-router.post('/keys/issue', (req: Request, res: Response) => {
+router.post('/users', async (req: Request, res: Response) => {
   try {
-    const { validDays, issuedBy, description } = req.body
+    const { username, password, role } = req.body || {}
 
-    // 필수 필드 검증
-    if (!validDays) {
+    if (!username || !password) {
+      return res.status(400).json({
+        success: false,
+        message: 'username과 password는 필수입니다'
+      })
+    }
+    if (role !== undefined && !USER_ROLES.includes(role)) {
       return res.status(400).json({
         success: false,
-        message: 'validDays는 필수입니다'
+        message: `role은 ${USER_ROLES.join(', ')} 중 하나여야 합니다`
       })
     }
 
-    // 유효기간 검증 (1일 이상, 365일 이하)
-    const days = parseInt(validDays.toString())
-    if (isNaN(days) || days < 1 || days > 365) {
+    const user = await adminAuthService.createUser(username, password, role || 'user')
+
+    res.json({
+      success: true,
+      user
+    })
+  } catch (error: any) {
+    if (error.isInvalidUser) {
       return res.status(400).json({
         success: false,
-        message: '유효기간은 1일 이상 365일 이하여야 합니다'
+        message: error.message
+      })
+    }
+    if (error.isDuplicateUser) {
+      return res.status(409).json({
+        success: false,
+        message: error.message
+      })
+    }
+    console.error('사용자 생성 오류:', error)
+    res.status(500).json({
+      success: false,
+      message: error.message || '사용자 생성 실패'
+    })
+  }
+})
+
+/**
+ * 사용자 삭제 (본인과 마지막 관리자는 삭제 불가)
+ * DELETE /api/admin/users/:id
+ */
+router.delete('/users/:id', async (req: Request, res: Response) => {
+  try {
+    if (req.params.id === res.locals.user.id) {
+      return res.status(400).json({
+        success: false,
+        message: '로그인한 계정은 삭제할 수 없습니다'
+      })
+    }
+
+    await adminAuthService.deleteUser(req.params.id)
+
+    res.json({
+      success: true,
+      message: '사용자가 삭제되었습니다'
+    })
+  } catch (error: any) {
+    if (error.isUserNotFound) {
+      return res.status(404).json({
+        success: false,
+        message: error.message
+      })
+    }
+    if (error.isInvalidUser) {
+      return res.status(400).json({
+        success: false,
+        message: error.message
+      })
+    }
+    console.error('사용자 삭제 오류:', error)
+    res.status(500).json({
+      success: false,
+      message: error.message || '사용자 삭제 실패'
+    })
+  }
+})
+
+/**
+ * 라이선스 플랜 목록
+ * GET /api/admin/plans
+ */
+router.get('/plans', (req: Request, res: Response) => {
+  res.json({
+    success: true,
+    plans: LICENSE_PLANS
+  })
+})
+
+/**
+ * 키 발급 (관리자용)
+ * POST /api/admin/keys/issue
+ * Body: { validDays, issuedBy?, description?, maxSessions?, plan? }
+ */
+router.post('/keys/issue', async (req: Request, res: Response) => {
+  try {
+    const { options, message } = parseIssueOptions(req.body, res.locals.user.username)
+    if (!options) {
+      return res.status(400).json({
+        success: false,
+        message
       })
     }
 
     // 키 발급
-    const licenseKey = keyService.issueKey(
-      days,
-      issuedBy || 'admin',
-      description || undefined
-    )
+    const licenseKey = await keyService.issueKey(options)
 
+    // 키 원문은 이 응답에서만 확인 가능 (저장소에는 해시만 저장)
     res.json({
       success: true,
+      id: licenseKey.id,
       key: licenseKey.key,
+      keyPrefix: licenseKey.keyPrefix,
       expiresAt: licenseKey.expiresAt,
       validDays: licenseKey.validDays,
+      maxSessions: licenseKey.maxSessions,
+      plan: licenseKey.plan,
       message: '키가 성공적으로 발급되었습니다'
     })
   } catch (error: any) {
@@ -55,25 +342,71 @@ router.post('/keys/issue', (req: Request, res: Response) => {
   }
 })
 
+/**
+ * 키 일괄 발급 (관리자용)
+ * POST /api/admin/keys/batch?format=csv
+ * Body: { count, validDays, issuedBy?, description?, maxSessions?, plan? }
+ * format=csv면 키 원문이 담긴 CSV 파일로 응답 (다시 받을 수 없음)
+ */
+router.post('/keys/batch', async (req: Request, res: Response) => {
+  try {
+    const count = Number(req.body?.count)
+    if (!Number.isInteger(count) || count < 1 || count > MAX_BATCH_COUNT) {
+      return res.status(400).json({
+        success: false,
+        message: `발급 개수는 1 이상 ${MAX_BATCH_COUNT} 이하여야 합니다`
+      })
+    }
+
+    const { options, message } = parseIssueOptions(req.body, res.locals.user.username)
+    if (!options) {
+      return res.status(400).json({
+        success: false,
+        message
+      })
+    }
+
+    const keys = await keyService.issueKeys(count, options)
+
+    if (req.query.format === 'csv') {
+      const filename = `license-keys-${new Date().toISOString().slice(0, 10)}.csv`
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8')
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`)
+      return res.send(toKeysCsv(keys))
+    }
+
+    res.json({
+      success: true,
+      keys: keys.map(key => ({
+        id: key.id,
+        key: key.key,
+        keyPrefix: key.keyPrefix,
+        expiresAt: key.expiresAt
+      })),
+      count: keys.length,
+      message: `키 ${keys.length}개가 발급되었습니다`
+    })
+  } catch (error: any) {
+    console.error('키 일괄 발급 오류:', error)
+    res.status(500).json({
+      success: false,
+      message: error.message || '키 일괄 발급 실패'
+    })
+  }
+})
+
 /**
  * 키 목록 조회 (관리자용)
  * GET /api/admin/keys
  */
-router.get('/keys', (req: Request, res: Response) => {
+router.get('/keys', async (req: Request, res: Response) => {
   try {
-    const keys = keyService.getAllKeys()
-    
-    // 민감한 정보 제외하고 반환
+    const keys = await keyService.getAllKeys()
+
+    // 키 원문은 저장하지 않으므로 앞자리(keyPrefix)만 반환
     const safeKeys = keys.map(key => ({
-      key: key.key,
-      issuedAt: key.issuedAt,
-      expiresAt: key.expiresAt,
-      validDays: key.validDays,
-      issuedBy: key.issuedBy,
-      description: key.description,
-      isActive: key.isActive,
-      usedCount: key.usedCount,
-      lastUsedAt: key.lastUsedAt
+      ...key,
+      activeSessions: keyService.getActiveSessionCount(key.id)
     }))
 
     res.json({
@@ -92,11 +425,11 @@ router.get('/keys', (req: Request, res: Response) => {
 
 /**
  * 키 활성화/비활성화 (관리자용)
- * PUT /api/admin/keys/:key/toggle
+ * PUT /api/admin/keys/:id/toggle
  */
-router.put('/keys/:key/toggle', (req: Request, res: Response) => {
+router.put('/keys/:id/toggle', async (req: Request, res: Response) => {
   try {
-    const { key } = req.params
+    const { id } = req.params
     const { isActive } = req.body
 
     if (typeof isActive !== 'boolean') {
@@ -106,7 +439,7 @@ router.put('/keys/:key/toggle', (req: Request, res: Response) => {
       })
     }
 
-    const success = keyService.toggleKey(key, isActive)
+    const success = await keyService.toggleKey(id, isActive, res.locals.user.username)
 
     if (!success) {
       return res.status(404).json({
@@ -128,15 +461,188 @@ router.put('/keys/:key/toggle', (req: Request, res: Response) => {
   }
 })
 
+/**
+ * 동시 세션 수 제한 변경 (관리자용)
+ * PUT /api/admin/keys/:id/max-sessions
+ * Body: { maxSessions }
+ */
+router.put('/keys/:id/max-sessions', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params
+    const maxSessions = parseMaxSessions(req.body?.maxSessions)
+
+    if (maxSessions === null) {
+      return res.status(400).json({
+        success: false,
+        message: `동시 세션 수는 1 이상 ${MAX_SESSIONS_LIMIT} 이하여야 합니다`
+      })
+    }
+
+    const success = await keyService.setMaxSessions(id, maxSessions, res.locals.user.username)
+
+    if (!success) {
+      return res.status(404).json({
+        success: false,
+        message: '키를 찾을 수 없습니다'
+      })
+    }
+
+    res.json({
+      success: true,
+      maxSessions,
+      message: `동시 세션 수가 ${maxSessions}개로 변경되었습니다`
+    })
+  } catch (error: any) {
+    console.error('동시 세션 수 변경 오류:', error)
+    res.status(500).json({
+      success: false,
+      message: error.message || '동시 세션 수 변경 실패'
+    })
+  }
+})
+
+/**
+ * 유효기간 연장 (관리자용, 이미 만료된 키는 지금부터 연장)
+ * PUT /api/admin/keys/:id/extend
+ * Body: { days }
+ */
+router.put('/keys/:id/extend', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params
+    const days = parseDays(req.body?.days)
+
+    if (days === null) {
+      return res.status(400).json({
+        success: false,
+        message: `연장 일수는 1일 이상 ${MAX_VALID_DAYS}일 이하여야 합니다`
+      })
+    }
+
+    const key = await keyService.extendKey(id, days, res.locals.user.username)
+
+    if (!key) {
+      return res.status(404).json({
+        success: false,
+        message: '키를 찾을 수 없습니다'
+      })
+    }
+
+    res.json({
+      success: true,
+      expiresAt: key.expiresAt,
+      validDays: key.validDays,
+      message: `유효기간이 ${days}일 연장되었습니다`
+    })
+  } catch (error: any) {
+    console.error('유효기간 연장 오류:', error)
+    res.status(500).json({
+      success: false,
+      message: error.message || '유효기간 연장 실패'
+    })
+  }
+})
+
+/**
+ * 플랜 변경 (관리자용, 사용 중인 세션에도 바로 적용)
+ * PUT /api/admin/keys/:id/plan
+ * Body: { plan }
+ */
+router.put('/keys/:id/plan', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params
+    const { plan } = req.body || {}
+
+    if (!isLicensePlanId(plan)) {
+      return res.status(400).json({
+        success: false,
+        message: `plan은 ${LICENSE_PLANS.map(p => p.id).join(', ')} 중 하나여야 합니다`
+      })
+    }
+
+    const key = await keyService.setPlan(id, plan, res.locals.user.username)
+
+    if (!key) {
+      return res.status(404).json({
+        success: false,
+        message: '키를 찾을 수 없습니다'
+      })
+    }
+
+    res.json({
+      success: true,
+      plan: key.plan,
+      message: '플랜이 변경되었습니다'
+    })
+  } catch (error: any) {
+    console.error('플랜 변경 오류:', error)
+    res.status(500).json({
+      success: false,
+      message: error.message || '플랜 변경 실패'
+    })
+  }
+})
+
+/**
+ * 키 이력 조회 (관리자용, 최근 순, 삭제된 키도 조회 가능)
+ * GET /api/admin/keys/:id/events
+ */
+router.get('/keys/:id/events', async (req: Request, res: Response) => {
+  try {
+    const events = await keyService.getKeyEvents(req.params.id)
+
+    res.json({
+      success: true,
+      events,
+      count: events.length
+    })
+  } catch (error: any) {
+    console.error('키 이력 조회 오류:', error)
+    res.status(500).json({
+      success: false,
+      message: error.message || '키 이력 조회 실패'
+    })
+  }
+})
+
+/**
+ * 바인딩 해제 (관리자용, 사용 중인 세션도 종료)
+ * DELETE /api/admin/keys/:id/binding
+ */
+router.delete('/keys/:id/binding', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params
+
+    const success = await keyService.revokeBinding(id, res.locals.user.username)
+
+    if (!success) {
+      return res.status(404).json({
+        success: false,
+        message: '키를 찾을 수 없습니다'
+      })
+    }
+
+    res.json({
+      success: true,
+      message: '바인딩이 해제되었습니다. 다음 검증 때 새 App Key/기기에 바인딩됩니다'
+    })
+  } catch (error: any) {
+    console.error('바인딩 해제 오류:', error)
+    res.status(500).json({
+      success: false,
+      message: error.message || '바인딩 해제 실패'
+    })
+  }
+})
+
 /**
  * 키 삭제 (관리자용)
- * DELETE /api/admin/keys/:key
+ * DELETE /api/admin/keys/:id
  */
-router.delete('/keys/:key', (req: Request, res: Response) => {
+router.delete('/keys/:id', async (req: Request, res: Response) => {
   try {
-    const { key } = req.params
+    const { id } = req.params
 
-    const success = keyService.deleteKey(key)
+    const success = await keyService.deleteKey(id, res.locals.user.username)
 
     if (!success) {
       return res.status(404).json({
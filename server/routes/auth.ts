@@ -1,19 +1,34 @@
 /**
  * 인증 관련 API 라우터
- * 키 검증 및 키 정보 조회
+ * 키 검증(세션 토큰 발급), 세션 갱신/종료 및 키 정보 조회
  */
 import { Router, Request, Response } from 'express'
-import keyService from '../services/keyService'
+import keyService, { LicenseErrorCode, getRemainingDays } from '../services/keyService'
+import { LICENSE_TOKEN_HEADER } from '../middleware/requireLicense'
+import { getLicensePlan } from '../services/licensePlans'
 
 const router = Router()
 
+// 키 검증 실패 코드별 HTTP 상태
+const VALIDATION_STATUS: Record<LicenseErrorCode, number> = {
+  invalid_key: 401,
+  inactive: 401,
+  expired: 401,
+  binding_required: 400,
+  binding_mismatch: 403,
+  session_limit: 409,
+  session_required: 401,
+}
+
 /**
- * 라이선스 키 검증 (유효성만 확인)
+ * 라이선스 키 검증 및 세션 토큰 발급
  * POST /api/auth/validate-key
+ * Body: { key, appkey?, deviceId? } (처음 검증하면 appkey/deviceId에 키가 바인딩됨)
+ * 발급된 sessionToken은 X-License-Token 헤더로 보내야 연결/자동매매 API를 사용할 수 있음
  */
-router.post('/validate-key', (req: Request, res: Response) => {
+router.post('/validate-key', async (req: Request, res: Response) => {
   try {
-    const { key } = req.body
+    const { key, appkey, deviceId } = req.body
 
     if (!key) {
       return res.status(400).json({
@@ -23,25 +38,28 @@ router.post('/validate-key', (req: Request, res: Response) => {
     }
 
     // 키 검증
-    const validation = keyService.validateKey(key)
+    const validation = await keyService.validateKey(key, { appkey, deviceId })
 
     if (!validation.valid) {
-      return res.status(401).json({
+      return res.status(validation.code ? VALIDATION_STATUS[validation.code] : 401).json({
         success: false,
+        code: validation.code,
         message: validation.message || '유효하지 않은 키입니다'
       })
     }
 
     const licenseKey = validation.licenseKey!
+    const session = validation.session!
 
     // 라이선스 키 유효성 정보만 반환 (App Key/Secret Key는 반환하지 않음)
     res.json({
       success: true,
+      sessionToken: session.token,
+      sessionExpiresAt: session.expiresAt,
       expiresAt: licenseKey.expiresAt,
       validDays: licenseKey.validDays,
-      remainingDays: Math.ceil(
-        (new Date(licenseKey.expiresAt).getTime() - new Date().getTime()) / (1000 * 60 * 60 * 24)
-      )
+      remainingDays: getRemainingDays(licenseKey.expiresAt),
+      plan: getLicensePlan(licenseKey.plan) // 플랜 제한 (실전투자, 매수 전략 수, 최대 보유 종목 수)
     })
   } catch (error: any) {
     console.error('키 검증 오류:', error)
@@ -53,14 +71,67 @@ router.post('/validate-key', (req: Request, res: Response) => {
 })
 
 /**
- * 키 정보 조회 (키 값만으로)
+ * 세션 토큰 갱신 (만료 전에 호출)
+ * POST /api/auth/session/refresh
+ * Header: X-License-Token
+ */
+router.post('/session/refresh', async (req: Request, res: Response) => {
+  try {
+    const result = await keyService.refreshSession(req.header(LICENSE_TOKEN_HEADER))
+
+    if (!result.valid) {
+      return res.status(result.code === 'session_required' ? 401 : 403).json({
+        success: false,
+        code: result.code,
+        message: result.message
+      })
+    }
+
+    res.json({
+      success: true,
+      sessionToken: result.session!.token,
+      sessionExpiresAt: result.session!.expiresAt
+    })
+  } catch (error: any) {
+    console.error('세션 갱신 오류:', error)
+    res.status(500).json({
+      success: false,
+      message: error.message || '세션 갱신 실패'
+    })
+  }
+})
+
+/**
+ * 세션 종료 (동시 세션 수에서 제외)
+ * DELETE /api/auth/session
+ * Header: X-License-Token
+ */
+router.delete('/session', (req: Request, res: Response) => {
+  try {
+    const ended = keyService.endSession(req.header(LICENSE_TOKEN_HEADER))
+
+    res.json({
+      success: true,
+      ended
+    })
+  } catch (error: any) {
+    console.error('세션 종료 오류:', error)
+    res.status(500).json({
+      success: false,
+      message: error.message || '세션 종료 실패'
+    })
+  }
+})
+
+/**
+ * 키 정보 조회 (키 값만으로, 응답에는 키 앞자리만)
  * GET /api/auth/key-info/:key
  */
-router.get('/key-info/:key', (req: Request, res: Response) => {
+router.get('/key-info/:key', async (req: Request, res: Response) => {
   try {
     const { key } = req.params
 
-    const result = keyService.getKeyInfo(key)
+    const result = await keyService.getKeyInfo(key)
 
     if (!result.success) {
       return res.status(404).json({
@@ -69,9 +140,18 @@ router.get('/key-info/:key', (req: Request, res: Response) => {
       })
     }
 
+    const info = result.info!
     res.json({
       success: true,
-      info: result.info
+      info: {
+        keyPrefix: info.keyPrefix,
+        issuedAt: info.issuedAt,
+        expiresAt: info.expiresAt,
+        validDays: info.validDays,
+        isActive: info.isActive,
+        remainingDays: getRemainingDays(info.expiresAt),
+        plan: getLicensePlan(info.plan)
+      }
     })
   } catch (error: any) {
     console.error('키 정보 조회 오류:', error)
@@ -0,0 +1,58 @@
+/**
+ * 백테스트 관련 라우터
+ * 과거 캔들을 자동매매 엔진과 같은 매수/매도 조건으로 재생
+ */
+import { Router, Request, Response } from 'express'
+import { BacktestService } from '../services/backtestService'
+
+const router = Router()
+const backtestService = BacktestService.getInstance()
+
+/**
+ * 백테스트 실행
+ * POST /api/backtest
+ * Body: { code, name?, period?: 'min' | 'day', candles?, dailyCandles?, config?, fees?, initialCapital? }
+ * candles를 생략하면 키움 차트 API로 조회
+ */
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const { code, candles, dailyCandles } = req.body
+
+    if (!code) {
+      return res.status(400).json({
+        success: false,
+        message: '종목코드가 필요합니다',
+      })
+    }
+
+    if ((candles !== undefined && !Array.isArray(candles)) ||
+        (dailyCandles !== undefined && !Array.isArray(dailyCandles))) {
+      return res.status(400).json({
+        success: false,
+        message: '캔들 데이터는 배열이어야 합니다',
+      })
+    }
+
+    const result = await backtestService.run(req.body)
+
+    res.json({
+      success: true,
+      result,
+    })
+  } catch (error: any) {
+    if (error.isInvalidQuery || error.isInvalidConfig) {
+      return res.status(400).json({
+        success: false,
+        message: error.message,
+      })
+    }
+    console.error('백테스트 실행 오류:', error)
+    res.status(500).json({
+      success: false,
+      message: '백테스트 실행 실패',
+      detail: error.message,
+    })
+  }
+})
+
+export default router
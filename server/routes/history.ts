@@ -0,0 +1,126 @@
+/**
+ * 매매 기록 관련 라우터
+ * DB에 저장된 주문, 체결, 보유 종목, 일별 손익, 전략 신호 조회
+ */
+import { Router, Request, Response } from 'express'
+import { TradingRepository, HistoryFilter } from '../services/tradingRepository'
+
+const router = Router()
+const tradingRepository = TradingRepository.getInstance()
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+/**
+ * 공통 조회 조건 (accountNo, date=YYYY-MM-DD, code, limit)
+ */
+function getHistoryFilter(req: Request): HistoryFilter | string {
+  const { accountNo, date, code, limit } = req.query
+  if (date && !DATE_PATTERN.test(String(date))) {
+    return '날짜는 YYYY-MM-DD 형식이어야 합니다'
+  }
+  return {
+    accountNo: accountNo ? String(accountNo) : undefined,
+    tradeDate: date ? String(date) : undefined,
+    code: code ? String(code).trim() : undefined,
+    limit: limit ? Number(limit) : undefined,
+  }
+}
+
+function sendHistoryError(res: Response, label: string, error: any) {
+  console.error(`${label} 오류:`, error)
+  res.status(500).json({
+    success: false,
+    message: `${label} 실패`,
+    detail: error.message,
+  })
+}
+
+/**
+ * 주문 기록 조회
+ * GET /api/history/orders?accountNo=&date=&code=&limit=
+ */
+router.get('/orders', async (req: Request, res: Response) => {
+  try {
+    const filter = getHistoryFilter(req)
+    if (typeof filter === 'string') {
+      return res.status(400).json({ success: false, message: filter })
+    }
+
+    res.json({ success: true, orders: await tradingRepository.getOrders(filter) })
+  } catch (error: any) {
+    sendHistoryError(res, '주문 기록 조회', error)
+  }
+})
+
+/**
+ * 체결 기록 조회
+ * GET /api/history/fills?accountNo=&date=&code=&limit=
+ */
+router.get('/fills', async (req: Request, res: Response) => {
+  try {
+    const filter = getHistoryFilter(req)
+    if (typeof filter === 'string') {
+      return res.status(400).json({ success: false, message: filter })
+    }
+
+    res.json({ success: true, fills: await tradingRepository.getFills(filter) })
+  } catch (error: any) {
+    sendHistoryError(res, '체결 기록 조회', error)
+  }
+})
+
+/**
+ * 마지막으로 기록된 보유 종목 조회
+ * GET /api/history/positions?accountNo=
+ */
+router.get('/positions', async (req: Request, res: Response) => {
+  try {
+    const accountNo = req.query.accountNo ? String(req.query.accountNo) : undefined
+    res.json({ success: true, positions: await tradingRepository.getPositions(accountNo) })
+  } catch (error: any) {
+    sendHistoryError(res, '보유 종목 기록 조회', error)
+  }
+})
+
+/**
+ * 일별 손익 조회
+ * GET /api/history/daily-pnl?accountNo=&from=YYYY-MM-DD&to=YYYY-MM-DD
+ */
+router.get('/daily-pnl', async (req: Request, res: Response) => {
+  try {
+    const { accountNo, from, to } = req.query
+    if ((from && !DATE_PATTERN.test(String(from))) || (to && !DATE_PATTERN.test(String(to)))) {
+      return res.status(400).json({ success: false, message: '날짜는 YYYY-MM-DD 형식이어야 합니다' })
+    }
+
+    res.json({
+      success: true,
+      dailyPnl: await tradingRepository.getDailyPnl({
+        accountNo: accountNo ? String(accountNo) : undefined,
+        from: from ? String(from) : undefined,
+        to: to ? String(to) : undefined,
+      }),
+    })
+  } catch (error: any) {
+    sendHistoryError(res, '일별 손익 조회', error)
+  }
+})
+
+/**
+ * 전략 신호 기록 조회
+ * GET /api/history/signals?date=&code=&limit=
+ */
+router.get('/signals', async (req: Request, res: Response) => {
+  try {
+    const filter = getHistoryFilter(req)
+    if (typeof filter === 'string') {
+      return res.status(400).json({ success: false, message: filter })
+    }
+
+    res.json({ success: true, signals: await tradingRepository.getSignals(filter) })
+  } catch (error: any) {
+    sendHistoryError(res, '전략 신호 조회', error)
+  }
+})
+
+export default router
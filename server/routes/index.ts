@@ -1,8 +1,11 @@
 /**
  * 메인 라우터
  * 모든 API 라우트를 통합 관리
+ * 인증(auth), 관리자(admin), 전략 목록(strategies)을 제외한 라우터는 라이선스 세션 필요
+ * 라이선스 플랜 제한은 키움 연결, 자동매매 시작, 주문/취소에서 확인
  */
 import { Router } from 'express'
+import { requireLicense, requireLicenseExcept, requireRealTradingPlan } from '../middleware/requireLicense'
 import kiwoomRoutes from './kiwoom'
 import accountRoutes from './account'
 import stockRoutes from './stock'
@@ -11,18 +14,34 @@ import settingsRoutes from './settings'
 import conditionRoutes from './condition'
 import adminRoutes from './admin'
 import authRoutes from './auth'
+import tradingRoutes from './trading'
+import backtestRoutes from './backtest'
+import riskRoutes from './risk'
+import historyRoutes from './history'
+import reportsRoutes from './reports'
+import strategiesRoutes from './strategies'
+import realtimeRoutes from './realtime'
 
 const router = Router()
 
 // 각 라우터 등록
-router.use('/kiwoom', kiwoomRoutes) // /api/kiwoom/*
-router.use('/accounts', accountRoutes) // /api/accounts/*
-router.use('/stocks', stockRoutes) // /api/stocks/*
-router.use('/orders', orderRoutes) // /api/orders/*
-router.use('/settings', settingsRoutes) // /api/settings/*
-router.use('/conditions', conditionRoutes) // /api/conditions/*
+// 연결 상태 조회, 연결 해제는 라이선스 없이 사용 가능
+// 자동매매 중지/매매 정지/긴급 정지는 라우트에서 requireEmergencyAccess로 인증 (만료된 키는 주문이 나가지 않는 정지만 가능)
+router.use('/kiwoom', requireLicenseExcept('GET /status', 'POST /disconnect'), kiwoomRoutes) // /api/kiwoom/*
+router.use('/accounts', requireLicense, accountRoutes) // /api/accounts/*
+router.use('/stocks', requireLicense, stockRoutes) // /api/stocks/*
+router.use('/orders', requireLicense, requireRealTradingPlan, orderRoutes) // /api/orders/*
+router.use('/settings', requireLicense, settingsRoutes) // /api/settings/*
+router.use('/conditions', requireLicense, conditionRoutes) // /api/conditions/*
 router.use('/admin', adminRoutes) // /api/admin/*
 router.use('/auth', authRoutes) // /api/auth/*
+router.use('/trading', requireLicenseExcept('GET /status', 'POST /stop', 'POST /halt', 'POST /resume', 'PUT /circuit-breaker'), tradingRoutes) // /api/trading/*
+router.use('/backtest', requireLicense, backtestRoutes) // /api/backtest
+router.use('/risk', requireLicenseExcept('POST /kill-switch'), riskRoutes) // /api/risk/*
+router.use('/history', requireLicense, historyRoutes) // /api/history/*
+router.use('/reports', requireLicense, reportsRoutes) // /api/reports/*
+router.use('/strategies', strategiesRoutes) // /api/strategies
+router.use('/realtime', requireLicense, realtimeRoutes) // /api/realtime/*
 
 export default router
 
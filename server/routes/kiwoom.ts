@@ -2,12 +2,17 @@
  * 키움증권 연결 관련 라우터
  */
 import { Router, Request, Response } from 'express'
-import { KiwoomService } from '../services/kiwoomService'
+import { KiwoomService, isMockHost } from '../services/kiwoomService'
+import { RealtimeSubscriptionManager } from '../services/realtimeSubscriptions'
+import { hashIdentifier, LicenseSession } from '../services/keyService'
+import { getPlanRestriction } from '../middleware/requireLicense'
 
 const router = Router()
 const kiwoomService = KiwoomService.getInstance()
+const subscriptionManager = RealtimeSubscriptionManager.getInstance()
+const REST_CONSUMER = 'watchlist' // REST로 등록한 종목(관심종목, 보유 종목 화면)의 실시간 구독자
 
-// 키움증권 API 연결
+// 키움증권 API 연결 (라이선스 세션 필요, routes/index.ts)
 router.post('/connect', async (req: Request, res: Response) => {
   try {
     const { appkey, secretkey, host } = req.body
@@ -19,8 +24,25 @@ router.post('/connect', async (req: Request, res: Response) => {
       })
     }
 
+    // App Key로 검증한 세션이면 같은 App Key로만 연결 가능
+    const license: LicenseSession = res.locals.license
+    if (license.appkeyHash && license.appkeyHash !== hashIdentifier(appkey)) {
+      return res.status(403).json({
+        success: false,
+        code: 'binding_mismatch',
+        message: '라이선스 키를 검증한 App Key와 다릅니다'
+      })
+    }
+
+    // KIWOOM_MOCK_HOST가 설정되면 로컬 모의 브로커로 연결 (오프라인 개발용)
     // host가 없으면 키움증권 실제 운영 서버 사용 (기본값)
-    const apiHost = host || 'https://api.kiwoom.com'
+    const apiHost = process.env.KIWOOM_MOCK_HOST || host || 'https://api.kiwoom.com'
+
+    // 모의투자 전용 플랜은 실전투자 서버에 연결할 수 없음
+    const restriction = getPlanRestriction(res, { realTrading: !isMockHost(apiHost) })
+    if (restriction) {
+      return res.status(403).json(restriction)
+    }
 
     await kiwoomService.connect(apiHost, appkey, secretkey)
 
@@ -76,6 +98,16 @@ router.get('/status', (req: Request, res: Response) => {
     success: true,
     connected: isConnected,
     webSocketConnected: isWebSocketConnected,
+    webSocket: kiwoomService.getWebSocketState(),
+    timestamp: new Date().toISOString()
+  })
+})
+
+// 요청 스케줄러 현황 (레인별 대기 요청 수, 대기 시간, 요청 제한)
+router.get('/scheduler', (req: Request, res: Response) => {
+  res.json({
+    success: true,
+    scheduler: kiwoomService.getSchedulerMetrics(),
     timestamp: new Date().toISOString()
   })
 })
@@ -118,24 +150,46 @@ router.post('/websocket/register', async (req: Request, res: Response) => {
       })
     }
 
-    if (!kiwoomService.isWebSocketConnected()) {
+    // WebSocket 로그인 전이면 구독만 기록하고 로그인 후 등록
+    subscriptionManager.subscribe(REST_CONSUMER, codes.map(String))
+
+    res.json({
+      success: true,
+      message: `${codes.length}개 종목 실시간 시세 등록 완료`
+    })
+  } catch (error: any) {
+    console.error('실시간 시세 등록 오류:', error)
+    res.status(500).json({
+      success: false,
+      error: '실시간 시세 등록 실패',
+      message: error.message
+    })
+  }
+})
+
+// WebSocket 실시간 시세 해지 (다른 구독자가 남아 있는 종목은 등록 유지)
+router.post('/websocket/unregister', async (req: Request, res: Response) => {
+  try {
+    const { codes } = req.body
+
+    if (!Array.isArray(codes) || codes.length === 0) {
       return res.status(400).json({
         success: false,
-        error: 'WebSocket이 연결되지 않았습니다'
+        error: '종목코드 배열이 필요합니다'
       })
     }
 
-    kiwoomService.registerRealTimeStocks(codes)
+    subscriptionManager.unsubscribe(REST_CONSUMER, codes.map(String))
 
     res.json({
       success: true,
-      message: `${codes.length}개 종목 실시간 시세 등록 완료`
+      message: `${codes.length}개 종목 실시간 시세 해지 완료`
     })
   } catch (error: any) {
-    console.error('실시간 시세 등록 오류:', error)
+    console.error('실시간 시세 해지 오류:', error)
     res.status(500).json({
       success: false,
-      error: '실시간 시세 등록 실패',
+      error: '실시간 시세 해지 실패',
       message: error.message
     })
   }
@@ -2,10 +2,40 @@
  * 주문 관련 라우터
  */
 import { Router, Request, Response } from 'express'
-import { KiwoomService } from '../services/kiwoomService'
+import { KiwoomService, FULL_PAGINATION } from '../services/kiwoomService'
+import { OrderManager, OrderStatus, OrderSide } from '../services/orderManager'
 
 const router = Router()
 const kiwoomService = KiwoomService.getInstance()
+const orderManager = OrderManager.getInstance()
+
+// 주문 목록 조회 (서버에서 추적하는 주문 상태)
+// GET /api/orders?status=&code=&side=&active=true&sync=true&accountNo=
+// sync=true면 주문 내역 조회로 체결/취소 상태를 먼저 동기화
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const { status, code, side, active, sync, accountNo } = req.query
+
+    if (sync === 'true') {
+      await orderManager.sync(String(accountNo || ''))
+    }
+
+    res.json({
+      orders: orderManager.getOrders({
+        status: status ? String(status) as OrderStatus : undefined,
+        code: code ? String(code) : undefined,
+        side: side ? String(side) as OrderSide : undefined,
+        active: active === undefined ? undefined : active === 'true',
+      })
+    })
+  } catch (error: any) {
+    console.error('주문 목록 조회 오류:', error.message)
+    res.status(500).json({
+      error: '주문 목록 조회 실패',
+      detail: error.message
+    })
+  }
+})
 
 // 주문 전송
 router.post('/', async (req: Request, res: Response) => {
@@ -55,20 +85,38 @@ router.post('/', async (req: Request, res: Response) => {
       })
     }
 
-    const result = await kiwoomService.placeOrder(
+    const { order, result } = await orderManager.submit(
       {
         code,
         quantity,
         price: price || 0,
         order_type,
-        order_option: order_option || (order_type === 'buy' ? '03' : '03') // 시장가 기본값
+        order_option: order_option || (order_type === 'buy' ? '03' : '03'), // 시장가 기본값
+        source: 'manual',
       },
       accountNo,
       accountProductCode
     )
 
-    res.json(result)
+    res.json({ ...result, order })
   } catch (error: any) {
+    // 같은 종목·같은 방향의 진행 중인 주문이 있는 경우
+    if (error.isDuplicateOrder) {
+      return res.status(409).json({
+        error: '중복 주문',
+        detail: error.message,
+        orderNumber: error.orderNumber
+      })
+    }
+    // 서버 리스크 한도 위반
+    if (error.isRiskRejected) {
+      return res.status(403).json({
+        error: '리스크 한도 위반',
+        detail: error.message,
+        rejection: error.rejection
+      })
+    }
+
     // 상세 에러 로깅
     console.error('[주문 전송 오류]', {
       종목코드: req.body.code,
@@ -138,7 +186,7 @@ router.get('/history', async (req: Request, res: Response) => {
 
     // 키움증권 API를 통해 주문 내역 조회
     // 실제 구현은 키움증권 API 문서에 따라 수정 필요
-    const orderHistory = await kiwoomService.getOrderHistory(accountNo)
+    const orderHistory = await kiwoomService.getOrderHistory(accountNo, FULL_PAGINATION)
 
     res.json({
       orders: orderHistory || []
@@ -166,5 +214,155 @@ router.get('/history', async (req: Request, res: Response) => {
   }
 })
 
-export default router
+// 주문 상세 조회 (상태 변경 이력 포함)
+// GET /api/orders/:orderNumber
+router.get('/:orderNumber', async (req: Request, res: Response) => {
+  try {
+    const order = orderManager.getOrder(req.params.orderNumber)
+    if (!order) {
+      return res.status(404).json({
+        error: '주문을 찾을 수 없습니다',
+        orderNumber: req.params.orderNumber
+      })
+    }
+
+    res.json({ order })
+  } catch (error: any) {
+    console.error('주문 상세 조회 오류:', error.message)
+    res.status(500).json({
+      error: '주문 상세 조회 실패',
+      detail: error.message
+    })
+  }
+})
+
+// 주문 취소 (부분 취소 지원)
+// DELETE /api/orders/:orderNumber
+// Body: { code, quantity?(생략 또는 0이면 잔량 전부), accountNo?, accountProductCode? }
+router.delete('/:orderNumber', async (req: Request, res: Response) => {
+  try {
+    if (!kiwoomService.isConnected()) {
+      return res.status(400).json({
+        error: '키움증권 API에 연결되지 않았습니다'
+      })
+    }
+
+    const { orderNumber } = req.params
+    const { code, quantity, accountNo, accountProductCode } = { ...req.query, ...req.body }
+    const validationError = validateOrderRevision(code, quantity, accountNo, accountProductCode)
+    if (validationError) {
+      return res.status(400).json({ error: validationError })
+    }
+
+    const { order, result } = await orderManager.cancel(
+      orderNumber,
+      {
+        code: String(code).trim(),
+        quantity: quantity ? Number(quantity) : 0,
+      },
+      accountNo,
+      accountProductCode
+    )
+
+    res.json({ ...result, order })
+  } catch (error: any) {
+    console.error('[주문 취소 오류]', {
+      주문번호: req.params.orderNumber,
+      에러메시지: error.message,
+      returnCode: error.returnCode,
+    })
+    res.status(getRevisionErrorStatus(error)).json({
+      error: '주문 취소 실패',
+      detail: error.message,
+      orderNumber: req.params.orderNumber,
+      returnCode: error.returnCode
+    })
+  }
+})
+
+// 주문 정정 (가격/수량)
+// PATCH /api/orders/:orderNumber
+// Body: { code, price, quantity?(생략 또는 0이면 잔량 전부), accountNo?, accountProductCode? }
+// 응답의 orderNumber는 새 주문번호, originalOrderNumber는 원주문번호
+router.patch('/:orderNumber', async (req: Request, res: Response) => {
+  try {
+    if (!kiwoomService.isConnected()) {
+      return res.status(400).json({
+        error: '키움증권 API에 연결되지 않았습니다'
+      })
+    }
+
+    const { orderNumber } = req.params
+    const { code, quantity, price, accountNo, accountProductCode } = req.body
+    const validationError = validateOrderRevision(code, quantity, accountNo, accountProductCode)
+    if (validationError) {
+      return res.status(400).json({ error: validationError })
+    }
+
+    if (!price || Number(price) <= 0) {
+      return res.status(400).json({
+        error: '정정 주문 가격이 필요합니다'
+      })
+    }
+
+    const { order, originalOrder, result } = await orderManager.modify(
+      orderNumber,
+      {
+        code: String(code).trim(),
+        quantity: quantity ? Number(quantity) : 0,
+        price: Number(price),
+      },
+      accountNo,
+      accountProductCode
+    )
+
+    res.json({ ...result, order, originalOrder })
+  } catch (error: any) {
+    console.error('[주문 정정 오류]', {
+      주문번호: req.params.orderNumber,
+      에러메시지: error.message,
+      returnCode: error.returnCode,
+    })
+    res.status(getRevisionErrorStatus(error)).json({
+      error: '주문 정정 실패',
+      detail: error.message,
+      orderNumber: req.params.orderNumber,
+      returnCode: error.returnCode,
+      rejection: error.rejection
+    })
+  }
+})
 
+/**
+ * 정정/취소 요청 검증 (오류 메시지 반환, 정상이면 null)
+ */
+function validateOrderRevision(code: any, quantity: any, accountNo: any, accountProductCode: any): string | null {
+  if (!code || !/^\d{6}$/.test(String(code).trim())) {
+    return '6자리 종목코드(code)가 필요합니다'
+  }
+  if (quantity !== undefined && quantity !== '' && (!Number.isInteger(Number(quantity)) || Number(quantity) < 0)) {
+    return '정정/취소 수량은 0 이상의 정수여야 합니다 (0: 잔량 전부)'
+  }
+  if (!kiwoomService.isMockApi() && (!accountNo || !accountProductCode)) {
+    return 'accountNo, accountProductCode가 필요합니다'
+  }
+  return null
+}
+
+/**
+ * 정정/취소 실패 HTTP 상태 (리스크 한도 위반은 403, 이미 종료된 주문은 409, 키움 응답 거부는 400, 그 외 500)
+ */
+function getRevisionErrorStatus(error: any): number {
+  if (error.isRiskRejected) {
+    return 403
+  }
+  if (error.isClosedOrder) {
+    return 409
+  }
+  if (error.returnCode !== undefined || error.message?.includes('원주문번호') || error.message?.includes('종목코드')) {
+    return 400
+  }
+  return error.response?.status || 500
+}
+
+export default router
@@ -0,0 +1,31 @@
+/**
+ * 실시간 시세 구독 관련 라우터
+ * RealtimeSubscriptionManager의 구독 종목/구독자/그룹 현황 조회
+ */
+import { Router, Request, Response } from 'express'
+import { RealtimeSubscriptionManager } from '../services/realtimeSubscriptions'
+
+const router = Router()
+const subscriptionManager = RealtimeSubscriptionManager.getInstance()
+
+/**
+ * 실시간 구독 현황 조회
+ * GET /api/realtime/subscriptions
+ */
+router.get('/subscriptions', (req: Request, res: Response) => {
+  try {
+    res.json({
+      success: true,
+      ...subscriptionManager.getSummary(),
+    })
+  } catch (error: any) {
+    console.error('실시간 구독 현황 조회 오류:', error)
+    res.status(500).json({
+      success: false,
+      message: '실시간 구독 현황 조회 실패',
+      detail: error.message,
+    })
+  }
+})
+
+export default router
@@ -0,0 +1,95 @@
+/**
+ * 보고서 관련 라우터
+ * 체결 기록 기반 실현손익 (일별, 월별, 전략별)
+ */
+import { Router, Request, Response } from 'express'
+import { PnlLedger } from '../services/pnlLedger'
+
+const router = Router()
+const pnlLedger = PnlLedger.getInstance()
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+/**
+ * 실현손익 보고서
+ * GET /api/reports/pnl?accountNo=&from=YYYY-MM-DD&to=YYYY-MM-DD&includeTrades=true
+ */
+router.get('/pnl', async (req: Request, res: Response) => {
+  try {
+    const { accountNo, from, to, includeTrades } = req.query
+    if ((from && !DATE_PATTERN.test(String(from))) || (to && !DATE_PATTERN.test(String(to)))) {
+      return res.status(400).json({ success: false, message: '날짜는 YYYY-MM-DD 형식이어야 합니다' })
+    }
+
+    const report = await pnlLedger.getReport({
+      accountNo: accountNo !== undefined ? String(accountNo) : undefined,
+      from: from ? String(from) : undefined,
+      to: to ? String(to) : undefined,
+    })
+
+    res.json({
+      success: true,
+      ...report,
+      trades: String(includeTrades) === 'true' ? report.trades : undefined,
+    })
+  } catch (error: any) {
+    console.error('실현손익 조회 오류:', error)
+    res.status(500).json({
+      success: false,
+      message: '실현손익 조회 실패',
+      detail: error.message,
+    })
+  }
+})
+
+/**
+ * 실현손익 계산 설정 조회
+ * GET /api/reports/pnl/settings
+ */
+router.get('/pnl/settings', async (req: Request, res: Response) => {
+  try {
+    res.json({ success: true, settings: await pnlLedger.getSettings() })
+  } catch (error: any) {
+    console.error('실현손익 설정 조회 오류:', error)
+    res.status(500).json({
+      success: false,
+      message: '실현손익 설정 조회 실패',
+      detail: error.message,
+    })
+  }
+})
+
+/**
+ * 실현손익 계산 설정 변경
+ * PUT /api/reports/pnl/settings
+ * Body: { method?: 'fifo' | 'average', commissionPercent?, taxPercent? }
+ */
+router.put('/pnl/settings', async (req: Request, res: Response) => {
+  try {
+    const { method, commissionPercent, taxPercent } = req.body || {}
+    if (method !== undefined && method !== 'fifo' && method !== 'average') {
+      return res.status(400).json({ success: false, message: 'method는 fifo 또는 average여야 합니다' })
+    }
+
+    const settings = await pnlLedger.updateSettings({
+      ...(method !== undefined && { method }),
+      ...(commissionPercent !== undefined && { commissionPercent }),
+      ...(taxPercent !== undefined && { taxPercent }),
+    })
+
+    res.json({
+      success: true,
+      message: '실현손익 설정이 저장되었습니다',
+      settings,
+    })
+  } catch (error: any) {
+    console.error('실현손익 설정 저장 오류:', error)
+    res.status(500).json({
+      success: false,
+      message: '실현손익 설정 저장 실패',
+      detail: error.message,
+    })
+  }
+})
+
+export default router
@@ -0,0 +1,129 @@
+/**
+ * 리스크 관리 관련 라우터
+ * 서버 측 RiskGuard의 한도 조회/변경, 긴급 정지, 거부 내역 조회
+ * 긴급 정지는 라이선스 세션 또는 관리자 토큰 필요 (키가 만료되었으면 켜기만 가능)
+ */
+import { Router, Request, Response } from 'express'
+import { RiskGuard } from '../services/riskGuard'
+import { requireEmergencyAccess } from '../middleware/requireLicense'
+
+const router = Router()
+const riskGuard = RiskGuard.getInstance()
+
+/**
+ * 리스크 한도 및 당일 현황 조회
+ * GET /api/risk
+ * Query: accountNo (당일 실현손익 계좌, 없으면 전체 계좌)
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const accountNo = typeof req.query.accountNo === 'string' ? req.query.accountNo : undefined
+    res.json({
+      success: true,
+      limits: await riskGuard.getLimits(),
+      state: await riskGuard.getState(accountNo),
+    })
+  } catch (error: any) {
+    console.error('리스크 한도 조회 오류:', error)
+    res.status(500).json({
+      success: false,
+      message: '리스크 한도 조회 실패',
+      detail: error.message,
+    })
+  }
+})
+
+/**
+ * 리스크 한도 변경 (보낸 항목만 변경)
+ * PUT /api/risk
+ * Body: Partial<RiskLimits>
+ */
+router.put('/', async (req: Request, res: Response) => {
+  try {
+    if (!req.body || typeof req.body !== 'object' || Array.isArray(req.body)) {
+      return res.status(400).json({
+        success: false,
+        message: '변경할 리스크 한도가 필요합니다',
+      })
+    }
+
+    const limits = await riskGuard.updateLimits(req.body)
+
+    res.json({
+      success: true,
+      message: '리스크 한도가 저장되었습니다',
+      limits,
+    })
+  } catch (error: any) {
+    console.error('리스크 한도 저장 오류:', error)
+    res.status(500).json({
+      success: false,
+      message: '리스크 한도 저장 실패',
+      detail: error.message,
+    })
+  }
+})
+
+/**
+ * 긴급 정지(킬 스위치) 켜기/끄기
+ * POST /api/risk/kill-switch
+ * Body: { enabled: boolean }
+ */
+router.post('/kill-switch', requireEmergencyAccess, async (req: Request, res: Response) => {
+  try {
+    const { enabled } = req.body || {}
+    if (typeof enabled !== 'boolean') {
+      return res.status(400).json({
+        success: false,
+        message: 'enabled(true/false) 값이 필요합니다',
+      })
+    }
+
+    if (!enabled && res.locals.emergencyOnly === true) {
+      return res.status(403).json({
+        success: false,
+        code: 'emergency_only',
+        message: '라이선스가 만료되어 긴급 정지를 해제할 수 없습니다',
+      })
+    }
+
+    const limits = await riskGuard.setKillSwitch(enabled)
+
+    res.json({
+      success: true,
+      message: enabled ? '긴급 정지가 켜졌습니다. 신규 주문이 모두 거부됩니다' : '긴급 정지가 해제되었습니다',
+      limits,
+    })
+  } catch (error: any) {
+    console.error('긴급 정지 설정 오류:', error)
+    res.status(500).json({
+      success: false,
+      message: '긴급 정지 설정 실패',
+      detail: error.message,
+    })
+  }
+})
+
+/**
+ * 리스크 점검 거부 내역 조회 (최신 먼저)
+ * GET /api/risk/rejections?limit=50
+ */
+router.get('/rejections', async (req: Request, res: Response) => {
+  try {
+    const limit = Math.min(Math.max(Number(req.query.limit) || 50, 1), 200)
+
+    res.json({
+      success: true,
+      rejections: riskGuard.getRejections(limit),
+    })
+  } catch (error: any) {
+    console.error('리스크 거부 내역 조회 오류:', error)
+    res.status(500).json({
+      success: false,
+      message: '리스크 거부 내역 조회 실패',
+      detail: error.message,
+    })
+  }
+})
+
+export default router
@@ -3,9 +3,15 @@
  */
 import { Router, Request, Response } from 'express'
 import { KiwoomService } from '../services/kiwoomService'
+import { BarBuilder, BAR_TIMEFRAMES } from '../services/barBuilder'
+import { CandleStore } from '../services/candleStore'
+import { OrderBookService } from '../services/orderBookService'
 
 const router = Router()
 const kiwoomService = KiwoomService.getInstance()
+const barBuilder = BarBuilder.getInstance()
+const candleStore = CandleStore.getInstance()
+const orderBookService = OrderBookService.getInstance()
 
 // 종목 리스트 조회
 router.get('/', async (req: Request, res: Response) => {
@@ -105,6 +111,8 @@ router.post('/prices/batch', async (req: Request, res: Response) => {
 })
 
 // 차트 데이터 조회
+// 분봉(min)/일봉(day)은 캔들 저장소에서 구간 조회 (start/end: YYYYMMDD, 분봉은 YYYYMMDDHHmm도 가능)
+// 그 외 주기(tick, 3, 5 등)는 차트 API를 그대로 호출
 router.get('/:code/candle', async (req: Request, res: Response) => {
   try {
     if (!kiwoomService.isConnected()) {
@@ -118,9 +126,16 @@ router.get('/:code/candle', async (req: Request, res: Response) => {
     const start = req.query.start as string || ''
     const end = req.query.end as string || ''
 
-    const candles = await kiwoomService.getCandleData(code, period, start, end)
+    const candles = CandleStore.isPeriod(period)
+      ? await candleStore.getCandles({ code, period, start, end })
+      : await kiwoomService.getCandleData(code, period, start, end)
     res.json({ candles })
   } catch (error: any) {
+    if (error.isInvalidQuery) {
+      return res.status(400).json({
+        error: error.message
+      })
+    }
     console.error('차트 데이터 조회 오류:', error)
     res.status(500).json({
       error: '차트 데이터 조회 실패',
@@ -129,5 +144,55 @@ router.get('/:code/candle', async (req: Request, res: Response) => {
   }
 })
 
+// 실시간 분봉 조회 (실시간 체결로 만든 분봉, 처음 조회하는 종목만 차트 API로 과거 분봉을 채움)
+// GET /api/stocks/:code/bars?timeframe=1|3|5|15|30|60&limit=
+router.get('/:code/bars', async (req: Request, res: Response) => {
+  try {
+    if (!kiwoomService.isConnected()) {
+      return res.status(400).json({
+        error: '키움증권 API에 연결되지 않았습니다'
+      })
+    }
+
+    const { code } = req.params
+    const timeframe = Number(req.query.timeframe || 1)
+    if (!BarBuilder.isTimeframe(timeframe)) {
+      return res.status(400).json({
+        error: `timeframe은 ${BAR_TIMEFRAMES.join(', ')} 중 하나여야 합니다`
+      })
+    }
+    const limit = req.query.limit ? Number(req.query.limit) : undefined
+
+    const bars = await barBuilder.getBars(code, timeframe, limit)
+    res.json({ code, timeframe, bars })
+  } catch (error: any) {
+    console.error('실시간 분봉 조회 오류:', error)
+    res.status(500).json({
+      error: '실시간 분봉 조회 실패',
+      detail: error.message
+    })
+  }
+})
+
+// 호가 조회 (매도/매수 10단계, 실시간 호가가 없으면 주식호가 TR로 조회)
+router.get('/:code/orderbook', async (req: Request, res: Response) => {
+  try {
+    if (!kiwoomService.isConnected()) {
+      return res.status(400).json({
+        error: '키움증권 API에 연결되지 않았습니다'
+      })
+    }
+
+    const orderBook = await orderBookService.getOrderBook(req.params.code)
+    res.json(orderBook)
+  } catch (error: any) {
+    console.error('호가 조회 오류:', error)
+    res.status(500).json({
+      error: '호가 조회 실패',
+      detail: error.message
+    })
+  }
+})
+
 export default router
 
@@ -0,0 +1,28 @@
+/**
+ * 매수 전략 관련 라우터
+ * 등록된 전략 목록과 파라미터 스키마 조회 (설정 화면이 입력 항목을 그리는 데 사용)
+ */
+import { Router, Request, Response } from 'express'
+import { StrategyRegistry } from '../services/strategyRegistry'
+
+const router = Router()
+const strategyRegistry = StrategyRegistry.getInstance()
+
+/**
+ * 전략 목록 조회 (판단 순서대로)
+ * GET /api/strategies
+ */
+router.get('/', (req: Request, res: Response) => {
+  try {
+    res.json({ success: true, strategies: strategyRegistry.getDefinitions() })
+  } catch (error: any) {
+    console.error('전략 목록 조회 오류:', error)
+    res.status(500).json({
+      success: false,
+      message: '전략 목록 조회 실패',
+      detail: error.message,
+    })
+  }
+})
+
+export default router
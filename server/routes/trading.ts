@@ -0,0 +1,292 @@
+/**
+ * 자동매매 엔진 관련 라우터
+ * 서버 측 TradingEngine의 시작/중지/상태 조회
+ * 상태 조회, 중지, 매매 정지 외에는 라이선스 세션 필요 (routes/index.ts)
+ * 중지와 매매 정지는 라이선스 세션 또는 관리자 토큰 필요 (키가 만료되었으면 주문이 나가지 않는 정지만 허용)
+ * 매매 정지 해제와 서킷 브레이커 설정 변경은 관리자 토큰만 허용
+ * 시작할 때 라이선스 플랜 제한(실전투자, 매수 전략 수, 최대 보유 종목 수) 확인
+ */
+import { Router, Request, Response } from 'express'
+import { KiwoomService } from '../services/kiwoomService'
+import { TradingEngine, TradingEngineConfig, parseEngineConfig } from '../services/tradingEngine'
+import { CircuitBreaker } from '../services/circuitBreaker'
+import { countEnabledStrategies } from '../services/strategyRegistry'
+import { getPlanRestriction, requireEmergencyAccess } from '../middleware/requireLicense'
+import { requireAdmin } from '../middleware/requireAdmin'
+
+const router = Router()
+const kiwoomService = KiwoomService.getInstance()
+const tradingEngine = TradingEngine.getInstance()
+const circuitBreaker = CircuitBreaker.getInstance()
+
+/**
+ * 자동매매 시작
+ * POST /api/trading/start
+ * Body: TradingEngineConfig (계좌, 조건식, 매매설정, 보낸 항목만 검증하고 빠진 항목은 기본값)
+ */
+router.post('/start', async (req: Request, res: Response) => {
+  try {
+    if (!kiwoomService.isConnected()) {
+      return res.status(400).json({
+        success: false,
+        message: '키움증권 API에 먼저 연결해주세요',
+      })
+    }
+
+    if (tradingEngine.isRunning()) {
+      return res.status(409).json({
+        success: false,
+        message: '자동매매가 이미 실행 중입니다',
+        status: tradingEngine.getStatus(),
+      })
+    }
+
+    const { conditions } = req.body
+    if (!Array.isArray(conditions)) {
+      return res.status(400).json({
+        success: false,
+        message: '조건식 배열이 필요합니다',
+      })
+    }
+
+    let config: TradingEngineConfig
+    try {
+      config = parseEngineConfig(req.body)
+    } catch (configError: any) {
+      return res.status(400).json({
+        success: false,
+        message: configError.message,
+      })
+    }
+
+    const restriction = getPlanRestriction(res, {
+      realTrading: !kiwoomService.isMockApi(),
+      strategies: countEnabledStrategies(config),
+      positions: config.maxSimultaneousBuy
+    })
+    if (restriction) {
+      return res.status(403).json(restriction)
+    }
+
+    try {
+      tradingEngine.start(config)
+    } catch (startError: any) {
+      return res.status(400).json({
+        success: false,
+        message: startError.message,
+      })
+    }
+
+    res.json({
+      success: true,
+      message: '자동매매가 시작되었습니다',
+      status: tradingEngine.getStatus(),
+    })
+  } catch (error: any) {
+    console.error('자동매매 시작 오류:', error)
+    res.status(500).json({
+      success: false,
+      message: '자동매매 시작 실패',
+      detail: error.message,
+    })
+  }
+})
+
+/**
+ * 자동매매 중지
+ * POST /api/trading/stop
+ */
+router.post('/stop', requireEmergencyAccess, async (req: Request, res: Response) => {
+  try {
+    tradingEngine.stop()
+
+    res.json({
+      success: true,
+      message: '자동매매가 중지되었습니다',
+      status: tradingEngine.getStatus(),
+    })
+  } catch (error: any) {
+    console.error('자동매매 중지 오류:', error)
+    res.status(500).json({
+      success: false,
+      message: '자동매매 중지 실패',
+      detail: error.message,
+    })
+  }
+})
+
+/**
+ * 자동매매 상태 조회
+ * GET /api/trading/status
+ */
+router.get('/status', async (req: Request, res: Response) => {
+  try {
+    res.json({
+      success: true,
+      status: tradingEngine.getStatus(),
+    })
+  } catch (error: any) {
+    console.error('자동매매 상태 조회 오류:', error)
+    res.status(500).json({
+      success: false,
+      message: '자동매매 상태 조회 실패',
+      detail: error.message,
+    })
+  }
+})
+
+/**
+ * 매매 정지 (서킷 브레이커 수동 작동)
+ * POST /api/trading/halt
+ * Body: { message?, cancelOpenOrders?, flattenPositions?, accountNo?, accountProductCode? }
+ * 신규 매수를 차단하고, 설정에 따라 미체결 주문 취소 및 보유 종목 시장가 전량 매도
+ * 키가 만료/비활성화된 세션은 신규 매수 차단만 가능 (주문 취소, 시장가 매도, 계좌 지정 불가)
+ */
+router.post('/halt', requireEmergencyAccess, async (req: Request, res: Response) => {
+  try {
+    const { message, cancelOpenOrders, flattenPositions, accountNo, accountProductCode } = req.body || {}
+    const emergencyOnly = res.locals.emergencyOnly === true
+
+    if (emergencyOnly && (cancelOpenOrders !== undefined || flattenPositions !== undefined || accountNo !== undefined || accountProductCode !== undefined)) {
+      return res.status(403).json({
+        success: false,
+        code: 'emergency_only',
+        message: '라이선스가 만료되어 신규 매수 차단만 할 수 있습니다 (주문 취소, 시장가 매도, 계좌 지정 불가)',
+      })
+    }
+
+    if ((cancelOpenOrders !== undefined && typeof cancelOpenOrders !== 'boolean') ||
+        (flattenPositions !== undefined && typeof flattenPositions !== 'boolean')) {
+      return res.status(400).json({
+        success: false,
+        message: 'cancelOpenOrders, flattenPositions는 true/false 값이어야 합니다',
+      })
+    }
+
+    if (await circuitBreaker.isTripped()) {
+      return res.status(409).json({
+        success: false,
+        message: '이미 매매가 정지된 상태입니다',
+        circuitBreaker: await circuitBreaker.getState(),
+      })
+    }
+
+    // 만료된 세션은 서킷 브레이커 설정과 관계없이 취소/매도하지 않음
+    const state = await tradingEngine.halt(emergencyOnly ? {
+      message: message ? String(message) : undefined,
+      cancelOpenOrders: false,
+      flattenPositions: false,
+    } : {
+      message: message ? String(message) : undefined,
+      cancelOpenOrders,
+      flattenPositions,
+      accountNo,
+      accountProductCode,
+    })
+
+    res.json({
+      success: true,
+      message: '매매가 정지되었습니다. 해제 전까지 신규 매수가 차단됩니다',
+      circuitBreaker: state,
+    })
+  } catch (error: any) {
+    console.error('매매 정지 오류:', error)
+    res.status(500).json({
+      success: false,
+      message: '매매 정지 실패',
+      detail: error.message,
+    })
+  }
+})
+
+/**
+ * 매매 정지 해제
+ * POST /api/trading/resume
+ * 관리자 토큰 필요 (라이선스 세션만으로는 정지를 풀 수 없음)
+ */
+router.post('/resume', requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const state = await circuitBreaker.reset()
+
+    res.json({
+      success: true,
+      message: '매매 정지가 해제되었습니다',
+      circuitBreaker: state,
+    })
+  } catch (error: any) {
+    console.error('매매 정지 해제 오류:', error)
+    res.status(500).json({
+      success: false,
+      message: '매매 정지 해제 실패',
+      detail: error.message,
+    })
+  }
+})
+
+/**
+ * 서킷 브레이커 상태/설정 조회
+ * GET /api/trading/circuit-breaker
+ */
+router.get('/circuit-breaker', async (req: Request, res: Response) => {
+  try {
+    res.json({
+      success: true,
+      circuitBreaker: await circuitBreaker.getState(),
+    })
+  } catch (error: any) {
+    console.error('서킷 브레이커 조회 오류:', error)
+    res.status(500).json({
+      success: false,
+      message: '서킷 브레이커 조회 실패',
+      detail: error.message,
+    })
+  }
+})
+
+/**
+ * 서킷 브레이커 설정 변경
+ * PUT /api/trading/circuit-breaker
+ * Body: { lossLimit?, cancelOpenOrders?, flattenPositions? }
+ * 관리자 토큰 필요
+ */
+router.put('/circuit-breaker', requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const { lossLimit, cancelOpenOrders, flattenPositions } = req.body || {}
+
+    if (lossLimit !== undefined && (isNaN(Number(lossLimit)) || Number(lossLimit) < 0)) {
+      return res.status(400).json({
+        success: false,
+        message: '손실 한도는 0 이상의 금액이어야 합니다',
+      })
+    }
+
+    if ((cancelOpenOrders !== undefined && typeof cancelOpenOrders !== 'boolean') ||
+        (flattenPositions !== undefined && typeof flattenPositions !== 'boolean')) {
+      return res.status(400).json({
+        success: false,
+        message: 'cancelOpenOrders, flattenPositions는 true/false 값이어야 합니다',
+      })
+    }
+
+    const state = await circuitBreaker.updateConfig({
+      ...(lossLimit !== undefined && { lossLimit: Number(lossLimit) }),
+      ...(cancelOpenOrders !== undefined && { cancelOpenOrders }),
+      ...(flattenPositions !== undefined && { flattenPositions }),
+    })
+
+    res.json({
+      success: true,
+      message: '서킷 브레이커 설정이 저장되었습니다',
+      circuitBreaker: state,
+    })
+  } catch (error: any) {
+    console.error('서킷 브레이커 설정 오류:', error)
+    res.status(500).json({
+      success: false,
+      message: '서킷 브레이커 설정 실패',
+      detail: error.message,
+    })
+  }
+})
+
+export default router
@@ -0,0 +1,112 @@
+/**
+ * 계좌 실시간 이벤트
+ * 키움 WebSocket 실시간 주문체결('00')과 잔고('04') 항목의 FID 값을 타입이 있는 이벤트로 변환
+ * 두 타입은 종목이 아닌 계좌 단위로 등록 (item: [''])
+ */
+
+export const ORDER_EXECUTION_TYPE = '00' // 주문체결
+export const BALANCE_TYPE = '04' // 잔고
+export const ACCOUNT_REALTIME_TYPES = [ORDER_EXECUTION_TYPE, BALANCE_TYPE]
+
+// 주문체결 이벤트
+export interface OrderExecutionEvent {
+  accountNo: string
+  orderNumber: string
+  originalOrderNumber: string // 정정/취소 주문의 원주문번호
+  code: string
+  name: string
+  side: 'buy' | 'sell'
+  status: string // 주문상태 (접수, 체결, 확인, 취소, 거부)
+  orderQuantity: number
+  orderPrice: number
+  remainingQuantity: number // 미체결수량
+  filledAmount: number // 체결누계금액
+  executionNumber: string // 체결번호 (체결 이벤트만)
+  fillPrice: number // 이번 체결가
+  fillQuantity: number // 이번 체결량
+  time: string // 주문/체결시간 (HHmmss)
+}
+
+// 잔고 이벤트 (보유수량이 0이면 전량 매도)
+export interface BalanceEvent {
+  accountNo: string
+  code: string
+  name: string
+  quantity: number // 보유수량
+  averagePrice: number // 매입단가
+  totalBuyAmount: number // 총매입가
+  sellableQuantity: number // 주문가능수량
+  currentPrice: number
+  profitPercent: number // 손익률
+}
+
+function parseNumber(value: any): number {
+  return Math.abs(parseFloat(String(value ?? '0').replace(/[,+\-\s]/g, ''))) || 0
+}
+
+function parseText(value: any): string {
+  return String(value ?? '').trim()
+}
+
+function parseCode(value: any): string {
+  return parseText(value).replace(/^A/, '')
+}
+
+/**
+ * 주문체결 FID
+ * 9201: 계좌번호, 9203: 주문번호, 9001: 종목코드, 302: 종목명, 900: 주문수량, 901: 주문가격,
+ * 902: 미체결수량, 903: 체결누계금액, 904: 원주문번호, 905: 주문구분(+매수/-매도), 907: 매도수구분(1: 매도, 2: 매수),
+ * 908: 주문/체결시간, 909: 체결번호, 910: 체결가, 911: 체결량, 913: 주문상태
+ * 주문번호가 없는 항목(주식체결 시세)은 null
+ */
+export function parseOrderExecution(values: Record<string, string> | undefined): OrderExecutionEvent | null {
+  const orderNumber = parseText(values?.['9203'])
+  if (!values || !orderNumber) {
+    return null
+  }
+
+  const sideCode = parseText(values['907'])
+  const isSell = sideCode ? sideCode === '1' : parseText(values['905']).includes('매도')
+  return {
+    accountNo: parseText(values['9201']),
+    orderNumber,
+    originalOrderNumber: parseText(values['904']),
+    code: parseCode(values['9001']),
+    name: parseText(values['302']),
+    side: isSell ? 'sell' : 'buy',
+    status: parseText(values['913']),
+    orderQuantity: parseNumber(values['900']),
+    orderPrice: parseNumber(values['901']),
+    remainingQuantity: parseNumber(values['902']),
+    filledAmount: parseNumber(values['903']),
+    executionNumber: parseText(values['909']),
+    fillPrice: parseNumber(values['910']),
+    fillQuantity: parseNumber(values['911']),
+    time: parseText(values['908']),
+  }
+}
+
+/**
+ * 잔고 FID
+ * 9201: 계좌번호, 9001: 종목코드, 302: 종목명, 10: 현재가, 930: 보유수량, 931: 매입단가,
+ * 932: 총매입가, 933: 주문가능수량, 8019: 손익률
+ */
+export function parseBalance(values: Record<string, string> | undefined): BalanceEvent | null {
+  const code = parseCode(values?.['9001'])
+  if (!values || !code) {
+    return null
+  }
+
+  const profitPercent = parseFloat(String(values['8019'] ?? '0').replace(/[,\s]/g, '')) || 0
+  return {
+    accountNo: parseText(values['9201']),
+    code,
+    name: parseText(values['302']),
+    quantity: parseNumber(values['930']),
+    averagePrice: parseNumber(values['931']),
+    totalBuyAmount: parseNumber(values['932']),
+    sellableQuantity: parseNumber(values['933']),
+    currentPrice: parseNumber(values['10']),
+    profitPercent,
+  }
+}
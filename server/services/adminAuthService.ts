@@ -0,0 +1,269 @@
+/**
+ * 관리자 인증 서비스
+ * users 테이블의 계정(scrypt 해시 비밀번호)으로 로그인하여 서명 토큰을 발급하고, 관리자 API 요청의 토큰을 검증
+ * 관리자 계정이 하나도 없고 ADMIN_USERNAME/ADMIN_PASSWORD 환경 변수가 있으면 첫 관리자 계정을 생성
+ */
+import * as crypto from 'crypto'
+import { asc, eq, sql } from 'drizzle-orm'
+import { getDb } from '../db'
+import { users, User } from '../../shared/schema'
+import { signToken, verifyToken } from '../utils/token'
+
+export type UserRole = 'admin' | 'user'
+
+export const USER_ROLES: UserRole[] = ['admin', 'user']
+
+// 토큰으로 확인한 사용자
+export interface AuthUser {
+  id: string
+  username: string
+  role: UserRole
+}
+
+// 관리자 API 사용자 목록 항목 (비밀번호 해시 제외)
+export interface UserInfo extends AuthUser {
+  createdAt: string
+  lastLoginAt: string | null
+}
+
+export interface LoginResult {
+  token: string
+  expiresAt: string
+  user: AuthUser
+}
+
+const TOKEN_TTL_SECONDS = 8 * 60 * 60 // 로그인 유지 시간 (8시간)
+const MAX_FAILED_LOGINS = 5 // 같은 IP에서 같은 사용자명 연속 실패 허용 횟수 (초과하면 잠금)
+const LOCKOUT_MS = 5 * 60 * 1000 // 로그인 잠금 시간
+const MAX_IP_FAILED_LOGINS = 20 // IP별 실패 허용 횟수 (사용자명 무관, 초과하면 실패할 때마다 대기 시간 2배)
+const MAX_IP_BACKOFF_MS = 60 * 60 * 1000 // IP별 최대 대기 시간
+const FAILED_LOGIN_TTL_MS = 60 * 60 * 1000 // 마지막 실패 후 이 시간이 지나면 실패 기록 삭제
+const MIN_PASSWORD_LENGTH = 8
+const SCRYPT_KEY_LENGTH = 64
+
+function authError(message: string, flag: string): Error {
+  const error = new Error(message)
+  ;(error as any)[flag] = true
+  return error
+}
+
+/**
+ * 비밀번호 해시 (scrypt$<salt>$<hash>)
+ */
+export function hashPassword(password: string): string {
+  const salt = crypto.randomBytes(16).toString('hex')
+  const hash = crypto.scryptSync(password, salt, SCRYPT_KEY_LENGTH).toString('hex')
+  return `scrypt$${salt}$${hash}`
+}
+
+export function verifyPassword(password: string, stored: string): boolean {
+  const [scheme, salt, hash] = String(stored || '').split('$')
+  if (scheme !== 'scrypt' || !salt || !hash) {
+    return false
+  }
+  const expected = Buffer.from(hash, 'hex')
+  const actual = crypto.scryptSync(password, salt, expected.length)
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual)
+}
+
+function toUserInfo(user: User): UserInfo {
+  return {
+    id: user.id,
+    username: user.username,
+    role: user.role as UserRole,
+    createdAt: user.createdAt.toISOString(),
+    lastLoginAt: user.lastLoginAt ? user.lastLoginAt.toISOString() : null,
+  }
+}
+
+// 로그인 실패 기록
+interface FailedLogin {
+  count: number
+  lockedUntil: number
+  lastFailedAt: number
+}
+
+export class AdminAuthService {
+  private static instance: AdminAuthService
+  private failedLogins: Map<string, FailedLogin> = new Map() // IP + 사용자명 -> 연속 실패
+  private failedIps: Map<string, FailedLogin> = new Map() // IP -> 실패 (사용자명 무관)
+  private bootstrapPromise: Promise<void> | null = null
+
+  private constructor() {}
+
+  static getInstance(): AdminAuthService {
+    if (!AdminAuthService.instance) {
+      AdminAuthService.instance = new AdminAuthService()
+    }
+    return AdminAuthService.instance
+  }
+
+  /**
+   * 로그인 (같은 IP에서 같은 사용자명으로 연속 실패하면 일정 시간 잠금, IP별로 실패가 많으면 점점 길게 대기)
+   * 다른 IP의 실패로는 잠기지 않으므로 사용자명만 알아서는 관리자 로그인을 막을 수 없음
+   */
+  async login(username: string, password: string, clientIp: string = ''): Promise<LoginResult> {
+    await this.ensureBootstrapAdmin()
+    const name = String(username || '').trim()
+    const key = `${clientIp}|${name}`
+    const now = Date.now()
+    this.pruneFailedLogins(now)
+
+    const failedIp = this.failedIps.get(clientIp)
+    const failed = this.failedLogins.get(key)
+    const lockedUntil = Math.max(failedIp?.lockedUntil || 0, failed?.lockedUntil || 0)
+    if (lockedUntil > now) {
+      throw authError(`로그인 시도가 너무 많습니다. ${Math.ceil((lockedUntil - now) / 60000)}분 후 다시 시도해주세요`, 'isLocked')
+    }
+
+    const db = await getDb()
+    const [user] = await db.select().from(users).where(eq(users.username, name)).limit(1)
+    if (!user || !verifyPassword(String(password || ''), user.password)) {
+      const count = (failed && failed.lockedUntil === 0 ? failed.count : 0) + 1 // 잠금이 풀린 뒤에는 다시 셈
+      this.failedLogins.set(key, { count, lockedUntil: count >= MAX_FAILED_LOGINS ? now + LOCKOUT_MS : 0, lastFailedAt: now })
+
+      const ipCount = (failedIp?.count || 0) + 1 // IP별 실패는 잠금이 풀려도 이어서 셈 (대기 시간 증가)
+      const backoff = ipCount > MAX_IP_FAILED_LOGINS
+        ? Math.min(1000 * 2 ** (ipCount - MAX_IP_FAILED_LOGINS), MAX_IP_BACKOFF_MS)
+        : 0
+      this.failedIps.set(clientIp, { count: ipCount, lockedUntil: backoff ? now + backoff : 0, lastFailedAt: now })
+      throw authError('사용자명 또는 비밀번호가 올바르지 않습니다', 'isInvalidCredentials')
+    }
+
+    this.failedLogins.delete(key)
+    this.failedIps.delete(clientIp)
+    await db.update(users).set({ lastLoginAt: new Date() }).where(eq(users.id, user.id))
+
+    const authUser: AuthUser = { id: user.id, username: user.username, role: user.role as UserRole }
+    const { token, expiresAt } = signToken(user.id, { typ: 'user', role: authUser.role, ver: user.tokenVersion }, TOKEN_TTL_SECONDS)
+    return { token, expiresAt, user: authUser }
+  }
+
+  /**
+   * 토큰 검증 (삭제되었거나 권한이 바뀐 계정, 발급 후 비밀번호를 바꾼 계정의 토큰은 거부)
+   */
+  async authenticate(token: string): Promise<AuthUser | null> {
+    const payload = verifyToken(token)
+    if (!payload || payload.typ !== 'user') {
+      return null
+    }
+
+    const db = await getDb()
+    const [user] = await db.select().from(users).where(eq(users.id, payload.sub)).limit(1)
+    if (!user || user.role !== payload.role || user.tokenVersion !== payload.ver) {
+      return null
+    }
+    return { id: user.id, username: user.username, role: user.role as UserRole }
+  }
+
+  async listUsers(): Promise<UserInfo[]> {
+    const db = await getDb()
+    const rows = await db.select().from(users).orderBy(asc(users.createdAt))
+    return rows.map(toUserInfo)
+  }
+
+  async createUser(username: string, password: string, role: UserRole = 'user'): Promise<UserInfo> {
+    const name = String(username || '').trim()
+    if (!/^[A-Za-z0-9_.@-]{3,50}$/.test(name)) {
+      throw authError('사용자명은 영문, 숫자, _.@- 조합 3~50자여야 합니다', 'isInvalidUser')
+    }
+    if (String(password || '').length < MIN_PASSWORD_LENGTH) {
+      throw authError(`비밀번호는 ${MIN_PASSWORD_LENGTH}자 이상이어야 합니다`, 'isInvalidUser')
+    }
+    if (!USER_ROLES.includes(role)) {
+      throw authError(`권한은 ${USER_ROLES.join(', ')} 중 하나여야 합니다`, 'isInvalidUser')
+    }
+
+    const db = await getDb()
+    const [existing] = await db.select({ id: users.id }).from(users).where(eq(users.username, name)).limit(1)
+    if (existing) {
+      throw authError('이미 사용 중인 사용자명입니다', 'isDuplicateUser')
+    }
+
+    const [user] = await db.insert(users).values({ username: name, password: hashPassword(password), role }).returning()
+    return toUserInfo(user)
+  }
+
+  /**
+   * 비밀번호 변경 (본인은 현재 비밀번호 확인)
+   * 토큰 버전을 올려 이전에 발급한 토큰을 모두 무효화 (변경한 본인도 다시 로그인)
+   */
+  async changePassword(userId: string, newPassword: string, currentPassword?: string): Promise<void> {
+    if (String(newPassword || '').length < MIN_PASSWORD_LENGTH) {
+      throw authError(`비밀번호는 ${MIN_PASSWORD_LENGTH}자 이상이어야 합니다`, 'isInvalidUser')
+    }
+
+    const db = await getDb()
+    const [user] = await db.select().from(users).where(eq(users.id, userId)).limit(1)
+    if (!user) {
+      throw authError('사용자를 찾을 수 없습니다', 'isUserNotFound')
+    }
+    if (currentPassword !== undefined && !verifyPassword(currentPassword, user.password)) {
+      throw authError('현재 비밀번호가 올바르지 않습니다', 'isInvalidCredentials')
+    }
+    await db
+      .update(users)
+      .set({ password: hashPassword(newPassword), tokenVersion: sql`${users.tokenVersion} + 1` })
+      .where(eq(users.id, userId))
+  }
+
+  /**
+   * 사용자 삭제 (마지막 관리자는 삭제 불가)
+   */
+  async deleteUser(userId: string): Promise<void> {
+    const db = await getDb()
+    const rows = await db.select().from(users)
+    const user = rows.find(row => row.id === userId)
+    if (!user) {
+      throw authError('사용자를 찾을 수 없습니다', 'isUserNotFound')
+    }
+    if (user.role === 'admin' && rows.filter(row => row.role === 'admin').length <= 1) {
+      throw authError('마지막 관리자 계정은 삭제할 수 없습니다', 'isInvalidUser')
+    }
+    await db.delete(users).where(eq(users.id, userId))
+  }
+
+  /**
+   * 마지막 실패 후 오래 지났고 잠금도 끝난 실패 기록 삭제
+   */
+  private pruneFailedLogins(now: number): void {
+    for (const records of [this.failedLogins, this.failedIps]) {
+      for (const [key, record] of records) {
+        if (record.lockedUntil <= now && now - record.lastFailedAt > FAILED_LOGIN_TTL_MS) {
+          records.delete(key)
+        }
+      }
+    }
+  }
+
+  /**
+   * 관리자 계정이 없으면 환경 변수(ADMIN_USERNAME, ADMIN_PASSWORD)로 첫 관리자 생성
+   */
+  private ensureBootstrapAdmin(): Promise<void> {
+    if (!this.bootstrapPromise) {
+      this.bootstrapPromise = this.bootstrapAdmin().catch((error) => {
+        this.bootstrapPromise = null
+        throw error
+      })
+    }
+    return this.bootstrapPromise
+  }
+
+  private async bootstrapAdmin(): Promise<void> {
+    const db = await getDb()
+    const [admin] = await db.select({ id: users.id }).from(users).where(eq(users.role, 'admin')).limit(1)
+    if (admin) {
+      return
+    }
+
+    const username = process.env.ADMIN_USERNAME
+    const password = process.env.ADMIN_PASSWORD
+    if (!username || !password) {
+      console.warn('[관리자] 관리자 계정이 없습니다. ADMIN_USERNAME, ADMIN_PASSWORD 환경 변수를 설정하고 서버를 재시작하세요')
+      return
+    }
+
+    await this.createUser(username, password, 'admin')
+    console.log(`[관리자] 첫 관리자 계정 생성: ${username}`)
+  }
+}
@@ -0,0 +1,528 @@
+/**
+ * 백테스트 서비스
+ * 과거 분봉/일봉 데이터를 자동매매 엔진과 같은 매수/매도 판단(checkBuySignal, checkSellSignal)에 재생하여
+ * 거래 내역, 자산 곡선, 성과 통계를 계산
+ */
+import { KiwoomService } from './kiwoomService'
+import { CandleStore } from './candleStore'
+import { TradingEngineConfig, parseEngineConfig } from './tradingEngine'
+import {
+  CandleData,
+  BuySignalStock,
+  SellReason,
+  adjustToHogaUnit,
+  checkSellSignal,
+} from './tradingStrategies'
+import { checkBuySignal } from './strategyRegistry'
+import { FeeSettings, normalizeFeeSettings, calculateTradeCosts, getAffordableQuantity } from './tradeCosts'
+
+// 백테스트 입력 캔들 (차트 데이터를 영문 키로 전달)
+export interface BacktestCandle {
+  time: string // YYYYMMDDHHmm(ss) 또는 YYYYMMDD
+  open: number
+  high: number
+  low: number
+  close: number
+  volume: number
+}
+
+export type BacktestPeriod = 'min' | 'day'
+
+export interface BacktestRequest {
+  code: string
+  name?: string
+  period?: BacktestPeriod // candles의 봉 단위 (기본: 분봉)
+  candles?: BacktestCandle[] // 생략 시 캔들 저장소(키움 차트 API)에서 조회
+  start?: string // candles 생략 시 조회 구간 (YYYYMMDD, 생략 시 분봉은 오늘, 일봉은 6개월 전부터)
+  end?: string
+  dailyCandles?: BacktestCandle[] // 분봉 백테스트 시 전일 종가(등락률) 계산용
+  config?: Partial<TradingEngineConfig>
+  fees?: Partial<FeeSettings> // 생략 시 기본 수수료율/세율
+  initialCapital?: number
+}
+
+export type BacktestExitReason = SellReason | 'end'
+
+export interface BacktestTrade {
+  entryTime: string
+  entryPrice: number
+  exitTime: string
+  exitPrice: number
+  quantity: number
+  fee: number // 매수/매도 수수료 및 세금 합계
+  profit: number // 수수료 차감 후 손익
+  profitPercent: number // 매수금액 대비 손익률 (수수료 차감 후)
+  maxProfitPercent: number
+  exitReason: BacktestExitReason
+  entrySignals: string[]
+}
+
+export interface BacktestEquityPoint {
+  time: string
+  equity: number
+}
+
+export interface BacktestStats {
+  initialCapital: number
+  finalEquity: number
+  totalProfit: number
+  totalReturn: number // %
+  tradeCount: number
+  winCount: number
+  lossCount: number
+  winRate: number // %
+  grossProfit: number
+  grossLoss: number
+  profitFactor: number | null // 손실 거래가 없으면 null
+  maxDrawdown: number // %
+}
+
+export interface BacktestResult {
+  code: string
+  name: string
+  period: BacktestPeriod
+  startTime: string
+  endTime: string
+  barCount: number
+  trades: BacktestTrade[]
+  equityCurve: BacktestEquityPoint[]
+  stats: BacktestStats
+}
+
+// 시간 정보가 파싱된 캔들
+interface ReplayBar extends BacktestCandle {
+  date: string // YYYYMMDD
+  at: Date
+}
+
+// 다음 봉에서 체결될 대기 주문
+interface PendingOrder {
+  side: 'buy' | 'sell'
+  price: number // 0: 시장가
+  quantity: number
+  reason?: SellReason
+  signals?: string[]
+}
+
+interface OpenPosition {
+  entryTime: string
+  entryPrice: number
+  quantity: number
+  buyFee: number
+  maxProfitPercent: number
+  entrySignals: string[]
+}
+
+const DEFAULT_INITIAL_CAPITAL = 10000000
+const STRATEGY_WINDOW = 200 // 전략 판단에 넘기는 최근 봉 개수
+const DAILY_DECISION_HOUR = 15 // 일봉은 장마감 종가배팅 구간(15:15)에 판단
+const DAILY_DECISION_MINUTE = 15
+
+export class BacktestService {
+  private static instance: BacktestService
+  private kiwoomService = KiwoomService.getInstance()
+  private candleStore = CandleStore.getInstance()
+
+  private constructor() {}
+
+  static getInstance(): BacktestService {
+    if (!BacktestService.instance) {
+      BacktestService.instance = new BacktestService()
+    }
+    return BacktestService.instance
+  }
+
+  /**
+   * 백테스트 실행
+   */
+  async run(request: BacktestRequest): Promise<BacktestResult> {
+    const code = String(request.code || '').trim()
+    if (!code) {
+      throw new Error('종목코드가 필요합니다')
+    }
+
+    const period: BacktestPeriod = request.period === 'day' ? 'day' : 'min'
+    const candles = request.candles && request.candles.length > 0
+      ? request.candles
+      : await this.fetchCandles(code, period, request.start, request.end)
+    const dailyCandles = request.dailyCandles && request.dailyCandles.length > 0
+      ? request.dailyCandles
+      : []
+
+    const bars = this.toReplayBars(candles, period)
+    if (bars.length === 0) {
+      throw new Error('백테스트할 캔들 데이터가 없습니다')
+    }
+
+    const config: TradingEngineConfig = parseEngineConfig(request.config)
+    const initialCapital = request.initialCapital && request.initialCapital > 0
+      ? request.initialCapital
+      : DEFAULT_INITIAL_CAPITAL
+
+    const fees = normalizeFeeSettings(request.fees)
+
+    return this.replay(code, request.name || code, period, bars, dailyCandles, config, fees, initialCapital)
+  }
+
+  /**
+   * 캔들 저장소에서 캔들 조회 (요청에 캔들이 없는 경우, 저장되지 않은 구간만 키움 차트 API로 조회)
+   */
+  private async fetchCandles(code: string, period: BacktestPeriod, start?: string, end?: string): Promise<BacktestCandle[]> {
+    if (!this.kiwoomService.isConnected()) {
+      throw new Error('캔들 데이터를 전달하거나 키움증권 API에 먼저 연결해주세요')
+    }
+
+    const candles = await this.candleStore.getCandles({ code, period, start, end })
+    return (candles || []).map((c: any) => ({
+      time: String(c.일자 || c.time || ''),
+      open: Math.abs(Number(c.시가 ?? c.open)) || 0,
+      high: Math.abs(Number(c.고가 ?? c.high)) || 0,
+      low: Math.abs(Number(c.저가 ?? c.low)) || 0,
+      close: Math.abs(Number(c.종가 ?? c.close)) || 0,
+      volume: Math.abs(Number(c.거래량 ?? c.volume)) || 0,
+    }))
+  }
+
+  /**
+   * 캔들 시간 파싱 및 과거 → 최신 순 정렬
+   */
+  private toReplayBars(candles: BacktestCandle[], period: BacktestPeriod): ReplayBar[] {
+    const bars: ReplayBar[] = []
+    for (const candle of candles) {
+      const digits = String(candle.time || '').replace(/\D/g, '')
+      const close = Number(candle.close) || 0
+      if (digits.length < 8 || close <= 0) {
+        continue
+      }
+
+      const year = parseInt(digits.substring(0, 4))
+      const month = parseInt(digits.substring(4, 6)) - 1
+      const day = parseInt(digits.substring(6, 8))
+      const hour = period === 'day' ? DAILY_DECISION_HOUR : parseInt(digits.substring(8, 10) || '0')
+      const minute = period === 'day' ? DAILY_DECISION_MINUTE : parseInt(digits.substring(10, 12) || '0')
+
+      bars.push({
+        time: candle.time,
+        open: Number(candle.open) || close,
+        high: Number(candle.high) || close,
+        low: Number(candle.low) || close,
+        close,
+        volume: Number(candle.volume) || 0,
+        date: digits.substring(0, 8),
+        at: new Date(year, month, day, hour, minute),
+      })
+    }
+
+    return bars.sort((a, b) => a.at.getTime() - b.at.getTime())
+  }
+
+  /**
+   * 캔들 재생
+   * 봉 마감 시점에 매수/매도를 판단하고, 주문은 다음 봉에서 체결
+   * (시장가: 다음 봉 시가, 지정가: 다음 봉이 지정가에 닿으면 체결, 당일 미체결 시 취소)
+   * 수수료는 매수/매도 시 각각, 증권거래세는 매도 시 차감
+   */
+  private replay(
+    code: string,
+    name: string,
+    period: BacktestPeriod,
+    bars: ReplayBar[],
+    dailyCandles: BacktestCandle[],
+    config: TradingEngineConfig,
+    fees: FeeSettings,
+    initialCapital: number
+  ): BacktestResult {
+    const dailyCloses = this.toDailyCloses(dailyCandles)
+
+    const trades: BacktestTrade[] = []
+    const equityCurve: BacktestEquityPoint[] = []
+    let cash = initialCapital
+    let position: OpenPosition | null = null
+    let pending: PendingOrder | null = null
+
+    let currentDate = ''
+    let previousClose = 0
+    let lastClose = 0
+    let dailyVolume = 0
+    let dailyTradeCount = 0
+    let startPrice = 0
+    let detectedChangePercent = 0
+
+    const closePosition = (bar: ReplayBar, price: number, reason: BacktestExitReason) => {
+      if (!position) {
+        return
+      }
+      const amount = price * position.quantity
+      const { commission, tax } = calculateTradeCosts('sell', amount, fees)
+      const sellFee = commission + tax
+      const cost = position.entryPrice * position.quantity
+      const profit = amount - sellFee - cost - position.buyFee
+      cash += amount - sellFee
+      trades.push({
+        entryTime: position.entryTime,
+        entryPrice: position.entryPrice,
+        exitTime: bar.time,
+        exitPrice: price,
+        quantity: position.quantity,
+        fee: position.buyFee + sellFee,
+        profit,
+        profitPercent: cost > 0 ? (profit / cost) * 100 : 0,
+        maxProfitPercent: position.maxProfitPercent,
+        exitReason: reason,
+        entrySignals: position.entrySignals,
+      })
+      position = null
+    }
+
+    for (let i = 0; i < bars.length; i++) {
+      const bar = bars[i]
+
+      // 거래일 변경: 미체결 주문 취소, 전일 종가 및 당일 통계 초기화
+      if (bar.date !== currentDate) {
+        previousClose = dailyCloses.get(this.previousDate(dailyCloses, bar.date)) || lastClose || bar.open
+        currentDate = bar.date
+        dailyVolume = 0
+        dailyTradeCount = 0
+        startPrice = 0
+        detectedChangePercent = 0
+        pending = null
+      }
+
+      // 1. 이전 봉에서 낸 주문 체결
+      if (pending) {
+        const fillPrice = this.getFillPrice(pending, bar)
+        if (fillPrice > 0) {
+          if (pending.side === 'buy') {
+            const amount = fillPrice * pending.quantity
+            const buyFee = calculateTradeCosts('buy', amount, fees).commission
+            cash -= amount + buyFee
+            position = {
+              entryTime: bar.time,
+              entryPrice: fillPrice,
+              quantity: pending.quantity,
+              buyFee,
+              maxProfitPercent: 0,
+              entrySignals: pending.signals || [],
+            }
+          } else {
+            closePosition(bar, fillPrice, pending.reason!)
+          }
+          pending = null
+        }
+      }
+
+      // 2. 봉 마감 시점의 종목 시세
+      dailyVolume = period === 'day' ? bar.volume : dailyVolume + bar.volume
+      lastClose = bar.close
+      const changePercent = previousClose > 0 ? ((bar.close - previousClose) / previousClose) * 100 : 0
+
+      // 3. 보유 중이면 매도 판단
+      if (position && !pending) {
+        const holding: OpenPosition = position
+        const profitPercent = ((bar.close - holding.entryPrice) / holding.entryPrice) * 100
+        holding.maxProfitPercent = Math.max(holding.maxProfitPercent, profitPercent)
+
+        const sellSignal = checkSellSignal(
+          { name, profitPercent, maxProfitPercent: holding.maxProfitPercent },
+          config,
+          bar.at
+        )
+        if (sellSignal) {
+          pending = {
+            side: 'sell',
+            price: this.getSellOrderPrice(sellSignal.reason, bar.close, config),
+            quantity: holding.quantity,
+            reason: sellSignal.reason,
+          }
+        }
+      }
+
+      // 4. 미보유 시 매수 판단 (종목당 매매허용횟수는 거래일 단위)
+      const canBuy = !position && !pending &&
+        (config.tradeLimitPerStock <= 0 || dailyTradeCount < config.tradeLimitPerStock)
+      if (canBuy) {
+        // 매매 시작 후 첫 봉을 조건식 감지 시점으로 간주
+        if (startPrice === 0) {
+          startPrice = bar.close
+          detectedChangePercent = changePercent
+        }
+
+        const stock: BuySignalStock = {
+          code,
+          name,
+          price: bar.close,
+          changePercent,
+          volume: dailyVolume,
+          startPrice,
+          detectedChangePercent,
+        }
+        const { signal, logs } = checkBuySignal(stock, this.getStrategyWindow(bars, i), config, bar.at)
+        if (signal) {
+          const order = this.getBuyOrder(bar.close, Math.min(config.amountPerStock, cash), config, fees)
+          if (order) {
+            pending = { ...order, signals: logs.map(log => log.message) }
+            dailyTradeCount++
+          }
+        }
+      }
+
+      // 5. 자산 평가 (보유 주식은 종가 기준)
+      equityCurve.push({
+        time: bar.time,
+        equity: cash + (position ? position.quantity * bar.close : 0),
+      })
+    }
+
+    // 백테스트 종료 시 보유 종목은 마지막 종가로 청산
+    const lastBar = bars[bars.length - 1]
+    if (position) {
+      closePosition(lastBar, lastBar.close, 'end')
+      equityCurve[equityCurve.length - 1] = { time: lastBar.time, equity: cash }
+    }
+
+    return {
+      code,
+      name,
+      period,
+      startTime: bars[0].time,
+      endTime: lastBar.time,
+      barCount: bars.length,
+      trades,
+      equityCurve,
+      stats: this.calculateStats(trades, equityCurve, initialCapital),
+    }
+  }
+
+  /**
+   * 일봉 → 일자별 종가
+   */
+  private toDailyCloses(dailyCandles: BacktestCandle[]): Map<string, number> {
+    const closes = new Map<string, number>()
+    for (const candle of dailyCandles) {
+      const date = String(candle.time || '').replace(/\D/g, '').substring(0, 8)
+      if (date.length === 8 && Number(candle.close) > 0) {
+        closes.set(date, Number(candle.close))
+      }
+    }
+    return closes
+  }
+
+  /**
+   * date 이전의 가장 최근 일봉 일자
+   */
+  private previousDate(dailyCloses: Map<string, number>, date: string): string {
+    let previous = ''
+    dailyCloses.forEach((_, candidate) => {
+      if (candidate < date && candidate > previous) {
+        previous = candidate
+      }
+    })
+    return previous
+  }
+
+  /**
+   * 현재 봉까지의 최근 봉 (전략 함수 입력: 최신 → 과거 순, 한글 키)
+   */
+  private getStrategyWindow(bars: ReplayBar[], index: number): CandleData[] {
+    const window: CandleData[] = []
+    for (let i = index; i >= 0 && window.length < STRATEGY_WINDOW; i--) {
+      const bar = bars[i]
+      window.push({
+        일자: bar.time,
+        시가: bar.open,
+        고가: bar.high,
+        저가: bar.low,
+        종가: bar.close,
+        거래량: bar.volume,
+      })
+    }
+    return window
+  }
+
+  /**
+   * 매수 주문 가격/수량 (TradingEngine.placeBuyOrder와 같은 규칙, 지정가는 호가 단위로 조정)
+   */
+  private getBuyOrder(price: number, budget: number, config: TradingEngineConfig, fees: FeeSettings): PendingOrder | null {
+    let orderPrice = 0 // 시장가
+    let sizingPrice = price
+    if (config.buyPriceSettings.종목별매수가격설정실행 && config.buyPriceSettings.매수가격옵션 === '지정가') {
+      const limitPrice = adjustToHogaUnit(Math.floor(price * (1.0 - config.buyPriceSettings.매수호가 / 100.0)))
+      if (limitPrice > 0 && limitPrice <= price) {
+        orderPrice = limitPrice
+        sizingPrice = limitPrice
+      }
+    }
+
+    // 수수료 고려한 매수 수량 계산
+    const quantity = getAffordableQuantity(budget, sizingPrice, fees)
+    if (quantity <= 0) {
+      return null
+    }
+    return { side: 'buy', price: orderPrice, quantity }
+  }
+
+  /**
+   * 매도 주문 가격 (TradingEngine.placeSellOrder와 같은 규칙, 0: 시장가)
+   */
+  private getSellOrderPrice(reason: SellReason, price: number, config: TradingEngineConfig): number {
+    if (reason === 'profit' && config.profitType === 'limit') {
+      return adjustToHogaUnit(price)
+    }
+    if (reason === 'loss' && config.lossType === 'limit') {
+      return adjustToHogaUnit(Math.max(0, price + config.lossPriceOffset))
+    }
+    return 0
+  }
+
+  /**
+   * 대기 주문의 체결 가격 (미체결: 0)
+   */
+  private getFillPrice(order: PendingOrder, bar: ReplayBar): number {
+    if (order.price <= 0) {
+      return bar.open
+    }
+    if (order.side === 'buy') {
+      return bar.low <= order.price ? Math.min(bar.open, order.price) : 0
+    }
+    return bar.high >= order.price ? Math.max(bar.open, order.price) : 0
+  }
+
+  /**
+   * 승률, 최대 낙폭(MDD), 손익비(Profit Factor) 계산
+   */
+  private calculateStats(
+    trades: BacktestTrade[],
+    equityCurve: BacktestEquityPoint[],
+    initialCapital: number
+  ): BacktestStats {
+    const winCount = trades.filter(trade => trade.profit > 0).length
+    const lossCount = trades.filter(trade => trade.profit < 0).length
+    const grossProfit = trades.reduce((sum, trade) => sum + Math.max(trade.profit, 0), 0)
+    const grossLoss = trades.reduce((sum, trade) => sum + Math.max(-trade.profit, 0), 0)
+
+    let peak = initialCapital
+    let maxDrawdown = 0
+    for (const point of equityCurve) {
+      peak = Math.max(peak, point.equity)
+      if (peak > 0) {
+        maxDrawdown = Math.max(maxDrawdown, ((peak - point.equity) / peak) * 100)
+      }
+    }
+
+    const finalEquity = equityCurve.length > 0 ? equityCurve[equityCurve.length - 1].equity : initialCapital
+    return {
+      initialCapital,
+      finalEquity,
+      totalProfit: finalEquity - initialCapital,
+      totalReturn: ((finalEquity - initialCapital) / initialCapital) * 100,
+      tradeCount: trades.length,
+      winCount,
+      lossCount,
+      winRate: trades.length > 0 ? (winCount / trades.length) * 100 : 0,
+      grossProfit,
+      grossLoss,
+      profitFactor: grossLoss > 0 ? grossProfit / grossLoss : null,
+      maxDrawdown,
+    }
+  }
+}
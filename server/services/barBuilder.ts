@@ -0,0 +1,231 @@
+/**
+ * 실시간 분봉 생성기
+ * 종목별로 차트 API(분봉)를 한 번만 조회해 과거 1분봉을 채우고, 이후에는 WebSocket 주식체결(type '00') 틱으로
+ * 1분봉을 갱신하여 메모리에서 제공 (3/5/15/30/60분봉은 1분봉을 묶어 계산)
+ * 자동매매 엔진과 차트가 분봉을 볼 때마다 차트 API를 호출하지 않도록 함
+ */
+import { KiwoomService } from './kiwoomService'
+import { RealtimeSubscriptionManager } from './realtimeSubscriptions'
+import type { CandleData } from './tradingStrategies'
+
+export type BarTimeframe = 1 | 3 | 5 | 15 | 30 | 60
+
+export const BAR_TIMEFRAMES: BarTimeframe[] = [1, 3, 5, 15, 30, 60]
+
+export interface TrackedBarStatus {
+  code: string
+  seeded: boolean
+  barCount: number // 1분봉 개수
+  lastTickAt: string | null
+}
+
+interface CodeBars {
+  bars: CandleData[] // 1분봉 (시간순, 일자 = YYYYMMDDHHmm 봉 시작 시각)
+  seedPromise: Promise<void> | null
+  seeded: boolean
+  lastCumulativeVolume: number // '15'(체결량)가 없을 때 누적거래량 차이로 계산
+  lastTickAt: Date | null
+}
+
+const SUBSCRIPTION_CONSUMER = 'bars' // 실시간 구독자 이름
+const MAX_MINUTE_BARS = 1500 // 종목당 보관할 1분봉 개수 (약 4일)
+
+function parseNumber(value: any): number {
+  return Math.abs(parseFloat(String(value ?? '0').replace(/[,+\-\s]/g, ''))) || 0
+}
+
+function formatDate(date: Date): string {
+  return `${date.getFullYear()}${String(date.getMonth() + 1).padStart(2, '0')}${String(date.getDate()).padStart(2, '0')}`
+}
+
+export class BarBuilder {
+  private static instance: BarBuilder
+  private kiwoomService = KiwoomService.getInstance()
+  private subscriptions = RealtimeSubscriptionManager.getInstance()
+  private tracked: Map<string, CodeBars> = new Map()
+
+  private constructor() {
+    this.kiwoomService.onRealTimeData((data) => this.handleRealTimeData(data))
+  }
+
+  static getInstance(): BarBuilder {
+    if (!BarBuilder.instance) {
+      BarBuilder.instance = new BarBuilder()
+    }
+    return BarBuilder.instance
+  }
+
+  static isTimeframe(value: number): value is BarTimeframe {
+    return (BAR_TIMEFRAMES as number[]).includes(value)
+  }
+
+  /**
+   * 종목 분봉 생성 시작 (과거 분봉 조회 + 실시간 시세 등록, 이미 추적 중이면 무시)
+   */
+  track(code: string): Promise<void> {
+    let entry = this.tracked.get(code)
+    if (!entry) {
+      entry = { bars: [], seedPromise: null, seeded: false, lastCumulativeVolume: 0, lastTickAt: null }
+      this.tracked.set(code, entry)
+      this.subscriptions.subscribe(SUBSCRIPTION_CONSUMER, [code])
+    }
+    if (!entry.seedPromise) {
+      entry.seedPromise = this.seed(code, entry)
+    }
+    return entry.seedPromise
+  }
+
+  /**
+   * 종목 분봉 생성 중지 (메모리에서 삭제, 실시간 시세 구독 해지)
+   */
+  untrack(code: string): void {
+    this.tracked.delete(code)
+    this.subscriptions.unsubscribe(SUBSCRIPTION_CONSUMER, [code])
+  }
+
+  getStatus(): TrackedBarStatus[] {
+    return Array.from(this.tracked.entries()).map(([code, entry]) => ({
+      code,
+      seeded: entry.seeded,
+      barCount: entry.bars.length,
+      lastTickAt: entry.lastTickAt ? entry.lastTickAt.toISOString() : null,
+    }))
+  }
+
+  /**
+   * 분봉 조회 (최신 봉이 앞에 오는 순서, 전략 함수와 차트 API 응답과 같은 형식)
+   * 추적 중이 아닌 종목은 과거 분봉을 조회한 뒤 반환
+   */
+  async getBars(code: string, timeframe: BarTimeframe = 1, limit?: number): Promise<CandleData[]> {
+    await this.track(code)
+    const minuteBars = this.tracked.get(code)?.bars || []
+    const bars = timeframe === 1 ? minuteBars.map(bar => ({ ...bar })) : this.aggregate(minuteBars, timeframe)
+    bars.reverse()
+    return limit && limit > 0 ? bars.slice(0, limit) : bars
+  }
+
+  /**
+   * 과거 1분봉 채우기 (조회 전에 들어온 실시간 봉과 같은 시각의 봉은 합침)
+   * 조회에 실패하면 실시간 봉만 사용하고 다음 getBars에서 다시 시도
+   */
+  private async seed(code: string, entry: CodeBars): Promise<void> {
+    try {
+      const rows = await this.kiwoomService.getCandleData(code, 'min')
+      const history: CandleData[] = (rows || [])
+        .map((row: any) => ({
+          일자: String(row.일자 || '').substring(0, 12),
+          시가: parseNumber(row.시가),
+          고가: parseNumber(row.고가),
+          저가: parseNumber(row.저가),
+          종가: parseNumber(row.종가),
+          거래량: parseNumber(row.거래량),
+        }))
+        .filter((bar: CandleData) => bar.일자.length === 12 && bar.종가 > 0)
+        .sort((a: CandleData, b: CandleData) => a.일자.localeCompare(b.일자))
+
+      if (this.tracked.get(code) !== entry) {
+        return // 조회 중 추적이 중지됨
+      }
+
+      const firstLive = entry.bars[0]
+      const older = history.filter(bar => !firstLive || bar.일자 < firstLive.일자)
+      const overlap = firstLive && history.find(bar => bar.일자 === firstLive.일자)
+      if (firstLive && overlap) {
+        firstLive.시가 = overlap.시가
+        firstLive.고가 = Math.max(firstLive.고가, overlap.고가)
+        firstLive.저가 = Math.min(firstLive.저가, overlap.저가)
+        firstLive.거래량 += overlap.거래량
+      }
+      entry.bars = [...older, ...entry.bars].slice(-MAX_MINUTE_BARS)
+      entry.seeded = true
+      console.log(`[분봉생성] ${code}: 과거 1분봉 ${older.length}개 로드`)
+    } catch (error: any) {
+      console.error(`[분봉생성] ${code} 과거 분봉 조회 실패:`, error.message)
+      entry.seedPromise = null
+    }
+  }
+
+  private handleRealTimeData(data: any): void {
+    if (data?.trnm !== 'REAL' || !Array.isArray(data.data)) {
+      return
+    }
+
+    for (const item of data.data) {
+      // 주문체결('9203': 주문번호)도 같은 '00' 타입으로 오므로 제외
+      if (item.type !== '00' || !item.values || !item.item || item.values['9203']) {
+        continue
+      }
+      const entry = this.tracked.get(String(item.item).replace(/^A/, ''))
+      if (entry) {
+        this.applyTick(entry, item.values)
+      }
+    }
+  }
+
+  /**
+   * 체결 틱을 1분봉에 반영
+   * '10': 현재가, '13': 누적거래량, '15': 체결량, '20': 체결시간(HHmmss)
+   */
+  private applyTick(entry: CodeBars, values: Record<string, string>): void {
+    const price = parseNumber(values['10'])
+    if (price <= 0) {
+      return
+    }
+
+    const now = new Date()
+    const time = String(values['20'] || '').padStart(6, '0')
+    const minuteKey = /^\d{6}$/.test(time)
+      ? `${formatDate(now)}${time.substring(0, 4)}`
+      : `${formatDate(now)}${String(now.getHours()).padStart(2, '0')}${String(now.getMinutes()).padStart(2, '0')}`
+
+    const cumulativeVolume = parseNumber(values['13'])
+    let volume = parseNumber(values['15'])
+    if (!volume && cumulativeVolume > entry.lastCumulativeVolume && entry.lastCumulativeVolume > 0) {
+      volume = cumulativeVolume - entry.lastCumulativeVolume
+    }
+    if (cumulativeVolume > 0) {
+      entry.lastCumulativeVolume = cumulativeVolume
+    }
+    entry.lastTickAt = now
+
+    const last = entry.bars[entry.bars.length - 1]
+    if (last && last.일자 === minuteKey) {
+      last.고가 = Math.max(last.고가, price)
+      last.저가 = Math.min(last.저가, price)
+      last.종가 = price
+      last.거래량 += volume
+      return
+    }
+    if (last && last.일자 > minuteKey) {
+      return // 늦게 도착한 이전 분의 틱
+    }
+
+    entry.bars.push({ 일자: minuteKey, 시가: price, 고가: price, 저가: price, 종가: price, 거래량: volume })
+    if (entry.bars.length > MAX_MINUTE_BARS) {
+      entry.bars.shift()
+    }
+  }
+
+  /**
+   * 1분봉을 N분봉으로 묶음 (봉 시작 시각 = 하루 중 분을 N으로 내림, 09:00 기준과 같음)
+   */
+  private aggregate(minuteBars: CandleData[], timeframe: BarTimeframe): CandleData[] {
+    const result: CandleData[] = []
+    for (const bar of minuteBars) {
+      const minutes = parseInt(bar.일자.substring(8, 10)) * 60 + parseInt(bar.일자.substring(10, 12))
+      const bucket = Math.floor(minutes / timeframe) * timeframe
+      const key = `${bar.일자.substring(0, 8)}${String(Math.floor(bucket / 60)).padStart(2, '0')}${String(bucket % 60).padStart(2, '0')}`
+
+      const last = result[result.length - 1]
+      if (last && last.일자 === key) {
+        last.고가 = Math.max(last.고가, bar.고가)
+        last.저가 = Math.min(last.저가, bar.저가)
+        last.종가 = bar.종가
+        last.거래량 += bar.거래량
+      } else {
+        result.push({ ...bar, 일자: key })
+      }
+    }
+    return result
+  }
+}
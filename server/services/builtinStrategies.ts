@@ -0,0 +1,312 @@
+/**
+ * 기본 제공 매수 전략
+ * tradingStrategies.ts의 전략 함수를 Strategy 형식(파라미터 스키마 + 판단 함수)으로 감싼 정의
+ * 등록 순서가 판단 순서 (My_매수신호_1 → 시간대 전략 → 기본매수)
+ */
+import type { Strategy, StrategyParameter } from './strategyRegistry'
+import {
+  StrategyParams,
+  StrategyResult,
+  BasicBuySettings,
+  MarketOpenBuySettings,
+  BollingerBuySettings,
+  MarketCloseBuySettings,
+  ScalpingBuySettings,
+  BreakoutBuySettings,
+  DEFAULT_BASIC_BUY,
+  DEFAULT_MARKET_OPEN_BUY,
+  DEFAULT_BOLLINGER_BUY,
+  DEFAULT_MARKET_CLOSE_BUY,
+  DEFAULT_SCALPING_BUY,
+  DEFAULT_BREAKOUT_BUY,
+  매수신호1,
+  장시작급등주매수,
+  볼린저밴드매수,
+  장마감종가배팅매수,
+  스캘핑매수,
+  돌파매수,
+} from './tradingStrategies'
+
+/**
+ * 기본 설정값과 항목 이름으로 숫자 파라미터 스키마 생성
+ */
+function numberParameters<T extends object>(
+  defaults: T,
+  labels: { [K in keyof T]: string }
+): StrategyParameter[] {
+  return (Object.keys(labels) as (keyof T & string)[]).map(key => ({
+    key,
+    label: labels[key],
+    type: 'number' as const,
+    default: Number(defaults[key]),
+  }))
+}
+
+// 파라미터 값을 전략 함수의 설정 형식으로 사용 (스키마의 key가 설정 항목과 같음)
+function asSettings<T>(params: StrategyParams): T {
+  return params as unknown as T
+}
+
+// 시작 시점 대비 상대 변화율 표시
+function formatChange(relativeChange: number): string {
+  return relativeChange.toFixed(2)
+}
+
+const NO_SIGNAL: StrategyResult = { signal: false }
+
+const formula1Strategy: Strategy = {
+  id: 'formula1',
+  name: 'My_매수신호_1',
+  description: '이동평균선 기반 매수 신호 (신호가 나면 다른 전략은 확인하지 않음)',
+  session: 'always',
+  usesCandles: true,
+  defaultEnabled: false,
+  exclusive: true,
+  parameters: [],
+  minCandles: () => 20,
+  evaluate: ({ stock, candles }) => 매수신호1(stock, candles),
+  fromLegacyConfig: config => ({ enabled: config.buyFormula1 }),
+}
+
+const marketOpenStrategy: Strategy = {
+  id: 'marketOpen',
+  name: '장시작급등주',
+  description: '장 시작 직후 거래량과 함께 급등하는 종목 매수 (시작/종료 시각이 장시작 구간)',
+  session: 'marketOpen',
+  usesCandles: true,
+  defaultEnabled: true,
+  parameters: numberParameters<MarketOpenBuySettings>(DEFAULT_MARKET_OPEN_BUY, {
+    startHour: '시작 시',
+    startMinute: '시작 분',
+    endHour: '종료 시',
+    endMinute: '종료 분',
+    volumeIncreaseRate: '거래량증가율기준 (%)',
+    minTradingAmount: '최소거래대금 (억)',
+    minFluctuation: '최소등락률 (%)',
+    buyPriceAdjustment: '매수가격조정 (%)',
+    highDropLimit: '고가대비하락제한 (%)',
+    minConsecutiveRises: '최소연속상승봉',
+    volumeRatioLimit: '거래량비율제한',
+    currentMinRise: '현재봉최소상승률 (%)',
+    prevMinRise: '이전봉최소상승률 (%)',
+    minBullishRatio: '최소양봉비율 (%)',
+    rsiLower: 'RSI 하한',
+    rsiUpper: 'RSI 상한',
+    movingAvgRequired: '이동평균정배열필수 (1=사용)',
+    recentCandleCount: '최근분봉 개수',
+    consecutiveRiseCheckCount: '연속상승봉 체크 개수',
+    shortTermPeriod: '단기이동평균 기간',
+    midTermPeriod: '중기이동평균 기간',
+    avgVolumePeriod: '평균거래량 계산 기간',
+    recentHighPeriod: '최근고가 계산 기간',
+    bullishRatioCheckCount: '양봉비율 체크 개수',
+    rsiPeriod: 'RSI 계산 기간',
+  }),
+  minCandles: params => Number(params.shortTermPeriod),
+  evaluate: ({ stock, candles }, params) =>
+    장시작급등주매수(stock, candles, asSettings<MarketOpenBuySettings>(params)),
+  // 차트 데이터가 없으면 시작 시점 대비 상대 변화율 기반
+  fallback: ({ stock, relativeChange }, params) => relativeChange >= (Number(params.minFluctuation) || 0)
+    ? { signal: true, level: 'info', message: `[장시작급등주] ${stock.name}: 시작가격 대비 ${formatChange(relativeChange)}% 상승` }
+    : NO_SIGNAL,
+  fromLegacyConfig: config => ({ enabled: config.strategyMarketOpen, params: { ...config.marketOpenBuy } }),
+}
+
+const bollingerStrategy: Strategy = {
+  id: 'bollinger',
+  name: '볼린저밴드',
+  description: '볼린저밴드 하단 부근에서 반등하는 종목 매수',
+  session: 'intraday',
+  usesCandles: true,
+  defaultEnabled: true,
+  parameters: numberParameters<BollingerBuySettings>(DEFAULT_BOLLINGER_BUY, {
+    shortTermPeriod: '단기이동평균 기간',
+    midTermPeriod: '중기이동평균 기간',
+    bollingerPeriod: '볼린저밴드 계산 기간',
+    bollingerMultiplier: '볼린저밴드 배수',
+    openHighBounceLimit: '시가고가반등제한 (%)',
+    openHighBounceLimitUse: '시가고가반등제한 사용 (1=사용)',
+    movingAvgRequired: '이동평균정배열필수 (1=사용)',
+    movingAvgPeriod: '이동평균 기간',
+    instantVolumeIncrease: '순간거래량증가기준',
+    instantVolumeUse: '순간거래량 사용 (1=사용)',
+    volumeCompareCount: '거래량비교 개수',
+    recentCandleCount: '최근분봉 개수',
+    priceRiseCheckPeriod: '가격상승률 체크 기간',
+    minPriceRise: '최소 가격 상승률 (%)',
+  }),
+  minCandles: params => Number(params.shortTermPeriod),
+  evaluate: ({ stock, candles }, params) =>
+    볼린저밴드매수(stock, candles, asSettings<BollingerBuySettings>(params)),
+  fallback: ({ stock, relativeChange }) => relativeChange >= -1 && relativeChange <= 2 && stock.volume > 0
+    ? { signal: true, level: 'info', message: `[볼린저밴드] ${stock.name}: 시작가격 대비 ${formatChange(relativeChange)}% (하락 후 반등 패턴)` }
+    : NO_SIGNAL,
+  fromLegacyConfig: config => ({ enabled: config.strategyBollinger, params: { ...config.bollingerBuy } }),
+}
+
+const scalpingStrategy: Strategy = {
+  id: 'scalping',
+  name: '스캘핑',
+  description: '눌림 후 저점에서 거래량과 함께 반등하는 종목 단타 매수',
+  session: 'intraday',
+  usesCandles: true,
+  defaultEnabled: true,
+  parameters: [
+    ...numberParameters<ScalpingBuySettings>(DEFAULT_SCALPING_BUY, {
+      minTradingAmount: '최소거래대금 (억)',
+      volumeIncreaseRate: '거래량 급증 기준 (%)',
+      lowerBandDeviation: '하단밴드이탈률 (%)',
+      volumeIncreaseAfterLow: '저점후거래량증가기준 (배)',
+      rsiLower: 'RSI 하한',
+      rsiUpper: 'RSI 상한',
+      minPriceRise: '최소 가격 상승률 (%)',
+      pullbackDepthMin: '풀백 깊이 최소 (%)',
+      pullbackDepthMax: '풀백 깊이 최대 (%)',
+      minRiseAfterLow: '저점 이후 최소 상승률 (%)',
+      minRiseCandles: '저점 이후 최소 상승 봉 개수',
+      minCandleCount: '최소 차트 데이터 개수',
+      recentCandleCount: '최근분봉 개수',
+      shortTermPeriod: '단기이동평균 기간',
+      priceRiseCheckThreshold: '가격상승률 체크 임계값 (%)',
+      prevVolumePeriod: '이전봉거래량 계산 기간',
+      fullCandleCount: '전체분봉 개수',
+      peakValleySearchStart: '고점저점 탐색 시작 인덱스',
+      rsiPeriod: 'RSI 계산 기간',
+    }),
+    // 하단밴드 계산용 (기존에는 볼린저밴드매수 설정을 같이 사용)
+    ...numberParameters<Pick<BollingerBuySettings, 'bollingerPeriod' | 'bollingerMultiplier'>>(DEFAULT_BOLLINGER_BUY, {
+      bollingerPeriod: '볼린저밴드 계산 기간',
+      bollingerMultiplier: '볼린저밴드 배수',
+    }),
+  ],
+  minCandles: params => Number(params.minCandleCount),
+  evaluate: ({ stock, candles }, params) =>
+    스캘핑매수(stock, candles, asSettings<ScalpingBuySettings>(params), asSettings<BollingerBuySettings>(params)),
+  fallback: ({ stock, relativeChange }) => relativeChange > 0 && relativeChange <= 3 && stock.volume > 0
+    ? { signal: true, level: 'info', message: `[스캘핑] ${stock.name}: 차트 데이터 부족, 시작가격 대비 ${formatChange(relativeChange)}% 상승` }
+    : NO_SIGNAL,
+  fromLegacyConfig: config => ({
+    enabled: config.strategyScalping,
+    params: {
+      ...config.scalpingBuy,
+      bollingerPeriod: config.bollingerBuy.bollingerPeriod,
+      bollingerMultiplier: config.bollingerBuy.bollingerMultiplier,
+    },
+  }),
+}
+
+const breakoutStrategy: Strategy = {
+  id: 'breakout',
+  name: '돌파매수',
+  description: '이전 고점을 거래량과 함께 돌파하는 종목 매수',
+  session: 'intraday',
+  usesCandles: true,
+  defaultEnabled: true,
+  parameters: numberParameters<BreakoutBuySettings>(DEFAULT_BREAKOUT_BUY, {
+    volumeIncreaseRate: '거래량증가율기준 (%)',
+    volume1MinCoeff: '거래량1분증가율계수',
+    volume3MinCoeff: '거래량3분증가율계수',
+    volume5MinCoeff: '거래량5분증가율계수',
+    minTradingAmount: '최소거래대금 (억)',
+    prevHighRiseRate: '이전고점대비상승률 (%)',
+    prevHighRiseRelaxCoeff: '이전고점대비상승률완화계수',
+    minShortRise: '최소단기상승률 (%)',
+    min3MinRise: '최소3분상승률 (%)',
+    minFluctuation: '최소등락률 (%)',
+    maxFluctuation: '최대등락률 (%)',
+    minFluctuationRelaxCoeff: '최소등락률완화계수',
+    maxFluctuationExpandCoeff: '최대등락률확장계수',
+    rsiLower: 'RSI 하한',
+    rsiLowerRelaxCoeff: 'RSI하한완화계수',
+    recentCandleCount: '최근분봉 개수',
+    volume3MinPeriod: '3분 평균거래량 계산 기간',
+    volume5MinPeriod: '5분 평균거래량 계산 기간',
+    prevHighPeriod: '이전고점 계산 기간',
+    shortTermPeriod: '단기이동평균 기간',
+    priceRiseCheckThreshold: '가격상승률 체크 임계값 (%)',
+    priceRiseCheckPeriod: '가격상승률 체크 기간',
+    rsiPeriod: 'RSI 계산 기간',
+  }),
+  minCandles: params => Number(params.shortTermPeriod),
+  evaluate: ({ stock, candles }, params) =>
+    돌파매수(stock, candles, asSettings<BreakoutBuySettings>(params)),
+  fallback: ({ stock, relativeChange }) => relativeChange >= 2 && stock.volume > 0
+    ? { signal: true, level: 'info', message: `[돌파매수] ${stock.name}: 차트 데이터 없음, 시작가격 대비 ${formatChange(relativeChange)}% 돌파` }
+    : NO_SIGNAL,
+  fromLegacyConfig: config => ({ enabled: config.strategyBreakout, params: { ...config.breakoutBuy } }),
+}
+
+const marketCloseStrategy: Strategy = {
+  id: 'marketClose',
+  name: '장마감종가배팅',
+  description: '장 마감 전(15:10~15:20) 종가 부근에서 매수',
+  session: 'marketClose',
+  usesCandles: true,
+  defaultEnabled: true,
+  parameters: numberParameters<MarketCloseBuySettings>(DEFAULT_MARKET_CLOSE_BUY, {
+    minCandleCount: '최소 차트 데이터 개수',
+    recentCandleCount: '최근분봉 개수',
+    priceRiseCheckPeriod: '가격상승률 체크 기간',
+    shortTermPeriod: '단기이동평균 기간',
+    minPriceRise: '최소 가격 상승률 (%)',
+    avgVolumePeriod: '평균거래량 계산 기간',
+    volumeIncreaseRate: '거래량증가율기준 (%)',
+    minTradingAmount: '최소거래대금 (억)',
+    maxVolatility: '변동성상한 (%)',
+  }),
+  minCandles: params => Number(params.minCandleCount),
+  evaluate: ({ stock, candles }, params) =>
+    장마감종가배팅매수(stock, candles, asSettings<MarketCloseBuySettings>(params)),
+  fallback: ({ stock }) => ({
+    signal: true,
+    level: 'info',
+    message: `[장마감종가배팅] ${stock.name}: 실시간 가격 ${stock.price.toLocaleString()}원`,
+  }),
+  fromLegacyConfig: config => ({ enabled: config.strategyMarketClose, params: { ...config.marketCloseBuy } }),
+}
+
+const basicBuyStrategy: Strategy = {
+  id: 'basic',
+  name: '기본매수',
+  description: '조건식 감지 시점 대비 등락률 차이가 범위 안이면 매수 (감지 후 하락한 종목은 시간대 전략도 차단)',
+  session: 'always',
+  usesCandles: false,
+  defaultEnabled: true,
+  parameters: numberParameters<Pick<BasicBuySettings, 'minFluctuation' | 'maxFluctuation' | 'minVolume'>>(DEFAULT_BASIC_BUY, {
+    minFluctuation: '최소 등락률 차이 (%, 0=제한 없음)',
+    maxFluctuation: '최대 등락률 차이 (%, 0=제한 없음)',
+    minVolume: '최소 거래량 (0=제한 없음)',
+  }),
+  gate: ({ changeDiff }) => changeDiff >= 0,
+  evaluate: ({ stock, changeDiff }, params) => {
+    const minFluctuation = Number(params.minFluctuation)
+    const maxFluctuation = Number(params.maxFluctuation)
+    const minVolume = Number(params.minVolume)
+    const matched =
+      changeDiff > 0 &&
+      (minFluctuation <= 0 || changeDiff >= minFluctuation) &&
+      (maxFluctuation <= 0 || changeDiff <= maxFluctuation) &&
+      (minVolume <= 0 || stock.volume >= minVolume)
+    return matched
+      ? { signal: true, level: 'info', message: `[기본매수설정] ${stock.name}: 조건 충족 (감지시점: ${stock.detectedChangePercent.toFixed(2)}% → 현재: ${stock.changePercent.toFixed(2)}%, 차이: ${changeDiff.toFixed(2)}%)` }
+      : NO_SIGNAL
+  },
+  fromLegacyConfig: config => ({
+    enabled: config.strategyBasicBuy,
+    params: {
+      minFluctuation: config.basicBuy.minFluctuation,
+      maxFluctuation: config.basicBuy.maxFluctuation,
+      minVolume: config.basicBuy.minVolume,
+    },
+  }),
+}
+
+export const BUILTIN_STRATEGIES: Strategy[] = [
+  formula1Strategy,
+  marketOpenStrategy,
+  bollingerStrategy,
+  scalpingStrategy,
+  breakoutStrategy,
+  marketCloseStrategy,
+  basicBuyStrategy,
+]
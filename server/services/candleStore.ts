@@ -0,0 +1,279 @@
+/**
+ * 과거 캔들 저장소
+ * 차트 API로 받은 분봉/일봉을 종목/봉 단위/날짜별 JSON 파일로 저장하고,
+ * 조회 구간 중 저장되지 않았거나 아직 확정되지 않은(장중) 날짜만 연속조회로 채워서 반환
+ * 분봉은 하루(YYYYMMDD), 일봉은 한 달(YYYYMM)이 파일 하나
+ */
+import { promises as fs } from 'fs'
+import path from 'path'
+import { KiwoomService } from './kiwoomService'
+import type { CandleData } from './tradingStrategies'
+
+export type CandlePeriod = 'min' | 'day'
+
+export interface CandleQuery {
+  code: string
+  period: CandlePeriod
+  start?: string // 분봉: YYYYMMDD 또는 YYYYMMDDHHmm, 일봉: YYYYMMDD (생략 시 분봉은 오늘, 일봉은 6개월 전)
+  end?: string // 생략 시 현재
+}
+
+interface CandleFile {
+  code: string
+  period: CandlePeriod
+  key: string // 분봉: YYYYMMDD, 일봉: YYYYMM
+  complete: boolean // 장 마감 후에 조회하여 더 이상 바뀌지 않는 구간
+  fetchedAt: string
+  bars: CandleData[] // 시간순
+}
+
+const CANDLE_CACHE_DIR = process.env.CANDLE_CACHE_DIR || path.join(process.cwd(), '.local', 'candles')
+const MARKET_CLOSE_MINUTES = 15 * 60 + 40 // 15:30 장마감 후 이 시각 이후에 조회한 봉은 확정으로 간주
+const REFRESH_INTERVAL: Record<CandlePeriod, number> = { min: 10 * 1000, day: 60 * 1000 } // 확정되지 않은 구간 재조회 간격 (ms)
+const MAX_BACKFILL_PAGES: Record<CandlePeriod, number> = { min: 20, day: 10 } // 한 번에 연속조회할 최대 페이지 수
+const DEFAULT_DAY_RANGE_MONTHS = 6
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0')
+}
+
+function formatDate(date: Date): string {
+  return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}`
+}
+
+function parseDate(yyyymmdd: string): Date {
+  return new Date(parseInt(yyyymmdd.substring(0, 4)), parseInt(yyyymmdd.substring(4, 6)) - 1, parseInt(yyyymmdd.substring(6, 8)))
+}
+
+function parseNumber(value: any): number {
+  return Math.abs(parseFloat(String(value ?? '0').replace(/[,+\-\s]/g, ''))) || 0
+}
+
+function invalidQuery(message: string): Error {
+  const error = new Error(message)
+  ;(error as any).isInvalidQuery = true
+  return error
+}
+
+export class CandleStore {
+  private static instance: CandleStore
+  private kiwoomService = KiwoomService.getInstance()
+  private locks: Map<string, Promise<unknown>> = new Map() // 종목/봉 단위별 조회 직렬화 (같은 구간을 동시에 채우지 않도록)
+
+  private constructor() {}
+
+  static getInstance(): CandleStore {
+    if (!CandleStore.instance) {
+      CandleStore.instance = new CandleStore()
+    }
+    return CandleStore.instance
+  }
+
+  static isPeriod(value: string): value is CandlePeriod {
+    return value === 'min' || value === 'day'
+  }
+
+  /**
+   * 구간 캔들 조회 (최신 봉이 앞에 오는 순서, getCandleData 응답과 같은 형식)
+   * 저장되지 않은 날짜나 장중에 저장한 날짜만 차트 API로 채우고, 조회에 실패하면 저장된 봉만 반환
+   */
+  async getCandles(query: CandleQuery): Promise<CandleData[]> {
+    const { code, period } = query
+    const { start, end } = this.resolveRange(query)
+    const keys = this.getKeys(period, start, end)
+
+    return this.withLock(`${code}:${period}`, async () => {
+      const files = await Promise.all(keys.map(key => this.readFile(code, period, key)))
+      const now = Date.now()
+      const missing = keys.filter((key, i) => {
+        const file = files[i]
+        return !file || (!file.complete && now - new Date(file.fetchedAt).getTime() >= REFRESH_INTERVAL[period])
+      })
+
+      if (missing.length > 0) {
+        try {
+          const existing = new Map(files.filter((file): file is CandleFile => file !== null).map(file => [file.key, file]))
+          const written = await this.backfill(code, period, missing, existing)
+          for (const file of written) {
+            files[keys.indexOf(file.key)] = file
+          }
+        } catch (error: any) {
+          if (!files.some(file => file && file.bars.length > 0)) {
+            throw error
+          }
+          console.warn(`[캔들저장소] ${code} ${period} 조회 실패, 저장된 봉만 반환:`, error.message)
+        }
+      }
+
+      const length = period === 'min' ? 12 : 8
+      return files
+        .flatMap(file => file?.bars || [])
+        .filter(bar => bar.일자 >= start.padEnd(length, '0') && bar.일자 <= end.padEnd(length, '9'))
+        .reverse()
+    })
+  }
+
+  /**
+   * 빠진 날짜 채우기
+   * 가장 오래된 빠진 날짜(이미 일부 저장된 날짜는 마지막 봉)까지 최신 봉부터 연속조회하여,
+   * 처음부터 끝까지 받은 날짜만 파일로 저장 (최대 페이지 수에 걸려 일부만 받은 날짜는 다음 조회에서 다시 채움)
+   */
+  private async backfill(
+    code: string,
+    period: CandlePeriod,
+    missing: string[],
+    existing: Map<string, CandleFile>
+  ): Promise<CandleFile[]> {
+    const resumeFrom = new Map(missing.map(key => {
+      const bars = existing.get(key)?.bars || []
+      return [key, bars.length > 0 ? bars[bars.length - 1].일자 : `${key}${period === 'min' ? '0000' : '01'}`]
+    }))
+    const until = Array.from(resumeFrom.values()).sort()[0]
+    const history = await this.kiwoomService.getCandleHistory(code, period, until, MAX_BACKFILL_PAGES[period])
+
+    const length = period === 'min' ? 12 : 8
+    const fetched: CandleData[] = history.candles
+      .map((row: any) => ({
+        일자: String(row.일자 || '').substring(0, length),
+        시가: parseNumber(row.시가),
+        고가: parseNumber(row.고가),
+        저가: parseNumber(row.저가),
+        종가: parseNumber(row.종가),
+        거래량: parseNumber(row.거래량),
+      }))
+      .filter((bar: CandleData) => bar.일자.length === length && bar.종가 > 0)
+    const oldest = fetched.reduce<string | null>((min, bar) => (min === null || bar.일자 < min ? bar.일자 : min), null)
+
+    const fetchedAt = new Date()
+    const written: CandleFile[] = []
+    for (const key of missing) {
+      const covered = !history.hasMore || (oldest !== null && oldest <= resumeFrom.get(key)!)
+      if (!covered) {
+        continue
+      }
+
+      const merged = new Map<string, CandleData>()
+      for (const bar of existing.get(key)?.bars || []) {
+        merged.set(bar.일자, bar)
+      }
+      for (const bar of fetched) {
+        if (this.getKey(period, bar.일자) === key) {
+          merged.set(bar.일자, bar)
+        }
+      }
+
+      const file: CandleFile = {
+        code,
+        period,
+        key,
+        complete: fetchedAt >= this.getCloseTime(period, key),
+        fetchedAt: fetchedAt.toISOString(),
+        bars: Array.from(merged.values()).sort((a, b) => a.일자.localeCompare(b.일자)),
+      }
+      await this.writeFile(file)
+      written.push(file)
+    }
+
+    console.log(`[캔들저장소] ${code} ${period}: 봉 ${fetched.length}개 조회, 빠진 구간 ${missing.length}개 중 ${written.length}개 저장`)
+    return written
+  }
+
+  /**
+   * 조회 구간 (YYYYMMDD 또는 분봉은 YYYYMMDDHHmm), 미래 날짜는 오늘로 제한
+   */
+  private resolveRange(query: CandleQuery): { start: string; end: string } {
+    const pattern = query.period === 'min' ? /^\d{8}(\d{4})?$/ : /^\d{8}$/
+    const format = query.period === 'min' ? 'YYYYMMDD 또는 YYYYMMDDHHmm' : 'YYYYMMDD'
+    for (const value of [query.start, query.end]) {
+      if (value && !pattern.test(value)) {
+        throw invalidQuery(`조회 구간은 ${format} 형식이어야 합니다: ${value}`)
+      }
+    }
+
+    const today = formatDate(new Date())
+    let start = query.start
+    if (!start) {
+      const from = new Date()
+      if (query.period === 'day') {
+        from.setMonth(from.getMonth() - DEFAULT_DAY_RANGE_MONTHS)
+      }
+      start = formatDate(from)
+    }
+    const end = query.end && query.end.substring(0, 8) <= today ? query.end : today
+    if (start > end) {
+      throw invalidQuery(`조회 시작일이 종료일보다 늦습니다: ${start} > ${end}`)
+    }
+    return { start, end }
+  }
+
+  /**
+   * 구간에 포함되는 파일 키 (분봉: 날짜별, 일봉: 월별)
+   */
+  private getKeys(period: CandlePeriod, start: string, end: string): string[] {
+    const keys: string[] = []
+    const date = parseDate(start)
+    const last = this.getKey(period, end)
+    if (period === 'day') {
+      date.setDate(1)
+    }
+    while (this.getKey(period, formatDate(date)) <= last) {
+      keys.push(this.getKey(period, formatDate(date)))
+      if (period === 'min') {
+        date.setDate(date.getDate() + 1)
+      } else {
+        date.setMonth(date.getMonth() + 1)
+      }
+    }
+    return keys
+  }
+
+  private getKey(period: CandlePeriod, 일자: string): string {
+    return 일자.substring(0, period === 'min' ? 8 : 6)
+  }
+
+  /**
+   * 구간의 봉이 확정되는 시각 (분봉: 그날 장마감 후, 일봉: 그달 마지막 날 장마감 후)
+   */
+  private getCloseTime(period: CandlePeriod, key: string): Date {
+    const date = period === 'min'
+      ? parseDate(key)
+      : new Date(parseInt(key.substring(0, 4)), parseInt(key.substring(4, 6)), 0)
+    date.setHours(0, MARKET_CLOSE_MINUTES, 0, 0)
+    return date
+  }
+
+  private getFilePath(code: string, period: CandlePeriod, key: string): string {
+    return path.join(CANDLE_CACHE_DIR, code, period, `${key}.json`)
+  }
+
+  private async readFile(code: string, period: CandlePeriod, key: string): Promise<CandleFile | null> {
+    try {
+      const data = JSON.parse(await fs.readFile(this.getFilePath(code, period, key), 'utf-8'))
+      return Array.isArray(data?.bars) ? data : null
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        console.warn(`[캔들저장소] ${code} ${period} ${key} 파일 읽기 실패, 다시 조회합니다:`, error.message)
+      }
+      return null
+    }
+  }
+
+  private async writeFile(file: CandleFile): Promise<void> {
+    const filePath = this.getFilePath(file.code, file.period, file.key)
+    await fs.mkdir(path.dirname(filePath), { recursive: true })
+    await fs.writeFile(filePath, JSON.stringify(file), 'utf-8')
+  }
+
+  private async withLock<T>(id: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.locks.get(id) || Promise.resolve()
+    const current = previous.catch(() => undefined).then(task)
+    this.locks.set(id, current)
+    try {
+      return await current
+    } finally {
+      if (this.locks.get(id) === current) {
+        this.locks.delete(id)
+      }
+    }
+  }
+}
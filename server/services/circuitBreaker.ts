@@ -0,0 +1,218 @@
+/**
+ * 서킷 브레이커 서비스
+ * 당일 손익(실현 + 평가)이 손실 한도를 넘거나 수동 정지(POST /api/trading/halt) 시 신규 매수를 차단
+ * 상태는 circuit_breaker.json에 저장하여 서버를 재시작해도 해제하기 전까지 유지
+ */
+import { promises as fs } from 'fs'
+import path from 'path'
+
+export type HaltReason = 'loss_limit' | 'manual'
+
+export interface CircuitBreakerConfig {
+  lossLimit: number // 당일 손실 한도 (원, 실현손익 + 평가손익 기준, 0이면 자동 정지 안 함)
+  cancelOpenOrders: boolean // 정지 시 미체결 주문 취소
+  flattenPositions: boolean // 정지 시 보유 종목 시장가 전량 매도
+}
+
+// 정지 시 실행한 조치 결과
+export interface HaltActions {
+  cancelledOrders: string[]
+  flattenedStocks: string[]
+  errors: string[]
+}
+
+export interface CircuitBreakerState {
+  tripped: boolean
+  reason: HaltReason | null
+  message: string
+  trippedAt: string | null
+  pnlAtTrip: number | null
+  lastPnl: number | null // 마지막으로 평가한 당일 손익
+  lastEvaluatedAt: string | null
+  actions: HaltActions | null
+  config: CircuitBreakerConfig
+}
+
+type CircuitBreakerCallback = (state: CircuitBreakerState) => void
+
+const DEFAULT_CIRCUIT_BREAKER_CONFIG: CircuitBreakerConfig = {
+  lossLimit: 0,
+  cancelOpenOrders: true,
+  flattenPositions: false,
+}
+
+const CIRCUIT_BREAKER_FILE = path.join(process.cwd(), 'circuit_breaker.json')
+
+export class CircuitBreaker {
+  private static instance: CircuitBreaker
+  private state: CircuitBreakerState = {
+    tripped: false,
+    reason: null,
+    message: '',
+    trippedAt: null,
+    pnlAtTrip: null,
+    lastPnl: null,
+    lastEvaluatedAt: null,
+    actions: null,
+    config: { ...DEFAULT_CIRCUIT_BREAKER_CONFIG },
+  }
+  private loadPromise: Promise<void>
+  private changeCallbacks: Set<CircuitBreakerCallback> = new Set()
+
+  private constructor() {
+    // 재시작 직후 첫 주문 전에 이전 정지 상태를 복원
+    this.loadPromise = this.load()
+  }
+
+  static getInstance(): CircuitBreaker {
+    if (!CircuitBreaker.instance) {
+      CircuitBreaker.instance = new CircuitBreaker()
+    }
+    return CircuitBreaker.instance
+  }
+
+  async getState(): Promise<CircuitBreakerState> {
+    await this.loadPromise
+    return this.getSnapshot()
+  }
+
+  /**
+   * 현재 상태 (저장 파일 로드 전이면 기본값)
+   */
+  getSnapshot(): CircuitBreakerState {
+    return {
+      ...this.state,
+      actions: this.state.actions ? { ...this.state.actions } : null,
+      config: { ...this.state.config },
+    }
+  }
+
+  async isTripped(): Promise<boolean> {
+    await this.loadPromise
+    return this.state.tripped
+  }
+
+  /**
+   * 당일 손익 평가 (손실 한도 도달 시 정지, 새로 정지되면 true)
+   */
+  async evaluate(pnl: number): Promise<boolean> {
+    await this.loadPromise
+    this.state.lastPnl = Math.round(pnl)
+    this.state.lastEvaluatedAt = new Date().toISOString()
+
+    const { lossLimit } = this.state.config
+    if (this.state.tripped || lossLimit <= 0 || pnl > -lossLimit) {
+      return false
+    }
+
+    return this.trip('loss_limit', `당일 손익 ${Math.round(pnl).toLocaleString()}원이 손실 한도 -${lossLimit.toLocaleString()}원에 도달했습니다`, pnl)
+  }
+
+  /**
+   * 정지 (이미 정지 상태면 false)
+   */
+  async trip(reason: HaltReason, message: string, pnl: number | null = null): Promise<boolean> {
+    await this.loadPromise
+    if (this.state.tripped) {
+      return false
+    }
+
+    this.state = {
+      ...this.state,
+      tripped: true,
+      reason,
+      message,
+      trippedAt: new Date().toISOString(),
+      pnlAtTrip: pnl === null ? this.state.lastPnl : Math.round(pnl),
+      actions: null,
+    }
+    console.warn(`[서킷 브레이커] 매매 정지 (${reason}): ${message}`)
+    await this.saveAndEmit()
+    return true
+  }
+
+  /**
+   * 정지 시 실행한 조치(미체결 취소, 전량 매도) 기록
+   */
+  async recordActions(actions: HaltActions): Promise<void> {
+    await this.loadPromise
+    this.state.actions = actions
+    await this.saveAndEmit()
+  }
+
+  /**
+   * 정지 해제
+   */
+  async reset(): Promise<CircuitBreakerState> {
+    await this.loadPromise
+    this.state = {
+      ...this.state,
+      tripped: false,
+      reason: null,
+      message: '',
+      trippedAt: null,
+      pnlAtTrip: null,
+      actions: null,
+    }
+    console.log('[서킷 브레이커] 매매 정지 해제')
+    await this.saveAndEmit()
+    return this.getSnapshot()
+  }
+
+  async updateConfig(partial: Partial<CircuitBreakerConfig>): Promise<CircuitBreakerState> {
+    await this.loadPromise
+    const config = { ...this.state.config, ...partial }
+    this.state.config = {
+      lossLimit: Math.abs(Number(config.lossLimit) || 0),
+      cancelOpenOrders: String(config.cancelOpenOrders) === 'true',
+      flattenPositions: String(config.flattenPositions) === 'true',
+    }
+    await this.saveAndEmit()
+    return this.getSnapshot()
+  }
+
+  /**
+   * 상태 변경 콜백 등록
+   */
+  onChange(callback: CircuitBreakerCallback): () => void {
+    this.changeCallbacks.add(callback)
+    return () => {
+      this.changeCallbacks.delete(callback)
+    }
+  }
+
+  private async saveAndEmit(): Promise<void> {
+    try {
+      await fs.writeFile(CIRCUIT_BREAKER_FILE, JSON.stringify(this.state, null, 2), 'utf-8')
+    } catch (error: any) {
+      console.error('[서킷 브레이커] 상태 저장 오류:', error.message)
+    }
+
+    const snapshot = this.getSnapshot()
+    this.changeCallbacks.forEach((callback) => {
+      try {
+        callback(snapshot)
+      } catch (error) {
+        console.error('[서킷 브레이커] 콜백 실행 오류:', error)
+      }
+    })
+  }
+
+  private async load(): Promise<void> {
+    try {
+      const data = JSON.parse(await fs.readFile(CIRCUIT_BREAKER_FILE, 'utf-8'))
+      this.state = {
+        ...this.state,
+        ...data,
+        config: { ...DEFAULT_CIRCUIT_BREAKER_CONFIG, ...data.config },
+      }
+      if (this.state.tripped) {
+        console.warn(`[서킷 브레이커] 정지 상태 복원: ${this.state.message}`)
+      }
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        console.error('[서킷 브레이커] 상태 파일 읽기 오류:', error.message)
+      }
+    }
+  }
+}
@@ -0,0 +1,302 @@
+/**
+ * 브라우저 WebSocket(/ws) 허브
+ * 클라이언트마다 hello(프로토콜 버전, 라이선스 세션 토큰 확인)와 토픽 구독 상태를 관리하고, 구독한 토픽의 메시지만 전송
+ * 세션 토큰이 없거나 유효하지 않으면 구독 전에 연결을 닫음 (익명 연결이 키움 실시간 등록을 일으키지 않도록)
+ * 종목 토픽(quotes:<종목코드>, orderbook:<종목코드>)은 RealtimeSubscriptionManager 구독으로 연결되어
+ * 탭을 닫으면 해당 탭의 실시간 등록이 해지됨
+ */
+import WebSocket, { WebSocketServer } from 'ws'
+import {
+  WS_PROTOCOL_VERSION,
+  WS_STATIC_TOPICS,
+  WS_CLOSE_VERSION_MISMATCH,
+  WS_CLOSE_UNAUTHORIZED,
+  WsClientMessage,
+  WsErrorCode,
+  WsServerMessage,
+  WsTopic,
+  WsTopicMessage,
+  RealtimeQuotePacket,
+  isWsTopic,
+  getTopicCode,
+  quotesTopic,
+} from '../../shared/wsProtocol'
+import { RealtimeSubscriptionManager, STOCK_TRADE_TYPE } from './realtimeSubscriptions'
+import { ORDER_BOOK_TYPE } from './kiwoomWebSocketService'
+import keyService from './keyService'
+
+type SubscribeCallback = (topic: WsTopic, send: (message: WsServerMessage) => void) => void
+
+interface ClientState {
+  id: string // 실시간 구독자 이름 (browser:N)
+  ready: boolean // hello로 버전과 세션 토큰 확인을 마쳤는지
+  topics: Set<WsTopic>
+  alive: boolean // 마지막 ping 이후 pong을 받았는지
+  queue: Promise<void> // 메시지 처리 순서 보장 (hello 확인이 끝난 뒤 subscribe 처리)
+}
+
+const PING_INTERVAL = 30 * 1000 // 서버 → 클라이언트 ping 주기 (pong이 없으면 다음 주기에 연결 종료)
+
+export class ClientSocketHub {
+  private static instance: ClientSocketHub
+  private subscriptionManager = RealtimeSubscriptionManager.getInstance()
+  private clients: Map<WebSocket, ClientState> = new Map()
+  private subscribeCallbacks: Set<SubscribeCallback> = new Set()
+  private pingTimer: NodeJS.Timeout | null = null
+  private nextClientId = 1
+
+  private constructor() {}
+
+  static getInstance(): ClientSocketHub {
+    if (!ClientSocketHub.instance) {
+      ClientSocketHub.instance = new ClientSocketHub()
+    }
+    return ClientSocketHub.instance
+  }
+
+  /**
+   * WebSocket 서버 연결 및 ping 시작
+   */
+  attach(wss: WebSocketServer): void {
+    wss.on('connection', (ws) => this.handleConnection(ws))
+    wss.on('close', () => this.stopPing())
+    this.startPing()
+  }
+
+  /**
+   * 토픽을 구독한 클라이언트에 메시지 전송
+   */
+  publish(message: WsTopicMessage): void {
+    let data: string | null = null
+    this.clients.forEach((client, ws) => {
+      if (client.ready && client.topics.has(message.topic) && ws.readyState === WebSocket.OPEN) {
+        data = data || JSON.stringify(message)
+        ws.send(data)
+      }
+    })
+  }
+
+  /**
+   * 키움 REAL 패킷을 종목별 quotes 토픽으로 나눠 전송 (계좌 실시간 항목은 종목코드가 없어 제외)
+   */
+  publishRealTime(packet: any): void {
+    if (packet?.trnm !== 'REAL' || !Array.isArray(packet.data)) {
+      return
+    }
+
+    const itemsByCode = new Map<string, RealtimeQuotePacket['data']>()
+    for (const item of packet.data) {
+      const code = String(item?.item || '').trim().replace(/^A/, '')
+      if (!code || !item.values) {
+        continue
+      }
+      const items = itemsByCode.get(code) || []
+      items.push(item)
+      itemsByCode.set(code, items)
+    }
+
+    itemsByCode.forEach((items, code) => {
+      const topic = quotesTopic(code)
+      this.publish({ type: 'realtime', topic, data: { trnm: 'REAL', data: items } })
+    })
+  }
+
+  /**
+   * 토픽 구독 콜백 등록 (구독 직후 현재 상태를 보내는 용도)
+   */
+  onSubscribe(callback: SubscribeCallback): () => void {
+    this.subscribeCallbacks.add(callback)
+    return () => {
+      this.subscribeCallbacks.delete(callback)
+    }
+  }
+
+  getClientCount(): number {
+    return this.clients.size
+  }
+
+  private handleConnection(ws: WebSocket): void {
+    const client: ClientState = {
+      id: `browser:${this.nextClientId++}`,
+      ready: false,
+      topics: new Set(),
+      alive: true,
+      queue: Promise.resolve(),
+    }
+    this.clients.set(ws, client)
+    console.log(`WebSocket 클라이언트 연결됨 (${client.id})`)
+
+    this.send(ws, {
+      type: 'welcome',
+      version: WS_PROTOCOL_VERSION,
+      clientId: client.id,
+      serverTime: new Date().toISOString(),
+      topics: WS_STATIC_TOPICS,
+    })
+
+    ws.on('pong', () => {
+      client.alive = true
+    })
+
+    ws.on('message', (raw) => {
+      let message: WsClientMessage
+      try {
+        message = JSON.parse(raw.toString())
+      } catch {
+        this.sendError(ws, 'invalid_message', 'JSON 형식이 아닙니다')
+        return
+      }
+      if (!message || typeof message.type !== 'string') {
+        this.sendError(ws, 'invalid_message', 'type이 필요합니다')
+        return
+      }
+
+      client.queue = client.queue
+        .then(() => this.handleMessage(ws, client, message))
+        .catch((error) => console.error('WebSocket 메시지 처리 오류:', error))
+    })
+
+    ws.on('close', () => {
+      this.release(ws, client)
+      console.log(`WebSocket 클라이언트 연결 해제됨 (${client.id})`)
+    })
+
+    ws.on('error', (error) => {
+      console.error('WebSocket 오류:', error)
+      this.release(ws, client)
+    })
+  }
+
+  private async handleMessage(ws: WebSocket, client: ClientState, message: WsClientMessage): Promise<void> {
+    switch (message.type) {
+      case 'hello': {
+        if (message.version !== WS_PROTOCOL_VERSION) {
+          this.sendError(ws, 'version_mismatch', `프로토콜 버전이 다릅니다 (서버 ${WS_PROTOCOL_VERSION}, 클라이언트 ${message.version})`)
+          ws.close(WS_CLOSE_VERSION_MISMATCH, 'version_mismatch')
+          return
+        }
+        const result = await keyService.verifySession(typeof message.token === 'string' ? message.token : undefined)
+        if (!result.valid) {
+          client.ready = false
+          this.sendError(ws, 'unauthorized', result.message || '라이선스 키 인증이 필요합니다')
+          ws.close(WS_CLOSE_UNAUTHORIZED, result.code || 'unauthorized')
+          return
+        }
+        client.ready = true
+        return
+      }
+
+      case 'ping':
+        this.send(ws, { type: 'pong', id: message.id, serverTime: new Date().toISOString() })
+        return
+
+      case 'subscribe':
+      case 'unsubscribe': {
+        if (!client.ready) {
+          this.sendError(ws, 'handshake_required', 'hello를 먼저 보내주세요')
+          return
+        }
+        const topics = Array.isArray(message.topics) ? message.topics : []
+        const invalid = topics.filter(topic => !isWsTopic(topic))
+        if (invalid.length > 0 || topics.length === 0) {
+          this.sendError(ws, 'invalid_topic', `잘못된 토픽: ${invalid.join(', ') || '(없음)'}`)
+          return
+        }
+        if (message.type === 'subscribe') {
+          this.subscribe(ws, client, topics)
+        } else {
+          this.unsubscribe(ws, client, topics)
+        }
+        return
+      }
+
+      default:
+        this.sendError(ws, 'unknown_type', `지원하지 않는 메시지입니다 (${(message as any).type})`)
+    }
+  }
+
+  private subscribe(ws: WebSocket, client: ClientState, topics: WsTopic[]): void {
+    const added = topics.filter(topic => !client.topics.has(topic))
+    added.forEach(topic => client.topics.add(topic))
+    this.updateRealTime(client, added, true)
+    this.send(ws, { type: 'subscribed', topics })
+
+    const send = (message: WsServerMessage) => this.send(ws, message)
+    added.forEach(topic => {
+      this.subscribeCallbacks.forEach((callback) => {
+        try {
+          callback(topic, send)
+        } catch (error) {
+          console.error('WebSocket 구독 콜백 실행 오류:', error)
+        }
+      })
+    })
+  }
+
+  private unsubscribe(ws: WebSocket, client: ClientState, topics: WsTopic[]): void {
+    const removed = topics.filter(topic => client.topics.has(topic))
+    removed.forEach(topic => client.topics.delete(topic))
+    this.updateRealTime(client, removed, false)
+    this.send(ws, { type: 'unsubscribed', topics })
+  }
+
+  /**
+   * 종목 토픽 구독/해지를 키움 실시간 등록에 반영
+   */
+  private updateRealTime(client: ClientState, topics: WsTopic[], subscribe: boolean): void {
+    for (const topic of topics) {
+      const code = getTopicCode(topic)
+      if (!code) {
+        continue
+      }
+      const type = topic.startsWith('orderbook:') ? ORDER_BOOK_TYPE : STOCK_TRADE_TYPE
+      if (subscribe) {
+        this.subscriptionManager.subscribe(client.id, [code], type)
+      } else {
+        this.subscriptionManager.unsubscribe(client.id, [code], type)
+      }
+    }
+  }
+
+  private release(ws: WebSocket, client: ClientState): void {
+    if (this.clients.delete(ws)) {
+      this.subscriptionManager.release(client.id)
+    }
+  }
+
+  /**
+   * 응답 없는 클라이언트 정리 (pong이 오지 않은 연결은 종료)
+   */
+  private startPing(): void {
+    this.stopPing()
+    this.pingTimer = setInterval(() => {
+      this.clients.forEach((client, ws) => {
+        if (!client.alive) {
+          console.log(`WebSocket 클라이언트 응답 없음 (${client.id})`)
+          ws.terminate()
+          this.release(ws, client)
+          return
+        }
+        client.alive = false
+        ws.ping()
+      })
+    }, PING_INTERVAL)
+  }
+
+  private stopPing(): void {
+    if (this.pingTimer) {
+      clearInterval(this.pingTimer)
+      this.pingTimer = null
+    }
+  }
+
+  private send(ws: WebSocket, message: WsServerMessage): void {
+    if (ws.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify(message))
+    }
+  }
+
+  private sendError(ws: WebSocket, code: WsErrorCode, message: string): void {
+    this.send(ws, { type: 'error', code, message })
+  }
+}
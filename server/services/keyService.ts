@@ -1,13 +1,27 @@
 /**
  * 키 발급 및 관리 서비스
  * 관리자가 발급한 키를 관리하고 사용자의 키 검증을 처리합니다.
+ * 키는 license_keys 테이블에 SHA-256 해시와 표시용 앞자리만 저장하며, 키 원문은 발급할 때 한 번만 반환합니다.
+ * 키는 처음 검증할 때 키움 App Key와 기기 ID(각각 해시)에 묶이고,
+ * 검증에 성공하면 짧은 유효기간의 세션 토큰을 발급합니다 (키별 동시 세션 수 제한).
+ * 키마다 라이선스 플랜(licensePlans.ts)이 있고, 발급/연장/플랜 변경/비활성화 등은 license_key_events에 이력으로 남깁니다.
+ * 예전 data/license-keys.json이 있으면 첫 조회 때 테이블로 옮깁니다.
  */
 import * as fs from 'fs'
 import * as path from 'path'
 import * as crypto from 'crypto'
-
-interface LicenseKey {
-  key: string // 발급된 키 값
+import { desc, eq, lt, sql } from 'drizzle-orm'
+import { Database, getDb } from '../db'
+import { licenseKeys, licenseKeyEvents, LicenseKeyRecord, LicenseKeyEventRecord, InsertLicenseKey } from '../../shared/schema'
+import { signToken, verifyToken } from '../utils/token'
+import { DEFAULT_LICENSE_PLAN, LicensePlanId, getLicensePlan } from './licensePlans'
+
+type Transaction = Parameters<Parameters<Database['transaction']>[0]>[0]
+
+// 관리자 목록/키 정보 조회 응답 (해시 제외, 키는 앞자리만)
+export interface LicenseKeyInfo {
+  id: string
+  keyPrefix: string // 표시용 키 앞자리
   issuedAt: string // 발급일시 (ISO 8601)
   expiresAt: string // 만료일시 (ISO 8601)
   validDays: number // 유효기간 (일)
@@ -16,25 +30,196 @@ interface LicenseKey {
   isActive: boolean // 활성화 여부
   usedCount: number // 사용 횟수
   lastUsedAt?: string // 마지막 사용일시
+  maxSessions: number // 동시 세션 수 제한
+  plan: LicensePlanId // 라이선스 플랜
+  binding: { appkey: boolean; device: boolean; boundAt: string } | null // 바인딩 여부 (해시는 반환하지 않음)
+}
+
+// 발급 직후 응답 (키 원문 포함, 다시 조회할 수 없음)
+export interface IssuedLicenseKey extends LicenseKeyInfo {
+  key: string
+}
+
+// 키 발급 옵션
+export interface IssueKeyOptions {
+  validDays: number
+  issuedBy?: string
+  description?: string
+  maxSessions?: number
+  plan?: LicensePlanId
+}
+
+export type LicenseKeyEventType =
+  | 'imported' // 예전 JSON 저장소에서 가져옴
+  | 'issued' // 발급
+  | 'extended' // 유효기간 연장
+  | 'plan_changed' // 플랜 변경
+  | 'activated' // 활성화
+  | 'deactivated' // 비활성화 (사용 중지)
+  | 'max_sessions_changed' // 동시 세션 수 변경
+  | 'binding_revoked' // 바인딩 해제
+  | 'deleted' // 삭제
+
+// 키 이력 항목
+export interface LicenseKeyEvent {
+  id: number
+  keyId: string
+  keyPrefix: string
+  type: LicenseKeyEventType
+  actor: string
+  detail: string
+  createdAt: string
+}
+
+// 예전 JSON 저장소 형식
+interface LegacyKeyStore {
+  keys: Array<{
+    key: string
+    issuedAt: string
+    expiresAt: string
+    validDays: number
+    issuedBy: string
+    description?: string
+    isActive: boolean
+    usedCount: number
+    lastUsedAt?: string
+  }>
+}
+
+// 라이선스 세션 (메모리에만 보관, 서버를 재시작하면 다시 검증)
+export interface LicenseSession {
+  id: string
+  keyId: string
+  appkeyHash?: string
+  deviceHash?: string
+  createdAt: string
+  expiresAt: number // 만료 시각 (ms)
+}
+
+// 검증 시 함께 보내는 사용자 정보 (원문은 저장하지 않고 해시만 저장)
+export interface LicenseClient {
+  appkey?: string
+  deviceId?: string
+}
+
+export type LicenseErrorCode =
+  | 'invalid_key' // 없는 키
+  | 'inactive' // 비활성화된 키
+  | 'expired' // 만료된 키
+  | 'binding_required' // App Key와 기기 ID가 모두 없음
+  | 'binding_mismatch' // 다른 App Key/기기에 바인딩된 키
+  | 'session_limit' // 동시 세션 수 초과
+  | 'session_required' // 세션 토큰이 없거나 만료됨
+
+export interface LicenseSessionToken {
+  token: string
+  expiresAt: string
+}
+
+interface ValidationResult {
+  valid: boolean
+  licenseKey?: LicenseKeyInfo
+  session?: LicenseSessionToken
+  message?: string
+  code?: LicenseErrorCode
+}
+
+interface SessionResult {
+  valid: boolean
+  session?: LicenseSession
+  licenseKey?: LicenseKeyInfo
+  remainingDays?: number
+  message?: string
+  code?: LicenseErrorCode
 }
 
-interface KeyStore {
-  keys: LicenseKey[]
+interface CachedSession {
+  result: SessionResult
+  revision: number // 확인 당시 키/세션 변경 번호
+  checkedAt: number
+  tokenExpiresAt: number // 토큰 자체의 만료 시각 (ms)
+}
+
+const DEFAULT_MAX_SESSIONS = 1
+const SESSION_TTL_SECONDS = 15 * 60 // 세션 토큰 유효 시간 (클라이언트가 만료 전에 갱신)
+const SESSION_CACHE_MS = 30 * 1000 // 세션 확인 결과 캐시 시간 (키/세션이 바뀌면 즉시 무효)
+const MAX_CACHED_SESSIONS = 1000
+const KEY_PREFIX_LENGTH = 8
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * 만료까지 남은 일수 (만료되었으면 0)
+ */
+export function getRemainingDays(expiresAt: string): number {
+  return Math.max(Math.ceil((new Date(expiresAt).getTime() - Date.now()) / (1000 * 60 * 60 * 24)), 0)
+}
+
+/**
+ * App Key/기기 ID 해시 (원문은 저장하지 않음)
+ */
+export function hashIdentifier(value: string): string {
+  return crypto.createHash('sha256').update(String(value).trim()).digest('hex')
+}
+
+/**
+ * 라이선스 키 해시 (대소문자, 앞뒤 공백 무시)
+ */
+function hashKey(key: string): string {
+  return hashIdentifier(String(key).trim().toUpperCase())
+}
+
+function getKeyPrefix(key: string): string {
+  return String(key).trim().toUpperCase().slice(0, KEY_PREFIX_LENGTH)
+}
+
+function toKeyInfo(record: LicenseKeyRecord): LicenseKeyInfo {
+  return {
+    id: record.id,
+    keyPrefix: record.keyPrefix,
+    issuedAt: record.issuedAt.toISOString(),
+    expiresAt: record.expiresAt.toISOString(),
+    validDays: record.validDays,
+    issuedBy: record.issuedBy,
+    description: record.description || undefined,
+    isActive: record.isActive,
+    usedCount: record.usedCount,
+    lastUsedAt: record.lastUsedAt ? record.lastUsedAt.toISOString() : undefined,
+    maxSessions: record.maxSessions,
+    plan: getLicensePlan(record.plan).id,
+    binding: record.boundAt ? {
+      appkey: !!record.appkeyHash,
+      device: !!record.deviceHash,
+      boundAt: record.boundAt.toISOString()
+    } : null
+  }
+}
+
+function toKeyEvent(record: LicenseKeyEventRecord): LicenseKeyEvent {
+  return {
+    id: record.id,
+    keyId: record.keyId,
+    keyPrefix: record.keyPrefix,
+    type: record.type as LicenseKeyEventType,
+    actor: record.actor,
+    detail: record.detail,
+    createdAt: record.createdAt.toISOString()
+  }
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10)
 }
 
 class KeyService {
   private static instance: KeyService
-  private keysFilePath: string
-  private keys: Map<string, LicenseKey> = new Map()
+  private legacyFilePath: string
+  private importPromise: Promise<void> | null = null
+  private sessions: Map<string, LicenseSession> = new Map() // 세션 ID -> 세션
+  private sessionCache: Map<string, CachedSession> = new Map() // 세션 토큰 -> 확인 결과
+  private revision = 0 // 키 변경/세션 종료 때마다 증가 (캐시 무효화)
 
   private constructor() {
-    // 키 저장 파일 경로 설정
-    const dataDir = path.join(process.cwd(), 'data')
-    if (!fs.existsSync(dataDir)) {
-      fs.mkdirSync(dataDir, { recursive: true })
-    }
-    this.keysFilePath = path.join(dataDir, 'license-keys.json')
-    this.loadKeys()
+    this.legacyFilePath = path.join(process.cwd(), 'data', 'license-keys.json')
   }
 
   public static getInstance(): KeyService {
@@ -45,194 +230,488 @@ class KeyService {
   }
 
   /**
-   * 키 저장소에서 키 목록 로드
+   * DB 조회 (첫 호출 때 예전 JSON 저장소 가져오기)
    */
-  private loadKeys(): void {
-    try {
-      if (fs.existsSync(this.keysFilePath)) {
-        const fileContent = fs.readFileSync(this.keysFilePath, 'utf-8')
-        const keyStore: KeyStore = JSON.parse(fileContent)
-        this.keys.clear()
-        keyStore.keys.forEach(key => {
-          this.keys.set(key.key, key)
-        })
-      } else {
-        // 파일이 없으면 빈 저장소 생성
-        this.saveKeys()
-      }
-    } catch (error) {
-      console.error('키 로드 오류:', error)
-      this.keys.clear()
+  private async getStore() {
+    if (!this.importPromise) {
+      this.importPromise = this.importLegacyKeys().catch((error) => {
+        this.importPromise = null
+        throw error
+      })
     }
+    await this.importPromise
+    return getDb()
   }
 
   /**
-   * 키 저장소에 키 목록 저장
+   * data/license-keys.json의 키를 해시로 바꿔 테이블에 저장하고 파일 이름을 바꿈 (.migrated)
+   * 테이블에 이미 키가 있으면 가져오지 않음 (배포 때 파일이 다시 생겨도 삭제한 키가 되살아나지 않도록)
    */
-  private saveKeys(): void {
-    try {
-      const keyStore: KeyStore = {
-        keys: Array.from(this.keys.values())
-      }
-      fs.writeFileSync(this.keysFilePath, JSON.stringify(keyStore, null, 2), 'utf-8')
-    } catch (error) {
-      console.error('키 저장 오류:', error)
+  private async importLegacyKeys(): Promise<void> {
+    if (!fs.existsSync(this.legacyFilePath)) {
+      return
+    }
+
+    const db = await getDb()
+    const [existing] = await db.select({ id: licenseKeys.id }).from(licenseKeys).limit(1)
+    if (existing) {
+      console.warn(`[라이선스] 키 테이블에 이미 키가 있어 ${this.legacyFilePath}를 가져오지 않습니다`)
+      return
     }
+
+    const keyStore: LegacyKeyStore = JSON.parse(fs.readFileSync(this.legacyFilePath, 'utf-8'))
+    const rows: InsertLicenseKey[] = (keyStore.keys || []).map(key => ({
+      keyHash: hashKey(key.key),
+      keyPrefix: getKeyPrefix(key.key),
+      issuedAt: new Date(key.issuedAt),
+      expiresAt: new Date(key.expiresAt),
+      validDays: key.validDays,
+      issuedBy: key.issuedBy || 'admin',
+      description: key.description || null,
+      isActive: key.isActive !== false,
+      usedCount: key.usedCount || 0,
+      lastUsedAt: key.lastUsedAt ? new Date(key.lastUsedAt) : null
+    }))
+
+    await db.transaction(async (tx) => {
+      if (rows.length === 0) {
+        return
+      }
+      const imported = await tx.insert(licenseKeys).values(rows).onConflictDoNothing().returning()
+      if (imported.length > 0) {
+        await tx.insert(licenseKeyEvents).values(imported.map(record => ({
+          keyId: record.id,
+          keyPrefix: record.keyPrefix,
+          type: 'imported',
+          actor: 'system',
+          detail: `${path.basename(this.legacyFilePath)}에서 가져옴 (만료 ${formatDate(record.expiresAt)})`
+        })))
+      }
+    })
+
+    fs.renameSync(this.legacyFilePath, `${this.legacyFilePath}.migrated`)
+    console.log(`[라이선스] ${this.legacyFilePath}에서 키 ${rows.length}개를 가져왔습니다 (원본은 .migrated로 이름 변경, 확인 후 삭제하세요)`)
   }
 
   /**
    * 새로운 키 발급 (관리자용)
+   * 키 원문은 이 응답에서만 확인할 수 있음
    */
-  public issueKey(
-    validDays: number,
-    issuedBy: string = 'admin',
-    description?: string
-  ): LicenseKey {
-    // 고유한 키 생성 (32자리 랜덤 문자열)
-    const key = this.generateKey()
-    
-    const now = new Date()
-    const expiresAt = new Date(now.getTime() + validDays * 24 * 60 * 60 * 1000)
+  public async issueKey(options: IssueKeyOptions): Promise<IssuedLicenseKey> {
+    const [issued] = await this.issueKeys(1, options)
+    return issued
+  }
+
+  /**
+   * 같은 설정으로 키 여러 개 발급 (한 트랜잭션, 하나라도 실패하면 모두 취소)
+   */
+  public async issueKeys(count: number, options: IssueKeyOptions): Promise<IssuedLicenseKey[]> {
+    const db = await this.getStore()
+    const issued = await db.transaction(async (tx) => {
+      const keys: IssuedLicenseKey[] = []
+      for (let i = 0; i < count; i++) {
+        keys.push(await this.insertKey(tx, options))
+      }
+      return keys
+    })
+    this.revision++
+    return issued
+  }
 
-    const licenseKey: LicenseKey = {
-      key,
-      issuedAt: now.toISOString(),
-      expiresAt: expiresAt.toISOString(),
-      validDays,
-      issuedBy,
-      description,
-      isActive: true,
-      usedCount: 0
+  private async insertKey(tx: Transaction, options: IssueKeyOptions): Promise<IssuedLicenseKey> {
+    const issuedBy = options.issuedBy || 'admin'
+    const plan = options.plan || DEFAULT_LICENSE_PLAN
+
+    // 고유한 키 생성 (32자리 랜덤 문자열, 해시 중복 시 다시 생성)
+    for (;;) {
+      const key = crypto.randomBytes(16).toString('hex').toUpperCase()
+      const now = new Date()
+      const [record] = await tx.insert(licenseKeys).values({
+        keyHash: hashKey(key),
+        keyPrefix: getKeyPrefix(key),
+        issuedAt: now,
+        expiresAt: new Date(now.getTime() + options.validDays * DAY_MS),
+        validDays: options.validDays,
+        issuedBy,
+        description: options.description || null,
+        maxSessions: options.maxSessions || DEFAULT_MAX_SESSIONS,
+        plan
+      }).onConflictDoNothing().returning()
+
+      if (record) {
+        await tx.insert(licenseKeyEvents).values({
+          keyId: record.id,
+          keyPrefix: record.keyPrefix,
+          type: 'issued',
+          actor: issuedBy,
+          detail: `${getLicensePlan(plan).name} 플랜, ${options.validDays}일 (만료 ${formatDate(record.expiresAt)})`
+        })
+        return { ...toKeyInfo(record), key }
+      }
     }
+  }
 
-    this.keys.set(key, licenseKey)
-    this.saveKeys()
+  /**
+   * 키 상태 확인 (존재, 활성화, 만료). 실패해도 키가 있으면 licenseKey를 함께 반환
+   */
+  private checkKey(record: LicenseKeyRecord | undefined): { licenseKey?: LicenseKeyInfo; message?: string; code?: LicenseErrorCode } {
+    if (!record) {
+      return { message: '유효하지 않은 키입니다', code: 'invalid_key' }
+    }
 
-    return licenseKey
+    const licenseKey = toKeyInfo(record)
+
+    if (!record.isActive) {
+      return { licenseKey, message: '비활성화된 키입니다', code: 'inactive' }
+    }
+
+    if (new Date() > record.expiresAt) {
+      return { licenseKey, message: '만료된 키입니다', code: 'expired' }
+    }
+
+    return { licenseKey }
   }
 
   /**
-   * 고유한 키 생성
+   * 키 검증 및 세션 토큰 발급
+   * 처음 검증하면 App Key/기기 ID에 바인딩하고, 이후에는 바인딩된 값과 같아야 함
+   * 같은 기기에서 다시 검증하면 기존 세션을 새 세션으로 교체
    */
-  private generateKey(): string {
-    let key: string
-    do {
-      // 32자리 랜덤 문자열 생성 (대문자, 숫자)
-      key = crypto.randomBytes(16).toString('hex').toUpperCase()
-    } while (this.keys.has(key)) // 중복 체크
+  public async validateKey(key: string, client: LicenseClient = {}): Promise<ValidationResult> {
+    const appkeyHash = client.appkey ? hashIdentifier(client.appkey) : undefined
+    const deviceHash = client.deviceId ? hashIdentifier(client.deviceId) : undefined
+
+    const db = await this.getStore()
+    // 바인딩과 사용 횟수를 한 트랜잭션에서 확인/갱신 (동시에 처음 검증해도 바인딩은 하나만)
+    const result = await db.transaction(async (tx): Promise<ValidationResult & { record?: LicenseKeyRecord }> => {
+      const [record] = await tx.select().from(licenseKeys).where(eq(licenseKeys.keyHash, hashKey(key))).for('update')
+      const { licenseKey, message, code } = this.checkKey(record)
+      if (!licenseKey || code) {
+        return { valid: false, message, code }
+      }
+
+      if (!appkeyHash && !deviceHash) {
+        return { valid: false, message: 'App Key 또는 기기 ID가 필요합니다', code: 'binding_required' }
+      }
+
+      if (record.boundAt) {
+        if (record.appkeyHash && record.appkeyHash !== appkeyHash) {
+          return { valid: false, message: '다른 App Key에 등록된 키입니다', code: 'binding_mismatch' }
+        }
+        if (record.deviceHash && record.deviceHash !== deviceHash) {
+          return { valid: false, message: '다른 기기에 등록된 키입니다', code: 'binding_mismatch' }
+        }
+      }
+
+      // 동시 세션 수 확인 (같은 기기의 기존 세션은 교체)
+      const sessions = this.getKeySessions(record.id)
+      const replaced = deviceHash ? sessions.find(session => session.deviceHash === deviceHash) : undefined
+      if (!replaced && sessions.length >= record.maxSessions) {
+        return {
+          valid: false,
+          message: `동시 사용 가능한 세션 수(${record.maxSessions}개)를 초과했습니다`,
+          code: 'session_limit'
+        }
+      }
+      if (replaced) {
+        this.deleteSession(replaced.id)
+      }
+
+      // 사용 횟수 증가 및 마지막 사용일시 업데이트 (처음 사용하면 바인딩)
+      const now = new Date()
+      const [updated] = await tx.update(licenseKeys).set({
+        usedCount: sql`${licenseKeys.usedCount} + 1`,
+        lastUsedAt: now,
+        ...(record.boundAt ? {} : { appkeyHash: appkeyHash || null, deviceHash: deviceHash || null, boundAt: now })
+      }).where(eq(licenseKeys.id, record.id)).returning()
+
+      return { valid: true, record: updated }
+    })
+
+    if (!result.valid || !result.record) {
+      return { valid: false, message: result.message, code: result.code }
+    }
+
+    this.revision++
+    const session: LicenseSession = {
+      id: crypto.randomUUID(),
+      keyId: result.record.id,
+      appkeyHash,
+      deviceHash,
+      createdAt: new Date().toISOString(),
+      expiresAt: 0
+    }
+    this.sessions.set(session.id, session)
 
-    return key
+    return { valid: true, licenseKey: toKeyInfo(result.record), session: this.issueSessionToken(session) }
   }
 
   /**
-   * 키 검증 및 정보 반환
+   * 세션 토큰 확인 (키가 비활성화/만료/삭제되었거나 바인딩이 해제되면 거부)
+   * 요청마다 호출되므로 결과를 잠시 캐시하고, 키 변경이나 세션 종료가 있으면 다시 확인
+   * 사용 횟수는 키 검증 때만 증가 (여기서는 DB를 쓰지 않음)
    */
-  public validateKey(key: string): { valid: boolean; licenseKey?: LicenseKey; message?: string } {
-    const licenseKey = this.keys.get(key)
+  public async verifySession(token: string | undefined): Promise<SessionResult> {
+    if (!token) {
+      return { valid: false, message: '라이선스 키 인증이 필요합니다', code: 'session_required' }
+    }
 
-    if (!licenseKey) {
-      return { valid: false, message: '유효하지 않은 키입니다' }
+    const now = Date.now()
+    const cached = this.sessionCache.get(token)
+    if (cached && cached.revision === this.revision && now - cached.checkedAt < SESSION_CACHE_MS && now < cached.tokenExpiresAt) {
+      return cached.result
     }
 
-    if (!licenseKey.isActive) {
-      return { valid: false, message: '비활성화된 키입니다' }
+    const payload = verifyToken(token)
+    const session = payload && payload.typ === 'license' ? this.sessions.get(payload.sub) : undefined
+    if (!payload || !session || session.expiresAt <= now) {
+      this.sessionCache.delete(token)
+      return { valid: false, message: '라이선스 키 인증이 필요합니다', code: 'session_required' }
     }
 
-    const now = new Date()
-    const expiresAt = new Date(licenseKey.expiresAt)
+    const revision = this.revision
+    const db = await this.getStore()
+    const [record] = await db.select().from(licenseKeys).where(eq(licenseKeys.id, session.keyId))
+    const { licenseKey, message, code } = this.checkKey(record)
+    const remainingDays = licenseKey ? getRemainingDays(licenseKey.expiresAt) : undefined
+    const result: SessionResult = code
+      ? { valid: false, licenseKey, remainingDays, message, code }
+      : { valid: true, session, licenseKey, remainingDays }
+
+    if (this.sessionCache.size >= MAX_CACHED_SESSIONS) {
+      this.sessionCache.clear()
+    }
+    this.sessionCache.set(token, { result, revision, checkedAt: now, tokenExpiresAt: payload.exp * 1000 })
+    return result
+  }
 
-    if (now > expiresAt) {
-      return { valid: false, message: '만료된 키입니다' }
+  /**
+   * 세션 토큰 갱신 (같은 세션의 만료 시각 연장)
+   */
+  public async refreshSession(token: string | undefined): Promise<{ valid: boolean; session?: LicenseSessionToken; message?: string; code?: LicenseErrorCode }> {
+    const result = await this.verifySession(token)
+    if (!result.valid || !result.session) {
+      return { valid: false, message: result.message, code: result.code }
     }
+    return { valid: true, session: this.issueSessionToken(result.session) }
+  }
 
-    // 사용 횟수 증가 및 마지막 사용일시 업데이트
-    licenseKey.usedCount++
-    licenseKey.lastUsedAt = now.toISOString()
-    this.saveKeys()
+  /**
+   * 세션 종료 (연결 해제 시)
+   */
+  public endSession(token: string | undefined): boolean {
+    const payload = token ? verifyToken(token) : null
+    return !!payload && payload.typ === 'license' && this.deleteSession(payload.sub)
+  }
 
-    return { valid: true, licenseKey }
+  private deleteSession(id: string): boolean {
+    if (!this.sessions.delete(id)) {
+      return false
+    }
+    this.revision++
+    return true
+  }
+
+  private issueSessionToken(session: LicenseSession): LicenseSessionToken {
+    const { token, expiresAt } = signToken(session.id, { typ: 'license' }, SESSION_TTL_SECONDS)
+    session.expiresAt = new Date(expiresAt).getTime()
+    return { token, expiresAt }
   }
 
   /**
-   * 키 정보 조회 (키 값 없이)
+   * 키의 현재 세션 (만료된 세션은 정리)
    */
-  public getKeyInfo(key: string): { success: boolean; info?: Partial<LicenseKey>; message?: string } {
-    const licenseKey = this.keys.get(key)
+  private getKeySessions(keyId: string): LicenseSession[] {
+    const now = Date.now()
+    this.sessions.forEach((session, id) => {
+      if (session.expiresAt <= now) {
+        this.sessions.delete(id)
+      }
+    })
+    return Array.from(this.sessions.values()).filter(session => session.keyId === keyId)
+  }
+
+  private endKeySessions(keyId: string): void {
+    this.getKeySessions(keyId).forEach(session => this.deleteSession(session.id))
+  }
 
-    if (!licenseKey) {
+  /**
+   * 키의 현재 세션 수
+   */
+  public getActiveSessionCount(keyId: string): number {
+    return this.getKeySessions(keyId).length
+  }
+
+  /**
+   * 키 정보 조회 (키 원문으로 조회, 응답에는 앞자리만)
+   */
+  public async getKeyInfo(key: string): Promise<{ success: boolean; info?: LicenseKeyInfo; message?: string }> {
+    const db = await this.getStore()
+    const [record] = await db.select().from(licenseKeys).where(eq(licenseKeys.keyHash, hashKey(key)))
+
+    if (!record) {
       return { success: false, message: '키를 찾을 수 없습니다' }
     }
 
-    // 민감한 정보 제외하고 반환
-    const info: Partial<LicenseKey> = {
-      key: licenseKey.key,
-      issuedAt: licenseKey.issuedAt,
-      expiresAt: licenseKey.expiresAt,
-      validDays: licenseKey.validDays,
-      issuedBy: licenseKey.issuedBy,
-      description: licenseKey.description,
-      isActive: licenseKey.isActive,
-      usedCount: licenseKey.usedCount,
-      lastUsedAt: licenseKey.lastUsedAt
-    }
+    return { success: true, info: toKeyInfo(record) }
+  }
 
-    return { success: true, info }
+  /**
+   * 모든 키 목록 조회 (관리자용, 최근 발급 순)
+   */
+  public async getAllKeys(): Promise<LicenseKeyInfo[]> {
+    const db = await this.getStore()
+    const records = await db.select().from(licenseKeys).orderBy(desc(licenseKeys.issuedAt))
+    return records.map(toKeyInfo)
   }
 
   /**
-   * 모든 키 목록 조회 (관리자용)
+   * 키 이력 조회 (최근 순, 삭제된 키도 조회 가능)
    */
-  public getAllKeys(): LicenseKey[] {
-    return Array.from(this.keys.values())
+  public async getKeyEvents(keyId: string): Promise<LicenseKeyEvent[]> {
+    const db = await this.getStore()
+    const records = await db.select().from(licenseKeyEvents)
+      .where(eq(licenseKeyEvents.keyId, keyId))
+      .orderBy(desc(licenseKeyEvents.createdAt), desc(licenseKeyEvents.id))
+    return records.map(toKeyEvent)
   }
 
   /**
-   * 키 활성화/비활성화
+   * 키 변경 및 이력 기록 (한 트랜잭션, 없는 키면 null)
+   * change는 현재 키를 받아 바꿀 값과 이력 내용을 반환
    */
-  public toggleKey(key: string, isActive: boolean): boolean {
-    const licenseKey = this.keys.get(key)
-    if (!licenseKey) {
-      return false
-    }
+  private async changeKey(
+    keyId: string,
+    actor: string,
+    change: (record: LicenseKeyRecord) => { values: Partial<InsertLicenseKey>; type: LicenseKeyEventType; detail?: string }
+  ): Promise<LicenseKeyInfo | null> {
+    const db = await this.getStore()
+    const updated = await db.transaction(async (tx) => {
+      const [record] = await tx.select().from(licenseKeys).where(eq(licenseKeys.id, keyId)).for('update')
+      if (!record) {
+        return null
+      }
 
-    licenseKey.isActive = isActive
-    this.saveKeys()
-    return true
+      const { values, type, detail } = change(record)
+      const [result] = await tx.update(licenseKeys).set(values).where(eq(licenseKeys.id, keyId)).returning()
+      await tx.insert(licenseKeyEvents).values({ keyId, keyPrefix: record.keyPrefix, type, actor, detail: detail || '' })
+      return result
+    })
+
+    if (!updated) {
+      return null
+    }
+    this.revision++
+    return toKeyInfo(updated)
   }
 
   /**
-   * 키 삭제
+   * 키 활성화/비활성화 (비활성화된 키의 세션은 403 inactive로 거부)
    */
-  public deleteKey(key: string): boolean {
-    if (this.keys.delete(key)) {
-      this.saveKeys()
-      return true
-    }
-    return false
+  public async toggleKey(keyId: string, isActive: boolean, actor: string): Promise<boolean> {
+    const updated = await this.changeKey(keyId, actor, () => ({
+      values: { isActive },
+      type: isActive ? 'activated' : 'deactivated'
+    }))
+    return !!updated
   }
 
   /**
-   * 만료된 키 정리
+   * 동시 세션 수 제한 변경 (기존 세션은 만료될 때까지 유지)
    */
-  public cleanupExpiredKeys(): number {
-    const now = new Date()
-    let cleanedCount = 0
+  public async setMaxSessions(keyId: string, maxSessions: number, actor: string): Promise<boolean> {
+    const updated = await this.changeKey(keyId, actor, (record) => ({
+      values: { maxSessions },
+      type: 'max_sessions_changed',
+      detail: `${record.maxSessions}개 → ${maxSessions}개`
+    }))
+    return !!updated
+  }
 
-    this.keys.forEach((licenseKey, key) => {
-      const expiresAt = new Date(licenseKey.expiresAt)
-      if (now > expiresAt) {
-        this.keys.delete(key)
-        cleanedCount++
+  /**
+   * 유효기간 연장 (이미 만료된 키는 지금부터 연장)
+   */
+  public async extendKey(keyId: string, days: number, actor: string): Promise<LicenseKeyInfo | null> {
+    return this.changeKey(keyId, actor, (record) => {
+      const base = Math.max(record.expiresAt.getTime(), Date.now())
+      const expiresAt = new Date(base + days * DAY_MS)
+      return {
+        values: { expiresAt, validDays: record.validDays + days },
+        type: 'extended',
+        detail: `${days}일 연장 (만료 ${formatDate(record.expiresAt)} → ${formatDate(expiresAt)})`
       }
     })
+  }
+
+  /**
+   * 플랜 변경 (사용 중인 세션에도 바로 적용)
+   */
+  public async setPlan(keyId: string, plan: LicensePlanId, actor: string): Promise<LicenseKeyInfo | null> {
+    return this.changeKey(keyId, actor, (record) => ({
+      values: { plan },
+      type: 'plan_changed',
+      detail: `${getLicensePlan(record.plan).name} → ${getLicensePlan(plan).name}`
+    }))
+  }
 
-    if (cleanedCount > 0) {
-      this.saveKeys()
+  /**
+   * 바인딩 해제 (세션도 종료, 다음 검증 때 새 App Key/기기에 바인딩)
+   */
+  public async revokeBinding(keyId: string, actor: string): Promise<boolean> {
+    const updated = await this.changeKey(keyId, actor, () => ({
+      values: { appkeyHash: null, deviceHash: null, boundAt: null },
+      type: 'binding_revoked'
+    }))
+    if (updated) {
+      this.endKeySessions(keyId)
     }
+    return !!updated
+  }
 
-    return cleanedCount
+  /**
+   * 키 삭제 (이력은 남김)
+   */
+  public async deleteKey(keyId: string, actor: string): Promise<boolean> {
+    const db = await this.getStore()
+    const deleted = await db.transaction(async (tx) => {
+      const [record] = await tx.delete(licenseKeys).where(eq(licenseKeys.id, keyId)).returning()
+      if (record) {
+        await tx.insert(licenseKeyEvents).values({ keyId, keyPrefix: record.keyPrefix, type: 'deleted', actor })
+      }
+      return record
+    })
+    if (!deleted) {
+      return false
+    }
+    this.revision++
+    this.endKeySessions(keyId)
+    return true
+  }
+
+  /**
+   * 만료된 키 정리
+   */
+  public async cleanupExpiredKeys(): Promise<number> {
+    const db = await this.getStore()
+    const deleted = await db.transaction(async (tx) => {
+      const records = await tx.delete(licenseKeys).where(lt(licenseKeys.expiresAt, new Date())).returning()
+      if (records.length > 0) {
+        await tx.insert(licenseKeyEvents).values(records.map(record => ({
+          keyId: record.id,
+          keyPrefix: record.keyPrefix,
+          type: 'deleted',
+          actor: 'system',
+          detail: `만료된 키 정리 (만료 ${formatDate(record.expiresAt)})`
+        })))
+      }
+      return records
+    })
+    if (deleted.length > 0) {
+      this.revision++
+      deleted.forEach(({ id }) => this.endKeySessions(id))
+    }
+    return deleted.length
   }
 }
 
 export default KeyService.getInstance()
-
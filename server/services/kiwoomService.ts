@@ -4,10 +4,21 @@
  * 참고: https://openapi.kiwoom.com/guide/apiguide
  */
 import axios, { AxiosInstance, AxiosRequestConfig } from 'axios'
-import { KiwoomWebSocketService } from './kiwoomWebSocketService'
+import { KiwoomWebSocketService, WebSocketConnectionState } from './kiwoomWebSocketService'
+import { RequestScheduler, SchedulerMetrics, getRequestLane } from './requestScheduler'
+import {
+  ACCOUNT_REALTIME_TYPES,
+  BALANCE_TYPE,
+  BalanceEvent,
+  ORDER_EXECUTION_TYPE,
+  OrderExecutionEvent,
+  parseBalance,
+  parseOrderExecution,
+} from './accountRealtime'
+import type { OrderBookLevel } from './orderBookService'
 
 interface KiwoomConfig {
-  host: string // 실전투자: https://api.kiwoom.com, 모의투자: https://mockapi.kiwoom.com (KRX만 지원)
+  host: string // 실전투자: https://api.kiwoom.com, 모의투자: https://mockapi.kiwoom.com (KRX만 지원), 로컬 모의 브로커: http://127.0.0.1:10000
   appkey: string
   secretkey: string
 }
@@ -27,6 +38,77 @@ interface OrderRequest {
   order_option: string
 }
 
+interface CancelOrderRequest {
+  orderNumber: string // 원주문번호
+  code: string
+  quantity?: number // 생략 또는 0이면 잔량 전부
+}
+
+interface ModifyOrderRequest extends CancelOrderRequest {
+  price: number
+}
+
+// 연속조회 한 페이지 응답
+interface PageResponse {
+  data: any
+  contYn: boolean // 다음 페이지 존재 여부 (응답 헤더 cont-yn: Y)
+  nextKey: string // 다음 페이지 요청에 보낼 연속조회키 (응답 헤더 next-key)
+}
+
+interface ChartRequest {
+  isMock: boolean
+  endpoint: string
+  trId: string
+  params: any
+  requestMethod: 'GET' | 'POST'
+}
+
+// 연속조회 옵션 (생략 시 한 페이지만 조회)
+export interface PaginationOptions {
+  maxPages?: number // 최대 페이지 수 (기본 1)
+  maxRows?: number // 합친 행 수 상한 (넘으면 잘라내고 중단)
+  onPage?: (page: any) => boolean | void // 페이지마다 호출, false를 반환하면 다음 페이지를 요청하지 않음
+}
+
+// 연속조회 결과
+interface PaginatedResponse {
+  data: any // 첫 페이지 응답에 이후 페이지의 배열 필드(output, output1 등)를 이어 붙인 응답
+  pages: number
+  hasMore: boolean // 한도(maxPages/maxRows/onPage)로 중단하여 다음 페이지가 남아 있는지 여부
+}
+
+const MAX_RATE_LIMIT_RETRIES = 2 // 요청 제한(return_code 5) 응답 시 스케줄러 대기 후 다시 보내는 횟수
+const ACCOUNT_REALTIME_GROUP = '0' // 계좌 실시간(주문체결/잔고) 등록 그룹번호
+
+// 전체 결과가 필요한 조회(주문 내역 등)에 쓰는 연속조회 한도
+export const FULL_PAGINATION: PaginationOptions = { maxPages: 20, maxRows: 5000 }
+
+/**
+ * 모의투자 서버 여부 (키움 모의투자 API 또는 로컬 모의 브로커)
+ */
+export function isMockHost(host: string): boolean {
+  return host.includes('mockapi.kiwoom.com') || isLocalMockHost(host)
+}
+
+function isLocalMockHost(host: string): boolean {
+  return /^https?:\/\/(localhost|127\.0\.0\.1)(:\d+)?\/?$/.test(host)
+}
+
+// REST 주식호가 조회 결과
+export interface OrderBookResponse {
+  asks: OrderBookLevel[] // 매도호가 (최우선호가부터)
+  bids: OrderBookLevel[] // 매수호가 (최우선호가부터)
+  totalAskQuantity: number
+  totalBidQuantity: number
+  time: string // 호가시간 (HHmmss)
+}
+
+// 과거 차트 연속조회 결과
+export interface CandleHistory {
+  candles: any[] // 일자/시가/고가/저가/종가/거래량 (최신 봉이 앞)
+  hasMore: boolean // 더 과거 봉이 남아 있는지 여부 (false면 조회 가능한 가장 오래된 봉까지 받음)
+}
+
 export class KiwoomService {
   private static instance: KiwoomService
   private config: KiwoomConfig | null = null
@@ -38,8 +120,9 @@ export class KiwoomService {
   private cachedDeposit: number | null = null // 예수금 캐시 (API 제한 에러 발생 시 사용)
   private cachedDepositTime: number = 0 // 예수금 캐시 시간
   private webSocketService: KiwoomWebSocketService | null = null
-  private lastChartRequestTime: number = 0 // 마지막 차트 API 요청 시간 (요청 제한 방지용)
-  private chartRequestDelay: number = 1000 // 차트 API 요청 간 최소 지연 시간 (ms) - 200ms에서 1000ms로 증가 (API 제한 방지)
+  private unsubscribeLogin: (() => void) | null = null
+  private accountRealTimeRegistered: boolean = false // 계좌 실시간(주문체결/잔고) 등록 여부
+  private scheduler = new RequestScheduler() // 모든 TR 요청의 속도 제한과 우선순위 (주문 > 계좌 > 시세 > 차트 > 순위)
 
   private constructor() {}
 
@@ -182,6 +265,13 @@ export class KiwoomService {
     }
   }
 
+  /**
+   * 요청 스케줄러 레인별 대기열 상태
+   */
+  getSchedulerMetrics(): SchedulerMetrics {
+    return this.scheduler.getMetrics()
+  }
+
   /**
    * 연결 상태 확인
    */
@@ -193,13 +283,22 @@ export class KiwoomService {
    * 모의투자 환경 확인
    */
   isMockApi(): boolean {
-    return this.config?.host?.includes('mockapi.kiwoom.com') || false
+    return isMockHost(this.config?.host || '')
+  }
+
+  /**
+   * 로컬 모의 브로커(server/mock) 연결 여부 확인
+   * 로컬 모의 브로커는 모의투자 API와 같은 엔드포인트/TR을 사용함
+   */
+  isLocalMockBroker(): boolean {
+    return isLocalMockHost(this.config?.host || '')
   }
 
   /**
    * 키움증권 API 연결 해제
    */
   async disconnect(): Promise<void> {
+    this.disconnectWebSocket() // 토큰이 없어지므로 실시간 재연결도 중단
     this.config = null
     this.axiosInstance = null
     this.accessToken = null
@@ -207,10 +306,6 @@ export class KiwoomService {
     console.log('키움증권 API 연결 해제 완료')
   }
 
-  /**
-   * 키움증권 API 요청
-   * 키움 REST API는 TR_ID를 헤더에 포함
-   */
   /**
    * 지연 함수 (재시도 대기용)
    */
@@ -238,6 +333,10 @@ export class KiwoomService {
     return false
   }
 
+  /**
+   * 키움증권 API 요청 (연속조회 없이 첫 페이지만)
+   * 키움 REST API는 TR_ID를 api-id 헤더에 포함
+   */
   private async request(
     endpoint: string,
     trId: string,
@@ -245,6 +344,22 @@ export class KiwoomService {
     method: 'GET' | 'POST' = 'GET',
     maxRetries: number = 3
   ): Promise<any> {
+    const page = await this.requestPage(endpoint, trId, data, method, '', maxRetries)
+    return page.data
+  }
+
+  /**
+   * 연속조회 한 페이지 요청
+   * nextKey가 있으면 cont-yn: Y와 함께 보내 이전 응답의 다음 페이지를 조회
+   */
+  private async requestPage(
+    endpoint: string,
+    trId: string,
+    data?: any,
+    method: 'GET' | 'POST' = 'GET',
+    nextKey: string = '',
+    maxRetries: number = 3
+  ): Promise<PageResponse> {
     if (!this.axiosInstance) {
       throw new Error('키움증권 API에 연결되지 않았습니다')
     }
@@ -260,8 +375,8 @@ export class KiwoomService {
         'api-id': trId, // 키움증권 API는 api-id 헤더 사용
         'Authorization': `Bearer ${this.accessToken.token}`,
         'Content-Type': 'application/json;charset=UTF-8',
-        'cont-yn': 'N', // 연속조회여부
-        'next-key': '', // 연속조회키
+        'cont-yn': nextKey ? 'Y' : 'N', // 연속조회여부
+        'next-key': nextKey, // 연속조회키
       }
     }
 
@@ -272,17 +387,26 @@ export class KiwoomService {
     }
 
     let lastError: any = null
+    const lane = getRequestLane(endpoint)
+    let rateLimitRetries = 0
     
     // 재시도 로직
     for (let attempt = 0; attempt <= maxRetries; attempt++) {
       try {
+        await this.scheduler.acquire(lane, trId)
         const response = await this.axiosInstance.request(config)
         
         // 키움 API 응답 구조 확인
         if (response.data.return_code !== undefined) {
           if (response.data.return_code !== 0) {
-            // 요청 제한 에러(5)는 특별 처리 (재시도 불가)
+            // 요청 제한 에러(5)는 스케줄러가 해당 레인을 쉬게 한 뒤 다시 보냄 (재시도 횟수와 별도)
             if (response.data.return_code === 5) {
+              this.scheduler.reportRateLimit(lane)
+              if (rateLimitRetries < MAX_RATE_LIMIT_RETRIES) {
+                rateLimitRetries++
+                attempt--
+                continue
+              }
               const errorMsg = response.data.return_msg || 'API 요청 제한 초과'
               const error = new Error(errorMsg)
               ;(error as any).response = { data: response.data, status: 429 }
@@ -316,7 +440,12 @@ export class KiwoomService {
           }
         }
         
-        return response.data
+        this.scheduler.reportSuccess(lane)
+        return {
+          data: response.data,
+          contYn: response.headers?.['cont-yn'] === 'Y',
+          nextKey: String(response.headers?.['next-key'] || ''),
+        }
       } catch (error: any) {
         lastError = error
         
@@ -352,6 +481,77 @@ export class KiwoomService {
     throw lastError || new Error('알 수 없는 오류가 발생했습니다')
   }
 
+  /**
+   * 연속조회 요청
+   * 응답 헤더 cont-yn이 Y이면 next-key로 다음 페이지를 이어서 요청하고, 배열 필드는 페이지 순서대로 합침
+   * 배열이 아닌 필드(합계 등)는 첫 페이지 값을 사용
+   */
+  private async requestPaginated(
+    endpoint: string,
+    trId: string,
+    data?: any,
+    method: 'GET' | 'POST' = 'GET',
+    options: PaginationOptions = {}
+  ): Promise<PaginatedResponse> {
+    const maxPages = Math.max(1, options.maxPages || 1)
+    const maxRows = options.maxRows && options.maxRows > 0 ? options.maxRows : Infinity
+    let merged: any = null
+    let nextKey = ''
+
+    for (let pages = 1; ; pages++) {
+      const page = await this.requestPage(endpoint, trId, data, method, nextKey)
+
+      if (merged === null) {
+        merged = Array.isArray(page.data) ? [...page.data] : { ...page.data }
+      } else if (Array.isArray(merged)) {
+        merged.push(...(Array.isArray(page.data) ? page.data : []))
+      } else {
+        for (const key of Object.keys(page.data || {})) {
+          if (Array.isArray(page.data[key])) {
+            merged[key] = Array.isArray(merged[key]) ? [...merged[key], ...page.data[key]] : page.data[key]
+          }
+        }
+      }
+
+      const hasMore = page.contYn && !!page.nextKey
+      const rows = this.countRows(merged)
+      const stopped = options.onPage?.(page.data) === false
+      if (!hasMore || stopped || pages >= maxPages || rows >= maxRows) {
+        if (rows > maxRows) {
+          merged = this.truncateRows(merged, maxRows)
+        }
+        if (hasMore && !stopped && maxPages > 1) {
+          console.log(`[연속조회] ${trId}: ${pages}페이지 ${Math.min(rows, maxRows)}건에서 중단 (한도 도달)`)
+        }
+        return { data: merged, pages, hasMore }
+      }
+      nextKey = page.nextKey
+    }
+  }
+
+  /**
+   * 연속조회 응답의 행 수 (가장 긴 배열 필드 기준)
+   */
+  private countRows(data: any): number {
+    if (Array.isArray(data)) {
+      return data.length
+    }
+    return Object.values(data || {}).reduce<number>((max, value) => (Array.isArray(value) ? Math.max(max, value.length) : max), 0)
+  }
+
+  private truncateRows(data: any, maxRows: number): any {
+    if (Array.isArray(data)) {
+      return data.slice(0, maxRows)
+    }
+    const truncated = { ...data }
+    for (const key of Object.keys(truncated)) {
+      if (Array.isArray(truncated[key])) {
+        truncated[key] = truncated[key].slice(0, maxRows)
+      }
+    }
+    return truncated
+  }
+
   /**
    * 종목 리스트 조회
    * 키움 REST API: 국내주식 > 순위정보 > 등락률순위
@@ -479,398 +679,126 @@ export class KiwoomService {
       return []
     }
 
-    const results: any[] = []
-    
-    // API 요청 제한을 고려하여 배치로 처리 (한번에 10개씩)
-    const batchSize = 10
-    for (let i = 0; i < codes.length; i += batchSize) {
-      const batch = codes.slice(i, i + batchSize)
-      
-      // 병렬로 처리하되, 요청 간 약간의 지연을 둠
-      const batchPromises = batch.map(async (code, index) => {
-        // 요청 간 지연 (API 제한 방지)
-        if (index > 0) {
-          await new Promise(resolve => setTimeout(resolve, 150))
-        }
+    // 요청 속도는 요청 스케줄러(시세 레인)가 제한하므로 한번에 요청
+    const pricePromises = codes.map(async (code) => {
+      try {
+        const priceData = await this.getCurrentPrice(code)
+        return priceData
+      } catch (error: any) {
+        // 500 에러나 서버 에러는 조용히 처리 (너무 많은 로그 방지)
+        const status = error.response?.status || error.status
+        const errorMessage = error.response?.data?.message || error.message || ''
         
-        try {
-          const priceData = await this.getCurrentPrice(code)
-          return priceData
-        } catch (error: any) {
-          // 500 에러나 서버 에러는 조용히 처리 (너무 많은 로그 방지)
-          const status = error.response?.status || error.status
-          const errorMessage = error.response?.data?.message || error.message || ''
-          
-          // 500 에러는 서버 측 문제이므로 로그를 출력하지 않음
-          if (status === 500) {
-            // 조용히 실패 처리
-            return null
-          }
-          
-          // 다른 에러는 첫 번째 발생 시에만 로그 출력
-          if (!errorMessage.includes('허용된 요청 개수를 초과') && 
-              !errorMessage.includes('INTERNAL_SERVER_ERROR')) {
-            // 에러 로그를 최소화 (디버깅 시에만 활성화)
-            // console.error(`종목 ${code} 현재가 조회 오류:`, errorMessage)
-          }
-          
+        // 500 에러는 서버 측 문제이므로 로그를 출력하지 않음
+        if (status === 500) {
+          // 조용히 실패 처리
           return null
         }
-      })
-      
-      const batchResults = await Promise.all(batchPromises)
-      const validResults = batchResults.filter(r => r !== null && r.code)
-      results.push(...validResults)
-      
-      // 배치 간 지연 (API 제한 방지)
-      if (i + batchSize < codes.length) {
-        await new Promise(resolve => setTimeout(resolve, 300))
+        
+        // 다른 에러는 첫 번째 발생 시에만 로그 출력
+        if (!errorMessage.includes('허용된 요청 개수를 초과') && 
+            !errorMessage.includes('INTERNAL_SERVER_ERROR')) {
+          // 에러 로그를 최소화 (디버깅 시에만 활성화)
+          // console.error(`종목 ${code} 현재가 조회 오류:`, errorMessage)
+        }
+        
+        return null
       }
-    }
-    
-    return results
+    })
+
+    const priceResults = await Promise.all(pricePromises)
+    return priceResults.filter(r => r !== null && r.code)
   }
 
   /**
-   * 차트 데이터 조회
-   * 키움 REST API: 국내주식 > 차트 > 일봉/분봉 차트
+   * 주식호가 조회 (매도/매수 10단계)
+   * 키움 REST API: 국내주식 > 시세 > 주식호가요청 (ka10004)
+   * 실시간 호가(OrderBookService)가 없을 때 사용
    */
-  async getCandleData(
-    code: string,
-    period: string = 'min',
-    start: string = '',
-    end: string = ''
-  ): Promise<any[]> {
-    // 모의투자 환경 확인
-    const isMock = this.config?.host?.includes('mockapi') || false
-    
-    let endpoint = ''
-    let trId = ''
+  async getOrderBook(code: string): Promise<OrderBookResponse> {
+    const isMock = this.isMockApi()
+    const parseNumber = (value: any) => Math.abs(parseFloat(String(value ?? '0').replace(/[,+\-\s]/g, ''))) || 0
+    const asks: OrderBookLevel[] = []
+    const bids: OrderBookLevel[] = []
 
     if (isMock) {
-      // 모의투자 환경: /api/dostk/chart 엔드포인트 사용
-      endpoint = '/api/dostk/chart'
-      
-      // TR_ID 매핑 (모의투자용)
-      if (period === 'day') {
-        trId = 'ka10081' // 주식일봉차트조회요청
-      } else if (period === 'tick') {
-        trId = 'ka10079' // 주식틱차트조회요청
-      } else {
-        trId = 'ka10080' // 주식분봉차트조회요청
+      const response = await this.request('/api/dostk/mrkcond', 'ka10004', { stk_cd: code }, 'POST')
+      // 1단계: sel_fpr_bid/sel_fpr_req, 2단계 이후: sel_2th_pre_bid/sel_2th_pre_req ...
+      const field = (side: 'sel' | 'buy', level: number, name: 'bid' | 'req') =>
+        response[level === 1 ? `${side}_fpr_${name}` : `${side}_${level}th_pre_${name}`]
+      for (let level = 1; level <= 10; level++) {
+        const askPrice = parseNumber(field('sel', level, 'bid'))
+        const bidPrice = parseNumber(field('buy', level, 'bid'))
+        if (askPrice > 0) {
+          asks.push({ price: askPrice, quantity: parseNumber(field('sel', level, 'req')) })
+        }
+        if (bidPrice > 0) {
+          bids.push({ price: bidPrice, quantity: parseNumber(field('buy', level, 'req')) })
+        }
       }
-    } else {
-      // 실전투자 환경: 기존 엔드포인트 사용
-      if (period === 'day') {
-        // 일봉 차트
-        endpoint = '/uapi/domestic-stock/v1/quotations/inquire-daily-itemchartprice'
-        trId = 'FHKST03010100'
-      } else {
-        // 분봉 차트 (min, 3, 5, 10, 15, 30, 60 등)
-        endpoint = '/uapi/domestic-stock/v1/quotations/inquire-time-itemchartprice'
-        trId = 'FHKST03010200'
+      return {
+        asks,
+        bids,
+        totalAskQuantity: parseNumber(response.tot_sel_req),
+        totalBidQuantity: parseNumber(response.tot_buy_req),
+        time: String(response.bid_req_base_tm || '').trim(),
       }
     }
 
-    let params: any = {}
-    let requestMethod: 'GET' | 'POST' = 'GET'
-    
-    if (isMock) {
-      // 모의투자 환경: POST 메서드 사용, Body에 파라미터 전달
-      requestMethod = 'POST'
-      
-      // 날짜 설정 (오늘 날짜)
-      const today = new Date()
-      const year = today.getFullYear()
-      const month = String(today.getMonth() + 1).padStart(2, '0')
-      const day = String(today.getDate()).padStart(2, '0')
-      const dt = `${year}${month}${day}` // YYYYMMDD
-      
-      // 모의투자 환경 파라미터 설정
-      params = {
-        dt: dt, // 일자 (YYYYMMDD)
-        stk_cd: code, // 종목코드
-      }
-      
-      // 분봉인 경우 필수 파라미터 추가
-      if (period !== 'day') {
-        const tickMap: { [key: string]: string } = {
-          'min': '1', // 1분
-          'tick': '1', // 틱도 1분으로 처리
-          '3': '3', // 3분
-          '5': '5', // 5분
-          '10': '10', // 10분
-          '15': '15', // 15분
-          '30': '30', // 30분
-          '60': '60', // 60분
-        }
-        // 모의투자 API 필수 파라미터
-        params.tic_scope = tickMap[period] || '1' // 틱 범위
-        params.upd_stkpc_tp = '1' // 수정주가구분 (1: 수정주가 적용)
-      } else {
-        // 일봉인 경우에도 수정주가구분 필요할 수 있음
-        params.upd_stkpc_tp = '1' // 수정주가구분 (1: 수정주가 적용)
+    const response = await this.request(
+      '/uapi/domestic-stock/v1/quotations/inquire-asking-price-exp-ccn',
+      'FHKST01010200', // 주식현재가 호가/예상체결
+      { FID_COND_MRKT_DIV_CODE: 'J', FID_INPUT_ISCD: code },
+      'GET'
+    )
+    const item = Array.isArray(response.output1) ? response.output1[0] || {} : response.output1 || {}
+    const value = (key: string) => item[key.toUpperCase()] ?? item[key]
+    for (let level = 1; level <= 10; level++) {
+      const askPrice = parseNumber(value(`askp${level}`))
+      const bidPrice = parseNumber(value(`bidp${level}`))
+      if (askPrice > 0) {
+        asks.push({ price: askPrice, quantity: parseNumber(value(`askp_rsqn${level}`)) })
       }
-    } else {
-      // 실전투자 환경: 기존 파라미터 형식 사용
-      // 시장구분 코드 자동 판단
-      // 종목코드로 시장구분 판단 (6자리 코드 기준)
-      // 5xxxxx, 6xxxxx: 코스피 (J)
-      // 0xxxxx, 1xxxxx, 2xxxxx, 3xxxxx: 코스피 (J)  
-      // 1xxxxx, 2xxxxx: 코스닥 (Q) - 일부
-      // ETN/ETF 등은 대부분 코스피에 속함
-      // 안전하게 J(코스피)를 기본값으로 사용하고, 실패 시 Q(코스닥) 시도
-      let marketCode = 'J' // 기본값: 코스피
-      
-      // 종목코드 첫 자리로 판단 (간단한 휴리스틱)
-      if (code.length >= 6) {
-        const firstDigit = code[0]
-        // 0, 1, 2, 3, 5, 6으로 시작: 코스피 (J)
-        // 1, 2로 시작하는 일부는 코스닥일 수 있지만, ETN/ETF는 대부분 코스피
-        if (['0', '1', '2', '3', '5', '6'].includes(firstDigit)) {
-          marketCode = 'J'
-        } else {
-          marketCode = 'Q' // 그 외는 코스닥으로 가정
-        }
-      }
-      
-      params = {
-        FID_COND_MRKT_DIV_CODE: marketCode, // J: 코스피, Q: 코스닥
-        FID_INPUT_ISCD: code, // 종목코드
+      if (bidPrice > 0) {
+        bids.push({ price: bidPrice, quantity: parseNumber(value(`bidp_rsqn${level}`)) })
       }
+    }
+    return {
+      asks,
+      bids,
+      totalAskQuantity: parseNumber(value('total_askp_rsqn')),
+      totalBidQuantity: parseNumber(value('total_bidp_rsqn')),
+      time: String(value('aspr_acpt_hour') || '').trim(),
+    }
+  }
 
-      // 분봉인 경우 틱범위 추가
-      if (period !== 'day') {
-        // start 파라미터가 없을 때만 틱 범위 설정
-        if (!start) {
-          const tickMap: { [key: string]: string } = {
-            'min': '1', // 1분
-            'tick': '1', // 틱도 1분으로 처리
-            '3': '3', // 3분
-            '5': '5', // 5분
-            '10': '10', // 10분
-            '15': '15', // 15분
-            '30': '30', // 30분
-            '60': '60', // 60분
-          }
-          params.FID_INPUT_HOUR_1 = tickMap[period] || '1'
-        } else {
-          params.FID_INPUT_HOUR_1 = start
-        }
-      }
+  /**
+   * 차트 데이터 조회
+   * 키움 REST API: 국내주식 > 차트 > 일봉/분봉 차트
+   * options로 연속조회하면 여러 페이지의 봉을 합쳐서 반환 (기본: 한 페이지)
+   */
+  async getCandleData(
+    code: string,
+    period: string = 'min',
+    start: string = '',
+    end: string = '',
+    options: PaginationOptions = {}
+  ): Promise<any[]> {
+    const { isMock, endpoint, trId, params, requestMethod } = this.buildChartRequest(code, period, start, end)
 
-      if (end) params.FID_INPUT_HOUR_2 = end
-    }
-    
     console.log(`[차트 API] 종목코드: ${code}, 기간: ${period}, 모의투자: ${isMock}, 도메인: ${this.config?.host || 'N/A'}`)
     console.log(`[차트 API] 엔드포인트: ${endpoint}, TR_ID: ${trId}, 메서드: ${requestMethod}`)
     console.log(`[차트 API] 요청 파라미터:`, JSON.stringify(params, null, 2))
 
-    // 차트 API 요청 제한 방지를 위한 지연 처리
-    // ka10080 (주식분봉차트조회요청)은 요청 제한이 엄격하므로 요청 간 지연 필요
-    if (trId === 'ka10080' || trId === 'ka10081' || trId === 'ka10079') {
-      const now = Date.now()
-      const timeSinceLastRequest = now - this.lastChartRequestTime
-      
-      if (timeSinceLastRequest < this.chartRequestDelay) {
-        const delay = this.chartRequestDelay - timeSinceLastRequest
-        console.log(`[차트 API] 요청 제한 방지를 위한 지연: ${delay}ms`)
-        await new Promise(resolve => setTimeout(resolve, delay))
-      }
-      
-      this.lastChartRequestTime = Date.now()
-    }
-
     try {
-      const response = await this.request(endpoint, trId, params, requestMethod)
-      
-      // 응답 구조 확인 및 디버깅
-      console.log(`[차트 API] 종목코드: ${code}, 기간: ${period}, 응답 수신 완료`)
-      console.log(`[차트 API] 응답 키:`, Object.keys(response))
-      console.log(`[차트 API] 응답 구조 (처음 1000자):`, JSON.stringify(response).substring(0, 1000))
-      
-      // 키움 API 응답 구조 확인
-      // output1, output2, output 등 다양한 형태로 데이터가 올 수 있음
-      // 모의투자 환경에서는 응답 구조가 다를 수 있음
-      let chartData: any[] = []
-      
-      if (isMock) {
-        // 모의투자 환경: 응답 구조 확인 및 파싱
-        // ka10080 (주식분봉차트조회요청) 응답 구조: stk_min_pole_chart_qry 배열
-        if (response.stk_min_pole_chart_qry && Array.isArray(response.stk_min_pole_chart_qry)) {
-          chartData = response.stk_min_pole_chart_qry
-          console.log(`[차트 API] 모의투자 - stk_min_pole_chart_qry 배열 발견: ${chartData.length}개`)
-        } else if (response.output && Array.isArray(response.output)) {
-          chartData = response.output
-          console.log(`[차트 API] 모의투자 - output 배열 발견: ${chartData.length}개`)
-        } else if (response.output1 && Array.isArray(response.output1)) {
-          chartData = response.output1
-          console.log(`[차트 API] 모의투자 - output1 배열 발견: ${chartData.length}개`)
-        } else if (response.output2 && Array.isArray(response.output2)) {
-          chartData = response.output2
-          console.log(`[차트 API] 모의투자 - output2 배열 발견: ${chartData.length}개`)
-        } else if (Array.isArray(response)) {
-          chartData = response
-          console.log(`[차트 API] 모의투자 - 직접 배열 발견: ${chartData.length}개`)
-        } else if (typeof response === 'object') {
-          // 모든 키를 확인하여 배열을 찾음
-          for (const key in response) {
-            if (Array.isArray(response[key])) {
-              chartData = response[key]
-              console.log(`[차트 API] 모의투자 - ${key} 배열 발견: ${chartData.length}개`)
-              break
-            }
-          }
-        }
-      } else {
-        // 실전투자 환경: 기존 응답 구조 파싱
-        // 1. output1 배열 확인 (가장 일반적)
-        if (response.output1 && Array.isArray(response.output1)) {
-          chartData = response.output1
-          console.log(`[차트 API] output1 배열 발견: ${chartData.length}개`)
-        } 
-        // 2. output 배열 확인
-        else if (response.output && Array.isArray(response.output)) {
-          chartData = response.output
-          console.log(`[차트 API] output 배열 발견: ${chartData.length}개`)
-        } 
-        // 3. output2 배열 확인
-        else if (response.output2 && Array.isArray(response.output2)) {
-          chartData = response.output2
-          console.log(`[차트 API] output2 배열 발견: ${chartData.length}개`)
-        }
-        // 4. 직접 배열인 경우
-        else if (Array.isArray(response)) {
-          chartData = response
-          console.log(`[차트 API] 직접 배열 발견: ${chartData.length}개`)
-        }
-        // 5. 응답이 객체이고 배열 필드가 있는 경우
-        else if (typeof response === 'object') {
-          // 모든 키를 확인하여 배열을 찾음
-          for (const key in response) {
-            if (Array.isArray(response[key])) {
-              chartData = response[key]
-              console.log(`[차트 API] ${key} 배열 발견: ${chartData.length}개`)
-              break
-            }
-          }
-        }
-      }
-      
-      if (chartData.length === 0) {
-        console.log(`[차트 API] 배열 데이터를 찾을 수 없음. 전체 응답:`, JSON.stringify(response, null, 2))
-      }
-      
-      if (chartData.length > 0) {
-        // 첫 번째 데이터 샘플 확인 (모의투자 환경에서는 더 자세히)
-        const firstItem = chartData[0]
-        const firstItemKeys = Object.keys(firstItem)
-        
-        if (isMock) {
-          // 모의투자 환경: 필드명과 값 확인
-          console.log(`[차트 API] 모의투자 - 첫 번째 항목 필드명 (${firstItemKeys.length}개):`, firstItemKeys.join(', '))
-          // 처음 5개 필드의 값만 출력 (로그가 너무 길어지는 것 방지)
-          const sampleFields = firstItemKeys.slice(0, 5).map(key => `${key}=${firstItem[key]}`).join(', ')
-          console.log(`[차트 API] 모의투자 - 첫 번째 항목 샘플 값:`, sampleFields)
-        } else {
-          console.log(`[차트 API] 첫 번째 항목 필드명:`, firstItemKeys.join(', '))
-        }
-        
-        const mappedData = chartData.map((item: any, index: number) => {
-          // 모의투자 API의 실제 필드명 확인 및 매핑
-          // 모의투자 API는 다른 필드명을 사용할 수 있으므로 다양한 가능성 확인
-          let date = ''
-          let open = 0
-          let high = 0
-          let low = 0
-          let close = 0
-          let volume = 0
-          
-          if (isMock) {
-            // 모의투자 API 필드명 (ka10080 실제 응답 구조)
-            // cntr_tm: 체결시간 (YYYYMMDDHHMMSS 형식)
-            // open_pric: 시가 (부호 포함 가능: +108900)
-            // high_pric: 고가 (부호 포함 가능)
-            // low_pric: 저가 (부호 포함 가능)
-            // cur_prc: 현재가/종가 (부호 포함 가능: +108900)
-            // trde_qty: 거래량
-            
-            const cntrTm = item.cntr_tm || item.CNTR_TM || ''
-            // YYYYMMDDHHMMSS 형식을 YYYYMMDDHHMM 형식으로 변환 (초 제거)
-            date = cntrTm.length >= 14 ? cntrTm.substring(0, 12) : cntrTm
-            
-            // 부호 제거 후 파싱 (+108900 -> 108900)
-            const parsePrice = (value: any) => {
-              if (!value) return 0
-              const str = String(value).replace(/[+\-]/g, '').trim()
-              return parseFloat(str) || 0
-            }
-            
-            open = parsePrice(item.open_pric || item.OPEN_PRIC || item.open_price || item.OPEN_PRICE || item.open || item.OPEN || item.시가)
-            high = parsePrice(item.high_pric || item.HIGH_PRIC || item.high_price || item.HIGH_PRICE || item.high || item.HIGH || item.고가)
-            low = parsePrice(item.low_pric || item.LOW_PRIC || item.low_price || item.LOW_PRICE || item.low || item.LOW || item.저가)
-            close = parsePrice(item.cur_prc || item.CUR_PRC || item.cur_price || item.CUR_PRICE || item.close || item.CLOSE || item.cls_prc || item.CLS_PRC || item.종가 || item.현재가)
-            volume = parseFloat(item.trde_qty || item.TRDE_QTY || item.volume || item.VOLUME || item.거래량 || '0') || 0
-            
-            // 첫 번째 항목의 필드명과 값 확인 (한 번만 출력)
-            if (index === 0) {
-              console.log(`[차트 API] 모의투자 - 파싱 시도 결과:`, { 
-                date, open, high, low, close, volume,
-                'item.cntr_tm': item.cntr_tm,
-                'item.open_pric': item.open_pric,
-                'item.cur_prc': item.cur_prc,
-                'item.trde_qty': item.trde_qty,
-                '파싱된 값': { date, open, high, low, close, volume },
-                '모든 필드': Object.keys(item)
-              })
-            }
-          } else {
-            // 실전투자 API 필드명
-            date = item.STDT || item.stdt || item.일자 || item.date || item.time || ''
-            open = parseFloat(item.OPEN || item.open || item.시가 || '0') || 0
-            high = parseFloat(item.HIGH || item.high || item.고가 || '0') || 0
-            low = parseFloat(item.LOW || item.low || item.저가 || '0') || 0
-            close = parseFloat(item.CLOSE || item.close || item.종가 || item.현재가 || '0') || 0
-            volume = parseFloat(item.VOLUME || item.volume || item.거래량 || '0') || 0
-            
-            // 첫 번째 항목의 필드명 확인
-            if (index === 0) {
-              console.log(`[차트 API] 첫 번째 항목 필드명:`, Object.keys(item))
-              console.log(`[차트 API] 파싱 결과:`, { date, open, high, low, close, volume })
-            }
-          }
-          
-          return {
-            일자: date,
-            시가: open,
-            고가: high,
-            저가: low,
-            종가: close,
-            거래량: volume,
-          }
-        }).filter((item: any) => {
-          // 유효한 데이터만 필터링 (일자가 있고 가격이 0이 아닌 경우)
-          const isValid = item.일자 && (item.시가 > 0 || item.고가 > 0 || item.저가 > 0 || item.종가 > 0)
-          if (!isValid) {
-            console.log(`[차트 API] 유효하지 않은 데이터 필터링:`, item)
-          }
-          return isValid
-        })
-        
-        console.log(`[차트 API] 종목코드: ${code}, 기간: ${period}, 원본: ${chartData.length}개, 필터링 후: ${mappedData.length}개`)
-        
-        return mappedData
-      }
-      
-      // 데이터가 없을 경우 빈 배열 반환
-      console.log(`[차트 API] 종목코드: ${code}, 기간: ${period}, 데이터 없음 - 빈 배열 반환`)
-      return []
+      const { data: response } = await this.requestPaginated(endpoint, trId, params, requestMethod, options)
+      return this.parseChartResponse(response, code, period, isMock)
     } catch (error: any) {
       // 에러 상세 로깅
       const status = error.response?.status || error.status
       const errorMessage = error.response?.data?.message || error.response?.data?.return_msg || error.message || ''
       const errorCode = error.response?.data?.return_code
-      const isMock = this.config?.host?.includes('mockapi') || false
+      const isMock = this.isMockApi()
       
       console.log(`[차트 API] 종목코드: ${code}, 기간: ${period}, 에러 발생`)
       console.log(`[차트 API] 모의투자: ${isMock}, 도메인: ${this.config?.host || 'N/A'}`)
@@ -1035,63 +963,407 @@ export class KiwoomService {
         }
       }
       
-      // 500 에러는 서버 측 문제이므로 조용히 처리
-      if (status === 500) {
-        console.log(`[차트 API] 500 에러 - 서버 측 문제로 조용히 처리 (모의투자 환경에서 일부 종목은 차트 데이터를 제공하지 않을 수 있음)`)
-      } else if (status === 429 || errorCode === 5) {
-        console.log(`[차트 API] 요청 제한 에러 - 조용히 처리`)
-      } else {
-        // 기타 에러는 로그 출력
-        console.error(`[차트 API] 차트 데이터 조회 오류 상세:`, {
-          status,
-          errorCode,
-          errorMessage,
-          endpoint,
-          trId,
-          params
-        })
+      // 500 에러는 서버 측 문제이므로 조용히 처리
+      if (status === 500) {
+        console.log(`[차트 API] 500 에러 - 서버 측 문제로 조용히 처리 (모의투자 환경에서 일부 종목은 차트 데이터를 제공하지 않을 수 있음)`)
+      } else if (status === 429 || errorCode === 5) {
+        console.log(`[차트 API] 요청 제한 에러 - 조용히 처리`)
+      } else {
+        // 기타 에러는 로그 출력
+        console.error(`[차트 API] 차트 데이터 조회 오류 상세:`, {
+          status,
+          errorCode,
+          errorMessage,
+          endpoint,
+          trId,
+          params
+        })
+      }
+      
+      // 차트 API가 실패한 경우 현재가 정보를 사용하여 최소한의 차트 데이터 생성
+      try {
+        console.log(`[차트 API] 차트 데이터 조회 실패, 현재가 정보로 대체 시도: ${code}`)
+        const currentPriceData = await this.getCurrentPrice(code)
+        
+        if (currentPriceData && currentPriceData.price && currentPriceData.price > 0) {
+          // 현재 날짜/시간 생성
+          const now = new Date()
+          const year = now.getFullYear()
+          const month = String(now.getMonth() + 1).padStart(2, '0')
+          const day = String(now.getDate()).padStart(2, '0')
+          const hours = String(now.getHours()).padStart(2, '0')
+          const minutes = String(now.getMinutes()).padStart(2, '0')
+          
+          // 일봉인 경우 날짜만, 분봉인 경우 날짜+시간
+          const dateStr = period === 'day' 
+            ? `${year}${month}${day}` 
+            : `${year}${month}${day}${hours}${minutes}`
+          
+          // 현재가 정보를 기반으로 차트 데이터 생성
+          const fallbackData = [{
+            일자: dateStr,
+            시가: currentPriceData.시가 || currentPriceData.price,
+            고가: currentPriceData.고가 || currentPriceData.price,
+            저가: currentPriceData.저가 || currentPriceData.price,
+            종가: currentPriceData.price,
+            거래량: currentPriceData.volume || 0,
+          }]
+          
+          console.log(`[차트 API] 현재가 정보로 차트 데이터 생성 성공: ${fallbackData.length}개`)
+          return fallbackData
+        }
+      } catch (currentPriceError: any) {
+        // 현재가 조회도 실패한 경우 조용히 처리
+        console.log(`[차트 API] 현재가 조회도 실패:`, currentPriceError.message)
+      }
+      
+      // 모든 시도가 실패한 경우 빈 배열 반환
+      return []
+    }
+  }
+
+  /**
+   * 과거 차트 연속조회 (cont-yn/next-key로 더 과거 페이지를 이어서 조회)
+   * 가장 오래된 봉의 일자가 until(YYYYMMDD 또는 YYYYMMDDHHmm) 이하가 되거나 maxPages에 도달하면 중단
+   * getCandleData와 달리 실패 시 현재가로 대체하지 않고 에러를 던짐 (캔들 저장소에 대체 봉이 저장되지 않도록)
+   */
+  async getCandleHistory(
+    code: string,
+    period: 'min' | 'day',
+    until: string,
+    maxPages: number = 10
+  ): Promise<CandleHistory> {
+    const { isMock, endpoint, trId, params, requestMethod } = this.buildChartRequest(code, period, '', '')
+    const candles: any[] = []
+    let exhausted = false
+
+    const result = await this.requestPaginated(endpoint, trId, params, requestMethod, {
+      maxPages,
+      onPage: (page) => {
+        const rows = this.parseChartResponse(page, code, period, isMock)
+        candles.push(...rows)
+        exhausted = rows.length === 0
+        return !exhausted && !rows.some((row: any) => String(row.일자).substring(0, until.length) <= until)
+      },
+    })
+    return { candles, hasMore: result.hasMore && !exhausted }
+  }
+
+  /**
+   * 차트 API 엔드포인트/TR_ID/파라미터 (모의투자와 실전투자의 요청 형식이 다름)
+   */
+  private buildChartRequest(code: string, period: string, start: string, end: string): ChartRequest {
+    // 모의투자 환경 확인
+    const isMock = this.isMockApi()
+    
+    let endpoint = ''
+    let trId = ''
+
+    if (isMock) {
+      // 모의투자 환경: /api/dostk/chart 엔드포인트 사용
+      endpoint = '/api/dostk/chart'
+      
+      // TR_ID 매핑 (모의투자용)
+      if (period === 'day') {
+        trId = 'ka10081' // 주식일봉차트조회요청
+      } else if (period === 'tick') {
+        trId = 'ka10079' // 주식틱차트조회요청
+      } else {
+        trId = 'ka10080' // 주식분봉차트조회요청
+      }
+    } else {
+      // 실전투자 환경: 기존 엔드포인트 사용
+      if (period === 'day') {
+        // 일봉 차트
+        endpoint = '/uapi/domestic-stock/v1/quotations/inquire-daily-itemchartprice'
+        trId = 'FHKST03010100'
+      } else {
+        // 분봉 차트 (min, 3, 5, 10, 15, 30, 60 등)
+        endpoint = '/uapi/domestic-stock/v1/quotations/inquire-time-itemchartprice'
+        trId = 'FHKST03010200'
+      }
+    }
+
+    let params: any = {}
+    let requestMethod: 'GET' | 'POST' = 'GET'
+    
+    if (isMock) {
+      // 모의투자 환경: POST 메서드 사용, Body에 파라미터 전달
+      requestMethod = 'POST'
+      
+      // 날짜 설정 (오늘 날짜)
+      const today = new Date()
+      const year = today.getFullYear()
+      const month = String(today.getMonth() + 1).padStart(2, '0')
+      const day = String(today.getDate()).padStart(2, '0')
+      const dt = `${year}${month}${day}` // YYYYMMDD
+      
+      // 모의투자 환경 파라미터 설정
+      params = {
+        dt: dt, // 일자 (YYYYMMDD)
+        stk_cd: code, // 종목코드
+      }
+      
+      // 분봉인 경우 필수 파라미터 추가
+      if (period !== 'day') {
+        const tickMap: { [key: string]: string } = {
+          'min': '1', // 1분
+          'tick': '1', // 틱도 1분으로 처리
+          '3': '3', // 3분
+          '5': '5', // 5분
+          '10': '10', // 10분
+          '15': '15', // 15분
+          '30': '30', // 30분
+          '60': '60', // 60분
+        }
+        // 모의투자 API 필수 파라미터
+        params.tic_scope = tickMap[period] || '1' // 틱 범위
+        params.upd_stkpc_tp = '1' // 수정주가구분 (1: 수정주가 적용)
+      } else {
+        // 일봉인 경우에도 수정주가구분 필요할 수 있음
+        params.upd_stkpc_tp = '1' // 수정주가구분 (1: 수정주가 적용)
+      }
+    } else {
+      // 실전투자 환경: 기존 파라미터 형식 사용
+      // 시장구분 코드 자동 판단
+      // 종목코드로 시장구분 판단 (6자리 코드 기준)
+      // 5xxxxx, 6xxxxx: 코스피 (J)
+      // 0xxxxx, 1xxxxx, 2xxxxx, 3xxxxx: 코스피 (J)  
+      // 1xxxxx, 2xxxxx: 코스닥 (Q) - 일부
+      // ETN/ETF 등은 대부분 코스피에 속함
+      // 안전하게 J(코스피)를 기본값으로 사용하고, 실패 시 Q(코스닥) 시도
+      let marketCode = 'J' // 기본값: 코스피
+      
+      // 종목코드 첫 자리로 판단 (간단한 휴리스틱)
+      if (code.length >= 6) {
+        const firstDigit = code[0]
+        // 0, 1, 2, 3, 5, 6으로 시작: 코스피 (J)
+        // 1, 2로 시작하는 일부는 코스닥일 수 있지만, ETN/ETF는 대부분 코스피
+        if (['0', '1', '2', '3', '5', '6'].includes(firstDigit)) {
+          marketCode = 'J'
+        } else {
+          marketCode = 'Q' // 그 외는 코스닥으로 가정
+        }
+      }
+      
+      params = {
+        FID_COND_MRKT_DIV_CODE: marketCode, // J: 코스피, Q: 코스닥
+        FID_INPUT_ISCD: code, // 종목코드
+      }
+
+      // 분봉인 경우 틱범위 추가
+      if (period !== 'day') {
+        // start 파라미터가 없을 때만 틱 범위 설정
+        if (!start) {
+          const tickMap: { [key: string]: string } = {
+            'min': '1', // 1분
+            'tick': '1', // 틱도 1분으로 처리
+            '3': '3', // 3분
+            '5': '5', // 5분
+            '10': '10', // 10분
+            '15': '15', // 15분
+            '30': '30', // 30분
+            '60': '60', // 60분
+          }
+          params.FID_INPUT_HOUR_1 = tickMap[period] || '1'
+        } else {
+          params.FID_INPUT_HOUR_1 = start
+        }
+      }
+
+      if (end) params.FID_INPUT_HOUR_2 = end
+    }
+
+    return { isMock, endpoint, trId, params, requestMethod }
+  }
+
+  /**
+   * 차트 API 응답을 일자/시가/고가/저가/종가/거래량 배열로 변환
+   * output1, output2, output 등 다양한 형태로 데이터가 올 수 있음
+   */
+  private parseChartResponse(response: any, code: string, period: string, isMock: boolean): any[] {
+    // 응답 구조 확인 및 디버깅
+    console.log(`[차트 API] 종목코드: ${code}, 기간: ${period}, 응답 수신 완료`)
+    console.log(`[차트 API] 응답 키:`, Object.keys(response))
+    console.log(`[차트 API] 응답 구조 (처음 1000자):`, JSON.stringify(response).substring(0, 1000))
+    
+    // 키움 API 응답 구조 확인
+    // output1, output2, output 등 다양한 형태로 데이터가 올 수 있음
+    // 모의투자 환경에서는 응답 구조가 다를 수 있음
+    let chartData: any[] = []
+    
+    if (isMock) {
+      // 모의투자 환경: 응답 구조 확인 및 파싱
+      // ka10080 (주식분봉차트조회요청) 응답 구조: stk_min_pole_chart_qry 배열
+      if (response.stk_min_pole_chart_qry && Array.isArray(response.stk_min_pole_chart_qry)) {
+        chartData = response.stk_min_pole_chart_qry
+        console.log(`[차트 API] 모의투자 - stk_min_pole_chart_qry 배열 발견: ${chartData.length}개`)
+      } else if (response.output && Array.isArray(response.output)) {
+        chartData = response.output
+        console.log(`[차트 API] 모의투자 - output 배열 발견: ${chartData.length}개`)
+      } else if (response.output1 && Array.isArray(response.output1)) {
+        chartData = response.output1
+        console.log(`[차트 API] 모의투자 - output1 배열 발견: ${chartData.length}개`)
+      } else if (response.output2 && Array.isArray(response.output2)) {
+        chartData = response.output2
+        console.log(`[차트 API] 모의투자 - output2 배열 발견: ${chartData.length}개`)
+      } else if (Array.isArray(response)) {
+        chartData = response
+        console.log(`[차트 API] 모의투자 - 직접 배열 발견: ${chartData.length}개`)
+      } else if (typeof response === 'object') {
+        // 모든 키를 확인하여 배열을 찾음
+        for (const key in response) {
+          if (Array.isArray(response[key])) {
+            chartData = response[key]
+            console.log(`[차트 API] 모의투자 - ${key} 배열 발견: ${chartData.length}개`)
+            break
+          }
+        }
+      }
+    } else {
+      // 실전투자 환경: 기존 응답 구조 파싱
+      // 1. output1 배열 확인 (가장 일반적)
+      if (response.output1 && Array.isArray(response.output1)) {
+        chartData = response.output1
+        console.log(`[차트 API] output1 배열 발견: ${chartData.length}개`)
+      } 
+      // 2. output 배열 확인
+      else if (response.output && Array.isArray(response.output)) {
+        chartData = response.output
+        console.log(`[차트 API] output 배열 발견: ${chartData.length}개`)
+      } 
+      // 3. output2 배열 확인
+      else if (response.output2 && Array.isArray(response.output2)) {
+        chartData = response.output2
+        console.log(`[차트 API] output2 배열 발견: ${chartData.length}개`)
+      }
+      // 4. 직접 배열인 경우
+      else if (Array.isArray(response)) {
+        chartData = response
+        console.log(`[차트 API] 직접 배열 발견: ${chartData.length}개`)
+      }
+      // 5. 응답이 객체이고 배열 필드가 있는 경우
+      else if (typeof response === 'object') {
+        // 모든 키를 확인하여 배열을 찾음
+        for (const key in response) {
+          if (Array.isArray(response[key])) {
+            chartData = response[key]
+            console.log(`[차트 API] ${key} 배열 발견: ${chartData.length}개`)
+            break
+          }
+        }
       }
+    }
+    
+    if (chartData.length === 0) {
+      console.log(`[차트 API] 배열 데이터를 찾을 수 없음. 전체 응답:`, JSON.stringify(response, null, 2))
+    }
+    
+    if (chartData.length > 0) {
+      // 첫 번째 데이터 샘플 확인 (모의투자 환경에서는 더 자세히)
+      const firstItem = chartData[0]
+      const firstItemKeys = Object.keys(firstItem)
       
-      // 차트 API가 실패한 경우 현재가 정보를 사용하여 최소한의 차트 데이터 생성
-      try {
-        console.log(`[차트 API] 차트 데이터 조회 실패, 현재가 정보로 대체 시도: ${code}`)
-        const currentPriceData = await this.getCurrentPrice(code)
+      if (isMock) {
+        // 모의투자 환경: 필드명과 값 확인
+        console.log(`[차트 API] 모의투자 - 첫 번째 항목 필드명 (${firstItemKeys.length}개):`, firstItemKeys.join(', '))
+        // 처음 5개 필드의 값만 출력 (로그가 너무 길어지는 것 방지)
+        const sampleFields = firstItemKeys.slice(0, 5).map(key => `${key}=${firstItem[key]}`).join(', ')
+        console.log(`[차트 API] 모의투자 - 첫 번째 항목 샘플 값:`, sampleFields)
+      } else {
+        console.log(`[차트 API] 첫 번째 항목 필드명:`, firstItemKeys.join(', '))
+      }
+      
+      const mappedData = chartData.map((item: any, index: number) => {
+        // 모의투자 API의 실제 필드명 확인 및 매핑
+        // 모의투자 API는 다른 필드명을 사용할 수 있으므로 다양한 가능성 확인
+        let date = ''
+        let open = 0
+        let high = 0
+        let low = 0
+        let close = 0
+        let volume = 0
         
-        if (currentPriceData && currentPriceData.price && currentPriceData.price > 0) {
-          // 현재 날짜/시간 생성
-          const now = new Date()
-          const year = now.getFullYear()
-          const month = String(now.getMonth() + 1).padStart(2, '0')
-          const day = String(now.getDate()).padStart(2, '0')
-          const hours = String(now.getHours()).padStart(2, '0')
-          const minutes = String(now.getMinutes()).padStart(2, '0')
+        if (isMock) {
+          // 모의투자 API 필드명 (ka10080 실제 응답 구조)
+          // cntr_tm: 체결시간 (YYYYMMDDHHMMSS 형식)
+          // open_pric: 시가 (부호 포함 가능: +108900)
+          // high_pric: 고가 (부호 포함 가능)
+          // low_pric: 저가 (부호 포함 가능)
+          // cur_prc: 현재가/종가 (부호 포함 가능: +108900)
+          // trde_qty: 거래량
           
-          // 일봉인 경우 날짜만, 분봉인 경우 날짜+시간
-          const dateStr = period === 'day' 
-            ? `${year}${month}${day}` 
-            : `${year}${month}${day}${hours}${minutes}`
+          // 일봉(ka10081)은 cntr_tm 대신 dt (YYYYMMDD) 필드 사용
+          const cntrTm = item.cntr_tm || item.CNTR_TM || item.dt || ''
+          // YYYYMMDDHHMMSS 형식을 YYYYMMDDHHMM 형식으로 변환 (초 제거)
+          date = cntrTm.length >= 14 ? cntrTm.substring(0, 12) : cntrTm
           
-          // 현재가 정보를 기반으로 차트 데이터 생성
-          const fallbackData = [{
-            일자: dateStr,
-            시가: currentPriceData.시가 || currentPriceData.price,
-            고가: currentPriceData.고가 || currentPriceData.price,
-            저가: currentPriceData.저가 || currentPriceData.price,
-            종가: currentPriceData.price,
-            거래량: currentPriceData.volume || 0,
-          }]
+          // 부호 제거 후 파싱 (+108900 -> 108900)
+          const parsePrice = (value: any) => {
+            if (!value) return 0
+            const str = String(value).replace(/[+\-]/g, '').trim()
+            return parseFloat(str) || 0
+          }
           
-          console.log(`[차트 API] 현재가 정보로 차트 데이터 생성 성공: ${fallbackData.length}개`)
-          return fallbackData
+          open = parsePrice(item.open_pric || item.OPEN_PRIC || item.open_price || item.OPEN_PRICE || item.open || item.OPEN || item.시가)
+          high = parsePrice(item.high_pric || item.HIGH_PRIC || item.high_price || item.HIGH_PRICE || item.high || item.HIGH || item.고가)
+          low = parsePrice(item.low_pric || item.LOW_PRIC || item.low_price || item.LOW_PRICE || item.low || item.LOW || item.저가)
+          close = parsePrice(item.cur_prc || item.CUR_PRC || item.cur_price || item.CUR_PRICE || item.close || item.CLOSE || item.cls_prc || item.CLS_PRC || item.종가 || item.현재가)
+          volume = parseFloat(item.trde_qty || item.TRDE_QTY || item.volume || item.VOLUME || item.거래량 || '0') || 0
+          
+          // 첫 번째 항목의 필드명과 값 확인 (한 번만 출력)
+          if (index === 0) {
+            console.log(`[차트 API] 모의투자 - 파싱 시도 결과:`, { 
+              date, open, high, low, close, volume,
+              'item.cntr_tm': item.cntr_tm,
+              'item.open_pric': item.open_pric,
+              'item.cur_prc': item.cur_prc,
+              'item.trde_qty': item.trde_qty,
+              '파싱된 값': { date, open, high, low, close, volume },
+              '모든 필드': Object.keys(item)
+            })
+          }
+        } else {
+          // 실전투자 API 필드명
+          date = item.STDT || item.stdt || item.일자 || item.date || item.time || ''
+          open = parseFloat(item.OPEN || item.open || item.시가 || '0') || 0
+          high = parseFloat(item.HIGH || item.high || item.고가 || '0') || 0
+          low = parseFloat(item.LOW || item.low || item.저가 || '0') || 0
+          close = parseFloat(item.CLOSE || item.close || item.종가 || item.현재가 || '0') || 0
+          volume = parseFloat(item.VOLUME || item.volume || item.거래량 || '0') || 0
+          
+          // 첫 번째 항목의 필드명 확인
+          if (index === 0) {
+            console.log(`[차트 API] 첫 번째 항목 필드명:`, Object.keys(item))
+            console.log(`[차트 API] 파싱 결과:`, { date, open, high, low, close, volume })
+          }
         }
-      } catch (currentPriceError: any) {
-        // 현재가 조회도 실패한 경우 조용히 처리
-        console.log(`[차트 API] 현재가 조회도 실패:`, currentPriceError.message)
-      }
+        
+        return {
+          일자: date,
+          시가: open,
+          고가: high,
+          저가: low,
+          종가: close,
+          거래량: volume,
+        }
+      }).filter((item: any) => {
+        // 유효한 데이터만 필터링 (일자가 있고 가격이 0이 아닌 경우)
+        const isValid = item.일자 && (item.시가 > 0 || item.고가 > 0 || item.저가 > 0 || item.종가 > 0)
+        if (!isValid) {
+          console.log(`[차트 API] 유효하지 않은 데이터 필터링:`, item)
+        }
+        return isValid
+      })
       
-      // 모든 시도가 실패한 경우 빈 배열 반환
-      return []
+      console.log(`[차트 API] 종목코드: ${code}, 기간: ${period}, 원본: ${chartData.length}개, 필터링 후: ${mappedData.length}개`)
+      
+      return mappedData
     }
+    
+    // 데이터가 없을 경우 빈 배열 반환
+    console.log(`[차트 API] 종목코드: ${code}, 기간: ${period}, 데이터 없음 - 빈 배열 반환`)
+    return []
   }
 
   /**
@@ -1598,7 +1870,7 @@ export class KiwoomService {
       if (stocks.length === 0 && accountNo) {
         console.log(`[보유 종목 조회] 주문 내역 기반 보유 종목 계산 시도`)
         try {
-          const orderHistory = await this.getOrderHistory(accountNo)
+          const orderHistory = await this.getOrderHistory(accountNo, FULL_PAGINATION)
           
           if (orderHistory && orderHistory.length > 0) {
             // 체결된 주문만 필터링
@@ -1747,7 +2019,7 @@ export class KiwoomService {
     accountProductCode?: string
   ): Promise<any> {
     // 모의투자 환경 감지
-    const isMockApi = this.config?.host?.includes('mockapi.kiwoom.com')
+    const isMockApi = this.isMockApi()
     
     // 모의투자 환경에서는 다른 엔드포인트 사용
     // 키움증권 모의투자 API 문서: /api/dostk/ordr
@@ -1903,7 +2175,7 @@ export class KiwoomService {
       
       // 500 에러인 경우 모의투자 환경에서도 재시도 가능하도록 처리
       if (errorStatus === 500) {
-        const isMockApi = this.config?.host?.includes('mockapi.kiwoom.com')
+        const isMockApi = this.isMockApi()
         if (isMockApi) {
           // 모의투자 환경에서는 500 에러도 실제 에러 메시지와 함께 전달
           // 일부 종목은 주문이 제한될 수 있지만, 대부분의 종목은 정상 작동
@@ -1917,86 +2189,235 @@ export class KiwoomService {
     }
   }
 
+  /**
+   * 주문 취소
+   * 모의투자: /api/dostk/ordr kt10003, 실전: order-rvsecncl (취소)
+   * quantity를 생략하거나 0이면 미체결 잔량 전부 취소
+   */
+  async cancelOrder(
+    request: CancelOrderRequest,
+    accountNo?: string,
+    accountProductCode?: string
+  ): Promise<any> {
+    const isMockApi = this.isMockApi()
+    const { originalOrderNumber, stockCode } = this.validateOrderRevision(request, isMockApi, accountNo, accountProductCode)
+    const quantity = request.quantity && request.quantity > 0 ? Math.floor(request.quantity) : 0
+
+    const endpoint = isMockApi ? '/api/dostk/ordr' : '/uapi/domestic-stock/v1/trading/order-rvsecncl'
+    const trId = isMockApi ? 'kt10003' : 'TTTC0803U'
+    const data = isMockApi ? {
+      dmst_stex_tp: 'KRX', // 국내거래소구분
+      orig_ord_no: originalOrderNumber, // 원주문번호
+      stk_cd: stockCode, // 종목코드
+      cncl_qty: quantity.toString(), // 취소수량 ('0': 잔량 전부 취소)
+    } : {
+      CANO: accountNo!.trim(), // 계좌번호
+      ACNT_PRDT_CD: accountProductCode!.trim(), // 계좌상품코드
+      KRX_FWDG_ORD_ORGNO: '', // 한국거래소전송주문조직번호
+      ORGN_ODNO: originalOrderNumber, // 원주문번호
+      ORD_DVSN: '00', // 주문구분
+      RVSE_CNCL_DVSN_CD: '02', // 정정취소구분코드 (01: 정정, 02: 취소)
+      ORD_QTY: quantity.toString(), // 주문수량
+      ORD_UNPR: '0', // 주문단가 (취소 시 0)
+      QTY_ALL_ORD_YN: quantity > 0 ? 'N' : 'Y', // 잔량전부주문여부
+    }
+
+    try {
+      console.log(`[주문 취소] 원주문번호: ${originalOrderNumber}, 종목코드: ${stockCode}, 취소수량: ${quantity || '전량'}`)
+      const response = await this.request(endpoint, trId, data, 'POST')
+
+      return {
+        orderNumber: isMockApi ? (response.ord_no || '') : (response.ODNO || ''),
+        originalOrderNumber: (isMockApi ? response.base_orig_ord_no : response.ORGN_ODNO) || originalOrderNumber,
+        quantity: parseInt(isMockApi ? response.cncl_qty : response.ORD_QTY) || quantity,
+        success: true,
+        message: response.return_msg || '취소 주문이 접수되었습니다',
+        returnCode: response.return_code,
+      }
+    } catch (error: any) {
+      throw this.toOrderRevisionError('주문 취소', originalOrderNumber, error)
+    }
+  }
+
+  /**
+   * 주문 정정 (가격/수량)
+   * 모의투자: /api/dostk/ordr kt10002, 실전: order-rvsecncl (정정)
+   * 정정 시 새 주문번호가 발급되며 원주문번호와 연결됨, quantity를 생략하거나 0이면 미체결 잔량 전부 정정
+   */
+  async modifyOrder(
+    request: ModifyOrderRequest,
+    accountNo?: string,
+    accountProductCode?: string
+  ): Promise<any> {
+    const isMockApi = this.isMockApi()
+    const { originalOrderNumber, stockCode } = this.validateOrderRevision(request, isMockApi, accountNo, accountProductCode)
+    const quantity = request.quantity && request.quantity > 0 ? Math.floor(request.quantity) : 0
+    const price = Math.floor(request.price || 0)
+
+    if (price <= 0) {
+      throw new Error('정정 주문 가격이 필요합니다')
+    }
+
+    const endpoint = isMockApi ? '/api/dostk/ordr' : '/uapi/domestic-stock/v1/trading/order-rvsecncl'
+    const trId = isMockApi ? 'kt10002' : 'TTTC0803U'
+    const data = isMockApi ? {
+      dmst_stex_tp: 'KRX', // 국내거래소구분
+      orig_ord_no: originalOrderNumber, // 원주문번호
+      stk_cd: stockCode, // 종목코드
+      mdfy_qty: quantity.toString(), // 정정수량 ('0': 잔량 전부 정정)
+      mdfy_uv: price.toString(), // 정정단가
+      mdfy_cond_uv: '', // 정정조건단가
+    } : {
+      CANO: accountNo!.trim(), // 계좌번호
+      ACNT_PRDT_CD: accountProductCode!.trim(), // 계좌상품코드
+      KRX_FWDG_ORD_ORGNO: '', // 한국거래소전송주문조직번호
+      ORGN_ODNO: originalOrderNumber, // 원주문번호
+      ORD_DVSN: '00', // 주문구분 (정정은 지정가)
+      RVSE_CNCL_DVSN_CD: '01', // 정정취소구분코드 (01: 정정, 02: 취소)
+      ORD_QTY: quantity.toString(), // 주문수량
+      ORD_UNPR: price.toString(), // 주문단가
+      QTY_ALL_ORD_YN: quantity > 0 ? 'N' : 'Y', // 잔량전부주문여부
+    }
+
+    try {
+      console.log(`[주문 정정] 원주문번호: ${originalOrderNumber}, 종목코드: ${stockCode}, 정정수량: ${quantity || '전량'}, 정정가격: ${price}`)
+      const response = await this.request(endpoint, trId, data, 'POST')
+
+      return {
+        orderNumber: isMockApi ? (response.ord_no || '') : (response.ODNO || ''),
+        originalOrderNumber: (isMockApi ? response.base_orig_ord_no : response.ORGN_ODNO) || originalOrderNumber,
+        quantity: parseInt(isMockApi ? response.mdfy_qty : response.ORD_QTY) || quantity,
+        price,
+        success: true,
+        message: response.return_msg || '정정 주문이 접수되었습니다',
+        returnCode: response.return_code,
+      }
+    } catch (error: any) {
+      throw this.toOrderRevisionError('주문 정정', originalOrderNumber, error)
+    }
+  }
+
+  /**
+   * 정정/취소 주문 공통 검증
+   */
+  private validateOrderRevision(
+    request: CancelOrderRequest,
+    isMockApi: boolean,
+    accountNo?: string,
+    accountProductCode?: string
+  ): { originalOrderNumber: string; stockCode: string } {
+    const originalOrderNumber = String(request.orderNumber || '').trim()
+    if (!originalOrderNumber) {
+      throw new Error('원주문번호가 필요합니다')
+    }
+
+    const stockCode = String(request.code || '').trim()
+    if (!/^\d{6}$/.test(stockCode)) {
+      throw new Error(`지원하지 않는 종목코드 형식입니다: ${stockCode} (6자리 숫자만 지원)`)
+    }
+
+    if (!isMockApi && (!accountNo?.trim() || !accountProductCode?.trim())) {
+      throw new Error('계좌번호와 계좌상품코드가 필요합니다')
+    }
+
+    return { originalOrderNumber, stockCode }
+  }
+
+  /**
+   * 정정/취소 주문 에러 변환 (키움 응답 메시지와 return_code 유지)
+   */
+  private toOrderRevisionError(action: string, originalOrderNumber: string, error: any): Error {
+    const errorResponse = error.response?.data
+    const errorMessage = errorResponse?.message || errorResponse?.return_msg || error.message || `${action} 실패`
+    const returnCode = errorResponse?.return_code ?? error.return_code
+
+    console.error(`[${action} 오류] 원주문번호: ${originalOrderNumber}`, {
+      return_code: returnCode,
+      에러메시지: errorMessage,
+    })
+
+    const revisionError = new Error(errorMessage)
+    ;(revisionError as any).returnCode = returnCode
+    ;(revisionError as any).orderNumber = originalOrderNumber
+    return revisionError
+  }
+
   /**
    * 주문 내역 조회
    * 키움 REST API: 국내주식 > 주문 > 주문내역 조회
+   * 전체 내역이 필요하면 options에 FULL_PAGINATION 등을 넘겨 연속조회 (기본: 한 페이지)
+   * startDate(YYYYMMDD)부터 오늘까지 조회 (기본: 최근 5년치, 모의투자는 당일 주문만 조회)
    */
-  async getOrderHistory(accountNo: string): Promise<any[]> {
+  async getOrderHistory(accountNo: string, options: PaginationOptions = {}, startDate: string = '20200101'): Promise<any[]> {
     if (!this.axiosInstance) {
       throw new Error('키움증권 API에 연결되지 않았습니다')
     }
 
     // 모의투자 환경 감지
-    const isMockApi = this.config?.host?.includes('mockapi.kiwoom.com')
+    const isMockApi = this.isMockApi()
     
-    // 모의투자와 실전 환경의 엔드포인트 및 TR_ID 설정
-    const endpoint = isMockApi
-      ? '/api/dostk/ordr'  // 모의투자 환경 주문 내역 조회 API (추정)
-      : '/uapi/domestic-stock/v1/trading/inquire-daily-ccld'  // 실전 환경 주문 내역 조회 API
-    
-    const trId = isMockApi
-      ? 'kt10002'  // 모의투자 환경 주문 내역 조회 TR_ID (추정)
-      : 'TTTC8001R'  // 실전 환경 일자별체결내역조회 TR_ID
+    // 실전 환경 엔드포인트 및 TR_ID 설정
+    // 모의투자 환경은 미체결요청(ka10075)과 체결요청(ka10076)을 병합 (kt10002는 정정 주문 TR)
+    const endpoint = '/uapi/domestic-stock/v1/trading/inquire-daily-ccld'  // 실전 환경 주문 내역 조회 API
+    const trId = 'TTTC8001R'  // 실전 환경 일자별체결내역조회 TR_ID
     
     // 계좌번호에서 계좌번호와 계좌상품코드 분리
     const accountParts = accountNo.split('-')
     const cano = accountParts[0] || accountNo
     const acntPrdtCd = accountParts[1] || '01'
 
-    // 모의투자와 실전 환경의 요청 데이터 형식이 다를 수 있음
-    const data = isMockApi
-      ? {
-          // 모의투자 환경 요청 파라미터 (추정)
-          dt: new Date().toISOString().split('T')[0].replace(/-/g, ''), // 조회일자
-        }
-      : {
-          CANO: cano, // 계좌번호
-          ACNT_PRDT_CD: acntPrdtCd, // 계좌상품코드
-          INQR_STRT_DT: '20200101', // 조회시작일자 (YYYYMMDD) - 최근 5년치
-          INQR_END_DT: new Date().toISOString().split('T')[0].replace(/-/g, ''), // 조회종료일자 (YYYYMMDD)
-          SLL_BUY_DVSN_CD: '00', // 매도매수구분코드 (00: 전체, 01: 매도, 02: 매수)
-          INQR_DVSN: '00', // 조회구분 (00: 역순, 01: 정순)
-          PDNO: '', // 종목코드 (전체 조회 시 빈값)
-          CCLD_DVSN: '00', // 체결구분 (00: 전체, 01: 체결, 02: 미체결)
-          ORD_GNO_BRNO: '', // 주문채번지점번호 (전체 조회 시 빈값)
-          ODNO: '', // 주문번호 (전체 조회 시 빈값)
-        }
+    const data = {
+      CANO: cano, // 계좌번호
+      ACNT_PRDT_CD: acntPrdtCd, // 계좌상품코드
+      INQR_STRT_DT: startDate, // 조회시작일자 (YYYYMMDD)
+      INQR_END_DT: new Date(Date.now() + 9 * 60 * 60 * 1000).toISOString().split('T')[0].replace(/-/g, ''), // 조회종료일자 (YYYYMMDD, 한국 시간 기준)
+      SLL_BUY_DVSN_CD: '00', // 매도매수구분코드 (00: 전체, 01: 매도, 02: 매수)
+      INQR_DVSN: '00', // 조회구분 (00: 역순, 01: 정순)
+      PDNO: '', // 종목코드 (전체 조회 시 빈값)
+      CCLD_DVSN: '00', // 체결구분 (00: 전체, 01: 체결, 02: 미체결)
+      ORD_GNO_BRNO: '', // 주문채번지점번호 (전체 조회 시 빈값)
+      ODNO: '', // 주문번호 (전체 조회 시 빈값)
+    }
 
     try {
-      const method = isMockApi ? 'POST' : 'GET'
-      const response = await this.request(endpoint, trId, data, method)
-      
-      // console.log(`[주문 내역 조회] 모의투자: ${isMockApi ? '예' : '아니오'}, 응답 구조:`, JSON.stringify(response, null, 2).substring(0, 500))
-      
       // 응답 데이터 파싱 (모의투자와 실전 환경의 응답 형식이 다를 수 있음)
       let ordersArray: any[] = []
-      
-      // output 필드 확인
-      if (response.output && Array.isArray(response.output)) {
-        ordersArray = response.output
-      } else if (response.output1 && Array.isArray(response.output1)) {
-        ordersArray = response.output1
-      } else if (Array.isArray(response)) {
-        ordersArray = response
+
+      if (isMockApi) {
+        ordersArray = await this.getTodayOrderRows(options)
+      } else {
+        const { data: response } = await this.requestPaginated(endpoint, trId, data, 'GET', options)
+
+        // output 필드 확인
+        if (response.output && Array.isArray(response.output)) {
+          ordersArray = response.output
+        } else if (response.output1 && Array.isArray(response.output1)) {
+          ordersArray = response.output1
+        } else if (Array.isArray(response)) {
+          ordersArray = response
+        }
       }
       
       if (ordersArray.length > 0) {
         const orders = ordersArray.map((item: any, index: number) => {
           // 모의투자와 실전 환경의 필드명이 다를 수 있음
-          const orderDate = item.ORD_DT || item.ord_dt || item.주문일자 || item.date || new Date().toLocaleDateString('ko-KR')
-          const orderTime = item.ORD_TMD || item.ord_tm || item.주문시간 || item.time || new Date().toLocaleTimeString('ko-KR')
-          const sllBuyDvsnCd = item.SLL_BUY_DVSN_CD || item.sll_buy_dvsn_cd || item.주문구분 || item.type || ''
+          const orderDate = item.ORD_DT || item.ord_dt || item.주문일자 || item.date || new Date().toLocaleDateString('ko-KR', { timeZone: 'Asia/Seoul' }) // 모의투자 당일 주문 목록은 일자 없음 (한국 시간 기준 당일)
+          const orderTime = item.ORD_TMD || item.ord_tm || item.tm || item.주문시간 || item.time || new Date().toLocaleTimeString('ko-KR')
+          const sllBuyDvsnCd = item.SLL_BUY_DVSN_CD || item.sll_buy_dvsn_cd || item.io_tp_nm || item.주문구분 || item.type || ''
           const stockCode = item.PDNO || item.pdno || item.종목코드 || item.stockCode || item.stk_cd || ''
           const stockName = item.PRNT_KOR_ISNM || item.prnt_kor_isnm || item.종목명 || item.stockName || item.stk_nm || ''
           const quantity = parseInt(item.ORD_QTY || item.ord_qty || item.주문수량 || item.quantity || item.qty || '0') || 0
-          const price = parseInt(item.ORD_UNPR || item.ord_unpr || item.주문단가 || item.price || item.prc || '0') || 0
-          const unfilledQuantity = parseInt(item.ORD_REM_QTY || item.ord_rem_qty || item.미체결수량 || item.unfilledQuantity || '0') || 0
-          const orderStatus = item.ORD_STAT_CD || item.ord_stat_cd || item.주문상태 || item.status || ''
+          const price = parseInt(String(item.ORD_UNPR || item.ord_unpr || item.ord_pric || item.주문단가 || item.price || item.prc || '0').replace(/[+\-,]/g, '')) || 0
+          const unfilledQuantity = parseInt(item.ORD_REM_QTY || item.ord_rem_qty || item.oso_qty || item.미체결수량 || item.unfilledQuantity || '0') || 0
+          const filledQuantity = parseInt(item.TOT_CCLD_QTY || item.tot_ccld_qty || item.cntr_tot_qty || item.체결수량 || item.filledQuantity || '0') || 0
+          const filledPrice = parseInt(String(item.AVG_PRVS || item.avg_prvs || item.cntr_pric || item.체결가 || '0').replace(/[+\-,]/g, '')) || 0
+          const orderStatus = item.ORD_STAT_CD || item.ord_stat_cd || item.ord_stt || item.주문상태 || item.status || ''
           const orderNumber = item.ODNO || item.odno || item.주문번호 || item.orderNumber || item.ord_no || ''
+          const originalOrderNumber = item.ORGN_ODNO || item.orgn_odno || item.orig_ord_no || item.원주문번호 || ''
           
-          // 주문 타입 판단 (01: 매도, 02: 매수)
+          // 주문 타입 판단 (01: 매도, 02: 매수, 모의투자 io_tp_nm: +매수/-매도)
           let orderType = 'buy'
-          if (sllBuyDvsnCd === '01' || sllBuyDvsnCd === '매도' || sllBuyDvsnCd === 'sell') {
+          if (sllBuyDvsnCd === '01' || String(sllBuyDvsnCd).includes('매도') || sllBuyDvsnCd === 'sell') {
             orderType = 'sell'
           }
           
@@ -2011,6 +2432,11 @@ export class KiwoomService {
           } else if (orderStatus === '부분체결') {
             status = '부분체결'
           }
+
+          // 접수 상태라도 체결 수량이 있으면 체결/부분체결로 판단
+          if ((status === '접수' || status === '미체결') && filledQuantity > 0) {
+            status = filledQuantity >= quantity ? '체결' : '부분체결'
+          }
           
           return {
             id: index + 1,
@@ -2022,8 +2448,11 @@ export class KiwoomService {
             quantity: quantity,
             price: price,
             unfilledQuantity: unfilledQuantity,
+            filledQuantity: filledQuantity,
+            filledPrice: filledPrice,
             status: status,
             orderNumber: orderNumber,
+            originalOrderNumber: originalOrderNumber,
             SLL_BUY_DVSN_CD: sllBuyDvsnCd, // 원본 필드도 유지 (보유 종목 계산 시 사용)
             ORD_QTY: quantity.toString(), // 원본 필드도 유지
             ORD_UNPR: price.toString(), // 원본 필드도 유지
@@ -2060,6 +2489,37 @@ export class KiwoomService {
     }
   }
 
+  /**
+   * 당일 주문 목록 (모의투자)
+   * 미체결요청(ka10075)과 체결요청(ka10076) 응답을 주문번호 기준으로 병합 (미체결 정보가 최신)
+   */
+  private async getTodayOrderRows(options: PaginationOptions = {}): Promise<any[]> {
+    const { data: executions } = await this.requestPaginated('/api/dostk/acnt', 'ka10076', {
+      stk_cd: '', // 종목코드 (전체)
+      qry_tp: '0', // 조회구분 (0: 전체)
+      sell_tp: '0', // 매도수구분 (0: 전체)
+      ord_no: '', // 주문번호 (전체)
+      stex_tp: '0', // 거래소구분 (0: 통합)
+    }, 'POST', options)
+    const { data: openOrders } = await this.requestPaginated('/api/dostk/acnt', 'ka10075', {
+      all_stk_tp: '0', // 전체종목구분 (0: 전체)
+      trde_tp: '0', // 매매구분 (0: 전체)
+      stk_cd: '', // 종목코드 (전체)
+      stex_tp: '0', // 거래소구분 (0: 통합)
+    }, 'POST', options)
+
+    const rows = new Map<string, any>()
+    const merge = (row: any) => {
+      const orderNumber = row.ord_no || ''
+      if (orderNumber) {
+        rows.set(orderNumber, { ...rows.get(orderNumber), ...row })
+      }
+    }
+    ;(Array.isArray(executions.cntr) ? executions.cntr : []).forEach(merge)
+    ;(Array.isArray(openOrders.oso) ? openOrders.oso : []).forEach(merge)
+    return Array.from(rows.values())
+  }
+
   /**
    * 조건식 목록 조회
    * 키움 REST API: 국내주식 > 조건검색 > 조건식 목록 조회
@@ -2215,8 +2675,9 @@ export class KiwoomService {
    * 엔드포인트: /api/dostk/rkinfo (POST)
    * @param trId TR ID (예: ka10020, ka10027, ka10030 등)
    * @param params 조회 파라미터
+   * @param options 연속조회 옵션 (기본: 한 페이지)
    */
-  async getRankingInfo(trId: string, params?: any): Promise<any> {
+  async getRankingInfo(trId: string, params?: any, options: PaginationOptions = {}): Promise<any> {
     try {
       console.log(`=== 순위정보 조회 (${trId}) ===`)
       
@@ -2286,7 +2747,7 @@ export class KiwoomService {
       console.log(`[${trId}] 요청 파라미터:`, JSON.stringify(finalParams, null, 2))
       
       // POST 요청으로 순위정보 조회
-      const response = await this.request(endpoint, trId, finalParams, 'POST')
+      const { data: response } = await this.requestPaginated(endpoint, trId, finalParams, 'POST', options)
       
       console.log(`[${trId}] 순위정보 조회 성공`)
       
@@ -2459,48 +2920,54 @@ export class KiwoomService {
       throw new Error('키움증권 API에 연결되지 않았습니다')
     }
 
-    // WebSocket URL 결정 (모의투자 또는 실전투자)
-    const isMock = this.config.host.includes('mockapi')
-    const socketUrl = isMock
-      ? 'wss://mockapi.kiwoom.com:10000/api/dostk/websocket'
-      : 'wss://api.kiwoom.com:10000/api/dostk/websocket'
+    // WebSocket URL 결정 (로컬 모의 브로커, 모의투자 또는 실전투자)
+    // 로컬 모의 브로커는 REST와 같은 포트에서 WebSocket을 제공함
+    const isMock = this.isMockApi()
+    const socketUrl = this.isLocalMockBroker()
+      ? `${this.config.host.replace(/\/$/, '').replace(/^http/, 'ws')}/api/dostk/websocket`
+      : isMock
+        ? 'wss://mockapi.kiwoom.com:10000/api/dostk/websocket'
+        : 'wss://api.kiwoom.com:10000/api/dostk/websocket'
 
     this.webSocketService = KiwoomWebSocketService.getInstance()
-    await this.webSocketService.connect(socketUrl, this.accessToken.token)
+    if (!this.unsubscribeLogin) {
+      // 로그인(재연결 포함)할 때마다 계좌 실시간 항목 등록
+      this.unsubscribeLogin = this.webSocketService.onLogin(() => this.registerAccountRealTime())
+    }
+    await this.webSocketService.connect(socketUrl, this.accessToken.token, (forceRefresh) => this.getWebSocketToken(forceRefresh))
   }
 
   /**
-   * WebSocket 실시간 시세 등록
+   * WebSocket 재연결에 쓸 접근토큰 (만료되었거나 로그인이 거부되었으면 재발급)
    */
-  registerRealTimeStocks(codes: string[]): void {
-    if (!this.webSocketService || !this.webSocketService.isConnected()) {
-      console.warn('[WebSocket] WebSocket이 연결되지 않았습니다.')
-      return
+  private async getWebSocketToken(forceRefresh: boolean): Promise<string> {
+    if (forceRefresh || !this.accessToken || this.accessToken.expires_at < Date.now()) {
+      await this.getAccessToken()
+    }
+    if (!this.accessToken) {
+      throw new Error('키움증권 API에 연결되지 않았습니다')
     }
+    return this.accessToken.token
+  }
 
-    // WebSocket 실시간 시세 등록 제한: 그룹당 최대 100개
-    // 100개 이상인 경우 여러 그룹으로 나눠서 등록
-    const MAX_ITEMS_PER_GROUP = 100
-    const totalCodes = codes.length
-    
-    if (totalCodes <= MAX_ITEMS_PER_GROUP) {
-      // 100개 이하인 경우 기존 방식대로 등록
-      this.webSocketService.registerRealTime(codes, ['00'], '1', '1')
-    } else {
-      // 100개 초과인 경우 여러 그룹으로 나눠서 등록
-      console.log(`[WebSocket] ${totalCodes}개 종목을 ${MAX_ITEMS_PER_GROUP}개씩 나눠서 등록합니다`)
-      
-      for (let i = 0; i < totalCodes; i += MAX_ITEMS_PER_GROUP) {
-        const groupCodes = codes.slice(i, i + MAX_ITEMS_PER_GROUP)
-        const groupNo = String(Math.floor(i / MAX_ITEMS_PER_GROUP) + 1) // 그룹번호: 1, 2, 3, ...
-        const refresh = i === 0 ? '1' : '0' // 첫 그룹만 refresh='1', 나머지는 '0'
-        
-        // 각 그룹 등록 시 약간의 딜레이 추가 (API 제한 방지)
-        setTimeout(() => {
-          this.webSocketService?.registerRealTime(groupCodes, ['00'], groupNo, refresh)
-        }, i * 100) // 100ms 간격으로 등록
-      }
+  /**
+   * 계좌 실시간 항목 등록 (주문체결 '00', 잔고 '04')
+   * 종목 시세 그룹(1, 2, ..., RealtimeSubscriptionManager가 할당)과 겹치지 않도록 0번 그룹 사용
+   */
+  private registerAccountRealTime(): void {
+    if (!this.webSocketService?.isLoggedIn()) {
+      return
     }
+    this.webSocketService.registerRealTime([''], ACCOUNT_REALTIME_TYPES, ACCOUNT_REALTIME_GROUP, '1')
+    this.accountRealTimeRegistered = true
+    console.log('[WebSocket] 계좌 실시간 등록 (주문체결, 잔고)')
+  }
+
+  /**
+   * 계좌 실시간 이벤트 수신 중인지 (체결을 주문 내역 조회 없이 받을 수 있는지)
+   */
+  isAccountRealTimeActive(): boolean {
+    return this.accountRealTimeRegistered && this.isWebSocketConnected()
   }
 
   /**
@@ -2513,6 +2980,41 @@ export class KiwoomService {
     return this.webSocketService.onRealTimeData(callback)
   }
 
+  /**
+   * 실시간 주문체결 이벤트 구독
+   */
+  onOrderExecution(callback: (event: OrderExecutionEvent) => void): () => void {
+    return this.onRealTimeData((data) => {
+      for (const item of this.getRealTimeItems(data, ORDER_EXECUTION_TYPE)) {
+        const event = parseOrderExecution(item.values)
+        if (event) {
+          callback(event)
+        }
+      }
+    })
+  }
+
+  /**
+   * 실시간 잔고 이벤트 구독
+   */
+  onBalanceChange(callback: (event: BalanceEvent) => void): () => void {
+    return this.onRealTimeData((data) => {
+      for (const item of this.getRealTimeItems(data, BALANCE_TYPE)) {
+        const event = parseBalance(item.values)
+        if (event) {
+          callback(event)
+        }
+      }
+    })
+  }
+
+  private getRealTimeItems(data: any, type: string): Array<{ values: Record<string, string> }> {
+    if (data?.trnm !== 'REAL' || !Array.isArray(data.data)) {
+      return []
+    }
+    return data.data.filter((item: any) => item?.type === type && item.values)
+  }
+
   /**
    * WebSocket 연결 종료
    */
@@ -2520,6 +3022,24 @@ export class KiwoomService {
     if (this.webSocketService) {
       this.webSocketService.disconnect()
     }
+    this.accountRealTimeRegistered = false
+  }
+
+  /**
+   * WebSocket 연결 상태 (재연결 대기 중인지, 다음 재연결 시각 등)
+   */
+  getWebSocketState(): WebSocketConnectionState {
+    return (this.webSocketService || KiwoomWebSocketService.getInstance()).getState()
+  }
+
+  /**
+   * WebSocket 연결 상태 변경 콜백 등록
+   */
+  onWebSocketStateChange(callback: (state: WebSocketConnectionState) => void): () => void {
+    if (!this.webSocketService) {
+      this.webSocketService = KiwoomWebSocketService.getInstance()
+    }
+    return this.webSocketService.onStateChange(callback)
   }
 
   /**
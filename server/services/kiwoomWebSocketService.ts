@@ -4,6 +4,8 @@
  */
 import WebSocket from 'ws'
 
+export const ORDER_BOOK_TYPE = '0D' // 주식호가잔량 (매도/매수 10단계 호가와 잔량)
+
 interface WebSocketConfig {
   socketUrl: string // wss://api.kiwoom.com:10000/api/dostk/websocket 또는 wss://mockapi.kiwoom.com:10000/api/dostk/websocket
   accessToken: string
@@ -21,7 +23,63 @@ interface RealTimeData {
   return_msg?: string
 }
 
+export type WebSocketConnectionStatus = 'disconnected' | 'connecting' | 'connected' | 'reconnecting'
+
+// 연결 상태 (브라우저에 'connection' 이벤트로 전달)
+export interface WebSocketConnectionState {
+  status: WebSocketConnectionStatus
+  attempt: number // 재연결 시도 횟수 (로그인하면 0)
+  nextRetryAt: string | null // 다음 재연결 시각
+  connectedAt: string | null // 마지막 로그인 시각
+  lastMessageAt: string | null // 마지막으로 메시지/pong을 받은 시각
+  lastError: string | null
+}
+
 type RealTimeDataCallback = (data: RealTimeData) => void
+type LoginCallback = () => void
+type ConnectionStateCallback = (state: WebSocketConnectionState) => void
+type TokenProvider = (forceRefresh: boolean) => Promise<string> // 재연결할 때 접근토큰 조회 (forceRefresh면 재발급)
+
+const RECONNECT_BASE_DELAY = 1000 // 재연결 대기 시간 (1초부터 두 배씩)
+const RECONNECT_MAX_DELAY = 60 * 1000
+const RECONNECT_JITTER = 0.3 // 대기 시간의 ±30% (여러 서버가 동시에 재연결하지 않도록)
+const OFF_HOURS_MAX_RECONNECT_ATTEMPTS = 5 // 장 시간 외 재연결 시도 횟수 (장 시간에는 무제한)
+const HEARTBEAT_INTERVAL = 15 * 1000 // ping 전송 주기
+const HEARTBEAT_TIMEOUT = 45 * 1000 // 이 시간 동안 메시지/pong이 없으면 끊긴 연결로 보고 다시 연결
+const MARKET_START_MINUTES = 8 * 60 // 장전 시간외 시작 (08:00)
+const MARKET_END_MINUTES = 18 * 60 // 시간외 단일가 종료 (18:00)
+
+/**
+ * 장 시간 여부 (평일 08:00 ~ 18:00, 서버 시간 기준)
+ */
+export function isMarketHours(date: Date = new Date()): boolean {
+  const day = date.getDay()
+  const minutes = date.getHours() * 60 + date.getMinutes()
+  return day !== 0 && day !== 6 && minutes >= MARKET_START_MINUTES && minutes < MARKET_END_MINUTES
+}
+
+/**
+ * 다음 장 시작 시각 (평일 08:00)
+ */
+function getNextMarketOpen(date: Date): Date {
+  const next = new Date(date)
+  next.setHours(Math.floor(MARKET_START_MINUTES / 60), MARKET_START_MINUTES % 60, 0, 0)
+  if (next <= date) {
+    next.setDate(next.getDate() + 1)
+  }
+  while (next.getDay() === 0 || next.getDay() === 6) {
+    next.setDate(next.getDate() + 1)
+  }
+  return next
+}
+
+/**
+ * 재연결 대기 시간 (지수 백오프 + 지터)
+ */
+function getReconnectDelay(attempt: number): number {
+  const delay = Math.min(RECONNECT_BASE_DELAY * Math.pow(2, attempt - 1), RECONNECT_MAX_DELAY)
+  return Math.round(delay * (1 - RECONNECT_JITTER + Math.random() * RECONNECT_JITTER * 2))
+}
 
 export class KiwoomWebSocketService {
   private static instance: KiwoomWebSocketService
@@ -29,11 +87,24 @@ export class KiwoomWebSocketService {
   private config: WebSocketConfig | null = null
   private connected: boolean = false
   private loggedIn: boolean = false
-  private pingInterval: NodeJS.Timeout | null = null
+  private heartbeatInterval: NodeJS.Timeout | null = null
+  private reconnectTimer: NodeJS.Timeout | null = null
   private reconnectAttempts: number = 0
-  private maxReconnectAttempts: number = 5
-  private reconnectDelay: number = 3000
+  private shouldReconnect: boolean = false // disconnect()로 직접 끊으면 재연결하지 않음
+  private tokenProvider: TokenProvider | null = null
+  private tokenRejected: boolean = false // 재연결 로그인이 거부되어 다음 재연결에서 토큰을 재발급해야 하는지
+  private lastMessageAt: number = 0
+  private state: WebSocketConnectionState = {
+    status: 'disconnected',
+    attempt: 0,
+    nextRetryAt: null,
+    connectedAt: null,
+    lastMessageAt: null,
+    lastError: null,
+  }
   private dataCallbacks: Set<RealTimeDataCallback> = new Set()
+  private loginCallbacks: Set<LoginCallback> = new Set()
+  private stateCallbacks: Set<ConnectionStateCallback> = new Set()
 
   private constructor() {}
 
@@ -46,25 +117,39 @@ export class KiwoomWebSocketService {
 
   /**
    * WebSocket 연결
+   * @param tokenProvider 재연결할 때 최신 접근토큰을 가져오는 함수 (없으면 처음 토큰으로 재연결)
    */
-  async connect(socketUrl: string, accessToken: string): Promise<void> {
+  async connect(socketUrl: string, accessToken: string, tokenProvider?: TokenProvider): Promise<void> {
     if (this.websocket && this.connected) {
       console.log('[WebSocket] 이미 연결되어 있습니다.')
       return
     }
 
     this.config = { socketUrl, accessToken }
+    this.tokenProvider = tokenProvider || null
+    this.shouldReconnect = true
+    this.reconnectAttempts = 0
+    this.clearReconnectTimer()
+    this.setState({ status: 'connecting', attempt: 0, nextRetryAt: null })
+    return this.open()
+  }
+
+  /**
+   * 소켓 생성 및 로그인 (연결되면 resolve, 끊기면 재연결 예약)
+   */
+  private open(): Promise<void> {
+    const { socketUrl, accessToken } = this.config!
 
     return new Promise((resolve, reject) => {
       try {
         console.log(`[WebSocket] 연결 시도: ${socketUrl}`)
-        this.websocket = new WebSocket(socketUrl)
+        const socket = new WebSocket(socketUrl)
+        this.websocket = socket
 
         // 연결 성공
-        this.websocket.on('open', () => {
+        socket.on('open', () => {
           console.log('[WebSocket] 서버와 연결되었습니다.')
           this.connected = true
-          this.reconnectAttempts = 0
 
           // 로그인 패킷 전송
           const loginPacket = {
@@ -75,39 +160,45 @@ export class KiwoomWebSocketService {
           console.log('[WebSocket] 로그인 패킷 전송')
           this.sendMessage(loginPacket)
 
-          // PING 인터벌 시작 (30초마다)
-          this.startPingInterval()
+          // 응답이 없는 연결 감지 시작
+          this.startHeartbeat(socket)
 
           resolve()
         })
 
-        // 에러 발생
-        this.websocket.on('error', (error) => {
-          console.error('[WebSocket] 연결 오류:', error)
-          this.connected = false
-          this.loggedIn = false
+        // 에러 발생 (이어서 close 이벤트가 발생하여 재연결)
+        socket.on('error', (error) => {
+          console.error('[WebSocket] 연결 오류:', error.message)
+          this.setState({ lastError: error.message })
           reject(error)
         })
 
         // 연결 종료
-        this.websocket.on('close', () => {
+        socket.on('close', () => {
+          if (this.websocket !== socket) {
+            return // disconnect() 또는 새 연결로 교체된 소켓
+          }
           console.log('[WebSocket] 연결이 종료되었습니다.')
+          this.websocket = null
           this.connected = false
           this.loggedIn = false
-          this.stopPingInterval()
+          this.stopHeartbeat()
 
           // 자동 재연결 시도
-          if (this.reconnectAttempts < this.maxReconnectAttempts && this.config) {
-            this.reconnectAttempts++
-            console.log(`[WebSocket] 재연결 시도 ${this.reconnectAttempts}/${this.maxReconnectAttempts}...`)
-            setTimeout(() => {
-              this.connect(this.config!.socketUrl, this.config!.accessToken).catch(console.error)
-            }, this.reconnectDelay)
+          if (this.shouldReconnect && this.config) {
+            this.scheduleReconnect()
+          } else {
+            this.setState({ status: 'disconnected', nextRetryAt: null })
           }
         })
 
+        socket.on('pong', () => {
+          this.lastMessageAt = Date.now()
+        })
+
         // 메시지 수신
-        this.websocket.on('message', (data: WebSocket.Data) => {
+        socket.on('message', (data: WebSocket.Data) => {
+          this.lastMessageAt = Date.now()
           try {
             const response: RealTimeData = JSON.parse(data.toString())
 
@@ -121,11 +212,34 @@ export class KiwoomWebSocketService {
             if (response.trnm === 'LOGIN') {
               if (response.return_code !== 0) {
                 console.error('[WebSocket] 로그인 실패:', response.return_msg)
-                this.disconnect()
+                this.setState({ lastError: response.return_msg || '로그인 실패' })
                 reject(new Error(response.return_msg || '로그인 실패'))
+                if (this.reconnectAttempts > 0 && this.tokenProvider) {
+                  // 재연결 중 토큰이 만료된 경우: 토큰을 재발급하여 다시 연결
+                  this.tokenRejected = true
+                  socket.close()
+                } else {
+                  this.disconnect()
+                }
               } else {
                 console.log('[WebSocket] 로그인 성공')
                 this.loggedIn = true
+                this.reconnectAttempts = 0
+                this.setState({
+                  status: 'connected',
+                  attempt: 0,
+                  nextRetryAt: null,
+                  connectedAt: new Date().toISOString(),
+                  lastError: null,
+                })
+                // 계좌 실시간, 구독 중인 종목 재등록
+                this.loginCallbacks.forEach((callback) => {
+                  try {
+                    callback()
+                  } catch (error) {
+                    console.error('[WebSocket] 로그인 콜백 실행 오류:', error)
+                  }
+                })
               }
               return
             }
@@ -166,6 +280,67 @@ export class KiwoomWebSocketService {
     })
   }
 
+  /**
+   * 재연결 예약
+   * 장 시간에는 무제한, 장 시간 외에는 정해진 횟수만 시도하고 이후에는 다음 장 시작 시각에 다시 시도
+   */
+  private scheduleReconnect(): void {
+    this.clearReconnectTimer()
+
+    let delay: number
+    if (!isMarketHours() && this.reconnectAttempts >= OFF_HOURS_MAX_RECONNECT_ATTEMPTS) {
+      const nextOpen = getNextMarketOpen(new Date())
+      delay = nextOpen.getTime() - Date.now()
+      this.reconnectAttempts = 0
+      console.log(`[WebSocket] 장 시간이 아니어서 ${nextOpen.toLocaleString()}에 다시 연결합니다.`)
+    } else {
+      this.reconnectAttempts++
+      delay = getReconnectDelay(this.reconnectAttempts)
+      console.log(`[WebSocket] ${Math.round(delay / 1000)}초 후 재연결 시도 ${this.reconnectAttempts}...`)
+    }
+
+    this.setState({
+      status: 'reconnecting',
+      attempt: this.reconnectAttempts,
+      nextRetryAt: new Date(Date.now() + delay).toISOString(),
+    })
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null
+      this.reconnect()
+    }, delay)
+  }
+
+  /**
+   * 최신 접근토큰으로 다시 연결 (로그인하면 onLogin 콜백에서 실시간 등록 복원)
+   */
+  private async reconnect(): Promise<void> {
+    if (!this.shouldReconnect || !this.config) {
+      return
+    }
+
+    try {
+      if (this.tokenProvider) {
+        this.config.accessToken = await this.tokenProvider(this.tokenRejected)
+        this.tokenRejected = false
+      }
+      await this.open()
+    } catch (error: any) {
+      console.error('[WebSocket] 재연결 실패:', error.message)
+      this.setState({ lastError: error.message })
+      // 토큰 조회에 실패하여 소켓을 만들지 못한 경우 (소켓이 있으면 close 이벤트에서 예약)
+      if (!this.websocket && !this.reconnectTimer && this.shouldReconnect) {
+        this.scheduleReconnect()
+      }
+    }
+  }
+
+  private clearReconnectTimer(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer)
+      this.reconnectTimer = null
+    }
+  }
+
   /**
    * WebSocket 메시지 전송
    */
@@ -215,6 +390,32 @@ export class KiwoomWebSocketService {
     this.sendMessage(registerPacket)
   }
 
+  /**
+   * 실시간 시세 해지
+   * @param items 종목코드 배열
+   * @param types 실시간 항목 타입 배열
+   * @param grpNo 등록할 때 사용한 그룹번호
+   */
+  removeRealTime(items: string[], types: string[], grpNo: string): void {
+    if (!this.loggedIn) {
+      return
+    }
+
+    const removePacket = {
+      trnm: 'REMOVE',
+      grp_no: grpNo,
+      data: [
+        {
+          item: items,
+          type: types,
+        },
+      ],
+    }
+
+    console.log(`[WebSocket] 실시간 시세 해지: ${items.length}개 종목`)
+    this.sendMessage(removePacket)
+  }
+
   /**
    * 실시간 데이터 콜백 등록
    */
@@ -227,23 +428,84 @@ export class KiwoomWebSocketService {
   }
 
   /**
-   * PING 인터벌 시작
+   * 로그인 성공 콜백 등록 (재연결 후 로그인할 때마다 호출)
    */
-  private startPingInterval(): void {
-    this.stopPingInterval()
-    // 30초마다 PING 전송 (키움증권 서버가 PING을 보내면 자동으로 응답)
-    this.pingInterval = setInterval(() => {
-      // 서버가 PING을 보내면 자동으로 응답하므로 여기서는 아무것도 하지 않음
-    }, 30000)
+  onLogin(callback: LoginCallback): () => void {
+    this.loginCallbacks.add(callback)
+    return () => {
+      this.loginCallbacks.delete(callback)
+    }
+  }
+
+  /**
+   * 연결 상태 변경 콜백 등록 (연결, 끊김, 재연결 예약)
+   */
+  onStateChange(callback: ConnectionStateCallback): () => void {
+    this.stateCallbacks.add(callback)
+    return () => {
+      this.stateCallbacks.delete(callback)
+    }
+  }
+
+  /**
+   * 현재 연결 상태
+   */
+  getState(): WebSocketConnectionState {
+    return {
+      ...this.state,
+      lastMessageAt: this.lastMessageAt ? new Date(this.lastMessageAt).toISOString() : null,
+    }
+  }
+
+  private setState(patch: Partial<WebSocketConnectionState>): void {
+    const previous = this.state
+    this.state = { ...this.state, ...patch }
+    if (
+      previous.status === this.state.status &&
+      previous.attempt === this.state.attempt &&
+      previous.nextRetryAt === this.state.nextRetryAt
+    ) {
+      return // 오류 메시지만 바뀐 경우는 알리지 않음
+    }
+
+    const snapshot = this.getState()
+    this.stateCallbacks.forEach((callback) => {
+      try {
+        callback(snapshot)
+      } catch (error) {
+        console.error('[WebSocket] 상태 콜백 실행 오류:', error)
+      }
+    })
+  }
+
+  /**
+   * 하트비트 시작
+   * 주기적으로 WebSocket ping을 보내고, 메시지(서버 PING, 실시간 데이터)나 pong이 한동안 없으면
+   * 끊긴 연결로 보고 소켓을 종료하여 재연결
+   */
+  private startHeartbeat(socket: WebSocket): void {
+    this.stopHeartbeat()
+    this.lastMessageAt = Date.now()
+    this.heartbeatInterval = setInterval(() => {
+      if (Date.now() - this.lastMessageAt > HEARTBEAT_TIMEOUT) {
+        console.warn(`[WebSocket] ${HEARTBEAT_TIMEOUT / 1000}초 동안 응답이 없어 다시 연결합니다.`)
+        this.setState({ lastError: '응답 없음' })
+        socket.terminate()
+        return
+      }
+      if (socket.readyState === WebSocket.OPEN) {
+        socket.ping()
+      }
+    }, HEARTBEAT_INTERVAL)
   }
 
   /**
-   * PING 인터벌 중지
+   * 하트비트 중지
    */
-  private stopPingInterval(): void {
-    if (this.pingInterval) {
-      clearInterval(this.pingInterval)
-      this.pingInterval = null
+  private stopHeartbeat(): void {
+    if (this.heartbeatInterval) {
+      clearInterval(this.heartbeatInterval)
+      this.heartbeatInterval = null
     }
   }
 
@@ -251,14 +513,18 @@ export class KiwoomWebSocketService {
    * WebSocket 연결 종료
    */
   disconnect(): void {
-    this.stopPingInterval()
+    this.shouldReconnect = false
+    this.clearReconnectTimer()
+    this.stopHeartbeat()
     if (this.websocket) {
-      this.websocket.close()
+      const socket = this.websocket
       this.websocket = null
+      socket.close()
     }
     this.connected = false
     this.loggedIn = false
-    this.dataCallbacks.clear()
+    // 실시간 데이터 콜백은 유지 (엔진, 분봉, 호가 서비스가 다시 연결한 뒤에도 계속 수신)
+    this.setState({ status: 'disconnected', attempt: 0, nextRetryAt: null })
     console.log('[WebSocket] 연결 종료')
   }
 
@@ -0,0 +1,62 @@
+/**
+ * 라이선스 플랜
+ * 플랜별로 실전투자 사용 여부, 동시에 켤 수 있는 매수 전략 수, 최대 보유 종목 수를 제한
+ * 제한은 서버에서 확인 (키움 연결, 자동매매 시작, 주문 API)
+ */
+
+export type LicensePlanId = 'mock' | 'standard' | 'pro'
+
+export interface LicensePlan {
+  id: LicensePlanId
+  name: string
+  realTrading: boolean // 실전투자 서버 사용 가능 여부 (false면 모의투자 전용)
+  maxStrategies: number // 동시에 켤 수 있는 매수 전략 수 (0: 제한 없음)
+  maxPositions: number // 최대 동시 보유 종목 수 (0: 제한 없음)
+}
+
+// 플랜 제한 확인 대상 (확인할 항목만 지정)
+export interface PlanUsage {
+  realTrading?: boolean // 실전투자 서버 사용
+  strategies?: number // 켜진 매수 전략 수
+  positions?: number // 최대 동시 보유 종목 수 설정
+}
+
+export const LICENSE_PLANS: LicensePlan[] = [
+  { id: 'mock', name: '모의투자', realTrading: false, maxStrategies: 2, maxPositions: 3 },
+  { id: 'standard', name: '스탠다드', realTrading: true, maxStrategies: 3, maxPositions: 5 },
+  { id: 'pro', name: '프로', realTrading: true, maxStrategies: 0, maxPositions: 0 },
+]
+
+export const DEFAULT_LICENSE_PLAN: LicensePlanId = 'pro' // 플랜 도입 전에 발급한 키는 제한 없음
+
+export function isLicensePlanId(value: unknown): value is LicensePlanId {
+  return LICENSE_PLANS.some(plan => plan.id === value)
+}
+
+/**
+ * 플랜 조회 (알 수 없는 플랜은 가장 제한이 많은 플랜으로 취급)
+ */
+export function getLicensePlan(id: string): LicensePlan {
+  return LICENSE_PLANS.find(plan => plan.id === id) || LICENSE_PLANS[0]
+}
+
+/**
+ * 플랜 제한 확인
+ */
+export function checkPlan(id: string, usage: PlanUsage): { allowed: boolean; message?: string } {
+  const plan = getLicensePlan(id)
+
+  if (usage.realTrading && !plan.realTrading) {
+    return { allowed: false, message: `${plan.name} 플랜은 모의투자만 사용할 수 있습니다` }
+  }
+
+  if (usage.strategies !== undefined && plan.maxStrategies > 0 && usage.strategies > plan.maxStrategies) {
+    return { allowed: false, message: `${plan.name} 플랜은 매수 전략을 ${plan.maxStrategies}개까지 사용할 수 있습니다 (현재 ${usage.strategies}개)` }
+  }
+
+  if (usage.positions !== undefined && plan.maxPositions > 0 && usage.positions > plan.maxPositions) {
+    return { allowed: false, message: `${plan.name} 플랜은 최대 보유 종목 수를 ${plan.maxPositions}개까지 설정할 수 있습니다 (현재 ${usage.positions}개)` }
+  }
+
+  return { allowed: true }
+}
@@ -0,0 +1,157 @@
+/**
+ * 호가 서비스
+ * 종목별 매도/매수 10단계 호가를 WebSocket 실시간 주식호가잔량('0D')으로 갱신하여 메모리에 보관하고,
+ * 실시간 호가가 없거나 오래된 종목은 REST 주식호가 TR로 조회
+ * 실시간 호가 등록은 호가창을 연 구독자가 RealtimeSubscriptionManager로 관리
+ */
+import { KiwoomService } from './kiwoomService'
+import { ORDER_BOOK_TYPE } from './kiwoomWebSocketService'
+
+export interface OrderBookLevel {
+  price: number
+  quantity: number
+}
+
+export interface OrderBook {
+  code: string
+  asks: OrderBookLevel[] // 매도호가 (최우선호가부터)
+  bids: OrderBookLevel[] // 매수호가 (최우선호가부터)
+  totalAskQuantity: number // 매도호가 총잔량
+  totalBidQuantity: number // 매수호가 총잔량
+  time: string // 호가시간 (HHmmss)
+  source: 'realtime' | 'rest'
+  updatedAt: string
+}
+
+type OrderBookCallback = (book: OrderBook) => void
+
+export const ORDER_BOOK_DEPTH = 10
+const STALE_MS = 10 * 1000 // 실시간 호가가 이 시간 동안 없으면 REST로 다시 조회
+
+function parseNumber(value: any): number {
+  return Math.abs(parseFloat(String(value ?? '0').replace(/[,+\-\s]/g, ''))) || 0
+}
+
+/**
+ * 주식호가잔량 FID
+ * 21: 호가시간, 41~50: 매도호가1~10, 51~60: 매수호가1~10, 61~70: 매도호가수량1~10, 71~80: 매수호가수량1~10,
+ * 121: 매도호가총잔량, 125: 매수호가총잔량
+ */
+export function parseOrderBookValues(code: string, values: Record<string, string>): OrderBook {
+  const asks: OrderBookLevel[] = []
+  const bids: OrderBookLevel[] = []
+  for (let i = 0; i < ORDER_BOOK_DEPTH; i++) {
+    const askPrice = parseNumber(values[String(41 + i)])
+    const bidPrice = parseNumber(values[String(51 + i)])
+    if (askPrice > 0) {
+      asks.push({ price: askPrice, quantity: parseNumber(values[String(61 + i)]) })
+    }
+    if (bidPrice > 0) {
+      bids.push({ price: bidPrice, quantity: parseNumber(values[String(71 + i)]) })
+    }
+  }
+
+  return {
+    code,
+    asks,
+    bids,
+    totalAskQuantity: parseNumber(values['121']) || asks.reduce((sum, level) => sum + level.quantity, 0),
+    totalBidQuantity: parseNumber(values['125']) || bids.reduce((sum, level) => sum + level.quantity, 0),
+    time: String(values['21'] || '').trim(),
+    source: 'realtime',
+    updatedAt: new Date().toISOString(),
+  }
+}
+
+export class OrderBookService {
+  private static instance: OrderBookService
+  private kiwoomService = KiwoomService.getInstance()
+  private books: Map<string, OrderBook> = new Map()
+  private pending: Map<string, Promise<OrderBook>> = new Map() // 진행 중인 REST 조회 (같은 종목 중복 조회 방지)
+  private updateCallbacks: Set<OrderBookCallback> = new Set()
+
+  private constructor() {
+    this.kiwoomService.onRealTimeData((data) => this.handleRealTimeData(data))
+  }
+
+  static getInstance(): OrderBookService {
+    if (!OrderBookService.instance) {
+      OrderBookService.instance = new OrderBookService()
+    }
+    return OrderBookService.instance
+  }
+
+  /**
+   * 호가 조회
+   * 실시간 호가가 최근에 들어왔으면 메모리에서, 아니면 REST 주식호가 TR로 조회
+   */
+  async getOrderBook(code: string): Promise<OrderBook> {
+    const book = this.books.get(code)
+    if (book && Date.now() - new Date(book.updatedAt).getTime() < STALE_MS) {
+      return this.copy(book)
+    }
+
+    let request = this.pending.get(code)
+    if (!request) {
+      request = this.fetch(code).finally(() => this.pending.delete(code))
+      this.pending.set(code, request)
+    }
+    return this.copy(await request)
+  }
+
+  /**
+   * 호가 변경 구독 (실시간 호가 수신, REST 조회 모두)
+   */
+  onUpdate(callback: OrderBookCallback): () => void {
+    this.updateCallbacks.add(callback)
+    return () => {
+      this.updateCallbacks.delete(callback)
+    }
+  }
+
+  private async fetch(code: string): Promise<OrderBook> {
+    const result = await this.kiwoomService.getOrderBook(code)
+    const book: OrderBook = { ...result, code, source: 'rest', updatedAt: new Date().toISOString() }
+
+    // 조회 중에 실시간 호가가 들어왔으면 실시간 호가를 유지
+    const current = this.books.get(code)
+    if (current && current.source === 'realtime' && Date.now() - new Date(current.updatedAt).getTime() < STALE_MS) {
+      return current
+    }
+    this.update(book)
+    return book
+  }
+
+  private handleRealTimeData(data: any): void {
+    if (data?.trnm !== 'REAL' || !Array.isArray(data.data)) {
+      return
+    }
+
+    for (const item of data.data) {
+      if (item?.type !== ORDER_BOOK_TYPE || !item.values || !item.item) {
+        continue
+      }
+      this.update(parseOrderBookValues(String(item.item).replace(/^A/, ''), item.values))
+    }
+  }
+
+  private update(book: OrderBook): void {
+    this.books.set(book.code, book)
+    const snapshot = this.copy(book)
+    this.updateCallbacks.forEach((callback) => {
+      try {
+        callback(snapshot)
+      } catch (error) {
+        console.error('[호가] 콜백 실행 오류:', error)
+      }
+    })
+  }
+
+  private copy(book: OrderBook): OrderBook {
+    return {
+      ...book,
+      asks: book.asks.map(level => ({ ...level })),
+      bids: book.bids.map(level => ({ ...level })),
+    }
+  }
+}
@@ -0,0 +1,860 @@
+/**
+ * 주문 관리 서비스
+ * 주문을 submitted → accepted → partially_filled → filled / cancelled / rejected 상태로 추적하는 서비스 클래스
+ * 취소/정정 요청은 체결 이벤트나 주문 내역으로 확인될 때까지 pending_cancel (진행 중) 상태로 두고 늦게 도착한 체결도 반영
+ * 주문 내역 조회(폴링)와 실시간 체결 이벤트를 모두 반영하여 중복 주문과 체결 누락을 한 곳에서 처리
+ */
+import { KiwoomService, FULL_PAGINATION } from './kiwoomService'
+import type { OrderExecutionEvent } from './accountRealtime'
+import { RiskGuard } from './riskGuard'
+import { TradingRepository, getTradeDate } from './tradingRepository'
+import { PnlLedger } from './pnlLedger'
+
+export type OrderStatus = 'submitted' | 'accepted' | 'partially_filled' | 'pending_cancel' | 'filled' | 'cancelled' | 'rejected'
+export type OrderSide = 'buy' | 'sell'
+
+// 주문 상태 변경 이력
+export interface OrderStatusChange {
+  status: OrderStatus
+  at: string
+  reason: string
+}
+
+// 서버에서 추적하는 주문
+export interface ManagedOrder {
+  id: string // 서버 내부 주문 ID (주문번호 발급 전에도 추적)
+  accountNo: string
+  orderNumber: string
+  originalOrderNumber: string // 정정 주문의 원주문번호
+  code: string
+  name: string
+  side: OrderSide
+  orderOption: string // 00: 지정가, 03: 시장가
+  quantity: number
+  price: number
+  filledQuantity: number
+  filledAmount: number
+  averageFillPrice: number
+  cancelledQuantity: number // 취소/정정이 확인된 수량
+  pendingCancelQuantity: number // 취소/정정을 요청했지만 아직 확인되지 않은 수량
+  status: OrderStatus
+  source: 'engine' | 'manual' | 'external' // external: 다른 곳에서 낸 주문 (주문 내역/체결 이벤트로 발견)
+  strategy: string | null // 자동매매 엔진의 매수 전략 (전략별 실현손익 집계용)
+  message: string
+  createdAt: string
+  updatedAt: string
+  history: OrderStatusChange[]
+}
+
+export interface SubmitOrderRequest {
+  code: string
+  name?: string
+  quantity: number
+  price: number
+  order_type: OrderSide
+  order_option: string
+  source?: 'engine' | 'manual'
+  strategy?: string | null
+}
+
+export interface OrderFilter {
+  status?: OrderStatus
+  code?: string
+  side?: OrderSide
+  active?: boolean
+}
+
+type OrderUpdateCallback = (order: ManagedOrder) => void
+
+// 상태 전이 규칙 (filled, cancelled, rejected는 종료 상태, 취소 확인 후 늦게 도착한 체결로 전량 체결될 수 있음)
+const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  submitted: ['accepted', 'partially_filled', 'pending_cancel', 'filled', 'cancelled', 'rejected'],
+  accepted: ['partially_filled', 'pending_cancel', 'filled', 'cancelled', 'rejected'],
+  partially_filled: ['partially_filled', 'pending_cancel', 'filled', 'cancelled'],
+  pending_cancel: ['accepted', 'partially_filled', 'filled', 'cancelled'],
+  filled: [],
+  cancelled: ['filled'],
+  rejected: [],
+}
+
+const ACTIVE_STATUSES: OrderStatus[] = ['submitted', 'accepted', 'partially_filled', 'pending_cancel']
+const MAX_ORDERS = 500 // 보관할 최대 주문 개수 (종료된 주문부터 정리)
+const REALTIME_SYNC_INTERVAL = 60 * 1000 // 계좌 실시간 체결을 받는 중일 때 주문 내역 동기화 간격 (ms)
+
+export class OrderManager {
+  private static instance: OrderManager
+  private kiwoomService = KiwoomService.getInstance()
+  private riskGuard = RiskGuard.getInstance()
+  private tradingRepository = TradingRepository.getInstance()
+  private pnlLedger = PnlLedger.getInstance()
+  private orders: Map<string, ManagedOrder> = new Map() // id -> 주문
+  private orderIdsByNumber: Map<string, string> = new Map() // 주문번호 -> id
+  private executionNumbers: Set<string> = new Set() // 반영한 당일 체결번호 (실시간 이벤트 중복 방지)
+  private quantityKeys: Map<string, string> = new Map() // id -> 마지막으로 반영한 체결/취소 수량
+  private earlyExecutions: Map<string, OrderExecutionEvent[]> = new Map() // 주문번호 -> 주문 응답보다 먼저 도착한 실시간 체결
+  private revisionOrders: Map<string, string> = new Map() // 확인 대기 중인 취소/정정 주문번호 -> 원주문 id
+  private settledRevisions: Set<string> = new Set() // 확인(또는 거부)을 반영한 당일 취소/정정 주문번호
+  private evictedOrderNumbers: Set<string> = new Set() // 보관 개수 초과로 정리한 당일 주문번호 (외부 주문으로 다시 추적하지 않도록)
+  private tradeDate: string = getTradeDate() // 체결번호·정리한 주문번호·확인한 취소/정정 주문번호를 모은 거래일
+  private updateCallbacks: Set<OrderUpdateCallback> = new Set()
+  private orderSeq: number = 0
+  private syncInProgress: boolean = false
+  private lastSyncAt: number = 0
+
+  private constructor() {
+    this.kiwoomService.onOrderExecution((event) => this.applyExecutionEvent(event))
+    this.onOrderUpdate((order) => this.riskGuard.recordOrderUpdate(order))
+    this.onOrderUpdate((order) => this.tradingRepository.recordOrder(order, this.pnlLedger.getSettings()))
+  }
+
+  static getInstance(): OrderManager {
+    if (!OrderManager.instance) {
+      OrderManager.instance = new OrderManager()
+    }
+    return OrderManager.instance
+  }
+
+  /**
+   * 주문 전송
+   * 같은 종목·같은 방향의 진행 중인 주문이 있으면 중복 주문으로 거부
+   * 전송 전에 RiskGuard 한도 점검 (위반 시 rejected 상태로 기록 후 isRiskRejected 에러)
+   */
+  async submit(
+    request: SubmitOrderRequest,
+    accountNo?: string,
+    accountProductCode?: string
+  ): Promise<{ order: ManagedOrder; result: any }> {
+    const code = String(request.code || '').trim()
+    const duplicate = this.findActiveOrder(code, request.order_type)
+    if (duplicate) {
+      const error = new Error(`이미 처리 중인 ${request.order_type === 'buy' ? '매수' : '매도'} 주문이 있습니다 (${duplicate.orderNumber || '주문번호 대기'})`)
+      ;(error as any).isDuplicateOrder = true
+      ;(error as any).orderNumber = duplicate.orderNumber
+      throw error
+    }
+
+    const now = new Date().toISOString()
+    const order: ManagedOrder = {
+      id: `ORD-${Date.now()}-${++this.orderSeq}`,
+      accountNo: accountNo || '',
+      orderNumber: '',
+      originalOrderNumber: '',
+      code,
+      name: request.name || code,
+      side: request.order_type,
+      orderOption: request.order_option,
+      quantity: request.quantity,
+      price: request.order_option === '00' ? request.price : 0,
+      filledQuantity: 0,
+      filledAmount: 0,
+      averageFillPrice: 0,
+      cancelledQuantity: 0,
+      pendingCancelQuantity: 0,
+      status: 'submitted',
+      source: request.source || 'manual',
+      strategy: request.strategy || null,
+      message: '',
+      createdAt: now,
+      updatedAt: now,
+      history: [{ status: 'submitted', at: now, reason: '주문 전송' }],
+    }
+    this.addOrder(order)
+    this.emit(order)
+
+    try {
+      await this.riskGuard.check({
+        code,
+        side: request.order_type,
+        quantity: request.quantity,
+        price: request.price,
+        orderOption: request.order_option,
+        accountNo,
+        accountProductCode,
+        activeBuyCodes: this.getOrders({ side: 'buy', active: true })
+          .filter(active => active.id !== order.id)
+          .map(active => active.code),
+      })
+
+      const result = await this.kiwoomService.placeOrder(
+        {
+          code,
+          quantity: request.quantity,
+          price: request.price,
+          order_type: request.order_type,
+          order_option: request.order_option,
+        },
+        accountNo,
+        accountProductCode
+      )
+
+      if (result?.orderNumber) {
+        this.setOrderNumber(order, result.orderNumber)
+      }
+      order.message = result?.message || ''
+      this.transition(order, 'accepted', '주문 접수')
+      this.riskGuard.recordOrder(code, order.side)
+      this.flushEarlyExecutions(code, order.side)
+      return { order: this.copy(order), result }
+    } catch (error: any) {
+      order.message = error.message || '주문 전송 실패'
+      this.transition(order, 'rejected', order.message)
+      this.flushEarlyExecutions(code, order.side)
+      throw error
+    }
+  }
+
+  /**
+   * 주문 취소 (quantity 0이면 미체결 잔량 전부)
+   * 취소 수량은 확인될 때까지 pending_cancel로 두고, 그 사이 체결도 계속 반영
+   * 알 수 없는 주문번호도 code가 있으면 취소 요청 후 다음 동기화에서 반영
+   */
+  async cancel(
+    orderNumber: string,
+    request: { code?: string; quantity?: number },
+    accountNo?: string,
+    accountProductCode?: string
+  ): Promise<{ order: ManagedOrder | null; result: any }> {
+    const order = this.findByOrderNumber(orderNumber)
+    const requestedQuantity = order ? this.requestCancel(order, request.quantity) : 0
+
+    let result: any
+    try {
+      result = await this.kiwoomService.cancelOrder(
+        { orderNumber, code: order?.code || request.code || '', quantity: request.quantity || 0 },
+        accountNo,
+        accountProductCode
+      )
+    } catch (error) {
+      if (order) {
+        this.releaseCancel(order, requestedQuantity, '취소 요청 실패')
+      }
+      throw error
+    }
+
+    if (!order) {
+      return { order: null, result }
+    }
+
+    this.acceptRevision(order, requestedQuantity, result, `${requestedQuantity}주 취소 요청`)
+    return { order: this.copy(order), result }
+  }
+
+  /**
+   * 주문 정정 (quantity 0이면 미체결 잔량 전부)
+   * 정정된 수량은 원주문에서 빠지고, 새 주문번호로 원주문번호와 연결된 주문이 생성됨
+   */
+  async modify(
+    orderNumber: string,
+    request: { code?: string; quantity?: number; price: number },
+    accountNo?: string,
+    accountProductCode?: string
+  ): Promise<{ order: ManagedOrder | null; originalOrder: ManagedOrder | null; result: any }> {
+    const original = this.findByOrderNumber(orderNumber)
+    if (original && (!this.isActive(original) || this.getCancellableQuantity(original) <= 0)) {
+      throw this.createClosedOrderError(original)
+    }
+
+    await this.riskGuard.checkRevision({
+      code: original?.code || request.code || '',
+      side: original?.side || 'buy',
+      quantity: request.quantity || (original ? this.getCancellableQuantity(original) : 0),
+      price: request.price,
+      orderOption: '00',
+      accountNo,
+      accountProductCode,
+    })
+
+    const requestedQuantity = original ? this.requestCancel(original, request.quantity) : 0
+    let result: any
+    try {
+      result = await this.kiwoomService.modifyOrder(
+        {
+          orderNumber,
+          code: original?.code || request.code || '',
+          quantity: request.quantity || 0,
+          price: request.price,
+        },
+        accountNo,
+        accountProductCode
+      )
+    } catch (error) {
+      if (original) {
+        this.releaseCancel(original, requestedQuantity, '정정 요청 실패')
+      }
+      throw error
+    }
+
+    if (!original) {
+      return { order: null, originalOrder: null, result }
+    }
+
+    const modifiedQuantity = this.acceptRevision(
+      original,
+      requestedQuantity,
+      result,
+      `${requestedQuantity}주 정정 요청 (새 주문번호: ${result?.orderNumber || '-'})`
+    )
+
+    const now = new Date().toISOString()
+    const modified: ManagedOrder = {
+      ...original,
+      id: `ORD-${Date.now()}-${++this.orderSeq}`,
+      orderNumber: '',
+      originalOrderNumber: original.orderNumber,
+      orderOption: '00',
+      quantity: modifiedQuantity,
+      price: Math.floor(request.price),
+      filledQuantity: 0,
+      filledAmount: 0,
+      averageFillPrice: 0,
+      cancelledQuantity: 0,
+      pendingCancelQuantity: 0,
+      status: 'accepted',
+      message: result?.message || '',
+      createdAt: now,
+      updatedAt: now,
+      history: [{ status: 'accepted', at: now, reason: `정정 주문 접수 (원주문번호: ${original.orderNumber})` }],
+    }
+    this.addOrder(modified)
+    if (result?.orderNumber) {
+      this.setOrderNumber(modified, result.orderNumber)
+    }
+    this.emit(modified)
+
+    return { order: this.copy(modified), originalOrder: this.copy(original), result }
+  }
+
+  /**
+   * 주문 내역 조회 결과로 주문 상태 동기화 (체결 누락 보정)
+   * 당일(진행 중인 주문이 그보다 오래되었으면 가장 오래된 주문의 거래일)부터 조회
+   */
+  async sync(accountNo: string): Promise<void> {
+    if (this.syncInProgress || !this.kiwoomService.isConnected()) {
+      return
+    }
+
+    this.syncInProgress = true
+    try {
+      const startDate = this.getSyncStartDate(accountNo).replace(/-/g, '')
+      const history = await this.kiwoomService.getOrderHistory(accountNo || '', FULL_PAGINATION, startDate)
+      this.reconcile(history, accountNo)
+      this.lastSyncAt = Date.now()
+    } finally {
+      this.syncInProgress = false
+    }
+  }
+
+  /**
+   * 필요할 때만 주문 내역 동기화
+   * 계좌 실시간 체결을 받는 중이면 체결 누락 보정용으로 1분마다, 아니면 매번 동기화
+   */
+  async syncIfStale(accountNo: string): Promise<void> {
+    if (this.kiwoomService.isAccountRealTimeActive() && Date.now() - this.lastSyncAt < REALTIME_SYNC_INTERVAL) {
+      return
+    }
+    await this.sync(accountNo)
+  }
+
+  /**
+   * 주문 내역(KiwoomService.getOrderHistory 결과) 반영
+   * 추적하지 않는 주문은 당일 주문만 외부 주문으로 추가 (지난 거래일 주문, 정리한 주문, 요청한 취소/정정 주문은 무시)
+   * 요청한 취소/정정 주문이 내역에 있거나 원주문의 미체결수량이 줄었으면 취소/정정 확인으로 반영
+   */
+  reconcile(historyOrders: any[], accountNo: string = ''): void {
+    const today = getTradeDate()
+    for (const row of historyOrders || []) {
+      const orderNumber = String(row.orderNumber || '').trim()
+      const quantity = Number(row.quantity) || 0
+      if (!orderNumber || quantity <= 0) {
+        continue
+      }
+
+      let order = this.findByOrderNumber(orderNumber)
+      const revisionTarget = this.findRevisionTarget(orderNumber, row.originalOrderNumber, order)
+      if (revisionTarget) {
+        this.settleRevision(orderNumber, revisionTarget, quantity, true, '주문 내역 동기화 (취소/정정 확인)')
+      }
+      if (!order) {
+        if (parseOrderDate(row.date) !== today || this.isEvicted(orderNumber) || this.isRevision(orderNumber)) {
+          continue
+        }
+        order = this.adoptOrder({
+          accountNo,
+          orderNumber,
+          originalOrderNumber: row.originalOrderNumber || '',
+          code: row.stockCode,
+          name: row.stockName,
+          side: row.type === 'sell' ? 'sell' : 'buy',
+          quantity,
+          price: Number(row.price) || 0,
+        })
+      }
+      if (!this.isActive(order) && order.status !== 'cancelled') {
+        continue
+      }
+
+      // 체결 수량: 응답의 체결수량, 없으면 체결 상태일 때 주문수량 - 미체결수량 (취소된 주문은 늦게 확인된 체결만 반영)
+      const unfilledQuantity = Number(row.unfilledQuantity) || 0
+      let filledQuantity = Number(row.filledQuantity) || 0
+      if (filledQuantity === 0 && (row.status === '체결' || row.status === '부분체결')) {
+        filledQuantity = Math.max(0, quantity - unfilledQuantity)
+      }
+      this.applyCumulativeFill(order, filledQuantity, 0, Number(row.filledPrice) || order.averageFillPrice || order.price)
+
+      if (row.status === '취소' && order.status !== 'cancelled') {
+        order.cancelledQuantity = Math.max(order.cancelledQuantity, order.quantity - order.filledQuantity)
+        order.pendingCancelQuantity = 0
+      } else if (order.pendingCancelQuantity > 0 && unfilledQuantity > 0) {
+        // 미체결수량이 줄어든 만큼은 증권사에서 취소/정정된 수량
+        const brokerCancelled = order.quantity - order.filledQuantity - unfilledQuantity
+        this.confirmCancel(order, brokerCancelled - order.cancelledQuantity)
+      }
+
+      this.applyQuantities(order, '주문 내역 동기화')
+    }
+  }
+
+  /**
+   * 주문 목록 조회 (최신 주문 먼저)
+   */
+  getOrders(filter: OrderFilter = {}): ManagedOrder[] {
+    return Array.from(this.orders.values())
+      .filter(order => !filter.status || order.status === filter.status)
+      .filter(order => !filter.code || order.code === filter.code)
+      .filter(order => !filter.side || order.side === filter.side)
+      .filter(order => filter.active === undefined || this.isActive(order) === filter.active)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .map(order => this.copy(order))
+  }
+
+  /**
+   * 주문 조회 (주문번호 또는 내부 주문 ID)
+   */
+  getOrder(orderNumberOrId: string): ManagedOrder | null {
+    const order = this.findByOrderNumber(orderNumberOrId) || this.orders.get(orderNumberOrId)
+    return order ? this.copy(order) : null
+  }
+
+  /**
+   * 진행 중(submitted/accepted/partially_filled, 취소 요청하지 않은 잔량이 있는 pending_cancel)인 주문 여부
+   */
+  hasActiveOrder(code: string, side?: OrderSide): boolean {
+    return this.findActiveOrder(code, side) !== null
+  }
+
+  /**
+   * 주문 상태 변경 구독
+   */
+  onOrderUpdate(callback: OrderUpdateCallback): () => void {
+    this.updateCallbacks.add(callback)
+    return () => {
+      this.updateCallbacks.delete(callback)
+    }
+  }
+
+  /**
+   * 실시간 주문체결 이벤트 반영
+   * 같은 종목·방향의 주문이 아직 주문번호를 받기 전이면 주문 응답 후에 반영 (외부 주문으로 중복 추적하지 않도록)
+   * 요청한 취소/정정 주문의 확인(거부) 이벤트는 원주문의 취소 대기 수량에 반영
+   */
+  private applyExecutionEvent(event: OrderExecutionEvent): void {
+    const { orderNumber, orderQuantity, remainingQuantity: unfilledQuantity, status: state } = event
+    this.rollTradeDate()
+
+    let order = this.findByOrderNumber(orderNumber)
+    const revisionTarget = this.findRevisionTarget(orderNumber, event.originalOrderNumber, order)
+    if (revisionTarget && (state === '확인' || state === '거부')) {
+      this.settleRevision(orderNumber, revisionTarget, orderQuantity, state === '확인', `실시간 취소/정정 ${state}`)
+    }
+    if (!order && (revisionTarget || this.isRevision(orderNumber))) {
+      return
+    }
+    if (!order && this.hasUnnumberedOrder(event.code, event.side)) {
+      const events = this.earlyExecutions.get(orderNumber) || []
+      events.push(event)
+      this.earlyExecutions.set(orderNumber, events)
+      return
+    }
+    if (!order && this.isEvicted(orderNumber)) {
+      return
+    }
+    if (!order) {
+      order = this.adoptOrder({
+        accountNo: event.accountNo,
+        orderNumber,
+        originalOrderNumber: event.originalOrderNumber,
+        code: event.code,
+        name: event.name,
+        side: event.side,
+        quantity: orderQuantity,
+        price: event.orderPrice,
+      })
+    }
+    const cancelled = order.status === 'cancelled' // 취소 확인 후 늦게 도착한 체결
+    if (!this.isActive(order) && !cancelled) {
+      return
+    }
+
+    if (state === '거부' && !cancelled) {
+      this.transition(order, 'rejected', '주문 거부 (실시간)')
+      return
+    }
+
+    // 누계(주문수량 - 미체결수량, 체결누계금액) 기준으로 반영 (주문 내역 동기화로 이미 반영한 체결은 다시 더하지 않음)
+    // 주문수량이 없거나 취소 수량이 확정되지 않은 이벤트(취소 대기, 취소된 주문)는 이번 체결량을 체결번호 기준으로 한 번 더함
+    const { executionNumber: executionNo, fillQuantity, fillPrice } = event
+    if (state === '체결' && orderQuantity > 0 && order.pendingCancelQuantity === 0 && !cancelled) {
+      if (executionNo) {
+        this.executionNumbers.add(executionNo)
+      }
+      const filledByRemaining = orderQuantity - unfilledQuantity - order.cancelledQuantity
+      this.applyCumulativeFill(order, filledByRemaining, event.filledAmount, fillPrice || order.price)
+    } else if (state === '체결' && fillQuantity > 0 && (!executionNo || !this.executionNumbers.has(executionNo))) {
+      if (executionNo) {
+        this.executionNumbers.add(executionNo)
+      }
+      this.applyCumulativeFill(order, order.filledQuantity + fillQuantity, 0, fillPrice)
+    }
+
+    this.applyQuantities(order, `실시간 ${state || '주문체결'}`)
+  }
+
+  /**
+   * 누계 체결 수량 반영 (주문수량을 넘지 않고, 이미 반영한 수량보다 적으면 무시)
+   * 누계 체결금액을 모르면(0) 늘어난 수량만큼 체결가로 더함
+   * 취소 요청/확인 수량과 겹치는 늦은 체결은 취소 수량에서 뺌
+   */
+  private applyCumulativeFill(order: ManagedOrder, filledQuantity: number, filledAmount: number, fillPrice: number): void {
+    const quantity = Math.min(order.quantity, filledQuantity)
+    if (quantity <= order.filledQuantity) {
+      return
+    }
+    order.filledAmount = filledAmount > 0 && filledQuantity <= order.quantity
+      ? filledAmount
+      : order.filledAmount + (quantity - order.filledQuantity) * fillPrice
+    order.filledQuantity = quantity
+    order.cancelledQuantity = Math.min(order.cancelledQuantity, order.quantity - quantity)
+    order.pendingCancelQuantity = Math.min(order.pendingCancelQuantity, this.getRemainingQuantity(order))
+  }
+
+  /**
+   * 취소/정정 요청 전 취소 대기 수량 기록 (확인 이벤트가 주문 응답보다 먼저 와도 반영되도록)
+   * 이미 잔량 전부를 취소/정정 요청한 주문이면 isClosedOrder 에러
+   */
+  private requestCancel(order: ManagedOrder, quantity?: number): number {
+    const cancellable = this.getCancellableQuantity(order)
+    if (!this.isActive(order) || cancellable <= 0) {
+      throw this.createClosedOrderError(order)
+    }
+    const requestedQuantity = quantity && quantity > 0 ? Math.min(quantity, cancellable) : cancellable
+    order.pendingCancelQuantity += requestedQuantity
+    return requestedQuantity
+  }
+
+  /**
+   * 취소/정정 요청 접수 반영 (접수된 수량이 요청보다 적으면 차이만큼 취소 대기 해제, 접수된 수량 반환)
+   */
+  private acceptRevision(order: ManagedOrder, requestedQuantity: number, result: any, reason: string): number {
+    const acceptedQuantity = result?.quantity > 0 ? Math.min(result.quantity, requestedQuantity) : requestedQuantity
+    order.pendingCancelQuantity = Math.max(0, order.pendingCancelQuantity - (requestedQuantity - acceptedQuantity))
+
+    const revisionNumber = String(result?.orderNumber || '').trim()
+    if (revisionNumber && !this.settledRevisions.has(revisionNumber)) {
+      this.revisionOrders.set(revisionNumber, order.id)
+    }
+    this.applyQuantities(order, reason)
+    return acceptedQuantity
+  }
+
+  /**
+   * 취소/정정 확인 또는 거부 반영 (같은 취소/정정 주문은 한 번만)
+   */
+  private settleRevision(revisionNumber: string, order: ManagedOrder, quantity: number, confirmed: boolean, reason: string): void {
+    this.revisionOrders.delete(revisionNumber)
+    this.settledRevisions.add(revisionNumber)
+    if (confirmed) {
+      this.confirmCancel(order, quantity)
+      this.applyQuantities(order, reason)
+    } else {
+      this.releaseCancel(order, quantity, reason)
+    }
+  }
+
+  /**
+   * 확인된 취소 수량 반영 (취소 대기 수량과 남은 수량을 넘지 않음)
+   */
+  private confirmCancel(order: ManagedOrder, quantity: number): void {
+    const confirmedQuantity = Math.min(quantity, order.pendingCancelQuantity, this.getRemainingQuantity(order))
+    if (confirmedQuantity <= 0) {
+      return
+    }
+    order.cancelledQuantity += confirmedQuantity
+    order.pendingCancelQuantity -= confirmedQuantity
+  }
+
+  private releaseCancel(order: ManagedOrder, quantity: number, reason: string): void {
+    order.pendingCancelQuantity = Math.max(0, order.pendingCancelQuantity - quantity)
+    this.applyQuantities(order, reason)
+  }
+
+  /**
+   * 취소/정정 주문번호의 원주문 (요청한 취소/정정이거나, 원주문번호가 취소 대기 중인 다른 주문)
+   */
+  private findRevisionTarget(orderNumber: string, originalOrderNumber: string, order: ManagedOrder | null): ManagedOrder | null {
+    if (this.settledRevisions.has(orderNumber)) {
+      return null
+    }
+    const id = this.revisionOrders.get(orderNumber)
+    if (id) {
+      return this.orders.get(id) || null
+    }
+    const original = originalOrderNumber ? this.findByOrderNumber(originalOrderNumber) : null
+    return original && original !== order && original.pendingCancelQuantity > 0 ? original : null
+  }
+
+  private isRevision(orderNumber: string): boolean {
+    return this.revisionOrders.has(orderNumber) || this.settledRevisions.has(orderNumber)
+  }
+
+  /**
+   * 체결/취소/취소 대기 수량으로 상태 결정 (수량 변화가 없으면 무시)
+   */
+  private applyQuantities(order: ManagedOrder, reason: string): void {
+    const quantityKey = `${order.filledQuantity}/${order.cancelledQuantity}/${order.pendingCancelQuantity}`
+    const changed = this.quantityKeys.get(order.id) !== quantityKey
+    this.quantityKeys.set(order.id, quantityKey)
+    order.averageFillPrice = order.filledQuantity > 0 ? Math.round(order.filledAmount / order.filledQuantity) : 0
+
+    let next: OrderStatus = order.status
+    if (order.filledQuantity >= order.quantity) {
+      next = 'filled'
+    } else if (this.getRemainingQuantity(order) <= 0) {
+      next = 'cancelled'
+    } else if (order.pendingCancelQuantity > 0) {
+      next = 'pending_cancel'
+    } else if (order.filledQuantity > 0) {
+      next = 'partially_filled'
+    } else if (order.status === 'pending_cancel') {
+      next = 'accepted'
+    }
+
+    if (next !== order.status || (changed && next === 'partially_filled')) {
+      this.transition(order, next, reason)
+    } else if (changed) {
+      order.updatedAt = new Date().toISOString()
+      this.emit(order)
+    }
+  }
+
+  private transition(order: ManagedOrder, status: OrderStatus, reason: string): void {
+    if (!ORDER_TRANSITIONS[order.status].includes(status)) {
+      console.warn(`[주문 관리] 허용되지 않는 상태 변경 무시: ${order.orderNumber || order.id} ${order.status} → ${status}`)
+      return
+    }
+
+    const now = new Date().toISOString()
+    order.history.push({ status, at: now, reason })
+    order.status = status
+    order.updatedAt = now
+    this.emit(order)
+  }
+
+  /**
+   * 다른 곳에서 낸 주문을 추적 대상으로 추가
+   * ID는 거래일·계좌번호·주문번호로 정해 재시작 후 다시 발견해도 같은 주문으로 기록
+   */
+  private adoptOrder(info: {
+    accountNo: string
+    orderNumber: string
+    originalOrderNumber: string
+    code: string
+    name: string
+    side: OrderSide
+    quantity: number
+    price: number
+  }): ManagedOrder {
+    const now = new Date().toISOString()
+    const order: ManagedOrder = {
+      id: `EXT-${getTradeDate().replace(/-/g, '')}-${info.accountNo || '-'}-${info.orderNumber}`,
+      accountNo: info.accountNo,
+      orderNumber: '',
+      originalOrderNumber: info.originalOrderNumber,
+      code: info.code,
+      name: info.name || info.code,
+      side: info.side,
+      orderOption: info.price > 0 ? '00' : '03',
+      quantity: info.quantity,
+      price: info.price,
+      filledQuantity: 0,
+      filledAmount: 0,
+      averageFillPrice: 0,
+      cancelledQuantity: 0,
+      pendingCancelQuantity: 0,
+      status: 'accepted',
+      source: 'external',
+      strategy: null,
+      message: '',
+      createdAt: now,
+      updatedAt: now,
+      history: [{ status: 'accepted', at: now, reason: '외부 주문 발견' }],
+    }
+    this.addOrder(order)
+    this.setOrderNumber(order, info.orderNumber)
+    return order
+  }
+
+  private addOrder(order: ManagedOrder): void {
+    this.orders.set(order.id, order)
+    if (this.orders.size <= MAX_ORDERS) {
+      return
+    }
+
+    // 오래된 종료 주문부터 정리
+    for (const [id, existing] of this.orders) {
+      if (this.orders.size <= MAX_ORDERS) {
+        break
+      }
+      if (!this.isActive(existing)) {
+        this.orders.delete(id)
+        this.orderIdsByNumber.delete(existing.orderNumber)
+        this.quantityKeys.delete(id)
+        if (existing.orderNumber) {
+          this.rollTradeDate()
+          this.evictedOrderNumbers.add(existing.orderNumber)
+        }
+      }
+    }
+  }
+
+  /**
+   * 당일 정리한 주문번호 여부
+   */
+  private isEvicted(orderNumber: string): boolean {
+    this.rollTradeDate()
+    return this.evictedOrderNumbers.has(orderNumber)
+  }
+
+  /**
+   * 거래일이 바뀌면 체결번호, 정리한 주문번호, 확인한 취소/정정 주문번호 초기화 (모두 거래일마다 새로 발급)
+   */
+  private rollTradeDate(): void {
+    const today = getTradeDate()
+    if (this.tradeDate !== today) {
+      this.tradeDate = today
+      this.executionNumbers.clear()
+      this.evictedOrderNumbers.clear()
+      this.settledRevisions.clear()
+    }
+  }
+
+  /**
+   * 주문 내역 조회 시작 거래일 (YYYY-MM-DD)
+   */
+  private getSyncStartDate(accountNo: string): string {
+    let startDate = getTradeDate()
+    for (const order of this.orders.values()) {
+      if (!this.isActive(order) || (accountNo && order.accountNo && order.accountNo !== accountNo)) {
+        continue
+      }
+      const tradeDate = getTradeDate(new Date(order.createdAt))
+      if (tradeDate < startDate) {
+        startDate = tradeDate
+      }
+    }
+    return startDate
+  }
+
+  private setOrderNumber(order: ManagedOrder, orderNumber: string): void {
+    order.orderNumber = String(orderNumber).trim()
+    this.orderIdsByNumber.set(order.orderNumber, order.id)
+  }
+
+  private findByOrderNumber(orderNumber: string): ManagedOrder | null {
+    const id = this.orderIdsByNumber.get(String(orderNumber || '').trim())
+    return id ? this.orders.get(id) || null : null
+  }
+
+  /**
+   * 주문 응답 전에 도착한 같은 종목·방향의 실시간 체결 반영
+   * 주문번호가 연결된 주문에 반영하고, 연결되지 않은 체결은 외부 주문으로 추적
+   */
+  private flushEarlyExecutions(code: string, side: OrderSide): void {
+    for (const [orderNumber, events] of this.earlyExecutions) {
+      if (events[0].code !== code || events[0].side !== side) {
+        continue
+      }
+      this.earlyExecutions.delete(orderNumber)
+      events.forEach(event => this.applyExecutionEvent(event))
+    }
+  }
+
+  private hasUnnumberedOrder(code: string, side: OrderSide): boolean {
+    for (const order of this.orders.values()) {
+      if (order.code === code && order.side === side && order.status === 'submitted' && !order.orderNumber) {
+        return true
+      }
+    }
+    return false
+  }
+
+  /**
+   * 진행 중인 주문 (잔량 전부를 취소/정정 요청한 주문은 제외)
+   */
+  private findActiveOrder(code: string, side?: OrderSide): ManagedOrder | null {
+    for (const order of this.orders.values()) {
+      if (order.code === code && (!side || order.side === side) && this.isActive(order) && this.getCancellableQuantity(order) > 0) {
+        return order
+      }
+    }
+    return null
+  }
+
+  private isActive(order: ManagedOrder): boolean {
+    return ACTIVE_STATUSES.includes(order.status)
+  }
+
+  private getRemainingQuantity(order: ManagedOrder): number {
+    return order.quantity - order.filledQuantity - order.cancelledQuantity
+  }
+
+  /**
+   * 아직 취소/정정을 요청하지 않은 잔량
+   */
+  private getCancellableQuantity(order: ManagedOrder): number {
+    return this.getRemainingQuantity(order) - order.pendingCancelQuantity
+  }
+
+  private createClosedOrderError(order: ManagedOrder): Error {
+    const error = new Error(this.isActive(order)
+      ? `잔량 전부를 이미 취소/정정 요청한 주문입니다 (${order.orderNumber}, 취소 대기: ${order.pendingCancelQuantity}주)`
+      : `이미 종료된 주문입니다 (${order.orderNumber}, 상태: ${order.status})`)
+    ;(error as any).isClosedOrder = true
+    return error
+  }
+
+  private copy(order: ManagedOrder): ManagedOrder {
+    return { ...order, history: [...order.history] }
+  }
+
+  private emit(order: ManagedOrder): void {
+    const snapshot = this.copy(order)
+    this.updateCallbacks.forEach((callback) => {
+      try {
+        callback(snapshot)
+      } catch (error) {
+        console.error('[주문 관리] 콜백 실행 오류:', error)
+      }
+    })
+  }
+}
+
+/**
+ * 주문 내역의 주문일자를 거래일(YYYY-MM-DD)로 변환 (20240105, 2024-01-05, 2024. 1. 5. 형식)
+ */
+function parseOrderDate(value: unknown): string {
+  const match = String(value || '').match(/(\d{4})\D*(\d{2}|\d(?!\d))\D*(\d{1,2})/)
+  if (!match) {
+    return ''
+  }
+  return `${match[1]}-${match[2].padStart(2, '0')}-${match[3].padStart(2, '0')}`
+}
@@ -0,0 +1,373 @@
+/**
+ * 실현손익 원장
+ * DB에 저장된 체결 내역을 순서대로 재생하여 매도 체결을 매수 lot과 매칭 (선입선출 또는 이동평균)
+ * 수수료(매수/매도)와 증권거래세(매도)를 차감한 실현손익을 일별, 월별, 전략별로 집계
+ * 수수료/세금은 체결 기록에 저장된 값을 사용 (저장된 값이 없는 이전 기록만 현재 설정으로 계산)
+ * 설정(평가 방법, 수수료율, 세율)은 pnl_settings.json에 저장
+ * 당일 실현손익은 거래일 시작 시점의 lot을 계좌별로 캐시해 두고 당일 체결만 재생
+ */
+import { promises as fs } from 'fs'
+import path from 'path'
+import { TradingRepository, getTradeDate } from './tradingRepository'
+import { FeeSettings, TradeCosts, DEFAULT_FEE_SETTINGS, normalizeFeeSettings, calculateTradeCosts } from './tradeCosts'
+import type { FillRecord } from '../../shared/schema'
+
+export type CostMethod = 'fifo' | 'average' // 선입선출 | 이동평균
+
+export interface PnlSettings extends FeeSettings {
+  method: CostMethod
+}
+
+export interface PnlReportFilter {
+  accountNo?: string
+  from?: string // YYYY-MM-DD (매도 체결일 기준)
+  to?: string // YYYY-MM-DD
+}
+
+// 매도 체결 1건을 매수 lot과 매칭한 결과 (lot의 전략이 다르면 전략별로 나눔)
+export interface RealizedTrade {
+  orderId: string
+  code: string
+  name: string
+  strategy: string
+  tradeDate: string
+  filledAt: string
+  quantity: number
+  buyAmount: number // 매칭된 매수 금액
+  sellAmount: number
+  commission: number // 매수 + 매도 수수료
+  tax: number
+  realizedPnl: number
+}
+
+export interface PnlSummary {
+  key: string // 일별: YYYY-MM-DD, 월별: YYYY-MM, 전략별: 전략명
+  quantity: number
+  buyAmount: number
+  sellAmount: number
+  commission: number
+  tax: number
+  realizedPnl: number
+  tradeCount: number
+  winCount: number
+  lossCount: number
+}
+
+export interface PnlReport {
+  settings: PnlSettings
+  from: string | null
+  to: string | null
+  total: PnlSummary
+  daily: PnlSummary[]
+  monthly: PnlSummary[]
+  byStrategy: PnlSummary[]
+  trades: RealizedTrade[]
+  unmatchedQuantity: number // 매수 기록이 없어 손익을 계산하지 못한 매도 수량
+}
+
+// 매수 lot (주당 매수가와 주당 매수 수수료)
+interface BuyLot {
+  quantity: number
+  unitPrice: number
+  unitCommission: number
+  strategy: string
+}
+
+// 거래일 시작 시점의 매수 lot (전날까지의 체결을 재생한 결과)
+interface LotSnapshot {
+  tradeDate: string
+  lots: Promise<Map<string, BuyLot[]>>
+}
+
+const DEFAULT_PNL_SETTINGS: PnlSettings = {
+  method: 'fifo',
+  ...DEFAULT_FEE_SETTINGS,
+}
+
+const PNL_SETTINGS_FILE = path.join(process.cwd(), 'pnl_settings.json')
+const UNASSIGNED_STRATEGY = '미분류' // 수동/외부 주문 또는 전략 정보가 없는 매수
+
+export class PnlLedger {
+  private static instance: PnlLedger
+  private tradingRepository = TradingRepository.getInstance()
+  private settings: PnlSettings = { ...DEFAULT_PNL_SETTINGS }
+  private loadPromise: Promise<void> | null = null
+  private lotSnapshots: Map<string, LotSnapshot> = new Map() // 계좌번호(전체 계좌는 '*') -> 거래일 시작 시점 lot
+
+  private constructor() {}
+
+  static getInstance(): PnlLedger {
+    if (!PnlLedger.instance) {
+      PnlLedger.instance = new PnlLedger()
+    }
+    return PnlLedger.instance
+  }
+
+  async getSettings(): Promise<PnlSettings> {
+    await this.ensureLoaded()
+    return { ...this.settings }
+  }
+
+  /**
+   * 평가 방법, 수수료율, 세율 변경 (pnl_settings.json에 저장)
+   */
+  async updateSettings(partial: Partial<PnlSettings>): Promise<PnlSettings> {
+    await this.ensureLoaded()
+    this.settings = this.normalizeSettings({ ...this.settings, ...partial })
+    this.lotSnapshots.clear() // 평가 방법/수수료가 바뀌면 lot 단가도 달라짐
+    await fs.writeFile(PNL_SETTINGS_FILE, JSON.stringify(this.settings, null, 2), 'utf-8')
+    console.log('[실현손익] 설정 변경:', JSON.stringify(this.settings))
+    return this.getSettings()
+  }
+
+  /**
+   * 실현손익 보고서
+   * 기간 이전의 매수도 lot으로 쓰이므로 to까지의 체결 내역을 모두 재생한 뒤 기간 안의 매도만 집계
+   */
+  async getReport(filter: PnlReportFilter = {}): Promise<PnlReport> {
+    const settings = await this.getSettings()
+    const fills = await this.tradingRepository.getFillsInOrder(filter.accountNo, { to: filter.to })
+    const { trades, unmatched } = this.match(fills, settings)
+
+    const inRange = (tradeDate: string) =>
+      (!filter.from || tradeDate >= filter.from) && (!filter.to || tradeDate <= filter.to)
+    const rangeTrades = trades.filter(trade => inRange(trade.tradeDate))
+
+    return {
+      settings,
+      from: filter.from || null,
+      to: filter.to || null,
+      total: this.summarize('total', rangeTrades),
+      daily: this.groupBy(rangeTrades, trade => trade.tradeDate),
+      monthly: this.groupBy(rangeTrades, trade => trade.tradeDate.slice(0, 7)),
+      byStrategy: this.groupBy(rangeTrades, trade => trade.strategy),
+      trades: rangeTrades,
+      unmatchedQuantity: unmatched
+        .filter(fill => inRange(fill.tradeDate))
+        .reduce((sum, fill) => sum + fill.quantity, 0),
+    }
+  }
+
+  /**
+   * 당일 실현손익 (수수료·세금 차감, 리스크 당일 손실 한도와 서킷 브레이커용)
+   * 체결마다 호출되므로 거래일 시작 시점의 lot에서 당일 체결만 재생
+   */
+  async getDailyRealizedPnl(accountNo?: string): Promise<number> {
+    const settings = await this.getSettings()
+    const today = getTradeDate()
+    const startLots = await this.getStartOfDayLots(accountNo, today, settings)
+    const fills = await this.tradingRepository.getFillsInOrder(accountNo, { from: today })
+    const { trades } = this.match(fills, settings, this.cloneLots(startLots))
+    return this.summarize('total', trades).realizedPnl
+  }
+
+  /**
+   * 거래일 시작 시점의 매수 lot (계좌별로 거래일마다 한 번만 전날까지의 체결을 재생)
+   * 전날 이전 거래일로 기록되는 체결은 없으므로 거래일이 바뀌거나 설정이 바뀔 때만 다시 계산
+   */
+  private getStartOfDayLots(accountNo: string | undefined, tradeDate: string, settings: PnlSettings): Promise<Map<string, BuyLot[]>> {
+    const key = accountNo === undefined ? '*' : accountNo
+    const cached = this.lotSnapshots.get(key)
+    if (cached && cached.tradeDate === tradeDate) {
+      return cached.lots
+    }
+
+    const lots = this.tradingRepository.getFillsInOrder(accountNo, { before: tradeDate }).then(fills => {
+      const startLots: Map<string, BuyLot[]> = new Map()
+      this.match(fills, settings, startLots)
+      return startLots
+    })
+    this.lotSnapshots.set(key, { tradeDate, lots })
+    // 조회에 실패하면 다음 호출에서 다시 계산
+    lots.catch(() => {
+      if (this.lotSnapshots.get(key)?.lots === lots) {
+        this.lotSnapshots.delete(key)
+      }
+    })
+    return lots
+  }
+
+  /**
+   * 체결 내역 재생 (계좌·종목별 매수 lot 관리, 매도 시 lot 소진)
+   * lots를 넘기면 그 lot에서 이어서 재생 (넘긴 Map을 변경함)
+   */
+  private match(fills: FillRecord[], settings: PnlSettings, lots: Map<string, BuyLot[]> = new Map()): {
+    trades: RealizedTrade[]
+    unmatched: { tradeDate: string; quantity: number }[]
+  } {
+    const trades: RealizedTrade[] = []
+    const unmatched: { tradeDate: string; quantity: number }[] = []
+
+    for (const fill of fills) {
+      if (fill.quantity <= 0) {
+        continue
+      }
+
+      const key = `${fill.accountNo}:${fill.code}`
+      const stockLots = lots.get(key) || []
+      lots.set(key, stockLots)
+
+      if (fill.side === 'buy') {
+        const { commission } = this.getFillCosts(fill, settings)
+        stockLots.push({
+          quantity: fill.quantity,
+          unitPrice: fill.amount / fill.quantity,
+          unitCommission: commission / fill.quantity,
+          strategy: fill.strategy || UNASSIGNED_STRATEGY,
+        })
+        if (settings.method === 'average') {
+          this.averageLots(stockLots)
+        }
+        continue
+      }
+
+      // 매도: 앞선 lot부터 소진 (이동평균은 모든 lot의 단가가 같으므로 전략 배분만 선입선출)
+      const sellCosts = this.getFillCosts(fill, settings)
+      const unitSell = fill.amount / fill.quantity
+      const byStrategy: Map<string, { quantity: number; buyAmount: number; buyCommission: number }> = new Map()
+      let remaining = fill.quantity
+
+      while (remaining > 0 && stockLots.length > 0) {
+        const lot = stockLots[0]
+        const quantity = Math.min(lot.quantity, remaining)
+        const matched = byStrategy.get(lot.strategy) || { quantity: 0, buyAmount: 0, buyCommission: 0 }
+        matched.quantity += quantity
+        matched.buyAmount += lot.unitPrice * quantity
+        matched.buyCommission += lot.unitCommission * quantity
+        byStrategy.set(lot.strategy, matched)
+
+        lot.quantity -= quantity
+        remaining -= quantity
+        if (lot.quantity <= 0) {
+          stockLots.shift()
+        }
+      }
+
+      if (remaining > 0) {
+        unmatched.push({ tradeDate: fill.tradeDate, quantity: remaining })
+      }
+
+      byStrategy.forEach((matched, strategy) => {
+        // 매도 수수료/세금은 매칭된 수량 비율로 배분
+        const ratio = matched.quantity / fill.quantity
+        const sellAmount = Math.round(unitSell * matched.quantity)
+        const buyAmount = Math.round(matched.buyAmount)
+        const commission = Math.round(matched.buyCommission + sellCosts.commission * ratio)
+        const tax = Math.round(sellCosts.tax * ratio)
+        trades.push({
+          orderId: fill.orderId,
+          code: fill.code,
+          name: fill.name,
+          strategy,
+          tradeDate: fill.tradeDate,
+          filledAt: fill.filledAt.toISOString(),
+          quantity: matched.quantity,
+          buyAmount,
+          sellAmount,
+          commission,
+          tax,
+          realizedPnl: sellAmount - buyAmount - commission - tax,
+        })
+      })
+    }
+
+    return { trades, unmatched }
+  }
+
+  /**
+   * 체결의 수수료/세금 (기록된 값, 없으면 현재 설정으로 계산)
+   */
+  private getFillCosts(fill: FillRecord, settings: PnlSettings): TradeCosts {
+    if (fill.commission !== null && fill.tax !== null) {
+      return { commission: fill.commission, tax: fill.tax }
+    }
+    return calculateTradeCosts(fill.side === 'sell' ? 'sell' : 'buy', fill.amount, settings)
+  }
+
+  private cloneLots(lots: Map<string, BuyLot[]>): Map<string, BuyLot[]> {
+    return new Map(Array.from(lots, ([key, stockLots]) => [key, stockLots.map(lot => ({ ...lot }))]))
+  }
+
+  /**
+   * 이동평균: 남은 lot의 단가를 평균 단가로 맞춤
+   */
+  private averageLots(stockLots: BuyLot[]): void {
+    const quantity = stockLots.reduce((sum, lot) => sum + lot.quantity, 0)
+    if (quantity <= 0) {
+      return
+    }
+    const unitPrice = stockLots.reduce((sum, lot) => sum + lot.unitPrice * lot.quantity, 0) / quantity
+    const unitCommission = stockLots.reduce((sum, lot) => sum + lot.unitCommission * lot.quantity, 0) / quantity
+    for (const lot of stockLots) {
+      lot.unitPrice = unitPrice
+      lot.unitCommission = unitCommission
+    }
+  }
+
+  private groupBy(trades: RealizedTrade[], getKey: (trade: RealizedTrade) => string): PnlSummary[] {
+    const groups: Map<string, RealizedTrade[]> = new Map()
+    for (const trade of trades) {
+      const key = getKey(trade)
+      const group = groups.get(key) || []
+      group.push(trade)
+      groups.set(key, group)
+    }
+    return Array.from(groups.entries())
+      .map(([key, group]) => this.summarize(key, group))
+      .sort((a, b) => a.key.localeCompare(b.key))
+  }
+
+  private summarize(key: string, trades: RealizedTrade[]): PnlSummary {
+    const summary: PnlSummary = {
+      key,
+      quantity: 0,
+      buyAmount: 0,
+      sellAmount: 0,
+      commission: 0,
+      tax: 0,
+      realizedPnl: 0,
+      tradeCount: trades.length,
+      winCount: 0,
+      lossCount: 0,
+    }
+    for (const trade of trades) {
+      summary.quantity += trade.quantity
+      summary.buyAmount += trade.buyAmount
+      summary.sellAmount += trade.sellAmount
+      summary.commission += trade.commission
+      summary.tax += trade.tax
+      summary.realizedPnl += trade.realizedPnl
+      if (trade.realizedPnl > 0) {
+        summary.winCount++
+      } else if (trade.realizedPnl < 0) {
+        summary.lossCount++
+      }
+    }
+    return summary
+  }
+
+  private ensureLoaded(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = this.load()
+    }
+    return this.loadPromise
+  }
+
+  private async load(): Promise<void> {
+    try {
+      const data = await fs.readFile(PNL_SETTINGS_FILE, 'utf-8')
+      this.settings = this.normalizeSettings({ ...DEFAULT_PNL_SETTINGS, ...JSON.parse(data) })
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        console.error('[실현손익] 설정 파일 읽기 오류:', error.message)
+      }
+    }
+  }
+
+  private normalizeSettings(settings: PnlSettings): PnlSettings {
+    return {
+      method: settings.method === 'average' ? 'average' : 'fifo',
+      ...normalizeFeeSettings(settings),
+    }
+  }
+}
@@ -0,0 +1,254 @@
+/**
+ * 실시간 시세 구독 관리
+ * 종목 실시간 항목(주식체결 '00', 주식호가잔량 '0D')을 구독자(브라우저 탭, 자동매매 전략, 관심종목, 보유 종목 등)별로
+ * 참조 카운트하여 첫 구독자가 생길 때만 REG, 마지막 구독자가 해지할 때만 REMOVE를 보냄
+ * WebSocket 재연결 후 로그인하면 구독 중인 종목을 모두 다시 등록
+ */
+import { KiwoomWebSocketService } from './kiwoomWebSocketService'
+
+export const STOCK_TRADE_TYPE = '00' // 주식체결
+
+// 구독 중인 종목 (GET /api/realtime/subscriptions 응답)
+export interface RealtimeSubscription {
+  type: string
+  code: string
+  group: string
+  consumers: string[]
+}
+
+export interface RealtimeSubscriptionSummary {
+  loggedIn: boolean
+  total: number
+  groups: Array<{ group: string; count: number }>
+  consumers: Record<string, number> // 구독자별 구독 종목 수
+  subscriptions: RealtimeSubscription[]
+}
+
+interface SubscriptionEntry {
+  type: string
+  code: string
+  group: string
+  consumers: Set<string>
+}
+
+interface PendingChange {
+  type: string
+  code: string
+  group: string
+}
+
+const MAX_ITEMS_PER_GROUP = 100 // WebSocket 실시간 등록 제한: 그룹당 최대 100개
+const FIRST_GROUP = 1 // 0번 그룹은 계좌 실시간(주문체결/잔고) 등록에 사용
+
+function normalizeCode(code: string): string {
+  return String(code || '').trim().replace(/^A/, '')
+}
+
+export class RealtimeSubscriptionManager {
+  private static instance: RealtimeSubscriptionManager
+  private webSocketService = KiwoomWebSocketService.getInstance()
+  private entries: Map<string, SubscriptionEntry> = new Map() // `${type}:${code}` -> 구독
+  private groupSizes: Map<string, number> = new Map() // 그룹번호 -> 등록 종목 수
+  private pendingAdds: Map<string, PendingChange> = new Map() // 다음 전송 때 REG할 항목
+  private pendingRemoves: Map<string, PendingChange> = new Map() // 다음 전송 때 REMOVE할 항목
+  private flushTimer: NodeJS.Timeout | null = null
+
+  private constructor() {
+    // 로그인(재연결 포함)할 때마다 구독 중인 종목 전체 재등록
+    this.webSocketService.onLogin(() => this.registerAll())
+  }
+
+  static getInstance(): RealtimeSubscriptionManager {
+    if (!RealtimeSubscriptionManager.instance) {
+      RealtimeSubscriptionManager.instance = new RealtimeSubscriptionManager()
+    }
+    return RealtimeSubscriptionManager.instance
+  }
+
+  /**
+   * 종목 구독 (이미 구독 중인 구독자/종목은 무시)
+   */
+  subscribe(consumer: string, codes: string[], type: string = STOCK_TRADE_TYPE): void {
+    for (const code of codes.map(normalizeCode).filter(Boolean)) {
+      this.add(consumer, type, code)
+    }
+  }
+
+  /**
+   * 종목 구독 해지 (다른 구독자가 남아 있으면 등록 유지)
+   */
+  unsubscribe(consumer: string, codes: string[], type: string = STOCK_TRADE_TYPE): void {
+    for (const code of codes.map(normalizeCode).filter(Boolean)) {
+      this.remove(consumer, type, code)
+    }
+  }
+
+  /**
+   * 구독자의 구독 종목을 주어진 종목으로 교체 (빠진 종목은 해지, 새 종목은 구독)
+   */
+  setSubscriptions(consumer: string, codes: string[], type: string = STOCK_TRADE_TYPE): void {
+    const next = new Set(codes.map(normalizeCode).filter(Boolean))
+    for (const code of this.getCodes(consumer, type)) {
+      if (!next.has(code)) {
+        this.remove(consumer, type, code)
+      }
+    }
+    next.forEach(code => this.add(consumer, type, code))
+  }
+
+  /**
+   * 구독자의 모든 구독 해지 (브라우저 탭 종료, 엔진 중지 등)
+   */
+  release(consumer: string): void {
+    for (const entry of Array.from(this.entries.values())) {
+      if (entry.consumers.has(consumer)) {
+        this.remove(consumer, entry.type, entry.code)
+      }
+    }
+  }
+
+  /**
+   * 구독자가 구독 중인 종목
+   */
+  getCodes(consumer: string, type: string = STOCK_TRADE_TYPE): string[] {
+    return Array.from(this.entries.values())
+      .filter(entry => entry.type === type && entry.consumers.has(consumer))
+      .map(entry => entry.code)
+  }
+
+  getSummary(): RealtimeSubscriptionSummary {
+    const consumers: Record<string, number> = {}
+    const subscriptions: RealtimeSubscription[] = Array.from(this.entries.values()).map(entry => {
+      entry.consumers.forEach(consumer => {
+        consumers[consumer] = (consumers[consumer] || 0) + 1
+      })
+      return { type: entry.type, code: entry.code, group: entry.group, consumers: Array.from(entry.consumers) }
+    })
+
+    return {
+      loggedIn: this.webSocketService.isLoggedIn(),
+      total: subscriptions.length,
+      groups: Array.from(this.groupSizes.entries())
+        .map(([group, count]) => ({ group, count }))
+        .sort((a, b) => Number(a.group) - Number(b.group)),
+      consumers,
+      subscriptions,
+    }
+  }
+
+  private add(consumer: string, type: string, code: string): void {
+    const key = `${type}:${code}`
+    const existing = this.entries.get(key)
+    if (existing) {
+      existing.consumers.add(consumer)
+      return
+    }
+
+    // 해지 전송 전에 다시 구독하면 서버 등록이 그대로 남아 있으므로 같은 그룹을 계속 사용
+    const pendingRemove = this.pendingRemoves.get(key)
+    const group = pendingRemove?.group || this.allocateGroup()
+    this.groupSizes.set(group, (this.groupSizes.get(group) || 0) + 1)
+    this.entries.set(key, { type, code, group, consumers: new Set([consumer]) })
+
+    if (pendingRemove) {
+      this.pendingRemoves.delete(key)
+    } else {
+      this.pendingAdds.set(key, { type, code, group })
+      this.scheduleFlush()
+    }
+  }
+
+  private remove(consumer: string, type: string, code: string): void {
+    const key = `${type}:${code}`
+    const entry = this.entries.get(key)
+    if (!entry || !entry.consumers.delete(consumer) || entry.consumers.size > 0) {
+      return
+    }
+
+    this.entries.delete(key)
+    const size = (this.groupSizes.get(entry.group) || 1) - 1
+    if (size > 0) {
+      this.groupSizes.set(entry.group, size)
+    } else {
+      this.groupSizes.delete(entry.group)
+    }
+
+    // 등록 전송 전에 해지하면 아무것도 보내지 않음
+    if (this.pendingAdds.has(key)) {
+      this.pendingAdds.delete(key)
+    } else {
+      this.pendingRemoves.set(key, { type, code, group: entry.group })
+      this.scheduleFlush()
+    }
+  }
+
+  /**
+   * 빈 자리가 있는 가장 낮은 그룹번호
+   */
+  private allocateGroup(): string {
+    for (let group = FIRST_GROUP; ; group++) {
+      if ((this.groupSizes.get(String(group)) || 0) < MAX_ITEMS_PER_GROUP) {
+        return String(group)
+      }
+    }
+  }
+
+  /**
+   * 같은 이벤트 루프에서 발생한 변경을 모아 그룹/타입별 패킷 하나로 전송
+   */
+  private scheduleFlush(): void {
+    if (this.flushTimer) {
+      return
+    }
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null
+      this.flush()
+    }, 0)
+  }
+
+  private flush(): void {
+    const removes = Array.from(this.pendingRemoves.values())
+    const adds = Array.from(this.pendingAdds.values())
+    this.pendingRemoves.clear()
+    this.pendingAdds.clear()
+
+    // 로그인 전이면 보내지 않음 (로그인 후 registerAll에서 전체 등록)
+    if (!this.webSocketService.isLoggedIn()) {
+      return
+    }
+
+    this.groupChanges(removes).forEach(({ group, type, codes }) => {
+      this.webSocketService.removeRealTime(codes, [type], group)
+    })
+    this.groupChanges(adds).forEach(({ group, type, codes }) => {
+      this.webSocketService.registerRealTime(codes, [type], group, '1')
+    })
+  }
+
+  /**
+   * 구독 중인 종목 전체 등록 (WebSocket 로그인 직후)
+   */
+  private registerAll(): void {
+    this.pendingAdds.clear()
+    this.pendingRemoves.clear()
+
+    const changes = this.groupChanges(Array.from(this.entries.values()))
+    changes.forEach(({ group, type, codes }) => {
+      this.webSocketService.registerRealTime(codes, [type], group, '1')
+    })
+    if (changes.length > 0) {
+      console.log(`[실시간 구독] 재연결 후 ${this.entries.size}개 항목 재등록`)
+    }
+  }
+
+  private groupChanges(changes: PendingChange[]): Array<{ group: string; type: string; codes: string[] }> {
+    const grouped = new Map<string, { group: string; type: string; codes: string[] }>()
+    for (const change of changes) {
+      const key = `${change.group}:${change.type}`
+      const entry = grouped.get(key) || { group: change.group, type: change.type, codes: [] }
+      entry.codes.push(change.code)
+      grouped.set(key, entry)
+    }
+    return Array.from(grouped.values())
+  }
+}
@@ -0,0 +1,244 @@
+/**
+ * 키움 REST API 요청 스케줄러
+ * TR별 토큰 버킷과 전체 요청 버킷으로 요청 속도를 제한하고, 대기 중인 요청은 우선순위 레인 순서로 보냄
+ * (주문 > 계좌 > 시세 > 차트 > 순위) 차트 요청이 많이 쌓여 있어도 주문은 앞서서 나감
+ * 요청 제한(return_code 5) 응답을 받으면 해당 레인을 점점 길게 쉬었다가 다시 보냄
+ */
+
+export type RequestLane = 'order' | 'account' | 'quote' | 'chart' | 'ranking'
+
+// 우선순위가 높은 레인부터
+export const REQUEST_LANES: RequestLane[] = ['order', 'account', 'quote', 'chart', 'ranking']
+
+export interface RateLimit {
+  ratePerSecond: number // 초당 요청 수
+  burst: number // 연속으로 보낼 수 있는 최대 요청 수
+}
+
+export interface LaneMetrics {
+  lane: RequestLane
+  queued: number // 현재 대기 중인 요청 수
+  maxQueued: number // 최대 대기 요청 수
+  dispatched: number // 보낸 요청 수
+  rateLimited: number // 요청 제한 응답 수
+  avgWaitMs: number // 평균 대기 시간
+  maxWaitMs: number
+  pausedUntil: string | null // 요청 제한으로 쉬는 중이면 재개 시각
+}
+
+export interface SchedulerMetrics {
+  queued: number
+  lanes: LaneMetrics[]
+}
+
+// TR별 제한 (같은 레인의 TR은 같은 제한을 TR마다 따로 적용)
+const LANE_LIMITS: Record<RequestLane, RateLimit> = {
+  order: { ratePerSecond: 5, burst: 5 },
+  account: { ratePerSecond: 2, burst: 2 },
+  quote: { ratePerSecond: 5, burst: 5 },
+  chart: { ratePerSecond: 1, burst: 1 }, // 분봉/일봉 차트는 요청 제한이 엄격함
+  ranking: { ratePerSecond: 1, burst: 2 },
+}
+const GLOBAL_LIMIT: RateLimit = { ratePerSecond: 5, burst: 5 } // 전체 요청 (모든 레인 공유)
+const BACKOFF_BASE_MS = 1000
+const BACKOFF_MAX_MS = 30 * 1000
+
+/**
+ * TR 경로로 레인 결정 (모의투자 /api/dostk/*, 실전투자 /uapi/*)
+ */
+export function getRequestLane(endpoint: string): RequestLane {
+  if (endpoint.includes('/dostk/ordr') || endpoint.includes('/trading/order')) {
+    return 'order'
+  }
+  if (endpoint.includes('/dostk/acnt') || endpoint.includes('/trading/inquire')) {
+    return 'account'
+  }
+  if (endpoint.includes('/dostk/chart') || endpoint.includes('itemchartprice')) {
+    return 'chart'
+  }
+  if (endpoint.includes('/dostk/rkinfo') || endpoint.includes('/ranking/') || endpoint.includes('/condition/')) {
+    return 'ranking'
+  }
+  return 'quote'
+}
+
+class TokenBucket {
+  private tokens: number
+  private updatedAt: number = Date.now()
+
+  constructor(private readonly limit: RateLimit) {
+    this.tokens = limit.burst
+  }
+
+  /**
+   * 다음 토큰까지 남은 시간 (ms, 0이면 바로 사용 가능)
+   */
+  getWaitTime(now: number): number {
+    this.refill(now)
+    return this.tokens >= 1 ? 0 : Math.ceil(((1 - this.tokens) / this.limit.ratePerSecond) * 1000)
+  }
+
+  take(now: number): void {
+    this.refill(now)
+    this.tokens -= 1
+  }
+
+  private refill(now: number): void {
+    this.tokens = Math.min(this.limit.burst, this.tokens + ((now - this.updatedAt) / 1000) * this.limit.ratePerSecond)
+    this.updatedAt = now
+  }
+}
+
+interface Waiter {
+  trId: string
+  enqueuedAt: number
+  resolve: () => void
+}
+
+interface LaneState {
+  queue: Waiter[]
+  maxQueued: number
+  dispatched: number
+  rateLimited: number
+  totalWaitMs: number
+  maxWaitMs: number
+  backoffLevel: number
+  pausedUntil: number
+}
+
+export class RequestScheduler {
+  private buckets: Map<string, TokenBucket> = new Map() // TR별 버킷
+  private global = new TokenBucket(GLOBAL_LIMIT)
+  private lanes: Record<RequestLane, LaneState>
+  private timer: NodeJS.Timeout | null = null
+
+  constructor() {
+    this.lanes = {} as Record<RequestLane, LaneState>
+    for (const lane of REQUEST_LANES) {
+      this.lanes[lane] = {
+        queue: [],
+        maxQueued: 0,
+        dispatched: 0,
+        rateLimited: 0,
+        totalWaitMs: 0,
+        maxWaitMs: 0,
+        backoffLevel: 0,
+        pausedUntil: 0,
+      }
+    }
+  }
+
+  /**
+   * 요청 차례 대기 (TR/전체 토큰을 하나씩 사용)
+   */
+  acquire(lane: RequestLane, trId: string): Promise<void> {
+    return new Promise(resolve => {
+      const state = this.lanes[lane]
+      state.queue.push({ trId, enqueuedAt: Date.now(), resolve })
+      state.maxQueued = Math.max(state.maxQueued, state.queue.length)
+      this.drain()
+    })
+  }
+
+  /**
+   * 요청 제한 응답을 받음 (레인을 1초, 2초, 4초 ... 최대 30초 쉼)
+   */
+  reportRateLimit(lane: RequestLane): number {
+    const state = this.lanes[lane]
+    const backoffMs = Math.min(BACKOFF_BASE_MS * Math.pow(2, state.backoffLevel), BACKOFF_MAX_MS)
+    state.backoffLevel++
+    state.rateLimited++
+    state.pausedUntil = Math.max(state.pausedUntil, Date.now() + backoffMs)
+    console.warn(`[요청 스케줄러] ${lane} 레인 요청 제한, ${backoffMs}ms 대기`)
+    return backoffMs
+  }
+
+  /**
+   * 요청 성공 (요청 제한 대기 시간 초기화)
+   */
+  reportSuccess(lane: RequestLane): void {
+    this.lanes[lane].backoffLevel = 0
+  }
+
+  getMetrics(): SchedulerMetrics {
+    const now = Date.now()
+    const lanes = REQUEST_LANES.map(lane => {
+      const state = this.lanes[lane]
+      return {
+        lane,
+        queued: state.queue.length,
+        maxQueued: state.maxQueued,
+        dispatched: state.dispatched,
+        rateLimited: state.rateLimited,
+        avgWaitMs: state.dispatched > 0 ? Math.round(state.totalWaitMs / state.dispatched) : 0,
+        maxWaitMs: state.maxWaitMs,
+        pausedUntil: state.pausedUntil > now ? new Date(state.pausedUntil).toISOString() : null,
+      }
+    })
+    return { queued: lanes.reduce((sum, lane) => sum + lane.queued, 0), lanes }
+  }
+
+  /**
+   * 보낼 수 있는 요청을 우선순위 순서로 보내고, 남은 요청은 가장 빠른 토큰 시각에 다시 확인
+   * 같은 TR의 요청은 대기 순서대로 보냄
+   */
+  private drain(): void {
+    if (this.timer) {
+      clearTimeout(this.timer)
+      this.timer = null
+    }
+
+    const now = Date.now()
+    let nextWake = Infinity
+    for (const lane of REQUEST_LANES) {
+      const state = this.lanes[lane]
+      if (state.queue.length === 0) {
+        continue
+      }
+      if (state.pausedUntil > now) {
+        nextWake = Math.min(nextWake, state.pausedUntil - now)
+        continue
+      }
+
+      const blocked = new Set<string>()
+      for (let i = 0; i < state.queue.length;) {
+        const waiter = state.queue[i]
+        if (blocked.has(waiter.trId)) {
+          i++
+          continue
+        }
+
+        const bucket = this.getBucket(lane, waiter.trId)
+        const wait = Math.max(bucket.getWaitTime(now), this.global.getWaitTime(now))
+        if (wait > 0) {
+          blocked.add(waiter.trId)
+          nextWake = Math.min(nextWake, wait)
+          i++
+          continue
+        }
+
+        bucket.take(now)
+        this.global.take(now)
+        state.queue.splice(i, 1)
+        const waitMs = now - waiter.enqueuedAt
+        state.dispatched++
+        state.totalWaitMs += waitMs
+        state.maxWaitMs = Math.max(state.maxWaitMs, waitMs)
+        waiter.resolve()
+      }
+    }
+
+    if (nextWake !== Infinity) {
+      this.timer = setTimeout(() => this.drain(), nextWake)
+    }
+  }
+
+  private getBucket(lane: RequestLane, trId: string): TokenBucket {
+    let bucket = this.buckets.get(trId)
+    if (!bucket) {
+      bucket = new TokenBucket(LANE_LIMITS[lane])
+      this.buckets.set(trId, bucket)
+    }
+    return bucket
+  }
+}
@@ -0,0 +1,37 @@
+/**
+ * 리스크 점검 테스트 (기본 한도, 키움 API 미연결 상태)
+ * 매도(청산)는 주문 금액 한도와 현재가 조회 실패로 거부하지 않음
+ */
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { RiskGuard } from './riskGuard'
+
+const riskGuard = RiskGuard.getInstance()
+
+function rejectedRule(error: any): string | undefined {
+  return error?.rejection?.rule
+}
+
+describe('RiskGuard 매도 점검', () => {
+  it('주문 금액 한도를 넘는 시장가 매도도 통과 (현재가를 알 수 없어도)', async () => {
+    await riskGuard.check({ code: '005930', side: 'sell', quantity: 100000, price: 0, orderOption: '03' })
+  })
+
+  it('주문 금액 한도를 넘는 지정가 매도도 통과', async () => {
+    await riskGuard.check({ code: '005930', side: 'sell', quantity: 1000, price: 100000, orderOption: '00' })
+  })
+
+  it('같은 금액의 매수는 주문 금액 한도로 거부', async () => {
+    await assert.rejects(
+      riskGuard.check({ code: '005930', side: 'buy', quantity: 1000, price: 100000, orderOption: '00' }),
+      (error: any) => rejectedRule(error) === 'max_order_amount'
+    )
+  })
+
+  it('현재가를 알 수 없는 시장가 매수는 거부', async () => {
+    await assert.rejects(
+      riskGuard.check({ code: '005930', side: 'buy', quantity: 1, price: 0, orderOption: '03' }),
+      (error: any) => rejectedRule(error) === 'price_unavailable'
+    )
+  })
+})
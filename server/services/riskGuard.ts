@@ -0,0 +1,489 @@
+/**
+ * 주문 전 리스크 점검 서비스
+ * 모든 주문(자동매매, API 직접 호출)이 키움증권에 전송되기 전에 서버에서 한도를 검사
+ * 주문 금액 한도, 당일 손실 한도, 최대 보유 종목 수, 종목별 매매 횟수, 가격 이탈(오주문) 점검, 긴급 정지(킬 스위치)
+ * 당일 실현손익은 실현손익 원장(저장된 체결 내역, 수수료·세금 차감) 기준이라 서버를 재시작해도 유지
+ */
+import { promises as fs } from 'fs'
+import path from 'path'
+import { KiwoomService } from './kiwoomService'
+import { CircuitBreaker } from './circuitBreaker'
+import { PnlLedger } from './pnlLedger'
+import { getTradeDate } from './tradingRepository'
+import type { ManagedOrder, OrderSide } from './orderManager'
+
+// 리스크 한도 설정 (0이면 해당 점검 사용 안 함)
+export interface RiskLimits {
+  maxOrderAmount: number // 1회 주문 최대 금액 (원)
+  dailyLossLimit: number // 당일 실현손실 한도 (원, 양수로 입력, 수수료·세금 포함)
+  maxPositions: number // 최대 보유 종목 수 (미체결 매수 포함)
+  maxTradesPerStock: number // 종목별 당일 매수 주문 횟수
+  maxDailyStocks: number // 당일 최대 매수 종목 수
+  priceBandPercent: number // 지정가와 현재가의 최대 괴리율 (%)
+  restrictedStocks: string[] // 매매 금지 종목 코드
+  killSwitch: boolean // true면 모든 신규/정정 주문 거부
+}
+
+export type RiskRule =
+  | 'kill_switch'
+  | 'restricted_stock'
+  | 'circuit_breaker'
+  | 'max_order_amount'
+  | 'price_band'
+  | 'price_unavailable'
+  | 'daily_loss_limit'
+  | 'max_positions'
+  | 'max_trades_per_stock'
+  | 'max_daily_stocks'
+
+// 리스크 점검 거부 내역
+export interface RiskRejection {
+  rule: RiskRule
+  message: string
+  code: string
+  side: OrderSide
+  quantity: number
+  price: number
+  limit: number | null
+  actual: number | null
+  at: string
+}
+
+// 리스크 점검 대상 주문
+export interface RiskCheckRequest {
+  code: string
+  side: OrderSide
+  quantity: number
+  price: number
+  orderOption: string // 00: 지정가, 03: 시장가
+  accountNo?: string
+  accountProductCode?: string
+  activeBuyCodes?: string[] // 미체결 매수 주문이 있는 종목 (최대 보유 종목 수 계산용)
+}
+
+// 당일 리스크 현황
+export interface RiskState {
+  tradeDate: string
+  realizedPnl: number
+  tradeCounts: Record<string, number>
+  tradedStocks: string[]
+  positions: string[]
+}
+
+const DEFAULT_RISK_LIMITS: RiskLimits = {
+  maxOrderAmount: 10000000,
+  dailyLossLimit: 0,
+  maxPositions: 10,
+  maxTradesPerStock: 30,
+  maxDailyStocks: 50,
+  priceBandPercent: 10,
+  restrictedStocks: [],
+  killSwitch: false,
+}
+
+const RISK_SETTINGS_FILE = path.join(process.cwd(), 'risk_settings.json')
+const MAX_REJECTIONS = 200 // 보관할 최대 거부 내역 개수
+const POSITION_CACHE_TTL = 5000 // 보유 종목 조회 캐시 (ms)
+const PRICE_CACHE_TTL = 10000 // 현재가 캐시 (ms, 실시간 시세가 없을 때 재조회 주기)
+
+export class RiskGuard {
+  private static instance: RiskGuard
+  private kiwoomService = KiwoomService.getInstance()
+  private circuitBreaker = CircuitBreaker.getInstance()
+  private pnlLedger = PnlLedger.getInstance()
+  private limits: RiskLimits = { ...DEFAULT_RISK_LIMITS }
+  private loadPromise: Promise<void> | null = null
+  private rejections: RiskRejection[] = []
+  private lastPrices: Map<string, { price: number; at: number }> = new Map() // 현재가 캐시 (실시간 시세 우선)
+  private positionCosts: Map<string, { quantity: number; amount: number }> = new Map() // 종목별 보유 수량/매입금액
+  private positionsFetchedAt: number = 0
+  private reportedFills: Map<string, { quantity: number; amount: number }> = new Map() // 주문 ID -> 반영한 체결 수량/금액
+  private tradeCounts: Map<string, number> = new Map() // 종목별 당일 매수 주문 횟수
+  private tradedStocks: Set<string> = new Set() // 당일 매수 주문한 종목
+  private realizedPnl: number = 0 // 마지막으로 조회한 당일 실현손익 (원장 조회 실패 시 사용)
+  private realizedPnlKey: string | null = null // 조회한 계좌·거래일·체결 버전 (새 체결이 있으면 다시 조회)
+  private fillVersion: number = 0
+  private tradeDate: string = new Date().toDateString()
+
+  private constructor() {
+    this.kiwoomService.onRealTimeData((data) => this.handleRealTimeData(data))
+  }
+
+  static getInstance(): RiskGuard {
+    if (!RiskGuard.instance) {
+      RiskGuard.instance = new RiskGuard()
+    }
+    return RiskGuard.instance
+  }
+
+  /**
+   * 신규 주문 점검 (한도 위반 시 isRiskRejected 에러)
+   */
+  async check(request: RiskCheckRequest): Promise<void> {
+    await this.ensureLoaded()
+    this.resetDailyStatsIfNeeded()
+
+    const code = String(request.code || '').trim()
+    const limits = this.limits
+
+    if (limits.killSwitch) {
+      this.reject('kill_switch', '긴급 정지(킬 스위치)가 켜져 있어 주문할 수 없습니다', request)
+    }
+
+    if (request.side === 'buy' && limits.restrictedStocks.includes(code)) {
+      this.reject('restricted_stock', `매매 금지 종목입니다 (${code})`, request)
+    }
+
+    await this.checkPrice(request)
+
+    if (request.side === 'sell') {
+      return
+    }
+
+    if (await this.circuitBreaker.isTripped()) {
+      const breaker = this.circuitBreaker.getSnapshot()
+      this.reject('circuit_breaker', `서킷 브레이커 작동 중이라 신규 매수가 차단되었습니다 (${breaker.message})`, request)
+    }
+
+    if (limits.dailyLossLimit > 0) {
+      const realizedPnl = await this.getDailyRealizedPnl(request.accountNo)
+      if (realizedPnl <= -limits.dailyLossLimit) {
+        this.reject('daily_loss_limit', `당일 손실 한도에 도달했습니다 (실현손익 ${realizedPnl.toLocaleString()}원)`, request, limits.dailyLossLimit, -realizedPnl)
+      }
+    }
+
+    const tradeCount = this.tradeCounts.get(code) || 0
+    if (limits.maxTradesPerStock > 0 && tradeCount >= limits.maxTradesPerStock) {
+      this.reject('max_trades_per_stock', `종목별 매매 횟수 한도에 도달했습니다 (${code}: ${tradeCount}회)`, request, limits.maxTradesPerStock, tradeCount)
+    }
+
+    if (limits.maxDailyStocks > 0 && !this.tradedStocks.has(code) && this.tradedStocks.size >= limits.maxDailyStocks) {
+      this.reject('max_daily_stocks', `당일 최대 매매 종목 수에 도달했습니다 (${this.tradedStocks.size}개)`, request, limits.maxDailyStocks, this.tradedStocks.size)
+    }
+
+    if (limits.maxPositions > 0) {
+      await this.refreshPositions(request.accountNo, request.accountProductCode)
+      const positions = new Set([...this.getHeldCodes(), ...(request.activeBuyCodes || [])])
+      if (!positions.has(code) && positions.size >= limits.maxPositions) {
+        this.reject('max_positions', `최대 보유 종목 수에 도달했습니다 (${positions.size}개)`, request, limits.maxPositions, positions.size)
+      }
+    }
+  }
+
+  /**
+   * 정정 주문 점검 (긴급 정지, 주문 금액, 가격 이탈)
+   */
+  async checkRevision(request: RiskCheckRequest): Promise<void> {
+    await this.ensureLoaded()
+
+    if (this.limits.killSwitch) {
+      this.reject('kill_switch', '긴급 정지(킬 스위치)가 켜져 있어 주문을 정정할 수 없습니다', request)
+    }
+
+    await this.checkPrice(request)
+  }
+
+  /**
+   * 주문 접수 후 당일 매매 횟수 반영
+   */
+  recordOrder(code: string, side: OrderSide): void {
+    this.resetDailyStatsIfNeeded()
+    if (side !== 'buy') {
+      return
+    }
+    this.tradeCounts.set(code, (this.tradeCounts.get(code) || 0) + 1)
+    this.tradedStocks.add(code)
+  }
+
+  /**
+   * 주문 체결 반영 (보유 수량/매입금액, 다음 점검 때 당일 실현손익 다시 조회)
+   */
+  recordOrderUpdate(order: ManagedOrder): void {
+    const reported = this.reportedFills.get(order.id) || { quantity: 0, amount: 0 }
+    const quantity = order.filledQuantity - reported.quantity
+    const amount = order.filledAmount - reported.amount
+    if (quantity <= 0) {
+      return
+    }
+    this.reportedFills.set(order.id, { quantity: order.filledQuantity, amount: order.filledAmount })
+    this.fillVersion++
+
+    const cost = this.positionCosts.get(order.code) || { quantity: 0, amount: 0 }
+    if (order.side === 'buy') {
+      this.positionCosts.set(order.code, { quantity: cost.quantity + quantity, amount: cost.amount + amount })
+      return
+    }
+
+    const soldQuantity = Math.min(quantity, cost.quantity)
+    if (soldQuantity > 0) {
+      const averageCost = cost.amount / cost.quantity
+      this.positionCosts.set(order.code, {
+        quantity: cost.quantity - soldQuantity,
+        amount: cost.amount - averageCost * soldQuantity,
+      })
+    }
+  }
+
+  /**
+   * 당일 실현손익 (실현손익 원장 기준, 수수료·세금 차감)
+   * 새 체결이 없으면 마지막 조회 결과를 사용하고, 원장 조회에 실패하면 마지막으로 조회한 값 사용
+   */
+  async getDailyRealizedPnl(accountNo?: string): Promise<number> {
+    const key = `${accountNo ?? '*'}:${getTradeDate()}:${this.fillVersion}`
+    if (this.realizedPnlKey === key) {
+      return this.realizedPnl
+    }
+
+    try {
+      this.realizedPnl = await this.pnlLedger.getDailyRealizedPnl(accountNo)
+      this.realizedPnlKey = key
+    } catch (error: any) {
+      console.warn('[리스크] 당일 실현손익 조회 실패:', error.message)
+    }
+    return this.realizedPnl
+  }
+
+  async getLimits(): Promise<RiskLimits> {
+    await this.ensureLoaded()
+    return { ...this.limits, restrictedStocks: [...this.limits.restrictedStocks] }
+  }
+
+  /**
+   * 리스크 한도 변경 (risk_settings.json에 저장)
+   */
+  async updateLimits(partial: Partial<RiskLimits>): Promise<RiskLimits> {
+    await this.ensureLoaded()
+    this.limits = this.normalizeLimits({ ...this.limits, ...partial })
+    await fs.writeFile(RISK_SETTINGS_FILE, JSON.stringify(this.limits, null, 2), 'utf-8')
+    console.log('[리스크] 한도 변경:', JSON.stringify(this.limits))
+    return this.getLimits()
+  }
+
+  async setKillSwitch(enabled: boolean): Promise<RiskLimits> {
+    console.warn(`[리스크] 긴급 정지 ${enabled ? '켜짐' : '꺼짐'}`)
+    return this.updateLimits({ killSwitch: enabled })
+  }
+
+  async getState(accountNo?: string): Promise<RiskState> {
+    this.resetDailyStatsIfNeeded()
+    return {
+      tradeDate: this.tradeDate,
+      realizedPnl: await this.getDailyRealizedPnl(accountNo),
+      tradeCounts: Object.fromEntries(this.tradeCounts),
+      tradedStocks: Array.from(this.tradedStocks),
+      positions: this.getHeldCodes(),
+    }
+  }
+
+  /**
+   * 최근 거부 내역 (최신 먼저)
+   */
+  getRejections(limit: number = 50): RiskRejection[] {
+    return this.rejections.slice(-limit).reverse()
+  }
+
+  /**
+   * 주문 금액 한도와 가격 이탈 점검
+   * 매도(손절, 전량 매도 등 청산)는 금액 한도와 현재가 조회 실패로 막지 않고 지정가 가격 이탈만 점검
+   */
+  private async checkPrice(request: RiskCheckRequest): Promise<void> {
+    const { maxOrderAmount, priceBandPercent } = this.limits
+    const isLimitOrder = request.orderOption === '00' && request.price > 0
+    const isSell = request.side === 'sell'
+    if (isSell ? !isLimitOrder || priceBandPercent <= 0 : maxOrderAmount <= 0 && priceBandPercent <= 0) {
+      return
+    }
+
+    const lastPrice = await this.getLastPrice(request.code)
+
+    if (isLimitOrder && priceBandPercent > 0 && lastPrice > 0) {
+      const deviation = Math.abs(request.price - lastPrice) / lastPrice * 100
+      if (deviation > priceBandPercent) {
+        this.reject(
+          'price_band',
+          `주문가격이 현재가(${lastPrice.toLocaleString()}원)와 ${deviation.toFixed(2)}% 차이납니다`,
+          request,
+          priceBandPercent,
+          Number(deviation.toFixed(2))
+        )
+      }
+    }
+
+    if (maxOrderAmount > 0 && !isSell) {
+      const price = isLimitOrder ? request.price : lastPrice
+      if (price <= 0) {
+        this.reject('price_unavailable', '현재가를 확인할 수 없어 주문 금액을 계산할 수 없습니다', request)
+      }
+      const amount = price * request.quantity
+      if (amount > maxOrderAmount) {
+        this.reject('max_order_amount', `1회 주문 금액 한도를 초과했습니다 (${amount.toLocaleString()}원)`, request, maxOrderAmount, amount)
+      }
+    }
+  }
+
+  /**
+   * 현재가 조회 (실시간 시세 → 현재가 API → 최근 분봉 종가 순)
+   */
+  private async getLastPrice(code: string): Promise<number> {
+    const cached = this.lastPrices.get(code)
+    if (cached && Date.now() - cached.at < PRICE_CACHE_TTL) {
+      return cached.price
+    }
+
+    let price = 0
+    try {
+      const quote = await this.kiwoomService.getCurrentPrice(code)
+      price = Math.abs(Number(quote?.price) || 0)
+    } catch (error: any) {
+      console.warn(`[리스크] 현재가 조회 실패 (${code}):`, error.message)
+    }
+
+    if (price <= 0) {
+      try {
+        const candles = await this.kiwoomService.getCandleData(code, 'min')
+        const latest = (candles || []).reduce((last: any, candle: any) =>
+          !last || String(candle.일자 || candle.time || '') > String(last.일자 || last.time || '') ? candle : last, null)
+        price = Math.abs(parseFloat(latest?.종가 || latest?.close || '0')) || 0
+      } catch (error: any) {
+        console.warn(`[리스크] 분봉 조회 실패 (${code}):`, error.message)
+      }
+    }
+
+    if (price > 0) {
+      this.lastPrices.set(code, { price, at: Date.now() })
+      return price
+    }
+    // 조회 실패 시 마지막으로 알려진 가격 사용
+    return cached?.price || 0
+  }
+
+  /**
+   * 보유 종목 조회 (매입금액은 체결로 추적 중인 종목은 유지)
+   */
+  private async refreshPositions(accountNo?: string, accountProductCode?: string): Promise<void> {
+    if (Date.now() - this.positionsFetchedAt < POSITION_CACHE_TTL) {
+      return
+    }
+
+    const balance = await this.kiwoomService.getBalance(accountNo, accountProductCode)
+    if (!Array.isArray(balance)) {
+      // 조회 실패 시 기존 정보로 점검
+      console.warn('[리스크] 보유 종목 조회 실패:', balance?.error)
+      return
+    }
+
+    const held = new Set<string>()
+    for (const stock of balance) {
+      const code = String(stock.code || '').replace(/^A/, '').trim()
+      const quantity = Number(stock.quantity) || 0
+      if (!code || quantity <= 0) {
+        continue
+      }
+      held.add(code)
+      this.positionCosts.set(code, { quantity, amount: (Number(stock.purchasePrice) || 0) * quantity })
+    }
+    for (const code of Array.from(this.positionCosts.keys())) {
+      if (!held.has(code)) {
+        this.positionCosts.delete(code)
+      }
+    }
+    this.positionsFetchedAt = Date.now()
+  }
+
+  private getHeldCodes(): string[] {
+    return Array.from(this.positionCosts.entries())
+      .filter(([, cost]) => cost.quantity > 0)
+      .map(([code]) => code)
+  }
+
+  private reject(
+    rule: RiskRule,
+    message: string,
+    request: RiskCheckRequest,
+    limit: number | null = null,
+    actual: number | null = null
+  ): never {
+    const rejection: RiskRejection = {
+      rule,
+      message,
+      code: request.code,
+      side: request.side,
+      quantity: request.quantity,
+      price: request.price,
+      limit,
+      actual,
+      at: new Date().toISOString(),
+    }
+
+    this.rejections.push(rejection)
+    if (this.rejections.length > MAX_REJECTIONS) {
+      this.rejections.shift()
+    }
+    console.warn(`[리스크] 주문 거부 (${rule}): ${request.code} ${request.side} ${request.quantity}주 - ${message}`)
+
+    const error = new Error(message)
+    ;(error as any).isRiskRejected = true
+    ;(error as any).rejection = rejection
+    throw error
+  }
+
+  private handleRealTimeData(data: any): void {
+    if (data?.trnm !== 'REAL' || !Array.isArray(data.data)) {
+      return
+    }
+
+    for (const item of data.data) {
+      if (item.type !== '00' || !item.values || !item.item) {
+        continue
+      }
+      // '10': 현재가 (부호 포함 문자열)
+      const price = Math.abs(parseFloat(String(item.values['10'] || '0').replace(/[,+\s]/g, ''))) || 0
+      if (price > 0) {
+        this.lastPrices.set(String(item.item).replace(/^A/, ''), { price, at: Date.now() })
+      }
+    }
+  }
+
+  private resetDailyStatsIfNeeded(): void {
+    const today = new Date().toDateString()
+    if (this.tradeDate !== today) {
+      this.tradeCounts.clear()
+      this.tradedStocks.clear()
+      this.tradeDate = today
+    }
+  }
+
+  private ensureLoaded(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = this.load()
+    }
+    return this.loadPromise
+  }
+
+  private async load(): Promise<void> {
+    try {
+      const data = await fs.readFile(RISK_SETTINGS_FILE, 'utf-8')
+      this.limits = this.normalizeLimits({ ...DEFAULT_RISK_LIMITS, ...JSON.parse(data) })
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        console.error('[리스크] 설정 파일 읽기 오류:', error.message)
+      }
+    }
+  }
+
+  private normalizeLimits(limits: RiskLimits): RiskLimits {
+    const toAmount = (value: any) => Math.max(0, Number(value) || 0)
+    return {
+      maxOrderAmount: toAmount(limits.maxOrderAmount),
+      dailyLossLimit: Math.abs(Number(limits.dailyLossLimit) || 0),
+      maxPositions: Math.floor(toAmount(limits.maxPositions)),
+      maxTradesPerStock: Math.floor(toAmount(limits.maxTradesPerStock)),
+      maxDailyStocks: Math.floor(toAmount(limits.maxDailyStocks)),
+      priceBandPercent: toAmount(limits.priceBandPercent),
+      restrictedStocks: Array.isArray(limits.restrictedStocks)
+        ? Array.from(new Set(limits.restrictedStocks.map(code => String(code).trim()).filter(Boolean)))
+        : [],
+      killSwitch: String(limits.killSwitch) === 'true',
+    }
+  }
+}
@@ -1,4 +1,5 @@
 import axios from 'axios'
+import { KiwoomService } from './kiwoomService'
 
 /**
  * 웹 기반 조건식 필터링 서비스
@@ -25,6 +26,25 @@ export interface StockData {
   pbr?: number
 }
 
+// 순위정보 API 기반 조건식 검색 결과 종목
+export interface ConditionSearchStock {
+  code: string
+  name: string
+  price: number
+  change: number // 전일대비 변동 금액
+  changeRate: number // 전일대비 등락률
+  volume: number
+  openPrice: number // 시가
+  highPrice: number // 고가
+  marketCap: number
+}
+
+// 조건식 검색 결과
+export interface ConditionSearchResult {
+  stocks: ConditionSearchStock[]
+  appliedConditions: string[]
+}
+
 export class StockConditionService {
   private static instance: StockConditionService
 
@@ -57,6 +77,115 @@ export class StockConditionService {
     ]
   }
 
+  /**
+   * 키움증권 순위정보 API로 조건식 검색
+   * 선택된 조건식별로 순위정보를 조회하고 종목코드 기준으로 중복 제거
+   */
+  async searchByRanking(conditions: Condition[]): Promise<ConditionSearchResult> {
+    const kiwoomService = KiwoomService.getInstance()
+    const enabledConditions = conditions.filter(c => c.enabled)
+    const stockMap = new Map<string, ConditionSearchStock>() // 중복 제거용
+
+    for (const condition of enabledConditions) {
+      try {
+        console.log(`조건식 조회 중: ${condition.name} (${condition.id})`)
+
+        // 키움증권 순위정보 API 호출
+        const response = await kiwoomService.getRankingInfo(condition.id)
+
+        // 키움증권 API 응답 구조 확인 (output 또는 output1 필드)
+        let stocks: any[] = []
+        if (response) {
+          if (Array.isArray(response.output)) {
+            stocks = response.output
+          } else if (Array.isArray(response.output1)) {
+            stocks = response.output1
+          } else if (response.output && typeof response.output === 'object') {
+            stocks = [response.output]
+          } else if (response.output1 && typeof response.output1 === 'object') {
+            stocks = [response.output1]
+          }
+        }
+
+        for (const stock of stocks) {
+          // 키움증권 API 응답 필드명 (다양한 형식 지원)
+          const code = stock.stk_cd || stock.STK_CD || stock.종목코드 || stock.ISCD || stock.code || ''
+          const name = stock.stk_nm || stock.STK_NM || stock.종목명 || stock.HANNAME || stock.name || ''
+          const price = parseFloat(stock.prc || stock.PRC || stock.현재가 || stock.PRICE || stock.price || '0')
+          const changeRate = parseFloat(
+            stock.prdy_chng_rt ||
+            stock.PRDY_CHNG_RT ||
+            stock.전일대비율 ||
+            stock.RATE ||
+            stock.changeRate ||
+            stock.changePercent ||
+            '0'
+          )
+          const volume = parseFloat(
+            stock.acml_vol ||
+            stock.ACML_VOL ||
+            stock.누적거래량 ||
+            stock.VOLUME ||
+            stock.volume ||
+            '0'
+          )
+
+          // 시가, 고가 파싱 (다양한 필드명 지원)
+          const openPrice = parseFloat(
+            stock.open_pric ||
+            stock.OPEN_PRIC ||
+            stock.open_price ||
+            stock.OPEN_PRICE ||
+            stock.open ||
+            stock.OPEN ||
+            stock.시가 ||
+            '0'
+          )
+          const highPrice = parseFloat(
+            stock.high_pric ||
+            stock.HIGH_PRIC ||
+            stock.high_price ||
+            stock.HIGH_PRICE ||
+            stock.high ||
+            stock.HIGH ||
+            stock.고가 ||
+            '0'
+          )
+
+          // 전일대비 변동 금액 계산 (등락률과 현재가로 계산)
+          const change = changeRate !== 0 && price > 0
+            ? (price * changeRate / 100)
+            : parseFloat(stock.pred_pre || stock.PRED_PRE || stock.전일대비 || stock.DIFF || stock.diff || '0')
+
+          if (code && code !== '0000' && !stockMap.has(code)) {
+            stockMap.set(code, {
+              code: code.toString().padStart(6, '0'), // 6자리 종목코드로 정규화
+              name: name || `종목${code}`,
+              price: price || 0,
+              change: change,
+              changeRate: changeRate || 0,
+              volume: volume || 0,
+              openPrice: openPrice || 0,
+              highPrice: highPrice || 0,
+              marketCap: 0,
+            })
+          }
+        }
+
+        console.log(`${condition.name}: ${stocks.length}개 종목 조회 완료 (중복 제거 후 ${stockMap.size}개)`)
+      } catch (error: any) {
+        console.error(`${condition.name} 조회 오류:`, error.message)
+        console.error('오류 상세:', error.response?.data || error)
+        // 오류가 발생해도 계속 진행
+      }
+    }
+
+    return {
+      stocks: Array.from(stockMap.values()),
+      appliedConditions: enabledConditions.map(c => c.name),
+    }
+  }
+
   /**
    * 네이버 증권에서 주식 데이터 가져오기
    * 크롤링 대신 공개 API 사용 권장
@@ -0,0 +1,275 @@
+/**
+ * 매수 전략 레지스트리
+ * 전략은 id, 파라미터 스키마, 판단 함수(evaluate)를 가진 Strategy로 등록하고
+ * 자동매매 엔진과 백테스트는 등록 순서대로 전략을 확인하는 checkBuySignal을 사용
+ * 새 전략은 Strategy를 구현해 register()로 추가 (설정 화면은 /api/strategies의 스키마로 입력 항목을 그림)
+ */
+import { BUILTIN_STRATEGIES } from './builtinStrategies'
+import {
+  CandleData,
+  StrategyParams,
+  StrategyResult,
+  StrategySetting,
+  BuyRuleConfig,
+  BuySignalStock,
+  SignalLog,
+  DEFAULT_MARKET_OPEN_BUY,
+  isBuyTime,
+  isExcludedStock,
+  toMinutes,
+} from './tradingStrategies'
+
+// 전략이 동작하는 시간대 (marketOpen: 장시작 구간, marketClose: 15:10~15:20, intraday: 그 외 장중)
+export type StrategySession = 'always' | 'marketOpen' | 'intraday' | 'marketClose'
+
+// 설정 화면에 표시할 파라미터 정의
+export interface StrategyParameter {
+  key: string
+  label: string
+  type: 'number' | 'boolean'
+  default: number | boolean
+}
+
+// 전략 판단에 전달되는 시세 정보
+export interface StrategyContext {
+  stock: BuySignalStock
+  candles: CandleData[] // 최신 분봉이 앞에 오는 순서
+  now: Date
+  relativeChange: number // 감지 시점 가격 대비 변화율 (%)
+  changeDiff: number // 감지 시점 대비 등락률 차이 (%p)
+}
+
+export interface Strategy {
+  id: string
+  name: string // 로그, 실현손익 전략별 집계에 쓰는 이름
+  description: string
+  session: StrategySession
+  usesCandles: boolean // 분봉 조회 필요 여부
+  defaultEnabled: boolean
+  exclusive?: boolean // 신호가 나면 이후 전략은 확인하지 않음
+  parameters: StrategyParameter[]
+  minCandles?: (params: StrategyParams) => number // evaluate에 필요한 최소 분봉 개수
+  evaluate: (context: StrategyContext, params: StrategyParams) => StrategyResult
+  fallback?: (context: StrategyContext, params: StrategyParams) => StrategyResult // 분봉이 부족할 때의 판단
+  gate?: (context: StrategyContext, params: StrategyParams) => boolean // false면 시간대 전략(session이 always가 아닌 전략)을 차단
+  fromLegacyConfig?: (config: BuyRuleConfig) => Partial<StrategySetting> // 기존 strategyXxx/xxxBuy 설정 변환
+}
+
+// /api/strategies 응답 (함수를 제외한 전략 정의)
+export interface StrategyDefinition {
+  id: string
+  name: string
+  description: string
+  session: StrategySession
+  usesCandles: boolean
+  defaultEnabled: boolean
+  parameters: StrategyParameter[]
+}
+
+export interface BuySignalResult {
+  signal: boolean
+  strategy: string | null // 처음 매수 신호를 낸 전략 이름
+  logs: SignalLog[]
+}
+
+const MARKET_CLOSE_START = 15 * 60 + 10 // 15:10
+const MARKET_CLOSE_END = 15 * 60 + 20 // 15:20
+
+export class StrategyRegistry {
+  private static instance: StrategyRegistry
+  private strategies: Map<string, Strategy> = new Map()
+
+  private constructor() {
+    for (const strategy of BUILTIN_STRATEGIES) {
+      this.register(strategy)
+    }
+  }
+
+  static getInstance(): StrategyRegistry {
+    if (!StrategyRegistry.instance) {
+      StrategyRegistry.instance = new StrategyRegistry()
+    }
+    return StrategyRegistry.instance
+  }
+
+  /**
+   * 전략 등록 (등록 순서대로 판단)
+   */
+  register(strategy: Strategy): void {
+    if (this.strategies.has(strategy.id)) {
+      throw new Error(`이미 등록된 전략입니다: ${strategy.id}`)
+    }
+    this.strategies.set(strategy.id, strategy)
+  }
+
+  get(id: string): Strategy | undefined {
+    return this.strategies.get(id)
+  }
+
+  list(): Strategy[] {
+    return Array.from(this.strategies.values())
+  }
+
+  getDefinitions(): StrategyDefinition[] {
+    return this.list().map(strategy => ({
+      id: strategy.id,
+      name: strategy.name,
+      description: strategy.description,
+      session: strategy.session,
+      usesCandles: strategy.usesCandles,
+      defaultEnabled: strategy.defaultEnabled,
+      parameters: strategy.parameters,
+    }))
+  }
+
+  /**
+   * 전략별 사용 여부와 파라미터
+   * 기본값 ← 기존 매매설정(strategyXxx, xxxBuy) ← config.strategies 순으로 덮어씀
+   */
+  resolveSettings(config: BuyRuleConfig): Record<string, StrategySetting> {
+    const settings: Record<string, StrategySetting> = {}
+    for (const strategy of this.strategies.values()) {
+      const params: StrategyParams = {}
+      for (const parameter of strategy.parameters) {
+        params[parameter.key] = parameter.default
+      }
+      const setting: StrategySetting = { enabled: strategy.defaultEnabled, params }
+
+      const sources = [strategy.fromLegacyConfig?.(config), config.strategies?.[strategy.id]]
+      for (const source of sources) {
+        if (!source) {
+          continue
+        }
+        if (typeof source.enabled === 'boolean') {
+          setting.enabled = source.enabled
+        }
+        for (const parameter of strategy.parameters) {
+          const value = source.params?.[parameter.key]
+          if (parameter.type === 'boolean' && typeof value === 'boolean') {
+            params[parameter.key] = value
+          } else if (parameter.type === 'number' && value !== undefined && value !== null && !isNaN(Number(value))) {
+            params[parameter.key] = Number(value)
+          }
+        }
+      }
+      settings[strategy.id] = setting
+    }
+    return settings
+  }
+}
+
+/**
+ * 분봉 분석이 필요한 전략이 하나라도 켜져 있는지 여부
+ */
+export function needsCandles(config: BuyRuleConfig): boolean {
+  const registry = StrategyRegistry.getInstance()
+  const settings = registry.resolveSettings(config)
+  return registry.list().some(strategy => strategy.usesCandles && settings[strategy.id].enabled)
+}
+
+/**
+ * 켜진 매수 전략 수 (라이선스 플랜 제한 확인용)
+ */
+export function countEnabledStrategies(config: BuyRuleConfig): number {
+  const settings = StrategyRegistry.getInstance().resolveSettings(config)
+  return Object.values(settings).filter(setting => setting.enabled).length
+}
+
+/**
+ * 현재 시각이 전략의 시간대에 해당하는지 여부
+ * 장시작 구간은 장시작급등주 전략의 시작/종료 시각 사용
+ */
+function isInSession(
+  session: StrategySession,
+  now: Date,
+  settings: Record<string, StrategySetting>
+): boolean {
+  if (session === 'always') {
+    return true
+  }
+
+  const marketOpen = settings.marketOpen?.params || {}
+  const getTime = (key: 'startHour' | 'startMinute' | 'endHour' | 'endMinute') =>
+    Number(marketOpen[key] ?? DEFAULT_MARKET_OPEN_BUY[key])
+  const currentTime = toMinutes(now)
+  const 장시작직후 = currentTime >= getTime('startHour') * 60 + getTime('startMinute') &&
+    currentTime < getTime('endHour') * 60 + getTime('endMinute')
+  const 장마감종가배팅 = currentTime >= MARKET_CLOSE_START && currentTime < MARKET_CLOSE_END
+
+  if (session === 'marketOpen') {
+    return 장시작직후
+  }
+  if (session === 'marketClose') {
+    return 장마감종가배팅
+  }
+  return !장시작직후 && !장마감종가배팅
+}
+
+/**
+ * 매수 신호 판단 (자동매매 엔진과 백테스트가 같은 판단을 쓰도록 분리)
+ * 켜진 전략을 등록 순서대로 확인하여 하나라도 신호가 나면 매수 (OR 조건)
+ * 보유/주문 여부, 매매횟수 제한은 호출하는 쪽에서 확인
+ */
+export function checkBuySignal(
+  stock: BuySignalStock,
+  candles: CandleData[],
+  config: BuyRuleConfig,
+  now: Date = new Date()
+): BuySignalResult {
+  const logs: SignalLog[] = []
+  const noSignal: BuySignalResult = { signal: false, strategy: null, logs }
+
+  // 매매 시간, 제외 종목, 실시간 시세 확인
+  if (!isBuyTime(config, now) || isExcludedStock(stock.name)) {
+    return noSignal
+  }
+
+  const 실시간가격 = stock.price || 0
+  if (실시간가격 <= 0) {
+    return noSignal
+  }
+
+  const 시작가격 = stock.startPrice || 실시간가격
+  const context: StrategyContext = {
+    stock: { ...stock, volume: stock.volume || 0 },
+    candles,
+    now,
+    relativeChange: 시작가격 > 0 ? ((실시간가격 - 시작가격) / 시작가격) * 100 : 0,
+    changeDiff: stock.changePercent - stock.detectedChangePercent,
+  }
+
+  const registry = StrategyRegistry.getInstance()
+  const settings = registry.resolveSettings(config)
+  const enabled = registry.list().filter(strategy => settings[strategy.id].enabled)
+  const 시간대전략차단 = enabled.some(strategy => strategy.gate && !strategy.gate(context, settings[strategy.id].params))
+
+  let strategyName: string | null = null
+  for (const strategy of enabled) {
+    const params = settings[strategy.id].params
+    if (strategy.session !== 'always' && (시간대전략차단 || !isInSession(strategy.session, now, settings))) {
+      continue
+    }
+
+    let result: StrategyResult
+    if (!strategy.usesCandles || candles.length >= (strategy.minCandles?.(params) ?? 0)) {
+      result = strategy.evaluate(context, params)
+    } else if (strategy.fallback) {
+      result = strategy.fallback(context, params)
+    } else {
+      continue
+    }
+
+    if (!result.signal) {
+      continue
+    }
+    if (result.message) {
+      logs.push({ message: result.message, level: result.level || 'success' })
+    }
+    strategyName = strategyName || strategy.name
+    if (strategy.exclusive) {
+      break
+    }
+  }
+
+  return { signal: strategyName !== null, strategy: strategyName, logs }
+}
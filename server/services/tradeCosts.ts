@@ -0,0 +1,53 @@
+/**
+ * 매매 비용 계산
+ * 증권사 수수료(매수/매도 모두)와 증권거래세(매도 시, 농어촌특별세 포함)를 따로 계산
+ * 자동매매 엔진 주문 수량, 백테스트, 실현손익 원장이 같은 규칙을 사용
+ */
+
+export interface FeeSettings {
+  commissionPercent: number // 증권사 매매 수수료율 (%, 매수/매도 각각)
+  taxPercent: number // 증권거래세율 (%, 매도 금액 기준)
+}
+
+export interface TradeCosts {
+  commission: number
+  tax: number
+}
+
+export const DEFAULT_FEE_SETTINGS: FeeSettings = {
+  commissionPercent: 0.015,
+  taxPercent: 0.2,
+}
+
+/**
+ * 수수료율/세율 정규화 (음수, 숫자가 아닌 값은 기본값)
+ */
+export function normalizeFeeSettings(settings: Partial<FeeSettings> = {}): FeeSettings {
+  const toRate = (value: any, fallback: number) => {
+    const rate = Number(value)
+    return value === undefined || value === null || value === '' || isNaN(rate) || rate < 0 ? fallback : rate
+  }
+  return {
+    commissionPercent: toRate(settings.commissionPercent, DEFAULT_FEE_SETTINGS.commissionPercent),
+    taxPercent: toRate(settings.taxPercent, DEFAULT_FEE_SETTINGS.taxPercent),
+  }
+}
+
+/**
+ * 체결 금액의 수수료와 세금 (원 미만 절사)
+ */
+export function calculateTradeCosts(side: 'buy' | 'sell', amount: number, fees: FeeSettings): TradeCosts {
+  const commission = Math.floor(amount * fees.commissionPercent / 100)
+  const tax = side === 'sell' ? Math.floor(amount * fees.taxPercent / 100) : 0
+  return { commission, tax }
+}
+
+/**
+ * 매수 가능 수량 (매수 수수료를 포함해 budget을 넘지 않도록)
+ */
+export function getAffordableQuantity(budget: number, price: number, fees: FeeSettings): number {
+  if (price <= 0) {
+    return 0
+  }
+  return Math.floor(budget / (price * (1 + fees.commissionPercent / 100)))
+}
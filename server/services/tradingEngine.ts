@@ -0,0 +1,1238 @@
+/**
+ * 자동매매 엔진 서비스
+ * 조건식 검색, 매수/매도 조건 판단, 주문 실행을 서버에서 수행하는 서비스 클래스
+ * 브라우저 탭이 닫혀 있어도 자동매매가 계속 실행되도록 AutoTrading.tsx의 실행 루프를 옮겨옴
+ */
+import { z } from 'zod'
+import { KiwoomService } from './kiwoomService'
+import { StockConditionService, Condition } from './stockConditionService'
+import { OrderManager, ManagedOrder } from './orderManager'
+import { RiskGuard } from './riskGuard'
+import { CircuitBreaker, CircuitBreakerState, HaltActions } from './circuitBreaker'
+import { TradingRepository } from './tradingRepository'
+import { PnlLedger } from './pnlLedger'
+import { BarBuilder } from './barBuilder'
+import { RealtimeSubscriptionManager } from './realtimeSubscriptions'
+import { getAffordableQuantity } from './tradeCosts'
+import {
+  CandleData,
+  StrategyStock,
+  BasicBuySettings,
+  MarketOpenBuySettings,
+  BollingerBuySettings,
+  MarketCloseBuySettings,
+  ScalpingBuySettings,
+  BreakoutBuySettings,
+  DEFAULT_BASIC_BUY,
+  DEFAULT_MARKET_OPEN_BUY,
+  DEFAULT_BOLLINGER_BUY,
+  DEFAULT_MARKET_CLOSE_BUY,
+  DEFAULT_SCALPING_BUY,
+  DEFAULT_BREAKOUT_BUY,
+  SellReason,
+  SignalLog,
+  isBuyTime,
+  isExcludedStock,
+  checkSellSignal,
+  StrategyOverrides,
+} from './tradingStrategies'
+import { needsCandles, checkBuySignal } from './strategyRegistry'
+
+// 종목별 매수가격 설정
+export interface BuyPriceSettings {
+  종목별매수가격설정실행: boolean
+  매수가격옵션: '시장가' | '지정가'
+  매수호가: number
+}
+
+// 자동매매 엔진 설정 (AutoTrading.tsx의 매매설정과 동일한 항목)
+export interface TradingEngineConfig {
+  accountNo: string
+  accountProductCode: string
+  conditions: Condition[]
+
+  // 매매 제한
+  amountPerStock: number // 종목당 투자금액
+  maxSimultaneousBuy: number // 최대 동시 보유 종목 수
+  tradeLimitPerStock: number // 종목당 매매허용횟수
+  maxDailyStocks: number // 당일 최대매매종목수
+  buyPriceSettings: BuyPriceSettings
+
+  // 매매시간
+  startHour: number
+  startMinute: number
+  endHour: number
+  endMinute: number
+  endSecond: number
+  dropSellTime: boolean // 시간 매도 사용 여부
+  dropSellStartHour: number
+  dropSellStartMinute: number
+  dropSellEndSecond: number
+
+  // 매도 조건
+  profitTarget: number // 익절 기준 (%)
+  profitType: 'market' | 'limit'
+  lossLimit: number // 손절 기준 (%)
+  lossType: 'market' | 'limit'
+  lossPriceOffset: number // 지정가 손절 시 현재가 대비 가격 조정
+  stopLossEnabled: boolean // 시장가 손절 사용 여부
+  stopLossRate: number // 시장가 손절 기준 (%)
+  trailingStop: boolean
+  trailingProfitThreshold: number // 트레일링 시작 수익률 (%)
+  trailingDropThreshold: number // 최고점 대비 하락률 (%)
+
+  // 매매기법
+  buyFormula1: boolean // My_매수신호_1
+  strategyBasicBuy: boolean
+  strategyMarketOpen: boolean
+  strategyBollinger: boolean
+  strategyScalping: boolean
+  strategyBreakout: boolean
+  strategyMarketClose: boolean
+  basicBuy: BasicBuySettings
+  marketOpenBuy: MarketOpenBuySettings
+  bollingerBuy: BollingerBuySettings
+  marketCloseBuy: MarketCloseBuySettings
+  scalpingBuy: ScalpingBuySettings
+  breakoutBuy: BreakoutBuySettings
+  strategies: StrategyOverrides // 전략 레지스트리 설정 (id → 사용 여부/파라미터, 위 항목보다 우선)
+
+  // 실행 주기
+  cycleInterval: number // 조건식 검색 + 매수 확인 주기 (ms)
+  sellCheckInterval: number // 보유종목 매도 조건 확인 주기 (ms)
+  minOrderInterval: number // 주문 간 최소 간격 (ms)
+}
+
+// 조건식으로 검색된 종목
+export interface EngineDetectedStock extends StrategyStock {
+  change: number
+  detectedCondition: string
+  detectedTime: string
+  startPrice: number // 자동매매 시작(감지) 시점의 가격
+  detectedChangePercent: number // 조건 감지 시점의 등락률
+}
+
+// 보유 종목
+export interface EngineHolding {
+  code: string
+  name: string
+  quantity: number
+  purchasePrice: number
+  currentPrice: number
+  profit: number
+  profitPercent: number
+  maxProfitPercent: number
+}
+
+// 엔진 로그
+export interface EngineLog {
+  id: number
+  time: string
+  message: string
+  level: 'info' | 'warning' | 'error' | 'success'
+}
+
+// 엔진 상태 (WebSocket 및 /api/trading/status 응답)
+export interface TradingEngineStatus {
+  running: boolean
+  startedAt: string | null
+  lastCycleAt: string | null
+  accountNo: string | null
+  detectedStocks: EngineDetectedStock[]
+  holdings: EngineHolding[]
+  dailyTradeCount: number
+  stockTradeCounts: Record<string, number>
+  restrictedStocks: string[]
+  circuitBreaker: CircuitBreakerState
+  logs: EngineLog[]
+}
+
+// 수동 정지 요청 (POST /api/trading/halt, 생략한 조치는 서킷 브레이커 설정을 따름)
+export interface HaltRequest {
+  message?: string
+  cancelOpenOrders?: boolean
+  flattenPositions?: boolean
+  accountNo?: string
+  accountProductCode?: string
+}
+
+export type TradingEngineEvent =
+  | { type: 'status'; data: TradingEngineStatus }
+  | { type: 'log'; data: EngineLog }
+
+type TradingEngineEventCallback = (event: TradingEngineEvent) => void
+
+// 매수 조건 확인 결과
+interface BuyDecision {
+  signal: boolean
+  strategy: string | null // 매수 신호를 낸 전략
+}
+
+export const DEFAULT_ENGINE_CONFIG: TradingEngineConfig = {
+  accountNo: '',
+  accountProductCode: '01',
+  conditions: [],
+  amountPerStock: 5000000,
+  maxSimultaneousBuy: 10,
+  tradeLimitPerStock: 30,
+  maxDailyStocks: 50,
+  buyPriceSettings: {
+    종목별매수가격설정실행: true,
+    매수가격옵션: '지정가',
+    매수호가: 0,
+  },
+  startHour: 9,
+  startMinute: 0,
+  endHour: 15,
+  endMinute: 29,
+  endSecond: 59,
+  dropSellTime: false,
+  dropSellStartHour: 15,
+  dropSellStartMinute: 19,
+  dropSellEndSecond: 10,
+  profitTarget: 10.0,
+  profitType: 'market',
+  lossLimit: -1.5,
+  lossType: 'market',
+  lossPriceOffset: 0,
+  stopLossEnabled: true,
+  stopLossRate: -2.0,
+  trailingStop: true,
+  trailingProfitThreshold: 5.0,
+  trailingDropThreshold: -1.0,
+  buyFormula1: false,
+  strategyBasicBuy: true,
+  strategyMarketOpen: true,
+  strategyBollinger: true,
+  strategyScalping: true,
+  strategyBreakout: true,
+  strategyMarketClose: true,
+  basicBuy: DEFAULT_BASIC_BUY,
+  marketOpenBuy: DEFAULT_MARKET_OPEN_BUY,
+  bollingerBuy: DEFAULT_BOLLINGER_BUY,
+  marketCloseBuy: DEFAULT_MARKET_CLOSE_BUY,
+  scalpingBuy: DEFAULT_SCALPING_BUY,
+  breakoutBuy: DEFAULT_BREAKOUT_BUY,
+  strategies: {},
+  cycleInterval: 30000, // 30초마다 (API 제한 고려)
+  sellCheckInterval: 3000, // 3초마다
+  minOrderInterval: 5000, // 5초 (API 요청 제한 방지)
+}
+
+// 기본값과 같은 항목의 매매기법 설정 스키마 (보낸 항목만 검사, 빠진 항목은 기본값으로 채움)
+function buySettingsSchema<T extends object>(defaults: T): z.ZodType<Partial<T>> {
+  const shape: Record<string, z.ZodTypeAny> = {}
+  for (const [key, value] of Object.entries(defaults)) {
+    shape[key] = typeof value === 'boolean' ? z.boolean() : z.number().finite()
+  }
+  return z.object(shape).partial() as unknown as z.ZodType<Partial<T>>
+}
+
+const hourSchema = z.number().int().min(0).max(23)
+const minuteSchema = z.number().int().min(0).max(59)
+const countSchema = z.number().int().nonnegative()
+
+// 자동매매 시작 요청 설정 (모든 항목 선택, 모르는 항목은 무시)
+const engineConfigSchema = z.object({
+  accountNo: z.string().trim(),
+  accountProductCode: z.string().trim().min(1),
+  conditions: z.array(z.object({
+    id: z.string(),
+    name: z.string(),
+    description: z.string().default(''),
+    enabled: z.boolean(),
+  })),
+  amountPerStock: z.number().finite().positive(),
+  maxSimultaneousBuy: countSchema,
+  tradeLimitPerStock: countSchema,
+  maxDailyStocks: countSchema,
+  buyPriceSettings: z.object({
+    종목별매수가격설정실행: z.boolean(),
+    매수가격옵션: z.enum(['시장가', '지정가']),
+    매수호가: z.number().int(),
+  }).partial(),
+  startHour: hourSchema,
+  startMinute: minuteSchema,
+  endHour: hourSchema,
+  endMinute: minuteSchema,
+  endSecond: minuteSchema,
+  dropSellTime: z.boolean(),
+  dropSellStartHour: hourSchema,
+  dropSellStartMinute: minuteSchema,
+  dropSellEndSecond: minuteSchema,
+  profitTarget: z.number().finite(),
+  profitType: z.enum(['market', 'limit']),
+  lossLimit: z.number().finite(),
+  lossType: z.enum(['market', 'limit']),
+  lossPriceOffset: z.number().finite(),
+  stopLossEnabled: z.boolean(),
+  stopLossRate: z.number().finite(),
+  trailingStop: z.boolean(),
+  trailingProfitThreshold: z.number().finite(),
+  trailingDropThreshold: z.number().finite(),
+  buyFormula1: z.boolean(),
+  strategyBasicBuy: z.boolean(),
+  strategyMarketOpen: z.boolean(),
+  strategyBollinger: z.boolean(),
+  strategyScalping: z.boolean(),
+  strategyBreakout: z.boolean(),
+  strategyMarketClose: z.boolean(),
+  basicBuy: buySettingsSchema(DEFAULT_BASIC_BUY),
+  marketOpenBuy: buySettingsSchema(DEFAULT_MARKET_OPEN_BUY),
+  bollingerBuy: buySettingsSchema(DEFAULT_BOLLINGER_BUY),
+  marketCloseBuy: buySettingsSchema(DEFAULT_MARKET_CLOSE_BUY),
+  scalpingBuy: buySettingsSchema(DEFAULT_SCALPING_BUY),
+  breakoutBuy: buySettingsSchema(DEFAULT_BREAKOUT_BUY),
+  strategies: z.record(z.object({
+    enabled: z.boolean().optional(),
+    params: z.record(z.union([z.number().finite(), z.boolean()])).optional(),
+  })),
+  cycleInterval: z.number().int().min(1000),
+  sellCheckInterval: z.number().int().min(1000),
+  minOrderInterval: z.number().int().nonnegative(),
+}).partial()
+
+/**
+ * 자동매매 설정 검증 및 기본값 병합 (중첩된 설정도 빠진 항목만 기본값으로 채움)
+ * 형식이 잘못되면 isInvalidConfig 에러
+ */
+export function parseEngineConfig(input: unknown): TradingEngineConfig {
+  const result = engineConfigSchema.safeParse(input ?? {})
+  if (!result.success) {
+    const detail = result.error.issues
+      .map(issue => `${issue.path.join('.') || '(전체)'}: ${issue.message}`)
+      .join(', ')
+    const error = new Error(`자동매매 설정이 올바르지 않습니다 (${detail})`)
+    ;(error as any).isInvalidConfig = true
+    throw error
+  }
+
+  const config = result.data
+  return {
+    ...DEFAULT_ENGINE_CONFIG,
+    ...config,
+    buyPriceSettings: { ...DEFAULT_ENGINE_CONFIG.buyPriceSettings, ...config.buyPriceSettings },
+    basicBuy: { ...DEFAULT_BASIC_BUY, ...config.basicBuy },
+    marketOpenBuy: { ...DEFAULT_MARKET_OPEN_BUY, ...config.marketOpenBuy },
+    bollingerBuy: { ...DEFAULT_BOLLINGER_BUY, ...config.bollingerBuy },
+    marketCloseBuy: { ...DEFAULT_MARKET_CLOSE_BUY, ...config.marketCloseBuy },
+    scalpingBuy: { ...DEFAULT_SCALPING_BUY, ...config.scalpingBuy },
+    breakoutBuy: { ...DEFAULT_BREAKOUT_BUY, ...config.breakoutBuy },
+    strategies: config.strategies || {},
+  }
+}
+
+const MAX_LOGS = 200 // 보관할 최대 로그 개수
+const STRATEGY_CONSUMER = 'strategy' // 조건식 검색 종목 실시간 구독자
+const POSITIONS_CONSUMER = 'positions' // 보유 종목 실시간 구독자
+const BALANCE_EVALUATION_INTERVAL = 5000 // 잔고 실시간 이벤트로 서킷 브레이커를 평가하는 최소 간격 (ms)
+
+export class TradingEngine {
+  private static instance: TradingEngine
+  private kiwoomService = KiwoomService.getInstance()
+  private stockConditionService = StockConditionService.getInstance()
+  private orderManager = OrderManager.getInstance()
+  private riskGuard = RiskGuard.getInstance()
+  private circuitBreaker = CircuitBreaker.getInstance()
+  private tradingRepository = TradingRepository.getInstance()
+  private pnlLedger = PnlLedger.getInstance()
+  private barBuilder = BarBuilder.getInstance()
+  private subscriptions = RealtimeSubscriptionManager.getInstance()
+  private config: TradingEngineConfig = DEFAULT_ENGINE_CONFIG
+  private running: boolean = false
+  private startedAt: Date | null = null
+  private lastCycleAt: Date | null = null
+  private cycleTimer: NodeJS.Timeout | null = null
+  private sellTimer: NodeJS.Timeout | null = null
+  private cycleInProgress: boolean = false
+  private sellCheckInProgress: boolean = false
+  private unsubscribeRealTime: (() => void) | null = null
+  private unsubscribeOrders: (() => void) | null = null
+  private eventCallbacks: Set<TradingEngineEventCallback> = new Set()
+  private breakerEvaluating: boolean = false // 엔진 루프 밖에서 서킷 브레이커 평가 중
+  private breakerEvaluationAccounts: Set<string> = new Set() // 평가 중에 다시 평가를 요청한 계좌
+  private lastBalanceEvaluationAt: number = 0
+
+  // 매매 상태
+  private detectedStocks: Map<string, EngineDetectedStock> = new Map()
+  private holdings: Map<string, EngineHolding> = new Map()
+  private stockTradeCounts: Map<string, number> = new Map() // 종목별 매매 횟수
+  private dailyTradedStocks: Set<string> = new Set() // 당일 매매한 종목 목록
+  private restrictedStocks: Set<string> = new Set() // 매매제한 종목 목록 (재시도 방지)
+  private orderedOrHoldingStocks: Set<string> = new Set() // 매수 주문했거나 보유 중인 종목
+  private sellOrderedStocks: Set<string> = new Set() // 매도 주문 후 잔고에서 빠지기 전인 종목 (중복 매도 방지)
+  private tradeDate: string = new Date().toDateString()
+  private lastOrderTime: number = 0
+  private logs: EngineLog[] = []
+  private logId: number = 0
+
+  private constructor() {
+    this.circuitBreaker.onChange(() => this.emitStatus())
+
+    // 엔진이 정지 중이어도 수동 주문 체결과 잔고 변경으로 당일 손실 한도 확인
+    this.orderManager.onOrderUpdate((order) => {
+      if (order.filledQuantity > 0) {
+        this.requestCircuitBreakerEvaluation(order.accountNo)
+      }
+    })
+    this.kiwoomService.onBalanceChange((event) => {
+      if (Date.now() - this.lastBalanceEvaluationAt >= BALANCE_EVALUATION_INTERVAL) {
+        this.lastBalanceEvaluationAt = Date.now()
+        this.requestCircuitBreakerEvaluation(event.accountNo)
+      }
+    })
+  }
+
+  static getInstance(): TradingEngine {
+    if (!TradingEngine.instance) {
+      TradingEngine.instance = new TradingEngine()
+    }
+    return TradingEngine.instance
+  }
+
+  /**
+   * 자동매매 시작 (설정은 parseEngineConfig로 검증)
+   */
+  start(config: unknown): void {
+    if (this.running) {
+      throw new Error('자동매매가 이미 실행 중입니다')
+    }
+
+    if (!this.kiwoomService.isConnected()) {
+      throw new Error('키움증권 API에 먼저 연결해주세요')
+    }
+
+    this.config = parseEngineConfig(config)
+
+    if (!this.config.conditions.some(c => c.enabled)) {
+      throw new Error('조건식을 최소 1개 이상 선택해주세요')
+    }
+
+    if (!this.kiwoomService.isMockApi() && !this.config.accountNo) {
+      throw new Error('계좌번호가 필요합니다')
+    }
+
+    this.running = true
+    this.startedAt = new Date()
+    this.detectedStocks.clear()
+
+    // 실시간 시세로 검색 종목/보유 종목 가격 갱신
+    this.unsubscribeRealTime = this.kiwoomService.onRealTimeData((data) => this.handleRealTimeData(data))
+    this.unsubscribeOrders = this.orderManager.onOrderUpdate((order) => this.handleOrderUpdate(order))
+
+    // 첫 실행은 약간의 딜레이 후
+    this.cycleTimer = setTimeout(() => this.runCycle(), 2000)
+    this.sellTimer = setInterval(() => this.checkHoldingsForSell(), this.config.sellCheckInterval)
+
+    this.addLog('자동매매 시작', 'success')
+    this.emitStatus()
+  }
+
+  /**
+   * 자동매매 중지
+   */
+  stop(): void {
+    if (!this.running) {
+      return
+    }
+
+    this.running = false
+    if (this.cycleTimer) {
+      clearTimeout(this.cycleTimer)
+      this.cycleTimer = null
+    }
+    if (this.sellTimer) {
+      clearInterval(this.sellTimer)
+      this.sellTimer = null
+    }
+    if (this.unsubscribeRealTime) {
+      this.unsubscribeRealTime()
+      this.unsubscribeRealTime = null
+    }
+    if (this.unsubscribeOrders) {
+      this.unsubscribeOrders()
+      this.unsubscribeOrders = null
+    }
+    this.subscriptions.release(STRATEGY_CONSUMER)
+    this.subscriptions.release(POSITIONS_CONSUMER)
+
+    this.addLog('자동매매 중지', 'warning')
+    this.emitStatus()
+  }
+
+  /**
+   * 실행 여부 확인
+   */
+  isRunning(): boolean {
+    return this.running
+  }
+
+  /**
+   * 수동 매매 정지 (서킷 브레이커 작동 후 미체결 취소/전량 매도)
+   * 엔진은 계속 실행되어 보유 종목 매도(손절/익절)는 유지되고 신규 매수만 차단됨
+   */
+  async halt(request: HaltRequest = {}): Promise<CircuitBreakerState> {
+    const tripped = await this.circuitBreaker.trip('manual', request.message || '수동 매매 정지')
+    if (tripped) {
+      this.addLog(`[서킷 브레이커] 매매 정지: ${request.message || '수동 매매 정지'}`, 'error')
+      await this.executeHaltActions(request)
+    }
+    return this.circuitBreaker.getState()
+  }
+
+  /**
+   * 현재 엔진 상태 조회
+   */
+  getStatus(): TradingEngineStatus {
+    return {
+      running: this.running,
+      startedAt: this.startedAt?.toISOString() || null,
+      lastCycleAt: this.lastCycleAt?.toISOString() || null,
+      accountNo: this.running ? this.config.accountNo : null,
+      detectedStocks: Array.from(this.detectedStocks.values()),
+      holdings: Array.from(this.holdings.values()),
+      dailyTradeCount: this.dailyTradedStocks.size,
+      stockTradeCounts: Object.fromEntries(this.stockTradeCounts),
+      restrictedStocks: Array.from(this.restrictedStocks),
+      circuitBreaker: this.circuitBreaker.getSnapshot(),
+      logs: this.logs.slice(0, 100),
+    }
+  }
+
+  /**
+   * 엔진 이벤트 콜백 등록 (상태 변경, 로그)
+   */
+  onEvent(callback: TradingEngineEventCallback): () => void {
+    this.eventCallbacks.add(callback)
+    // 콜백 제거 함수 반환
+    return () => {
+      this.eventCallbacks.delete(callback)
+    }
+  }
+
+  private emit(event: TradingEngineEvent): void {
+    this.eventCallbacks.forEach((callback) => {
+      try {
+        callback(event)
+      } catch (error) {
+        console.error('[자동매매 엔진] 콜백 실행 오류:', error)
+      }
+    })
+  }
+
+  private emitStatus(): void {
+    this.emit({ type: 'status', data: this.getStatus() })
+  }
+
+  private addLog(message: string, level: EngineLog['level'] = 'info'): void {
+    const log: EngineLog = {
+      id: ++this.logId,
+      time: new Date().toLocaleTimeString('ko-KR'),
+      message,
+      level,
+    }
+    this.logs.unshift(log)
+    if (this.logs.length > MAX_LOGS) {
+      this.logs.length = MAX_LOGS
+    }
+    console.log(`[자동매매 엔진] ${message}`)
+    this.emit({ type: 'log', data: log })
+  }
+
+  private delay(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms))
+  }
+
+  /**
+   * 자동매매 1회 실행 (조건식 검색 → 매수 조건 확인 → 매도 조건 확인)
+   * 실행이 끝난 뒤 다음 실행을 예약하여 주기가 겹치지 않도록 함
+   */
+  private async runCycle(): Promise<void> {
+    if (!this.running || this.cycleInProgress) {
+      return
+    }
+
+    this.cycleInProgress = true
+    try {
+      this.resetDailyStatsIfNeeded()
+      await this.refreshHoldings()
+      await this.orderManager.syncIfStale(this.config.accountNo) // 주문 내역으로 체결 누락 보정 (실시간 체결 수신 중이면 1분마다)
+      await this.evaluateCircuitBreaker(this.config.accountNo)
+      await this.searchConditions()
+      await this.checkDetectedStocksForBuy()
+      await this.checkHoldingsForSell()
+      this.lastCycleAt = new Date()
+    } catch (error: any) {
+      console.error('자동매매 실행 오류:', error)
+      this.addLog(`[자동매매] 실행 오류: ${error.message}`, 'error')
+    } finally {
+      this.cycleInProgress = false
+      if (this.running) {
+        this.cycleTimer = setTimeout(() => this.runCycle(), this.config.cycleInterval)
+      }
+      this.emitStatus()
+    }
+  }
+
+  /**
+   * 날짜 변경 시 당일 매매 통계 초기화
+   */
+  private resetDailyStatsIfNeeded(): void {
+    const today = new Date().toDateString()
+    if (this.tradeDate !== today) {
+      this.stockTradeCounts.clear()
+      this.dailyTradedStocks.clear()
+      this.restrictedStocks.clear() // 매매제한 종목 목록도 초기화
+      this.tradeDate = today
+      this.addLog('새로운 거래일 시작 - 매매 통계 초기화', 'info')
+    }
+  }
+
+  /**
+   * 엔진 루프 밖(체결, 잔고 변경)에서 서킷 브레이커 평가 요청
+   * 평가 중이면 끝난 뒤 요청된 계좌만 한 번씩 다시 평가 (체결이 몰려도 손익 조회가 쌓이지 않도록)
+   */
+  private requestCircuitBreakerEvaluation(accountNo: string): void {
+    const account = accountNo || (this.startedAt ? this.config.accountNo : '')
+    this.breakerEvaluationAccounts.add(account)
+    if (this.breakerEvaluating) {
+      return
+    }
+
+    this.breakerEvaluating = true
+    void (async () => {
+      try {
+        while (this.breakerEvaluationAccounts.size > 0) {
+          const accounts = Array.from(this.breakerEvaluationAccounts)
+          this.breakerEvaluationAccounts.clear()
+          for (const account of accounts) {
+            await this.evaluateCircuitBreaker(account)
+          }
+        }
+      } catch (error: any) {
+        console.error('[서킷 브레이커] 손익 평가 오류:', error.message)
+      } finally {
+        this.breakerEvaluating = false
+      }
+    })()
+  }
+
+  /**
+   * 당일 손익(실현손익 + 보유 종목 평가손익)으로 서킷 브레이커 평가
+   * 손실 한도에 도달하면 해당 계좌로 정지 조치 실행
+   */
+  private async evaluateCircuitBreaker(accountNo: string): Promise<void> {
+    const unrealizedPnl = await this.getUnrealizedPnl(accountNo)
+    const realizedPnl = await this.riskGuard.getDailyRealizedPnl(accountNo)
+    const pnl = realizedPnl + unrealizedPnl
+    this.tradingRepository.recordDailyPnl(accountNo, realizedPnl, unrealizedPnl)
+
+    if (await this.circuitBreaker.evaluate(pnl)) {
+      this.addLog(`[서킷 브레이커] 매매 정지: ${this.circuitBreaker.getSnapshot().message}`, 'error')
+      await this.executeHaltActions({ accountNo })
+    }
+  }
+
+  /**
+   * 보유 종목 평가손익 (엔진 실행 중인 계좌는 엔진 보유 종목, 그 외에는 잔고 조회)
+   */
+  private async getUnrealizedPnl(accountNo: string): Promise<number> {
+    if (this.running && accountNo === this.config.accountNo) {
+      return Array.from(this.holdings.values()).reduce((sum, holding) => sum + holding.profit, 0)
+    }
+    if (!this.kiwoomService.isConnected() || (!accountNo && !this.kiwoomService.isMockApi())) {
+      return 0
+    }
+
+    const accountProductCode = this.startedAt ? this.config.accountProductCode : DEFAULT_ENGINE_CONFIG.accountProductCode
+    const result = await this.kiwoomService.getBalance(accountNo, accountProductCode)
+    const stocks: any[] = Array.isArray(result) ? result : result?.stocks || []
+    return stocks.reduce((sum, stock) => {
+      const quantity = Number(stock.quantity) || 0
+      const purchasePrice = Number(stock.purchasePrice) || 0
+      const currentPrice = Number(stock.currentPrice) || 0
+      return quantity > 0 && purchasePrice > 0 && currentPrice > 0 ? sum + (currentPrice - purchasePrice) * quantity : sum
+    }, 0)
+  }
+
+  /**
+   * 정지 시 조치 실행 (미체결 주문 취소, 보유 종목 시장가 전량 매도)
+   * 주문은 주문한 계좌로 취소하고, 전량 매도 계좌는 요청의 계좌 → 실행한 적 있는 엔진의 계좌 순
+   * (엔진을 시작한 적이 없고 계좌도 지정하지 않았으면 실전투자에서는 전량 매도하지 않음)
+   */
+  private async executeHaltActions(request: HaltRequest): Promise<void> {
+    const { config } = this.circuitBreaker.getSnapshot()
+    const cancelOpenOrders = request.cancelOpenOrders ?? config.cancelOpenOrders
+    const flattenPositions = request.flattenPositions ?? config.flattenPositions
+    const engineAccount = this.startedAt ? this.config : null
+    const accountNo = request.accountNo || engineAccount?.accountNo || ''
+    const accountProductCode = request.accountProductCode || engineAccount?.accountProductCode || DEFAULT_ENGINE_CONFIG.accountProductCode
+    const actions: HaltActions = { cancelledOrders: [], flattenedStocks: [], errors: [] }
+
+    if (cancelOpenOrders) {
+      for (const order of this.orderManager.getOrders({ active: true })) {
+        if (!order.orderNumber) {
+          continue
+        }
+        try {
+          await this.orderManager.cancel(order.orderNumber, { code: order.code }, order.accountNo || accountNo, accountProductCode)
+          actions.cancelledOrders.push(order.orderNumber)
+        } catch (error: any) {
+          actions.errors.push(`${order.orderNumber} 취소 실패: ${error.message}`)
+        }
+      }
+    }
+
+    if (flattenPositions && !accountNo && !this.kiwoomService.isMockApi()) {
+      actions.errors.push('계좌번호를 알 수 없어 보유 종목을 매도하지 못했습니다 (accountNo를 지정해주세요)')
+    } else if (flattenPositions) {
+      const result = await this.kiwoomService.getBalance(accountNo, accountProductCode)
+      const stocks: any[] = Array.isArray(result) ? result : []
+      if (!Array.isArray(result)) {
+        actions.errors.push(`보유 종목 조회 실패: ${result?.error || '알 수 없는 오류'}`)
+      }
+
+      for (const stock of stocks) {
+        const code = String(stock.code || '').trim()
+        if (!code || !(stock.quantity > 0)) {
+          continue
+        }
+        try {
+          await this.orderManager.submit(
+            { code, name: stock.name, quantity: stock.quantity, price: 0, order_type: 'sell', order_option: '03', source: 'engine' },
+            accountNo,
+            accountProductCode
+          )
+          this.holdings.delete(code)
+          this.sellOrderedStocks.add(code)
+          actions.flattenedStocks.push(code)
+        } catch (error: any) {
+          actions.errors.push(`${stock.name || code} 매도 실패: ${error.message}`)
+        }
+      }
+    }
+
+    this.addLog(
+      `[서킷 브레이커] 미체결 취소 ${actions.cancelledOrders.length}건, 전량 매도 ${actions.flattenedStocks.length}종목` +
+        (actions.errors.length > 0 ? `, 실패 ${actions.errors.length}건` : ''),
+      actions.errors.length > 0 ? 'warning' : 'info'
+    )
+    await this.circuitBreaker.recordActions(actions)
+  }
+
+  /**
+   * 보유 종목 갱신 (최고 수익률은 기존 값 유지)
+   */
+  private async refreshHoldings(): Promise<void> {
+    const result = await this.kiwoomService.getBalance(this.config.accountNo, this.config.accountProductCode)
+    const stocks: any[] = Array.isArray(result) ? result : result?.stocks || []
+
+    if (!Array.isArray(result) && result?.error) {
+      console.log(`[자동매매 엔진] 보유 종목 조회 실패: ${result.error}`)
+      return
+    }
+
+    const updated = new Map<string, EngineHolding>()
+    const balanceCodes = new Set(stocks.map(stock => String(stock.code || '').trim()))
+    this.sellOrderedStocks.forEach(code => {
+      if (!balanceCodes.has(code)) {
+        this.sellOrderedStocks.delete(code) // 매도 체결 완료
+      }
+    })
+
+    for (const stock of stocks) {
+      const code = String(stock.code || '').trim()
+      if (!code || !stock.quantity || this.sellOrderedStocks.has(code)) {
+        continue
+      }
+      const previous = this.holdings.get(code)
+      const currentPrice = previous?.currentPrice || stock.currentPrice || 0
+      const holding = this.calculateHolding({
+        code,
+        name: stock.name || code,
+        quantity: stock.quantity,
+        purchasePrice: stock.purchasePrice || 0,
+        currentPrice,
+        profit: 0,
+        profitPercent: 0,
+        maxProfitPercent: previous?.maxProfitPercent ?? stock.maxProfitPercent ?? 0,
+      })
+      updated.set(code, holding)
+      this.orderedOrHoldingStocks.add(code)
+    }
+
+    this.holdings = updated
+    if (this.running) {
+      this.subscriptions.setSubscriptions(POSITIONS_CONSUMER, Array.from(updated.keys()))
+    }
+    this.tradingRepository.recordPositions(this.config.accountNo, stocks)
+  }
+
+  /**
+   * 현재가 기준 수익/수익률 및 최고 수익률 계산
+   */
+  private calculateHolding(holding: EngineHolding): EngineHolding {
+    const profit = (holding.currentPrice - holding.purchasePrice) * holding.quantity
+    const profitPercent = holding.purchasePrice > 0
+      ? ((holding.currentPrice - holding.purchasePrice) / holding.purchasePrice) * 100
+      : 0
+    return {
+      ...holding,
+      profit,
+      profitPercent,
+      maxProfitPercent: Math.max(holding.maxProfitPercent, profitPercent),
+    }
+  }
+
+  /**
+   * 조건식 검색 실행 후 검색 종목 갱신
+   * 기존 종목의 시작 가격과 감지 시점 등락률은 유지
+   */
+  private async searchConditions(): Promise<void> {
+    const enabledConditions = this.config.conditions.filter(c => c.enabled)
+    if (enabledConditions.length === 0) {
+      return
+    }
+
+    const result = await this.stockConditionService.searchByRanking(enabledConditions)
+
+    if (result.stocks.length === 0) {
+      console.log('[자동매매 엔진] 조건식 검색 결과가 없습니다')
+      return
+    }
+
+    const updated = new Map<string, EngineDetectedStock>()
+    for (const stock of result.stocks) {
+      // 이미 주문했거나 보유 중인 종목은 검색 종목에서 제외
+      if (this.orderedOrHoldingStocks.has(stock.code)) {
+        continue
+      }
+      const existing = this.detectedStocks.get(stock.code)
+      updated.set(stock.code, {
+        code: stock.code,
+        name: stock.name,
+        price: existing?.price || stock.price,
+        change: stock.change,
+        changePercent: existing?.changePercent ?? stock.changeRate,
+        volume: existing?.volume || stock.volume,
+        detectedCondition: result.appliedConditions.join(', '),
+        detectedTime: existing?.detectedTime || new Date().toLocaleTimeString('ko-KR'),
+        startPrice: existing?.startPrice || stock.price,
+        detectedChangePercent: existing?.detectedChangePercent ?? stock.changeRate,
+      })
+    }
+    this.detectedStocks = updated
+
+    console.log(`[자동매매 엔진] 조건식 검색 완료: ${updated.size}개 종목`)
+
+    // 검색 종목 실시간 시세 구독 (검색에서 빠진 종목은 해지, 보유 종목은 refreshHoldings에서 구독)
+    if (this.running) {
+      this.subscriptions.setSubscriptions(STRATEGY_CONSUMER, Array.from(updated.keys()))
+    }
+  }
+
+  /**
+   * 실시간 시세 수신 처리 (주식체결 '00')
+   */
+  private handleRealTimeData(data: any): void {
+    if (data?.trnm !== 'REAL' || !Array.isArray(data.data)) {
+      return
+    }
+
+    for (const item of data.data) {
+      if (item.type !== '00' || !item.values || !item.item) {
+        continue
+      }
+
+      const code = item.item
+      const values = item.values
+      // '10': 현재가, '12': 등락률, '13': 누적거래량 (부호, 쉼표 포함 문자열)
+      const currentPrice = Math.abs(parseFloat(String(values['10'] || '0').replace(/[,+\s]/g, ''))) || 0
+      const changePercent = parseFloat(String(values['12'] || '0').replace(/[,+\s]/g, '')) || 0
+      const volume = Math.abs(parseFloat(String(values['13'] || '0').replace(/[,+\s]/g, ''))) || 0
+
+      if (currentPrice <= 0) {
+        continue
+      }
+
+      const detected = this.detectedStocks.get(code)
+      if (detected) {
+        detected.price = currentPrice
+        detected.changePercent = changePercent
+        if (volume > 0) {
+          detected.volume = volume
+        }
+      }
+
+      const holding = this.holdings.get(code)
+      if (holding) {
+        this.holdings.set(code, this.calculateHolding({ ...holding, currentPrice }))
+      }
+    }
+  }
+
+  /**
+   * 1분봉 조회 (실시간 분봉 생성기, 처음 보는 종목만 차트 API 조회)
+   */
+  private async getCandleData(code: string): Promise<CandleData[]> {
+    try {
+      return await this.barBuilder.getBars(code, 1)
+    } catch (error: any) {
+      console.error(`[분봉데이터] ${code} 조회 실패:`, error.message)
+      return []
+    }
+  }
+
+  /**
+   * 매수 조건 확인 (AutoTrading.tsx의 checkBuyConditions와 동일한 판단)
+   */
+  private async checkBuyConditions(stock: EngineDetectedStock): Promise<BuyDecision> {
+    const config = this.config
+    const noSignal: BuyDecision = { signal: false, strategy: null }
+
+    // 1. 이미 보유 중이거나 주문한 종목 제외
+    if (this.orderedOrHoldingStocks.has(stock.code) || this.holdings.has(stock.code)) {
+      return noSignal
+    }
+
+    // 2. 최대 동시 보유 종목 수 체크
+    if (this.holdings.size >= config.maxSimultaneousBuy) {
+      return noSignal
+    }
+
+    // 3. 매매 시간, 매매 제외 종목, 실시간 시세 확인 (분봉 조회 전에 걸러 API 호출 절약)
+    if (!isBuyTime(config, new Date()) || isExcludedStock(stock.name) || (stock.price || 0) <= 0) {
+      return noSignal
+    }
+
+    // 차트 분석이 필요한 알고리즘이 체크되어 있으면 분봉 데이터 조회
+    // 분봉은 실시간 분봉 생성기에서 받고, 처음 보는 종목만 차트 API로 과거 분봉을 조회
+    // (차트 API 요청 속도는 KiwoomService의 요청 스케줄러가 제한)
+    let candles: CandleData[] = []
+    if (needsCandles(config)) {
+      candles = await this.getCandleData(stock.code)
+    }
+
+    // 매수 판단은 백테스트와 같은 checkBuySignal 사용
+    const { signal, strategy, logs } = checkBuySignal(stock, candles, config, new Date())
+    this.addSignalLogs(logs)
+    if (!signal) {
+      return noSignal
+    }
+
+    this.tradingRepository.recordSignal({
+      code: stock.code,
+      name: stock.name,
+      side: 'buy',
+      strategy,
+      reason: 'buy',
+      price: stock.price,
+      message: logs.map(log => log.message).join(' / '),
+    })
+    return { signal: true, strategy }
+  }
+
+  private addSignalLogs(logs: SignalLog[]): void {
+    for (const log of logs) {
+      this.addLog(log.message, log.level)
+    }
+  }
+
+  /**
+   * 신호 로그의 [전략명] 접두어 (예: [장시작급등주])
+   */
+  private getSignalStrategy(logs: SignalLog[]): string | null {
+    for (let i = logs.length - 1; i >= 0; i--) {
+      const match = /^\[([^\]]+)\]/.exec(logs[i].message)
+      if (match) {
+        return match[1]
+      }
+    }
+    return null
+  }
+
+  /**
+   * 검색 종목 매수 조건 확인 및 매수 주문 실행
+   */
+  private async checkDetectedStocksForBuy(): Promise<void> {
+    const stocks = Array.from(this.detectedStocks.values())
+    if (stocks.length === 0 || await this.circuitBreaker.isTripped()) {
+      return
+    }
+
+    for (const stock of stocks) {
+      if (!this.running) {
+        break
+      }
+
+      // 당일 최대매매종목수 체크
+      if (this.config.maxDailyStocks > 0 && this.dailyTradedStocks.size >= this.config.maxDailyStocks) {
+        this.addLog(`[제한] 당일 최대매매종목수 도달 (${this.config.maxDailyStocks}개)`, 'warning')
+        break
+      }
+
+      // 종목당 매매허용횟수 체크
+      const tradeCount = this.stockTradeCounts.get(stock.code) || 0
+      if (this.config.tradeLimitPerStock > 0 && tradeCount >= this.config.tradeLimitPerStock) {
+        continue
+      }
+
+      // 매매제한 종목, 진행 중인 주문이 있는 종목은 건너뜀
+      if (this.restrictedStocks.has(stock.code) || this.orderManager.hasActiveOrder(stock.code)) {
+        continue
+      }
+
+      const decision = await this.checkBuyConditions(stock)
+      if (decision.signal) {
+        await this.placeBuyOrder(stock, decision.strategy)
+      }
+    }
+  }
+
+  /**
+   * 매수 주문 실행 (strategy: 매수 신호를 낸 전략, 전략별 실현손익 집계용)
+   */
+  private async placeBuyOrder(stock: EngineDetectedStock, strategy: string | null): Promise<void> {
+    const config = this.config
+    const stockCode = String(stock.code).trim()
+
+    // 종목코드 검증: 6자리 숫자만 허용 (ELW, ETF 등 비표준 종목코드 제외)
+    if (!/^\d{6}$/.test(stockCode)) {
+      this.addLog(`[자동매수 건너뜀] ${stock.name} (${stockCode}): 지원하지 않는 종목코드 형식 (6자리 숫자만 지원)`, 'warning')
+      return
+    }
+
+    const buyPrice = stock.price
+    if (buyPrice <= 0) {
+      return
+    }
+
+    // 종목별 매수가격 설정에 따른 주문 가격 결정 (비활성화 시 시장가)
+    let orderPrice = buyPrice
+    let orderOption = '03' // 시장가
+    if (config.buyPriceSettings.종목별매수가격설정실행 && config.buyPriceSettings.매수가격옵션 === '지정가') {
+      const 호가비율 = config.buyPriceSettings.매수호가 / 100.0
+      orderPrice = Math.floor(buyPrice * (1.0 - 호가비율))
+      if (orderPrice > buyPrice) {
+        orderPrice = buyPrice // 지정가가 현재가보다 높으면 시장가로 변경
+      } else {
+        orderOption = '00' // 지정가
+      }
+    }
+
+    // 매수 수수료 고려한 매수 수량 계산 (수수료율은 실현손익 설정과 공유)
+    const fees = await this.pnlLedger.getSettings()
+    const quantity = getAffordableQuantity(config.amountPerStock, orderPrice, fees)
+    if (quantity <= 0) {
+      this.addLog(`[자동매수 건너뜀] ${stock.name}: 수량 부족 (투자금액: ${config.amountPerStock.toLocaleString()}원, 주문가격: ${orderPrice.toLocaleString()}원)`, 'warning')
+      return
+    }
+
+    await this.waitForOrderInterval()
+
+    try {
+      const { result } = await this.orderManager.submit(
+        {
+          code: stockCode,
+          name: stock.name,
+          quantity,
+          price: orderPrice,
+          order_type: 'buy',
+          order_option: orderOption,
+          source: 'engine',
+          strategy,
+        },
+        config.accountNo,
+        config.accountProductCode
+      )
+      this.lastOrderTime = Date.now()
+
+      // 매수 주문 성공 시 매수주문했거나보유중인종목에 추가하고 검색 종목에서 제거
+      this.orderedOrHoldingStocks.add(stockCode)
+      this.detectedStocks.delete(stockCode)
+
+      const tradeCount = (this.stockTradeCounts.get(stockCode) || 0) + 1
+      this.stockTradeCounts.set(stockCode, tradeCount)
+      this.dailyTradedStocks.add(stockCode)
+
+      const priceType = orderOption === '03' ? '시장가' : `지정가(${orderPrice.toLocaleString()}원)`
+      this.addLog(`[자동매수] ${stock.name} ${quantity}주 매수 주문 (${priceType}, 주문번호: ${result?.orderNumber || 'N/A'}, 매매횟수: ${tradeCount}/${config.tradeLimitPerStock})`, 'success')
+    } catch (error: any) {
+      const errorMessage = error.message || '알 수 없는 오류'
+
+      if (error.isDuplicateOrder) {
+        this.addLog(`[자동매수 건너뜀] ${stock.name}: ${errorMessage}`, 'warning')
+      } else if (error.isRiskRejected) {
+        this.addLog(`[리스크 한도] ${stock.name} 매수 거부: ${errorMessage}`, 'warning')
+      } else if (errorMessage.includes('매수증거금이 부족') || errorMessage.includes('RC4025') || errorMessage.includes('증거금 부족')) {
+        // 예수금 부족은 해당 종목만 건너뛰고 다음 주기에 재시도
+        this.addLog(`[예수금 부족] ${stock.name} 매수 불가 - 예수금이 부족합니다. (주문금액: ${(quantity * orderPrice).toLocaleString()}원)`, 'warning')
+      } else if (error.isRateLimit || errorMessage.includes('요청 개수를 초과')) {
+        this.addLog(`[API 제한 경고] ${stock.name} 주문 중 요청 제한 발생. 다음 종목으로 진행합니다.`, 'warning')
+      } else if (error.isTradingRestricted || errorMessage.includes('모의투자') || errorMessage.includes('RC4007')) {
+        this.restrictedStocks.add(stockCode)
+        this.addLog(`[자동매수 건너뜀] ${stock.name}: 모의투자 매매 제한 종목 (${errorMessage})`, 'warning')
+      } else {
+        // 일반 에러도 매매제한 종목으로 추가하여 재시도 방지
+        this.restrictedStocks.add(stockCode)
+        this.addLog(`[자동매수 실패] ${stock.name}: ${errorMessage}`, 'error')
+      }
+    }
+  }
+
+  /**
+   * 매도 조건 확인 (AutoTrading.tsx의 checkSellConditions + 손절 모니터링)
+   * 매도 사유 반환, 매도하지 않으면 null
+   */
+  private checkSellConditions(holding: EngineHolding): SellReason | null {
+    const result = checkSellSignal(holding, this.config, new Date())
+    if (!result) {
+      return null
+    }
+    this.addSignalLogs([result.log])
+    this.tradingRepository.recordSignal({
+      code: holding.code,
+      name: holding.name,
+      side: 'sell',
+      strategy: this.getSignalStrategy([result.log]),
+      reason: result.reason,
+      price: holding.currentPrice,
+      message: result.log.message,
+    })
+    return result.reason
+  }
+
+  /**
+   * 보유 종목 매도 조건 확인 및 매도 주문 실행
+   */
+  private async checkHoldingsForSell(): Promise<void> {
+    if (!this.running || this.sellCheckInProgress) {
+      return
+    }
+
+    this.sellCheckInProgress = true
+    try {
+      for (const holding of Array.from(this.holdings.values())) {
+        if (!this.running) {
+          break
+        }
+        if (this.orderManager.hasActiveOrder(holding.code, 'sell') || holding.currentPrice <= 0) {
+          continue
+        }
+
+        const reason = this.checkSellConditions(holding)
+        if (reason) {
+          await this.placeSellOrder(holding, reason)
+        }
+      }
+    } finally {
+      this.sellCheckInProgress = false
+    }
+  }
+
+  /**
+   * 매도 주문 실행
+   */
+  private async placeSellOrder(
+    holding: EngineHolding,
+    reason: SellReason
+  ): Promise<void> {
+    const config = this.config
+    const stockCode = String(holding.code).trim()
+
+    if (!/^\d{6}$/.test(stockCode)) {
+      this.addLog(`[자동매도 건너뜀] ${holding.name} (${stockCode}): 지원하지 않는 종목코드 형식 (6자리 숫자만 지원)`, 'warning')
+      return
+    }
+
+    // 매도 가격 결정: 익절/손절은 설정에 따라 지정가, 그 외에는 시장가
+    let sellPrice = 0
+    let orderOption = '03' // 시장가
+    if (reason === 'profit' && config.profitType === 'limit') {
+      sellPrice = holding.currentPrice
+      orderOption = '00'
+    } else if (reason === 'loss' && config.lossType === 'limit') {
+      sellPrice = Math.max(0, holding.currentPrice + config.lossPriceOffset)
+      orderOption = '00'
+    }
+
+    await this.waitForOrderInterval()
+
+    try {
+      await this.orderManager.submit(
+        {
+          code: stockCode,
+          name: holding.name,
+          quantity: holding.quantity,
+          price: sellPrice,
+          order_type: 'sell',
+          order_option: orderOption,
+          source: 'engine',
+        },
+        config.accountNo,
+        config.accountProductCode
+      )
+      this.lastOrderTime = Date.now()
+
+      // 매도 주문 성공 시 보유 종목 및 매수주문했거나보유중인종목에서 제거
+      this.holdings.delete(stockCode)
+      this.orderedOrHoldingStocks.delete(stockCode)
+      this.sellOrderedStocks.add(stockCode)
+
+      const priceType = sellPrice === 0 ? '시장가' : `지정가(${sellPrice.toLocaleString()}원)`
+      this.addLog(`[자동매도] ${holding.name} ${holding.quantity}주 매도 주문 (${priceType}, 수익률: ${holding.profitPercent.toFixed(2)}%)`, 'success')
+      this.emitStatus()
+    } catch (error: any) {
+      const errorMessage = error.message || '알 수 없는 오류'
+      if (error.isDuplicateOrder) {
+        this.addLog(`[자동매도 건너뜀] ${holding.name}: ${errorMessage}`, 'warning')
+      } else if (error.isRiskRejected) {
+        this.addLog(`[리스크 한도] ${holding.name} 매도 거부: ${errorMessage}`, 'warning')
+      } else if (error.isTradingRestricted || errorMessage.includes('모의투자') || errorMessage.includes('RC4007')) {
+        this.addLog(`[자동매도 건너뜀] ${holding.name}: 모의투자 매매 제한 종목`, 'warning')
+      } else {
+        this.addLog(`[자동매도 실패] ${holding.name}: ${errorMessage}`, 'error')
+      }
+    }
+  }
+
+  /**
+   * 엔진이 낸 주문의 상태 변경 반영 (OrderManager 구독)
+   * 체결되지 않고 끝난 매수는 재매수를 허용하고, 끝까지 체결되지 않은 매도는 보유 종목으로 되돌림
+   */
+  private handleOrderUpdate(order: ManagedOrder): void {
+    if (order.source !== 'engine') {
+      return
+    }
+
+    const sideName = order.side === 'buy' ? '매수' : '매도'
+    if (order.status === 'filled') {
+      this.addLog(`[체결] ${order.name} ${order.filledQuantity}주 ${sideName} 체결 (평균가: ${order.averageFillPrice.toLocaleString()}원, 주문번호: ${order.orderNumber})`, 'success')
+      return
+    }
+
+    if (order.status !== 'cancelled' && order.status !== 'rejected') {
+      return
+    }
+
+    if (order.side === 'buy' && order.filledQuantity === 0 && !this.holdings.has(order.code)) {
+      this.orderedOrHoldingStocks.delete(order.code)
+    }
+    if (order.side === 'sell' && order.filledQuantity < order.quantity) {
+      this.sellOrderedStocks.delete(order.code) // 다음 잔고 갱신에서 남은 수량을 보유 종목으로 다시 반영
+    }
+    if (order.status === 'cancelled') {
+      this.addLog(`[주문 취소] ${order.name} ${sideName} 주문 종료 (체결: ${order.filledQuantity}/${order.quantity}주, 주문번호: ${order.orderNumber})`, 'warning')
+    }
+  }
+
+  /**
+   * 주문 API 요청 제한 방지: 마지막 주문 후 최소 간격 대기
+   */
+  private async waitForOrderInterval(): Promise<void> {
+    const timeSinceLastOrder = Date.now() - this.lastOrderTime
+    if (timeSinceLastOrder < this.config.minOrderInterval) {
+      await this.delay(this.config.minOrderInterval - timeSinceLastOrder)
+    }
+  }
+}
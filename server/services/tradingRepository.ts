@@ -0,0 +1,327 @@
+/**
+ * 매매 기록 저장소
+ * 주문, 체결, 보유 종목, 일별 손익, 전략 신호를 DB에 저장/조회하는 서비스 클래스
+ * 브라우저 localStorage 대신 서버 DB에 기록하여 기기와 관계없이 매매 내역을 유지
+ * 주문/체결 흐름을 막지 않도록 기록(record*) 실패는 로그만 남기고, 조회(get*) 실패는 호출한 쪽으로 전파
+ */
+import { and, desc, eq, gte, lt, lte, sql } from 'drizzle-orm'
+import { getDb, Database } from '../db'
+import {
+  orders,
+  fills,
+  positions,
+  dailyPnl,
+  strategySignals,
+  InsertStrategySignal,
+  OrderRecord,
+  FillRecord,
+  PositionRecord,
+  DailyPnlRecord,
+  StrategySignalRecord,
+} from '../../shared/schema'
+import type { ManagedOrder } from './orderManager'
+import { FeeSettings, DEFAULT_FEE_SETTINGS, calculateTradeCosts } from './tradeCosts'
+
+export interface HistoryFilter {
+  accountNo?: string
+  tradeDate?: string // YYYY-MM-DD
+  code?: string
+  limit?: number
+}
+
+export interface DailyPnlFilter {
+  accountNo?: string
+  from?: string // YYYY-MM-DD
+  to?: string // YYYY-MM-DD
+}
+
+// 잔고 조회 결과 (KiwoomService.getBalance의 보유 종목 형식)
+export interface PositionSnapshot {
+  code: string
+  name?: string
+  quantity: number
+  purchasePrice: number
+  currentPrice?: number
+}
+
+const DEFAULT_LIMIT = 200
+const MAX_LIMIT = 1000
+
+/**
+ * 한국 시간 기준 거래일 (YYYY-MM-DD)
+ */
+export function getTradeDate(date: Date = new Date()): string {
+  return new Date(date.getTime() + 9 * 60 * 60 * 1000).toISOString().slice(0, 10)
+}
+
+export class TradingRepository {
+  private static instance: TradingRepository
+  private writeQueue: Promise<void> = Promise.resolve() // 기록 순서 보장 (같은 주문의 이전 상태가 나중에 덮어쓰지 않도록)
+  private disabled: boolean = false
+
+  private constructor() {}
+
+  static getInstance(): TradingRepository {
+    if (!TradingRepository.instance) {
+      TradingRepository.instance = new TradingRepository()
+    }
+    return TradingRepository.instance
+  }
+
+  /**
+   * 주문 상태 저장 및 새로 체결된 수량을 체결 내역으로 기록
+   * 체결 증가분은 DB에 기록된 같은 주문번호의 체결(계좌·주문번호·거래일)과 비교하여 계산
+   * (서버를 재시작하여 주문을 다시 추적해도 같은 체결을 두 번 기록하지 않도록)
+   * 체결의 수수료/세금은 기록 시점의 fees로 계산해 함께 저장 (수수료율을 바꿔도 지난 체결의 손익은 그대로)
+   */
+  async recordOrder(order: ManagedOrder, fees: FeeSettings | Promise<FeeSettings> = DEFAULT_FEE_SETTINGS): Promise<void> {
+    await this.write('주문 저장', async (db) => {
+      const row = {
+        id: order.id,
+        accountNo: order.accountNo,
+        orderNumber: order.orderNumber,
+        originalOrderNumber: order.originalOrderNumber,
+        code: order.code,
+        name: order.name,
+        side: order.side,
+        orderOption: order.orderOption,
+        quantity: order.quantity,
+        price: order.price,
+        filledQuantity: order.filledQuantity,
+        filledAmount: Math.round(order.filledAmount),
+        averageFillPrice: order.averageFillPrice,
+        cancelledQuantity: order.cancelledQuantity,
+        status: order.status,
+        source: order.source,
+        strategy: order.strategy,
+        message: order.message,
+        tradeDate: getTradeDate(new Date(order.createdAt)),
+        createdAt: new Date(order.createdAt),
+        updatedAt: new Date(order.updatedAt),
+      }
+      const { id, createdAt, tradeDate, ...changes } = row
+      await db.insert(orders).values(row).onConflictDoUpdate({ target: orders.id, set: changes })
+
+      if (order.filledQuantity <= 0 || !order.orderNumber) {
+        return
+      }
+
+      const [recorded] = await db
+        .select({
+          quantity: sql<number>`coalesce(max(${fills.cumulativeQuantity}), 0)`,
+          amount: sql<number>`coalesce(sum(${fills.amount}), 0)`,
+        })
+        .from(fills)
+        .where(and(
+          eq(fills.accountNo, order.accountNo),
+          eq(fills.orderNumber, order.orderNumber),
+          eq(fills.tradeDate, tradeDate),
+        ))
+      const fillQuantity = order.filledQuantity - Number(recorded?.quantity || 0)
+      if (fillQuantity <= 0) {
+        return
+      }
+      const fillAmount = Math.max(0, Math.round(order.filledAmount) - Number(recorded?.amount || 0))
+      const { commission, tax } = calculateTradeCosts(order.side, fillAmount, await fees)
+
+      await db.insert(fills).values({
+        orderId: order.id,
+        accountNo: order.accountNo,
+        orderNumber: order.orderNumber,
+        code: order.code,
+        name: order.name,
+        side: order.side,
+        strategy: order.strategy,
+        quantity: fillQuantity,
+        price: Math.round(fillAmount / fillQuantity),
+        amount: fillAmount,
+        commission,
+        tax,
+        cumulativeQuantity: order.filledQuantity,
+        tradeDate,
+        filledAt: new Date(order.updatedAt),
+      }).onConflictDoNothing()
+    })
+  }
+
+  /**
+   * 보유 종목 저장 (계좌의 기존 보유 종목을 조회 결과로 교체)
+   */
+  async recordPositions(accountNo: string, snapshot: PositionSnapshot[]): Promise<void> {
+    await this.write('보유 종목 저장', async (db) => {
+      const rows = snapshot
+        .filter(stock => stock.code && stock.quantity > 0)
+        .map(stock => ({
+          accountNo: accountNo || '',
+          code: String(stock.code).trim(),
+          name: stock.name || '',
+          quantity: stock.quantity,
+          averagePrice: Math.round(stock.purchasePrice || 0),
+          purchaseAmount: Math.round((stock.purchasePrice || 0) * stock.quantity),
+          currentPrice: Math.round(stock.currentPrice || 0),
+          updatedAt: new Date(),
+        }))
+
+      await db.transaction(async (tx) => {
+        await tx.delete(positions).where(eq(positions.accountNo, accountNo || ''))
+        if (rows.length > 0) {
+          await tx.insert(positions).values(rows)
+        }
+      })
+    })
+  }
+
+  /**
+   * 당일 손익 스냅샷 저장 (매수/매도 금액과 체결 건수는 체결 내역에서 집계)
+   */
+  async recordDailyPnl(accountNo: string, realizedPnl: number, unrealizedPnl: number): Promise<void> {
+    await this.write('일별 손익 저장', async (db) => {
+      const tradeDate = getTradeDate()
+      const [totals] = await db
+        .select({
+          buyAmount: sql<number>`coalesce(sum(case when ${fills.side} = 'buy' then ${fills.amount} else 0 end), 0)`,
+          sellAmount: sql<number>`coalesce(sum(case when ${fills.side} = 'sell' then ${fills.amount} else 0 end), 0)`,
+          fillCount: sql<number>`count(*)`,
+        })
+        .from(fills)
+        .where(and(eq(fills.accountNo, accountNo || ''), eq(fills.tradeDate, tradeDate)))
+
+      const row = {
+        accountNo: accountNo || '',
+        tradeDate,
+        realizedPnl: Math.round(realizedPnl),
+        unrealizedPnl: Math.round(unrealizedPnl),
+        totalPnl: Math.round(realizedPnl + unrealizedPnl),
+        buyAmount: Number(totals?.buyAmount || 0),
+        sellAmount: Number(totals?.sellAmount || 0),
+        fillCount: Number(totals?.fillCount || 0),
+        updatedAt: new Date(),
+      }
+      const { accountNo: _accountNo, tradeDate: _tradeDate, ...changes } = row
+      await db.insert(dailyPnl).values(row).onConflictDoUpdate({
+        target: [dailyPnl.accountNo, dailyPnl.tradeDate],
+        set: changes,
+      })
+    })
+  }
+
+  async recordSignal(signal: Omit<InsertStrategySignal, 'tradeDate'>): Promise<void> {
+    await this.write('전략 신호 저장', async (db) => {
+      await db.insert(strategySignals).values({ ...signal, tradeDate: getTradeDate() })
+    })
+  }
+
+  async getOrders(filter: HistoryFilter = {}): Promise<OrderRecord[]> {
+    const db = await getDb()
+    return db
+      .select()
+      .from(orders)
+      .where(and(
+        filter.accountNo ? eq(orders.accountNo, filter.accountNo) : undefined,
+        filter.tradeDate ? eq(orders.tradeDate, filter.tradeDate) : undefined,
+        filter.code ? eq(orders.code, filter.code) : undefined,
+      ))
+      .orderBy(desc(orders.createdAt))
+      .limit(this.toLimit(filter.limit))
+  }
+
+  async getFills(filter: HistoryFilter = {}): Promise<FillRecord[]> {
+    const db = await getDb()
+    return db
+      .select()
+      .from(fills)
+      .where(and(
+        filter.accountNo ? eq(fills.accountNo, filter.accountNo) : undefined,
+        filter.tradeDate ? eq(fills.tradeDate, filter.tradeDate) : undefined,
+        filter.code ? eq(fills.code, filter.code) : undefined,
+      ))
+      .orderBy(desc(fills.filledAt), desc(fills.id))
+      .limit(this.toLimit(filter.limit))
+  }
+
+  /**
+   * 실현손익 계산용 체결 내역 (체결 순서대로, 개수 제한 없음)
+   * 기록 대기 중인 체결까지 반영한 뒤 조회
+   * before를 주면 그 거래일 이전, from을 주면 그 거래일부터의 체결만 조회
+   */
+  async getFillsInOrder(accountNo?: string, range: { from?: string; to?: string; before?: string } = {}): Promise<FillRecord[]> {
+    await this.writeQueue
+    const db = await getDb()
+    return db
+      .select()
+      .from(fills)
+      .where(and(
+        accountNo !== undefined ? eq(fills.accountNo, accountNo) : undefined,
+        range.from ? gte(fills.tradeDate, range.from) : undefined,
+        range.to ? lte(fills.tradeDate, range.to) : undefined,
+        range.before ? lt(fills.tradeDate, range.before) : undefined,
+      ))
+      .orderBy(fills.filledAt, fills.id)
+  }
+
+  async getPositions(accountNo?: string): Promise<PositionRecord[]> {
+    const db = await getDb()
+    return db
+      .select()
+      .from(positions)
+      .where(accountNo ? eq(positions.accountNo, accountNo) : undefined)
+      .orderBy(positions.code)
+  }
+
+  async getDailyPnl(filter: DailyPnlFilter = {}): Promise<DailyPnlRecord[]> {
+    const db = await getDb()
+    return db
+      .select()
+      .from(dailyPnl)
+      .where(and(
+        filter.accountNo ? eq(dailyPnl.accountNo, filter.accountNo) : undefined,
+        filter.from ? gte(dailyPnl.tradeDate, filter.from) : undefined,
+        filter.to ? lte(dailyPnl.tradeDate, filter.to) : undefined,
+      ))
+      .orderBy(desc(dailyPnl.tradeDate))
+  }
+
+  async getSignals(filter: HistoryFilter = {}): Promise<StrategySignalRecord[]> {
+    const db = await getDb()
+    return db
+      .select()
+      .from(strategySignals)
+      .where(and(
+        filter.tradeDate ? eq(strategySignals.tradeDate, filter.tradeDate) : undefined,
+        filter.code ? eq(strategySignals.code, filter.code) : undefined,
+      ))
+      .orderBy(desc(strategySignals.createdAt), desc(strategySignals.id))
+      .limit(this.toLimit(filter.limit))
+  }
+
+  /**
+   * 기록 실행 (DB 연결 실패 시 이후 기록은 건너뜀)
+   */
+  private write(label: string, task: (db: Database) => Promise<void>): Promise<void> {
+    this.writeQueue = this.writeQueue.then(async () => {
+      if (this.disabled) {
+        return
+      }
+
+      let db: Database
+      try {
+        db = await getDb()
+      } catch (error: any) {
+        this.disabled = true
+        console.error('[매매 기록] DB 연결 실패 - 매매 기록을 저장하지 않습니다:', error.message)
+        return
+      }
+
+      try {
+        await task(db)
+      } catch (error: any) {
+        console.error(`[매매 기록] ${label} 오류:`, error.message)
+      }
+    })
+    return this.writeQueue
+  }
+
+  private toLimit(limit?: number): number {
+    return Math.min(Math.max(Number(limit) || DEFAULT_LIMIT, 1), MAX_LIMIT)
+  }
+}
@@ -0,0 +1,969 @@
+/**
+ * 자동매매 매수 전략 모음
+ * AutoTrading.tsx에 있던 매수 신호 함수들을 서버에서 사용할 수 있도록 옮긴 모듈
+ * 전략 등록과 매수 판단(checkBuySignal)은 strategyRegistry.ts, 전략 정의는 builtinStrategies.ts
+ * 모든 분봉 데이터는 최신 데이터가 앞에 오는 순서(내림차순)로 전달됨
+ * 지표 계산은 shared/indicators.ts 사용 (시간순으로 뒤집어 계산)
+ */
+import { BollingerValue, rsi, sma, bollingerBands } from '../../shared/indicators'
+
+// 분봉 데이터 (키움증권 차트 API 응답 형식)
+export interface CandleData {
+  일자: string
+  시가: number
+  고가: number
+  저가: number
+  종가: number
+  거래량: number
+}
+
+// 전략 판단에 필요한 종목 시세 정보
+export interface StrategyStock {
+  code: string
+  name: string
+  price: number
+  changePercent: number
+  volume: number
+}
+
+// 전략 판단 결과
+export interface StrategyResult {
+  signal: boolean
+  message?: string // 매수 신호 발생 시 로그 메시지
+  level?: SignalLog['level'] // 로그 레벨 (기본: success)
+}
+
+// 전략 파라미터 값 (파라미터 스키마의 key → 값)
+export type StrategyParams = Record<string, number | boolean>
+
+// 전략별 사용 여부와 파라미터
+export interface StrategySetting {
+  enabled: boolean
+  params: StrategyParams
+}
+
+// 전략 id → 설정 (일부만 지정하면 나머지는 기존 설정/기본값)
+export type StrategyOverrides = Record<string, { enabled?: boolean; params?: StrategyParams }>
+
+// 기본매수설정
+export interface BasicBuySettings {
+  volumeIncreaseRate: number
+  minTradingAmount: number
+  minFluctuation: number
+  maxFluctuation: number
+  consecutiveRises: number
+  rsiLower: number
+  rsiUpper: number
+  buyPriceAdjustment: number
+  minVolume: number
+  institutionBuy: number
+  foreignBuy: number
+}
+
+// 장시작급등주매수 설정
+export interface MarketOpenBuySettings {
+  volumeIncreaseRate: number
+  minTradingAmount: number
+  minFluctuation: number
+  buyPriceAdjustment: number
+  highDropLimit: number
+  startHour: number
+  startMinute: number
+  endHour: number
+  endMinute: number
+  minConsecutiveRises: number
+  volumeRatioLimit: number
+  currentMinRise: number
+  prevMinRise: number
+  minBullishRatio: number
+  rsiLower: number
+  rsiUpper: number
+  movingAvgRequired: number
+  recentCandleCount: number // 최근분봉 개수
+  consecutiveRiseCheckCount: number // 연속상승봉 체크 개수
+  shortTermPeriod: number // 단기이동평균 기간
+  midTermPeriod: number // 중기이동평균 기간
+  avgVolumePeriod: number // 평균거래량 계산 기간
+  recentHighPeriod: number // 최근고가 계산 기간
+  bullishRatioCheckCount: number // 양봉비율 체크 개수
+  rsiPeriod: number // RSI 계산 기간
+}
+
+// 볼린저밴드매수 설정
+export interface BollingerBuySettings {
+  shortTermPeriod: number
+  midTermPeriod: number
+  bollingerPeriod: number // 볼린저밴드 계산 기간
+  bollingerMultiplier: number // 볼린저밴드 배수
+  openHighBounceLimit: number
+  openHighBounceLimitUse: number
+  movingAvgRequired: number
+  movingAvgPeriod: number // 이동평균 기간
+  instantVolumeIncrease: number
+  instantVolumeUse: number
+  volumeCompareCount: number
+  recentCandleCount: number // 최근분봉 개수
+  priceRiseCheckPeriod: number // 가격상승률 체크 기간 (인덱스)
+  minPriceRise: number // 최소 가격 상승률 (%)
+}
+
+// 장마감종가배팅매수 설정
+export interface MarketCloseBuySettings {
+  minCandleCount: number // 최소 차트 데이터 개수
+  recentCandleCount: number // 최근분봉 개수
+  priceRiseCheckPeriod: number // 가격상승률 체크 기간 (인덱스)
+  shortTermPeriod: number // 단기이동평균 기간
+  minPriceRise: number // 최소 가격 상승률 (%)
+  avgVolumePeriod: number // 평균거래량 계산 기간
+  volumeIncreaseRate: number // 거래량증가율기준 (%)
+  minTradingAmount: number // 최소거래대금 (억 단위)
+  maxVolatility: number // 변동성상한 (%)
+}
+
+// 스캘핑매수 설정
+export interface ScalpingBuySettings {
+  minTradingAmount: number // 최소거래대금 (억 단위)
+  volumeIncreaseRate: number // 거래량 급증 기준 (%)
+  lowerBandDeviation: number // 하단밴드이탈률 (%)
+  volumeIncreaseAfterLow: number // 저점후거래량증가기준 (배)
+  rsiLower: number // RSI 하한
+  rsiUpper: number // RSI 상한
+  minPriceRise: number // 최소 가격 상승률 (%)
+  pullbackDepthMin: number // 풀백 깊이 최소 (%)
+  pullbackDepthMax: number // 풀백 깊이 최대 (%)
+  minRiseAfterLow: number // 저점 이후 최소 상승률 (%)
+  minRiseCandles: number // 저점 이후 최소 상승 봉 개수
+  minCandleCount: number // 최소 차트 데이터 개수
+  recentCandleCount: number // 최근분봉 개수
+  shortTermPeriod: number // 단기이동평균 기간
+  priceRiseCheckThreshold: number // 가격상승률 체크 임계값 (%)
+  prevVolumePeriod: number // 이전봉거래량 계산 기간
+  fullCandleCount: number // 전체분봉 개수
+  peakValleySearchStart: number // 고점저점 탐색 시작 인덱스
+  rsiPeriod: number // RSI 계산 기간
+}
+
+// 돌파매수 설정
+export interface BreakoutBuySettings {
+  volumeIncreaseRate: number // 거래량증가율기준 (%)
+  volume1MinCoeff: number // 거래량1분증가율계수
+  volume3MinCoeff: number // 거래량3분증가율계수
+  volume5MinCoeff: number // 거래량5분증가율계수
+  minTradingAmount: number // 최소거래대금 (억 단위)
+  prevHighRiseRate: number // 이전고점대비상승률 (%)
+  prevHighRiseRelaxCoeff: number // 이전고점대비상승률완화계수
+  minShortRise: number // 최소단기상승률 (%)
+  min3MinRise: number // 최소3분상승률 (%)
+  minFluctuation: number // 최소등락률 (%)
+  maxFluctuation: number // 최대등락률 (%)
+  minFluctuationRelaxCoeff: number // 최소등락률완화계수
+  maxFluctuationExpandCoeff: number // 최대등락률확장계수
+  rsiLower: number // RSI 하한
+  rsiLowerRelaxCoeff: number // RSI하한완화계수
+  recentCandleCount: number // 최근분봉 개수
+  volume3MinPeriod: number // 3분 평균거래량 계산 기간
+  volume5MinPeriod: number // 5분 평균거래량 계산 기간
+  prevHighPeriod: number // 이전고점 계산 기간
+  shortTermPeriod: number // 단기이동평균 기간
+  priceRiseCheckThreshold: number // 가격상승률 체크 임계값 (%)
+  priceRiseCheckPeriod: number // 가격상승률 체크 기간 (인덱스)
+  rsiPeriod: number // RSI 계산 기간
+}
+
+// 기본 설정값 (AutoTrading.tsx의 초기값과 동일)
+export const DEFAULT_BASIC_BUY: BasicBuySettings = {
+  volumeIncreaseRate: 500.0,
+  minTradingAmount: 10,
+  minFluctuation: 2.0,
+  maxFluctuation: 15.0,
+  consecutiveRises: 2.0,
+  rsiLower: 60.0,
+  rsiUpper: 85.0,
+  buyPriceAdjustment: 0.3,
+  minVolume: 100000.0,
+  institutionBuy: 10000.0,
+  foreignBuy: 10000.0,
+}
+
+export const DEFAULT_MARKET_OPEN_BUY: MarketOpenBuySettings = {
+  volumeIncreaseRate: 70000.0,
+  minTradingAmount: 1,
+  minFluctuation: 3.0,
+  buyPriceAdjustment: 1.0,
+  highDropLimit: -3.0,
+  startHour: 9,
+  startMinute: 0,
+  endHour: 9,
+  endMinute: 5,
+  minConsecutiveRises: 0.0,
+  volumeRatioLimit: 50.0,
+  currentMinRise: 0.5,
+  prevMinRise: 0.5,
+  minBullishRatio: 60.0,
+  rsiLower: 45.0,
+  rsiUpper: 90.0,
+  movingAvgRequired: 0.0,
+  recentCandleCount: 10,
+  consecutiveRiseCheckCount: 5,
+  shortTermPeriod: 3,
+  midTermPeriod: 5,
+  avgVolumePeriod: 4,
+  recentHighPeriod: 3,
+  bullishRatioCheckCount: 5,
+  rsiPeriod: 14,
+}
+
+export const DEFAULT_BOLLINGER_BUY: BollingerBuySettings = {
+  shortTermPeriod: 5.0,
+  midTermPeriod: 20.0,
+  bollingerPeriod: 20.0,
+  bollingerMultiplier: 2.0,
+  openHighBounceLimit: 3.0,
+  openHighBounceLimitUse: 1.0,
+  movingAvgRequired: 1.0,
+  movingAvgPeriod: 3.0,
+  instantVolumeIncrease: 100000.0,
+  instantVolumeUse: 1.0,
+  volumeCompareCount: 1.0,
+  recentCandleCount: 5,
+  priceRiseCheckPeriod: 2,
+  minPriceRise: 2.0,
+}
+
+export const DEFAULT_MARKET_CLOSE_BUY: MarketCloseBuySettings = {
+  minCandleCount: 5,
+  recentCandleCount: 5,
+  priceRiseCheckPeriod: 2,
+  shortTermPeriod: 3,
+  minPriceRise: 1.0,
+  avgVolumePeriod: 3,
+  volumeIncreaseRate: 100000,
+  minTradingAmount: 10,
+  maxVolatility: 0.5,
+}
+
+export const DEFAULT_SCALPING_BUY: ScalpingBuySettings = {
+  minTradingAmount: 50.0,
+  volumeIncreaseRate: 500.0,
+  lowerBandDeviation: 2.0,
+  volumeIncreaseAfterLow: 1.5,
+  rsiLower: 45.0,
+  rsiUpper: 70.0,
+  minPriceRise: 1.0,
+  pullbackDepthMin: 1.0,
+  pullbackDepthMax: 10.0,
+  minRiseAfterLow: 0.5,
+  minRiseCandles: 2,
+  minCandleCount: 20,
+  recentCandleCount: 5,
+  shortTermPeriod: 3,
+  priceRiseCheckThreshold: 1.5,
+  prevVolumePeriod: 1,
+  fullCandleCount: 20,
+  peakValleySearchStart: 2,
+  rsiPeriod: 14,
+}
+
+export const DEFAULT_BREAKOUT_BUY: BreakoutBuySettings = {
+  volumeIncreaseRate: 70000.0,
+  volume1MinCoeff: 0.8,
+  volume3MinCoeff: 0.7,
+  volume5MinCoeff: 0.6,
+  minTradingAmount: 50.0,
+  prevHighRiseRate: 1.0,
+  prevHighRiseRelaxCoeff: 0.7,
+  minShortRise: 1.5,
+  min3MinRise: 2.0,
+  minFluctuation: 10.0,
+  maxFluctuation: 25.0,
+  minFluctuationRelaxCoeff: 0.8,
+  maxFluctuationExpandCoeff: 1.1,
+  rsiLower: 45.0,
+  rsiLowerRelaxCoeff: 0.9,
+  recentCandleCount: 10,
+  volume3MinPeriod: 3,
+  volume5MinPeriod: 5,
+  prevHighPeriod: 3,
+  shortTermPeriod: 3,
+  priceRiseCheckThreshold: 2.0,
+  priceRiseCheckPeriod: 2,
+  rsiPeriod: 14,
+}
+
+const NO_SIGNAL: StrategyResult = { signal: false }
+
+/**
+ * RSI 계산 (Wilder 평활, 최신 분봉 기준 값)
+ */
+export function calculateRSI(candles: CandleData[], period: number = 14): number {
+  if (!candles || candles.length < period + 1) {
+    return 50 // 기본값
+  }
+
+  const series = rsi(candles.map(c => c.종가).reverse(), period)
+  return series[series.length - 1] ?? 50
+}
+
+/**
+ * 이동평균 계산 (분봉과 같은 순서, [0]이 최신 분봉까지의 이동평균)
+ */
+export function calculateMA(
+  candles: CandleData[],
+  period: number,
+  priceType: '시가' | '고가' | '저가' | '종가' = '종가'
+): number[] {
+  if (!candles || candles.length < period) {
+    return []
+  }
+
+  return toLatestFirst(sma(candles.map(c => c[priceType]).reverse(), period))
+}
+
+/**
+ * 볼린저밴드 계산 (TP = (고가 + 저가 + 종가) / 3 기준, [0]이 최신 분봉까지의 밴드)
+ */
+export function calculateBollingerBands(
+  candles: CandleData[],
+  period: number = 20,
+  multiplier: number = 2
+): BollingerValue[] {
+  if (!candles || candles.length < period) {
+    return []
+  }
+
+  const prices = candles.map(c => (c.고가 + c.저가 + c.종가) / 3.0).reverse()
+  return toLatestFirst(bollingerBands(prices, period, multiplier))
+}
+
+// 시간순 지표 시계열 → 분봉 순서(최신 우선), 계산 전 구간(null) 제외
+function toLatestFirst<T>(series: (T | null)[]): T[] {
+  return series.filter((value): value is T => value !== null).reverse()
+}
+
+/**
+ * 호가단위 조정
+ */
+export function adjustToHogaUnit(price: number): number {
+  if (price < 1000) return price
+  if (price < 5000) return Math.floor(price / 5) * 5
+  if (price < 10000) return Math.floor(price / 10) * 10
+  if (price < 50000) return Math.floor(price / 50) * 50
+  if (price < 100000) return Math.floor(price / 100) * 100
+  if (price < 500000) return Math.floor(price / 500) * 500
+  return Math.floor(price / 1000) * 1000
+}
+
+/**
+ * My_매수신호_1 (이동평균선 기반 간단한 매수 신호)
+ */
+export function 매수신호1(stock: StrategyStock, candles: CandleData[]): StrategyResult {
+  // 분봉 데이터 유효성 체크 (최소 20개 필요)
+  if (!candles || candles.length < 20) {
+    return NO_SIGNAL
+  }
+
+  const ma5 = calculateMA(candles, 5, '종가')
+  const ma20 = calculateMA(candles, 20, '종가')
+  if (ma5.length < 2 || ma20.length < 2) {
+    return NO_SIGNAL
+  }
+
+  // 상승봉 카운트 계산 (최근 3개 봉 중)
+  let 상승봉카운트 = 0
+  for (let i = 0; i < Math.min(3, candles.length); i++) {
+    if (candles[i].종가 > candles[i].시가) {
+      상승봉카운트++
+    }
+  }
+
+  const 현재가 = stock.price
+  const 현재가상승 = 현재가 > candles[0].시가
+  const ma5Above = ma5[0] > ma20[0]
+
+  // 매수 신호 조건: (MA5 > MA20 && 상승봉카운트 >= 3 && 현재가상승)
+  if (ma5Above && 상승봉카운트 >= 3 && 현재가상승) {
+    const ma5ma20비율 = ((ma5[0] / ma20[0]) - 1) * 100
+    return {
+      signal: true,
+      message: `[매수신호1] ${stock.name}: MA5/MA20 상승비율:${ma5ma20비율.toFixed(2)}%, 연속상승봉:${상승봉카운트}개, 현재가:${현재가.toLocaleString()}원`,
+    }
+  }
+
+  return NO_SIGNAL
+}
+
+/**
+ * 장시작급등주매수
+ */
+export function 장시작급등주매수(
+  stock: StrategyStock,
+  candles: CandleData[],
+  settings: MarketOpenBuySettings
+): StrategyResult {
+  if (!candles || candles.length < Math.max(settings.shortTermPeriod, 2)) {
+    return NO_SIGNAL
+  }
+
+  const 최근분봉 = candles.slice(0, settings.recentCandleCount)
+  const 현재가 = stock.price
+  const 현재봉시가 = 최근분봉[0].시가
+  const 전봉종가 = 최근분봉[1].종가
+  const 전봉시가 = 최근분봉[1].시가
+
+  // 1. 연속 상승 패턴 확인
+  let 연속상승봉수 = 0
+  for (let i = 0; i < Math.min(settings.consecutiveRiseCheckCount, 최근분봉.length); i++) {
+    if (i + 1 < 최근분봉.length &&
+        최근분봉[i].종가 > 최근분봉[i].시가 &&
+        최근분봉[i].종가 > 최근분봉[i + 1].종가) {
+      연속상승봉수++
+    } else {
+      break
+    }
+  }
+  if (연속상승봉수 < settings.minConsecutiveRises) {
+    return NO_SIGNAL
+  }
+
+  // 2. 이동평균선 확인
+  const 단기이동평균 = 최근분봉.slice(0, settings.shortTermPeriod).reduce((sum, c) => sum + c.종가, 0) / settings.shortTermPeriod
+  const 중기이동평균 = 최근분봉.slice(0, settings.midTermPeriod).reduce((sum, c) => sum + c.종가, 0) / settings.midTermPeriod
+  const 이동평균선정배열 = 현재가 > 단기이동평균 && 단기이동평균 > 중기이동평균
+  if (settings.movingAvgRequired > 0 && !이동평균선정배열) {
+    return NO_SIGNAL
+  }
+
+  // 3. 거래량 증가 패턴 확인
+  const 현재봉거래량 = 최근분봉[0].거래량
+  const 평균거래량 = 최근분봉.slice(1, 1 + settings.avgVolumePeriod).reduce((sum, c) => sum + c.거래량, 0) / settings.avgVolumePeriod
+  const 거래량증가율 = ((현재봉거래량 / Math.max(평균거래량, 1)) - 1) * 100
+  if (거래량증가율 < settings.volumeRatioLimit) {
+    return NO_SIGNAL
+  }
+
+  // 4. 상승 추세 유지 확인
+  const 현재봉상승률 = ((현재가 - 현재봉시가) / 현재봉시가) * 100
+  const 전봉상승률 = ((전봉종가 - 전봉시가) / 전봉시가) * 100
+  if (현재봉상승률 <= settings.currentMinRise || 전봉상승률 <= settings.prevMinRise) {
+    return NO_SIGNAL
+  }
+
+  // 5. 폭락 패턴 필터링
+  const 최근고가 = Math.max(...최근분봉.slice(0, settings.recentHighPeriod).map(c => c.고가))
+  const 고가대비하락률 = ((현재가 - 최근고가) / 최근고가) * 100
+  if (고가대비하락률 < settings.highDropLimit) {
+    return NO_SIGNAL
+  }
+
+  // 6. 양봉 비율 체크
+  let 양봉수 = 0
+  let 음봉수 = 0
+  for (let i = 0; i < Math.min(settings.bullishRatioCheckCount, 최근분봉.length); i++) {
+    if (최근분봉[i].종가 >= 최근분봉[i].시가) {
+      양봉수++
+    } else {
+      음봉수++
+    }
+  }
+  const 양봉비율 = (양봉수 / (양봉수 + 음봉수)) * 100
+  if (양봉비율 < settings.minBullishRatio) {
+    return NO_SIGNAL
+  }
+
+  // 7. RSI 조건 확인
+  const rsi = calculateRSI(candles, settings.rsiPeriod)
+  if (rsi < settings.rsiLower || rsi > settings.rsiUpper) {
+    return NO_SIGNAL
+  }
+
+  // 8. 거래대금 체크
+  const 거래대금 = 현재가 * stock.volume
+  if (거래대금 < settings.minTradingAmount * 100000000) {
+    return NO_SIGNAL
+  }
+
+  return {
+    signal: true,
+    message: `[장시작급등주매수 성공] ${stock.name} - 연속상승봉:${연속상승봉수}개, 거래량증가율:${거래량증가율.toFixed(2)}%, RSI:${rsi.toFixed(2)}`,
+  }
+}
+
+/**
+ * 볼린저밴드매수
+ */
+export function 볼린저밴드매수(
+  stock: StrategyStock,
+  candles: CandleData[],
+  settings: BollingerBuySettings
+): StrategyResult {
+  if (!candles || candles.length < settings.shortTermPeriod) {
+    return NO_SIGNAL
+  }
+
+  const 최근분봉 = candles.slice(0, settings.recentCandleCount)
+  const 현재가 = stock.price
+
+  const bollingerBands = calculateBollingerBands(
+    candles,
+    Math.round(settings.bollingerPeriod || 20),
+    settings.bollingerMultiplier || 2
+  )
+  if (bollingerBands.length === 0) {
+    return NO_SIGNAL
+  }
+
+  // 1. 시가와 고가의 변동 체크
+  if (settings.openHighBounceLimitUse > 0) {
+    const 시가 = 최근분봉[0].시가
+    const 시가고가변동률 = ((최근분봉[0].고가 - 시가) / 시가) * 100
+    if (시가고가변동률 > settings.openHighBounceLimit) {
+      return NO_SIGNAL
+    }
+  }
+
+  // 2. 가격 상승률 계산
+  let 최근가격상승률 = 0
+  if (최근분봉.length > 1) {
+    최근가격상승률 = ((현재가 - 최근분봉[1].종가) / 최근분봉[1].종가) * 100
+  }
+
+  // 3. 단기 이동평균선 확인
+  const movingAvgPeriod = Math.round(settings.movingAvgPeriod || 3)
+  const 단기이동평균 = 최근분봉.slice(0, movingAvgPeriod).reduce((sum, c) => sum + c.종가, 0) / movingAvgPeriod
+  if (settings.movingAvgRequired > 0 && 현재가 < 단기이동평균 && 최근가격상승률 < settings.minPriceRise) {
+    return NO_SIGNAL
+  }
+
+  // 4. 거래량 분석 - 순간 거래량 폭증 감지
+  if (settings.instantVolumeUse <= 0 || 최근분봉.length <= settings.volumeCompareCount) {
+    return NO_SIGNAL
+  }
+  const 현재봉거래량 = 최근분봉[0].거래량
+  const 이전봉거래량 = 최근분봉.slice(1, 1 + settings.volumeCompareCount)
+    .reduce((sum, c) => sum + c.거래량, 0) / settings.volumeCompareCount
+  const 순간거래량증가율 = 이전봉거래량 > 0 ? ((현재봉거래량 / 이전봉거래량) - 1) * 100 : 0
+  if (순간거래량증가율 < settings.instantVolumeIncrease) {
+    return NO_SIGNAL
+  }
+
+  return {
+    signal: true,
+    message: `[볼린저밴드매수 성공] ${stock.name} - 거래량폭증:${순간거래량증가율.toFixed(2)}%, 가격상승률:${최근가격상승률.toFixed(2)}%`,
+  }
+}
+
+/**
+ * 장마감종가배팅매수
+ */
+export function 장마감종가배팅매수(
+  stock: StrategyStock,
+  candles: CandleData[],
+  settings: MarketCloseBuySettings
+): StrategyResult {
+  if (!candles || candles.length < settings.minCandleCount) {
+    return NO_SIGNAL
+  }
+
+  const 최근분봉 = candles.slice(0, settings.recentCandleCount)
+  const 현재가 = stock.price
+
+  // 1. 가격 상승률 계산
+  let 최근가격상승률 = 0
+  if (최근분봉.length > 1) {
+    최근가격상승률 = ((현재가 - 최근분봉[1].종가) / 최근분봉[1].종가) * 100
+  }
+
+  // 2. 이동평균 계산
+  const 단기이동평균 = 최근분봉.slice(0, settings.shortTermPeriod).reduce((sum, c) => sum + c.종가, 0) / settings.shortTermPeriod
+  if (현재가 < 단기이동평균 && 최근가격상승률 < settings.minPriceRise) {
+    return NO_SIGNAL
+  }
+
+  // 3. 거래량 급증 체크
+  const 현재거래량 = stock.volume
+  const 이전거래량평균 = candles.slice(1, 1 + settings.avgVolumePeriod).reduce((sum, c) => sum + c.거래량, 0) / settings.avgVolumePeriod
+  if (이전거래량평균 < 1) {
+    return NO_SIGNAL
+  }
+  const 거래량증가율 = ((현재거래량 / 이전거래량평균) - 1) * 100
+  if (거래량증가율 < settings.volumeIncreaseRate) {
+    return NO_SIGNAL
+  }
+
+  // 4. 거래대금 체크
+  if (현재가 * 현재거래량 < settings.minTradingAmount * 100000000) {
+    return NO_SIGNAL
+  }
+
+  // 5. 변동성 체크
+  const 최고가 = Math.max(...최근분봉.map(c => c.고가))
+  const 최저가 = Math.min(...최근분봉.map(c => c.저가))
+  const 변동폭비율 = ((최고가 - 최저가) / 최저가) * 100
+  if (변동폭비율 > settings.maxVolatility) {
+    return NO_SIGNAL
+  }
+
+  return {
+    signal: true,
+    message: `[장마감종가배팅매수 성공] ${stock.name} - 거래량증가율:${거래량증가율.toFixed(2)}%, 변동폭:${변동폭비율.toFixed(2)}%`,
+  }
+}
+
+/**
+ * 스캘핑매수 (볼린저밴드 계산은 볼린저밴드매수 설정값을 공유)
+ */
+export function 스캘핑매수(
+  stock: StrategyStock,
+  candles: CandleData[],
+  settings: ScalpingBuySettings,
+  bollingerSettings: Pick<BollingerBuySettings, 'bollingerPeriod' | 'bollingerMultiplier'>
+): StrategyResult {
+  if (!candles || candles.length < settings.minCandleCount) {
+    return NO_SIGNAL
+  }
+
+  const 최근분봉 = candles.slice(0, settings.recentCandleCount)
+  const 현재가 = stock.price
+
+  // 1. 가격 상승률 계산
+  let 최근가격상승률 = 0
+  if (최근분봉.length > 1) {
+    최근가격상승률 = ((현재가 - 최근분봉[1].종가) / 최근분봉[1].종가) * 100
+  }
+
+  // 2. 단기 이동평균선 확인
+  const 단기이동평균 = 최근분봉.slice(0, settings.shortTermPeriod).reduce((sum, c) => sum + c.종가, 0) / settings.shortTermPeriod
+  if (현재가 < 단기이동평균 && 최근가격상승률 < settings.priceRiseCheckThreshold) {
+    return NO_SIGNAL
+  }
+
+  // 3. 거래량 폭증 감지
+  const 현재봉거래량 = 최근분봉[0].거래량
+  const 이전봉거래량 = 최근분봉.slice(1, 1 + settings.prevVolumePeriod).reduce((sum, c) => sum + c.거래량, 0) / settings.prevVolumePeriod
+  const 순간거래량증가율 = 이전봉거래량 > 0 ? ((현재봉거래량 / 이전봉거래량) - 1) * 100 : 0
+  const 거래량급증 = 순간거래량증가율 >= settings.volumeIncreaseRate
+
+  // 볼린저 밴드 폭 확인
+  const bollingerBands = calculateBollingerBands(
+    candles,
+    Math.round(bollingerSettings.bollingerPeriod || 20),
+    bollingerSettings.bollingerMultiplier || 2
+  )
+  if (bollingerBands.length === 0) {
+    return NO_SIGNAL
+  }
+  const { upper: 상단밴드, middle: 중심선, lower: 하단밴드 } = bollingerBands[0]
+  const 밴드폭 = ((상단밴드 - 하단밴드) / 중심선) * 100
+  if (밴드폭 < settings.lowerBandDeviation) {
+    return NO_SIGNAL
+  }
+
+  // 4. 풀백 재진입 패턴 분석
+  const 전체분봉 = candles.slice(0, settings.fullCandleCount)
+  if (전체분봉.length < settings.fullCandleCount) {
+    return NO_SIGNAL
+  }
+  const 종가배열 = 전체분봉.map(c => c.종가)
+
+  const 고점들: number[] = []
+  const 저점들: number[] = []
+  for (let i = settings.peakValleySearchStart; i < 종가배열.length - settings.peakValleySearchStart; i++) {
+    if (종가배열[i] > 종가배열[i - 1] && 종가배열[i] > 종가배열[i - 2] &&
+        종가배열[i] > 종가배열[i + 1] && 종가배열[i] > 종가배열[i + 2]) {
+      고점들.push(i)
+    }
+    if (종가배열[i] < 종가배열[i - 1] && 종가배열[i] < 종가배열[i - 2] &&
+        종가배열[i] < 종가배열[i + 1] && 종가배열[i] < 종가배열[i + 2]) {
+      저점들.push(i)
+    }
+  }
+
+  if ((고점들.length < 1 || 저점들.length < 1) && !거래량급증) {
+    return NO_SIGNAL
+  }
+
+  const 최근고점 = 고점들.length > 0 ? Math.min(...고점들) : -1
+  const 최근저점 = 저점들.length > 0 ? Math.min(...저점들) : -1
+
+  let 유효한풀백패턴 = false
+  if (최근고점 !== -1 && 최근저점 !== -1 && 최근고점 < 최근저점) {
+    const 저점가격 = 종가배열[최근저점]
+    const 상승률 = ((종가배열[0] - 저점가격) / 저점가격) * 100
+    const 저점이후상승중 = 상승률 >= settings.minRiseAfterLow
+
+    const 고점가격 = 종가배열[최근고점]
+    const 풀백깊이 = ((고점가격 - 저점가격) / 고점가격) * 100
+    const 적절한풀백깊이 = 풀백깊이 >= settings.pullbackDepthMin && 풀백깊이 <= settings.pullbackDepthMax
+
+    let 상승봉카운트 = 0
+    for (let i = 최근저점 - 1; i >= 0; i--) {
+      if (i + 1 < 종가배열.length && 종가배열[i] > 종가배열[i + 1]) {
+        상승봉카운트++
+      } else {
+        break
+      }
+    }
+
+    유효한풀백패턴 = 저점이후상승중 && 적절한풀백깊이 && 상승봉카운트 >= settings.minRiseCandles
+  }
+
+  if (!유효한풀백패턴 && !거래량급증) {
+    return NO_SIGNAL
+  }
+
+  // 5. 거래대금 체크
+  if (현재가 * stock.volume < settings.minTradingAmount * 100000000) {
+    return NO_SIGNAL
+  }
+
+  // 6. RSI 분석
+  const rsi = calculateRSI(candles, settings.rsiPeriod)
+  const rsi상승추세 = rsi > settings.rsiLower && rsi < settings.rsiUpper
+  if (!rsi상승추세) {
+    return NO_SIGNAL
+  }
+
+  // 7. 최종 매수 신호 결정
+  const 매수신호 = 거래량급증
+    ? 유효한풀백패턴 || 최근가격상승률 > settings.minPriceRise
+    : 유효한풀백패턴
+  if (!매수신호) {
+    return NO_SIGNAL
+  }
+
+  return {
+    signal: true,
+    message: `[스캘핑매수 성공] ${stock.name} - 전략:${거래량급증 ? '거래량급증' : '풀백재진입'}, RSI:${rsi.toFixed(2)}`,
+  }
+}
+
+/**
+ * 돌파매수
+ */
+export function 돌파매수(
+  stock: StrategyStock,
+  candles: CandleData[],
+  settings: BreakoutBuySettings
+): StrategyResult {
+  if (!candles || candles.length < Math.max(settings.shortTermPeriod, 2)) {
+    return NO_SIGNAL
+  }
+
+  const 최근분봉 = candles.slice(0, settings.recentCandleCount)
+  const 현재가 = stock.price
+  const 현재거래량 = stock.volume
+
+  // 1. 실시간 거래량 증가 감지
+  const 이전1분봉거래량 = 최근분봉.length > 1 ? 최근분봉[1].거래량 : 1
+  const 이전3분봉평균거래량 = 최근분봉.slice(1, 1 + settings.volume3MinPeriod)
+    .reduce((sum, c) => sum + c.거래량, 0) / Math.min(settings.volume3MinPeriod, 최근분봉.length - 1)
+  const 이전5분봉평균거래량 = 최근분봉.slice(1, 1 + settings.volume5MinPeriod)
+    .reduce((sum, c) => sum + c.거래량, 0) / Math.min(settings.volume5MinPeriod, 최근분봉.length - 1)
+
+  const 직전대비거래량증가율 = (현재거래량 / Math.max(이전1분봉거래량, 1)) * 100
+  const 최근3분대비거래량증가율 = (현재거래량 / Math.max(이전3분봉평균거래량, 1)) * 100
+  const 최근5분대비거래량증가율 = (현재거래량 / Math.max(이전5분봉평균거래량, 1)) * 100
+
+  let 거래량증가정보 = ''
+  if (직전대비거래량증가율 >= settings.volumeIncreaseRate * settings.volume1MinCoeff) {
+    거래량증가정보 = `직전봉 대비: ${직전대비거래량증가율.toFixed(2)}%`
+  } else if (최근3분대비거래량증가율 >= settings.volumeIncreaseRate * settings.volume3MinCoeff) {
+    거래량증가정보 = `3분평균 대비: ${최근3분대비거래량증가율.toFixed(2)}%`
+  } else if (최근5분대비거래량증가율 >= settings.volumeIncreaseRate * settings.volume5MinCoeff) {
+    거래량증가정보 = `5분평균 대비: ${최근5분대비거래량증가율.toFixed(2)}%`
+  } else {
+    return NO_SIGNAL
+  }
+
+  // 2. 거래대금 체크
+  if (현재가 * 현재거래량 < settings.minTradingAmount * 100000000) {
+    return NO_SIGNAL
+  }
+
+  // 3. 단기 가격 급등 확인
+  const 최근가격상승률 = ((현재가 - 최근분봉[1].종가) / 최근분봉[1].종가) * 100
+  const idx = Math.min(settings.priceRiseCheckPeriod, 최근분봉.length - 1)
+  const 최근3분가격상승률 = ((현재가 - 최근분봉[idx].종가) / 최근분봉[idx].종가) * 100
+
+  // 4. 이전 고점 돌파 확인
+  const 이전고점 = Math.max(...최근분봉.slice(1, 1 + settings.prevHighPeriod).map(c => c.고가))
+  const 이전고점대비상승률 = ((현재가 - 이전고점) / 이전고점) * 100
+  if (이전고점대비상승률 < settings.prevHighRiseRate * settings.prevHighRiseRelaxCoeff) {
+    if (최근가격상승률 < settings.minShortRise && 최근3분가격상승률 < settings.min3MinRise) {
+      return NO_SIGNAL
+    }
+  }
+
+  // 5. 등락률 체크
+  const 등락률 = stock.changePercent
+  if (등락률 < settings.minFluctuation * settings.minFluctuationRelaxCoeff ||
+      등락률 > settings.maxFluctuation * settings.maxFluctuationExpandCoeff) {
+    return NO_SIGNAL
+  }
+
+  // 6. 단기 이동평균선 확인
+  const 단기이동평균 = 최근분봉.slice(0, settings.shortTermPeriod).reduce((sum, c) => sum + c.종가, 0) / settings.shortTermPeriod
+  if (현재가 < 단기이동평균 && 최근가격상승률 < settings.priceRiseCheckThreshold) {
+    return NO_SIGNAL
+  }
+
+  // 7. RSI 체크
+  const rsi = calculateRSI(candles, settings.rsiPeriod)
+  if (rsi < settings.rsiLower * settings.rsiLowerRelaxCoeff) {
+    return NO_SIGNAL
+  }
+
+  return {
+    signal: true,
+    message: `[돌파매수 성공] ${stock.name} - ${거래량증가정보}, 등락률:${등락률.toFixed(2)}%, RSI:${rsi.toFixed(2)}`,
+  }
+}
+
+// 매수/매도 판단 과정에서 남기는 로그
+export interface SignalLog {
+  message: string
+  level: 'info' | 'success' | 'warning'
+}
+
+// 매수 판단 대상 종목 (조건식 감지 시점 정보 포함)
+export interface BuySignalStock extends StrategyStock {
+  startPrice: number // 감지 시점 가격
+  detectedChangePercent: number // 감지 시점 등락률
+}
+
+// 매수 판단에 필요한 매매설정 (TradingEngineConfig의 일부)
+export interface BuyRuleConfig {
+  startHour: number
+  startMinute: number
+  endHour: number
+  endMinute: number
+  endSecond: number
+  buyFormula1: boolean
+  strategyBasicBuy: boolean
+  strategyMarketOpen: boolean
+  strategyBollinger: boolean
+  strategyScalping: boolean
+  strategyBreakout: boolean
+  strategyMarketClose: boolean
+  basicBuy: BasicBuySettings
+  marketOpenBuy: MarketOpenBuySettings
+  bollingerBuy: BollingerBuySettings
+  marketCloseBuy: MarketCloseBuySettings
+  scalpingBuy: ScalpingBuySettings
+  breakoutBuy: BreakoutBuySettings
+  strategies?: StrategyOverrides // 전략 레지스트리 설정 (위의 strategyXxx/xxxBuy 항목보다 우선)
+}
+
+// 매도 판단 대상 보유 종목
+export interface SellSignalHolding {
+  name: string
+  profitPercent: number
+  maxProfitPercent: number
+}
+
+// 매도 판단에 필요한 매매설정 (TradingEngineConfig의 일부)
+export interface SellRuleConfig {
+  profitTarget: number
+  lossLimit: number
+  stopLossEnabled: boolean
+  stopLossRate: number
+  trailingStop: boolean
+  trailingProfitThreshold: number
+  trailingDropThreshold: number
+  dropSellTime: boolean
+  dropSellStartHour: number
+  dropSellStartMinute: number
+  dropSellEndSecond: number
+}
+
+export type SellReason = 'trailing' | 'profit' | 'loss' | 'stopLoss' | 'time'
+
+export interface SellSignalResult {
+  reason: SellReason
+  log: SignalLog
+}
+
+const EXCLUDED_STOCK_KEYWORDS = ['레버리지', '인버스', '2X', '선물', 'KODEX', '3X']
+
+export function toMinutes(date: Date): number {
+  return date.getHours() * 60 + date.getMinutes()
+}
+
+/**
+ * 매매 시간 여부 (매매시작 ~ 매매종료)
+ */
+export function isBuyTime(config: BuyRuleConfig, now: Date): boolean {
+  const currentTime = toMinutes(now)
+  const startTime = config.startHour * 60 + config.startMinute
+  const endTime = config.endHour * 60 + config.endMinute + (config.endSecond >= 59 ? 1 : 0)
+  return currentTime >= startTime && currentTime < endTime
+}
+
+/**
+ * 레버리지/인버스 ETF 등 매수 제외 종목 여부
+ */
+export function isExcludedStock(name: string): boolean {
+  return EXCLUDED_STOCK_KEYWORDS.some(keyword => name.includes(keyword))
+}
+
+/**
+ * 매도 신호 판단 (트레일링 스탑 → 익절 → 손절 → 시장가 손절 → 시간 매도 순)
+ * 매도하지 않으면 null
+ */
+export function checkSellSignal(
+  holding: SellSignalHolding,
+  config: SellRuleConfig,
+  now: Date = new Date()
+): SellSignalResult | null {
+  const 최고수익률 = holding.maxProfitPercent
+
+  // 1. 트레일링 스탑
+  if (config.trailingStop && 최고수익률 >= config.trailingProfitThreshold) {
+    const 현재하락률 = 최고수익률 - holding.profitPercent
+    if (현재하락률 >= Math.abs(config.trailingDropThreshold)) {
+      return {
+        reason: 'trailing',
+        log: { message: `[매도신호1] ${holding.name}: 트레일링 매도 - 최고수익률: ${최고수익률.toFixed(2)}% → 현재수익률: ${holding.profitPercent.toFixed(2)}% (하락률: ${현재하락률.toFixed(2)}%)`, level: 'warning' },
+      }
+    }
+  }
+
+  // 2. 익절 (최고수익률이 익절기준 이상)
+  if (config.profitTarget > 0 && 최고수익률 >= config.profitTarget) {
+    return {
+      reason: 'profit',
+      log: { message: `[매도신호1] ${holding.name}: 익절 - 최고수익률: ${최고수익률.toFixed(2)}% (기준: ${config.profitTarget}%)`, level: 'success' },
+    }
+  }
+
+  // 3. 손절 (현재수익률이 손절기준 이하)
+  if (config.lossLimit < 0 && holding.profitPercent <= config.lossLimit) {
+    return {
+      reason: 'loss',
+      log: { message: `[매도신호1] ${holding.name}: 손절 - 현재수익률: ${holding.profitPercent.toFixed(2)}% (기준: ${config.lossLimit}%)`, level: 'warning' },
+    }
+  }
+
+  // 4. 시장가 손절
+  if (config.stopLossEnabled && holding.profitPercent <= config.stopLossRate) {
+    return {
+      reason: 'stopLoss',
+      log: { message: `[손절 감지] ${holding.name}: 현재 수익률 ${holding.profitPercent.toFixed(2)}% <= 손절 기준 ${config.stopLossRate}%`, level: 'warning' },
+    }
+  }
+
+  // 5. 시간 매도
+  if (config.dropSellTime) {
+    const dropSellTimeMinutes = config.dropSellStartHour * 60 + config.dropSellStartMinute
+    const currentTimeMinutes = toMinutes(now)
+    if (currentTimeMinutes > dropSellTimeMinutes ||
+        (currentTimeMinutes === dropSellTimeMinutes && now.getSeconds() >= config.dropSellEndSecond)) {
+      return {
+        reason: 'time',
+        log: { message: `${holding.name} 시간 매도 조건 달성`, level: 'warning' },
+      }
+    }
+  }
+
+  return null
+}
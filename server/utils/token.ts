@@ -0,0 +1,83 @@
+/**
+ * 서명 토큰 유틸리티
+ * HMAC-SHA256으로 서명한 JWT(HS256) 형식 토큰 발급/검증
+ * 서명 키는 SESSION_SECRET 환경 변수, 없으면 서버 시작 시 임의로 생성 (재시작하면 기존 토큰 무효)
+ */
+import * as crypto from 'crypto'
+
+export interface TokenPayload {
+  sub: string // 토큰 대상 (사용자 ID 등)
+  iat: number // 발급 시각 (초)
+  exp: number // 만료 시각 (초)
+  [key: string]: any
+}
+
+let secret: Buffer | null = null
+
+function getSecret(): Buffer {
+  if (!secret) {
+    if (process.env.SESSION_SECRET) {
+      secret = Buffer.from(process.env.SESSION_SECRET, 'utf-8')
+    } else {
+      console.warn('[토큰] SESSION_SECRET이 없어 임시 서명 키를 사용합니다 (서버를 재시작하면 다시 로그인해야 합니다)')
+      secret = crypto.randomBytes(32)
+    }
+  }
+  return secret
+}
+
+function base64url(value: string | Buffer): string {
+  return Buffer.from(value).toString('base64url')
+}
+
+function sign(data: string): string {
+  return crypto.createHmac('sha256', getSecret()).update(data).digest('base64url')
+}
+
+/**
+ * 토큰 발급
+ * @param ttlSeconds 유효 시간 (초)
+ */
+export function signToken(sub: string, claims: Record<string, any>, ttlSeconds: number): { token: string; expiresAt: string } {
+  const iat = Math.floor(Date.now() / 1000)
+  const payload: TokenPayload = { ...claims, sub, iat, exp: iat + ttlSeconds }
+  const data = `${base64url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }))}.${base64url(JSON.stringify(payload))}`
+  return {
+    token: `${data}.${sign(data)}`,
+    expiresAt: new Date(payload.exp * 1000).toISOString(),
+  }
+}
+
+/**
+ * 토큰 검증 (서명이 맞지 않거나 만료되었으면 null)
+ */
+export function verifyToken(token: string): TokenPayload | null {
+  const parts = String(token || '').split('.')
+  if (parts.length !== 3) {
+    return null
+  }
+
+  const expected = Buffer.from(sign(`${parts[0]}.${parts[1]}`))
+  const actual = Buffer.from(parts[2])
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return null
+  }
+
+  try {
+    const payload: TokenPayload = JSON.parse(Buffer.from(parts[1], 'base64url').toString('utf-8'))
+    if (!payload.sub || typeof payload.exp !== 'number' || payload.exp * 1000 <= Date.now()) {
+      return null
+    }
+    return payload
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Authorization: Bearer <토큰> 헤더에서 토큰 추출
+ */
+export function getBearerToken(header: string | undefined): string | null {
+  const match = /^Bearer\s+(.+)$/i.exec(header || '')
+  return match ? match[1].trim() : null
+}
@@ -0,0 +1,227 @@
+/**
+ * 기술적 지표 테스트 (참고 계산값과 비교)
+ * SMA/EMA/RSI는 StockCharts ChartSchool 예제, 볼린저밴드·MACD·ATR·VWAP·스토캐스틱·OBV는 손으로 계산할 수 있는 시계열 사용
+ */
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import {
+  SMA, EMA, RSI, MACD, BollingerBands, ATR, VWAP, Stochastic, OBV,
+  IndicatorCandle, sma, ema, rsi, macd, bollingerBands, atr, vwap, stochastic, obv,
+} from './indicators'
+
+function assertClose(actual: number | null | undefined, expected: number, tolerance: number = 0.01): void {
+  assert.ok(actual !== null && actual !== undefined, `값이 없습니다 (기대값: ${expected})`)
+  assert.ok(Math.abs(actual - expected) <= tolerance, `${actual} ≠ ${expected} (허용 오차 ${tolerance})`)
+}
+
+// StockCharts EMA 예제 (10일)
+const EMA_CLOSES = [
+  22.27, 22.19, 22.08, 22.17, 22.18, 22.13, 22.23, 22.43, 22.24, 22.29,
+  22.15, 22.39, 22.38, 22.61, 23.36, 24.05, 23.75, 23.83, 23.95, 23.63,
+]
+const EMA_EXPECTED = [22.22, 22.21, 22.24, 22.27, 22.33, 22.52, 22.80, 22.97, 23.13, 23.28, 23.34]
+
+// StockCharts RSI 예제 (14일, 평균을 반올림하지 않은 스프레드시트 값)
+const RSI_CLOSES = [
+  44.34, 44.09, 44.15, 43.61, 44.33, 44.83, 45.10, 45.42, 45.84, 46.08,
+  45.89, 46.03, 45.61, 46.28, 46.28, 46.00, 46.03, 46.41, 46.22, 45.64,
+]
+const RSI_EXPECTED = [70.46, 66.25, 66.48, 69.35, 66.29, 57.92]
+
+function candle(high: number, low: number, close: number, volume: number = 0): IndicatorCandle {
+  return { open: close, high, low, close, volume }
+}
+
+// ATR 3일: True Range 2, 2, 2(첫 ATR = 평균 2), 4(갭 상승), 2, 3.5(갭 하락)
+const ATR_CANDLES = [
+  candle(10, 8, 9), candle(11, 9, 10.5), candle(12, 10, 11),
+  candle(15, 13, 14), candle(14, 12, 12.5), candle(10, 9, 9.5),
+]
+const ATR_EXPECTED = [2, 8 / 3, 22 / 9, 75.5 / 27]
+
+// VWAP: 대표가격(고가+저가+종가)/3이 10, 12, 9, 14이고 거래량이 100, 300, 0, 100
+const VWAP_CANDLES = [candle(12, 8, 10, 100), candle(13, 10, 13, 300), candle(11, 8, 8, 0), candle(15, 12, 15, 100)]
+const VWAP_EXPECTED = [10, 11.5, 11.5, 12]
+
+// 스토캐스틱 3일: %K(원값)는 80, 50, 100
+const STOCHASTIC_CANDLES = [candle(10, 8, 9), candle(12, 9, 11), candle(13, 10, 12), candle(12, 11, 11), candle(14, 11, 14)]
+
+// OBV: 종가 상승 +200, 보합 0, 하락 -150, 상승 +400
+const OBV_CANDLES = [candle(10, 10, 10, 100), candle(11, 11, 11, 200), candle(11, 11, 11, 300), candle(9, 9, 9, 150), candle(12, 12, 12, 400)]
+
+describe('SMA', () => {
+  it('기간만큼 모이기 전에는 null, 이후 최근 period개의 평균', () => {
+    assert.deepEqual(sma([1, 2, 3, 4, 5], 3), [null, null, 2, 3, 4])
+  })
+
+  it('참고 시계열의 첫 10일 평균', () => {
+    assertClose(sma(EMA_CLOSES, 10)[9], 22.22)
+  })
+
+  it('reset 후 처음부터 다시 계산', () => {
+    const indicator = new SMA(2)
+    indicator.update(10)
+    indicator.update(20)
+    indicator.reset()
+    assert.equal(indicator.update(30), null)
+    assert.equal(indicator.update(50), 40)
+  })
+
+  it('기간이 1 이상의 정수가 아니면 에러', () => {
+    assert.throws(() => new SMA(0))
+    assert.throws(() => new SMA(2.5))
+  })
+})
+
+describe('EMA', () => {
+  it('첫 값은 단순평균, 이후 지수 가중 평균 (참고 계산값과 일치)', () => {
+    const values = ema(EMA_CLOSES, 10)
+    assert.deepEqual(values.slice(0, 9), Array(9).fill(null))
+    values.slice(9).forEach((value, index) => assertClose(value, EMA_EXPECTED[index]))
+  })
+
+  it('스트리밍 계산과 시계열 계산 결과가 같음', () => {
+    const indicator = new EMA(10)
+    assert.deepEqual(EMA_CLOSES.map(close => indicator.update(close)), ema(EMA_CLOSES, 10))
+  })
+})
+
+describe('RSI', () => {
+  it('period + 1개의 종가부터 Wilder 평활로 계산 (참고 계산값과 일치)', () => {
+    const values = rsi(RSI_CLOSES, 14)
+    assert.deepEqual(values.slice(0, 14), Array(14).fill(null))
+    values.slice(14).forEach((value, index) => assertClose(value, RSI_EXPECTED[index]))
+  })
+
+  it('상승만 있으면 100, 변화가 없으면 50', () => {
+    assert.equal(new RSI(3).update(1), null)
+    assert.equal(rsi([1, 2, 3, 4], 3)[3], 100)
+    assert.equal(rsi([5, 5, 5, 5], 3)[3], 50)
+  })
+})
+
+describe('MACD', () => {
+  it('직선 시계열은 MACD가 (장기 - 단기) / 2로 일정하고 히스토그램은 0', () => {
+    const closes = Array.from({ length: 60 }, (_, index) => 100 + index)
+    const values = macd(closes)
+
+    assert.deepEqual(values.slice(0, 25), Array(25).fill(null))
+    const first = values[25]!
+    assertClose(first.macd, 7, 1e-9)
+    assert.equal(first.signal, null)
+    assert.equal(first.histogram, null)
+
+    const last = values[values.length - 1]!
+    assertClose(last.macd, 7, 1e-9)
+    assertClose(last.signal, 7, 1e-9)
+    assertClose(last.histogram, 0, 1e-9)
+  })
+
+  it('시그널선은 MACD가 signalPeriod개 모인 뒤부터 계산', () => {
+    const values = macd(Array.from({ length: 40 }, (_, index) => 100 + (index % 5)), 3, 6, 4)
+    assert.equal(values[4], null)
+    assert.equal(values[5]!.signal, null)
+    assert.notEqual(values[8]!.signal, null)
+  })
+
+  it('단기 기간이 장기 기간보다 짧지 않으면 에러', () => {
+    assert.throws(() => new MACD(26, 12))
+  })
+})
+
+describe('BollingerBands', () => {
+  it('중심선은 SMA, 밴드는 모표준편차 × multiplier', () => {
+    const values = bollingerBands([2, 4, 4, 4, 5, 5, 7, 9], 8, 2)
+    assert.deepEqual(values.slice(0, 7), Array(7).fill(null))
+    assert.deepEqual(values[7], { upper: 9, middle: 5, lower: 1 })
+  })
+
+  it('최근 period개만 사용', () => {
+    const indicator = new BollingerBands(2, 1)
+    indicator.update(100)
+    indicator.update(1)
+    assert.deepEqual(indicator.update(3), { upper: 3, middle: 2, lower: 1 })
+  })
+
+  it('값이 모두 같으면 밴드 폭 0', () => {
+    assert.deepEqual(bollingerBands([10, 10, 10], 3)[2], { upper: 10, middle: 10, lower: 10 })
+  })
+})
+
+describe('ATR', () => {
+  it('True Range의 Wilder 평활 (갭은 전일 종가와의 차이 사용)', () => {
+    const values = atr(ATR_CANDLES, 3)
+    assert.deepEqual(values.slice(0, 2), [null, null])
+    values.slice(2).forEach((value, index) => assertClose(value, ATR_EXPECTED[index], 1e-9))
+  })
+
+  it('스트리밍 계산과 시계열 계산 결과가 같고 reset 후 처음부터 다시 계산', () => {
+    const indicator = new ATR(3)
+    assert.deepEqual(ATR_CANDLES.map(c => indicator.update(c)), atr(ATR_CANDLES, 3))
+    indicator.reset()
+    assert.equal(indicator.update(ATR_CANDLES[3]), null)
+  })
+})
+
+describe('VWAP', () => {
+  it('누적 대표가격 × 거래량 ÷ 누적 거래량 (거래량 0인 봉은 값 유지)', () => {
+    assert.deepEqual(vwap(VWAP_CANDLES), VWAP_EXPECTED)
+  })
+
+  it('거래량이 모이기 전에는 null', () => {
+    assert.deepEqual(vwap([candle(12, 8, 10, 0), candle(12, 8, 10, 50)]), [null, 10])
+  })
+
+  it('스트리밍 계산과 시계열 계산 결과가 같고 reset 후 처음부터 다시 계산', () => {
+    const indicator = new VWAP()
+    assert.deepEqual(VWAP_CANDLES.map(c => indicator.update(c)), vwap(VWAP_CANDLES))
+    indicator.reset()
+    assert.equal(indicator.update(VWAP_CANDLES[3]), 14)
+  })
+})
+
+describe('Stochastic', () => {
+  it('Fast: %K는 기간 내 최고가/최저가 대비 종가 위치, %D는 %K의 SMA', () => {
+    assert.deepEqual(stochastic(STOCHASTIC_CANDLES, 3, 2, 1), [
+      null,
+      null,
+      { k: 80, d: null },
+      { k: 50, d: 65 },
+      { k: 100, d: 75 },
+    ])
+  })
+
+  it('Slow: %K를 smoothing 기간만큼 평균', () => {
+    assert.deepEqual(stochastic(STOCHASTIC_CANDLES, 3, 2, 2), [
+      null,
+      null,
+      null,
+      { k: 65, d: null },
+      { k: 75, d: 70 },
+    ])
+  })
+
+  it('최고가와 최저가가 같으면 %K는 50', () => {
+    assert.deepEqual(stochastic([candle(10, 10, 10), candle(10, 10, 10)], 2, 1), [null, { k: 50, d: 50 }])
+  })
+
+  it('스트리밍 계산과 시계열 계산 결과가 같고 reset 후 처음부터 다시 계산', () => {
+    const indicator = new Stochastic(3, 2, 2)
+    assert.deepEqual(STOCHASTIC_CANDLES.map(c => indicator.update(c)), stochastic(STOCHASTIC_CANDLES, 3, 2, 2))
+    indicator.reset()
+    assert.equal(indicator.update(STOCHASTIC_CANDLES[4]), null)
+  })
+})
+
+describe('OBV', () => {
+  it('종가가 오르면 거래량을 더하고 내리면 빼며, 보합과 첫 봉은 변화 없음', () => {
+    assert.deepEqual(obv(OBV_CANDLES), [0, 200, 200, 50, 450])
+  })
+
+  it('스트리밍 계산과 시계열 계산 결과가 같고 reset 후 처음부터 다시 계산', () => {
+    const indicator = new OBV()
+    assert.deepEqual(OBV_CANDLES.map(c => indicator.update(c)), obv(OBV_CANDLES))
+    indicator.reset()
+    assert.equal(indicator.update(OBV_CANDLES[4]), 0)
+  })
+})
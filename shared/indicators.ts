@@ -0,0 +1,408 @@
+/**
+ * 기술적 지표 (서버 전략, 백테스트, 클라이언트 차트 공용)
+ * 각 지표는 값을 하나씩 받는 증분(스트리밍) 계산 클래스와 전체 시계열을 계산하는 함수로 제공
+ * 입력은 오래된 데이터가 앞에 오는 순서(시간순), 계산에 필요한 개수가 모이기 전의 값은 null
+ */
+
+export interface IndicatorCandle {
+  open: number
+  high: number
+  low: number
+  close: number
+  volume: number
+}
+
+export interface BollingerValue {
+  upper: number
+  middle: number
+  lower: number
+}
+
+export interface MacdValue {
+  macd: number
+  signal: number | null // 시그널선 기간만큼 MACD가 모이기 전에는 null
+  histogram: number | null
+}
+
+export interface StochasticValue {
+  k: number
+  d: number | null // %D 기간만큼 %K가 모이기 전에는 null
+}
+
+export interface StreamingIndicator<TInput, TOutput> {
+  update(input: TInput): TOutput | null
+  reset(): void
+}
+
+function assertPeriod(period: number, name: string): void {
+  if (!Number.isInteger(period) || period < 1) {
+    throw new Error(`${name} 기간은 1 이상의 정수여야 합니다: ${period}`)
+  }
+}
+
+/**
+ * 단순이동평균 (SMA)
+ */
+export class SMA implements StreamingIndicator<number, number> {
+  private window: number[] = []
+  private sum = 0
+
+  constructor(private readonly period: number) {
+    assertPeriod(period, 'SMA')
+  }
+
+  update(value: number): number | null {
+    this.window.push(value)
+    this.sum += value
+    if (this.window.length > this.period) {
+      this.sum -= this.window.shift()!
+    }
+    return this.window.length === this.period ? this.sum / this.period : null
+  }
+
+  reset(): void {
+    this.window = []
+    this.sum = 0
+  }
+}
+
+/**
+ * 지수이동평균 (EMA, 첫 값은 period개의 단순평균, 이후 가중치 2 / (period + 1))
+ */
+export class EMA implements StreamingIndicator<number, number> {
+  private seed: SMA
+  private value: number | null = null
+  private readonly alpha: number
+
+  constructor(private readonly period: number) {
+    assertPeriod(period, 'EMA')
+    this.seed = new SMA(period)
+    this.alpha = 2 / (period + 1)
+  }
+
+  update(value: number): number | null {
+    if (this.value === null) {
+      this.value = this.seed.update(value)
+    } else {
+      this.value = value * this.alpha + this.value * (1 - this.alpha)
+    }
+    return this.value
+  }
+
+  reset(): void {
+    this.seed.reset()
+    this.value = null
+  }
+}
+
+/**
+ * Wilder 평활 (첫 값은 period개의 단순평균, 이후 (이전값 × (period - 1) + 현재값) / period)
+ * RSI, ATR에서 사용
+ */
+class WilderAverage implements StreamingIndicator<number, number> {
+  private seed: SMA
+  private value: number | null = null
+
+  constructor(private readonly period: number) {
+    this.seed = new SMA(period)
+  }
+
+  update(value: number): number | null {
+    if (this.value === null) {
+      this.value = this.seed.update(value)
+    } else {
+      this.value = (this.value * (this.period - 1) + value) / this.period
+    }
+    return this.value
+  }
+
+  reset(): void {
+    this.seed.reset()
+    this.value = null
+  }
+}
+
+/**
+ * RSI (Wilder 평활, period + 1개의 종가부터 계산)
+ */
+export class RSI implements StreamingIndicator<number, number> {
+  private gain: WilderAverage
+  private loss: WilderAverage
+  private prevClose: number | null = null
+
+  constructor(private readonly period: number = 14) {
+    assertPeriod(period, 'RSI')
+    this.gain = new WilderAverage(period)
+    this.loss = new WilderAverage(period)
+  }
+
+  update(close: number): number | null {
+    if (this.prevClose === null) {
+      this.prevClose = close
+      return null
+    }
+
+    const change = close - this.prevClose
+    this.prevClose = close
+    const avgGain = this.gain.update(Math.max(change, 0))
+    const avgLoss = this.loss.update(Math.max(-change, 0))
+    if (avgGain === null || avgLoss === null) {
+      return null
+    }
+    if (avgLoss === 0) {
+      return avgGain === 0 ? 50 : 100
+    }
+    return 100 - 100 / (1 + avgGain / avgLoss)
+  }
+
+  reset(): void {
+    this.gain.reset()
+    this.loss.reset()
+    this.prevClose = null
+  }
+}
+
+/**
+ * 볼린저밴드 (중심선 SMA ± multiplier × 모표준편차)
+ */
+export class BollingerBands implements StreamingIndicator<number, BollingerValue> {
+  private window: number[] = []
+
+  constructor(private readonly period: number = 20, private readonly multiplier: number = 2) {
+    assertPeriod(period, '볼린저밴드')
+  }
+
+  update(value: number): BollingerValue | null {
+    this.window.push(value)
+    if (this.window.length > this.period) {
+      this.window.shift()
+    }
+    if (this.window.length < this.period) {
+      return null
+    }
+
+    const mean = this.window.reduce((sum, v) => sum + v, 0) / this.period
+    const variance = this.window.reduce((sum, v) => sum + (v - mean) ** 2, 0) / this.period
+    const band = this.multiplier * Math.sqrt(variance)
+    return { upper: mean + band, middle: mean, lower: mean - band }
+  }
+
+  reset(): void {
+    this.window = []
+  }
+}
+
+/**
+ * MACD (단기 EMA - 장기 EMA, 시그널선은 MACD의 EMA)
+ */
+export class MACD implements StreamingIndicator<number, MacdValue> {
+  private fast: EMA
+  private slow: EMA
+  private signal: EMA
+
+  constructor(fastPeriod: number = 12, slowPeriod: number = 26, signalPeriod: number = 9) {
+    if (fastPeriod >= slowPeriod) {
+      throw new Error(`MACD 단기 기간은 장기 기간보다 짧아야 합니다: ${fastPeriod} >= ${slowPeriod}`)
+    }
+    this.fast = new EMA(fastPeriod)
+    this.slow = new EMA(slowPeriod)
+    this.signal = new EMA(signalPeriod)
+  }
+
+  update(close: number): MacdValue | null {
+    const fast = this.fast.update(close)
+    const slow = this.slow.update(close)
+    if (fast === null || slow === null) {
+      return null
+    }
+
+    const macd = fast - slow
+    const signal = this.signal.update(macd)
+    return { macd, signal, histogram: signal === null ? null : macd - signal }
+  }
+
+  reset(): void {
+    this.fast.reset()
+    this.slow.reset()
+    this.signal.reset()
+  }
+}
+
+/**
+ * ATR (True Range의 Wilder 평활, 첫 봉의 True Range는 고가 - 저가)
+ */
+export class ATR implements StreamingIndicator<IndicatorCandle, number> {
+  private average: WilderAverage
+  private prevClose: number | null = null
+
+  constructor(private readonly period: number = 14) {
+    assertPeriod(period, 'ATR')
+    this.average = new WilderAverage(period)
+  }
+
+  update(candle: IndicatorCandle): number | null {
+    const trueRange = this.prevClose === null
+      ? candle.high - candle.low
+      : Math.max(
+        candle.high - candle.low,
+        Math.abs(candle.high - this.prevClose),
+        Math.abs(candle.low - this.prevClose)
+      )
+    this.prevClose = candle.close
+    return this.average.update(trueRange)
+  }
+
+  reset(): void {
+    this.average.reset()
+    this.prevClose = null
+  }
+}
+
+/**
+ * VWAP (누적 (고가 + 저가 + 종가) / 3 × 거래량 ÷ 누적 거래량, 장이 바뀌면 reset)
+ */
+export class VWAP implements StreamingIndicator<IndicatorCandle, number> {
+  private priceVolume = 0
+  private volume = 0
+
+  update(candle: IndicatorCandle): number | null {
+    const typicalPrice = (candle.high + candle.low + candle.close) / 3
+    this.priceVolume += typicalPrice * candle.volume
+    this.volume += candle.volume
+    return this.volume > 0 ? this.priceVolume / this.volume : null
+  }
+
+  reset(): void {
+    this.priceVolume = 0
+    this.volume = 0
+  }
+}
+
+/**
+ * 스토캐스틱 (%K = (종가 - 최저가) / (최고가 - 최저가) × 100을 smoothing 기간 평균, %D = %K의 SMA)
+ * smoothing이 1이면 Fast, 3이면 Slow 스토캐스틱
+ */
+export class Stochastic implements StreamingIndicator<IndicatorCandle, StochasticValue> {
+  private window: IndicatorCandle[] = []
+  private smoothK: SMA
+  private d: SMA
+
+  constructor(
+    private readonly kPeriod: number = 14,
+    dPeriod: number = 3,
+    smoothing: number = 1
+  ) {
+    assertPeriod(kPeriod, '스토캐스틱')
+    this.smoothK = new SMA(smoothing)
+    this.d = new SMA(dPeriod)
+  }
+
+  update(candle: IndicatorCandle): StochasticValue | null {
+    this.window.push(candle)
+    if (this.window.length > this.kPeriod) {
+      this.window.shift()
+    }
+    if (this.window.length < this.kPeriod) {
+      return null
+    }
+
+    const highest = Math.max(...this.window.map(c => c.high))
+    const lowest = Math.min(...this.window.map(c => c.low))
+    const rawK = highest === lowest ? 50 : ((candle.close - lowest) / (highest - lowest)) * 100
+    const k = this.smoothK.update(rawK)
+    if (k === null) {
+      return null
+    }
+    return { k, d: this.d.update(k) }
+  }
+
+  reset(): void {
+    this.window = []
+    this.smoothK.reset()
+    this.d.reset()
+  }
+}
+
+/**
+ * OBV (종가가 오르면 거래량을 더하고 내리면 뺌, 첫 봉은 0)
+ */
+export class OBV implements StreamingIndicator<IndicatorCandle, number> {
+  private value = 0
+  private prevClose: number | null = null
+
+  update(candle: IndicatorCandle): number {
+    if (this.prevClose !== null) {
+      if (candle.close > this.prevClose) {
+        this.value += candle.volume
+      } else if (candle.close < this.prevClose) {
+        this.value -= candle.volume
+      }
+    }
+    this.prevClose = candle.close
+    return this.value
+  }
+
+  reset(): void {
+    this.value = 0
+    this.prevClose = null
+  }
+}
+
+/**
+ * 증분 계산 지표로 전체 시계열 계산 (입력과 같은 길이)
+ */
+export function toSeries<TInput, TOutput>(
+  indicator: StreamingIndicator<TInput, TOutput>,
+  inputs: TInput[]
+): (TOutput | null)[] {
+  return inputs.map(input => indicator.update(input))
+}
+
+/**
+ * 종가 시계열 (종가 기준 지표 입력)
+ */
+export function getCloses(candles: IndicatorCandle[]): number[] {
+  return candles.map(candle => candle.close)
+}
+
+export function sma(values: number[], period: number): (number | null)[] {
+  return toSeries(new SMA(period), values)
+}
+
+export function ema(values: number[], period: number): (number | null)[] {
+  return toSeries(new EMA(period), values)
+}
+
+export function rsi(values: number[], period: number = 14): (number | null)[] {
+  return toSeries(new RSI(period), values)
+}
+
+export function bollingerBands(values: number[], period: number = 20, multiplier: number = 2): (BollingerValue | null)[] {
+  return toSeries(new BollingerBands(period, multiplier), values)
+}
+
+export function macd(values: number[], fastPeriod?: number, slowPeriod?: number, signalPeriod?: number): (MacdValue | null)[] {
+  return toSeries(new MACD(fastPeriod, slowPeriod, signalPeriod), values)
+}
+
+export function atr(candles: IndicatorCandle[], period: number = 14): (number | null)[] {
+  return toSeries(new ATR(period), candles)
+}
+
+export function vwap(candles: IndicatorCandle[]): (number | null)[] {
+  return toSeries(new VWAP(), candles)
+}
+
+export function stochastic(
+  candles: IndicatorCandle[],
+  kPeriod?: number,
+  dPeriod?: number,
+  smoothing?: number
+): (StochasticValue | null)[] {
+  return toSeries(new Stochastic(kPeriod, dPeriod, smoothing), candles)
+}
+
+export function obv(candles: IndicatorCandle[]): number[] {
+  const indicator = new OBV()
+  return candles.map(candle => indicator.update(candle))
+}
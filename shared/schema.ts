@@ -1,18 +1,213 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar } from "drizzle-orm/pg-core";
+import {
+  pgTable,
+  text,
+  varchar,
+  integer,
+  bigint,
+  boolean,
+  serial,
+  date,
+  timestamp,
+  index,
+  uniqueIndex,
+  primaryKey,
+} from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+// 사용자 (관리자 API 로그인, password는 scrypt 해시)
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
+  role: varchar("role", { length: 20 }).notNull().default("user"), // admin: 관리자 API 사용 가능
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  lastLoginAt: timestamp("last_login_at", { withTimezone: true }),
+  tokenVersion: integer("token_version").notNull().default(0), // 비밀번호를 바꾸면 증가 (이전에 발급한 토큰 거부)
 });
 
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
   password: true,
+  role: true,
 });
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+
+// 주문 (OrderManager가 추적한 주문의 최종 상태)
+export const orders = pgTable(
+  "orders",
+  {
+    id: varchar("id").primaryKey(),
+    accountNo: text("account_no").notNull().default(""),
+    orderNumber: text("order_number").notNull().default(""),
+    originalOrderNumber: text("original_order_number").notNull().default(""),
+    code: varchar("code", { length: 12 }).notNull(),
+    name: text("name").notNull().default(""),
+    side: varchar("side", { length: 4 }).notNull(),
+    orderOption: varchar("order_option", { length: 2 }).notNull(),
+    quantity: integer("quantity").notNull(),
+    price: integer("price").notNull().default(0),
+    filledQuantity: integer("filled_quantity").notNull().default(0),
+    filledAmount: bigint("filled_amount", { mode: "number" }).notNull().default(0),
+    averageFillPrice: integer("average_fill_price").notNull().default(0),
+    cancelledQuantity: integer("cancelled_quantity").notNull().default(0),
+    status: varchar("status", { length: 20 }).notNull(),
+    source: varchar("source", { length: 10 }).notNull(),
+    strategy: text("strategy"), // 매수 신호를 낸 전략 (수동/외부 주문은 null)
+    message: text("message").notNull().default(""),
+    tradeDate: date("trade_date", { mode: "string" }).notNull(),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).notNull(),
+  },
+  (table) => [
+    index("orders_trade_date_idx").on(table.tradeDate),
+    index("orders_order_number_idx").on(table.orderNumber),
+  ],
+);
+
+// 체결 (주문별 누적 체결수량이 늘어날 때마다 1건)
+export const fills = pgTable(
+  "fills",
+  {
+    id: serial("id").primaryKey(),
+    orderId: varchar("order_id").notNull(),
+    accountNo: text("account_no").notNull().default(""),
+    orderNumber: text("order_number").notNull().default(""),
+    code: varchar("code", { length: 12 }).notNull(),
+    name: text("name").notNull().default(""),
+    side: varchar("side", { length: 4 }).notNull(),
+    strategy: text("strategy"),
+    quantity: integer("quantity").notNull(),
+    price: integer("price").notNull(),
+    amount: bigint("amount", { mode: "number" }).notNull(),
+    commission: bigint("commission", { mode: "number" }), // 기록 당시 수수료율로 계산한 수수료 (null: 이전 기록, 현재 설정으로 계산)
+    tax: bigint("tax", { mode: "number" }), // 기록 당시 세율로 계산한 증권거래세
+    cumulativeQuantity: integer("cumulative_quantity").notNull(),
+    tradeDate: date("trade_date", { mode: "string" }).notNull(),
+    filledAt: timestamp("filled_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => [
+    // 주문번호는 거래일마다 새로 매겨지므로 계좌·주문번호·거래일·누적수량으로 중복 체결 판단 (서버를 재시작해도 유지)
+    uniqueIndex("fills_order_number_cumulative_idx").on(
+      table.accountNo,
+      table.orderNumber,
+      table.tradeDate,
+      table.cumulativeQuantity,
+    ),
+    index("fills_trade_date_idx").on(table.tradeDate),
+  ],
+);
+
+// 보유 종목 (계좌별 마지막 잔고 조회 결과)
+export const positions = pgTable(
+  "positions",
+  {
+    accountNo: text("account_no").notNull().default(""),
+    code: varchar("code", { length: 12 }).notNull(),
+    name: text("name").notNull().default(""),
+    quantity: integer("quantity").notNull(),
+    averagePrice: integer("average_price").notNull().default(0),
+    purchaseAmount: bigint("purchase_amount", { mode: "number" }).notNull().default(0),
+    currentPrice: integer("current_price").notNull().default(0),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => [primaryKey({ columns: [table.accountNo, table.code] })],
+);
+
+// 일별 손익 스냅샷 (당일 마지막 평가 값으로 갱신)
+export const dailyPnl = pgTable(
+  "daily_pnl",
+  {
+    accountNo: text("account_no").notNull().default(""),
+    tradeDate: date("trade_date", { mode: "string" }).notNull(),
+    realizedPnl: bigint("realized_pnl", { mode: "number" }).notNull().default(0),
+    unrealizedPnl: bigint("unrealized_pnl", { mode: "number" }).notNull().default(0),
+    totalPnl: bigint("total_pnl", { mode: "number" }).notNull().default(0),
+    buyAmount: bigint("buy_amount", { mode: "number" }).notNull().default(0),
+    sellAmount: bigint("sell_amount", { mode: "number" }).notNull().default(0),
+    fillCount: integer("fill_count").notNull().default(0),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => [primaryKey({ columns: [table.accountNo, table.tradeDate] })],
+);
+
+// 전략 매매 신호 (자동매매 엔진의 매수/매도 판단)
+export const strategySignals = pgTable(
+  "strategy_signals",
+  {
+    id: serial("id").primaryKey(),
+    code: varchar("code", { length: 12 }).notNull(),
+    name: text("name").notNull().default(""),
+    side: varchar("side", { length: 4 }).notNull(),
+    strategy: text("strategy"),
+    reason: text("reason").notNull().default(""),
+    price: integer("price").notNull().default(0),
+    message: text("message").notNull().default(""),
+    tradeDate: date("trade_date", { mode: "string" }).notNull(),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => [index("strategy_signals_trade_date_idx").on(table.tradeDate)],
+);
+
+// 라이선스 키 (키 원문은 저장하지 않고 SHA-256 해시와 표시용 앞자리만 저장)
+export const licenseKeys = pgTable(
+  "license_keys",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    keyHash: varchar("key_hash", { length: 64 }).notNull(),
+    keyPrefix: varchar("key_prefix", { length: 16 }).notNull(),
+    issuedAt: timestamp("issued_at", { withTimezone: true }).notNull().defaultNow(),
+    expiresAt: timestamp("expires_at", { withTimezone: true }).notNull(),
+    validDays: integer("valid_days").notNull(),
+    issuedBy: text("issued_by").notNull().default("admin"),
+    description: text("description"),
+    isActive: boolean("is_active").notNull().default(true),
+    usedCount: integer("used_count").notNull().default(0),
+    lastUsedAt: timestamp("last_used_at", { withTimezone: true }),
+    maxSessions: integer("max_sessions").notNull().default(1),
+    plan: varchar("plan", { length: 20 }).notNull().default("pro"), // 라이선스 플랜 (server/services/licensePlans.ts)
+    appkeyHash: varchar("appkey_hash", { length: 64 }), // 바인딩된 키움 App Key 해시
+    deviceHash: varchar("device_hash", { length: 64 }), // 바인딩된 기기 ID 해시
+    boundAt: timestamp("bound_at", { withTimezone: true }),
+  },
+  (table) => [uniqueIndex("license_keys_key_hash_idx").on(table.keyHash)],
+);
+
+// 라이선스 키 이력 (발급, 연장, 플랜 변경, 비활성화 등, 키를 삭제해도 남김)
+export const licenseKeyEvents = pgTable(
+  "license_key_events",
+  {
+    id: serial("id").primaryKey(),
+    keyId: varchar("key_id").notNull(),
+    keyPrefix: varchar("key_prefix", { length: 16 }).notNull(),
+    type: varchar("type", { length: 30 }).notNull(),
+    actor: text("actor").notNull().default(""), // 변경한 관리자 (자동 처리는 system)
+    detail: text("detail").notNull().default(""),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => [index("license_key_events_key_id_idx").on(table.keyId)],
+);
+
+export const insertOrderSchema = createInsertSchema(orders);
+export const insertFillSchema = createInsertSchema(fills).omit({ id: true });
+export const insertPositionSchema = createInsertSchema(positions);
+export const insertDailyPnlSchema = createInsertSchema(dailyPnl);
+export const insertStrategySignalSchema = createInsertSchema(strategySignals).omit({ id: true });
+
+export type InsertOrder = z.infer<typeof insertOrderSchema>;
+export type OrderRecord = typeof orders.$inferSelect;
+export type InsertFill = z.infer<typeof insertFillSchema>;
+export type FillRecord = typeof fills.$inferSelect;
+export type InsertPosition = z.infer<typeof insertPositionSchema>;
+export type PositionRecord = typeof positions.$inferSelect;
+export type InsertDailyPnl = z.infer<typeof insertDailyPnlSchema>;
+export type DailyPnlRecord = typeof dailyPnl.$inferSelect;
+export type InsertStrategySignal = z.infer<typeof insertStrategySignalSchema>;
+export type StrategySignalRecord = typeof strategySignals.$inferSelect;
+export type InsertLicenseKey = typeof licenseKeys.$inferInsert;
+export type LicenseKeyRecord = typeof licenseKeys.$inferSelect;
+export type InsertLicenseKeyEvent = typeof licenseKeyEvents.$inferInsert;
+export type LicenseKeyEventRecord = typeof licenseKeyEvents.$inferSelect;
@@ -0,0 +1,103 @@
+/**
+ * 브라우저 ↔ 서버 WebSocket(/ws) 메시지 프로토콜 (서버, 클라이언트 공용)
+ * 접속하면 서버가 welcome을 보내고, 클라이언트는 hello로 프로토콜 버전과 라이선스 세션 토큰을 확인받은 뒤 필요한 토픽만 subscribe
+ * 서버는 클라이언트마다 구독한 토픽의 메시지만 보냄
+ */
+import type { OrderBook } from '../server/services/orderBookService'
+import type { ManagedOrder } from '../server/services/orderManager'
+import type { OrderExecutionEvent, BalanceEvent } from '../server/services/accountRealtime'
+import type { TradingEngineEvent } from '../server/services/tradingEngine'
+import type { CircuitBreakerState } from '../server/services/circuitBreaker'
+import type { WebSocketConnectionState } from '../server/services/kiwoomWebSocketService'
+
+export const WS_PROTOCOL_VERSION = 1
+
+// 종목 토픽 (quotes:<종목코드> 실시간 체결, orderbook:<종목코드> 실시간 호가)
+export type QuoteTopic = `quotes:${string}`
+export type OrderBookTopic = `orderbook:${string}`
+
+// 계좌/엔진 토픽
+// orders: 주문 상태 변경, 주문체결 / positions: 잔고 / engine-status: 엔진 상태, 서킷 브레이커, 실시간 연결 상태 / logs: 엔진 로그
+export const WS_STATIC_TOPICS = ['orders', 'positions', 'engine-status', 'logs'] as const
+export type StaticTopic = typeof WS_STATIC_TOPICS[number]
+
+export type WsTopic = QuoteTopic | OrderBookTopic | StaticTopic
+
+const CODE_PATTERN = /^[0-9A-Za-z]{1,12}$/
+
+export function quotesTopic(code: string): QuoteTopic {
+  return `quotes:${code}`
+}
+
+export function orderBookTopic(code: string): OrderBookTopic {
+  return `orderbook:${code}`
+}
+
+/**
+ * 토픽 문자열 검증 (종목 토픽은 종목코드 형식까지 확인)
+ */
+export function isWsTopic(value: unknown): value is WsTopic {
+  if (typeof value !== 'string') {
+    return false
+  }
+  if ((WS_STATIC_TOPICS as readonly string[]).includes(value)) {
+    return true
+  }
+  const code = getTopicCode(value)
+  return code !== null && CODE_PATTERN.test(code)
+}
+
+/**
+ * 종목 토픽의 종목코드 (종목 토픽이 아니면 null)
+ */
+export function getTopicCode(topic: string): string | null {
+  const match = /^(quotes|orderbook):(.+)$/.exec(topic)
+  return match ? match[2] : null
+}
+
+// 실시간 시세 패킷 (키움 REAL 패킷에서 해당 종목 항목만 추린 것)
+export interface RealtimeQuotePacket {
+  trnm: 'REAL'
+  data: Array<{
+    type: string
+    name: string
+    item: string
+    values: Record<string, string>
+  }>
+}
+
+// 클라이언트 → 서버
+export type WsClientMessage =
+  | { type: 'hello'; version: number; client?: string; token?: string | null } // token: 라이선스 세션 토큰 (X-License-Token과 같은 값)
+  | { type: 'subscribe'; topics: WsTopic[] }
+  | { type: 'unsubscribe'; topics: WsTopic[] }
+  | { type: 'ping'; id?: string | number }
+
+export type WsErrorCode =
+  | 'invalid_message' // JSON이 아니거나 type이 없음
+  | 'unknown_type' // 지원하지 않는 메시지 type
+  | 'handshake_required' // hello 전에 구독 요청
+  | 'unauthorized' // 라이선스 세션 토큰이 없거나 유효하지 않음 (서버가 연결을 닫음)
+  | 'version_mismatch' // 프로토콜 버전 불일치 (서버가 연결을 닫음)
+  | 'invalid_topic' // 형식이 잘못된 토픽
+
+// 서버 → 클라이언트 (토픽 메시지의 data는 서버 이벤트를 그대로 전달, JSON으로 보내므로 Date 등은 문자열)
+export type WsServerMessage =
+  | { type: 'welcome'; version: number; clientId: string; serverTime: string; topics: readonly StaticTopic[] }
+  | { type: 'subscribed'; topics: WsTopic[] }
+  | { type: 'unsubscribed'; topics: WsTopic[] }
+  | { type: 'pong'; id?: string | number; serverTime: string }
+  | { type: 'error'; code: WsErrorCode; message: string }
+  | { type: 'realtime'; topic: QuoteTopic; data: RealtimeQuotePacket }
+  | { type: 'orderbook'; topic: OrderBookTopic; data: OrderBook } // 호가
+  | { type: 'order'; topic: 'orders'; data: ManagedOrder } // 주문 상태 변경
+  | { type: 'execution'; topic: 'orders'; data: OrderExecutionEvent } // 주문체결
+  | { type: 'balance'; topic: 'positions'; data: BalanceEvent } // 잔고
+  | { type: 'engine'; topic: 'engine-status' | 'logs'; data: TradingEngineEvent } // 엔진 상태/로그
+  | { type: 'breaker'; topic: 'engine-status'; data: CircuitBreakerState } // 서킷 브레이커 상태
+  | { type: 'connection'; topic: 'engine-status'; data: WebSocketConnectionState } // 키움 실시간 연결 상태
+
+export type WsTopicMessage = Extract<WsServerMessage, { topic: string }>
+
+export const WS_CLOSE_VERSION_MISMATCH = 4000 // 프로토콜 버전 불일치로 서버가 연결을 닫을 때 close 코드
+export const WS_CLOSE_UNAUTHORIZED = 4001 // 라이선스 세션 토큰이 없거나 유효하지 않아 서버가 연결을 닫을 때 close 코드